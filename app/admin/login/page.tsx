@@ -8,12 +8,14 @@ import { Input } from "@/components/ui/input"
 import { Container } from "@/components/ui/container"
 import { Eye, EyeOff, Loader2, ShieldCheck } from "lucide-react"
 import { toast } from "sonner"
+import { TwoFactorChallenge, type TwoFactorMethod } from "@/components/security/TwoFactorChallenge"
 
 export default function AdminLogin() {
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [challenge, setChallenge] = useState<{ challengeId: string; methods: TwoFactorMethod[] } | null>(null)
   const router = useRouter()
   const searchParams = useSearchParams()
 
@@ -24,6 +26,31 @@ export default function AdminLogin() {
     return url.startsWith('/') && !url.startsWith('//') && !url.includes('://')
   }
 
+  const finishLogin = (data: any) => {
+    // Check if user is admin
+    if (data.user.role !== 'admin') {
+      toast.error('Access denied. Admin credentials required.')
+      setIsLoading(false)
+      return
+    }
+
+    // Store token in localStorage (matches existing auth pattern)
+    // Note: HttpOnly cookie is also set by server for SSR/middleware
+    localStorage.setItem('auth_token', data.token)
+    
+    toast.success("Admin login successful!")
+    
+    // Redirect to the originally requested page or default to admin dashboard
+    const next = searchParams.get('next')
+    const redirectUrl = 
+      isValidRedirectUrl(next) && next.startsWith('/admin') 
+        ? next 
+        : '/admin/dashboard'
+    
+    // Use window.location.href for immediate redirect after cookie is set
+    window.location.href = redirectUrl
+  }
+
   const onSubmit = async (e: FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
@@ -45,28 +72,22 @@ export default function AdminLogin() {
         return
       }
 
-      // Check if user is admin
-      if (data.user.role !== 'admin') {
-        toast.error('Access denied. Admin credentials required.')
+      // Accounts with 2FA answer a challenge before receiving tokens
+      if (data.twoFactorRequired) {
+        setChallenge({ challengeId: data.challengeId, methods: data.methods })
         setIsLoading(false)
         return
       }
 
-      // Store token in localStorage (matches existing auth pattern)
-      // Note: HttpOnly cookie is also set by server for SSR/middleware
-      localStorage.setItem('auth_token', data.token)
-      
-      toast.success("Admin login successful!")
-      
-      // Redirect to the originally requested page or default to admin dashboard
-      const next = searchParams.get('next')
-      const redirectUrl = 
-        isValidRedirectUrl(next) && next.startsWith('/admin') 
-          ? next 
-          : '/admin/dashboard'
-      
-      // Use window.location.href for immediate redirect after cookie is set
-      window.location.href = redirectUrl
+      // 2FA is required for this account but not set up yet
+      if (data.twoFactorSetupRequired) {
+        sessionStorage.setItem('two_factor_setup_token', data.setupToken)
+        toast.info("Set up two-step verification to finish signing in")
+        router.push('/auth/two-factor-setup')
+        return
+      }
+
+      finishLogin(data)
     } catch (error) {
       console.error('Login error:', error)
       toast.error("An error occurred during login")
@@ -88,83 +109,92 @@ export default function AdminLogin() {
             <p className="text-slate-600">Sign in to access the admin dashboard</p>
           </div>
           
-          <form onSubmit={onSubmit} className="space-y-6" aria-label="Admin login form">
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-slate-700" htmlFor="email">
-                Email Address
-              </label>
-              <Input 
-                id="email" 
-                type="email" 
-                value={email} 
-                onChange={(e) => setEmail(e.target.value)} 
-                required 
-                placeholder="admin@example.com"
-                className="w-full"
-                disabled={isLoading}
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-slate-700" htmlFor="password">
-                Password
-              </label>
-              <div className="relative">
+          {challenge ? (
+            <TwoFactorChallenge
+              challengeId={challenge.challengeId}
+              methods={challenge.methods}
+              onVerified={finishLogin}
+              onCancel={() => setChallenge(null)}
+            />
+          ) : (
+            <form onSubmit={onSubmit} className="space-y-6" aria-label="Admin login form">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-700" htmlFor="email">
+                  Email Address
+                </label>
                 <Input 
-                  id="password" 
-                  type={showPassword ? "text" : "password"}
-                  value={password} 
-                  onChange={(e) => setPassword(e.target.value)} 
+                  id="email" 
+                  type="email" 
+                  value={email} 
+                  onChange={(e) => setEmail(e.target.value)} 
                   required 
-                  placeholder="Enter admin password"
-                  className="w-full pr-10"
+                  placeholder="admin@example.com"
+                  className="w-full"
                   disabled={isLoading}
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-slate-600"
-                  disabled={isLoading}
-                  aria-label={showPassword ? "Hide password" : "Show password"}
-                >
-                  {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
-                </button>
               </div>
-            </div>
-
-            <Button 
-              type="submit" 
-              className="w-full" 
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing In...
-                </>
-              ) : (
-                <>
-                  <ShieldCheck className="mr-2 h-4 w-4" />
-                  Sign In as Admin
-                </>
-              )}
-            </Button>
+            
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-700" htmlFor="password">
+                  Password
+                </label>
+                <div className="relative">
+                  <Input 
+                    id="password" 
+                    type={showPassword ? "text" : "password"}
+                    value={password} 
+                    onChange={(e) => setPassword(e.target.value)} 
+                    required 
+                    placeholder="Enter admin password"
+                    className="w-full pr-10"
+                    disabled={isLoading}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-slate-600"
+                    disabled={isLoading}
+                    aria-label={showPassword ? "Hide password" : "Show password"}
+                  >
+                    {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
+                  </button>
+                </div>
+              </div>
 
-            <div className="text-center text-sm text-slate-500 pt-4 border-t space-y-2">
-              <Link 
-                href="/auth/login" 
-                className="text-primary hover:text-primary/80 font-medium block"
-              >
-                ← Customer login
-              </Link>
-              <Link 
-                href="/vendor/login" 
-                className="text-primary hover:text-primary/80 font-medium block"
+              <Button 
+                type="submit" 
+                className="w-full" 
+                disabled={isLoading}
               >
-                Vendor login
-              </Link>
-            </div>
-          </form>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Signing In...
+                  </>
+                ) : (
+                  <>
+                    <ShieldCheck className="mr-2 h-4 w-4" />
+                    Sign In as Admin
+                  </>
+                )}
+              </Button>
+
+              <div className="text-center text-sm text-slate-500 pt-4 border-t space-y-2">
+                <Link 
+                  href="/auth/login" 
+                  className="text-primary hover:text-primary/80 font-medium block"
+                >
+                  ← Customer login
+                </Link>
+                <Link 
+                  href="/vendor/login" 
+                  className="text-primary hover:text-primary/80 font-medium block"
+                >
+                  Vendor login
+                </Link>
+              </div>
+            </form>
+          )}
         </div>
       </Container>
     </div>
@@ -0,0 +1,40 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/context/auth-context'
+import AdminReconciliation from '@/page-components/AdminReconciliation'
+import { Navbar } from '@/components/navbar'
+import { Footer } from '@/components/footer'
+import { Container } from '@/components/ui/container'
+
+export default function AdminReconciliationPage() {
+  const router = useRouter()
+  const { loading, profile, user } = useAuth()
+
+  useEffect(() => {
+    if (!loading) {
+      if (!user) {
+        router.replace('/auth/login')
+      } else if (!profile?.isAdmin) {
+        router.replace('/')
+      }
+    }
+  }, [loading, profile, user, router])
+
+  if (loading || !user || !profile?.isAdmin) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="mobile-container py-8">
+        <Container className="px-4 md:px-6">
+          <AdminReconciliation />
+        </Container>
+      </main>
+      <Footer />
+    </div>
+  )
+}
@@ -39,6 +39,13 @@ interface BlacklistedIP {
   expiresAt: string | null;
 }
 
+interface UserSessionInfo {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  lastUsedAt: string;
+}
+
 interface MonitoringData {
   timeRange: string;
   metrics: SecurityMetrics;
@@ -54,6 +61,11 @@ export default function SecurityDashboard() {
   const [error, setError] = useState<string | null>(null);
   const [timeRange, setTimeRange] = useState('24h');
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [sessionEmail, setSessionEmail] = useState('');
+  const [forceLogoutReason, setForceLogoutReason] = useState('');
+  const [userSessions, setUserSessions] = useState<UserSessionInfo[] | null>(null);
+  const [sessionMessage, setSessionMessage] = useState<string | null>(null);
+  const [requireVendorTwoFactor, setRequireVendorTwoFactor] = useState<boolean | null>(null);
 
   const fetchData = async () => {
     try {
@@ -89,6 +101,63 @@ export default function SecurityDashboard() {
     return () => clearInterval(interval);
   }, [autoRefresh, timeRange]);
 
+  const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${localStorage.getItem('auth_token')}`,
+  });
+
+  const lookupSessions = async () => {
+    setSessionMessage(null);
+    const response = await fetch(
+      `/api/admin/security/sessions?email=${encodeURIComponent(sessionEmail)}`,
+      { headers: authHeaders(), credentials: 'include' }
+    );
+    const result = await response.json();
+    if (!response.ok) {
+      setUserSessions(null);
+      setSessionMessage(result.error || 'Failed to load sessions');
+      return;
+    }
+    setUserSessions(result.sessions);
+  };
+
+  const forceLogout = async () => {
+    setSessionMessage(null);
+    const response = await fetch('/api/admin/security/sessions', {
+      method: 'POST',
+      headers: authHeaders(),
+      credentials: 'include',
+      body: JSON.stringify({ email: sessionEmail, reason: forceLogoutReason }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      setSessionMessage(result.error || 'Failed to force logout');
+      return;
+    }
+    setUserSessions([]);
+    setForceLogoutReason('');
+    setSessionMessage(`Revoked ${result.revoked} session(s)`);
+  };
+
+  useEffect(() => {
+    fetch('/api/admin/site-config', { headers: authHeaders(), credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setRequireVendorTwoFactor(result?.settings?.requireVendorTwoFactor ?? false))
+      .catch(() => setRequireVendorTwoFactor(false));
+  }, []);
+
+  const toggleVendorTwoFactor = async (required: boolean) => {
+    const response = await fetch('/api/admin/site-config', {
+      method: 'PUT',
+      headers: authHeaders(),
+      credentials: 'include',
+      body: JSON.stringify({ requireVendorTwoFactor: required }),
+    });
+    if (response.ok) {
+      setRequireVendorTwoFactor(required);
+    }
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -222,6 +291,75 @@ export default function SecurityDashboard() {
         </Card>
       </div>
 
+      {/* Two-Step Verification Policy */}
+      <Card className="p-4 mb-6">
+        <h2 className="text-xl font-bold mb-2">Two-Step Verification</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Admins always sign in with a second factor. Vendors can be required to as well; they will be
+          asked to set it up at their next login.
+        </p>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={requireVendorTwoFactor ?? false}
+            disabled={requireVendorTwoFactor === null}
+            onChange={(e) => toggleVendorTwoFactor(e.target.checked)}
+            className="rounded"
+          />
+          Require two-step verification for vendors
+        </label>
+      </Card>
+
+      {/* User Sessions */}
+      <Card className="p-4 mb-6">
+        <h2 className="text-xl font-bold mb-4">User Sessions</h2>
+        <div className="flex flex-wrap gap-2 mb-4">
+          <input
+            type="email"
+            value={sessionEmail}
+            onChange={(e) => setSessionEmail(e.target.value)}
+            placeholder="User email"
+            className="px-3 py-1 border rounded flex-1 min-w-[200px]"
+          />
+          <button
+            onClick={lookupSessions}
+            disabled={!sessionEmail}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Show Sessions
+          </button>
+          <input
+            type="text"
+            value={forceLogoutReason}
+            onChange={(e) => setForceLogoutReason(e.target.value)}
+            placeholder="Reason for force logout"
+            className="px-3 py-1 border rounded flex-1 min-w-[200px]"
+          />
+          <button
+            onClick={forceLogout}
+            disabled={!sessionEmail || forceLogoutReason.length < 5}
+            className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+          >
+            Force Logout
+          </button>
+        </div>
+        {sessionMessage && <div className="text-sm text-gray-600 mb-2">{sessionMessage}</div>}
+        {userSessions && (
+          <div className="space-y-2">
+            {userSessions.map((session) => (
+              <div key={session.id} className="flex justify-between items-center p-2 bg-gray-50 rounded">
+                <span className="text-sm">{session.device}</span>
+                <span className="text-sm font-mono">{session.ipAddress || '-'}</span>
+                <span className="text-sm">{new Date(session.lastUsedAt).toLocaleString()}</span>
+              </div>
+            ))}
+            {userSessions.length === 0 && (
+              <div className="text-gray-500 text-sm">No active sessions</div>
+            )}
+          </div>
+        )}
+      </Card>
+
       {/* Events by Type */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         <Card className="p-4">
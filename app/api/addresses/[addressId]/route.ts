@@ -30,7 +30,7 @@ export async function GET(
 ) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -129,7 +129,7 @@ export async function PUT(
 ) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -244,7 +244,7 @@ export async function DELETE(
 ) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
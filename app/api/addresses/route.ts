@@ -19,7 +19,7 @@ import { getTokenFromRequest, getUserFromToken } from '@/lib/auth';
 export async function GET(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -118,7 +118,7 @@ export async function GET(request: Request) {
 export async function POST(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
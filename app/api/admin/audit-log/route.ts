@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { listAuditLogs, type AuditScope } from '@/services/AuditLogService';
+import { requireAdminPermission } from '@/services/AdminService';
+
+/**
+ * @swagger
+ * /api/admin/audit-log:
+ *   get:
+ *     summary: Audit log
+ *     description: Operator changes (scope=admin, the default) or a shop's staff changes (scope=vendor with vendorId), newest first.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [admin, vendor]
+ *       - in: query
+ *         name: vendorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Audit entries with pagination
+ *       403:
+ *         description: Admin role does not allow viewing the audit log
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  await requireAdminPermission(user, 'operators');
+
+  const { searchParams } = new URL(request.url);
+  const scope: AuditScope = searchParams.get('scope') === 'vendor' ? 'vendor' : 'admin';
+
+  const result = await listAuditLogs({
+    scope,
+    vendorId: searchParams.get('vendorId') || undefined,
+    actorId: searchParams.get('actorId') || undefined,
+    entityType: searchParams.get('entityType') || undefined,
+    page: parseInt(searchParams.get('page') || '1'),
+    limit: parseInt(searchParams.get('limit') || '50'),
+  });
+
+  return NextResponse.json(result);
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['admin']));
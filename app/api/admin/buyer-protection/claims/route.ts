@@ -40,7 +40,7 @@ import { getAdminClaims } from '@/lib/buyer-protection';
 async function getClaimsHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
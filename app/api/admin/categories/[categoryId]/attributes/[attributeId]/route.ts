@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import {
+  CATEGORY_ATTRIBUTE_TYPES,
+  deleteCategoryAttribute,
+  updateCategoryAttribute,
+} from '@/services/CategoryAttributeService';
+
+const updateSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required').max(100).optional(),
+  type: z.enum(CATEGORY_ATTRIBUTE_TYPES).optional(),
+  unit: z.string().trim().max(20).nullable().optional(),
+  isFilterable: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+});
+
+type RouteParams = { params: { categoryId: string; attributeId: string } };
+
+/**
+ * @swagger
+ * /api/admin/categories/{categoryId}/attributes/{attributeId}:
+ *   patch:
+ *     summary: Update a category attribute
+ *     description: Changes the label, type, unit, order or whether buyers can filter on it. The key cannot change.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attributeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [text, number, boolean]
+ *               unit:
+ *                 type: string
+ *                 nullable: true
+ *               isFilterable:
+ *                 type: boolean
+ *               sortOrder:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Attribute updated
+ *       404:
+ *         description: Attribute not found in this category
+ */
+async function updateHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, updateSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const attribute = await updateCategoryAttribute(
+    user,
+    params.categoryId,
+    params.attributeId,
+    validation.data,
+    getClientIp(request)
+  );
+
+  return NextResponse.json({ message: 'Attribute updated', attribute });
+}
+
+/**
+ * @swagger
+ * /api/admin/categories/{categoryId}/attributes/{attributeId}:
+ *   delete:
+ *     summary: Remove a category attribute
+ *     description: Buyers can no longer filter on it. Product data is not changed.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attributeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attribute removed
+ *       404:
+ *         description: Attribute not found in this category
+ */
+async function deleteHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  await deleteCategoryAttribute(user, params.categoryId, params.attributeId, getClientIp(request));
+
+  return NextResponse.json({ message: 'Attribute removed' });
+}
+
+export const PATCH = withApiLogger(withRoleCheck(updateHandler, ['admin']));
+export const DELETE = withApiLogger(withRoleCheck(deleteHandler, ['admin']));
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import {
+  CATEGORY_ATTRIBUTE_TYPES,
+  createCategoryAttribute,
+  getCategoryAttributes,
+  type CategoryAttributeInput,
+} from '@/services/CategoryAttributeService';
+
+const attributeSchema = z.object({
+  key: z
+    .string()
+    .trim()
+    .min(1, 'Key is required')
+    .max(50)
+    .regex(/^[\p{L}\p{N} _-]+$/u, 'Key may only contain letters, numbers, spaces, dashes and underscores'),
+  label: z.string().trim().min(1, 'Label is required').max(100),
+  type: z.enum(CATEGORY_ATTRIBUTE_TYPES).optional(),
+  unit: z.string().trim().max(20).nullable().optional(),
+  isFilterable: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+});
+
+/**
+ * @swagger
+ * /api/admin/categories/{categoryId}/attributes:
+ *   get:
+ *     summary: List a category's attribute schema
+ *     description: The category's own attributes and those inherited from parent categories, in display order.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attributes
+ *       403:
+ *         description: Admin role does not include the catalog
+ */
+async function listHandler(
+  request: Request,
+  { params }: { params: { categoryId: string } }
+): Promise<NextResponse> {
+  await requireAuth(request);
+
+  const attributes = await getCategoryAttributes(params.categoryId);
+
+  return NextResponse.json({ attributes });
+}
+
+/**
+ * @swagger
+ * /api/admin/categories/{categoryId}/attributes:
+ *   post:
+ *     summary: Add an attribute to a category
+ *     description: |
+ *       Makes a key of product specifications or variant attributes filterable
+ *       in the category and its subcategories. Keys are matched case-insensitively.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - key
+ *               - label
+ *             properties:
+ *               key:
+ *                 type: string
+ *                 example: storage
+ *               label:
+ *                 type: string
+ *                 example: Storage
+ *               type:
+ *                 type: string
+ *                 enum: [text, number, boolean]
+ *               unit:
+ *                 type: string
+ *                 example: GB
+ *               isFilterable:
+ *                 type: boolean
+ *               sortOrder:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Attribute added
+ *       404:
+ *         description: Category not found
+ *       409:
+ *         description: The category already has this key
+ */
+async function createHandler(
+  request: Request,
+  { params }: { params: { categoryId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, attributeSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const attribute = await createCategoryAttribute(
+    user,
+    params.categoryId,
+    validation.data as CategoryAttributeInput,
+    getClientIp(request)
+  );
+
+  return NextResponse.json({ message: 'Attribute added', attribute }, { status: 201 });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['admin']));
+export const POST = withApiLogger(withRoleCheck(createHandler, ['admin']));
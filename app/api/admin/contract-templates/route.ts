@@ -77,7 +77,7 @@ import { ContractType } from '@prisma/client';
 async function listTemplatesHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -127,7 +127,7 @@ async function listTemplatesHandler(request: Request): Promise<NextResponse> {
 async function createTemplateHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
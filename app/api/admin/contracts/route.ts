@@ -53,7 +53,7 @@ import { withRoleCheck } from '@/lib/middleware';
 async function listAllContractsHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
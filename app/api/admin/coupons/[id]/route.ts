@@ -26,7 +26,7 @@ export async function GET(
   request: Request,
   { params }: { params: { id: string } }
 ) {
-  const { error } = withAdmin(request);
+  const { error } = await withAdmin(request);
   if (error) return error;
 
   try {
@@ -97,7 +97,7 @@ export async function PUT(
   request: Request,
   { params }: { params: { id: string } }
 ) {
-  const { error } = withAdmin(request);
+  const { error } = await withAdmin(request);
   if (error) return error;
 
   try {
@@ -184,7 +184,7 @@ export async function DELETE(
   request: Request,
   { params }: { params: { id: string } }
 ) {
-  const { error } = withAdmin(request);
+  const { error } = await withAdmin(request);
   if (error) return error;
 
   try {
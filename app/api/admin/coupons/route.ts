@@ -40,7 +40,7 @@ function isAdmin(email: string): boolean {
 export async function GET(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -96,7 +96,7 @@ export async function GET(request: Request) {
 export async function POST(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -108,7 +108,8 @@ async function processRefundHandler(
       dispute.orderId,
       refundAmount,
       order.paymentMethod || 'stripe',
-      order.paymentReference || order.stripeSessionId || order.id
+      order.paymentReference || order.stripeSessionId || order.id,
+      `dispute-${disputeId}`
     );
 
     if (!refundResult.success) {
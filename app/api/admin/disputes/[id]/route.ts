@@ -58,7 +58,7 @@ async function resolveDisputeHandler(
 ): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -125,6 +125,7 @@ async function resolveDisputeHandler(
       prisma.profile.findUnique({
         where: { userId: dispute.userId },
         select: {
+          userId: true,
           displayName: true,
           user: { select: { email: true } },
         },
@@ -132,6 +133,7 @@ async function resolveDisputeHandler(
       prisma.profile.findUnique({
         where: { id: dispute.vendorId },
         select: {
+          userId: true,
           displayName: true,
           user: { select: { email: true } },
         },
@@ -143,7 +145,8 @@ async function resolveDisputeHandler(
     ]);
 
     if (customerProfile && vendorProfile && orderInfo) {
-      const { queueEmail, createDisputeResolvedEmail } = await import('@/lib/email');
+      const { queueEmail } = await import('@/lib/email');
+      const { renderEmail } = await import('@/services/EmailTemplateService');
       
       // Determine outcome based on resolution text and refund
       let outcome: 'customer_favor' | 'vendor_favor' | 'partial_refund' | 'other' = 'other';
@@ -160,24 +163,21 @@ async function resolveDisputeHandler(
       }
 
       // Notify customer
-      const customerEmail = createDisputeResolvedEmail(
+      const details = { disputeId: dispute.id, orderNumber: orderInfo.orderNumber, resolution, outcome };
+      const customerEmail = await renderEmail(
+        'dispute_resolved',
         customerProfile.user.email,
-        customerProfile.displayName || 'Customer',
-        dispute.id,
-        orderInfo.orderNumber,
-        resolution,
-        outcome
+        { ...details, recipientName: customerProfile.displayName || 'Customer' },
+        { userId: customerProfile.userId }
       );
       await queueEmail(customerEmail);
 
       // Notify vendor
-      const vendorEmail = createDisputeResolvedEmail(
+      const vendorEmail = await renderEmail(
+        'dispute_resolved',
         vendorProfile.user.email,
-        vendorProfile.displayName || 'Vendor',
-        dispute.id,
-        orderInfo.orderNumber,
-        resolution,
-        outcome
+        { ...details, recipientName: vendorProfile.displayName || 'Vendor' },
+        { userId: vendorProfile.userId }
       );
       await queueEmail(vendorEmail);
     }
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getCampaignAnalytics } from '@/services/EmailTrackingService';
+
+type RouteParams = { params: { id: string } };
+
+/**
+ * @swagger
+ * /api/admin/email-campaigns/{id}/analytics:
+ *   get:
+ *     summary: Campaign engagement analytics
+ *     description: |
+ *       Sent, delivered, unique opens and clicks, unsubscribes, bounces and
+ *       complaints, with open, click, click-to-open, unsubscribe and bounce
+ *       rates in percent, the campaign's queue by status, its most clicked
+ *       links and opens and clicks per day.
+ *     tags: [Admin, Email Marketing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campaign analytics
+ *       404:
+ *         description: Campaign not found
+ */
+async function analyticsHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  await requireAuth(request);
+
+  const analytics = await getCampaignAnalytics(params.id);
+
+  return NextResponse.json(analytics);
+}
+
+export const GET = withApiLogger(withRoleCheck(analyticsHandler, ['admin']));
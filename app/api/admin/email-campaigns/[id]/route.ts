@@ -29,7 +29,7 @@ export async function GET(
 ) {
   try {
     const token = getTokenFromRequest(req)
-    const payload = getUserFromToken(token)
+    const payload = await getUserFromToken(token)
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json(
@@ -91,7 +91,7 @@ export async function PATCH(
 ) {
   try {
     const token = getTokenFromRequest(req)
-    const payload = getUserFromToken(token)
+    const payload = await getUserFromToken(token)
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json(
@@ -165,7 +165,7 @@ export async function DELETE(
 ) {
   try {
     const token = getTokenFromRequest(req)
-    const payload = getUserFromToken(token)
+    const payload = await getUserFromToken(token)
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json(
@@ -44,7 +44,7 @@ export async function POST(
 ) {
   try {
     const token = getTokenFromRequest(req)
-    const payload = getUserFromToken(token)
+    const payload = await getUserFromToken(token)
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json(
@@ -141,8 +141,14 @@ async function queueCampaignEmails(campaignId: string) {
     throw new Error('Campaign not found')
   }
 
-  // Get target recipients based on segment criteria
-  const recipients = await getTargetRecipients(campaign.segmentCriteria)
+  // Get target recipients based on segment criteria, leaving out suppressed addresses
+  const targets = await getTargetRecipients(campaign.segmentCriteria)
+  const suppressed = await prisma.emailSuppression.findMany({
+    where: { email: { in: targets.map((email) => email.toLowerCase()) } },
+    select: { email: true },
+  })
+  const suppressedEmails = new Set(suppressed.map((s) => s.email))
+  const recipients = targets.filter((email) => !suppressedEmails.has(email.toLowerCase()))
 
   // Update campaign total recipients
   await prisma.emailCampaign.update({
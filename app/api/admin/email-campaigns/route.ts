@@ -45,7 +45,7 @@ import { getTokenFromRequest, getUserFromToken, isAdmin } from '@/lib/auth'
 export async function GET(req: NextRequest) {
   try {
     const token = getTokenFromRequest(req)
-    const payload = getUserFromToken(token)
+    const payload = await getUserFromToken(token)
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json(
@@ -146,7 +146,7 @@ export async function GET(req: NextRequest) {
 export async function POST(req: NextRequest) {
   try {
     const token = getTokenFromRequest(req)
-    const payload = getUserFromToken(token)
+    const payload = await getUserFromToken(token)
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json(
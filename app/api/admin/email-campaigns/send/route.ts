@@ -67,7 +67,7 @@ const DEFAULT_RECOMMENDATION_LIMIT = 4;
 export async function POST(req: NextRequest) {
   try {
     const token = getTokenFromRequest(req);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json(
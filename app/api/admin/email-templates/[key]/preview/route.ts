@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { emailTemplateSchemas, validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { previewEmailTemplate, type EmailTemplatePreviewInput } from '@/services/EmailTemplateService';
+
+type RouteParams = { params: { key: string } };
+
+/**
+ * @swagger
+ * /api/admin/email-templates/{key}/preview:
+ *   post:
+ *     summary: Preview an email template
+ *     description: |
+ *       Renders the draft in the body with the template's sample values and
+ *       any values given in data. Without a draft, renders what recipients in
+ *       the language currently get.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - language
+ *             properties:
+ *               language:
+ *                 type: string
+ *                 enum: [en, am, om, ti]
+ *               subject:
+ *                 type: string
+ *               htmlContent:
+ *                 type: string
+ *               textContent:
+ *                 type: string
+ *               data:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Rendered subject, HTML and text
+ *       400:
+ *         description: Invalid template syntax, undeclared or missing variables
+ *       404:
+ *         description: Unknown template key
+ */
+async function previewHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  await requireAuth(request);
+
+  const validation = await validateRequestBody(request, emailTemplateSchemas.preview);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const preview = await previewEmailTemplate(params.key, validation.data as EmailTemplatePreviewInput);
+
+  return NextResponse.json({ preview });
+}
+
+export const POST = withApiLogger(withRoleCheck(previewHandler, ['admin']));
@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import { emailTemplateSchemas, validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import {
+  deleteEmailTemplate,
+  getEmailTemplate,
+  saveEmailTemplate,
+  type EmailTemplateInput,
+} from '@/services/EmailTemplateService';
+
+type RouteParams = { params: { key: string } };
+
+/**
+ * @swagger
+ * /api/admin/email-templates/{key}:
+ *   get:
+ *     summary: Get an email template
+ *     description: The variables it can use, sample values, the built-in email and the edited version per language.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: order_confirmation
+ *     responses:
+ *       200:
+ *         description: Email template
+ *       404:
+ *         description: Unknown template key
+ */
+async function getHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  await requireAuth(request);
+
+  const template = await getEmailTemplate(params.key);
+
+  return NextResponse.json({ template });
+}
+
+/**
+ * @swagger
+ * /api/admin/email-templates/{key}:
+ *   put:
+ *     summary: Save an email template for a language
+ *     description: |
+ *       Recipients whose language preference matches get this version;
+ *       other languages fall back to English and then the built-in email.
+ *       Write {{name}} for a variable, {{#if name}}…{{/if}} and
+ *       {{#each list}}…{{/each}} for blocks. Only the template's declared
+ *       variables may be used.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - language
+ *               - subject
+ *               - htmlContent
+ *               - textContent
+ *             properties:
+ *               language:
+ *                 type: string
+ *                 enum: [en, am, om, ti]
+ *               subject:
+ *                 type: string
+ *                 example: "Order Confirmation - {{orderNumber}}"
+ *               htmlContent:
+ *                 type: string
+ *               textContent:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Template saved
+ *       400:
+ *         description: Invalid template syntax or undeclared variables
+ *       404:
+ *         description: Unknown template key
+ */
+async function saveHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, emailTemplateSchemas.save);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const template = await saveEmailTemplate(
+    user,
+    params.key,
+    validation.data as EmailTemplateInput,
+    getClientIp(request)
+  );
+
+  return NextResponse.json({ message: 'Email template saved', template });
+}
+
+/**
+ * @swagger
+ * /api/admin/email-templates/{key}:
+ *   delete:
+ *     summary: Remove a language's email template
+ *     description: Recipients in that language get the English version or the built-in email again.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: language
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [en, am, om, ti]
+ *     responses:
+ *       200:
+ *         description: Template removed
+ *       404:
+ *         description: No template for this key and language
+ */
+async function deleteHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const language = new URL(request.url).searchParams.get('language') || 'en';
+
+  await deleteEmailTemplate(user, params.key, language, getClientIp(request));
+
+  return NextResponse.json({ message: 'Email template removed' });
+}
+
+export const GET = withApiLogger(withRoleCheck(getHandler, ['admin']));
+export const PUT = withApiLogger(withRoleCheck(saveHandler, ['admin']));
+export const DELETE = withApiLogger(withRoleCheck(deleteHandler, ['admin']));
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { emailTemplateSchemas, validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { sendTestEmail, type EmailTemplatePreviewInput } from '@/services/EmailTemplateService';
+
+type RouteParams = { params: { key: string } };
+
+/**
+ * @swagger
+ * /api/admin/email-templates/{key}/test:
+ *   post:
+ *     summary: Send a test email
+ *     description: |
+ *       Renders the draft (or the current template for the language) with
+ *       sample values and sends it straight away, to the given address or
+ *       the signed-in admin. The subject is prefixed with [Test].
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - language
+ *             properties:
+ *               language:
+ *                 type: string
+ *                 enum: [en, am, om, ti]
+ *               to:
+ *                 type: string
+ *                 format: email
+ *               subject:
+ *                 type: string
+ *               htmlContent:
+ *                 type: string
+ *               textContent:
+ *                 type: string
+ *               data:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Test email sent
+ *       400:
+ *         description: Invalid template, no recipient, or sending failed
+ *       404:
+ *         description: Unknown template key
+ */
+async function testHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, emailTemplateSchemas.test);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const result = await sendTestEmail(user, params.key, validation.data as EmailTemplatePreviewInput & { to?: string });
+
+  return NextResponse.json({ message: `Test email sent to ${result.to}`, ...result });
+}
+
+export const POST = withApiLogger(withRoleCheck(testHandler, ['admin']));
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { listEmailTemplates } from '@/services/EmailTemplateService';
+
+/**
+ * @swagger
+ * /api/admin/email-templates:
+ *   get:
+ *     summary: List email templates
+ *     description: |
+ *       Every transactional email the platform sends, with the languages
+ *       that have an edited version. Keys without one send the built-in email.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Email templates
+ *       403:
+ *         description: Admin role does not include settings
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  await requireAuth(request);
+
+  const templates = await listEmailTemplates();
+
+  return NextResponse.json({ templates });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['admin']));
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck } from '@/lib/middleware';
+import { BadRequestError } from '@/lib/errors';
+import { getAccountStatement } from '@/services/LedgerService';
+
+/**
+ * @swagger
+ * /api/admin/ledger/accounts/{code}/statement:
+ *   get:
+ *     summary: Ledger account statement
+ *     description: Journal lines posted to an account in date order, with opening, running and closing balances (admin only)
+ *     tags: [Admin, Ledger]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         description: Account code, e.g. 2100 for vendor payables
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: subAccount
+ *         description: Vendor profile id or payment provider
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Account statement
+ *       400:
+ *         description: Invalid date
+ *       404:
+ *         description: Unknown account
+ */
+async function statementHandler(
+  request: Request,
+  { params }: { params: { code: string } }
+): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+
+  const dates: Record<'from' | 'to', Date | undefined> = { from: undefined, to: undefined };
+  for (const key of ['from', 'to'] as const) {
+    const value = searchParams.get(key);
+    if (!value) continue;
+    dates[key] = new Date(value);
+    if (Number.isNaN(dates[key]!.getTime())) {
+      throw new BadRequestError(`${key} must be a valid date`);
+    }
+  }
+
+  const statement = await getAccountStatement(params.code, {
+    subAccount: searchParams.get('subAccount') || undefined,
+    ...dates,
+    page: parseInt(searchParams.get('page') || '1'),
+    perPage: parseInt(searchParams.get('perPage') || '100'),
+  });
+
+  return NextResponse.json(statement);
+}
+
+export const GET = withApiLogger(withRoleCheck(statementHandler, ['admin']));
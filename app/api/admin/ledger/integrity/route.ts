@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck } from '@/lib/middleware';
+import { checkLedgerIntegrity } from '@/services/LedgerService';
+
+/**
+ * @swagger
+ * /api/admin/ledger/integrity:
+ *   get:
+ *     summary: Check ledger integrity
+ *     description: Verifies that every journal's debits equal its credits, that no journal is empty and that the ledger as a whole balances (admin only)
+ *     tags: [Admin, Ledger]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Integrity report; `balanced` is false when any invariant fails
+ *       403:
+ *         description: Forbidden - admin role required
+ */
+async function integrityHandler(): Promise<NextResponse> {
+  const report = await checkLedgerIntegrity();
+
+  return NextResponse.json(report);
+}
+
+export const GET = withApiLogger(withRoleCheck(integrityHandler, ['admin']));
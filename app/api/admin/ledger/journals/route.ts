@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck } from '@/lib/middleware';
+import { listJournalEntries } from '@/services/LedgerService';
+
+/**
+ * @swagger
+ * /api/admin/ledger/journals:
+ *   get:
+ *     summary: List journal entries
+ *     description: Posted journals with their lines, newest first. Filter by source record to see every entry for an order, refund or payout (admin only).
+ *     tags: [Admin, Ledger]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: eventType
+ *         schema:
+ *           type: string
+ *           enum: [payment_capture, commission, refund, payout, gift_card_issue, gift_card_redeem, gift_card_refund]
+ *       - in: query
+ *         name: sourceId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Journal entries with pagination
+ *       403:
+ *         description: Forbidden - admin role required
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+
+  const result = await listJournalEntries({
+    eventType: searchParams.get('eventType') || undefined,
+    sourceId: searchParams.get('sourceId') || undefined,
+    page: parseInt(searchParams.get('page') || '1'),
+    perPage: parseInt(searchParams.get('perPage') || '25'),
+  });
+
+  return NextResponse.json(result);
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['admin']));
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck } from '@/lib/middleware';
+import { BadRequestError } from '@/lib/errors';
+import { getTrialBalance } from '@/services/LedgerService';
+
+/**
+ * @swagger
+ * /api/admin/ledger/trial-balance:
+ *   get:
+ *     summary: Trial balance
+ *     description: Debit and credit totals per ledger account, with each account's balance on its normal side (admin only)
+ *     tags: [Admin, Ledger]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         description: Include journals posted up to this time. Defaults to now.
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: bySubAccount
+ *         description: Break accounts down by vendor or payment provider
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Trial balance with totals
+ *       400:
+ *         description: Invalid date
+ *       403:
+ *         description: Forbidden - admin role required
+ */
+async function trialBalanceHandler(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const asOfParam = searchParams.get('asOf');
+  const asOf = asOfParam ? new Date(asOfParam) : undefined;
+  if (asOf && Number.isNaN(asOf.getTime())) {
+    throw new BadRequestError('asOf must be a valid date');
+  }
+
+  const trialBalance = await getTrialBalance({
+    asOf,
+    bySubAccount: searchParams.get('bySubAccount') === 'true',
+  });
+
+  return NextResponse.json(trialBalance);
+}
+
+export const GET = withApiLogger(withRoleCheck(trialBalanceHandler, ['admin']));
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { ADMIN_SCOPES } from '@/lib/permissions';
+import {
+  requireAdminPermission,
+  revokeOperatorAccess,
+  setOperatorScope,
+} from '@/services/AdminService';
+
+const scopeSchema = z.object({
+  scope: z.enum(ADMIN_SCOPES),
+});
+
+/**
+ * @swagger
+ * /api/admin/operators/{userId}:
+ *   patch:
+ *     summary: Change an operator's scope
+ *     description: The operator is signed out so their next login carries the new scope.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scope
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [super_admin, support_agent, finance, catalog_moderator]
+ *     responses:
+ *       200:
+ *         description: Scope changed
+ *       403:
+ *         description: Admin role does not allow managing operators
+ *       404:
+ *         description: Operator not found
+ *       409:
+ *         description: Would leave the platform without a super admin
+ */
+async function updateHandler(
+  request: Request,
+  { params }: { params: { userId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  await requireAdminPermission(user, 'operators');
+
+  const validation = await validateRequestBody(request, scopeSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const operator = await setOperatorScope(user, params.userId, validation.data.scope, getClientIp(request));
+
+  return NextResponse.json({ message: 'Operator scope updated', operator });
+}
+
+/**
+ * @swagger
+ * /api/admin/operators/{userId}:
+ *   delete:
+ *     summary: Remove an operator
+ *     description: Takes admin access away. The account stays as a customer account and is signed out everywhere.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Operator removed
+ *       403:
+ *         description: Admin role does not allow managing operators
+ *       404:
+ *         description: Operator not found
+ *       409:
+ *         description: Cannot remove yourself or the last super admin
+ */
+async function revokeHandler(
+  request: Request,
+  { params }: { params: { userId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  await requireAdminPermission(user, 'operators');
+
+  await revokeOperatorAccess(user, params.userId, getClientIp(request));
+
+  return NextResponse.json({ message: 'Operator removed' });
+}
+
+export const PATCH = withApiLogger(withRoleCheck(updateHandler, ['admin']));
+export const DELETE = withApiLogger(withRoleCheck(revokeHandler, ['admin']));
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { ADMIN_SCOPES } from '@/lib/permissions';
+import { grantOperatorAccess, listOperators, requireAdminPermission } from '@/services/AdminService';
+
+const grantSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  scope: z.enum(ADMIN_SCOPES),
+});
+
+/**
+ * @swagger
+ * /api/admin/operators:
+ *   get:
+ *     summary: List platform operators
+ *     description: Every admin account with its scope. Requires the operators permission (super admins).
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Operators
+ *       403:
+ *         description: Admin role does not allow managing operators
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  await requireAdminPermission(user, 'operators');
+
+  const operators = await listOperators();
+
+  return NextResponse.json({ operators });
+}
+
+/**
+ * @swagger
+ * /api/admin/operators:
+ *   post:
+ *     summary: Add an operator
+ *     description: Gives an existing customer account admin access limited to a scope. The account is signed out so its next login carries the new role.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - scope
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               scope:
+ *                 type: string
+ *                 enum: [super_admin, support_agent, finance, catalog_moderator]
+ *     responses:
+ *       201:
+ *         description: Operator added
+ *       403:
+ *         description: Admin role does not allow managing operators
+ *       404:
+ *         description: No account uses this email
+ *       409:
+ *         description: Already an operator, or a vendor account
+ */
+async function grantHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  await requireAdminPermission(user, 'operators');
+
+  const validation = await validateRequestBody(request, grantSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const operator = await grantOperatorAccess(
+    user,
+    validation.data.email,
+    validation.data.scope,
+    getClientIp(request)
+  );
+
+  return NextResponse.json({ message: 'Operator added', operator }, { status: 201 });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['admin']));
+export const POST = withApiLogger(withRoleCheck(grantHandler, ['admin']));
@@ -35,7 +35,7 @@ import { withAdmin } from '@/lib/middleware';
  *         description: Unauthorized
  */
 export async function GET(request: Request) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdmin(request);
   if (error) return error;
 
   try {
@@ -5,7 +5,7 @@ import * as ProductService from '@/services/ProductService';
 
 // Get all products for admin (with pagination and filtering)
 export async function GET(request: Request) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdmin(request);
   if (error) return error;
 
   try {
@@ -36,7 +36,7 @@ export async function GET(request: Request) {
 
 // Update product (admin can update any product)
 export async function PATCH(request: Request) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdmin(request);
   if (error) return error;
 
   const startTime = Date.now();
@@ -85,7 +85,7 @@ export async function PATCH(request: Request) {
 
 // Delete product (admin can delete any product)
 export async function DELETE(request: Request) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdmin(request);
   if (error) return error;
 
   const startTime = Date.now();
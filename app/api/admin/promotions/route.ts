@@ -11,7 +11,7 @@ function isAdmin(email: string): boolean {
 export async function GET(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -64,7 +64,7 @@ export async function GET(request: Request) {
 export async function POST(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload || !isAdmin(payload.role)) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -86,6 +86,7 @@ export async function POST(request: Request) {
       startsAt,
       endsAt,
       priority,
+      isExclusive,
     } = body;
 
     // Validate required fields
@@ -116,6 +117,7 @@ export async function POST(request: Request) {
         startsAt: new Date(startsAt),
         endsAt: endsAt ? new Date(endsAt) : null,
         priority: priority || 0,
+        isExclusive: isExclusive === true,
       },
     });
 
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth, withRoleCheck } from '@/lib/middleware';
+import { reconciliationSchemas, validateRequestBody } from '@/lib/validation';
+import { resolveReconciliationException, type ResolveExceptionInput } from '@/services/ReconciliationService';
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/exceptions/{id}:
+ *   patch:
+ *     summary: Resolve a reconciliation exception
+ *     description: Mark an open exception resolved or ignored, with a note for the audit trail (admin only)
+ *     tags: [Admin, Reconciliation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [resolved, ignored]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Exception updated
+ *       404:
+ *         description: Exception not found
+ *       409:
+ *         description: Exception is already closed
+ */
+async function resolveHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, reconciliationSchemas.resolveException);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const exception = await resolveReconciliationException(params.id, user.userId, validation.data as ResolveExceptionInput);
+
+  return NextResponse.json({ exception });
+}
+
+export const PATCH = withApiLogger(withRoleCheck(resolveHandler, ['admin']));
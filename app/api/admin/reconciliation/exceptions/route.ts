@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck } from '@/lib/middleware';
+import { exportToCSV } from '@/lib/report-export';
+import {
+  listReconciliationExceptions,
+  toExceptionReportRows,
+  type ExceptionFilters,
+} from '@/services/ReconciliationService';
+
+const EXCEPTION_TYPES = [
+  'unmatched_settlement',
+  'unsettled_order',
+  'amount_mismatch',
+  'duplicate_settlement',
+  'unpaid_order_settled',
+] as const;
+const EXCEPTION_STATUSES = ['open', 'resolved', 'ignored'] as const;
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/exceptions:
+ *   get:
+ *     summary: Reconciliation exception report
+ *     description: |
+ *       Settlement lines and paid orders that did not reconcile, with a per-type summary.
+ *       Pass `format=csv` to download the report (admin only).
+ *     tags: [Admin, Reconciliation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         description: Defaults to open
+ *         schema:
+ *           type: string
+ *           enum: [open, resolved, ignored]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [unmatched_settlement, unsettled_order, amount_mismatch, duplicate_settlement, unpaid_order_settled]
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *           enum: [telebirr, cbe, awash]
+ *       - in: query
+ *         name: fileId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: search
+ *         description: Provider reference or order number
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Exceptions with summary and pagination, or a CSV file
+ *       403:
+ *         description: Forbidden - admin role required
+ */
+async function reportHandler(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+  const type = searchParams.get('type');
+  const csv = searchParams.get('format') === 'csv';
+
+  const filters: ExceptionFilters = {
+    status: EXCEPTION_STATUSES.includes(status as any)
+      ? (status as (typeof EXCEPTION_STATUSES)[number])
+      : undefined,
+    type: EXCEPTION_TYPES.includes(type as any) ? (type as (typeof EXCEPTION_TYPES)[number]) : undefined,
+    provider: searchParams.get('provider') || undefined,
+    fileId: searchParams.get('fileId') || undefined,
+    search: searchParams.get('search') || undefined,
+    page: csv ? 1 : parseInt(searchParams.get('page') || '1'),
+    perPage: csv ? 500 : parseInt(searchParams.get('perPage') || '50'),
+  };
+
+  const result = await listReconciliationExceptions(filters);
+
+  if (csv) {
+    const date = new Date().toISOString().split('T')[0];
+    return new NextResponse(exportToCSV(toExceptionReportRows(result.exceptions)), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="reconciliation-exceptions-${date}.csv"`,
+      },
+    });
+  }
+
+  return NextResponse.json(result);
+}
+
+export const GET = withApiLogger(withRoleCheck(reportHandler, ['admin']));
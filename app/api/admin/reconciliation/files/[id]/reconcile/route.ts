@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck } from '@/lib/middleware';
+import { reconcileSettlementFile } from '@/services/ReconciliationService';
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/files/{id}/reconcile:
+ *   post:
+ *     summary: Re-run reconciliation
+ *     description: |
+ *       Matches the file's lines against orders again, e.g. after late payment webhooks.
+ *       Open exceptions are rebuilt; resolved and ignored ones are kept (admin only).
+ *     tags: [Admin, Reconciliation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Reconciliation summary
+ *       404:
+ *         description: Settlement file not found
+ */
+async function reconcileHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const summary = await reconcileSettlementFile(params.id);
+
+  return NextResponse.json({ summary });
+}
+
+export const POST = withApiLogger(withRoleCheck(reconcileHandler, ['admin']));
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck } from '@/lib/middleware';
+import { getSettlementFile } from '@/services/ReconciliationService';
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/files/{id}:
+ *   get:
+ *     summary: Get a settlement file
+ *     description: Settlement file with every line, its matched order and the exceptions it raised (admin only)
+ *     tags: [Admin, Reconciliation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Settlement file
+ *       404:
+ *         description: Settlement file not found
+ */
+async function getHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const file = await getSettlementFile(params.id);
+
+  return NextResponse.json({ file });
+}
+
+export const GET = withApiLogger(withRoleCheck(getHandler, ['admin']));
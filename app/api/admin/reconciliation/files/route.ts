@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth, withRoleCheck } from '@/lib/middleware';
+import { reconciliationSchemas, validateRequestBody } from '@/lib/validation';
+import { importSettlementFile, listSettlementFiles, type ImportSettlementInput } from '@/services/ReconciliationService';
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/files:
+ *   get:
+ *     summary: List settlement files
+ *     description: Uploaded provider settlement files with their reconciliation counts, newest first (admin only)
+ *     tags: [Admin, Reconciliation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *           enum: [telebirr, cbe, awash]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Settlement files with pagination
+ *       403:
+ *         description: Forbidden - admin role required
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+
+  const result = await listSettlementFiles({
+    provider: searchParams.get('provider') || undefined,
+    page: parseInt(searchParams.get('page') || '1'),
+    perPage: parseInt(searchParams.get('perPage') || '25'),
+  });
+
+  return NextResponse.json(result);
+}
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/files:
+ *   post:
+ *     summary: Upload a settlement file
+ *     description: |
+ *       Imports a provider settlement CSV (TeleBirr or CBE Birr report, or a bank statement) and
+ *       reconciles it against paid orders. Lines are matched by provider reference, then order number.
+ *       The period defaults to the first and last settlement dates in the file (admin only).
+ *     tags: [Admin, Reconciliation]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [provider, format, fileName, content]
+ *             properties:
+ *               provider:
+ *                 type: string
+ *                 enum: [telebirr, cbe, awash]
+ *               format:
+ *                 type: string
+ *                 enum: [telebirr, cbe, bank]
+ *               fileName:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *                 description: CSV file contents
+ *               periodStart:
+ *                 type: string
+ *                 format: date-time
+ *               periodEnd:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: File imported and reconciled
+ *       400:
+ *         description: File has no usable lines
+ *       403:
+ *         description: Forbidden - admin role required
+ */
+async function uploadHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, reconciliationSchemas.uploadSettlementFile);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const result = await importSettlementFile(validation.data as ImportSettlementInput, user.userId);
+
+  return NextResponse.json(result, { status: 201 });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['admin']));
+export const POST = withApiLogger(withRoleCheck(uploadHandler, ['admin']));
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getSearchAnalytics } from '@/services/SearchAnalyticsService';
+
+/**
+ * @swagger
+ * /api/admin/search/analytics:
+ *   get:
+ *     summary: Search analytics
+ *     description: |
+ *       Search volume, zero-result rate and click-through rate over a period,
+ *       the most searched queries and the queries that most often found nothing.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Queries per list
+ *     responses:
+ *       200:
+ *         description: Search analytics
+ *       403:
+ *         description: Admin role does not include the catalog
+ */
+async function handler(request: Request): Promise<NextResponse> {
+  await requireAuth(request);
+
+  const { searchParams } = new URL(request.url);
+  const analytics = await getSearchAnalytics({
+    days: parseInt(searchParams.get('days') || '30') || 30,
+    limit: parseInt(searchParams.get('limit') || '20') || 20,
+  });
+
+  return NextResponse.json(analytics);
+}
+
+export const GET = withApiLogger(withRoleCheck(handler, ['admin']));
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { searchRuleSchemas, validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { deleteSearchRule, updateSearchRule } from '@/services/SearchAnalyticsService';
+
+type RouteParams = { params: { ruleId: string } };
+
+/**
+ * @swagger
+ * /api/admin/search/rules/{ruleId}:
+ *   patch:
+ *     summary: Update a search rule
+ *     description: Changes the redirect, pinned products, synonyms or whether the rule is active. The query cannot change.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               redirectUrl:
+ *                 type: string
+ *                 nullable: true
+ *               pinnedProductIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               synonyms:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Rule updated
+ *       400:
+ *         description: The rule would have no action, or unknown pinned products
+ *       404:
+ *         description: Rule not found
+ */
+async function updateHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, searchRuleSchemas.update);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const rule = await updateSearchRule(user, params.ruleId, validation.data, getClientIp(request));
+
+  return NextResponse.json({ message: 'Search rule updated', rule });
+}
+
+/**
+ * @swagger
+ * /api/admin/search/rules/{ruleId}:
+ *   delete:
+ *     summary: Remove a search rule
+ *     description: Searches for the query go back to normal results. Logged searches keep their history.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule removed
+ *       404:
+ *         description: Rule not found
+ */
+async function deleteHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  await deleteSearchRule(user, params.ruleId, getClientIp(request));
+
+  return NextResponse.json({ message: 'Search rule removed' });
+}
+
+export const PATCH = withApiLogger(withRoleCheck(updateHandler, ['admin']));
+export const DELETE = withApiLogger(withRoleCheck(deleteHandler, ['admin']));
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { searchRuleSchemas, validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { createSearchRule, listSearchRules, type SearchRuleInput } from '@/services/SearchAnalyticsService';
+
+/**
+ * @swagger
+ * /api/admin/search/rules:
+ *   get:
+ *     summary: List search rules
+ *     description: Per-query redirects, pinned products and synonyms, with how many searches each has matched.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Search rules
+ *       403:
+ *         description: Admin role does not include the catalog
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  await requireAuth(request);
+
+  const rules = await listSearchRules();
+
+  return NextResponse.json({ rules });
+}
+
+/**
+ * @swagger
+ * /api/admin/search/rules:
+ *   post:
+ *     summary: Add a search rule
+ *     description: |
+ *       Applies to searches for the query, matched after Amharic and case
+ *       normalization. A redirect sends the shopper to a page instead of
+ *       results; pinned products are listed first; synonyms widen the match.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - query
+ *             properties:
+ *               query:
+ *                 type: string
+ *                 example: iphone
+ *               redirectUrl:
+ *                 type: string
+ *                 example: /categories/phones
+ *               pinnedProductIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               synonyms:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [apple phone]
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Rule added
+ *       400:
+ *         description: No action given or unknown pinned products
+ *       409:
+ *         description: The query already has a rule
+ */
+async function createHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, searchRuleSchemas.create);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const rule = await createSearchRule(user, validation.data as SearchRuleInput, getClientIp(request));
+
+  return NextResponse.json({ message: 'Search rule added', rule }, { status: 201 });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['admin']));
+export const POST = withApiLogger(withRoleCheck(createHandler, ['admin']));
@@ -0,0 +1,132 @@
+/**
+ * User Session Management API
+ * GET /api/admin/security/sessions?email= - List a user's active sessions
+ * POST /api/admin/security/sessions - Force logout a user from every device
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { validateRequestBody } from '@/lib/validation';
+import { logSecurityEvent } from '@/lib/security';
+import { getClientIp } from '@/lib/rate-limit';
+import { BadRequestError, NotFoundError } from '@/lib/errors';
+import prisma from '@/lib/prisma';
+import { listActiveSessions, revokeAllSessions } from '@/services/SessionService';
+
+const forceLogoutSchema = z
+  .object({
+    userId: z.string().uuid().optional(),
+    email: z.string().email().optional(),
+    reason: z.string().min(5, 'Reason must be at least 5 characters'),
+  })
+  .refine((data) => data.userId || data.email, { message: 'userId or email is required' });
+
+async function findUser(where: { userId?: string; email?: string }) {
+  const user = await prisma.user.findFirst({
+    where: where.userId ? { id: where.userId } : { email: where.email!.toLowerCase() },
+    select: { id: true, email: true, role: true },
+  });
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+  return user;
+}
+
+/**
+ * @swagger
+ * /api/admin/security/sessions:
+ *   get:
+ *     summary: List a user's active sessions
+ *     tags: [Admin, Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The user and their active sessions
+ *       404:
+ *         description: User not found
+ */
+async function listSessionsHandler(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const userId = searchParams.get('userId') || undefined;
+  const email = searchParams.get('email') || undefined;
+  if (!userId && !email) {
+    throw new BadRequestError('userId or email is required');
+  }
+
+  const user = await findUser({ userId, email });
+  const sessions = await listActiveSessions(user.id);
+
+  return NextResponse.json({ user, sessions });
+}
+
+/**
+ * @swagger
+ * /api/admin/security/sessions:
+ *   post:
+ *     summary: Force logout a user
+ *     description: Revokes every session the user has; they must log in again on all devices.
+ *     tags: [Admin, Security]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *       404:
+ *         description: User not found
+ */
+async function forceLogoutHandler(request: Request): Promise<NextResponse> {
+  const admin = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, forceLogoutSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const user = await findUser(validation.data);
+  const revoked = await revokeAllSessions(user.id, 'admin_revoked');
+
+  await logSecurityEvent(
+    getClientIp(request),
+    'admin_force_logout',
+    'medium',
+    request.headers.get('user-agent'),
+    '/api/admin/security/sessions',
+    { userId: user.id, adminId: admin.userId, reason: validation.data.reason, revoked }
+  );
+
+  return NextResponse.json({
+    message: 'User logged out of all devices',
+    userId: user.id,
+    revoked,
+  });
+}
+
+export const GET = withApiLogger(withRoleCheck(listSessionsHandler, ['admin']));
+export const POST = withApiLogger(withRoleCheck(forceLogoutHandler, ['admin']));
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { shippingSchemas, validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { deleteShippingMethod, updateShippingMethod } from '@/services/ShippingService';
+
+type RouteParams = { params: { methodId: string } };
+
+/**
+ * @swagger
+ * /api/admin/shipping-methods/{methodId}:
+ *   patch:
+ *     summary: Update a shipping method
+ *     description: Any field of the method; deactivating it hides it from checkout.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: methodId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               carrier:
+ *                 type: string
+ *               estimatedDaysMin:
+ *                 type: integer
+ *               estimatedDaysMax:
+ *                 type: integer
+ *               volumetricDivisor:
+ *                 type: integer
+ *               supportsCod:
+ *                 type: boolean
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Method updated
+ *       404:
+ *         description: Method not found
+ */
+async function updateHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, shippingSchemas.updateMethod);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const method = await updateShippingMethod(user, params.methodId, validation.data, getClientIp(request));
+
+  return NextResponse.json({ message: 'Shipping method updated', method });
+}
+
+/**
+ * @swagger
+ * /api/admin/shipping-methods/{methodId}:
+ *   delete:
+ *     summary: Remove a shipping method
+ *     description: Removes the method and its rates. Methods that orders were shipped with can only be deactivated.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: methodId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Method removed
+ *       404:
+ *         description: Method not found
+ *       409:
+ *         description: Orders use the method
+ */
+async function deleteHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  await deleteShippingMethod(user, params.methodId, getClientIp(request));
+
+  return NextResponse.json({ message: 'Shipping method removed' });
+}
+
+export const PATCH = withApiLogger(withRoleCheck(updateHandler, ['admin']));
+export const DELETE = withApiLogger(withRoleCheck(deleteHandler, ['admin']));
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { shippingSchemas, validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import {
+  createShippingMethod,
+  listShippingMethods,
+  type ShippingMethodInput,
+} from '@/services/ShippingService';
+
+/**
+ * @swagger
+ * /api/admin/shipping-methods:
+ *   get:
+ *     summary: List shipping methods
+ *     description: All methods, active or not, in display order with how many rates each has.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Shipping methods
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  await requireAuth(request);
+
+  const methods = await listShippingMethods();
+
+  return NextResponse.json({ methods });
+}
+
+/**
+ * @swagger
+ * /api/admin/shipping-methods:
+ *   post:
+ *     summary: Add a shipping method
+ *     description: |
+ *       A carrier service buyers can choose at checkout. It has no effect
+ *       until it has a rate for a zone.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Express
+ *               description:
+ *                 type: string
+ *               carrier:
+ *                 type: string
+ *                 example: Ethiopian Postal Service
+ *               estimatedDaysMin:
+ *                 type: integer
+ *               estimatedDaysMax:
+ *                 type: integer
+ *               volumetricDivisor:
+ *                 type: integer
+ *                 description: cm³ billed as one kg of dimensional weight
+ *                 example: 5000
+ *               supportsCod:
+ *                 type: boolean
+ *               isActive:
+ *                 type: boolean
+ *               sortOrder:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Method added
+ *       400:
+ *         description: Invalid delivery window
+ */
+async function createHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, shippingSchemas.createMethod);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const method = await createShippingMethod(user, validation.data as ShippingMethodInput, getClientIp(request));
+
+  return NextResponse.json({ message: 'Shipping method added', method }, { status: 201 });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['admin']));
+export const POST = withApiLogger(withRoleCheck(createHandler, ['admin']));
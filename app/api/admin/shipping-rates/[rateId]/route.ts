@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { shippingSchemas, validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { deleteShippingRate, updateShippingRate } from '@/services/ShippingService';
+
+type RouteParams = { params: { rateId: string } };
+
+/**
+ * @swagger
+ * /api/admin/shipping-rates/{rateId}:
+ *   patch:
+ *     summary: Update a shipping rate
+ *     description: Changes the charges, thresholds or whether the rate is active. Zones and method cannot change.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: rateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               baseRate:
+ *                 type: number
+ *               perKgRate:
+ *                 type: number
+ *               freeShippingThreshold:
+ *                 type: number
+ *               codFee:
+ *                 type: number
+ *               codFeePercent:
+ *                 type: number
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Rate updated
+ *       404:
+ *         description: Rate not found
+ */
+async function updateHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, shippingSchemas.updateRate);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const rate = await updateShippingRate(user, params.rateId, validation.data, getClientIp(request));
+
+  return NextResponse.json({ message: 'Shipping rate updated', rate });
+}
+
+/**
+ * @swagger
+ * /api/admin/shipping-rates/{rateId}:
+ *   delete:
+ *     summary: Remove a shipping rate
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: rateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rate removed
+ *       404:
+ *         description: Rate not found
+ */
+async function deleteHandler(request: Request, { params }: RouteParams): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  await deleteShippingRate(user, params.rateId, getClientIp(request));
+
+  return NextResponse.json({ message: 'Shipping rate removed' });
+}
+
+export const PATCH = withApiLogger(withRoleCheck(updateHandler, ['admin']));
+export const DELETE = withApiLogger(withRoleCheck(deleteHandler, ['admin']));
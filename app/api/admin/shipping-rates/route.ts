@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { shippingSchemas, validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import {
+  createShippingRate,
+  listShippingRates,
+  type ShippingRateInput,
+} from '@/services/ShippingService';
+
+/**
+ * @swagger
+ * /api/admin/shipping-rates:
+ *   get:
+ *     summary: List shipping rates
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: zoneId
+ *         schema:
+ *           type: string
+ *         description: Only rates to this destination zone
+ *       - in: query
+ *         name: methodId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shipping rates with their zones and method
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  await requireAuth(request);
+
+  const { searchParams } = new URL(request.url);
+  const rates = await listShippingRates({
+    zoneId: searchParams.get('zoneId') || undefined,
+    methodId: searchParams.get('methodId') || undefined,
+  });
+
+  return NextResponse.json({ rates });
+}
+
+/**
+ * @swagger
+ * /api/admin/shipping-rates:
+ *   post:
+ *     summary: Add a shipping rate
+ *     description: |
+ *       What a method charges to deliver to a zone: a base rate plus a rate
+ *       per billable kg (actual or dimensional weight, whichever is higher).
+ *       With an origin zone the rate only applies to vendors shipping from
+ *       that zone and replaces the method's generic rate for them.
+ *       Cash-on-delivery orders add the COD fee plus codFeePercent of the
+ *       shipment value.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - zoneId
+ *               - methodId
+ *               - baseRate
+ *             properties:
+ *               zoneId:
+ *                 type: string
+ *               originZoneId:
+ *                 type: string
+ *                 nullable: true
+ *               methodId:
+ *                 type: string
+ *               baseRate:
+ *                 type: number
+ *                 example: 80
+ *               perKgRate:
+ *                 type: number
+ *                 example: 15
+ *               freeShippingThreshold:
+ *                 type: number
+ *               minOrderAmount:
+ *                 type: number
+ *               maxOrderAmount:
+ *                 type: number
+ *               codFee:
+ *                 type: number
+ *                 example: 20
+ *               codFeePercent:
+ *                 type: number
+ *                 example: 0.01
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Rate added
+ *       404:
+ *         description: Zone or method not found
+ *       409:
+ *         description: The method already has a rate for these zones
+ */
+async function createHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, shippingSchemas.createRate);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const rate = await createShippingRate(user, validation.data as ShippingRateInput, getClientIp(request));
+
+  return NextResponse.json({ message: 'Shipping rate added', rate }, { status: 201 });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['admin']));
+export const POST = withApiLogger(withRoleCheck(createHandler, ['admin']));
@@ -26,7 +26,7 @@ export async function GET(
   request: Request,
   { params }: { params: { id: string } }
 ) {
-  const { error } = withAdmin(request);
+  const { error } = await withAdmin(request);
   if (error) return error;
 
   try {
@@ -104,7 +104,7 @@ export async function PUT(
   request: Request,
   { params }: { params: { id: string } }
 ) {
-  const { error } = withAdmin(request);
+  const { error } = await withAdmin(request);
   if (error) return error;
 
   try {
@@ -188,7 +188,7 @@ export async function DELETE(
   request: Request,
   { params }: { params: { id: string } }
 ) {
-  const { error } = withAdmin(request);
+  const { error } = await withAdmin(request);
   if (error) return error;
 
   try {
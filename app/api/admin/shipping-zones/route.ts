@@ -3,7 +3,7 @@ import prisma from '@/lib/prisma';
 import { withAdmin } from '@/lib/middleware';
 
 export async function GET(request: Request) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdmin(request);
   if (error) return error;
 
   try {
@@ -48,7 +48,7 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdmin(request);
   if (error) return error;
 
   try {
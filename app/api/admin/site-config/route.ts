@@ -74,6 +74,7 @@ export async function PUT(req: NextRequest) {
       shippingEnabled,
       emailNotifications,
       smsNotifications,
+      requireVendorTwoFactor,
     } = body;
 
     // Check if settings exist
@@ -99,6 +100,7 @@ export async function PUT(req: NextRequest) {
           shippingEnabled,
           emailNotifications,
           smsNotifications,
+          requireVendorTwoFactor,
           updatedAt: new Date(),
         },
       });
@@ -120,6 +122,7 @@ export async function PUT(req: NextRequest) {
           shippingEnabled: shippingEnabled ?? true,
           emailNotifications: emailNotifications ?? true,
           smsNotifications: smsNotifications ?? false,
+          requireVendorTwoFactor: requireVendorTwoFactor ?? false,
         },
       });
     }
@@ -157,5 +160,6 @@ function getDefaultSettings() {
     shippingEnabled: true,
     emailNotifications: true,
     smsNotifications: false,
+    requireVendorTwoFactor: false,
   };
 }
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth, withRoleCheck } from '@/lib/middleware';
+import { listTicketQueue } from '@/services/SupportTicketService';
+
+const TICKET_STATUSES = ['open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed'] as const;
+const TICKET_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const;
+const TICKET_CATEGORIES = [
+  'order_inquiry',
+  'shipping_issue',
+  'refund_request',
+  'product_question',
+  'vendor_support',
+  'technical_issue',
+  'account_help',
+  'other',
+] as const;
+
+/**
+ * @swagger
+ * /api/admin/support/tickets:
+ *   get:
+ *     summary: Support ticket queue
+ *     description: Open tickets ordered by priority and SLA deadline, each with its current SLA status (admin only)
+ *     tags: [Admin, Support]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         description: Comma-separated statuses. Defaults to open, in_progress and waiting_on_customer.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: priority
+ *         schema:
+ *           type: string
+ *           enum: [low, normal, high, urgent]
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: assignedTo
+ *         description: Agent user id, `me` or `unassigned`
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: breached
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: search
+ *         description: Ticket number, subject, email or order number
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Ticket queue with pagination
+ *       403:
+ *         description: Forbidden - admin role required
+ */
+async function queueHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const { searchParams } = new URL(request.url);
+
+  const statuses = (searchParams.get('status') || '')
+    .split(',')
+    .filter((s): s is (typeof TICKET_STATUSES)[number] => TICKET_STATUSES.includes(s as any));
+  const priority = searchParams.get('priority');
+  const category = searchParams.get('category');
+  const assignedTo = searchParams.get('assignedTo');
+
+  const result = await listTicketQueue({
+    status: statuses,
+    priority: TICKET_PRIORITIES.includes(priority as any)
+      ? (priority as (typeof TICKET_PRIORITIES)[number])
+      : undefined,
+    category: TICKET_CATEGORIES.includes(category as any)
+      ? (category as (typeof TICKET_CATEGORIES)[number])
+      : undefined,
+    assignedTo: assignedTo === 'me' ? user.userId : assignedTo || undefined,
+    breached: searchParams.get('breached') === 'true',
+    search: searchParams.get('search') || undefined,
+    page: parseInt(searchParams.get('page') || '1'),
+    perPage: parseInt(searchParams.get('perPage') || '25'),
+  });
+
+  return NextResponse.json(result);
+}
+
+export const GET = withApiLogger(withRoleCheck(queueHandler, ['admin']));
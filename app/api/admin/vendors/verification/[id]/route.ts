@@ -123,7 +123,7 @@ async function reviewVerificationHandler(
 ): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -205,13 +205,14 @@ async function reviewVerificationHandler(
 
     // Send email notification to vendor about verification decision
     if (vendor?.user?.email) {
-      const { queueEmail, createVerificationStatusEmail } = await import('@/lib/email');
+      const { queueEmail } = await import('@/lib/email');
+      const { renderEmail } = await import('@/services/EmailTemplateService');
       const vendorName = vendor.displayName || vendor.user.email.split('@')[0];
-      const emailTemplate = createVerificationStatusEmail(
+      const emailTemplate = await renderEmail(
+        'vendor_verification_status',
         vendor.user.email,
-        vendorName,
-        status,
-        rejectionReason
+        { vendorName, status, rejectionReason },
+        { userId: vendor.userId }
       );
       await queueEmail(emailTemplate);
     }
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
-import { verifyToken, isAdmin } from '@/lib/auth';
+import { getUserFromToken, hasAdminPermission } from '@/lib/auth';
 
 const prisma = new PrismaClient();
 
@@ -23,8 +23,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const decoded = verifyToken(token);
-    if (!decoded || !isAdmin(decoded.role)) {
+    const decoded = await getUserFromToken(token);
+    if (!decoded || !hasAdminPermission(decoded, 'finance')) {
       return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
     }
 
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { BadRequestError } from '@/lib/errors';
+import {
+  generateRecoveryCodes,
+  getTwoFactorStatus,
+  requireStepUp,
+} from '@/services/TwoFactorService';
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace recovery codes
+ *     description: |
+ *       Issues a new set of single-use recovery codes and invalidates the old
+ *       ones. The codes are only shown in this response. Needs a step-up token
+ *       in the X-Step-Up-Token header.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Two-factor authentication is not turned on
+ *       403:
+ *         description: Step-up required
+ */
+async function regenerateHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  requireStepUp(request, user);
+
+  const status = await getTwoFactorStatus(user.userId, user.role);
+  if (!status.totpEnabled && !status.smsEnabled) {
+    throw new BadRequestError('Turn on two-factor authentication first', 'TWO_FACTOR_NOT_ENABLED');
+  }
+
+  const recoveryCodes = await generateRecoveryCodes(user.userId);
+
+  return NextResponse.json({ recoveryCodes });
+}
+
+export const POST = withApiLogger(withRoleCheck(regenerateHandler, ['customer', 'vendor', 'admin']));
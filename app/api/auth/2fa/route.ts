@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import {
+  disableTwoFactor,
+  getTwoFactorStatus,
+  requireStepUp,
+  requireTwoFactorActor,
+} from '@/services/TwoFactorService';
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   get:
+ *     summary: Two-factor status
+ *     description: |
+ *       Which second factors the user has turned on, how many recovery codes
+ *       are left and whether their role requires 2FA. Accepts an access token
+ *       or the setup token returned by login when enrolment is required.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status
+ *       401:
+ *         description: Unauthorized
+ */
+async function statusHandler(request: Request): Promise<NextResponse> {
+  const { user } = await requireTwoFactorActor(request);
+  const status = await getTwoFactorStatus(user.userId, user.role);
+
+  return NextResponse.json(status);
+}
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   delete:
+ *     summary: Turn off two-factor authentication
+ *     description: |
+ *       Removes every second factor and recovery code. Needs a step-up token in
+ *       the X-Step-Up-Token header. Not allowed for roles that require 2FA.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication turned off
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Step-up required, or 2FA is required for this role
+ */
+async function disableHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  requireStepUp(request, user);
+
+  await disableTwoFactor(user.userId, user.role);
+
+  return NextResponse.json({ message: 'Two-factor authentication turned off' });
+}
+
+export const GET = withApiLogger(statusHandler);
+export const DELETE = withApiLogger(withRoleCheck(disableHandler, ['customer', 'vendor', 'admin']));
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { sendChallengeCode } from '@/services/TwoFactorService';
+
+const sendCodeSchema = z.object({
+  challengeId: z.string().uuid(),
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/send-code:
+ *   post:
+ *     summary: Text a login code
+ *     description: Sends (or resends) an SMS code for a pending login challenge to the user's verified phone.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeId
+ *             properties:
+ *               challengeId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *       400:
+ *         description: SMS verification is not set up
+ *       404:
+ *         description: Challenge not found
+ */
+async function sendCodeHandler(request: Request): Promise<NextResponse> {
+  const validation = await validateRequestBody(request, sendCodeSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { phone } = await sendChallengeCode(validation.data.challengeId);
+
+  return NextResponse.json({ message: 'Verification code sent', phone });
+}
+
+export const POST = withApiLogger(withRateLimit(sendCodeHandler, RATE_LIMIT_CONFIGS.auth));
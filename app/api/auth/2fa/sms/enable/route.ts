@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { completeLogin } from '@/lib/login-response';
+import { confirmSmsEnrolment, requireEnrolmentActor } from '@/services/TwoFactorService';
+
+const enableSchema = z.object({
+  challengeId: z.string().uuid(),
+  code: z.string().trim().min(6, 'Enter the 6-digit code').max(10),
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/sms/enable:
+ *   post:
+ *     summary: Turn on SMS 2FA
+ *     description: |
+ *       Confirms the phone number with the texted code. If this is the user's
+ *       first factor the response includes recovery codes, shown once. When
+ *       called with a 2FA setup token the login completes and the response also
+ *       carries the session tokens, like /api/auth/login.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeId
+ *               - code
+ *             properties:
+ *               challengeId:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: SMS 2FA turned on
+ *       401:
+ *         description: Invalid or expired code
+ *       403:
+ *         description: Step-up required because 2FA is already on
+ *       429:
+ *         description: Too many incorrect codes
+ */
+async function enableHandler(request: Request): Promise<NextResponse> {
+  const { user, setup } = await requireEnrolmentActor(request);
+
+  const validation = await validateRequestBody(request, enableSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { challengeId, code } = validation.data;
+  const { recoveryCodes } = await confirmSmsEnrolment(user.userId, challengeId, code);
+
+  if (setup) {
+    return completeLogin(request, user.userId, { recoveryCodes });
+  }
+
+  return NextResponse.json({ message: 'SMS verification turned on', recoveryCodes });
+}
+
+export const POST = withApiLogger(enableHandler);
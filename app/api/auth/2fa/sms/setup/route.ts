@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { beginSmsEnrolment, requireEnrolmentActor } from '@/services/TwoFactorService';
+
+const smsSetupSchema = z.object({
+  phone: z.string().trim().regex(/^(\+?251|0)?9\d{8}$/, 'Enter an Ethiopian mobile number'),
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/sms/setup:
+ *   post:
+ *     summary: Start SMS 2FA setup
+ *     description: |
+ *       Texts a verification code to the phone number. Confirm it with
+ *       /api/auth/2fa/sms/enable. Accepts an access token or a 2FA setup token.
+ *       Once 2FA is on, the request must also carry a step-up token.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *             properties:
+ *               phone:
+ *                 type: string
+ *                 example: "0911234567"
+ *     responses:
+ *       200:
+ *         description: Code sent; returns the challengeId to confirm with
+ *       400:
+ *         description: Invalid phone number
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Step-up required because 2FA is already on
+ *       502:
+ *         description: SMS could not be sent
+ */
+async function smsSetupHandler(request: Request): Promise<NextResponse> {
+  const { user } = await requireEnrolmentActor(request);
+
+  const validation = await validateRequestBody(request, smsSetupSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const result = await beginSmsEnrolment(user.userId, validation.data.phone);
+
+  return NextResponse.json({ message: 'Verification code sent', ...result });
+}
+
+export const POST = withApiLogger(withRateLimit(smsSetupHandler, RATE_LIMIT_CONFIGS.auth));
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { stepUp } from '@/services/TwoFactorService';
+
+const stepUpSchema = z.object({
+  method: z.enum(['totp', 'sms', 'recovery']).optional(),
+  code: z.string().trim().min(6).max(20).optional(),
+  challengeId: z.string().uuid().optional(),
+  password: z.string().min(1).optional(),
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/step-up:
+ *   post:
+ *     summary: Confirm identity before a sensitive action
+ *     description: |
+ *       Users with 2FA send a second-factor code (SMS codes need the challengeId
+ *       from /api/auth/2fa/step-up/send-code); users without it send their
+ *       password. Returns a step-up token valid for 5 minutes, to be sent in the
+ *       X-Step-Up-Token header of the sensitive request.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               method:
+ *                 type: string
+ *                 enum: [totp, sms, recovery]
+ *               code:
+ *                 type: string
+ *               challengeId:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Step-up token
+ *       400:
+ *         description: Missing code
+ *       401:
+ *         description: Invalid code or password
+ *       429:
+ *         description: Too many incorrect codes
+ */
+async function stepUpHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, stepUpSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const result = await stepUp(user, validation.data);
+
+  return NextResponse.json(result);
+}
+
+export const POST = withApiLogger(
+  withRateLimit(withRoleCheck(stepUpHandler, ['customer', 'vendor', 'admin']), RATE_LIMIT_CONFIGS.auth)
+);
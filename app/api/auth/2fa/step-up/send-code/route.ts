@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { startStepUpSms } from '@/services/TwoFactorService';
+
+/**
+ * @swagger
+ * /api/auth/2fa/step-up/send-code:
+ *   post:
+ *     summary: Text a step-up code
+ *     description: Sends an SMS code to the user's verified phone and returns the challengeId to send with it to /api/auth/2fa/step-up.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *       400:
+ *         description: SMS verification is not set up
+ */
+async function sendCodeHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const result = await startStepUpSms(user.userId);
+
+  return NextResponse.json({ message: 'Verification code sent', ...result });
+}
+
+export const POST = withApiLogger(
+  withRateLimit(withRoleCheck(sendCodeHandler, ['customer', 'vendor', 'admin']), RATE_LIMIT_CONFIGS.auth)
+);
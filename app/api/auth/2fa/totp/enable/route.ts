@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { completeLogin } from '@/lib/login-response';
+import { confirmTotpEnrolment, requireEnrolmentActor } from '@/services/TwoFactorService';
+
+const enableSchema = z.object({
+  code: z.string().trim().min(6, 'Enter the 6-digit code').max(10),
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/totp/enable:
+ *   post:
+ *     summary: Turn on authenticator app 2FA
+ *     description: |
+ *       Confirms setup with a code from the authenticator app. If this is the
+ *       user's first factor the response includes recovery codes, shown once.
+ *       When called with a 2FA setup token the login completes and the response
+ *       also carries the session tokens, like /api/auth/login.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Authenticator app 2FA turned on
+ *       400:
+ *         description: Setup not started or invalid code
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Step-up required because 2FA is already on
+ */
+async function enableHandler(request: Request): Promise<NextResponse> {
+  const { user, setup } = await requireEnrolmentActor(request);
+
+  const validation = await validateRequestBody(request, enableSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { recoveryCodes } = await confirmTotpEnrolment(user.userId, validation.data.code);
+
+  if (setup) {
+    return completeLogin(request, user.userId, { recoveryCodes });
+  }
+
+  return NextResponse.json({ message: 'Authenticator app turned on', recoveryCodes });
+}
+
+export const POST = withApiLogger(enableHandler);
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { beginTotpEnrolment, requireEnrolmentActor } from '@/services/TwoFactorService';
+
+/**
+ * @swagger
+ * /api/auth/2fa/totp/setup:
+ *   post:
+ *     summary: Start authenticator app setup
+ *     description: |
+ *       Generates a new authenticator secret. Show otpauthUrl as a QR code (or
+ *       the secret for manual entry), then confirm with /api/auth/2fa/totp/enable.
+ *       Accepts an access token or a 2FA setup token. Once 2FA is on, the
+ *       request must also carry a step-up token.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret and otpauth URL
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Step-up required because 2FA is already on
+ */
+async function setupHandler(request: Request): Promise<NextResponse> {
+  const { user } = await requireEnrolmentActor(request);
+  const enrolment = await beginTotpEnrolment(user.userId, user.email);
+
+  return NextResponse.json(enrolment);
+}
+
+export const POST = withApiLogger(setupHandler);
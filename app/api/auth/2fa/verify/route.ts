@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { completeLogin } from '@/lib/login-response';
+import { verifyChallenge } from '@/services/TwoFactorService';
+
+const verifySchema = z.object({
+  challengeId: z.string().uuid(),
+  method: z.enum(['totp', 'sms', 'recovery']),
+  code: z.string().trim().min(6).max(20),
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/verify:
+ *   post:
+ *     summary: Complete login with a second factor
+ *     description: |
+ *       Answers the challenge returned by /api/auth/login when it responds with
+ *       twoFactorRequired, using an authenticator code, a texted code or a
+ *       recovery code. On success the response matches /api/auth/login.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeId
+ *               - method
+ *               - code
+ *             properties:
+ *               challengeId:
+ *                 type: string
+ *               method:
+ *                 type: string
+ *                 enum: [totp, sms, recovery]
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid code or expired challenge
+ *       429:
+ *         description: Too many incorrect codes
+ */
+async function verifyHandler(request: Request): Promise<NextResponse> {
+  const validation = await validateRequestBody(request, verifySchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { challengeId, method, code } = validation.data;
+  const challenge = await verifyChallenge(challengeId, 'login', { method, code });
+
+  return completeLogin(request, challenge.userId);
+}
+
+export const POST = withApiLogger(withRateLimit(verifyHandler, RATE_LIMIT_CONFIGS.auth));
@@ -2,8 +2,6 @@ import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { 
   verifyPassword, 
-  generateToken, 
-  generateRefreshToken,
   isAccountLockedOut,
   shouldResetLoginAttempts,
   calculateLockoutTime
@@ -11,13 +9,16 @@ import {
 import { validateRequestBody, authSchemas } from '@/lib/validation';
 import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
 import { withApiLogger } from '@/lib/api-logger';
+import { buildLoginResponse } from '@/lib/login-response';
+import { getLoginSecondStep } from '@/services/TwoFactorService';
+import { normalizePhone } from '@/services/PhoneAuthService';
 
 /**
  * @swagger
  * /api/auth/login:
  *   post:
  *     summary: User login
- *     description: Authenticate user with email and password
+ *     description: Authenticate user with email (or verified phone) and password
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -26,13 +27,16 @@ import { withApiLogger } from '@/lib/api-logger';
  *           schema:
  *             type: object
  *             required:
- *               - email
  *               - password
  *             properties:
  *               email:
  *                 type: string
  *                 format: email
  *                 example: user@example.com
+ *               phone:
+ *                 type: string
+ *                 description: Used instead of email for phone-registered accounts
+ *                 example: "0911234567"
  *               password:
  *                 type: string
  *                 format: password
@@ -60,6 +64,21 @@ import { withApiLogger } from '@/lib/api-logger';
  *                   type: string
  *                 refreshToken:
  *                   type: string
+ *                 twoFactorRequired:
+ *                   type: boolean
+ *                   description: No tokens yet; answer the challenge at /api/auth/2fa/verify
+ *                 challengeId:
+ *                   type: string
+ *                 methods:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                     enum: [totp, sms, recovery]
+ *                 twoFactorSetupRequired:
+ *                   type: boolean
+ *                   description: Role requires 2FA; enrol using setupToken before logging in
+ *                 setupToken:
+ *                   type: string
  *       401:
  *         description: Invalid credentials
  *       429:
@@ -72,13 +91,13 @@ async function loginHandler(request: Request): Promise<NextResponse> {
     return validation.response;
   }
   
-  const { email, password } = validation.data;
+  const { email, phone, password } = validation.data;
 
   try {
 
     // Find user
     const user = await prisma.user.findUnique({
-      where: { email },
+      where: email ? { email } : { phone: normalizePhone(phone!) },
       include: {
         profile: true,
       },
@@ -147,43 +166,13 @@ async function loginHandler(request: Request): Promise<NextResponse> {
       data: { loginAttempts: 0, lockoutUntil: null },
     });
 
-    // Generate JWT tokens
-    const token = generateToken({ 
-      userId: user.id, 
-      email: user.email,
-      role: user.role
-    });
-    const refreshToken = generateRefreshToken({ 
-      userId: user.id, 
-      email: user.email,
-      role: user.role
-    });
-
-    const response = NextResponse.json({
-      message: 'Login successful',
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        emailVerified: user.emailVerified,
-        profile: user.profile ? { ...user.profile, isAdmin: user.role === 'admin' } : { isAdmin: user.role === 'admin' },
-      },
-      token,
-      refreshToken,
-    });
-
-    // Set HttpOnly auth cookie for SSR/middleware
-    const isProd = process.env.NODE_ENV === 'production';
-    response.cookies.set('auth_token', token, {
-      httpOnly: true,
-      secure: isProd,
-      sameSite: 'lax',
-      path: '/',
-      // Max-Age will be managed by JWT expiry; set a reasonable default (7d)
-      maxAge: 60 * 60 * 24 * 7,
-    });
+    // Accounts with a second factor finish logging in at /api/auth/2fa/verify
+    const secondStep = await getLoginSecondStep({ userId: user.id, email: user.email, role: user.role });
+    if (secondStep) {
+      return NextResponse.json(secondStep);
+    }
 
-    return response;
+    return buildLoginResponse(request, user);
   } catch (error) {
     // Error is caught and logged by withApiLogger wrapper
     throw error;
@@ -1,6 +1,39 @@
 import { NextResponse } from 'next/server';
+import { getTokenFromRequest, getUserFromToken } from '@/lib/auth';
+import { withApiLogger } from '@/lib/api-logger';
+import { endSession, revokeSessionByRefreshToken } from '@/services/SessionService';
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out
+ *     description: Ends the current session so its refresh token can no longer be used, and clears the auth cookie.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logged out
+ */
+async function logoutHandler(request: Request): Promise<NextResponse> {
+  const payload = await getUserFromToken(getTokenFromRequest(request));
+  const body = await request.json().catch(() => ({}));
+
+  if (payload?.sessionId) {
+    await endSession(payload.sessionId, 'logout');
+  } else if (typeof body?.refreshToken === 'string') {
+    await revokeSessionByRefreshToken(body.refreshToken, 'logout');
+  }
 
-export async function POST() {
   const res = NextResponse.json({ message: 'Logout successful' })
   // Clear the auth cookie
   res.cookies.set('auth_token', '', {
@@ -12,3 +45,5 @@ export async function POST() {
   })
   return res
 }
+
+export const POST = withApiLogger(logoutHandler);
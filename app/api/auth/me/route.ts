@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { getTokenFromRequest, getUserFromToken, isAdmin } from '@/lib/auth';
+import { getAdminScope } from '@/lib/permissions';
 
 function getTokenFromCookiesHeader(request: Request): string | null {
   const cookieHeader = request.headers.get('cookie') || ''
@@ -32,8 +33,24 @@ function getTokenFromCookiesHeader(request: Request): string | null {
  *                   type: string
  *                 email:
  *                   type: string
+ *                   nullable: true
+ *                 phone:
+ *                   type: string
+ *                   nullable: true
+ *                 phoneVerified:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
  *                 profile:
  *                   type: object
+ *                 adminScope:
+ *                   type: string
+ *                   nullable: true
+ *                   enum: [super_admin, support_agent, finance, catalog_moderator]
+ *                 vendorMembership:
+ *                   type: object
+ *                   nullable: true
+ *                   description: The shop the user works for as staff, with their permissions
  *       401:
  *         description: Unauthorized
  *       404:
@@ -45,7 +62,7 @@ export async function GET(request: Request) {
     if (!token) {
       token = getTokenFromCookiesHeader(request);
     }
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -58,6 +75,12 @@ export async function GET(request: Request) {
       where: { id: payload.userId },
       include: {
         profile: true,
+        vendorStaffMembership: {
+          select: {
+            permissions: true,
+            vendor: { select: { id: true, displayName: true, isVendor: true, vendorStatus: true } },
+          },
+        },
       },
     });
 
@@ -68,11 +91,25 @@ export async function GET(request: Request) {
       );
     }
 
+    // Staff members work for someone else's shop
+    const membership = user.vendorStaffMembership;
+
     return NextResponse.json({
       id: user.id,
       email: user.email,
+      phone: user.phone,
+      phoneVerified: user.phoneVerified,
       role: user.role,
       profile: user.profile ? { ...user.profile, isAdmin: isAdmin(user.role) } : { isAdmin: isAdmin(user.role) },
+      adminScope: isAdmin(user.role) ? getAdminScope(user.adminScope) : null,
+      vendorMembership: membership?.vendor.isVendor
+        ? {
+            vendorId: membership.vendor.id,
+            storeName: membership.vendor.displayName,
+            vendorStatus: membership.vendor.vendorStatus,
+            permissions: membership.permissions,
+          }
+        : null,
     });
   } catch (error) {
     console.error('Get user error:', error);
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { hashPassword } from '@/lib/auth';
+import { revokeAllSessions } from '@/services/SessionService';
 
 export async function POST(request: Request) {
   try {
@@ -67,6 +68,9 @@ export async function POST(request: Request) {
       },
     });
 
+    // Whoever knew the old password may still be signed in somewhere
+    await revokeAllSessions(user.id, 'password_reset');
+
     return NextResponse.json({
       message: 'Password has been reset successfully',
     });
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { generateRandomToken } from '@/lib/auth';
-import { sendEmail, createPasswordResetEmail } from '@/lib/email';
+import { sendEmail } from '@/lib/email';
+import { renderEmail } from '@/services/EmailTemplateService';
 
 export async function POST(request: Request) {
   try {
@@ -42,7 +43,7 @@ export async function POST(request: Request) {
 
     // Send password reset email
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const emailTemplate = createPasswordResetEmail(user.email, resetToken, appUrl);
+    const emailTemplate = await renderEmail('password_reset', user.email, { resetToken, appUrl }, { userId: user.id });
     await sendEmail(emailTemplate);
 
     return NextResponse.json({
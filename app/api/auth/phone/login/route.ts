@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody, commonSchemas } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { buildLoginResponse } from '@/lib/login-response';
+import { loginWithPhoneOtp } from '@/services/PhoneAuthService';
+import { getLoginSecondStep } from '@/services/TwoFactorService';
+
+const phoneLoginSchema = z.object({
+  phone: commonSchemas.phone,
+  code: z.string().trim().length(6, 'Enter the 6-digit code'),
+});
+
+/**
+ * @swagger
+ * /api/auth/phone/login:
+ *   post:
+ *     summary: Sign in with a texted code
+ *     description: |
+ *       Passwordless login with the code from /api/auth/phone/send-otp.
+ *       Responds like /api/auth/login, including the 2FA challenge fields
+ *       when the account has a second factor.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *               - code
+ *             properties:
+ *               phone:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful or second step required
+ *       401:
+ *         description: Invalid or expired code
+ *       429:
+ *         description: Too many attempts or account locked
+ */
+async function phoneLoginHandler(request: Request): Promise<NextResponse> {
+  const validation = await validateRequestBody(request, phoneLoginSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const user = await loginWithPhoneOtp(validation.data.phone, validation.data.code);
+
+  // The texted code replaces the password, not 2FA, so enrolled accounts still answer a challenge
+  const secondStep = await getLoginSecondStep({ userId: user.id, email: user.email, role: user.role });
+  if (secondStep) {
+    return NextResponse.json(secondStep);
+  }
+
+  return buildLoginResponse(request, user);
+}
+
+export const POST = withApiLogger(withRateLimit(phoneLoginHandler, RATE_LIMIT_CONFIGS.auth));
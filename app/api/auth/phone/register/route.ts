@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody, commonSchemas } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { buildLoginResponse } from '@/lib/login-response';
+import { registerWithPhone } from '@/services/PhoneAuthService';
+
+const phoneRegisterSchema = z.object({
+  phone: commonSchemas.phone,
+  code: z.string().trim().length(6, 'Enter the 6-digit code'),
+  firstName: z.string().min(1, 'First name is required'),
+  lastName: z.string().min(1, 'Last name is required'),
+  password: commonSchemas.password.optional(),
+});
+
+/**
+ * @swagger
+ * /api/auth/phone/register:
+ *   post:
+ *     summary: Register with a phone number
+ *     description: |
+ *       Creates an account from a phone number verified with the code from
+ *       /api/auth/phone/send-otp and signs the user in. The password is
+ *       optional; without one the account signs in with texted codes.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *               - code
+ *               - firstName
+ *               - lastName
+ *             properties:
+ *               phone:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Registration successful, session tokens returned
+ *       401:
+ *         description: Invalid or expired code
+ *       409:
+ *         description: Phone number already registered
+ */
+async function phoneRegisterHandler(request: Request): Promise<NextResponse> {
+  const validation = await validateRequestBody(request, phoneRegisterSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { phone, code, firstName, lastName, password } = validation.data;
+  const user = await registerWithPhone({ phone, code, firstName, lastName, password });
+
+  return buildLoginResponse(request, user, { message: 'Registration successful' });
+}
+
+export const POST = withApiLogger(withRateLimit(phoneRegisterHandler, RATE_LIMIT_CONFIGS.auth));
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody, commonSchemas } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { requestPhoneOtp } from '@/services/PhoneAuthService';
+
+const sendOtpSchema = z.object({
+  phone: commonSchemas.phone,
+  purpose: z.enum(['register', 'login']),
+});
+
+/**
+ * @swagger
+ * /api/auth/phone/send-otp:
+ *   post:
+ *     summary: Text a sign-up or sign-in code
+ *     description: |
+ *       Sends a 6-digit code by SMS for phone registration or passwordless login.
+ *       For login the response is the same whether or not the number is
+ *       registered; only registered numbers actually receive a code.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *               - purpose
+ *             properties:
+ *               phone:
+ *                 type: string
+ *                 example: "0911234567"
+ *               purpose:
+ *                 type: string
+ *                 enum: [register, login]
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *       409:
+ *         description: Phone number already registered
+ *       429:
+ *         description: Too many codes requested
+ *       502:
+ *         description: SMS could not be sent
+ */
+async function sendOtpHandler(request: Request): Promise<NextResponse> {
+  const validation = await validateRequestBody(request, sendOtpSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { phone, expiresInMinutes } = await requestPhoneOtp(validation.data.phone, validation.data.purpose);
+
+  return NextResponse.json({ message: 'Verification code sent', phone, expiresInMinutes });
+}
+
+export const POST = withApiLogger(withRateLimit(sendOtpHandler, RATE_LIMIT_CONFIGS.otp));
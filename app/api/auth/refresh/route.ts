@@ -1,76 +1,58 @@
 import { NextResponse } from 'next/server';
-import prisma from '@/lib/prisma';
-import { verifyToken, generateToken, generateRefreshToken } from '@/lib/auth';
-
-export async function POST(request: Request) {
-  try {
-    const { refreshToken } = await request.json();
-
-    if (!refreshToken) {
-      return NextResponse.json(
-        { error: 'Refresh token is required' },
-        { status: 400 }
-      );
-    }
-
-    // Verify refresh token
-    const payload = verifyToken(refreshToken);
-
-    if (!payload) {
-      return NextResponse.json(
-        { error: 'Invalid or expired refresh token' },
-        { status: 401 }
-      );
-    }
-
-    // Fetch user from database to get latest role
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-      select: {
-        id: true,
-        email: true,
-        role: true,
-        lockoutUntil: true,
-      },
-    });
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404 }
-      );
-    }
-
-    // Check if account is locked
-    if (user.lockoutUntil && new Date() < user.lockoutUntil) {
-      return NextResponse.json(
-        { error: 'Account is locked' },
-        { status: 403 }
-      );
-    }
-
-    // Generate new tokens with current user data
-    const newToken = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { getClientIp } from '@/lib/rate-limit';
+import { withApiLogger } from '@/lib/api-logger';
+import { rotateRefreshToken } from '@/services/SessionService';
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Refresh access token
+ *     description: |
+ *       Exchanges a refresh token for a new access token and a new refresh token.
+ *       Refresh tokens are single use; presenting one that was already exchanged
+ *       revokes the session it belongs to.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New token pair
+ *       401:
+ *         description: Invalid, reused or revoked refresh token
+ *       403:
+ *         description: Account is locked
+ */
+async function refreshHandler(request: Request): Promise<NextResponse> {
+  const validation = await validateRequestBody(request, refreshSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
 
-    const newRefreshToken = generateRefreshToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+  const { token, refreshToken } = await rotateRefreshToken(validation.data.refreshToken, {
+    userAgent: request.headers.get('user-agent'),
+    ipAddress: getClientIp(request),
+  });
 
-    return NextResponse.json({
-      token: newToken,
-      refreshToken: newRefreshToken,
-    });
-  } catch (error) {
-    console.error('Token refresh error:', error);
-    return NextResponse.json(
-      { error: 'An error occurred while refreshing token' },
-      { status: 500 }
-    );
-  }
+  return NextResponse.json({
+    token,
+    refreshToken,
+  });
 }
+
+export const POST = withApiLogger(refreshHandler);
@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { hashPassword, generateToken, generateRefreshToken, generateRandomToken } from '@/lib/auth';
-import { sendEmail, createEmailVerificationEmail } from '@/lib/email';
+import { hashPassword, generateRandomToken } from '@/lib/auth';
+import { sendEmail } from '@/lib/email';
+import { renderEmail } from '@/services/EmailTemplateService';
 import { validateRequestBody, authSchemas } from '@/lib/validation';
-import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { withRateLimit, RATE_LIMIT_CONFIGS, getClientIp } from '@/lib/rate-limit';
 import { withApiLogger } from '@/lib/api-logger';
+import { createSession } from '@/services/SessionService';
 import { awardPoints, POINTS_RATES } from '@/lib/loyalty/points';
 
 /**
@@ -157,20 +159,19 @@ async function registerHandler(request: Request): Promise<NextResponse> {
 
     // Send email verification
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const emailTemplate = createEmailVerificationEmail(user.email, emailVerificationToken, appUrl);
+    const emailTemplate = await renderEmail(
+      'email_verification',
+      user.email,
+      { verificationToken: emailVerificationToken, appUrl },
+      { userId: user.id }
+    );
     await sendEmail(emailTemplate);
 
-    // Generate JWT tokens
-    const token = generateToken({ 
-      userId: user.id, 
-      email: user.email,
-      role: user.role
-    });
-    const refreshToken = generateRefreshToken({ 
-      userId: user.id, 
-      email: user.email,
-      role: user.role
-    });
+    // Start a session for this device and issue its tokens
+    const { token, refreshToken } = await createSession(
+      { userId: user.id, email: user.email, role: user.role },
+      { userAgent: request.headers.get('user-agent'), ipAddress: getClientIp(request) }
+    );
 
     return NextResponse.json({
       message: 'Registration successful. Please check your email to verify your account.',
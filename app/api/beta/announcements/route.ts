@@ -10,7 +10,7 @@ export async function GET(request: Request) {
     let userId = null;
     const token = getTokenFromRequest(request);
     if (token) {
-      const payload = getUserFromToken(token);
+      const payload = await getUserFromToken(token);
       if (payload) {
         userId = payload.userId;
       }
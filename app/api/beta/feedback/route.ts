@@ -39,7 +39,7 @@ import { getTokenFromRequest, getUserFromToken } from '@/lib/auth';
 export async function GET(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -170,7 +170,7 @@ export async function POST(request: Request) {
     let userId = null;
     const token = getTokenFromRequest(request);
     if (token) {
-      const payload = getUserFromToken(token);
+      const payload = await getUserFromToken(token);
       if (payload) {
         userId = payload.userId;
       }
@@ -1,93 +1,132 @@
 import { NextResponse } from 'next/server';
 import { getTokenFromRequest, getUserFromToken } from '@/lib/auth';
-import { validateCoupon, isFreeShippingCoupon } from '@/lib/coupon';
-import { getShippingRateById } from '@/lib/shipping';
-import { calculateTax } from '@/lib/tax';
+import { validateRequestBody, cartSchemas } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getShippingRateById, normalizeCountryCode, quoteShipments, type ShipmentsQuote } from '@/lib/shipping';
+import { calculateTax, type TaxAddress } from '@/lib/tax';
+import { quoteCart } from '@/services/PricingService';
 
-export async function POST(request: Request) {
-  try {
-    const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
-
-    const body = await request.json();
-    const {
-      subtotal,
-      couponCode,
-      shippingRateId,
-      shippingAddress,
-      totalWeight,
-    } = body;
+/**
+ * @swagger
+ * /api/cart/calculate:
+ *   post:
+ *     summary: Calculate cart totals
+ *     description: |
+ *       Prices cart items server-side with flash sales, tiered quantity breaks,
+ *       promotions (by priority, honouring exclusive ones) and the coupon, then
+ *       adds shipping and tax. Each line lists the adjustments applied to it.
+ *       With a shipping address (and no shippingRateId) the cart is split into
+ *       one shipment per vendor, each rate-shopped from the vendor's city with
+ *       dimensional weight and, for COD, cash-on-delivery fees.
+ *       Order creation uses the same engine, so the quoted total is the charged total.
+ *     tags: [Cart]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - items
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     productId:
+ *                       type: string
+ *                     variantId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *               couponCode:
+ *                 type: string
+ *               shippingRateId:
+ *                 type: string
+ *               shippingAddress:
+ *                 type: object
+ *               paymentMethod:
+ *                 type: string
+ *                 example: COD
+ *               shippingSelections:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 description: Chosen shipping method id per vendor id; defaults to the cheapest
+ *     responses:
+ *       200:
+ *         description: Cart totals with per-line and per-order adjustments
+ *       400:
+ *         description: Invalid request or unknown product
+ */
+async function calculateHandler(request: Request): Promise<NextResponse> {
+  const validation = await validateRequestBody(request, cartSchemas.calculate);
+  if (validation.success === false) {
+    return validation.response;
+  }
 
-    if (typeof subtotal !== 'number' || subtotal < 0) {
-      return NextResponse.json(
-        { error: 'Valid subtotal is required' },
-        { status: 400 }
-      );
-    }
+  const { items, couponCode, shippingRateId, shippingAddress, paymentMethod, shippingSelections } = validation.data;
 
-    let discountAmount = 0;
-    let couponData = null;
-    let freeShipping = false;
+  const token = getTokenFromRequest(request);
+  const payload = await getUserFromToken(token);
 
-    // Validate coupon if provided
-    if (couponCode) {
-      const couponResult = await validateCoupon(
-        couponCode,
-        payload?.userId || null,
-        subtotal
-      );
+  const quote = await quoteCart({
+    items: items.map((item) => ({
+      productId: item.productId!,
+      variantId: item.variantId,
+      quantity: item.quantity!,
+    })),
+    couponCode,
+    userId: payload?.userId || null,
+  });
 
-      if (couponResult.valid && couponResult.coupon) {
-        couponData = couponResult.coupon;
-        
-        if (isFreeShippingCoupon(couponResult.coupon.discountType)) {
-          freeShipping = true;
-        } else {
-          discountAmount = couponResult.discountAmount || 0;
-        }
-      }
+  // Calculate shipping
+  let shippingAmount = 0;
+  let shipping: ShipmentsQuote | null = null;
+  if (shippingRateId && !quote.freeShipping) {
+    const shippingRate = await getShippingRateById(shippingRateId);
+    if (shippingRate) {
+      shippingAmount = shippingRate.rate;
     }
-
-    // Calculate subtotal after discount
-    const subtotalAfterDiscount = subtotal - discountAmount;
-
-    // Calculate shipping
-    let shippingAmount = 0;
-    if (shippingRateId && !freeShipping) {
-      const shippingRate = await getShippingRateById(shippingRateId);
-      if (shippingRate) {
-        shippingAmount = shippingRate.rate;
+  } else if (!shippingRateId && shippingAddress?.country) {
+    shipping = await quoteShipments(
+      { country: normalizeCountryCode(shippingAddress.country), region: shippingAddress.state, city: shippingAddress.city, postalCode: shippingAddress.postalCode },
+      quote.lines,
+      {
+        cashOnDelivery: paymentMethod === 'COD',
+        freeShipping: quote.freeShipping,
+        selections: shippingSelections as Record<string, string>,
       }
-    }
-
-    // Calculate tax
-    let taxAmount = 0;
-    if (shippingAddress && shippingAddress.country) {
-      const taxResult = await calculateTax(
-        subtotalAfterDiscount,
-        shippingAddress
-      );
-      taxAmount = taxResult.totalTaxAmount;
-    }
-
-    // Calculate total
-    const total = subtotalAfterDiscount + shippingAmount + taxAmount;
-
-    return NextResponse.json({
-      subtotal,
-      discountAmount,
-      subtotalAfterDiscount,
-      shippingAmount,
-      taxAmount,
-      total,
-      coupon: couponData,
-      freeShipping,
-    });
-  } catch (error) {
-    console.error('Error calculating cart total:', error);
-    return NextResponse.json(
-      { error: 'An error occurred while calculating cart total' },
-      { status: 500 }
     );
+    shippingAmount = shipping.shippingAmount;
   }
+
+  // Calculate tax
+  let taxAmount = 0;
+  if (shippingAddress && shippingAddress.country) {
+    const taxResult = await calculateTax(quote.total, shippingAddress as TaxAddress);
+    taxAmount = taxResult.totalTaxAmount;
+  }
+
+  return NextResponse.json({
+    subtotal: quote.subtotal,
+    discountAmount: quote.discountAmount,
+    subtotalAfterDiscount: quote.total,
+    shippingAmount,
+    taxAmount,
+    total: quote.total + shippingAmount + taxAmount,
+    coupon: quote.coupon,
+    couponError: quote.couponError,
+    freeShipping: quote.freeShipping,
+    ...(shipping && {
+      shipments: shipping.shipments,
+      unavailableVendorIds: shipping.unavailableVendorIds,
+    }),
+    lines: quote.lines,
+    adjustments: quote.adjustments,
+    skippedPromotions: quote.skippedPromotions,
+  });
 }
+
+export const POST = withApiLogger(calculateHandler);
@@ -14,7 +14,7 @@ export async function PUT(
 ) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
     const sessionId = getSessionId(request);
 
     const body = await request.json();
@@ -122,7 +122,7 @@ export async function DELETE(
 ) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
     const sessionId = getSessionId(request);
 
     // Find the cart item
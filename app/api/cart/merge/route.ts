@@ -6,7 +6,7 @@ import { getTokenFromRequest, getUserFromToken } from '@/lib/auth';
 export async function POST(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload?.userId) {
       return NextResponse.json(
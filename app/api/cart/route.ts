@@ -46,7 +46,7 @@ function getSessionId(request: Request): string {
 async function getHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
     const sessionId = getSessionId(request);
 
     const cart = await CartService.getCart(payload?.userId, sessionId);
@@ -108,7 +108,7 @@ async function postHandler(request: Request): Promise<NextResponse> {
   
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
     const sessionId = getSessionId(request);
 
     const cartItem = await CartService.addToCart({
@@ -155,7 +155,7 @@ export const POST = withApiLogger(
 async function deleteHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
     const sessionId = getSessionId(request);
 
     await CartService.clearCart(payload?.userId, sessionId);
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { messagingSchemas, validateRequestBody } from '@/lib/validation';
+import { escalateConversation, resolveMessagingUser } from '@/services/MessagingService';
+
+/**
+ * @swagger
+ * /api/conversations/{id}/escalate:
+ *   post:
+ *     summary: Escalate a conversation to an admin
+ *     description: The buyer or vendor asks marketplace staff to step in. All admins are notified.
+ *     tags: [Messaging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Conversation escalated
+ *       404:
+ *         description: Conversation not found
+ *       409:
+ *         description: Already escalated
+ */
+async function escalateHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await resolveMessagingUser(await requireAuth(request));
+
+  const validation = await validateRequestBody(request, messagingSchemas.escalate);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const conversation = await escalateConversation(user, params.id, validation.data.reason);
+
+  return NextResponse.json({
+    message: 'Conversation escalated to support',
+    conversation,
+  });
+}
+
+export const POST = withApiLogger(escalateHandler);
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { messagingSchemas, validateRequestBody } from '@/lib/validation';
+import { resolveMessagingUser, sendMessage, type SendMessageInput } from '@/services/MessagingService';
+
+/**
+ * @swagger
+ * /api/conversations/{id}/messages:
+ *   post:
+ *     summary: Send a message
+ *     description: Post a message with optional attachment URLs (upload files via /api/upload first)
+ *     tags: [Messaging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - message
+ *             properties:
+ *               message:
+ *                 type: string
+ *               attachments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *     responses:
+ *       201:
+ *         description: Message sent
+ *       400:
+ *         description: Conversation is closed
+ *       404:
+ *         description: Conversation not found
+ *       422:
+ *         description: Validation failed
+ */
+async function sendHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await resolveMessagingUser(await requireAuth(request));
+
+  const validation = await validateRequestBody(request, messagingSchemas.sendMessage);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const message = await sendMessage(user, params.id, validation.data as SendMessageInput);
+
+  return NextResponse.json({ message }, { status: 201 });
+}
+
+export const POST = withApiLogger(sendHandler);
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { markConversationRead, resolveMessagingUser } from '@/services/MessagingService';
+
+/**
+ * @swagger
+ * /api/conversations/{id}/read:
+ *   post:
+ *     summary: Mark a conversation as read
+ *     description: Marks every message from the other participants as read
+ *     tags: [Messaging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Number of messages marked as read
+ *       404:
+ *         description: Conversation not found
+ */
+async function readHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await resolveMessagingUser(await requireAuth(request));
+  const markedRead = await markConversationRead(user, params.id);
+
+  return NextResponse.json({ markedRead });
+}
+
+export const POST = withApiLogger(readHandler);
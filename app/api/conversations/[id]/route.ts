@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { getConversation, resolveMessagingUser } from '@/services/MessagingService';
+
+/**
+ * @swagger
+ * /api/conversations/{id}:
+ *   get:
+ *     summary: Get a conversation
+ *     description: Conversation details with messages, oldest first. Use `before` to load older messages.
+ *     tags: [Messaging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Conversation with messages
+ *       404:
+ *         description: Conversation not found
+ */
+async function getHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await resolveMessagingUser(await requireAuth(request));
+  const { searchParams } = new URL(request.url);
+  const before = searchParams.get('before');
+
+  const conversation = await getConversation(user, params.id, {
+    before: before && !isNaN(Date.parse(before)) ? new Date(before) : undefined,
+    limit: parseInt(searchParams.get('limit') || '50'),
+  });
+
+  return NextResponse.json({ conversation });
+}
+
+export const GET = withApiLogger(getHandler);
@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { messagingSchemas, validateRequestBody } from '@/lib/validation';
+import {
+  listConversations,
+  openConversation,
+  resolveMessagingUser,
+  type OpenConversationInput,
+} from '@/services/MessagingService';
+
+const CONVERSATION_STATUSES = ['active', 'archived', 'closed'] as const;
+
+/**
+ * @swagger
+ * /api/conversations:
+ *   get:
+ *     summary: List conversations
+ *     description: The authenticated user's buyer–vendor conversations with the latest message and unread count. Admins also see escalated conversations.
+ *     tags: [Messaging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, archived, closed]
+ *       - in: query
+ *         name: escalated
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: perPage
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Conversations with pagination
+ *       401:
+ *         description: Unauthorized
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await resolveMessagingUser(await requireAuth(request));
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+
+  const result = await listConversations(user, {
+    status: CONVERSATION_STATUSES.includes(status as any)
+      ? (status as (typeof CONVERSATION_STATUSES)[number])
+      : undefined,
+    escalated: searchParams.get('escalated') === 'true',
+    page: parseInt(searchParams.get('page') || '1'),
+    perPage: parseInt(searchParams.get('perPage') || '20'),
+  });
+
+  return NextResponse.json(result);
+}
+
+/**
+ * @swagger
+ * /api/conversations:
+ *   post:
+ *     summary: Message a vendor
+ *     description: Opens a private conversation with a vendor from a product, an order or the vendor's store and posts the first message. An active conversation about the same product/order is reused.
+ *     tags: [Messaging]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - message
+ *             properties:
+ *               vendorId:
+ *                 type: string
+ *                 description: Vendor profile id. Required for orders with several vendors.
+ *               productId:
+ *                 type: string
+ *               orderId:
+ *                 type: string
+ *               subject:
+ *                 type: string
+ *               message:
+ *                 type: string
+ *               attachments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *     responses:
+ *       201:
+ *         description: Conversation opened
+ *       200:
+ *         description: Message added to the existing conversation
+ *       400:
+ *         description: Cannot message this vendor
+ *       404:
+ *         description: Product, order or vendor not found
+ *       422:
+ *         description: Validation failed
+ */
+async function openHandler(request: Request): Promise<NextResponse> {
+  const user = await resolveMessagingUser(await requireAuth(request));
+
+  const validation = await validateRequestBody(request, messagingSchemas.openConversation);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const result = await openConversation(user, validation.data as OpenConversationInput);
+
+  return NextResponse.json(
+    { conversation: result.conversation, message: result.message },
+    { status: result.created ? 201 : 200 }
+  );
+}
+
+export const GET = withApiLogger(listHandler);
+export const POST = withApiLogger(openHandler);
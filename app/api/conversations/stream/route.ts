@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { assertConversationAccess, getMessagesSince, resolveMessagingUser } from '@/services/MessagingService';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Close before the platform's function timeout; clients reconnect with `since`
+const MAX_STREAM_MS = 55000;
+
+function formatEvent(event: string, data: unknown, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * @swagger
+ * /api/conversations/stream:
+ *   get:
+ *     summary: Live message stream
+ *     description: |
+ *       Server-Sent Events stream of new messages in the user's conversations
+ *       (or a single conversation). Emits `message` events whose id is the message
+ *       timestamp; reconnect with `since` (or Last-Event-ID) to resume without gaps.
+ *       The stream closes after about a minute and should be reopened by the client.
+ *     tags: [Messaging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: conversationId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: text/event-stream of message events
+ *       404:
+ *         description: Conversation not found
+ */
+async function streamHandler(request: Request): Promise<NextResponse> {
+  const user = await resolveMessagingUser(await requireAuth(request));
+  const { searchParams } = new URL(request.url);
+  const conversationId = searchParams.get('conversationId') || undefined;
+
+  if (conversationId) {
+    await assertConversationAccess(user, conversationId);
+  }
+
+  const resumeFrom = searchParams.get('since') || request.headers.get('last-event-id');
+  let since = resumeFrom && !isNaN(Date.parse(resumeFrom)) ? new Date(resumeFrom) : new Date();
+
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        if (pollTimer) clearTimeout(pollTimer);
+        if (heartbeatTimer) clearInterval(heartbeatTimer);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      const poll = async () => {
+        if (closed) return;
+        try {
+          const messages = await getMessagesSince(user, since, conversationId);
+          for (const message of messages) {
+            since = message.createdAt;
+            controller.enqueue(
+              encoder.encode(formatEvent('message', message, message.createdAt.toISOString()))
+            );
+          }
+        } catch (error) {
+          console.error('Message stream poll failed:', error);
+        }
+
+        if (Date.now() - startedAt >= MAX_STREAM_MS) {
+          close();
+          return;
+        }
+        pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+      };
+
+      controller.enqueue(encoder.encode(`retry: ${POLL_INTERVAL_MS}\n`));
+      controller.enqueue(encoder.encode(formatEvent('ready', { since: since.toISOString() })));
+      heartbeatTimer = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+      request.signal?.addEventListener('abort', close);
+
+      poll();
+    },
+    cancel() {
+      closed = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+export const GET = withApiLogger(streamHandler);
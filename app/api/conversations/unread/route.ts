@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { getUnreadCounts, resolveMessagingUser } from '@/services/MessagingService';
+
+/**
+ * @swagger
+ * /api/conversations/unread:
+ *   get:
+ *     summary: Unread message counts
+ *     description: Total unread messages and a per-conversation breakdown for the authenticated user
+ *     tags: [Messaging]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread counts
+ *       401:
+ *         description: Unauthorized
+ */
+async function unreadHandler(request: Request): Promise<NextResponse> {
+  const user = await resolveMessagingUser(await requireAuth(request));
+  const counts = await getUnreadCounts(user);
+
+  return NextResponse.json(counts);
+}
+
+export const GET = withApiLogger(unreadHandler);
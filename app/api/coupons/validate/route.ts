@@ -47,7 +47,7 @@ import { validateCoupon } from '@/lib/coupon';
 export async function POST(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     const body = await request.json();
     const { code, subtotal } = body;
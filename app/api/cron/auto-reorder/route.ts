@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { runAutoReorder } from '@/services/AutoReorderService';
+
+/**
+ * GET /api/cron/auto-reorder
+ *
+ * Cron job that evaluates every active AutoReorderRule against available stock
+ * (physical stock minus active reservations, plus quantity already on order)
+ * and drafts auto-generated purchase orders for products below their reorder point.
+ *
+ * Should be scheduled to run daily, after /api/cron/low-stock-alert
+ *
+ * Authentication: Requires CRON_SECRET header matching environment variable
+ */
+export async function GET(request: NextRequest) {
+  const startedAt = new Date();
+
+  try {
+    // Verify cron secret
+    const cronSecret =
+      request.headers.get('x-cron-secret') ||
+      request.headers.get('authorization')?.replace('Bearer ', '');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      console.warn('CRON_SECRET environment variable not set');
+      return NextResponse.json(
+        { error: 'Server misconfiguration' },
+        { status: 500 }
+      );
+    }
+
+    if (cronSecret !== expectedSecret) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await runAutoReorder(startedAt);
+
+    const completedAt = new Date();
+
+    // Record cron job execution
+    await prisma.cronJobExecution.create({
+      data: {
+        jobName: 'auto-reorder',
+        status: 'success',
+        startedAt,
+        completedAt,
+        duration: completedAt.getTime() - startedAt.getTime(),
+        recordsProcessed: result.rulesEvaluated,
+        metadata: {
+          rulesTriggered: result.rulesTriggered,
+          purchaseOrdersCreated: result.purchaseOrdersCreated,
+          errors: result.errors,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Auto reorder rules evaluated',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error in auto reorder cron:', error);
+
+    // Record failed cron job execution
+    try {
+      await prisma.cronJobExecution.create({
+        data: {
+          jobName: 'auto-reorder',
+          status: 'failed',
+          startedAt,
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+    } catch (recordError) {
+      console.error('Failed to record cron job execution:', recordError);
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to process auto reorder rules' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { logEvent, logError } from '@/lib/logger';
-import { queueEmail, createDataExportExpiringEmail } from '@/lib/email';
+import { queueEmail } from '@/lib/email';
+import { renderEmail } from '@/services/EmailTemplateService';
 
 /**
  * Data Export Expiry Warning Worker
@@ -79,11 +80,11 @@ export async function GET(request: Request) {
         );
 
         // Send expiry warning email
-        const emailTemplate = createDataExportExpiringEmail(
+        const emailTemplate = await renderEmail(
+          'data_export_expiring',
           exportRequest.user.email,
-          exportRequest.downloadUrl,
-          exportRequest.expiresAt,
-          hoursRemaining
+          { downloadUrl: exportRequest.downloadUrl, expiresAt: exportRequest.expiresAt, hoursRemaining },
+          { userId: exportRequest.userId }
         );
 
         await queueEmail(emailTemplate);
@@ -92,7 +92,8 @@ export async function GET(request: Request) {
         });
 
         if (orderInfo) {
-          const { queueEmail, createDisputeEscalatedEmail } = await import('@/lib/email');
+          const { queueEmail } = await import('@/lib/email');
+          const { renderEmail } = await import('@/services/EmailTemplateService');
 
           // Get customer profile
           const customerProfile = await prisma.profile.findUnique({
@@ -103,12 +104,11 @@ export async function GET(request: Request) {
           // Notify customer about escalation
           if (dispute.user.email) {
             const customerName = customerProfile?.displayName || 'Customer';
-            const customerEmail = createDisputeEscalatedEmail(
+            const customerEmail = await renderEmail(
+              'dispute_escalated',
               dispute.user.email,
-              customerName,
-              dispute.id,
-              orderInfo.orderNumber,
-              false // isAdmin
+              { recipientName: customerName, disputeId: dispute.id, orderNumber: orderInfo.orderNumber, isAdmin: false },
+              { userId: dispute.userId }
             );
             await queueEmail(customerEmail);
           }
@@ -116,13 +116,12 @@ export async function GET(request: Request) {
           // Notify admin (use configured admin email)
           const adminEmail = process.env.ADMIN_EMAIL;
           if (adminEmail) {
-            const adminEmailTemplate = createDisputeEscalatedEmail(
-              adminEmail,
-              'Admin',
-              dispute.id,
-              orderInfo.orderNumber,
-              true // isAdmin
-            );
+            const adminEmailTemplate = await renderEmail('dispute_escalated', adminEmail, {
+              recipientName: 'Admin',
+              disputeId: dispute.id,
+              orderNumber: orderInfo.orderNumber,
+              isAdmin: true,
+            });
             await queueEmail(adminEmailTemplate);
           } else {
             logEvent('admin_email_not_configured', {
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import {
+  backfillForecastActuals,
+  generateInventoryForecasts,
+} from '@/services/ForecastService';
+
+/**
+ * GET /api/cron/generate-inventory-forecasts
+ *
+ * Nightly job that:
+ * 1. Fills in actualDemand/accuracy for stored forecasts whose date has passed
+ * 2. Stores fresh per-product, per-warehouse daily demand forecasts in InventoryForecast
+ *
+ * Should be scheduled to run once a day shortly after midnight UTC
+ *
+ * Authentication: Requires CRON_SECRET header matching environment variable
+ */
+export async function GET(request: NextRequest) {
+  const startedAt = new Date();
+
+  try {
+    // Verify cron secret
+    const cronSecret =
+      request.headers.get('x-cron-secret') ||
+      request.headers.get('authorization')?.replace('Bearer ', '');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      console.warn('CRON_SECRET environment variable not set');
+      return NextResponse.json(
+        { error: 'Server misconfiguration' },
+        { status: 500 }
+      );
+    }
+
+    if (cronSecret !== expectedSecret) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Score yesterday's forecasts before they are superseded
+    const forecastsEvaluated = await backfillForecastActuals(startedAt);
+    const { seriesForecasted, forecastsWritten } = await generateInventoryForecasts(startedAt);
+
+    const completedAt = new Date();
+
+    // Record cron job execution
+    await prisma.cronJobExecution.create({
+      data: {
+        jobName: 'generate-inventory-forecasts',
+        status: 'success',
+        startedAt,
+        completedAt,
+        duration: completedAt.getTime() - startedAt.getTime(),
+        recordsProcessed: forecastsWritten,
+        metadata: {
+          forecastsEvaluated,
+          seriesForecasted,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Inventory forecasts generated',
+      forecastsEvaluated,
+      seriesForecasted,
+      forecastsWritten,
+    });
+  } catch (error) {
+    console.error('Error in inventory forecast cron:', error);
+
+    // Record failed cron job execution
+    try {
+      await prisma.cronJobExecution.create({
+        data: {
+          jobName: 'generate-inventory-forecasts',
+          status: 'failed',
+          startedAt,
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+    } catch (recordError) {
+      console.error('Failed to record cron job execution:', recordError);
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to generate inventory forecasts' },
+      { status: 500 }
+    );
+  }
+}
@@ -215,12 +215,13 @@ async function processDataExport(exportRequest: any): Promise<void> {
     });
 
     if (user) {
-      const { queueEmail, createDataExportReadyEmail } = await import('@/lib/email');
-      const emailTemplate = createDataExportReadyEmail(
+      const { queueEmail } = await import('@/lib/email');
+      const { renderEmail } = await import('@/services/EmailTemplateService');
+      const emailTemplate = await renderEmail(
+        'data_export_ready',
         user.email,
-        downloadUrl,
-        exportRequest.expiresAt,
-        exportRequest.format
+        { downloadUrl, expiresAt: exportRequest.expiresAt, format: exportRequest.format },
+        { userId: exportRequest.userId }
       );
       await queueEmail(emailTemplate);
     }
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { processGroupPurchases } from '@/services/GroupPurchaseService';
+
+/**
+ * GET /api/cron/process-group-purchases
+ *
+ * Cron job that settles group purchases:
+ * - Groups that reached requiredMembers get one order per member at pricePerPerson,
+ *   with stock reserved until the member pays
+ * - Members whose group order has been paid are marked as paid
+ * - Groups that expired short of their target are cancelled and pre-paid members refunded
+ *
+ * Should be scheduled to run every 15 minutes
+ *
+ * Authentication: Requires CRON_SECRET header matching environment variable
+ */
+export async function GET(request: NextRequest) {
+  const startedAt = new Date();
+
+  try {
+    // Verify cron secret
+    const cronSecret =
+      request.headers.get('x-cron-secret') ||
+      request.headers.get('authorization')?.replace('Bearer ', '');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      console.warn('CRON_SECRET environment variable not set');
+      return NextResponse.json(
+        { error: 'Server misconfiguration' },
+        { status: 500 }
+      );
+    }
+
+    if (cronSecret !== expectedSecret) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await processGroupPurchases(startedAt);
+
+    const completedAt = new Date();
+
+    // Record cron job execution
+    await prisma.cronJobExecution.create({
+      data: {
+        jobName: 'process-group-purchases',
+        status: 'success',
+        startedAt,
+        completedAt,
+        duration: completedAt.getTime() - startedAt.getTime(),
+        recordsProcessed: result.activated + result.expired + result.paymentsCaptured,
+        metadata: {
+          activated: result.activated,
+          ordersCreated: result.ordersCreated,
+          reservationFailures: result.reservationFailures,
+          paymentsCaptured: result.paymentsCaptured,
+          expired: result.expired,
+          refundsIssued: result.refundsIssued,
+          errors: result.errors,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Group purchases processed',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error in group purchase cron:', error);
+
+    // Record failed cron job execution
+    try {
+      await prisma.cronJobExecution.create({
+        data: {
+          jobName: 'process-group-purchases',
+          status: 'failed',
+          startedAt,
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+    } catch (recordError) {
+      console.error('Failed to record cron job execution:', recordError);
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to process group purchases' },
+      { status: 500 }
+    );
+  }
+}
@@ -11,11 +11,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { 
-  sendEmail, 
-  createSubscriptionRenewalSuccessEmail,
-  createSubscriptionRenewalFailedEmail 
-} from '@/lib/email';
+import { sendEmail } from '@/lib/email';
+import { renderEmail } from '@/services/EmailTemplateService';
 import { PREMIUM_PRICING } from '@/lib/subscription';
 import { addDays } from 'date-fns';
 
@@ -149,12 +146,11 @@ export async function POST(req: NextRequest) {
 
         // Send renewal success email
         const planType = subscription.planType as 'premium_monthly' | 'premium_yearly';
-        const emailTemplate = createSubscriptionRenewalSuccessEmail(
+        const emailTemplate = await renderEmail(
+          'subscription_renewal_success',
           subscription.user.email,
-          planType,
-          newPeriodEnd,
-          pricing.price,
-          manageUrl
+          { planType, newPeriodEnd, priceAmount: pricing.price, manageUrl },
+          { userId: subscription.userId }
         );
 
         await sendEmail(emailTemplate);
@@ -172,12 +168,11 @@ export async function POST(req: NextRequest) {
         const retryDate = addDays(now, PAYMENT_RETRY_INTERVAL_DAYS);
         
         try {
-          const failureEmail = createSubscriptionRenewalFailedEmail(
+          const failureEmail = await renderEmail(
+            'subscription_renewal_failed',
             subscription.user.email,
-            planType,
-            message,
-            retryDate,
-            manageUrl
+            { planType, failureReason: message, retryDate, updatePaymentUrl: manageUrl },
+            { userId: subscription.userId }
           );
           await sendEmail(failureEmail);
         } catch (emailError) {
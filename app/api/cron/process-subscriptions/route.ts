@@ -10,7 +10,8 @@ import {
   processSubscriptionDelivery,
   calculateNextDeliveryDate,
 } from '@/lib/subscription';
-import { sendEmail, createProductSubscriptionDeliveryEmail } from '@/lib/email';
+import { sendEmail } from '@/lib/email';
+import { renderEmail } from '@/services/EmailTemplateService';
 
 // Verify cron secret for security
 function verifyCronSecret(req: NextRequest): boolean {
@@ -84,14 +85,18 @@ export async function POST(req: NextRequest) {
           subscription.frequency
         );
 
-        const emailTemplate = createProductSubscriptionDeliveryEmail(
+        const emailTemplate = await renderEmail(
+          'product_subscription_delivery',
           subscription.user.email,
-          product.name,
-          order.orderNumber,
-          subscription.quantity,
-          discountedPrice,
-          nextDeliveryDate,
-          manageUrl
+          {
+            productName: product.name,
+            orderNumber: order.orderNumber,
+            quantity: subscription.quantity,
+            price: discountedPrice,
+            nextDeliveryDate,
+            manageUrl,
+          },
+          { userId: subscription.userId }
         );
 
         await sendEmail(emailTemplate);
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { processDueRounds } from '@/services/EqubService';
+
+/**
+ * GET /api/cron/settle-equb-rounds
+ *
+ * Cron job that starts Equb circles whose start date has passed and settles
+ * every round that is due: members who did not pay are flagged (and defaulted
+ * after too many misses), then the pot is paid to the round's recipient.
+ *
+ * Should be scheduled to run daily
+ *
+ * Authentication: Requires CRON_SECRET header matching environment variable
+ */
+export async function GET(request: NextRequest) {
+  const startedAt = new Date();
+
+  try {
+    // Verify cron secret
+    const cronSecret =
+      request.headers.get('x-cron-secret') ||
+      request.headers.get('authorization')?.replace('Bearer ', '');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      console.warn('CRON_SECRET environment variable not set');
+      return NextResponse.json(
+        { error: 'Server misconfiguration' },
+        { status: 500 }
+      );
+    }
+
+    if (cronSecret !== expectedSecret) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await processDueRounds(startedAt);
+
+    const completedAt = new Date();
+
+    // Record cron job execution
+    await prisma.cronJobExecution.create({
+      data: {
+        jobName: 'settle-equb-rounds',
+        status: 'success',
+        startedAt,
+        completedAt,
+        duration: completedAt.getTime() - startedAt.getTime(),
+        recordsProcessed: result.circlesChecked,
+        metadata: {
+          circlesStarted: result.circlesStarted,
+          circlesCancelled: result.circlesCancelled,
+          roundsSettled: result.roundsSettled,
+          circlesCompleted: result.circlesCompleted,
+          errors: result.errors,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Equb rounds settled',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error in Equb settlement cron:', error);
+
+    // Record failed cron job execution
+    try {
+      await prisma.cronJobExecution.create({
+        data: {
+          jobName: 'settle-equb-rounds',
+          status: 'failed',
+          startedAt,
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+    } catch (recordError) {
+      console.error('Failed to record cron job execution:', recordError);
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to settle Equb rounds' },
+      { status: 500 }
+    );
+  }
+}
@@ -10,7 +10,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { sendEmail, createSubscriptionRenewalReminderEmail } from '@/lib/email';
+import { sendEmail } from '@/lib/email';
+import { renderEmail } from '@/services/EmailTemplateService';
 import { addDays, startOfDay, endOfDay } from 'date-fns';
 
 // Verify cron secret for security
@@ -93,13 +94,17 @@ export async function GET(req: NextRequest) {
         try {
           // Create and send reminder email
           const planType = subscription.planType as 'premium_monthly' | 'premium_yearly';
-          const emailTemplate = createSubscriptionRenewalReminderEmail(
+          const emailTemplate = await renderEmail(
+            'subscription_renewal_reminder',
             subscription.user.email,
-            planType,
-            subscription.currentPeriodEnd,
-            Number(subscription.priceAmount),
-            daysUntilRenewal,
-            manageUrl
+            {
+              planType,
+              renewalDate: subscription.currentPeriodEnd,
+              priceAmount: Number(subscription.priceAmount),
+              daysUntilRenewal,
+              manageUrl,
+            },
+            { userId: subscription.userId }
           );
 
           await sendEmail(emailTemplate);
@@ -71,7 +71,7 @@ async function sendMessageHandler(
 ): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -153,12 +153,14 @@ async function sendMessageHandler(
     // Get recipient info
     let recipientEmail: string | null = null;
     let recipientName: string | null = null;
+    let recipientUserId: string | null = null;
 
     if (isCustomer || isAdmin) {
       // Notify vendor
       const vendorProfile = await prisma.profile.findUnique({
         where: { id: dispute.vendorId },
         select: {
+          userId: true,
           displayName: true,
           user: { select: { email: true } },
         },
@@ -166,12 +168,14 @@ async function sendMessageHandler(
       if (vendorProfile) {
         recipientEmail = vendorProfile.user.email;
         recipientName = vendorProfile.displayName || 'Vendor';
+        recipientUserId = vendorProfile.userId;
       }
     } else if (isVendor) {
       // Notify customer
       const customerProfile = await prisma.profile.findUnique({
         where: { userId: dispute.userId },
         select: {
+          userId: true,
           displayName: true,
           user: { select: { email: true } },
         },
@@ -179,6 +183,7 @@ async function sendMessageHandler(
       if (customerProfile) {
         recipientEmail = customerProfile.user.email;
         recipientName = customerProfile.displayName || 'Customer';
+        recipientUserId = customerProfile.userId;
       }
     }
 
@@ -189,14 +194,14 @@ async function sendMessageHandler(
       });
 
       if (orderInfo) {
-        const { queueEmail, createDisputeRespondedEmail } = await import('@/lib/email');
+        const { queueEmail } = await import('@/lib/email');
+        const { renderEmail } = await import('@/services/EmailTemplateService');
         const senderName = senderProfile.displayName || (isAdmin ? 'Admin' : 'User');
-        const emailTemplate = createDisputeRespondedEmail(
+        const emailTemplate = await renderEmail(
+          'dispute_responded',
           recipientEmail,
-          recipientName,
-          disputeId,
-          orderInfo.orderNumber,
-          senderName
+          { recipientName, disputeId, orderNumber: orderInfo.orderNumber, responderName: senderName },
+          { userId: recipientUserId }
         );
         await queueEmail(emailTemplate);
       }
@@ -225,7 +230,7 @@ async function getMessagesHandler(
 ): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
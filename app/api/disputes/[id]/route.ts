@@ -73,7 +73,7 @@ async function getDisputeHandler(
 ): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -162,7 +162,7 @@ async function updateDisputeHandler(
 ): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -234,14 +234,14 @@ async function updateDisputeHandler(
         const adminEmail = process.env.ADMIN_EMAIL;
         if (adminEmail) {
           try {
-            const { queueEmail, createDisputeEscalatedEmail } = await import('@/lib/email');
-            const adminEmailTemplate = createDisputeEscalatedEmail(
-              adminEmail,
-              'Admin',
-              dispute.id,
-              orderInfo.orderNumber,
-              true
-            );
+            const { queueEmail } = await import('@/lib/email');
+            const { renderEmail } = await import('@/services/EmailTemplateService');
+            const adminEmailTemplate = await renderEmail('dispute_escalated', adminEmail, {
+              recipientName: 'Admin',
+              disputeId: dispute.id,
+              orderNumber: orderInfo.orderNumber,
+              isAdmin: true,
+            });
             await queueEmail(adminEmailTemplate);
           } catch (emailError) {
             console.error('Failed to send admin escalation email:', emailError);
@@ -85,7 +85,7 @@ import { withApiLogger } from '@/lib/api-logger';
 async function createDisputeHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -206,6 +206,7 @@ async function createDisputeHandler(request: Request): Promise<NextResponse> {
       prisma.profile.findUnique({
         where: { userId: user.userId },
         select: {
+          userId: true,
           displayName: true,
           user: {
             select: { email: true },
@@ -215,6 +216,7 @@ async function createDisputeHandler(request: Request): Promise<NextResponse> {
       prisma.profile.findUnique({
         where: { id: vendorId },
         select: {
+          userId: true,
           displayName: true,
           user: {
             select: { email: true },
@@ -224,27 +226,25 @@ async function createDisputeHandler(request: Request): Promise<NextResponse> {
     ]);
 
     if (customerProfile && vendorProfile) {
-      const { queueEmail, createDisputeFiledEmail } = await import('@/lib/email');
-      
+      const { queueEmail } = await import('@/lib/email');
+      const { renderEmail } = await import('@/services/EmailTemplateService');
+      const details = { disputeId: dispute.id, orderNumber: dispute.order.orderNumber, disputeType: type };
+
       // Send notification to vendor
-      const vendorEmail = createDisputeFiledEmail(
+      const vendorEmail = await renderEmail(
+        'dispute_filed',
         vendorProfile.user.email,
-        vendorProfile.displayName || 'Vendor',
-        dispute.id,
-        dispute.order.orderNumber,
-        type,
-        true // isVendor
+        { ...details, recipientName: vendorProfile.displayName || 'Vendor', isVendor: true },
+        { userId: vendorProfile.userId }
       );
       await queueEmail(vendorEmail);
 
       // Send confirmation to customer
-      const customerEmail = createDisputeFiledEmail(
+      const customerEmail = await renderEmail(
+        'dispute_filed',
         customerProfile.user.email,
-        customerProfile.displayName || 'Customer',
-        dispute.id,
-        dispute.order.orderNumber,
-        type,
-        false // isVendor
+        { ...details, recipientName: customerProfile.displayName || 'Customer', isVendor: false },
+        { userId: customerProfile.userId }
       );
       await queueEmail(customerEmail);
     } else {
@@ -280,7 +280,7 @@ async function createDisputeHandler(request: Request): Promise<NextResponse> {
 async function getDisputesHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { logError } from '@/lib/logger';
+import { recordEmailClick } from '@/services/EmailTrackingService';
+
+/**
+ * @swagger
+ * /api/email/click:
+ *   get:
+ *     summary: Email click-through redirect
+ *     description: |
+ *       Links in campaign emails are rewritten at send time to pass through
+ *       here. Records a click and redirects to the original link; links whose
+ *       signature does not match redirect to the storefront.
+ *     tags: [Email Marketing]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: url
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sig
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       302:
+ *         description: Redirect to the link
+ */
+async function clickHandler(request: Request): Promise<NextResponse> {
+  const params = new URL(request.url).searchParams;
+  const url = params.get('url');
+
+  let destination: string;
+  try {
+    destination = await recordEmailClick(params.get('token'), url, params.get('sig'));
+  } catch (error) {
+    // Send the reader to the storefront rather than an error page
+    logError(error, { operation: 'recordEmailClick' });
+    destination = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  }
+
+  return NextResponse.redirect(destination, 302);
+}
+
+export const GET = withApiLogger(clickHandler);
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { logError } from '@/lib/logger';
+import { recordEmailOpen } from '@/services/EmailTrackingService';
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/**
+ * @swagger
+ * /api/email/open:
+ *   get:
+ *     summary: Email open tracking pixel
+ *     description: |
+ *       Loaded by the image added to campaign emails at send time. Records an
+ *       open for the signed token and always returns a transparent GIF.
+ *     tags: [Email Marketing]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 1x1 GIF
+ */
+async function openHandler(request: Request): Promise<NextResponse> {
+  const token = new URL(request.url).searchParams.get('token');
+
+  // The image must load whatever happens to the event
+  await recordEmailOpen(token).catch((error) => logError(error, { operation: 'recordEmailOpen' }));
+
+  return new NextResponse(PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    },
+  });
+}
+
+export const GET = withApiLogger(openHandler);
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { verifyTrackingToken } from '@/lib/email-tracking';
+import { unsubscribeByToken } from '@/services/EmailTrackingService';
+
+function page(title: string, body: string, status = 200): NextResponse {
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${title} - Minalesh</title>
+</head>
+<body style="font-family: Arial, sans-serif; max-width: 480px; margin: 60px auto; padding: 0 20px; color: #333; text-align: center;">
+  <h1 style="font-size: 22px;">${title}</h1>
+  ${body}
+</body>
+</html>`;
+  return new NextResponse(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const invalidLinkPage = () =>
+  page('Link not valid', '<p>This unsubscribe link is not valid. Please use the link from a recent email.</p>', 400);
+
+/**
+ * @swagger
+ * /api/email/unsubscribe:
+ *   get:
+ *     summary: Unsubscribe confirmation page
+ *     description: |
+ *       Opened from the unsubscribe link in campaign emails. Shows a button that
+ *       confirms with a POST, so link scanners opening the URL do not unsubscribe.
+ *     tags: [Email Marketing]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: HTML confirmation page
+ *       400:
+ *         description: Invalid link
+ *   post:
+ *     summary: Unsubscribe from marketing email
+ *     description: |
+ *       Target of the List-Unsubscribe header. Mail clients post
+ *       `List-Unsubscribe=One-Click` (RFC 8058) and get an empty 200; the
+ *       confirmation page's form gets an HTML page. Marks the recipient's
+ *       EmailSubscription unsubscribed.
+ *     tags: [Email Marketing]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Unsubscribed
+ *       400:
+ *         description: Invalid link
+ */
+async function confirmHandler(request: Request): Promise<NextResponse> {
+  const token = new URL(request.url).searchParams.get('token');
+  if (!verifyTrackingToken(token)) {
+    return invalidLinkPage();
+  }
+
+  return page(
+    'Unsubscribe',
+    `<p>Stop receiving marketing emails from Minalesh? Order and account emails are not affected.</p>
+  <form method="post" action="/api/email/unsubscribe?token=${encodeURIComponent(token!)}">
+    <button type="submit" style="background-color: #4CAF50; color: white; border: 0; padding: 12px 24px; border-radius: 5px; cursor: pointer;">Unsubscribe</button>
+  </form>`
+  );
+}
+
+async function unsubscribeHandler(request: Request): Promise<NextResponse> {
+  const token = new URL(request.url).searchParams.get('token');
+  const body = await request.text();
+  const oneClick = new URLSearchParams(body).get('List-Unsubscribe') === 'One-Click';
+
+  if (oneClick) {
+    await unsubscribeByToken(token, 'one_click');
+    return new NextResponse(null, { status: 200 });
+  }
+
+  if (!verifyTrackingToken(token)) {
+    return invalidLinkPage();
+  }
+  const { email } = await unsubscribeByToken(token, 'link');
+  return page(
+    'You are unsubscribed',
+    `<p>${escapeHtml(email)} will no longer receive marketing emails from Minalesh.</p>`
+  );
+}
+
+export const GET = withApiLogger(confirmHandler);
+export const POST = withApiLogger(unsubscribeHandler);
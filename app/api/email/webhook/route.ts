@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { verifyDeliveryWebhook } from '@/lib/email-tracking';
+import { handleDeliveryEvent, type DeliveryWebhookEvent } from '@/services/EmailTrackingService';
+
+/**
+ * @swagger
+ * /api/email/webhook:
+ *   post:
+ *     summary: Email delivery webhook
+ *     description: |
+ *       Receives Resend delivery events. `email.bounced` and `email.complained`
+ *       are recorded against the sent email and its campaign; hard bounces and
+ *       complaints suppress the address so the queue stops sending to it, and
+ *       complaints also unsubscribe it. Requests must carry a valid Svix
+ *       signature for RESEND_WEBHOOK_SECRET.
+ *     tags: [Email Marketing]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *               data:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Whether the event was handled
+ *       401:
+ *         description: Invalid signature
+ */
+async function webhookHandler(request: Request): Promise<NextResponse> {
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('RESEND_WEBHOOK_SECRET not configured');
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+  }
+
+  const payload = await request.text();
+  if (!verifyDeliveryWebhook(payload, request.headers, secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let event: DeliveryWebhookEvent;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 422 });
+  }
+
+  // Always 200 for events we ignore so the provider does not retry them
+  const result = await handleDeliveryEvent(event);
+
+  return NextResponse.json(result);
+}
+
+export const POST = withApiLogger(webhookHandler);
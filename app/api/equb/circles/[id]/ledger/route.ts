@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { getLedger } from '@/services/EqubService';
+
+/**
+ * @swagger
+ * /api/equb/circles/{id}/ledger:
+ *   get:
+ *     summary: Equb circle ledger
+ *     description: |
+ *       Every contribution, penalty, payout, refund and missed contribution in the circle,
+ *       oldest first, with the pot balance after each entry. Visible to members and admins.
+ *     tags: [Equb]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: perPage
+ *         schema:
+ *           type: integer
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Ledger entries, current pot balance and the viewer's totals
+ *       403:
+ *         description: Not a member of this circle
+ *       404:
+ *         description: Equb circle not found
+ */
+async function ledgerHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const { searchParams } = new URL(request.url);
+
+  const ledger = await getLedger(params.id, user, {
+    page: parseInt(searchParams.get('page') || '1'),
+    perPage: parseInt(searchParams.get('perPage') || '50'),
+  });
+
+  return NextResponse.json({
+    success: true,
+    data: ledger,
+  });
+}
+
+export const GET = withApiLogger(ledgerHandler);
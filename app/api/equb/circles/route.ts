@@ -1,101 +1,135 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
-import { verifyToken } from '@/lib/auth';
-
-const prisma = new PrismaClient();
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { equbSchemas, validateRequestBody } from '@/lib/validation';
+import { createCircle, type CreateCircleInput } from '@/services/EqubService';
 
 /**
- * POST /api/equb/circles
- * 
- * Create a new Equb circle (Ethiopian rotating savings group)
- * Requires authentication
+ * @swagger
+ * /api/equb/circles:
+ *   post:
+ *     summary: Create an Equb circle
+ *     description: Create a new Equb circle (Ethiopian rotating savings group). The creator joins as member #1.
+ *     tags: [Equb]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, memberLimit, contributionAmount, frequency, startDate]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               memberLimit:
+ *                 type: integer
+ *                 minimum: 2
+ *                 maximum: 50
+ *               contributionAmount:
+ *                 type: number
+ *                 minimum: 100
+ *               frequency:
+ *                 type: string
+ *                 enum: [weekly, biweekly, monthly]
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               payoutMethod:
+ *                 type: string
+ *                 enum: [position, lottery]
+ *                 description: Pay members in join order or draw each round's recipient
+ *               latePenaltyRate:
+ *                 type: number
+ *                 description: Fraction of the contribution charged when paid after the due date (default 0.05)
+ *               gracePeriodDays:
+ *                 type: integer
+ *                 description: Days after the due date before the round settles without missing members (default 3)
+ *               maxMissedRounds:
+ *                 type: integer
+ *                 description: Missed rounds before a member is marked as defaulted (default 2)
+ *     responses:
+ *       200:
+ *         description: Equb circle created
+ *       400:
+ *         description: Start date is in the past
+ *       401:
+ *         description: Unauthorized
  */
-export async function POST(request: NextRequest) {
-  try {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const token = authHeader.substring(7);
-    const payload = await verifyToken(token);
-    
-    if (!payload || !payload.userId) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    }
-
-    const userId = payload.userId;
-    const body = await request.json();
-    
-    const {
-      name,
-      description,
-      memberLimit,
-      contributionAmount,
-      frequency,
-      startDate,
-    } = body;
-
-    // Validate required fields
-    if (!name || !memberLimit || !contributionAmount || !frequency || !startDate) {
-      return NextResponse.json(
-        { error: 'Missing required fields: name, memberLimit, contributionAmount, frequency, startDate' },
-        { status: 400 }
-      );
-    }
-
-    // Validate memberLimit
-    if (memberLimit < 2 || memberLimit > 50) {
-      return NextResponse.json(
-        { error: 'Member limit must be between 2 and 50' },
-        { status: 400 }
-      );
-    }
+async function createHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
 
-    // Validate frequency
-    if (!['weekly', 'biweekly', 'monthly'].includes(frequency)) {
-      return NextResponse.json(
-        { error: 'Frequency must be: weekly, biweekly, or monthly' },
-        { status: 400 }
-      );
-    }
+  const validation = await validateRequestBody(request, equbSchemas.createCircle);
+  if (validation.success === false) {
+    return validation.response;
+  }
 
-    // Validate contribution amount
-    if (contributionAmount < 100) {
-      return NextResponse.json(
-        { error: 'Contribution amount must be at least 100 ETB' },
-        { status: 400 }
-      );
-    }
+  const equbCircle = await createCircle(user.userId, validation.data as CreateCircleInput);
 
-    const start = new Date(startDate);
-    if (start < new Date()) {
-      return NextResponse.json(
-        { error: 'Start date must be in the future' },
-        { status: 400 }
-      );
-    }
+  return NextResponse.json({
+    success: true,
+    data: equbCircle,
+    message: 'Equb circle created successfully! Invite friends to join.',
+  });
+}
 
-    // Create Equb circle and add creator as first member in a transaction
-    const equbCircle = await prisma.$transaction(async (tx) => {
-      // Create the Equb circle
-      const newCircle = await tx.equbCircle.create({
-        data: {
-          name,
-          description,
-          creatorId: userId,
-          memberLimit,
-          contributionAmount,
-          frequency,
-          startDate: start,
-          totalRounds: memberLimit, // Each member gets one turn
-          status: 'active',
+/**
+ * @swagger
+ * /api/equb/circles:
+ *   get:
+ *     summary: List Equb circles
+ *     tags: [Equb]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, completed, cancelled]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Equb circles with their members
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50);
+  const status = searchParams.get('status') || 'active';
+
+  const equbCircles = await prisma.equbCircle.findMany({
+    where: {
+      status: status as any,
+    },
+    include: {
+      creator: {
+        select: {
+          id: true,
+          profile: {
+            select: {
+              firstName: true,
+              lastName: true,
+            },
+          },
         },
-        include: {
-          creator: {
+      },
+      members: {
+        select: {
+          id: true,
+          userId: true,
+          position: true,
+          isActive: true,
+          hasReceivedPayout: true,
+          joinedAt: true,
+          user: {
             select: {
               id: true,
-              email: true,
               profile: {
                 select: {
                   firstName: true,
@@ -105,111 +139,32 @@ export async function POST(request: NextRequest) {
             },
           },
         },
-      });
-
-      // Add creator as first member (position 1)
-      await tx.equbCircleMember.create({
-        data: {
-          equbCircleId: newCircle.id,
-          userId,
-          position: 1,
-          isActive: true,
+        orderBy: {
+          position: 'asc',
         },
-      });
-
-      return newCircle;
-    });
-
-    return NextResponse.json({
-      success: true,
-      data: equbCircle,
-      message: 'Equb circle created successfully! Invite friends to join.',
-    });
-  } catch (error) {
-    console.error('Error creating Equb circle:', error);
-    return NextResponse.json(
-      { error: 'Failed to create Equb circle' },
-      { status: 500 }
-    );
-  }
-}
-
-/**
- * GET /api/equb/circles
- * 
- * Get active Equb circles
- */
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50);
-    const status = searchParams.get('status') || 'active';
-
-    const equbCircles = await prisma.equbCircle.findMany({
-      where: {
-        status: status as any,
       },
-      include: {
-        creator: {
-          select: {
-            id: true,
-            profile: {
-              select: {
-                firstName: true,
-                lastName: true,
-              },
-            },
-          },
-        },
-        members: {
-          select: {
-            id: true,
-            userId: true,
-            position: true,
-            isActive: true,
-            joinedAt: true,
-            user: {
-              select: {
-                id: true,
-                profile: {
-                  select: {
-                    firstName: true,
-                    lastName: true,
-                  },
-                },
-              },
-            },
-          },
-          orderBy: {
-            position: 'asc',
-          },
-        },
-        _count: {
-          select: {
-            members: true,
-            contributions: true,
-          },
+      _count: {
+        select: {
+          members: true,
+          contributions: true,
         },
       },
-      orderBy: [
-        { startDate: 'desc' },
-        { createdAt: 'desc' },
-      ],
-      take: limit,
-    });
-
-    return NextResponse.json({
-      success: true,
-      data: equbCircles,
-      metadata: {
-        count: equbCircles.length,
-      },
-    });
-  } catch (error) {
-    console.error('Error fetching Equb circles:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch Equb circles' },
-      { status: 500 }
-    );
-  }
+    },
+    orderBy: [
+      { startDate: 'desc' },
+      { createdAt: 'desc' },
+    ],
+    take: limit,
+  });
+
+  return NextResponse.json({
+    success: true,
+    data: equbCircles,
+    metadata: {
+      count: equbCircles.length,
+    },
+  });
 }
+
+export const POST = withApiLogger(createHandler);
+export const GET = withApiLogger(listHandler);
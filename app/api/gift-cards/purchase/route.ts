@@ -3,6 +3,7 @@ import { cookies } from 'next/headers'
 import { jwtVerify } from 'jose'
 import prisma from '@/lib/prisma'
 import { queueEmail } from '@/lib/email'
+import { postGiftCardTransaction } from '@/services/LedgerService'
 
 const JWT_SECRET = new TextEncoder().encode(
   process.env.JWT_SECRET || 'dev-secret-key-change-in-production'
@@ -130,7 +131,7 @@ export async function POST(req: NextRequest) {
     expiresAt.setFullYear(expiresAt.getFullYear() + 1)
 
     // Create gift card
-    const giftCard = await prisma.$transaction(async (tx) => {
+    const { card: giftCard, transaction } = await prisma.$transaction(async (tx) => {
       const card = await tx.giftCard.create({
         data: {
           code,
@@ -145,7 +146,7 @@ export async function POST(req: NextRequest) {
       })
 
       // Create transaction record
-      await tx.giftCardTransaction.create({
+      const transaction = await tx.giftCardTransaction.create({
         data: {
           cardId: card.id,
           amount,
@@ -153,9 +154,13 @@ export async function POST(req: NextRequest) {
         },
       })
 
-      return card
+      return { card, transaction }
     })
 
+    await postGiftCardTransaction(transaction.id).catch((err) =>
+      console.error('Error posting gift card journal:', err)
+    )
+
     // Send email to recipient if recipientEmail is provided
     if (recipientEmail) {
       try {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { jwtVerify } from 'jose'
 import prisma from '@/lib/prisma'
+import { postGiftCardTransaction } from '@/services/LedgerService'
 
 const JWT_SECRET = new TextEncoder().encode(
   process.env.JWT_SECRET || 'dev-secret-key-change-in-production'
@@ -165,6 +166,10 @@ export async function POST(req: NextRequest) {
       return { card: updatedCard, transaction }
     })
 
+    await postGiftCardTransaction(result.transaction.id).catch((err) =>
+      console.error('Error posting gift card journal:', err)
+    )
+
     return NextResponse.json({
       message: 'Gift card redeemed successfully',
       redemptionAmount,
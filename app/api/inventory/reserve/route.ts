@@ -18,7 +18,7 @@ const reserveSchema = z.object({
 export async function POST(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = token ? getUserFromToken(token) : null;
+    const payload = token ? await getUserFromToken(token) : null;
 
     const body = await request.json();
     const parsed = reserveSchema.safeParse(body);
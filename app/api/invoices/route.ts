@@ -18,7 +18,7 @@ const createInvoiceSchema = z.object({
 
 // POST /api/invoices - Create invoice for an order
 export async function POST(request: Request) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -78,7 +78,7 @@ export async function POST(request: Request) {
 
 // GET /api/invoices?invoiceId=xxx or ?orderId=xxx or list all (admin)
 export async function GET(request: Request) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -33,7 +33,7 @@ import { getTokenFromRequest, getUserFromToken } from '@/lib/auth'
 export async function GET(req: NextRequest) {
   try {
     const token = getTokenFromRequest(req)
-    const payload = getUserFromToken(token)
+    const payload = await getUserFromToken(token)
 
     if (!payload) {
       return NextResponse.json(
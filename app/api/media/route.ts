@@ -43,7 +43,7 @@ export async function POST(request: Request) {
   try {
     // Verify authentication
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
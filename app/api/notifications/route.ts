@@ -6,7 +6,7 @@ import { withSecurity } from '@/lib/security-middleware';
 async function getHandler(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -34,7 +34,7 @@ async function getHandler(request: Request) {
 async function patchHandler(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -73,7 +73,7 @@ async function patchHandler(request: Request) {
 async function deleteHandler(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { validateRequestBody } from '@/lib/validation';
+import { editOrder, type EditOrderInput } from '@/services/OrderEditService';
+
+const editSchema = z
+  .object({
+    items: z
+      .array(
+        z.object({
+          orderItemId: z.string().uuid(),
+          quantity: z.number().int().min(0).max(1000),
+        })
+      )
+      .refine(
+        (items) => new Set(items.map((item) => item.orderItemId)).size === items.length,
+        'Each item can only be listed once'
+      )
+      .optional(),
+    shippingAddress: z
+      .object({
+        name: z.string().trim().max(200).optional(),
+        phone: z.string().trim().max(50).optional(),
+        line1: z.string().trim().max(500).optional(),
+        city: z.string().trim().min(1).max(100),
+        postalCode: z.string().trim().max(20).optional(),
+        country: z.string().trim().max(100).optional(),
+      })
+      .optional(),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .refine((input) => (input.items && input.items.length > 0) || input.shippingAddress, 'Nothing to change');
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/edit:
+ *   post:
+ *     summary: Change an order before it is fulfilled
+ *     description: |
+ *       Cancels lines (quantity 0), changes quantities or the shipping address
+ *       while the order is pending, paid or confirmed. The order is re-priced at
+ *       the prices it was placed at; promotions and the coupon drop out when it
+ *       no longer meets their minimum, and shipping and tax are recalculated.
+ *       On a paid order a lower total is refunded; changes that would raise
+ *       it are refused.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     orderItemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 0
+ *               shippingAddress:
+ *                 type: object
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                   phone:
+ *                     type: string
+ *                   line1:
+ *                     type: string
+ *                   city:
+ *                     type: string
+ *                   postalCode:
+ *                     type: string
+ *                   country:
+ *                     type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Order changed, with any refund
+ *       400:
+ *         description: Order already being fulfilled, not enough stock, no shipping to the new address, or a higher total on a paid order
+ *       404:
+ *         description: Order or order item not found
+ */
+async function editHandler(
+  request: Request,
+  { params }: { params: { orderId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, editSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { order, edit } = await editOrder(user.userId, params.orderId, validation.data as EditOrderInput);
+
+  return NextResponse.json({
+    message: order.status === 'cancelled' ? 'Order cancelled' : 'Order updated',
+    order,
+    edit,
+  });
+}
+
+export const POST = withApiLogger(editHandler);
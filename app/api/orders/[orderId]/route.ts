@@ -9,7 +9,7 @@ export async function GET(
 ) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -51,6 +51,37 @@ export async function GET(
             createdAt: 'desc',
           },
         },
+        // Each vendor's part of the order, with its own status and tracking
+        vendorOrders: {
+          include: {
+            vendor: {
+              select: {
+                id: true,
+                displayName: true,
+              },
+            },
+            shippingMethod: {
+              select: {
+                name: true,
+                carrier: true,
+              },
+            },
+            deliveryTracking: {
+              select: {
+                logisticsProvider: true,
+                providerTrackingId: true,
+                courierName: true,
+                courierPhone: true,
+                estimatedDeliveryStart: true,
+                estimatedDeliveryEnd: true,
+                actualDeliveryTime: true,
+              },
+            },
+          },
+          orderBy: {
+            number: 'asc',
+          },
+        },
         user: {
           select: {
             id: true,
@@ -1,10 +1,11 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { getTokenFromRequest, getUserFromToken, isAdmin } from '@/lib/auth';
+import { getTokenFromRequest, getUserFromToken, hasAdminPermission } from '@/lib/auth';
 import { withRole } from '@/lib/middleware';
-import { validateStatusTransition } from '@/lib/order-status';
+import { getStatusTimestamp, validateStatusTransition } from '@/lib/order-status';
 import { sendTrackingNotification } from '@/lib/logistics';
 import { awardPointsForPurchase } from '@/services/LoyaltyService';
+import { applyOrderStatusToVendorOrders } from '@/services/VendorOrderService';
 import type { OrderStatus } from '@prisma/client';
 
 // PUT - Update order status
@@ -17,7 +18,7 @@ export async function PUT(
     const internalAuthorized = !!process.env.INTERNAL_API_SECRET && internalSecret === process.env.INTERNAL_API_SECRET;
 
   const token = internalAuthorized ? null : getTokenFromRequest(request);
-  const payload = internalAuthorized ? ({ userId: 'system', email: 'system@internal', role: 'admin' as const }) : getUserFromToken(token);
+  const payload = internalAuthorized ? ({ userId: 'system', email: 'system@internal', role: 'admin' as const }) : await getUserFromToken(token);
 
     if (!payload && !internalAuthorized) {
       return NextResponse.json(
@@ -62,7 +63,7 @@ export async function PUT(
     }
 
     // Check authorization - user can only view their own orders unless admin
-    const userIsAdmin = internalAuthorized ? true : isAdmin(payload.role);
+    const userIsAdmin = internalAuthorized ? true : hasAdminPermission(payload, ['support', 'finance']);
     if (!internalAuthorized && !userIsAdmin && order.userId !== payload.userId) {
       return NextResponse.json(
         { error: 'Forbidden - You can only update your own orders' },
@@ -80,47 +81,7 @@ export async function PUT(
     }
 
     // Prepare timestamp field based on status
-    const timestampFields: Record<string, Date> = {};
-    const now = new Date();
-    
-    switch (status) {
-      case 'paid':
-        timestampFields.paidAt = now;
-        break;
-      case 'confirmed':
-        timestampFields.confirmedAt = now;
-        break;
-      case 'processing':
-        timestampFields.processingAt = now;
-        break;
-      case 'packed':
-        timestampFields.packedAt = now;
-        break;
-      case 'picked_up':
-        timestampFields.pickedUpAt = now;
-        break;
-      case 'in_transit':
-        timestampFields.inTransitAt = now;
-        break;
-      case 'out_for_delivery':
-        timestampFields.outForDeliveryAt = now;
-        break;
-      case 'fulfilled':
-        timestampFields.fulfilledAt = now;
-        break;
-      case 'shipped':
-        timestampFields.shippedAt = now;
-        break;
-      case 'delivered':
-        timestampFields.deliveredAt = now;
-        break;
-      case 'cancelled':
-        timestampFields.cancelledAt = now;
-        break;
-      case 'refunded':
-        timestampFields.refundedAt = now;
-        break;
-    }
+    const timestampFields = getStatusTimestamp(status as OrderStatus);
 
     // Update order status with transaction to ensure consistency
     const updatedOrder = await prisma.$transaction(async (tx) => {
@@ -136,6 +97,9 @@ export async function PUT(
         },
       });
 
+      // Vendor orders follow the order where their own status allows it
+      await applyOrderStatusToVendorOrders(tx, params.orderId, status as OrderStatus, payload.userId);
+
       // Create order event for audit trail (raw to avoid client type mismatch)
       await tx.$executeRawUnsafe(
         'INSERT INTO "order_events" (order_id, event_type, status, description, metadata) VALUES ($1, $2, $3, $4, $5)',
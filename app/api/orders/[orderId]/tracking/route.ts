@@ -27,7 +27,7 @@ export async function GET(
 ) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -122,7 +122,7 @@ export async function PUT(
 ) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     // Allow internal API calls for logistics providers
     const internalSecret = request.headers.get('x-internal-secret') || '';
@@ -232,7 +232,7 @@ export async function POST(
 ) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     // Allow internal API calls for delivery drivers
     const internalSecret = request.headers.get('x-internal-secret') || '';
@@ -27,7 +27,7 @@ import { withApiLogger } from '@/lib/api-logger';
  *         description: Unauthorized
  */
 async function getHandler(request: Request) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -62,13 +62,34 @@ export const GET = withApiLogger(
  *           schema:
  *             type: object
  *             required:
+ *               - items
  *               - paymentMethod
  *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     variantId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *               couponCode:
+ *                 type: string
+ *                 description: Priced with promotions and flash sales by the cart pricing engine
  *               paymentMethod:
  *                 type: string
  *                 enum: [stripe, cod, bank_transfer]
  *               shippingAddress:
  *                 type: object
+ *                 description: With a city, shipping is charged per vendor shipment as quoted by /api/cart/calculate
+ *               shippingSelections:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 description: Chosen shipping method id per vendor id; defaults to the cheapest
  *               billingAddress:
  *                 type: object
  *     responses:
@@ -78,10 +99,12 @@ export const GET = withApiLogger(
  *         description: Invalid request
  *       401:
  *         description: Unauthorized
+ *       422:
+ *         description: Physical items need a shipping address with a city
  */
 // Create a new order from client cart with selected payment method
 async function postHandler(request: Request) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -97,8 +120,10 @@ async function postHandler(request: Request) {
     const schema = z.object({
       items: z.array(z.object({
         id: z.string().uuid().or(z.string().min(1)), // allow uuid or legacy id
+        variantId: z.string().uuid().optional(),
         quantity: z.number().int().positive().max(999)
-      })).min(1) as z.ZodType<{ id: string; quantity: number; }[]>,
+      })).min(1) as z.ZodType<{ id: string; variantId?: string; quantity: number; }[]>,
+      couponCode: z.string().min(1).max(50).optional(),
       paymentMethod: z.enum(['COD','TeleBirr','CBE','Awash','BankTransfer','Other']),
       paymentMeta: z.object({
         phone: z.string().min(7).max(20).optional(),
@@ -109,6 +134,7 @@ async function postHandler(request: Request) {
       loyaltyPointsToRedeem: z.number().int().min(0).optional(),
       giftCardCode: z.string().optional(),
       giftCardAmount: z.number().min(0).optional(),
+      shippingSelections: z.record(z.string().uuid()).optional(),
     });
 
     const json = await request.json();
@@ -116,12 +142,13 @@ async function postHandler(request: Request) {
     if (!parsed.success) {
       return NextResponse.json({ error: 'Validation failed', issues: parsed.error.issues }, { status: 422 });
     }
-    const { items, paymentMethod, paymentMeta, shippingAddress, billingAddress, loyaltyPointsToRedeem, giftCardCode, giftCardAmount } = parsed.data;
+    const { items, couponCode, paymentMethod, paymentMeta, shippingAddress, billingAddress, loyaltyPointsToRedeem, giftCardCode, giftCardAmount, shippingSelections } = parsed.data;
 
     // Call OrderService to create the order
     const result = await OrderService.createOrder({
       userId: payload!.userId,
       items,
+      couponCode,
       paymentMethod,
       paymentMeta,
       shippingAddress,
@@ -129,17 +156,23 @@ async function postHandler(request: Request) {
       loyaltyPointsToRedeem,
       giftCardCode,
       giftCardAmount,
+      shippingSelections: shippingSelections as Record<string, string>,
     });
 
     if (!result.success) {
-      const statusCode = result.error?.includes('Insufficient stock') ? 409 : 400;
+      const statusCode = result.statusCode ?? (result.error?.includes('Insufficient stock') ? 409 : 400);
       return NextResponse.json(
         { error: result.error, details: result.details },
         { status: statusCode }
       );
     }
 
-    return NextResponse.json({ success: true, order: result.order });
+    return NextResponse.json({
+      success: true,
+      order: result.order,
+      providerPayment: result.providerPayment,
+      paymentError: result.paymentError,
+    });
   } catch (error) {
     console.error('Error creating order:', error);
     return NextResponse.json(
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getTokenFromRequest, getUserFromToken, isAdmin } from '@/lib/auth';
+import { getTokenFromRequest, getUserFromToken, hasAdminPermission } from '@/lib/auth';
 import { capturePayment, getCaptureStatus } from '@/lib/capture';
 import { z } from 'zod';
 import prisma from '@/lib/prisma';
@@ -14,7 +14,7 @@ const captureSchema = z.object({
 export async function POST(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -42,7 +42,7 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 });
     }
 
-    const userIsAdmin = isAdmin(payload.role);
+    const userIsAdmin = hasAdminPermission(payload, 'finance');
     if (!userIsAdmin && order.userId !== payload.userId) {
       return NextResponse.json(
         { error: 'Forbidden - You can only capture payments for your own orders' },
@@ -79,7 +79,7 @@ export async function POST(request: Request) {
 export async function GET(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -105,7 +105,7 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 });
     }
 
-    const userIsAdmin = isAdmin(payload.role);
+    const userIsAdmin = hasAdminPermission(payload, 'finance');
     if (!userIsAdmin && order.userId !== payload.userId) {
       return NextResponse.json(
         { error: 'Forbidden - You can only view your own order capture status' },
@@ -36,6 +36,8 @@ const createIntentSchema = z.object({
   couponCode: z.string().optional(),
   shippingMethodId: z.string().uuid().optional(),
   captureMethod: z.enum(['automatic', 'manual']).default('automatic'),
+  paymentProvider: z.enum(['stripe', 'telebirr', 'cbe', 'awash']).default('stripe'),
+  customerPhone: z.string().min(7).optional(),
   // Buyer Protection options
   enableBuyerProtection: z.boolean().optional().default(false),
   enableInsurance: z.boolean().optional().default(false),
@@ -46,7 +48,10 @@ const createIntentSchema = z.object({
  * /api/payments/create-intent:
  *   post:
  *     summary: Create payment intent
- *     description: Create a Stripe payment intent and reserve inventory
+ *     description: |
+ *       Reserve inventory, create the pending order and start the payment: a Stripe payment
+ *       intent by default, or a TeleBirr / CBE Birr / Awash payment through the provider adapter.
+ *       Local providers confirm the payment through /api/payments/webhook.
  *     tags: [Payments]
  *     security:
  *       - bearerAuth: []
@@ -81,6 +86,13 @@ const createIntentSchema = z.object({
  *               captureMethod:
  *                 type: string
  *                 enum: [automatic, manual]
+ *               paymentProvider:
+ *                 type: string
+ *                 enum: [stripe, telebirr, cbe, awash]
+ *                 default: stripe
+ *               customerPhone:
+ *                 type: string
+ *                 description: Mobile money number to charge (defaults to the shipping address phone)
  *               enableBuyerProtection:
  *                 type: boolean
  *                 description: Enable buyer protection (2.5% fee)
@@ -96,7 +108,7 @@ const createIntentSchema = z.object({
  *         description: Unauthorized
  */
 async function postHandler(request: Request) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -117,6 +129,8 @@ async function postHandler(request: Request) {
       couponCode, 
       shippingMethodId, 
       captureMethod,
+      paymentProvider,
+      customerPhone,
       enableBuyerProtection,
       enableInsurance,
     } = parsed.data;
@@ -130,13 +144,16 @@ async function postHandler(request: Request) {
       couponCode,
       shippingMethodId,
       captureMethod,
+      paymentProvider,
+      customerPhone,
       enableBuyerProtection,
       enableInsurance,
     });
 
     if (!result.success) {
       const statusCode = result.error?.includes('not found') ? 400 : 
-                         result.error?.includes('reserve inventory') ? 409 : 500;
+                         result.error?.includes('reserve inventory') ? 409 :
+                         result.error?.includes('unavailable') ? 502 : 500;
       return NextResponse.json(
         { error: result.error },
         { status: statusCode }
@@ -148,6 +165,7 @@ async function postHandler(request: Request) {
       order: result.order,
       reservations: result.reservations,
       stripePaymentIntent: result.stripePaymentIntent,
+      providerPayment: result.providerPayment,
       expiresAt: result.expiresAt,
     });
   } catch (error) {
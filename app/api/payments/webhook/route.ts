@@ -1,9 +1,11 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { z } from 'zod';
-import { createHmac, timingSafeEqual } from 'crypto';
 import { commitReservation } from '@/services/InventoryService';
+import { getPaymentProvider, type PaymentProvider } from '@/lib/payment-providers';
+import { signPayload, verifySignature } from '@/lib/payment-providers/http';
 import { createCommissionLedgerEntries } from '@/lib/vendor-payout';
+import { postOrderPayment } from '@/services/LedgerService';
 
 const schema = z.object({
   provider: z.string().min(1),
@@ -15,6 +17,22 @@ const schema = z.object({
   meta: z.record(z.any()).optional(),
 });
 
+/**
+ * Map a provider-native callback onto the generic webhook payload
+ */
+function normalizeProviderCallback(adapter: PaymentProvider, body: unknown) {
+  const event = adapter.parseCallback(body);
+  if (!event) return body;
+  return {
+    provider: adapter.id,
+    status: event.status,
+    orderNumber: event.orderNumber,
+    paymentReference: event.paymentReference,
+    amount: event.amount,
+    meta: event.eventId ? { eventId: event.eventId } : undefined,
+  };
+}
+
 export async function POST(request: Request) {
   try {
     const t0 = Date.now();
@@ -30,88 +48,43 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Server misconfiguration' }, { status: 500 });
     }
 
+    // Parse body early (needed to pick the provider adapter)
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 422 });
+    }
+
+    // Providers call back on ?provider=<id> with their own payload; internal callers post the generic shape
+    const providerParam =
+      new URL(request.url).searchParams.get('provider') ||
+      (typeof (body as Record<string, unknown>)?.provider === 'string' ? (body as { provider: string }).provider : '');
+    const adapter = getPaymentProvider(providerParam);
+
     let authorized = false;
     let computedSig: string | null = null;
-    if (sigHeader) {
-      const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
-      computedSig = expected;
-      try {
-        authorized = timingSafeEqual(Buffer.from(expected, 'utf8'), Buffer.from(sigHeader, 'utf8'));
-      } catch {
-        authorized = false;
-      }
+    if (adapter) {
+      // Local providers must sign with their own secret (falls back to PAYMENT_WEBHOOK_SECRET)
+      authorized = adapter.verifyCallback(rawBody, request.headers);
+    } else if (sigHeader) {
+      computedSig = signPayload(rawBody, secret);
+      authorized = verifySignature(rawBody, sigHeader, secret);
     } else if (secretHeader) {
       authorized = secretHeader === secret;
     }
 
-    // Parse body early (needed for provider-specific verification)
-    const body = JSON.parse(rawBody);
-
-    // Provider specific signature fallback if generic not authorized
-    if (!authorized) {
-      const providerTmp = typeof body.provider === 'string' ? body.provider.toLowerCase() : '';
-      const providerSigHeaders: Record<string, { header: string; env: string }> = {
-        telebirr: { header: 'x-telebirr-signature', env: 'TELEBIRR_WEBHOOK_SECRET' },
-        cbe: { header: 'x-cbe-signature', env: 'CBE_WEBHOOK_SECRET' },
-        awash: { header: 'x-awash-signature', env: 'AWASH_WEBHOOK_SECRET' },
-      };
-      const cfg = providerSigHeaders[providerTmp];
-      if (cfg) {
-        const providerSecret = process.env[cfg.env] || secret;
-        const pvSig = request.headers.get(cfg.header);
-        if (pvSig) {
-          const expected = createHmac('sha256', providerSecret).update(rawBody).digest('hex');
-          try {
-            authorized = timingSafeEqual(Buffer.from(expected, 'utf8'), Buffer.from(pvSig, 'utf8'));
-          } catch {
-            authorized = false;
-          }
-        }
-      }
-    }
-
     if (!authorized) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const parsed = schema.safeParse(body);
+    const parsed = schema.safeParse(
+      adapter && !schema.safeParse(body).success ? normalizeProviderCallback(adapter, body) : body
+    );
     if (!parsed.success) return NextResponse.json({ error: 'Invalid payload', issues: parsed.error.issues }, { status: 422 });
 
     const { provider, status, orderId, orderNumber, paymentReference } = parsed.data;
-
-    // Optional provider-specific verification overrides (per-provider secrets/headers)
-    // Fallback to the generic HMAC check above if not provided or fails.
-    const providerLower = provider.toLowerCase();
-    const providerVerifiers: Record<string, (raw: string, req: Request) => Promise<boolean>> = {
-      telebirr: async (raw, req) => {
-        const teleSecret = process.env.TELEBIRR_WEBHOOK_SECRET || secret;
-        const sig = req.headers.get('x-telebirr-signature');
-        if (!sig) return false;
-        const expected = createHmac('sha256', teleSecret).update(raw).digest('hex');
-        computedSig = expected;
-        try { return timingSafeEqual(Buffer.from(expected, 'utf8'), Buffer.from(sig, 'utf8')); } catch { return false; }
-      },
-      cbe: async (raw, req) => {
-        const cbeSecret = process.env.CBE_WEBHOOK_SECRET || secret;
-        const sig = req.headers.get('x-cbe-signature');
-        if (!sig) return false;
-        const expected = createHmac('sha256', cbeSecret).update(raw).digest('hex');
-        computedSig = expected;
-        try { return timingSafeEqual(Buffer.from(expected, 'utf8'), Buffer.from(sig, 'utf8')); } catch { return false; }
-      },
-      awash: async (raw, req) => {
-        const awashSecret = process.env.AWASH_WEBHOOK_SECRET || secret;
-        const sig = req.headers.get('x-awash-signature');
-        if (!sig) return false;
-        const expected = createHmac('sha256', awashSecret).update(raw).digest('hex');
-        computedSig = expected;
-        try { return timingSafeEqual(Buffer.from(expected, 'utf8'), Buffer.from(sig, 'utf8')); } catch { return false; }
-      },
-    };
-    if (providerLower in providerVerifiers) {
-      const ok = await providerVerifiers[providerLower](rawBody, request);
-      if (!ok) return NextResponse.json({ error: 'Unauthorized (provider)' }, { status: 401 });
-    }
+    const signature = sigHeader || secretHeader || (adapter ? request.headers.get(adapter.signatureHeader) : null);
 
     // Try to find order by reference, then number, then id
   let order: { id: string; orderNumber: string; paymentStatus: string; totalAmount?: unknown; notes?: string | null } | null = null;
@@ -158,7 +131,7 @@ export async function POST(request: Request) {
           provider,
           eventId,
           parsed.data,
-          sigHeader || secretHeader || null,
+          signature,
           computedSig,
           'received',
           ip
@@ -169,7 +142,7 @@ export async function POST(request: Request) {
             provider,
             eventId,
             parsed.data,
-            sigHeader || secretHeader || null,
+            signature,
             computedSig,
             'received',
             ip
@@ -184,7 +157,7 @@ export async function POST(request: Request) {
           provider,
           null,
           parsed.data,
-          sigHeader || secretHeader || null,
+          signature,
           computedSig,
           'received',
           ip
@@ -264,6 +237,13 @@ export async function POST(request: Request) {
         console.error('Error creating commission ledger entries:', ledgerError);
         // Don't fail the payment if ledger creation fails
       }
+
+      // Post capture and commission journals to the accounting ledger
+      try {
+        await postOrderPayment(order.id);
+      } catch (journalError) {
+        console.error('Error posting payment journals:', journalError);
+      }
       const latency = Date.now() - t0;
       if (webhookEventId) {
         await prisma.$executeRawUnsafe(
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { getProductPriceBreaks } from '@/services/TieredPricingService';
+
+/**
+ * @swagger
+ * /api/products/{id}/price-tiers:
+ *   get:
+ *     summary: Get quantity price breaks
+ *     description: Active wholesale breaks with the per-unit price at each quantity
+ *     tags: [Products]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Base unit price and price breaks
+ *       404:
+ *         description: Product not found
+ */
+async function handler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const priceBreaks = await getProductPriceBreaks(params.id);
+
+  return NextResponse.json(priceBreaks);
+}
+
+export const GET = withApiLogger(handler);
@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { withApiLogger } from '@/lib/api-logger';
-import { verifyToken } from '@/lib/auth';
+import { getUserFromToken } from '@/lib/auth';
 
 /**
  * @swagger
@@ -91,7 +91,7 @@ async function postHandler(
       );
     }
 
-    const decoded = verifyToken(token);
+    const decoded = await getUserFromToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
-import { verifyToken } from '@/lib/auth'
+import { getUserFromToken } from '@/lib/auth'
 
 /**
  * @swagger
@@ -86,7 +86,7 @@ export async function POST(
     try {
       const token = request.headers.get('authorization')?.replace('Bearer ', '')
       if (token) {
-        const decoded = await verifyToken(token)
+        const decoded = await getUserFromToken(token)
         if (decoded && typeof decoded === 'object' && 'userId' in decoded) {
           userId = decoded.userId
         }
@@ -47,7 +47,7 @@ async function handler(request: Request) {
 
   // Try to get user from token (optional - works for both authenticated and anonymous users)
   const token = getTokenFromRequest(request);
-  const payload = token ? getUserFromToken(token) : null;
+  const payload = token ? await getUserFromToken(token) : null;
   const userId = payload?.userId;
 
   // If productId is provided, get similar products
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
-import prisma from '@/lib/prisma';
 import { getTokenFromRequest, getUserFromToken } from '@/lib/auth';
+import { getClientIp } from '@/lib/rate-limit';
 import * as ProductService from '@/services/ProductService';
+import { getVendorContext, recordVendorAudit } from '@/services/VendorOrganizationService';
 
 /**
  * @swagger
@@ -29,7 +30,7 @@ import * as ProductService from '@/services/ProductService';
 export async function GET(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -38,19 +39,17 @@ export async function GET(request: Request) {
       );
     }
 
-    // Get user's vendor profile
-    const profile = await prisma.profile.findUnique({
-      where: { userId: payload.userId },
-    });
+    // Get the shop the user runs or works for
+    const vendor = await getVendorContext(payload.userId, 'catalog');
 
-    if (!profile || !profile.isVendor) {
+    if (!vendor) {
       return NextResponse.json(
         { error: 'Not authorized as vendor' },
         { status: 403 }
       );
     }
 
-    const products = await ProductService.getVendorProducts(profile.id);
+    const products = await ProductService.getVendorProducts(vendor.vendor.id);
 
     return NextResponse.json(products);
   } catch (error) {
@@ -113,7 +112,7 @@ export async function GET(request: Request) {
 export async function POST(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -122,12 +121,10 @@ export async function POST(request: Request) {
       );
     }
 
-    // Get user's vendor profile
-    const profile = await prisma.profile.findUnique({
-      where: { userId: payload.userId },
-    });
+    // Get the shop the user runs or works for
+    const vendor = await getVendorContext(payload.userId, 'catalog');
 
-    if (!profile || !profile.isVendor) {
+    if (!vendor) {
       return NextResponse.json(
         { error: 'Not authorized as vendor' },
         { status: 403 }
@@ -138,9 +135,18 @@ export async function POST(request: Request) {
 
     const product = await ProductService.createProduct({
       ...data,
-      vendorId: profile.id,
+      vendorId: vendor.vendor.id,
     });
 
+    await recordVendorAudit(
+      vendor,
+      'product.create',
+      'product',
+      product.id,
+      { name: product.name },
+      getClientIp(request)
+    );
+
     return NextResponse.json(product);
   } catch (error) {
     console.error('Error creating product:', error);
@@ -198,7 +204,7 @@ export async function POST(request: Request) {
 export async function PATCH(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -209,12 +215,10 @@ export async function PATCH(request: Request) {
 
     const { id, ...data } = await request.json();
 
-    // Get user's vendor profile
-    const profile = await prisma.profile.findUnique({
-      where: { userId: payload.userId },
-    });
+    // Get the shop the user runs or works for
+    const vendor = await getVendorContext(payload.userId, 'catalog');
 
-    if (!profile || !profile.isVendor) {
+    if (!vendor) {
       return NextResponse.json(
         { error: 'Not authorized as vendor' },
         { status: 403 }
@@ -223,7 +227,16 @@ export async function PATCH(request: Request) {
 
     const product = await ProductService.updateProduct(
       { id, ...data },
-      profile.id
+      vendor.vendor.id
+    );
+
+    await recordVendorAudit(
+      vendor,
+      'product.update',
+      'product',
+      id,
+      { fields: Object.keys(data) },
+      getClientIp(request)
     );
 
     return NextResponse.json(product);
@@ -270,7 +283,7 @@ export async function PATCH(request: Request) {
 export async function DELETE(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -289,19 +302,26 @@ export async function DELETE(request: Request) {
       );
     }
 
-    // Get user's vendor profile
-    const profile = await prisma.profile.findUnique({
-      where: { userId: payload.userId },
-    });
+    // Get the shop the user runs or works for
+    const vendor = await getVendorContext(payload.userId, 'catalog');
 
-    if (!profile || !profile.isVendor) {
+    if (!vendor) {
       return NextResponse.json(
         { error: 'Not authorized as vendor' },
         { status: 403 }
       );
     }
 
-    await ProductService.deleteProduct(id, profile.id);
+    await ProductService.deleteProduct(id, vendor.vendor.id);
+
+    await recordVendorAudit(
+      vendor,
+      'product.delete',
+      'product',
+      id,
+      null,
+      getClientIp(request)
+    );
 
     return NextResponse.json({ success: true, message: 'Product deleted successfully' });
   } catch (error) {
@@ -1,22 +1,28 @@
 import { NextResponse } from 'next/server';
-import { searchProducts, SearchFilters, SearchSort } from '@/lib/search';
+import { searchProducts, parseAttributeFilters, SearchFilters, SearchSort } from '@/lib/search';
 import { withApiLogger } from '@/lib/api-logger';
 import { getOrSetCache } from '@/lib/cache';
 import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { getTokenFromRequest, getUserFromToken } from '@/lib/auth';
+import { logSearch, SEARCH_SOURCES, type SearchSource } from '@/services/SearchAnalyticsService';
 
 /**
  * @swagger
  * /api/products/search:
  *   get:
  *     summary: Search products
- *     description: Search and filter products with full-text search and faceted filtering
+ *     description: |
+ *       Search and filter products with full-text search and faceted filtering.
+ *       Queries match names, brands and descriptions with typo tolerance,
+ *       synonyms and Amharic (Ge'ez or Latin spelling). With a query, each
+ *       product includes a relevanceScore and relevance sorting orders by it.
  *     tags: [Search]
  *     parameters:
  *       - in: query
  *         name: search
  *         schema:
  *           type: string
- *         description: Search query
+ *         description: Search query (English or Amharic)
  *       - in: query
  *         name: category
  *         schema:
@@ -58,6 +64,30 @@ import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
  *           type: boolean
  *         description: Only in-stock items
  *       - in: query
+ *         name: attr.{key}
+ *         schema:
+ *           type: string
+ *         description: |
+ *           Attribute filter from the category's attribute schema, e.g.
+ *           attr.storage=64GB,128GB&attr.color=black. Values of one key are
+ *           alternatives; different keys must all match.
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [text, suggestion, voice]
+ *         description: How the shopper entered the query, for search analytics
+ *       - in: query
+ *         name: voice_lang
+ *         schema:
+ *           type: string
+ *         description: Language of a voice search (en, am, om)
+ *       - in: query
+ *         name: voice_confidence
+ *         schema:
+ *           type: number
+ *         description: Transcription confidence (0-1) of a voice search
+ *       - in: query
  *         name: sort
  *         schema:
  *           type: string
@@ -91,6 +121,12 @@ import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
  *                   type: integer
  *                 totalPages:
  *                   type: integer
+ *                 searchId:
+ *                   type: string
+ *                   description: Logged search id to send with result clicks (first page of a query only)
+ *                 redirect:
+ *                   type: string
+ *                   description: Page an admin rule sends this query to
  */
 async function handler(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -113,6 +149,7 @@ async function handler(request: Request) {
     city: searchParams.get('location') || undefined,
     inStock: searchParams.get('in_stock') === 'true',
     verified: searchParams.get('verified') === 'true',
+    attributes: parseAttributeFilters(searchParams),
   };
 
   // Extract sort parameters
@@ -165,9 +202,40 @@ async function handler(request: Request) {
     }
   );
 
+  // Log the first page of each query for search analytics; later pages
+  // and filter-only browsing are not new searches
+  let searchId: string | null = null;
+  if (filters.query && page === 1) {
+    const sourceParam = searchParams.get('source') as SearchSource;
+    const source = SEARCH_SOURCES.includes(sourceParam) ? sourceParam : 'text';
+    const token = getTokenFromRequest(request);
+    const confidence = parseFloat(searchParams.get('voice_confidence') || '');
+    searchId = await logSearch({
+      query: filters.query,
+      filters: Object.fromEntries(
+        Object.entries(filters).filter(([key, value]) => key !== 'query' && value !== undefined && value !== false)
+      ),
+      sort: sortParam,
+      resultCount: result.pagination.totalCount,
+      source,
+      userId: token ? (await getUserFromToken(token))?.userId : null,
+      sessionId: request.headers.get('x-session-id'),
+      searchRuleId: result.searchRuleId,
+      redirectedTo: result.redirect,
+      ...(source === 'voice' && {
+        voice: {
+          language: searchParams.get('voice_lang') || 'am',
+          confidence: isNaN(confidence) ? 1 : Math.min(1, Math.max(0, confidence)),
+        },
+      }),
+    });
+  }
+
   const response = NextResponse.json({
     products: result.products,
     pagination: result.pagination,
+    searchId,
+    ...(result.redirect && { redirect: result.redirect }),
     filters: {
       query: filters.query,
       category: filters.categorySlug,
@@ -179,15 +247,17 @@ async function handler(request: Request) {
       location: filters.city,
       inStock: filters.inStock,
       verified: filters.verified,
+      attributes: filters.attributes,
       sort: sortParam,
     },
   });
 
   // Add cache headers for CDN and browser caching
-  // stale-while-revalidate: serve stale content while revalidating in background
+  // stale-while-revalidate: serve stale content while revalidating in background.
+  // Logged searches carry their own searchId, so they must reach the server.
   response.headers.set(
     'Cache-Control',
-    'public, s-maxage=300, stale-while-revalidate=600'
+    searchId ? 'private, no-store' : 'public, s-maxage=300, stale-while-revalidate=600'
   );
 
   return response;
@@ -6,7 +6,7 @@ export async function POST(
   request: Request,
   { params }: { params: { vendorId: string } }
 ) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdmin(request);
   if (error) return error;
 
   try {
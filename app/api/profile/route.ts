@@ -6,7 +6,7 @@ import { withSecurity } from '@/lib/security-middleware';
 async function patchHandler(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
-import { verifyToken } from '@/lib/auth';
+import { getUserFromToken } from '@/lib/auth';
 
 const prisma = new PrismaClient();
 
@@ -64,7 +64,7 @@ export async function GET(request: NextRequest) {
     }
 
     const token = authHeader.substring(7);
-    const payload = await verifyToken(token);
+    const payload = await getUserFromToken(token);
     
     if (!payload || !payload.userId) {
       return NextResponse.json(
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getTokenFromRequest, getUserFromToken, isAdmin } from '@/lib/auth';
+import { getTokenFromRequest, getUserFromToken, hasAdminPermission } from '@/lib/auth';
 import {
   initiateRefund,
   processRefund,
@@ -77,7 +77,7 @@ const refundSchema = z.object({
 async function postHandler(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -105,7 +105,7 @@ async function postHandler(request: Request) {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 });
     }
 
-    const userIsAdmin = isAdmin(payload.role);
+    const userIsAdmin = hasAdminPermission(payload, 'finance');
     if (!userIsAdmin && order.userId !== payload.userId) {
       return NextResponse.json(
         { error: 'Forbidden - You can only refund your own orders' },
@@ -155,7 +155,7 @@ export const POST = withApiLogger(
 async function getHandler(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -181,7 +181,7 @@ async function getHandler(request: Request) {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 });
     }
 
-    const userIsAdmin = isAdmin(payload.role);
+    const userIsAdmin = hasAdminPermission(payload, 'finance');
     if (!userIsAdmin && order.userId !== payload.userId) {
       return NextResponse.json(
         { error: 'Forbidden - You can only view your own order refunds' },
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { cancelReturnRequest } from '@/services/ReturnService';
+
+/**
+ * @swagger
+ * /api/returns/{returnId}/cancel:
+ *   post:
+ *     summary: Cancel a return
+ *     description: Withdraws a return request before the items are sent back
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Return cancelled
+ *       400:
+ *         description: Items already sent back
+ *       404:
+ *         description: Return request not found
+ */
+async function cancelHandler(
+  request: Request,
+  { params }: { params: { returnId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const returnRequest = await cancelReturnRequest(user.userId, params.returnId);
+
+  return NextResponse.json({ message: 'Return cancelled', returnRequest });
+}
+
+export const POST = withApiLogger(cancelHandler);
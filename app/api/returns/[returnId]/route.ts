@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { getCustomerReturn } from '@/services/ReturnService';
+
+/**
+ * @swagger
+ * /api/returns/{returnId}:
+ *   get:
+ *     summary: Get one of my returns
+ *     description: Items, status and return instructions of a return request
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The return request
+ *       404:
+ *         description: Return request not found
+ */
+async function getHandler(
+  request: Request,
+  { params }: { params: { returnId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const returnRequest = await getCustomerReturn(user.userId, params.returnId);
+
+  return NextResponse.json({ returnRequest });
+}
+
+export const GET = withApiLogger(getHandler);
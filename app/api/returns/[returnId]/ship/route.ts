@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { validateRequestBody } from '@/lib/validation';
+import { markReturnShipped } from '@/services/ReturnService';
+
+const shipSchema = z.object({
+  carrier: z.string().trim().max(100).optional(),
+  trackingId: z.string().trim().max(100).optional(),
+});
+
+/**
+ * @swagger
+ * /api/returns/{returnId}/ship:
+ *   post:
+ *     summary: Mark a return as sent back
+ *     description: The buyer has dropped the items off or handed them to a courier, following the approved return instructions
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               carrier:
+ *                 type: string
+ *               trackingId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return marked as sent
+ *       400:
+ *         description: Return not approved
+ *       404:
+ *         description: Return request not found
+ */
+async function shipHandler(
+  request: Request,
+  { params }: { params: { returnId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, shipSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const returnRequest = await markReturnShipped(
+    user.userId,
+    params.returnId,
+    validation.data as z.infer<typeof shipSchema>
+  );
+
+  return NextResponse.json({ message: 'Return marked as sent', returnRequest });
+}
+
+export const POST = withApiLogger(shipHandler);
@@ -0,0 +1,163 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { validateRequestBody } from '@/lib/validation';
+import { createReturnRequest, listCustomerReturns, type CreateReturnInput } from '@/services/ReturnService';
+import type { ReturnStatus } from '@prisma/client';
+
+const RETURN_STATUSES = [
+  'requested',
+  'approved',
+  'rejected',
+  'cancelled',
+  'in_transit',
+  'received',
+  'refunded',
+  'inspection_failed',
+] as const;
+
+const RETURN_REASONS = [
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'size_or_fit',
+  'no_longer_needed',
+  'other',
+] as const;
+
+const createSchema = z.object({
+  orderId: z.string().uuid(),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1, 'Choose at least one item to return')
+    .refine(
+      (items) => new Set(items.map((item) => item.orderItemId)).size === items.length,
+      'Each item can only be listed once'
+    ),
+  reason: z.enum(RETURN_REASONS),
+  comment: z.string().trim().max(1000).optional(),
+  evidenceUrls: z.array(z.string().url()).max(10).optional(),
+});
+
+/**
+ * @swagger
+ * /api/returns:
+ *   get:
+ *     summary: List my returns
+ *     description: The authenticated buyer's return requests, newest first
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [requested, approved, rejected, cancelled, in_transit, received, refunded, inspection_failed]
+ *       - in: query
+ *         name: orderId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: perPage
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Return requests with pagination
+ *       401:
+ *         description: Unauthorized
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+
+  const result = await listCustomerReturns(user.userId, {
+    status: RETURN_STATUSES.includes(status as any) ? (status as ReturnStatus) : undefined,
+    orderId: searchParams.get('orderId') || undefined,
+    page: parseInt(searchParams.get('page') || '1'),
+    perPage: parseInt(searchParams.get('perPage') || '20'),
+  });
+
+  return NextResponse.json(result);
+}
+
+/**
+ * @swagger
+ * /api/returns:
+ *   post:
+ *     summary: Request a return
+ *     description: |
+ *       Asks to send delivered items back for a refund. All items must come from
+ *       the same vendor and the request must fall within that vendor's return
+ *       window, counted from delivery.
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderId
+ *               - items
+ *               - reason
+ *             properties:
+ *               orderId:
+ *                 type: string
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     orderItemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *               reason:
+ *                 type: string
+ *                 enum: [damaged, defective, wrong_item, not_as_described, size_or_fit, no_longer_needed, other]
+ *               comment:
+ *                 type: string
+ *               evidenceUrls:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *     responses:
+ *       201:
+ *         description: Return requested
+ *       400:
+ *         description: Not delivered, outside the return window, returns not accepted or quantity too high
+ *       404:
+ *         description: Order not found
+ */
+async function createHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, createSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const returnRequest = await createReturnRequest(user.userId, validation.data as CreateReturnInput);
+
+  return NextResponse.json({ message: 'Return requested', returnRequest }, { status: 201 });
+}
+
+export const GET = withApiLogger(listHandler);
+export const POST = withApiLogger(createHandler);
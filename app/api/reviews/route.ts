@@ -126,7 +126,7 @@ export const GET = withApiLogger(
 async function postHandler(request: Request) {
   try {
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
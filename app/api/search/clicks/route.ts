@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRateLimit } from '@/lib/rate-limit';
+import { recordSearchClick } from '@/services/SearchAnalyticsService';
+
+const clickSchema = z.object({
+  searchId: z.string().uuid('Invalid search ID'),
+  productId: z.string().uuid('Invalid product ID'),
+  position: z.number().int().min(1),
+});
+
+/**
+ * @swagger
+ * /api/search/clicks:
+ *   post:
+ *     summary: Record a search result click
+ *     description: |
+ *       Sent by the storefront when a shopper opens a product from search
+ *       results, using the searchId returned by /api/products/search.
+ *     tags: [Search]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - searchId
+ *               - productId
+ *               - position
+ *             properties:
+ *               searchId:
+ *                 type: string
+ *               productId:
+ *                 type: string
+ *               position:
+ *                 type: integer
+ *                 description: 1-based place of the product in the results
+ *     responses:
+ *       201:
+ *         description: Click recorded
+ *       404:
+ *         description: Search not found
+ */
+async function handler(request: Request): Promise<NextResponse> {
+  const validation = await validateRequestBody(request, clickSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { searchId, productId, position } = validation.data;
+  await recordSearchClick(searchId, productId, position);
+
+  return NextResponse.json({ success: true }, { status: 201 });
+}
+
+export const POST = withApiLogger(withRateLimit(handler));
@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server';
-import { getSearchFacets, SearchFilters } from '@/lib/search';
+import { getSearchFacets, parseAttributeFilters, SearchFilters } from '@/lib/search';
 
 /**
- * Get search facets (aggregations for filters)
+ * Get search facets (aggregations for filters). With a category, also
+ * returns value counts for the category's filterable attributes; attr.<key>
+ * parameters filter the same way as /api/products/search.
  */
 export async function GET(request: Request) {
   try {
@@ -25,6 +27,7 @@ export async function GET(request: Request) {
       city: searchParams.get('location') || undefined,
       inStock: searchParams.get('in_stock') === 'true',
       verified: searchParams.get('verified') === 'true',
+      attributes: parseAttributeFilters(searchParams),
     };
 
     const facets = await getSearchFacets(filters);
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { checkoutMember } from '@/services/GroupPurchaseService';
+
+/**
+ * @swagger
+ * /api/social/group-purchase/{id}/checkout:
+ *   post:
+ *     summary: Pre-pay for a group purchase
+ *     description: |
+ *       Creates the member's order at the group price and reserves one unit of stock, so the
+ *       member can pay before the group fills. Pay the returned order through the normal payment
+ *       flow. If the group expires short of its target the payment is refunded automatically.
+ *       Calling again returns the member's existing open order.
+ *     tags: [Group Purchases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Order ready for payment
+ *       400:
+ *         description: Not a member, already paid, group no longer active, or out of stock
+ *       404:
+ *         description: Group purchase not found
+ */
+async function checkoutHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const { order, created } = await checkoutMember(params.id, user.userId);
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      order,
+      created,
+    },
+    message: 'Your group purchase order is ready for payment.',
+  });
+}
+
+export const POST = withApiLogger(checkoutHandler);
@@ -1,8 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
-import { verifyToken } from '@/lib/auth';
-
-const prisma = new PrismaClient();
+import prisma from '@/lib/prisma';
+import { getUserFromToken } from '@/lib/auth';
 
 /**
  * POST /api/social/group-purchase/[id]/join
@@ -21,7 +19,7 @@ export async function POST(
     }
 
     const token = authHeader.substring(7);
-    const payload = await verifyToken(token);
+    const payload = await getUserFromToken(token);
     
     if (!payload || !payload.userId) {
       return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
@@ -180,8 +178,8 @@ export async function POST(
         },
       });
 
-      // Note: Order creation and notifications are handled by background workers
-      // See: /app/api/cron/process-group-purchases for automated order processing
+      // Member orders, stock reservations and notifications are created by
+      // /api/cron/process-group-purchases (see GroupPurchaseService.activateGroup)
     }
 
     return NextResponse.json({
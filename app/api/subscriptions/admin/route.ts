@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getTokenFromRequest, getUserFromToken } from '@/lib/auth';
+import { adminScopeAllows } from '@/lib/permissions';
 import {
   getPremiumSubscriptionStats,
   getProductSubscriptionStats,
@@ -32,7 +33,7 @@ export async function GET(req: NextRequest) {
     }
 
     const user = await getUserFromToken(token);
-    if (!user || !isAdmin(user.email)) {
+    if (!user || !isAdmin(user.email) || !adminScopeAllows(user.adminScope, 'finance')) {
       return NextResponse.json(
         { error: 'Admin access required' },
         { status: 403 }
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth } from '@/lib/middleware';
+import { validateRequestBody } from '@/lib/validation';
+import { addAgentReply, addCustomerReply, type AgentReplyInput } from '@/services/SupportTicketService';
+
+const replySchema = z.object({
+  body: z.string().trim().min(1, 'Reply is required').max(10000),
+  attachments: z.array(z.string().url()).max(5).optional(),
+  isInternal: z.boolean().optional(),
+  status: z.enum(['open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed']).optional(),
+});
+
+/**
+ * @swagger
+ * /api/support/tickets/{id}/replies:
+ *   post:
+ *     summary: Reply to a support ticket
+ *     description: |
+ *       Customers reply to their own tickets. Admins reply as agents: public replies are
+ *       emailed to the customer and set the status (default waiting_on_customer);
+ *       `isInternal` posts a note only agents can see. `isInternal` and `status` are
+ *       ignored for customers.
+ *     tags: [Support]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *               attachments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               isInternal:
+ *                 type: boolean
+ *               status:
+ *                 type: string
+ *                 enum: [open, in_progress, waiting_on_customer, resolved, closed]
+ *     responses:
+ *       201:
+ *         description: Reply added
+ *       400:
+ *         description: Ticket is closed
+ *       404:
+ *         description: Ticket not found
+ */
+async function replyHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, replySchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { body, attachments } = validation.data;
+  const message =
+    user.role === 'admin'
+      ? await addAgentReply(params.id, user.userId, validation.data as AgentReplyInput)
+      : await addCustomerReply(params.id, user, body, { attachments });
+
+  return NextResponse.json({ message }, { status: 201 });
+}
+
+export const POST = withApiLogger(replyHandler);
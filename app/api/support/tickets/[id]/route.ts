@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { requireAuth, withRoleCheck } from '@/lib/middleware';
+import { validateRequestBody } from '@/lib/validation';
+import { getTicket, updateTicket, type UpdateTicketInput } from '@/services/SupportTicketService';
+
+const updateTicketSchema = z.object({
+  status: z.enum(['open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed']).optional(),
+  priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
+  assignedToId: z.string().uuid().nullable().optional(),
+});
+
+/**
+ * @swagger
+ * /api/support/tickets/{id}:
+ *   get:
+ *     summary: Get a support ticket
+ *     description: Ticket with its reply thread. Customers see their own tickets without internal notes; admins see everything.
+ *     tags: [Support]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Support ticket
+ *       404:
+ *         description: Ticket not found
+ */
+async function getHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const ticket = await getTicket(params.id, user);
+
+  return NextResponse.json({ ticket });
+}
+
+/**
+ * @swagger
+ * /api/support/tickets/{id}:
+ *   patch:
+ *     summary: Update a support ticket
+ *     description: Change status, priority or assigned agent (admin only). Changes are logged as internal notes.
+ *     tags: [Support, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [open, in_progress, waiting_on_customer, resolved, closed]
+ *               priority:
+ *                 type: string
+ *                 enum: [low, normal, high, urgent]
+ *               assignedToId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Ticket updated
+ *       400:
+ *         description: Assignee is not a support agent
+ *       404:
+ *         description: Ticket not found
+ */
+async function updateHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, updateTicketSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const ticket = await updateTicket(params.id, user.userId, validation.data as UpdateTicketInput);
+
+  return NextResponse.json({ ticket });
+}
+
+export const GET = withApiLogger(getHandler);
+export const PATCH = withApiLogger(withRoleCheck(updateHandler, ['admin'], 'support'));
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { validateRequestBody } from '@/lib/validation';
+import { handleInboundEmail } from '@/services/SupportTicketService';
+
+const inboundEmailSchema = z.object({
+  from: z.string().min(3),
+  subject: z.string(),
+  text: z.string(),
+});
+
+/**
+ * @swagger
+ * /api/support/tickets/inbound-email:
+ *   post:
+ *     summary: Inbound support email webhook
+ *     description: |
+ *       Called by the mail provider's inbound parse webhook for SUPPORT_REPLY_TO_EMAIL.
+ *       Replies whose subject contains a ticket number ([TKT-...]) and that come from the
+ *       ticket's email address are added to the ticket thread. Requires the
+ *       `x-inbound-secret` header to match SUPPORT_INBOUND_EMAIL_SECRET.
+ *     tags: [Support]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               from:
+ *                 type: string
+ *               subject:
+ *                 type: string
+ *               text:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Whether the reply was attached to a ticket
+ *       401:
+ *         description: Invalid secret
+ */
+async function inboundHandler(request: Request): Promise<NextResponse> {
+  const secret = process.env.SUPPORT_INBOUND_EMAIL_SECRET;
+  if (!secret) {
+    console.error('SUPPORT_INBOUND_EMAIL_SECRET not configured');
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+  }
+  if (request.headers.get('x-inbound-secret') !== secret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = await validateRequestBody(request, inboundEmailSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  // Always 200 so the provider does not retry mail we deliberately ignore
+  const result = await handleInboundEmail({
+    from: validation.data.from,
+    subject: validation.data.subject,
+    text: validation.data.text,
+  });
+
+  return NextResponse.json(result);
+}
+
+export const POST = withApiLogger(inboundHandler);
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { logger } from '@/lib/logger'
+import { getTokenFromRequest, getUserFromToken } from '@/lib/auth'
+import { withApiLogger } from '@/lib/api-logger'
+import { requireAuth } from '@/lib/middleware'
+import { createTicket, listMyTickets, type CreateTicketInput } from '@/services/SupportTicketService'
+
+const TICKET_STATUSES = ['open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed'] as const
 
 const supportTicketSchema = z.object({
   name: z.string().min(2),
@@ -26,7 +32,7 @@ const supportTicketSchema = z.object({
  * /api/support/tickets:
  *   post:
  *     summary: Submit a support ticket
- *     description: Create a new support ticket for customer inquiries
+ *     description: Create a new support ticket for customer inquiries. Signed-in users get the ticket linked to their account; the order is linked when orderNumber belongs to the requester. A confirmation email with the ticket number is queued.
  *     tags: [Support]
  *     requestBody:
  *       required: true
@@ -78,31 +84,23 @@ export async function POST(request: NextRequest) {
     // Validate input
     const validatedData = supportTicketSchema.parse(body)
 
-    // Generate ticket ID
-    const ticketId = `TICKET-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`
-
-    // In a real implementation, you would:
-    // 1. Store the ticket in database
-    // 2. Send confirmation email to the user
-    // 3. Notify support team
-    // 4. Create a support ticket in your helpdesk system
+    const user = await getUserFromToken(getTokenFromRequest(request))
+    const ticket = await createTicket(validatedData as CreateTicketInput, user?.userId ?? null)
 
-    // For now, we'll log it and send a success response
     logger.info({
-      ticketId,
+      ticketId: ticket.ticketNumber,
       category: validatedData.category,
       email: validatedData.email,
       subject: validatedData.subject,
     }, 'Support ticket created')
 
-    // TODO: Store in database when support ticket model is added
-    // TODO: Send confirmation email via Resend
-
     return NextResponse.json(
       {
         success: true,
-        ticketId,
-        message: 'Support ticket submitted successfully. We will respond within 24-48 hours.',
+        ticketId: ticket.ticketNumber,
+        id: ticket.id,
+        firstResponseDueAt: ticket.firstResponseDueAt,
+        message: `Support ticket submitted successfully. We will respond by ${ticket.firstResponseDueAt.toUTCString()}.`,
       },
       { status: 201 }
     )
@@ -129,3 +127,46 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+/**
+ * @swagger
+ * /api/support/tickets:
+ *   get:
+ *     summary: List my support tickets
+ *     description: Tickets filed by the signed-in customer, including ones filed as a guest with the same email
+ *     tags: [Support]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, in_progress, waiting_on_customer, resolved, closed]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Tickets with pagination
+ *       401:
+ *         description: Unauthorized
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request)
+  const { searchParams } = new URL(request.url)
+  const status = searchParams.get('status')
+
+  const result = await listMyTickets(user, {
+    status: TICKET_STATUSES.includes(status as any)
+      ? (status as (typeof TICKET_STATUSES)[number])
+      : undefined,
+    page: parseInt(searchParams.get('page') || '1'),
+    perPage: parseInt(searchParams.get('perPage') || '20'),
+  })
+
+  return NextResponse.json(result)
+}
+
+export const GET = withApiLogger(listHandler)
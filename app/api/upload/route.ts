@@ -17,7 +17,7 @@ async function uploadHandler(request: Request) {
   try {
     // Verify authentication
     const token = getTokenFromRequest(request);
-    const payload = getUserFromToken(token);
+    const payload = await getUserFromToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody, commonSchemas } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { linkEmail } from '@/services/PhoneAuthService';
+
+const linkEmailSchema = z.object({
+  email: commonSchemas.email,
+});
+
+/**
+ * @swagger
+ * /api/user/account/email:
+ *   post:
+ *     summary: Add an email address
+ *     description: |
+ *       Adds an email address to an account registered by phone and sends a
+ *       verification link. Accounts that already have an email cannot change it here.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Email added, verification link sent
+ *       400:
+ *         description: Account already has an email
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Email belongs to another account
+ */
+async function linkEmailHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, linkEmailSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { email } = await linkEmail(user.userId, validation.data.email);
+
+  return NextResponse.json({ message: 'Check your inbox to verify your email', email });
+}
+
+export const POST = withApiLogger(withRoleCheck(linkEmailHandler, ['customer', 'vendor', 'admin']));
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody, commonSchemas } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { confirmPhoneLink, requestPhoneLink } from '@/services/PhoneAuthService';
+
+const requestLinkSchema = z.object({
+  phone: commonSchemas.phone,
+});
+
+const confirmLinkSchema = z.object({
+  phone: commonSchemas.phone,
+  code: z.string().trim().length(6, 'Enter the 6-digit code'),
+});
+
+/**
+ * @swagger
+ * /api/user/account/phone:
+ *   post:
+ *     summary: Start adding a phone number
+ *     description: Texts a code to the phone number to link to the current account.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *             properties:
+ *               phone:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Phone number belongs to another account
+ *       429:
+ *         description: Too many codes requested
+ */
+async function requestLinkHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, requestLinkSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { phone, expiresInMinutes } = await requestPhoneLink(user.userId, validation.data.phone);
+
+  return NextResponse.json({ message: 'Verification code sent', phone, expiresInMinutes });
+}
+
+/**
+ * @swagger
+ * /api/user/account/phone:
+ *   put:
+ *     summary: Confirm a phone number
+ *     description: Links the phone number to the current account with the texted code. The number can then be used to sign in.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *               - code
+ *             properties:
+ *               phone:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Phone number linked
+ *       401:
+ *         description: Unauthorized or invalid code
+ *       409:
+ *         description: Phone number belongs to another account
+ */
+async function confirmLinkHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, confirmLinkSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const linked = await confirmPhoneLink(user.userId, validation.data.phone, validation.data.code);
+
+  return NextResponse.json({ message: 'Phone number verified', phone: linked.phone, phoneVerified: linked.phoneVerified });
+}
+
+export const POST = withApiLogger(
+  withRateLimit(withRoleCheck(requestLinkHandler, ['customer', 'vendor', 'admin']), RATE_LIMIT_CONFIGS.otp)
+);
+export const PUT = withApiLogger(withRoleCheck(confirmLinkHandler, ['customer', 'vendor', 'admin']));
@@ -41,7 +41,7 @@ import bcrypt from 'bcryptjs';
 async function deleteAccountHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -112,6 +112,11 @@ async function deleteAccountHandler(request: Request): Promise<NextResponse> {
             displayName: true,
           },
         },
+        preferences: {
+          select: {
+            language: true,
+          },
+        },
       },
     });
 
@@ -205,11 +210,15 @@ async function deleteAccountHandler(request: Request): Promise<NextResponse> {
 
     // Send account deletion confirmation email
     if (userInfo) {
-      const { queueEmail, createAccountDeletionConfirmationEmail } = await import('@/lib/email');
+      const { queueEmail } = await import('@/lib/email');
+      const { renderEmail } = await import('@/services/EmailTemplateService');
       const displayName = userInfo.profile?.displayName || userInfo.email.split('@')[0];
-      const emailTemplate = createAccountDeletionConfirmationEmail(
+      // The preferences row is gone with the account, so pass its language along
+      const emailTemplate = await renderEmail(
+        'account_deletion',
         userInfo.email,
-        displayName
+        { displayName },
+        { language: userInfo.preferences?.language }
       );
       await queueEmail(emailTemplate);
     }
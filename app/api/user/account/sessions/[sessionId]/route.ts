@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { revokeSession } from '@/services/SessionService';
+
+/**
+ * @swagger
+ * /api/user/account/sessions/{sessionId}:
+ *   delete:
+ *     summary: Sign out a device
+ *     description: Revokes one of the current user's sessions so its refresh token stops working.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+async function revokeHandler(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  await revokeSession(user.userId, params.sessionId);
+
+  return NextResponse.json({ message: 'Session revoked' });
+}
+
+export const DELETE = withApiLogger(withRoleCheck(revokeHandler, ['customer', 'vendor', 'admin']));
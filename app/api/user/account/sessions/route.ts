@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { listActiveSessions, revokeAllSessions } from '@/services/SessionService';
+
+/**
+ * @swagger
+ * /api/user/account/sessions:
+ *   get:
+ *     summary: List signed-in devices
+ *     description: Active sessions for the current user, most recently used first. The session making the request is marked as current.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *       401:
+ *         description: Unauthorized
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const sessions = await listActiveSessions(user.userId, user.sessionId);
+
+  return NextResponse.json({ sessions });
+}
+
+/**
+ * @swagger
+ * /api/user/account/sessions:
+ *   delete:
+ *     summary: Sign out all other devices
+ *     description: Revokes every session except the one making the request.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked
+ *       401:
+ *         description: Unauthorized
+ */
+async function revokeOthersHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const revoked = await revokeAllSessions(user.userId, 'user_revoked', user.sessionId);
+
+  return NextResponse.json({ message: 'Signed out of other devices', revoked });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['customer', 'vendor', 'admin']));
+export const DELETE = withApiLogger(withRoleCheck(revokeOthersHandler, ['customer', 'vendor', 'admin']));
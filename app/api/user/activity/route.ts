@@ -37,7 +37,7 @@ import { withApiLogger } from '@/lib/api-logger';
  */
 async function handler(request: Request) {
   const token = getTokenFromRequest(request);
-  const payload = token ? getUserFromToken(token) : null;
+  const payload = token ? await getUserFromToken(token) : null;
   const userId = payload?.userId;
 
   const body = await request.json();
@@ -116,7 +116,7 @@ async function getHandler(request: Request) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const payload = getUserFromToken(token);
+  const payload = await getUserFromToken(token);
   const userId = payload?.userId;
 
   if (!userId) {
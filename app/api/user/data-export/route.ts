@@ -2,13 +2,14 @@ import { NextResponse } from 'next/server';
 import { getTokenFromRequest, getUserFromToken } from '@/lib/auth';
 import prisma from '@/lib/prisma';
 import { withApiLogger } from '@/lib/api-logger';
+import { requireStepUp } from '@/services/TwoFactorService';
 
 /**
  * @swagger
  * /api/user/data-export:
  *   post:
  *     summary: Request user data export
- *     description: Create a request to export all user data (GDPR compliance)
+ *     description: Create a request to export all user data (GDPR compliance). Needs a step-up token in the X-Step-Up-Token header.
  *     tags: [User, Privacy]
  *     security:
  *       - bearerAuth: []
@@ -52,6 +53,8 @@ import { withApiLogger } from '@/lib/api-logger';
  *                   type: string
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Step-up required; confirm identity via /api/auth/2fa/step-up and send X-Step-Up-Token
  *       429:
  *         description: Too many requests
  *   get:
@@ -79,11 +82,14 @@ import { withApiLogger } from '@/lib/api-logger';
 async function createDataExportHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // Exports contain all of the user's personal data
+    requireStepUp(request, user);
+
     const body = await request.json();
     const format = body.format || 'json';
     const categories = body.categories || []; // Specific categories to export
@@ -189,7 +195,7 @@ async function createDataExportHandler(request: Request): Promise<NextResponse>
 async function getDataExportRequestsHandler(request: Request): Promise<NextResponse> {
   try {
     const token = getTokenFromRequest(request);
-    const user = getUserFromToken(token);
+    const user = await getUserFromToken(token);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -4,7 +4,7 @@ import { withAuth } from '@/lib/middleware';
 
 // GET notification preferences
 export async function GET(request: Request) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -33,7 +33,7 @@ export async function GET(request: Request) {
 
 // PUT/PATCH update notification preferences
 export async function PUT(request: Request) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -13,7 +13,7 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { ForbiddenError } from '@/lib/errors';
+import { listAuditLogs } from '@/services/AuditLogService';
+import { requireVendorContext } from '@/services/VendorOrganizationService';
+
+/**
+ * @swagger
+ * /api/vendors/audit-log:
+ *   get:
+ *     summary: Shop audit log
+ *     description: Who changed what in the shop, newest first. Shop owner only.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Audit entries with pagination
+ *       403:
+ *         description: Not the shop owner
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user);
+  if (!context.isOwner) {
+    throw new ForbiddenError('Only the shop owner can view the audit log', 'SHOP_OWNER_ONLY');
+  }
+
+  const { searchParams } = new URL(request.url);
+  const result = await listAuditLogs({
+    scope: 'vendor',
+    vendorId: context.vendor.id,
+    actorId: searchParams.get('actorId') || undefined,
+    entityType: searchParams.get('entityType') || undefined,
+    page: parseInt(searchParams.get('page') || '1'),
+    limit: parseInt(searchParams.get('limit') || '50'),
+  });
+
+  return NextResponse.json(result);
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['vendor']));
@@ -15,7 +15,7 @@ import { z } from 'zod';
  * - month: number (required, 1-12)
  */
 export async function GET(request: NextRequest) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdmin(request);
   if (error) return error;
 
   try {
@@ -82,7 +82,7 @@ const updateRateSchema = z.object({
  * - commissionRate: number (required, 0-1)
  */
 export async function PATCH(request: NextRequest) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdmin(request);
   if (error) return error;
 
   try {
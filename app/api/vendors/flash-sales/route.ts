@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth } from '@/lib/middleware';
 import prisma from '@/lib/prisma';
+import { getVendorContext } from '@/services/VendorOrganizationService';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -16,17 +17,14 @@ export const dynamic = 'force-dynamic';
  * Get all flash sales for the authenticated vendor's products
  */
 export async function GET(request: NextRequest) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
-    // Check if user is a vendor
-    const profile = await prisma.profile.findUnique({
-      where: { userId: payload!.userId },
-      select: { id: true, isVendor: true }
-    });
+    // Owner or staff with catalog access
+    const shop = await getVendorContext(payload!.userId, 'catalog');
 
-    if (!profile?.isVendor) {
+    if (!shop) {
       return NextResponse.json(
         { error: 'Only vendors can access this endpoint' },
         { status: 403 }
@@ -41,7 +39,7 @@ export async function GET(request: NextRequest) {
     // Build where clause - only show flash sales for vendor's products
     const whereClause: any = {
       product: {
-        vendorId: profile.id
+        vendorId: shop.vendor.id
       }
     };
     
@@ -97,24 +95,21 @@ export async function GET(request: NextRequest) {
  * Create a new flash sale for vendor's product
  */
 export async function POST(request: NextRequest) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
-    // Check if user is a vendor
-    const profile = await prisma.profile.findUnique({
-      where: { userId: payload!.userId },
-      select: { id: true, isVendor: true, vendorStatus: true }
-    });
+    // Owner or staff with catalog access
+    const shop = await getVendorContext(payload!.userId, 'catalog');
 
-    if (!profile?.isVendor) {
+    if (!shop) {
       return NextResponse.json(
         { error: 'Only vendors can create flash sales' },
         { status: 403 }
       );
     }
 
-    if (profile.vendorStatus !== 'approved') {
+    if (shop.vendor.vendorStatus !== 'approved') {
       return NextResponse.json(
         { error: 'Your vendor account must be approved before creating flash sales' },
         { status: 403 }
@@ -183,7 +178,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify vendor owns the product
-    if (product.vendorId !== profile.id) {
+    if (product.vendorId !== shop.vendor.id) {
       return NextResponse.json(
         { error: 'You can only create flash sales for your own products' },
         { status: 403 }
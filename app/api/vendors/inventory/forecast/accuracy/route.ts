@@ -0,0 +1,51 @@
+/**
+ * Inventory Forecast Accuracy API
+ *
+ * Reports back-tested forecast error (MAPE) per model version so vendors can
+ * judge whether stored forecasts are trustworthy before acting on them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { getVendorContext } from '@/services/VendorOrganizationService';
+import { getForecastAccuracyReport } from '@/services/ForecastService';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const { error, payload } = await withAuth(request);
+  if (error) return error;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(365, Math.max(1, parseInt(searchParams.get('days') || '30')));
+
+    // Admins see accuracy across all products, vendors only their own
+    let vendorProfileId: string | undefined;
+    if (payload!.role !== 'admin') {
+      const shop = await getVendorContext(payload!.userId, 'catalog');
+
+      if (!shop) {
+        return NextResponse.json(
+          { error: 'Only vendors can access inventory forecast' },
+          { status: 403 }
+        );
+      }
+      vendorProfileId = shop.vendor.id;
+    }
+
+    const models = await getForecastAccuracyReport(vendorProfileId, days);
+
+    return NextResponse.json({
+      models,
+      periodDays: days,
+    });
+  } catch (error) {
+    console.error('Forecast accuracy error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,31 +2,35 @@
  * Inventory Forecast API
  * 
  * Provides inventory forecasting based on sales trends
- * Calculates days until stockout and recommended reorder quantities
+ * Calculates days until stockout and recommended reorder quantities,
+ * alongside the stored nightly model forecast and its back-tested error
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth } from '@/lib/middleware';
 import prisma from '@/lib/prisma';
+import { getVendorContext } from '@/services/VendorOrganizationService';
+import { addDays, calculateMape, startOfUtcDay } from '@/lib/demand-forecast';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 // Magic constant for "infinite" forecast when there are no sales
 const MAX_FORECAST_DAYS = 999;
+// Days of stored model forecast summed into predictedDemand7d
+const MODEL_FORECAST_DAYS = 7;
+// Days of evaluated forecasts used for the per-product error
+const MODEL_ACCURACY_DAYS = 30;
 
 export async function GET(request: NextRequest) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
-    // Check if user is a vendor
-    const profile = await prisma.profile.findUnique({
-      where: { userId: payload!.userId },
-      select: { isVendor: true }
-    });
+    // Owner or staff with catalog access
+    const shop = await getVendorContext(payload!.userId, 'catalog');
 
-    if (!profile?.isVendor) {
+    if (!shop) {
       return NextResponse.json(
         { error: 'Only vendors can access inventory forecast' },
         { status: 403 }
@@ -44,7 +48,7 @@ export async function GET(request: NextRequest) {
     // Fetch vendor's products with recent orders
     const products = await prisma.product.findMany({
       where: { 
-        vendorId: payload!.userId,
+        vendorId: shop.vendor.id,
         stockQuantity: { gt: 0 }
       },
       include: {
@@ -63,6 +67,26 @@ export async function GET(request: NextRequest) {
       }
     });
 
+    // Stored model forecasts: upcoming predictions and recently evaluated ones
+    const today = startOfUtcDay(new Date());
+    const storedForecasts = await prisma.inventoryForecast.findMany({
+      where: {
+        productId: { in: products.map(p => p.id) },
+        forecastDate: {
+          gte: addDays(today, -MODEL_ACCURACY_DAYS),
+          lt: addDays(today, MODEL_FORECAST_DAYS)
+        }
+      },
+      select: {
+        productId: true,
+        forecastDate: true,
+        predictedDemand: true,
+        confidence: true,
+        actualDemand: true,
+        modelVersion: true
+      }
+    });
+
     // Calculate forecasts
     const forecasts = products.map(product => {
       // Calculate total sales in the period
@@ -96,6 +120,20 @@ export async function GET(request: NextRequest) {
       // Base it on 30 days of supply with 20% buffer
       const recommendedReorder = Math.ceil(dailyAverage * 30 * 1.2);
 
+      // Model forecast for the coming week and how well it has tracked reality
+      const productForecasts = storedForecasts.filter(f => f.productId === product.id);
+      const upcoming = productForecasts.filter(f => f.forecastDate >= today);
+      const evaluated = productForecasts.filter(f => f.forecastDate < today && f.actualDemand !== null);
+      const modelForecast = upcoming.length > 0
+        ? {
+            predictedDemand7d: parseFloat(upcoming.reduce((sum, f) => sum + f.predictedDemand, 0).toFixed(2)),
+            confidence: parseFloat((upcoming.reduce((sum, f) => sum + f.confidence, 0) / upcoming.length).toFixed(3)),
+            modelVersion: upcoming[0].modelVersion,
+            mape: calculateMape(evaluated.map(f => ({ predicted: f.predictedDemand, actual: f.actualDemand as number }))),
+            evaluatedDays: evaluated.length
+          }
+        : null;
+
       return {
         productId: product.id,
         productName: product.name,
@@ -105,7 +143,8 @@ export async function GET(request: NextRequest) {
         recommendedReorder: Math.max(recommendedReorder, 10), // Minimum 10 units
         trend,
         totalSold,
-        lowStockAlert: daysUntilStockout < 7
+        lowStockAlert: daysUntilStockout < 7,
+        modelForecast
       };
     });
 
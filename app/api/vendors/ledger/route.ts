@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, withAdmin } from '@/lib/middleware';
 import { isAdmin } from '@/lib/auth';
 import { getVendorLedger } from '@/lib/vendor-payout';
-import prisma from '@/lib/prisma';
+import { getVendorContext } from '@/services/VendorOrganizationService';
 
 /**
  * GET /api/vendors/ledger
@@ -18,7 +18,7 @@ import prisma from '@/lib/prisma';
  * - offset: number (default: 0)
  */
 export async function GET(request: NextRequest) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -34,19 +34,16 @@ export async function GET(request: NextRequest) {
 
     // If not admin, ensure user can only view their own ledger
     if (!userIsAdmin) {
-      const profile = await prisma.profile.findUnique({
-        where: { userId: payload!.userId },
-        select: { id: true, isVendor: true },
-      });
+      const vendor = await getVendorContext(payload!.userId, 'finance');
 
-      if (!profile?.isVendor) {
+      if (!vendor) {
         return NextResponse.json(
           { error: 'Not a vendor' },
           { status: 403 }
         );
       }
 
-      vendorId = profile.id;
+      vendorId = vendor.vendor.id;
     }
 
     if (!vendorId) {
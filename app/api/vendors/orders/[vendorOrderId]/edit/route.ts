@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { editVendorOrder, type EditOrderInput } from '@/services/OrderEditService';
+import { recordVendorAudit, requireVendorContext } from '@/services/VendorOrganizationService';
+
+const editSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().min(0),
+      })
+    )
+    .min(1, 'Choose at least one item to change')
+    .refine(
+      (items) => new Set(items.map((item) => item.orderItemId)).size === items.length,
+      'Each item can only be listed once'
+    ),
+  reason: z.string().trim().min(1).max(500),
+});
+
+/**
+ * @swagger
+ * /api/vendors/orders/{vendorOrderId}/edit:
+ *   post:
+ *     summary: Cancel items of a vendor order
+ *     description: |
+ *       Cancels lines (quantity 0) or lowers quantities of the shop's part of
+ *       an order before it is processed, e.g. when an item is out of stock.
+ *       The order is re-priced and the buyer refunded the difference if paid.
+ *       A vendor order with no items left is cancelled.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendorOrderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - items
+ *               - reason
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     orderItemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 0
+ *               reason:
+ *                 type: string
+ *                 description: Shown to the buyer on the order timeline
+ *     responses:
+ *       200:
+ *         description: Vendor order changed
+ *       400:
+ *         description: Already being processed, or a quantity was raised
+ *       404:
+ *         description: Not one of the shop's vendor orders or items
+ */
+async function editHandler(
+  request: Request,
+  { params }: { params: { vendorOrderId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const validation = await validateRequestBody(request, editSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+  const input = validation.data as EditOrderInput;
+
+  const { order, edit } = await editVendorOrder(context.vendor.id, params.vendorOrderId, context.actorId, input);
+  await recordVendorAudit(
+    context,
+    'vendor_order.edit',
+    'vendor_order',
+    params.vendorOrderId,
+    { ...input, refundAmount: Number(edit.refundAmount) },
+    getClientIp(request)
+  );
+
+  return NextResponse.json({
+    message: 'Order updated',
+    vendorOrder: order.vendorOrders.find((vendorOrder) => vendorOrder.id === params.vendorOrderId),
+    orderStatus: order.status,
+    edit,
+  });
+}
+
+export const POST = withApiLogger(withRoleCheck(editHandler, ['vendor']));
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getVendorOrder } from '@/services/VendorOrderService';
+import { requireVendorContext } from '@/services/VendorOrganizationService';
+
+/**
+ * @swagger
+ * /api/vendors/orders/{vendorOrderId}:
+ *   get:
+ *     summary: One of the shop's vendor orders
+ *     description: Items, buyer shipping address, tracking and timeline of the shop's part of an order
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendorOrderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The vendor order
+ *       404:
+ *         description: Not one of the shop's vendor orders
+ */
+async function getHandler(
+  request: Request,
+  { params }: { params: { vendorOrderId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const vendorOrder = await getVendorOrder(context.vendor.id, params.vendorOrderId);
+
+  return NextResponse.json({ vendorOrder });
+}
+
+export const GET = withApiLogger(withRoleCheck(getHandler, ['vendor']));
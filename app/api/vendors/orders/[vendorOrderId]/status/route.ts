@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { VENDOR_ORDER_STATUSES } from '@/lib/order-status';
+import { updateVendorOrderStatus } from '@/services/VendorOrderService';
+import { recordVendorAudit, requireVendorContext } from '@/services/VendorOrganizationService';
+
+const updateSchema = z.object({
+  status: z.enum(VENDOR_ORDER_STATUSES),
+  notes: z.string().trim().max(500).optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/orders/{vendorOrderId}/status:
+ *   patch:
+ *     summary: Move a vendor order along
+ *     description: |
+ *       Changes the status of the shop's part of an order, following the order
+ *       status rules; a vendor order still pending on a paid order counts as paid.
+ *       The order's own status is then derived from all its vendor orders.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendorOrderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [confirmed, processing, packed, picked_up, in_transit, out_for_delivery, fulfilled, shipped, delivered, cancelled]
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Vendor order updated, with the order's derived status
+ *       400:
+ *         description: Invalid status transition
+ *       404:
+ *         description: Not one of the shop's vendor orders
+ */
+async function updateHandler(
+  request: Request,
+  { params }: { params: { vendorOrderId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const validation = await validateRequestBody(request, updateSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+  const { status, notes } = validation.data as z.infer<typeof updateSchema>;
+
+  const result = await updateVendorOrderStatus(context.vendor.id, params.vendorOrderId, status, context.actorId, notes);
+  await recordVendorAudit(
+    context,
+    'vendor_order.status',
+    'vendor_order',
+    params.vendorOrderId,
+    { status },
+    getClientIp(request)
+  );
+
+  return NextResponse.json({
+    message: `Order marked ${status.replace(/_/g, ' ')}`,
+    vendorOrder: result.vendorOrder,
+    orderStatus: result.orderStatus,
+  });
+}
+
+export const PATCH = withApiLogger(withRoleCheck(updateHandler, ['vendor']));
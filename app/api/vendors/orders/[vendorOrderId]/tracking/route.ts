@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { updateVendorOrderTracking, type VendorOrderTrackingInput } from '@/services/VendorOrderService';
+import { recordVendorAudit, requireVendorContext } from '@/services/VendorOrganizationService';
+
+const trackingSchema = z.object({
+  logisticsProvider: z.string().trim().max(50).nullable().optional(),
+  providerTrackingId: z.string().trim().max(100).nullable().optional(),
+  courierName: z.string().trim().max(100).nullable().optional(),
+  courierPhone: z.string().trim().max(20).nullable().optional(),
+  estimatedDeliveryStart: z.coerce.date().nullable().optional(),
+  estimatedDeliveryEnd: z.coerce.date().nullable().optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/orders/{vendorOrderId}/tracking:
+ *   put:
+ *     summary: Set the shipment tracking of a vendor order
+ *     description: Carrier, tracking number, courier and delivery window of the shop's shipment
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendorOrderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               logisticsProvider:
+ *                 type: string
+ *                 example: minalesh
+ *               providerTrackingId:
+ *                 type: string
+ *               courierName:
+ *                 type: string
+ *               courierPhone:
+ *                 type: string
+ *               estimatedDeliveryStart:
+ *                 type: string
+ *                 format: date-time
+ *               estimatedDeliveryEnd:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Tracking saved
+ *       400:
+ *         description: Unknown logistics provider or invalid delivery window
+ *       404:
+ *         description: Not one of the shop's vendor orders
+ */
+async function updateHandler(
+  request: Request,
+  { params }: { params: { vendorOrderId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const validation = await validateRequestBody(request, trackingSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+  const input = validation.data as VendorOrderTrackingInput;
+
+  const tracking = await updateVendorOrderTracking(context.vendor.id, params.vendorOrderId, input, context.actorId);
+  await recordVendorAudit(
+    context,
+    'vendor_order.tracking',
+    'vendor_order',
+    params.vendorOrderId,
+    { logisticsProvider: tracking.logisticsProvider, providerTrackingId: tracking.providerTrackingId },
+    getClientIp(request)
+  );
+
+  return NextResponse.json({ message: 'Tracking saved', tracking });
+}
+
+export const PUT = withApiLogger(withRoleCheck(updateHandler, ['vendor']));
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { BadRequestError } from '@/lib/errors';
+import { TRACKING_ORDER_PROGRESSION } from '@/lib/order-status';
+import { listVendorOrders } from '@/services/VendorOrderService';
+import { requireVendorContext } from '@/services/VendorOrganizationService';
+import type { OrderStatus } from '@prisma/client';
+
+const FILTER_STATUSES: string[] = [...TRACKING_ORDER_PROGRESSION, 'fulfilled', 'shipped', 'cancelled', 'refunded'];
+
+/**
+ * @swagger
+ * /api/vendors/orders:
+ *   get:
+ *     summary: The shop's vendor orders
+ *     description: |
+ *       The shop's part of each order it sold in, newest first. An order with
+ *       items from several vendors has one vendor order per vendor, each with
+ *       its own status, shipping charge and tracking.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Vendor orders with pagination
+ *       403:
+ *         description: Not a vendor, or no orders permission
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+  if (status && !FILTER_STATUSES.includes(status)) {
+    throw new BadRequestError('Invalid order status', 'INVALID_STATUS');
+  }
+
+  const result = await listVendorOrders(context.vendor.id, {
+    status: (status as OrderStatus) || undefined,
+    page: parseInt(searchParams.get('page') || '1'),
+    limit: parseInt(searchParams.get('limit') || '20'),
+  });
+
+  return NextResponse.json(result);
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['vendor']));
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
-import { withAuth, withAdmin } from '@/lib/middleware';
-import { isAdmin } from '@/lib/auth';
+import { withAuth, withAdminPermission } from '@/lib/middleware';
+import { hasAdminPermission } from '@/lib/auth';
 import {
   calculateVendorPayout,
   createVendorPayout,
@@ -9,7 +9,7 @@ import {
   getVendorPayoutSummary,
 } from '@/lib/vendor-payout';
 import { z } from 'zod';
-import prisma from '@/lib/prisma';
+import { getVendorContext } from '@/services/VendorOrganizationService';
 
 const calculateSchema = z.object({
   vendorId: z.string().uuid(),
@@ -24,7 +24,7 @@ const markPaidSchema = z.object({
 
 // POST /api/vendors/payouts/calculate - Calculate payout (admin only)
 export async function POST(request: Request) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdminPermission(request, 'finance');
   if (error) return error;
 
   try {
@@ -81,7 +81,7 @@ export async function POST(request: Request) {
 
 // GET /api/vendors/payouts - Get payouts
 export async function GET(request: Request) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -90,7 +90,7 @@ export async function GET(request: Request) {
     const pending = searchParams.get('pending') === 'true';
 
     // Admin can view all, vendors can only view their own
-    const userIsAdmin = isAdmin(payload!.role);
+    const userIsAdmin = hasAdminPermission(payload!, 'finance');
 
     if (pending && !userIsAdmin) {
       return NextResponse.json({ error: 'Forbidden - Admin only' }, { status: 403 });
@@ -104,12 +104,9 @@ export async function GET(request: Request) {
     if (vendorId) {
       // Check authorization
       if (!userIsAdmin) {
-        const profile = await prisma.profile.findUnique({
-          where: { userId: payload!.userId },
-          select: { id: true },
-        });
+        const vendor = await getVendorContext(payload!.userId, 'finance');
 
-        if (profile?.id !== vendorId) {
+        if (vendor?.vendor.id !== vendorId) {
           return NextResponse.json(
             { error: 'Forbidden - You can only view your own payouts' },
             { status: 403 }
@@ -121,20 +118,17 @@ export async function GET(request: Request) {
       return NextResponse.json(summary);
     }
 
-    // Get current vendor's payouts
-    const profile = await prisma.profile.findUnique({
-      where: { userId: payload!.userId },
-      select: { id: true, isVendor: true },
-    });
+    // Get current vendor's payouts (owner or finance staff)
+    const vendor = await getVendorContext(payload!.userId, 'finance');
 
-    if (!profile?.isVendor) {
+    if (!vendor) {
       return NextResponse.json(
         { error: 'Not a vendor' },
         { status: 403 }
       );
     }
 
-    const summary = await getVendorPayoutSummary(profile.id);
+    const summary = await getVendorPayoutSummary(vendor.vendor.id);
     return NextResponse.json(summary);
   } catch (error) {
     console.error('Error fetching payouts:', error);
@@ -147,7 +141,7 @@ export async function GET(request: Request) {
 
 // PATCH /api/vendors/payouts - Mark payout as paid (admin only)
 export async function PATCH(request: Request) {
-  const { error, payload } = withAdmin(request);
+  const { error, payload } = await withAdminPermission(request, 'finance');
   if (error) return error;
 
   try {
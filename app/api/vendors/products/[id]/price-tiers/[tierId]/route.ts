@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { validateRequestBody } from '@/lib/validation';
+import { deletePriceTier, updatePriceTier, type PriceTierInput } from '@/services/TieredPricingService';
+import { requireVendorContext } from '@/services/VendorOrganizationService';
+
+const updatePriceTierSchema = z.object({
+  minQuantity: z.number().int().min(2).optional(),
+  maxQuantity: z.number().int().positive().nullable().optional(),
+  discountType: z.enum(['percentage', 'fixed_amount']).optional(),
+  discountValue: z.number().positive().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/products/{id}/price-tiers/{tierId}:
+ *   patch:
+ *     summary: Update a quantity price break
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: tierId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Price tier updated
+ *       400:
+ *         description: Invalid or overlapping tier
+ *       404:
+ *         description: Product or tier not found
+ */
+async function updateHandler(
+  request: Request,
+  { params }: { params: { id: string; tierId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = await requireVendorContext(user, 'catalog');
+
+  const validation = await validateRequestBody(request, updatePriceTierSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const tier = await updatePriceTier(
+    shop.vendor.userId,
+    params.id,
+    params.tierId,
+    validation.data as Partial<PriceTierInput>
+  );
+
+  return NextResponse.json({ tier });
+}
+
+/**
+ * @swagger
+ * /api/vendors/products/{id}/price-tiers/{tierId}:
+ *   delete:
+ *     summary: Delete a quantity price break
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: tierId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Price tier deleted
+ *       404:
+ *         description: Product or tier not found
+ */
+async function deleteHandler(
+  request: Request,
+  { params }: { params: { id: string; tierId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = await requireVendorContext(user, 'catalog');
+  await deletePriceTier(shop.vendor.userId, params.id, params.tierId);
+
+  return NextResponse.json({ message: 'Price tier deleted' });
+}
+
+export const PATCH = withApiLogger(withRoleCheck(updateHandler, ['vendor']));
+export const DELETE = withApiLogger(withRoleCheck(deleteHandler, ['vendor']));
@@ -0,0 +1,174 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { validateRequestBody } from '@/lib/validation';
+import {
+  createPriceTier,
+  listPriceTiers,
+  replacePriceTiers,
+  type PriceTierInput,
+} from '@/services/TieredPricingService';
+import { requireVendorContext } from '@/services/VendorOrganizationService';
+
+const priceTierSchema = z.object({
+  minQuantity: z.number().int().min(2),
+  maxQuantity: z.number().int().positive().nullable().optional(),
+  discountType: z.enum(['percentage', 'fixed_amount']),
+  discountValue: z.number().positive(),
+  isActive: z.boolean().optional(),
+});
+
+const replacePriceTiersSchema = z.object({
+  tiers: z.array(priceTierSchema).max(20),
+});
+
+/**
+ * @swagger
+ * /api/vendors/products/{id}/price-tiers:
+ *   get:
+ *     summary: List quantity price breaks for a product
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Price tiers, including inactive ones
+ *       404:
+ *         description: Product not found
+ */
+async function listHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = await requireVendorContext(user, 'catalog');
+  const tiers = await listPriceTiers(shop.vendor.userId, params.id);
+
+  return NextResponse.json({ tiers });
+}
+
+/**
+ * @swagger
+ * /api/vendors/products/{id}/price-tiers:
+ *   post:
+ *     summary: Add a quantity price break
+ *     description: Active breaks for a product may not overlap; an open-ended break (no maxQuantity) must be the last one.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - minQuantity
+ *               - discountType
+ *               - discountValue
+ *             properties:
+ *               minQuantity:
+ *                 type: integer
+ *               maxQuantity:
+ *                 type: integer
+ *                 nullable: true
+ *               discountType:
+ *                 type: string
+ *                 enum: [percentage, fixed_amount]
+ *               discountValue:
+ *                 type: number
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Price tier created
+ *       400:
+ *         description: Invalid or overlapping tier
+ *       404:
+ *         description: Product not found
+ */
+async function createHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = await requireVendorContext(user, 'catalog');
+
+  const validation = await validateRequestBody(request, priceTierSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const tier = await createPriceTier(shop.vendor.userId, params.id, validation.data as PriceTierInput);
+
+  return NextResponse.json({ tier }, { status: 201 });
+}
+
+/**
+ * @swagger
+ * /api/vendors/products/{id}/price-tiers:
+ *   put:
+ *     summary: Replace all quantity price breaks for a product
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tiers
+ *             properties:
+ *               tiers:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: Price tiers saved
+ *       400:
+ *         description: Invalid or overlapping tiers
+ *       404:
+ *         description: Product not found
+ */
+async function replaceHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = await requireVendorContext(user, 'catalog');
+
+  const validation = await validateRequestBody(request, replacePriceTiersSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const tiers = await replacePriceTiers(shop.vendor.userId, params.id, validation.data.tiers as PriceTierInput[]);
+
+  return NextResponse.json({ tiers });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['vendor']));
+export const POST = withApiLogger(withRoleCheck(createHandler, ['vendor']));
+export const PUT = withApiLogger(withRoleCheck(replaceHandler, ['vendor']));
@@ -30,7 +30,7 @@ interface ProductRow {
 }
 
 export async function POST(request: NextRequest) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -7,22 +7,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth } from '@/lib/middleware';
 import prisma from '@/lib/prisma';
+import { getVendorContext } from '@/services/VendorOrganizationService';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
-    // Check if user is a vendor
-    const profile = await prisma.profile.findUnique({
-      where: { userId: payload!.userId },
-      select: { isVendor: true }
-    });
+    // Check if user runs the shop or works on its catalog
+    const vendor = await getVendorContext(payload!.userId, 'catalog');
 
-    if (!profile?.isVendor) {
+    if (!vendor) {
       return NextResponse.json(
         { error: 'Only vendors can export products' },
         { status: 403 }
@@ -31,7 +29,7 @@ export async function GET(request: NextRequest) {
 
     // Fetch all vendor's products
     const products = await prisma.product.findMany({
-      where: { vendorId: payload!.userId },
+      where: { vendorId: vendor.vendor.id },
       include: {
         category: {
           select: { name: true }
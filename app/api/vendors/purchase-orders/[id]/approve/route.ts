@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getClientIp } from '@/lib/rate-limit';
+import { approvePurchaseOrder } from '@/services/PurchaseOrderService';
+import { requireVendorContext, recordVendorAudit } from '@/services/VendorOrganizationService';
+
+/**
+ * @swagger
+ * /api/vendors/purchase-orders/{id}/approve:
+ *   post:
+ *     summary: Approve a purchase order
+ *     description: Approves a draft or pending purchase order
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order approved
+ *       400:
+ *         description: Invalid status transition
+ *       404:
+ *         description: Purchase order not found
+ */
+async function approveHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = user.role === 'admin' ? null : await requireVendorContext(user, 'catalog');
+  const purchaseOrder = await approvePurchaseOrder(
+    shop?.vendor.userId ?? null,
+    params.id,
+    user.userId
+  );
+
+  if (shop) {
+    await recordVendorAudit(shop, 'purchase_order.approve', 'purchase_order', params.id, null, getClientIp(request));
+  }
+
+  return NextResponse.json({
+    message: 'Purchase order approved',
+    purchaseOrder,
+  });
+}
+
+export const POST = withApiLogger(withRoleCheck(approveHandler, ['vendor', 'admin']));
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getClientIp } from '@/lib/rate-limit';
+import { validateRequestBody } from '@/lib/validation';
+import { cancelPurchaseOrder } from '@/services/PurchaseOrderService';
+import { requireVendorContext, recordVendorAudit } from '@/services/VendorOrganizationService';
+
+const cancelSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/purchase-orders/{id}/cancel:
+ *   post:
+ *     summary: Cancel a purchase order
+ *     description: Cancels a purchase order that has not been fully received. Stock already received stays on hand.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order cancelled
+ *       400:
+ *         description: Purchase order already received or cancelled
+ *       404:
+ *         description: Purchase order not found
+ */
+async function cancelHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = user.role === 'admin' ? null : await requireVendorContext(user, 'catalog');
+
+  const validation = await validateRequestBody(request, cancelSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const purchaseOrder = await cancelPurchaseOrder(
+    shop?.vendor.userId ?? null,
+    params.id,
+    validation.data.reason
+  );
+
+  if (shop) {
+    await recordVendorAudit(
+      shop,
+      'purchase_order.cancel',
+      'purchase_order',
+      params.id,
+      { reason: validation.data.reason },
+      getClientIp(request)
+    );
+  }
+
+  return NextResponse.json({
+    message: 'Purchase order cancelled',
+    purchaseOrder,
+  });
+}
+
+export const POST = withApiLogger(withRoleCheck(cancelHandler, ['vendor', 'admin']));
@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getClientIp } from '@/lib/rate-limit';
+import { validateRequestBody } from '@/lib/validation';
+import { receivePurchaseOrder, type ReceiptLine } from '@/services/PurchaseOrderService';
+import { requireVendorContext, recordVendorAudit } from '@/services/VendorOrganizationService';
+
+const receiveSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        productId: z.string().uuid(),
+        variantId: z.string().uuid().optional(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1, 'At least one received line is required'),
+  note: z.string().max(500).optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/purchase-orders/{id}/receive:
+ *   post:
+ *     summary: Receive goods against a purchase order
+ *     description: |
+ *       Records a full or partial goods receipt. Each received line raises the
+ *       product (or variant) stock quantity and is logged as an inventory movement.
+ *       The PO moves to partially_received or received accordingly.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lines
+ *             properties:
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     productId:
+ *                       type: string
+ *                     variantId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Goods received and stock updated
+ *       400:
+ *         description: PO not sent to supplier, unknown line, or over-receipt
+ *       404:
+ *         description: Purchase order not found
+ *       409:
+ *         description: Concurrent receipt on the same purchase order
+ */
+async function receiveHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = user.role === 'admin' ? null : await requireVendorContext(user, 'catalog');
+
+  const validation = await validateRequestBody(request, receiveSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const purchaseOrder = await receivePurchaseOrder(
+    shop?.vendor.userId ?? null,
+    params.id,
+    validation.data.lines as ReceiptLine[],
+    user.userId,
+    validation.data.note
+  );
+
+  if (shop) {
+    await recordVendorAudit(
+      shop,
+      'purchase_order.receive',
+      'purchase_order',
+      params.id,
+      { lines: validation.data.lines },
+      getClientIp(request)
+    );
+  }
+
+  return NextResponse.json({
+    message:
+      purchaseOrder?.status === 'received'
+        ? 'Purchase order fully received'
+        : 'Partial receipt recorded',
+    purchaseOrder,
+  });
+}
+
+export const POST = withApiLogger(withRoleCheck(receiveHandler, ['vendor', 'admin']));
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getPurchaseOrder } from '@/services/PurchaseOrderService';
+import { requireVendorContext } from '@/services/VendorOrganizationService';
+
+/**
+ * @swagger
+ * /api/vendors/purchase-orders/{id}:
+ *   get:
+ *     summary: Get a purchase order
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order details including per-line received quantities
+ *       404:
+ *         description: Purchase order not found
+ */
+async function getHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = user.role === 'admin' ? null : await requireVendorContext(user, 'catalog');
+  const purchaseOrder = await getPurchaseOrder(
+    shop?.vendor.userId ?? null,
+    params.id
+  );
+
+  return NextResponse.json({ purchaseOrder });
+}
+
+export const GET = withApiLogger(withRoleCheck(getHandler, ['vendor', 'admin']));
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getClientIp } from '@/lib/rate-limit';
+import { sendPurchaseOrder } from '@/services/PurchaseOrderService';
+import { requireVendorContext, recordVendorAudit } from '@/services/VendorOrganizationService';
+
+/**
+ * @swagger
+ * /api/vendors/purchase-orders/{id}/send:
+ *   post:
+ *     summary: Send a purchase order to the supplier
+ *     description: Marks an approved purchase order as sent_to_supplier
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order marked as sent to supplier
+ *       400:
+ *         description: Invalid status transition
+ *       404:
+ *         description: Purchase order not found
+ */
+async function sendHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = user.role === 'admin' ? null : await requireVendorContext(user, 'catalog');
+  const purchaseOrder = await sendPurchaseOrder(shop?.vendor.userId ?? null, params.id);
+
+  if (shop) {
+    await recordVendorAudit(shop, 'purchase_order.send', 'purchase_order', params.id, null, getClientIp(request));
+  }
+
+  return NextResponse.json({
+    message: 'Purchase order marked as sent to supplier',
+    purchaseOrder,
+  });
+}
+
+export const POST = withApiLogger(withRoleCheck(sendHandler, ['vendor', 'admin']));
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getClientIp } from '@/lib/rate-limit';
+import { submitPurchaseOrder } from '@/services/PurchaseOrderService';
+import { requireVendorContext, recordVendorAudit } from '@/services/VendorOrganizationService';
+
+/**
+ * @swagger
+ * /api/vendors/purchase-orders/{id}/submit:
+ *   post:
+ *     summary: Submit a draft purchase order for approval
+ *     description: Moves a draft purchase order to pending_approval
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order submitted for approval
+ *       400:
+ *         description: Invalid status transition
+ *       404:
+ *         description: Purchase order not found
+ */
+async function submitHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = user.role === 'admin' ? null : await requireVendorContext(user, 'catalog');
+  const purchaseOrder = await submitPurchaseOrder(shop?.vendor.userId ?? null, params.id);
+
+  if (shop) {
+    await recordVendorAudit(shop, 'purchase_order.submit', 'purchase_order', params.id, null, getClientIp(request));
+  }
+
+  return NextResponse.json({
+    message: 'Purchase order submitted for approval',
+    purchaseOrder,
+  });
+}
+
+export const POST = withApiLogger(withRoleCheck(submitHandler, ['vendor', 'admin']));
@@ -0,0 +1,169 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getClientIp } from '@/lib/rate-limit';
+import { validateRequestBody } from '@/lib/validation';
+import {
+  createPurchaseOrder,
+  listPurchaseOrders,
+  type CreatePurchaseOrderInput,
+} from '@/services/PurchaseOrderService';
+import { requireVendorContext, recordVendorAudit } from '@/services/VendorOrganizationService';
+
+const PO_STATUSES = [
+  'draft',
+  'pending_approval',
+  'approved',
+  'sent_to_supplier',
+  'partially_received',
+  'received',
+  'cancelled',
+] as const;
+
+const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().uuid().optional(),
+  supplierName: z.string().min(1, 'Supplier name is required'),
+  warehouseId: z.string().uuid().optional(),
+  expectedDelivery: z.coerce.date(),
+  items: z
+    .array(
+      z.object({
+        productId: z.string().uuid(),
+        variantId: z.string().uuid().optional(),
+        quantity: z.number().int().positive(),
+        unitPrice: z.number().nonnegative(),
+      })
+    )
+    .min(1, 'At least one item is required'),
+  taxAmount: z.number().nonnegative().optional(),
+  notes: z.string().max(2000).optional(),
+  submitForApproval: z.boolean().optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/purchase-orders:
+ *   get:
+ *     summary: List purchase orders
+ *     description: List the authenticated vendor's purchase orders (admins see all)
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, pending_approval, approved, sent_to_supplier, partially_received, received, cancelled]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: perPage
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Purchase orders with pagination
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Vendor or admin role required
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = user.role === 'admin' ? null : await requireVendorContext(user, 'catalog');
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+
+  const result = await listPurchaseOrders(shop?.vendor.userId ?? null, {
+    status: PO_STATUSES.includes(status as any) ? (status as (typeof PO_STATUSES)[number]) : undefined,
+    page: parseInt(searchParams.get('page') || '1'),
+    perPage: parseInt(searchParams.get('perPage') || '20'),
+  });
+
+  return NextResponse.json(result);
+}
+
+/**
+ * @swagger
+ * /api/vendors/purchase-orders:
+ *   post:
+ *     summary: Create a purchase order
+ *     description: Create a draft purchase order to restock the vendor's own products
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - supplierName
+ *               - expectedDelivery
+ *               - items
+ *             properties:
+ *               supplierId:
+ *                 type: string
+ *                 format: uuid
+ *               supplierName:
+ *                 type: string
+ *               warehouseId:
+ *                 type: string
+ *                 format: uuid
+ *               expectedDelivery:
+ *                 type: string
+ *                 format: date-time
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     productId:
+ *                       type: string
+ *                     variantId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                     unitPrice:
+ *                       type: number
+ *               taxAmount:
+ *                 type: number
+ *               notes:
+ *                 type: string
+ *               submitForApproval:
+ *                 type: boolean
+ *                 description: Create directly in pending_approval instead of draft
+ *     responses:
+ *       201:
+ *         description: Purchase order created
+ *       400:
+ *         description: Products not found or not owned by the vendor
+ *       422:
+ *         description: Validation failed
+ */
+async function createHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = await requireVendorContext(user, 'catalog');
+
+  const validation = await validateRequestBody(request, createPurchaseOrderSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const purchaseOrder = await createPurchaseOrder(
+    shop.vendor.userId,
+    validation.data as CreatePurchaseOrderInput
+  );
+
+  await recordVendorAudit(shop, 'purchase_order.create', 'purchase_order', purchaseOrder.id, null, getClientIp(request));
+
+  return NextResponse.json({ purchaseOrder }, { status: 201 });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['vendor', 'admin']));
+export const POST = withApiLogger(withRoleCheck(createHandler, ['vendor']));
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { validateRequestBody } from '@/lib/validation';
+import { deleteReorderRule, updateReorderRule } from '@/services/AutoReorderService';
+import { requireVendorContext } from '@/services/VendorOrganizationService';
+
+const updateReorderRuleSchema = z.object({
+  warehouseId: z.string().uuid().nullable().optional(),
+  reorderPoint: z.number().int().nonnegative().optional(),
+  reorderQuantity: z.number().int().positive().optional(),
+  leadTimeDays: z.number().int().nonnegative().optional(),
+  safetyStock: z.number().int().nonnegative().optional(),
+  minOrderQty: z.number().int().positive().nullable().optional(),
+  maxOrderQty: z.number().int().positive().nullable().optional(),
+  supplierId: z.string().uuid().nullable().optional(),
+  supplierName: z.string().min(1).nullable().optional(),
+  unitCost: z.number().nonnegative().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/reorder-rules/{id}:
+ *   patch:
+ *     summary: Update an auto reorder rule
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule updated
+ *       404:
+ *         description: Rule not found
+ */
+async function updateHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = await requireVendorContext(user, 'catalog');
+
+  const validation = await validateRequestBody(request, updateReorderRuleSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const rule = await updateReorderRule(shop.vendor.userId, params.id, validation.data);
+
+  return NextResponse.json({ rule });
+}
+
+/**
+ * @swagger
+ * /api/vendors/reorder-rules/{id}:
+ *   delete:
+ *     summary: Delete an auto reorder rule
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule deleted
+ *       404:
+ *         description: Rule not found
+ */
+async function deleteHandler(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = await requireVendorContext(user, 'catalog');
+  await deleteReorderRule(shop.vendor.userId, params.id);
+
+  return NextResponse.json({ message: 'Reorder rule deleted' });
+}
+
+export const PATCH = withApiLogger(withRoleCheck(updateHandler, ['vendor']));
+export const DELETE = withApiLogger(withRoleCheck(deleteHandler, ['vendor']));
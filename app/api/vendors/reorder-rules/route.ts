@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { validateRequestBody } from '@/lib/validation';
+import {
+  createReorderRule,
+  listReorderRules,
+  type ReorderRuleInput,
+} from '@/services/AutoReorderService';
+import { requireVendorContext } from '@/services/VendorOrganizationService';
+
+const createReorderRuleSchema = z.object({
+  productId: z.string().uuid(),
+  warehouseId: z.string().uuid().nullable().optional(),
+  reorderPoint: z.number().int().nonnegative(),
+  reorderQuantity: z.number().int().positive(),
+  leadTimeDays: z.number().int().nonnegative(),
+  safetyStock: z.number().int().nonnegative(),
+  minOrderQty: z.number().int().positive().nullable().optional(),
+  maxOrderQty: z.number().int().positive().nullable().optional(),
+  supplierId: z.string().uuid().nullable().optional(),
+  supplierName: z.string().min(1).nullable().optional(),
+  unitCost: z.number().nonnegative().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/reorder-rules:
+ *   get:
+ *     summary: List auto reorder rules
+ *     description: List the vendor's reorder rules with current available stock
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reorder rules
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = await requireVendorContext(user, 'catalog');
+  const rules = await listReorderRules(shop.vendor.userId);
+
+  return NextResponse.json({ rules });
+}
+
+/**
+ * @swagger
+ * /api/vendors/reorder-rules:
+ *   post:
+ *     summary: Create an auto reorder rule
+ *     description: |
+ *       When available stock plus quantity already on order falls below reorderPoint,
+ *       the auto-reorder job drafts a purchase order for at least reorderQuantity units.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - productId
+ *               - reorderPoint
+ *               - reorderQuantity
+ *               - leadTimeDays
+ *               - safetyStock
+ *             properties:
+ *               productId:
+ *                 type: string
+ *               warehouseId:
+ *                 type: string
+ *               reorderPoint:
+ *                 type: integer
+ *               reorderQuantity:
+ *                 type: integer
+ *               leadTimeDays:
+ *                 type: integer
+ *               safetyStock:
+ *                 type: integer
+ *               minOrderQty:
+ *                 type: integer
+ *               maxOrderQty:
+ *                 type: integer
+ *               supplierId:
+ *                 type: string
+ *               supplierName:
+ *                 type: string
+ *               unitCost:
+ *                 type: number
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: Rule already exists for this product and warehouse
+ */
+async function createHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const shop = await requireVendorContext(user, 'catalog');
+
+  const validation = await validateRequestBody(request, createReorderRuleSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const rule = await createReorderRule(shop.vendor.userId, validation.data as ReorderRuleInput);
+
+  return NextResponse.json({ rule }, { status: 201 });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['vendor']));
+export const POST = withApiLogger(withRoleCheck(createHandler, ['vendor']));
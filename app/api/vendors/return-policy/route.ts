@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getReturnPolicy, updateReturnPolicy, type ReturnPolicyInput } from '@/services/ReturnService';
+import { recordVendorAudit, requireVendorContext } from '@/services/VendorOrganizationService';
+
+const policySchema = z.object({
+  returnsAccepted: z.boolean().optional(),
+  returnWindowDays: z.number().int().min(1).max(90).optional(),
+  returnInstructions: z.string().trim().max(2000).nullable().optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/return-policy:
+ *   get:
+ *     summary: The shop's return policy
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether returns are accepted, the window in days after delivery and drop-off instructions
+ */
+async function getHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const policy = await getReturnPolicy(context.vendor.id);
+
+  return NextResponse.json({ policy });
+}
+
+/**
+ * @swagger
+ * /api/vendors/return-policy:
+ *   put:
+ *     summary: Update the shop's return policy
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               returnsAccepted:
+ *                 type: boolean
+ *               returnWindowDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 90
+ *               returnInstructions:
+ *                 type: string
+ *                 description: Where and how buyers drop returned items off
+ *     responses:
+ *       200:
+ *         description: Return policy saved
+ */
+async function updateHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const validation = await validateRequestBody(request, policySchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+  const input = validation.data as ReturnPolicyInput;
+
+  const policy = await updateReturnPolicy(context.vendor.id, input);
+  await recordVendorAudit(context, 'return_policy.update', 'profile', context.vendor.id, { ...input }, getClientIp(request));
+
+  return NextResponse.json({ message: 'Return policy saved', policy });
+}
+
+export const GET = withApiLogger(withRoleCheck(getHandler, ['vendor']));
+export const PUT = withApiLogger(withRoleCheck(updateHandler, ['vendor']));
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { approveReturnRequest, type ApproveReturnInput } from '@/services/ReturnService';
+import { recordVendorAudit, requireVendorContext } from '@/services/VendorOrganizationService';
+
+const approveSchema = z.object({
+  returnMethod: z.enum(['drop_off', 'courier_pickup']),
+  returnInstructions: z.string().trim().max(2000).optional(),
+  returnLabelUrl: z.string().url().optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/returns/{returnId}/approve:
+ *   post:
+ *     summary: Approve a return
+ *     description: |
+ *       Accepts a return request and tells the buyer how to send the items back.
+ *       Without instructions the shop's return policy instructions are used.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - returnMethod
+ *             properties:
+ *               returnMethod:
+ *                 type: string
+ *                 enum: [drop_off, courier_pickup]
+ *               returnInstructions:
+ *                 type: string
+ *               returnLabelUrl:
+ *                 type: string
+ *                 format: uri
+ *     responses:
+ *       200:
+ *         description: Return approved
+ *       400:
+ *         description: Return no longer awaiting a decision
+ *       404:
+ *         description: Not one of the shop's return requests
+ */
+async function approveHandler(
+  request: Request,
+  { params }: { params: { returnId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const validation = await validateRequestBody(request, approveSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+  const input = validation.data as ApproveReturnInput;
+
+  const returnRequest = await approveReturnRequest(context.vendor.id, params.returnId, context.actorId, input);
+  await recordVendorAudit(
+    context,
+    'return.approve',
+    'return_request',
+    params.returnId,
+    { returnMethod: input.returnMethod },
+    getClientIp(request)
+  );
+
+  return NextResponse.json({ message: 'Return approved', returnRequest });
+}
+
+export const POST = withApiLogger(withRoleCheck(approveHandler, ['vendor']));
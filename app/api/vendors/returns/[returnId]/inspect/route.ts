@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { inspectReturn, type InspectReturnInput } from '@/services/ReturnService';
+import { recordVendorAudit, requireVendorContext } from '@/services/VendorOrganizationService';
+
+const inspectSchema = z.object({
+  items: z.array(
+    z.object({
+      returnItemId: z.string().uuid(),
+      restockQuantity: z.number().int().min(0),
+      condition: z.string().trim().max(100).optional(),
+    })
+  ),
+  refundAmount: z.number().min(0).optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+/**
+ * @swagger
+ * /api/vendors/returns/{returnId}/inspect:
+ *   post:
+ *     summary: Inspect returned items and refund
+ *     description: |
+ *       Records the inspection of received items. Units fit to sell again are
+ *       restocked, the refund (by default what was paid for the returned items) is
+ *       issued to the buyer and the shop's commission on it is reversed.
+ *       A refundAmount of 0 fails the inspection without restock or refund.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - items
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     returnItemId:
+ *                       type: string
+ *                     restockQuantity:
+ *                       type: integer
+ *                     condition:
+ *                       type: string
+ *               refundAmount:
+ *                 type: number
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return inspected and refunded, or failed inspection
+ *       400:
+ *         description: Return not received, restock or refund too high, or refund failed
+ *       404:
+ *         description: Not one of the shop's return requests
+ */
+async function inspectHandler(
+  request: Request,
+  { params }: { params: { returnId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const validation = await validateRequestBody(request, inspectSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+  const input = validation.data as InspectReturnInput;
+
+  const returnRequest = await inspectReturn(context.vendor.id, params.returnId, context.actorId, input);
+  await recordVendorAudit(
+    context,
+    'return.inspect',
+    'return_request',
+    params.returnId,
+    { items: input.items, refundAmount: returnRequest.refundAmount },
+    getClientIp(request)
+  );
+
+  return NextResponse.json({
+    message: returnRequest.status === 'refunded' ? 'Return refunded' : 'Return failed inspection',
+    returnRequest,
+  });
+}
+
+export const POST = withApiLogger(withRoleCheck(inspectHandler, ['vendor']));
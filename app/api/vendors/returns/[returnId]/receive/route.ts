@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { receiveReturn } from '@/services/ReturnService';
+import { recordVendorAudit, requireVendorContext } from '@/services/VendorOrganizationService';
+
+/**
+ * @swagger
+ * /api/vendors/returns/{returnId}/receive:
+ *   post:
+ *     summary: Receive returned items
+ *     description: The returned items have reached the shop and await inspection
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Return received
+ *       400:
+ *         description: Return not approved
+ *       404:
+ *         description: Not one of the shop's return requests
+ */
+async function receiveHandler(
+  request: Request,
+  { params }: { params: { returnId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const returnRequest = await receiveReturn(context.vendor.id, params.returnId, context.actorId);
+  await recordVendorAudit(context, 'return.receive', 'return_request', params.returnId, null, getClientIp(request));
+
+  return NextResponse.json({ message: 'Return received', returnRequest });
+}
+
+export const POST = withApiLogger(withRoleCheck(receiveHandler, ['vendor']));
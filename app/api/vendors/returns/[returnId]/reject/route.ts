@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { rejectReturnRequest } from '@/services/ReturnService';
+import { recordVendorAudit, requireVendorContext } from '@/services/VendorOrganizationService';
+
+const rejectSchema = z.object({
+  reason: z.string().trim().min(1, 'Tell the buyer why').max(500),
+});
+
+/**
+ * @swagger
+ * /api/vendors/returns/{returnId}/reject:
+ *   post:
+ *     summary: Reject a return
+ *     description: Declines a return request; the buyer can still open a dispute
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return rejected
+ *       400:
+ *         description: Return no longer awaiting a decision
+ *       404:
+ *         description: Not one of the shop's return requests
+ */
+async function rejectHandler(
+  request: Request,
+  { params }: { params: { returnId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const validation = await validateRequestBody(request, rejectSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+  const { reason } = validation.data as z.infer<typeof rejectSchema>;
+
+  const returnRequest = await rejectReturnRequest(context.vendor.id, params.returnId, context.actorId, reason);
+  await recordVendorAudit(context, 'return.reject', 'return_request', params.returnId, { reason }, getClientIp(request));
+
+  return NextResponse.json({ message: 'Return rejected', returnRequest });
+}
+
+export const POST = withApiLogger(withRoleCheck(rejectHandler, ['vendor']));
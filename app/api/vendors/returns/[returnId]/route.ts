@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { getVendorReturn } from '@/services/ReturnService';
+import { requireVendorContext } from '@/services/VendorOrganizationService';
+
+/**
+ * @swagger
+ * /api/vendors/returns/{returnId}:
+ *   get:
+ *     summary: One of the shop's return requests
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: returnId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The return request
+ *       404:
+ *         description: Not one of the shop's return requests
+ */
+async function getHandler(
+  request: Request,
+  { params }: { params: { returnId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const returnRequest = await getVendorReturn(context.vendor.id, params.returnId);
+
+  return NextResponse.json({ returnRequest });
+}
+
+export const GET = withApiLogger(withRoleCheck(getHandler, ['vendor']));
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { BadRequestError } from '@/lib/errors';
+import { listVendorReturns } from '@/services/ReturnService';
+import { requireVendorContext } from '@/services/VendorOrganizationService';
+import type { ReturnStatus } from '@prisma/client';
+
+const RETURN_STATUSES: string[] = [
+  'requested',
+  'approved',
+  'rejected',
+  'cancelled',
+  'in_transit',
+  'received',
+  'refunded',
+  'inspection_failed',
+];
+
+/**
+ * @swagger
+ * /api/vendors/returns:
+ *   get:
+ *     summary: The shop's return requests
+ *     description: Return requests for the shop's items, newest first
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [requested, approved, rejected, cancelled, in_transit, received, refunded, inspection_failed]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: perPage
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Return requests with pagination
+ *       403:
+ *         description: Not a vendor, or no orders permission
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user, 'orders');
+
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+  if (status && !RETURN_STATUSES.includes(status)) {
+    throw new BadRequestError('Invalid return status', 'INVALID_STATUS');
+  }
+
+  const result = await listVendorReturns(context.vendor.id, {
+    status: (status as ReturnStatus) || undefined,
+    page: parseInt(searchParams.get('page') || '1'),
+    perPage: parseInt(searchParams.get('perPage') || '20'),
+  });
+
+  return NextResponse.json(result);
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['vendor']));
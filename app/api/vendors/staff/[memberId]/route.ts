@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { VENDOR_PERMISSIONS } from '@/lib/permissions';
+import {
+  removeStaff,
+  requireVendorContext,
+  updateStaffPermissions,
+} from '@/services/VendorOrganizationService';
+
+const updateSchema = z.object({
+  permissions: z.array(z.enum(VENDOR_PERMISSIONS)).min(1, 'Choose at least one permission'),
+});
+
+/**
+ * @swagger
+ * /api/vendors/staff/{memberId}:
+ *   patch:
+ *     summary: Change a staff member's permissions
+ *     description: Replaces what the staff member may do for the shop. Shop owner only.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - permissions
+ *             properties:
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [catalog, orders, finance, messaging]
+ *     responses:
+ *       200:
+ *         description: Permissions updated
+ *       403:
+ *         description: Not the shop owner
+ *       404:
+ *         description: Staff member not found
+ */
+async function updateHandler(
+  request: Request,
+  { params }: { params: { memberId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user);
+
+  const validation = await validateRequestBody(request, updateSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const member = await updateStaffPermissions(
+    context,
+    params.memberId,
+    validation.data.permissions,
+    getClientIp(request)
+  );
+
+  return NextResponse.json({ message: 'Permissions updated', member });
+}
+
+/**
+ * @swagger
+ * /api/vendors/staff/{memberId}:
+ *   delete:
+ *     summary: Remove a staff member
+ *     description: Removes the staff member from the shop and signs them out. Their account stays as a customer account. Shop owner only.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Staff member removed
+ *       403:
+ *         description: Not the shop owner
+ *       404:
+ *         description: Staff member not found
+ */
+async function removeHandler(
+  request: Request,
+  { params }: { params: { memberId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user);
+
+  await removeStaff(context, params.memberId, getClientIp(request));
+
+  return NextResponse.json({ message: 'Staff member removed' });
+}
+
+export const PATCH = withApiLogger(withRoleCheck(updateHandler, ['vendor']));
+export const DELETE = withApiLogger(withRoleCheck(removeHandler, ['vendor']));
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { setAuthCookie } from '@/lib/login-response';
+import { acceptInvite } from '@/services/VendorOrganizationService';
+
+const acceptSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+});
+
+/**
+ * @swagger
+ * /api/vendors/staff/accept:
+ *   post:
+ *     summary: Accept a staff invitation
+ *     description: Joins the shop with the token from the invitation email. The signed-in account's email must match the invitation. Returns a new access token that carries the vendor role.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Joined the shop
+ *       400:
+ *         description: Invitation expired, withdrawn or already used
+ *       403:
+ *         description: Invitation was sent to a different email address
+ *       409:
+ *         description: Account already runs or works for a shop
+ */
+async function acceptHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+
+  const validation = await validateRequestBody(request, acceptSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { member, storeName, token } = await acceptInvite(user, validation.data.token, getClientIp(request));
+
+  const response = NextResponse.json({
+    message: `You joined ${storeName || 'the shop'}`,
+    member,
+    storeName,
+    token,
+  });
+
+  return setAuthCookie(response, token);
+}
+
+export const POST = withApiLogger(withRoleCheck(acceptHandler, ['customer', 'vendor', 'admin']));
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { requireVendorContext, revokeInvite } from '@/services/VendorOrganizationService';
+
+/**
+ * @swagger
+ * /api/vendors/staff/invites/{inviteId}:
+ *   delete:
+ *     summary: Withdraw a staff invitation
+ *     description: The invitation link stops working. Shop owner only.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: inviteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation withdrawn
+ *       403:
+ *         description: Not the shop owner
+ *       404:
+ *         description: Invitation not found or already accepted
+ */
+async function revokeHandler(
+  request: Request,
+  { params }: { params: { inviteId: string } }
+): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user);
+
+  await revokeInvite(context, params.inviteId, getClientIp(request));
+
+  return NextResponse.json({ message: 'Invitation withdrawn' });
+}
+
+export const DELETE = withApiLogger(withRoleCheck(revokeHandler, ['vendor']));
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequestBody } from '@/lib/validation';
+import { withApiLogger } from '@/lib/api-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { withRoleCheck, requireAuth } from '@/lib/middleware';
+import { VENDOR_PERMISSIONS } from '@/lib/permissions';
+import { inviteStaff, listStaff, requireVendorContext } from '@/services/VendorOrganizationService';
+
+const inviteSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  permissions: z.array(z.enum(VENDOR_PERMISSIONS)).min(1, 'Choose at least one permission'),
+});
+
+/**
+ * @swagger
+ * /api/vendors/staff:
+ *   get:
+ *     summary: List shop staff
+ *     description: Staff members of the owner's shop and invitations that have not been accepted yet. Shop owner only.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Staff members and open invitations
+ *       403:
+ *         description: Not the shop owner
+ */
+async function listHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user);
+
+  const staff = await listStaff(context);
+
+  return NextResponse.json(staff);
+}
+
+/**
+ * @swagger
+ * /api/vendors/staff:
+ *   post:
+ *     summary: Invite a staff member
+ *     description: Emails an invitation to join the shop with the given permissions. Inviting the same address again replaces the earlier invitation. Shop owner only.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - permissions
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [catalog, orders, finance, messaging]
+ *     responses:
+ *       201:
+ *         description: Invitation sent
+ *       403:
+ *         description: Not the shop owner
+ *       409:
+ *         description: The person already runs or works for a shop
+ */
+async function inviteHandler(request: Request): Promise<NextResponse> {
+  const user = await requireAuth(request);
+  const context = await requireVendorContext(user);
+
+  const validation = await validateRequestBody(request, inviteSchema);
+  if (validation.success === false) {
+    return validation.response;
+  }
+
+  const { email, permissions } = validation.data;
+  const invite = await inviteStaff(context, { email, permissions }, getClientIp(request));
+
+  return NextResponse.json({ message: 'Invitation sent', invite }, { status: 201 });
+}
+
+export const GET = withApiLogger(withRoleCheck(listHandler, ['vendor']));
+export const POST = withApiLogger(withRoleCheck(inviteHandler, ['vendor']));
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withAuth } from '@/lib/middleware';
 import { isAdmin } from '@/lib/auth';
 import { getVendorStatements } from '@/lib/vendor-payout';
-import prisma from '@/lib/prisma';
+import { getVendorContext } from '@/services/VendorOrganizationService';
 
 /**
  * GET /api/vendors/statements
@@ -14,7 +14,7 @@ import prisma from '@/lib/prisma';
  * - limit: number (default: 10)
  */
 export async function GET(request: NextRequest) {
-  const { error, payload } = withAuth(request);
+  const { error, payload } = await withAuth(request);
   if (error) return error;
 
   try {
@@ -26,19 +26,16 @@ export async function GET(request: NextRequest) {
 
     // If not admin, ensure user can only view their own statements
     if (!userIsAdmin) {
-      const profile = await prisma.profile.findUnique({
-        where: { userId: payload!.userId },
-        select: { id: true, isVendor: true },
-      });
+      const vendor = await getVendorContext(payload!.userId, 'finance');
 
-      if (!profile?.isVendor) {
+      if (!vendor) {
         return NextResponse.json(
           { error: 'Not a vendor' },
           { status: 403 }
         );
       }
 
-      vendorId = profile.id;
+      vendorId = vendor.vendor.id;
     }
 
     if (!vendorId) {
@@ -10,12 +10,16 @@ import { Navbar } from "@/components/navbar"
 import { Footer } from "@/components/footer"
 import { Eye, EyeOff, Loader2, User } from "lucide-react"
 import { toast } from "sonner"
+import { TwoFactorChallenge, type TwoFactorMethod } from "@/components/security/TwoFactorChallenge"
+import { PhoneOtpLogin } from "@/components/security/PhoneOtpLogin"
 
 export default function CustomerLogin() {
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [challenge, setChallenge] = useState<{ challengeId: string; methods: TwoFactorMethod[] } | null>(null)
+  const [usePhone, setUsePhone] = useState(false)
   const router = useRouter()
   const searchParams = useSearchParams()
 
@@ -26,6 +30,61 @@ export default function CustomerLogin() {
     return url.startsWith('/') && !url.startsWith('//') && !url.includes('://')
   }
 
+  const finishLogin = (data: any) => {
+    // Block admin accounts from using customer login
+    if (data.user.role === 'admin') {
+      toast.error("Admin accounts must use the Admin Login page")
+      router.push('/admin/login')
+      setIsLoading(false)
+      return
+    }
+
+    // Redirect vendors to vendor dashboard
+    if (data.user.role === 'vendor') {
+      // Store token since login was successful
+      localStorage.setItem('auth_token', data.token)
+      toast.success("Login successful! Redirecting to vendor dashboard...")
+      // Use window.location.href for immediate redirect after cookie is set
+      window.location.href = '/vendor/dashboard'
+      return
+    }
+
+    // Store token in localStorage (matches existing auth pattern)
+    localStorage.setItem('auth_token', data.token)
+    
+    toast.success("Login successful!")
+    
+    // Redirect to the originally requested page or default to home
+    const next = searchParams.get('next')
+    const redirectUrl = 
+      isValidRedirectUrl(next) && !next.startsWith('/admin') && (!next.startsWith('/vendor') || next.startsWith('/vendor/staff/accept'))
+        ? next
+        : '/'
+    
+    // Use window.location.href for immediate redirect after cookie is set
+    window.location.href = redirectUrl
+  }
+
+  // Shared by password and phone-code logins, which answer the same way
+  const handleLoginResponse = (data: any) => {
+    // Accounts with 2FA answer a challenge before receiving tokens
+    if (data.twoFactorRequired) {
+      setChallenge({ challengeId: data.challengeId, methods: data.methods })
+      setIsLoading(false)
+      return
+    }
+
+    // 2FA is required for this account but not set up yet
+    if (data.twoFactorSetupRequired) {
+      sessionStorage.setItem('two_factor_setup_token', data.setupToken)
+      toast.info("Set up two-step verification to finish signing in")
+      router.push('/auth/two-factor-setup')
+      return
+    }
+
+    finishLogin(data)
+  }
+
   const onSubmit = async (e: FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
@@ -47,38 +106,7 @@ export default function CustomerLogin() {
         return
       }
 
-      // Block admin accounts from using customer login
-      if (data.user.role === 'admin') {
-        toast.error("Admin accounts must use the Admin Login page")
-        router.push('/admin/login')
-        setIsLoading(false)
-        return
-      }
-
-      // Redirect vendors to vendor dashboard
-      if (data.user.role === 'vendor') {
-        // Store token since login was successful
-        localStorage.setItem('auth_token', data.token)
-        toast.success("Login successful! Redirecting to vendor dashboard...")
-        // Use window.location.href for immediate redirect after cookie is set
-        window.location.href = '/vendor/dashboard'
-        return
-      }
-
-      // Store token in localStorage (matches existing auth pattern)
-      localStorage.setItem('auth_token', data.token)
-      
-      toast.success("Login successful!")
-      
-      // Redirect to the originally requested page or default to home
-      const next = searchParams.get('next')
-      const redirectUrl = 
-        isValidRedirectUrl(next) && !next.startsWith('/admin') && !next.startsWith('/vendor')
-          ? next
-          : '/'
-      
-      // Use window.location.href for immediate redirect after cookie is set
-      window.location.href = redirectUrl
+      handleLoginResponse(data)
     } catch (error) {
       console.error('Login error:', error)
       toast.error("An error occurred during login")
@@ -101,86 +129,107 @@ export default function CustomerLogin() {
             <p className="text-muted-foreground">Sign in to your account</p>
           </div>
           
-          <form onSubmit={onSubmit} className="space-y-6" aria-label="Customer login form">
-            <div className="space-y-2">
-              <label className="text-sm font-medium" htmlFor="email">
-                Email Address
-              </label>
-              <Input 
-                id="email" 
-                type="email" 
-                value={email} 
-                onChange={(e) => setEmail(e.target.value)} 
-                required 
-                placeholder="Enter your email"
-                className="w-full"
-                disabled={isLoading}
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <label className="text-sm font-medium" htmlFor="password">
-                Password
-              </label>
-              <div className="relative">
+          {challenge ? (
+            <TwoFactorChallenge
+              challengeId={challenge.challengeId}
+              methods={challenge.methods}
+              onVerified={finishLogin}
+              onCancel={() => setChallenge(null)}
+            />
+          ) : usePhone ? (
+            <PhoneOtpLogin onLoggedIn={handleLoginResponse} onCancel={() => setUsePhone(false)} />
+          ) : (
+            <form onSubmit={onSubmit} className="space-y-6" aria-label="Customer login form">
+              <div className="space-y-2">
+                <label className="text-sm font-medium" htmlFor="email">
+                  Email Address
+                </label>
                 <Input 
-                  id="password" 
-                  type={showPassword ? "text" : "password"}
-                  value={password} 
-                  onChange={(e) => setPassword(e.target.value)} 
+                  id="email" 
+                  type="email" 
+                  value={email} 
+                  onChange={(e) => setEmail(e.target.value)} 
                   required 
-                  placeholder="Enter your password"
-                  className="w-full pr-10"
+                  placeholder="Enter your email"
+                  className="w-full"
                   disabled={isLoading}
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                  disabled={isLoading}
-                  aria-label={showPassword ? "Hide password" : "Show password"}
-                >
-                  {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
-                </button>
               </div>
-            </div>
+            
+              <div className="space-y-2">
+                <label className="text-sm font-medium" htmlFor="password">
+                  Password
+                </label>
+                <div className="relative">
+                  <Input 
+                    id="password" 
+                    type={showPassword ? "text" : "password"}
+                    value={password} 
+                    onChange={(e) => setPassword(e.target.value)} 
+                    required 
+                    placeholder="Enter your password"
+                    className="w-full pr-10"
+                    disabled={isLoading}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    disabled={isLoading}
+                    aria-label={showPassword ? "Hide password" : "Show password"}
+                  >
+                    {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
+                  </button>
+                </div>
+              </div>
 
-            <Button 
-              type="submit" 
-              className="w-full" 
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing In...
-                </>
-              ) : (
-                "Sign In"
-              )}
-            </Button>
-
-            <div className="text-center space-y-4 pt-4 border-t">
-              <p className="text-sm text-muted-foreground">
-                Don&apos;t have an account?{" "}
-                <Link 
-                  href="/auth/register" 
-                  className="text-primary hover:text-primary/80 font-medium underline"
-                >
-                  Sign up
-                </Link>
-              </p>
-              <p className="text-sm text-muted-foreground">
-                Are you a vendor?{" "}
-                <Link 
-                  href="/vendor/login" 
-                  className="text-primary hover:text-primary/80 font-medium underline"
-                >
-                  Vendor login
-                </Link>
-              </p>
-            </div>
-          </form>
+              <Button 
+                type="submit" 
+                className="w-full" 
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Signing In...
+                  </>
+                ) : (
+                  "Sign In"
+                )}
+              </Button>
+
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => setUsePhone(true)}
+                disabled={isLoading}
+              >
+                Sign in with phone number
+              </Button>
+
+              <div className="text-center space-y-4 pt-4 border-t">
+                <p className="text-sm text-muted-foreground">
+                  Don&apos;t have an account?{" "}
+                  <Link 
+                    href="/auth/register" 
+                    className="text-primary hover:text-primary/80 font-medium underline"
+                  >
+                    Sign up
+                  </Link>
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Are you a vendor?{" "}
+                  <Link 
+                    href="/vendor/login" 
+                    className="text-primary hover:text-primary/80 font-medium underline"
+                  >
+                    Vendor login
+                  </Link>
+                </p>
+              </div>
+            </form>
+          )}
         </Container>
       </main>
       <Footer />
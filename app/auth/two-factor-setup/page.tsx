@@ -0,0 +1,5 @@
+'use client'
+
+import TwoFactorSetup from "@/page-components/TwoFactorSetup"
+
+export default TwoFactorSetup
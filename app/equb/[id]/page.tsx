@@ -10,13 +10,12 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
 import { 
   Users, Calendar, Coins, TrendingUp, CheckCircle2, 
-  AlertCircle, UserPlus, History 
+  AlertCircle, UserPlus, History, Clock, BookOpen 
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/context/auth-context';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 
 interface EqubCircleDetail {
   id: string;
@@ -25,6 +24,10 @@ interface EqubCircleDetail {
   memberLimit: number;
   contributionAmount: number;
   frequency: string;
+  payoutMethod: 'position' | 'lottery';
+  latePenaltyRate: number;
+  gracePeriodDays: number;
+  potBalance: number;
   startDate: string;
   currentRound: number;
   totalRounds: number;
@@ -41,6 +44,9 @@ interface EqubCircleDetail {
     userId: string;
     position: number;
     isActive: boolean;
+    hasReceivedPayout: boolean;
+    missedRounds: number;
+    defaultedAt: string | null;
     joinedAt: string;
     user: {
       id: string;
@@ -55,6 +61,33 @@ interface EqubCircleDetail {
   totalPot: number;
   spotsRemaining: number;
   isFull: boolean;
+  nextRound: {
+    round: number;
+    dueDate: string;
+    graceEndsAt: string;
+    isOpen: boolean;
+    contributionsReceived: number;
+    nextRecipientId: string | null;
+  } | null;
+}
+
+interface EqubLedger {
+  entries: Array<{
+    id: string;
+    round: number;
+    type: 'contribution' | 'penalty' | 'payout' | 'refund' | 'missed_contribution';
+    amount: number;
+    balanceAfter: number;
+    description: string;
+    createdAt: string;
+  }>;
+  potBalance: number;
+  memberSummary: {
+    contributed: number;
+    penalties: number;
+    received: number;
+    refunded: number;
+  } | null;
 }
 
 export default function EqubDetailPage() {
@@ -69,7 +102,7 @@ export default function EqubDetailPage() {
   const [contributing, setContributing] = useState(false);
   const [isMember, setIsMember] = useState(false);
   const [contributeDialogOpen, setContributeDialogOpen] = useState(false);
-  const [contributionAmount, setContributionAmount] = useState(0);
+  const [ledger, setLedger] = useState<EqubLedger | null>(null);
 
   useEffect(() => {
     if (params.id) {
@@ -81,10 +114,27 @@ export default function EqubDetailPage() {
     if (equbCircle && user) {
       const memberExists = equbCircle.members.some(m => m.userId === user.id);
       setIsMember(memberExists);
-      setContributionAmount(equbCircle.contributionAmount);
+      if (memberExists) {
+        fetchLedger();
+      }
     }
   }, [equbCircle, user]);
 
+  const fetchLedger = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/equb/circles/${params.id}/ledger?perPage=100`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const result = await response.json();
+      if (result.success) {
+        setLedger(result.data);
+      }
+    } catch (error) {
+      console.error('Error fetching Equb ledger:', error);
+    }
+  };
+
   const fetchEqubCircle = async () => {
     try {
       const response = await fetch(`/api/equb/circles/${params.id}/join`);
@@ -123,7 +173,7 @@ export default function EqubDetailPage() {
 
     setJoining(true);
     try {
-      const token = localStorage.getItem('token');
+      const token = localStorage.getItem('auth_token');
       const response = await fetch(`/api/equb/circles/${params.id}/join`, {
         method: 'POST',
         headers: {
@@ -164,16 +214,13 @@ export default function EqubDetailPage() {
     setContributing(true);
 
     try {
-      const token = localStorage.getItem('token');
+      const token = localStorage.getItem('auth_token');
       const response = await fetch(`/api/equb/circles/${params.id}/contribute`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          amount: contributionAmount,
-        }),
       });
 
       const result = await response.json();
@@ -313,6 +360,19 @@ export default function EqubDetailPage() {
                     <span className="text-muted-foreground">Start Date:</span>
                     <span className="font-medium">{new Date(equbCircle.startDate).toLocaleDateString()}</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Payout Order:</span>
+                    <span className="font-medium">
+                      {equbCircle.payoutMethod === 'lottery' ? 'Lottery draw each round' : 'By position'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Late Penalty:</span>
+                    <span className="font-medium">
+                      {(equbCircle.contributionAmount * equbCircle.latePenaltyRate).toLocaleString()} ETB
+                      {' '}({equbCircle.gracePeriodDays} day grace period)
+                    </span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Created by:</span>
                     <span className="font-medium">
@@ -323,6 +383,54 @@ export default function EqubDetailPage() {
               </CardContent>
             </Card>
 
+            {/* Open Round */}
+            {equbCircle.nextRound && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Clock className="h-5 w-5" />
+                    Round {equbCircle.nextRound.round}
+                  </CardTitle>
+                  <CardDescription>
+                    {equbCircle.nextRound.isOpen ? 'Collecting contributions' : 'Opens on the start date'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Due:</span>
+                    <span className="font-medium">{new Date(equbCircle.nextRound.dueDate).toLocaleDateString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Late payments accepted until:</span>
+                    <span className="font-medium">{new Date(equbCircle.nextRound.graceEndsAt).toLocaleDateString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Contributions received:</span>
+                    <span className="font-medium">
+                      {equbCircle.nextRound.contributionsReceived}/{equbCircle.members.filter(m => m.isActive).length}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Pot so far:</span>
+                    <span className="font-medium">{equbCircle.potBalance.toLocaleString()} ETB</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Paid to:</span>
+                    <span className="font-medium">
+                      {equbCircle.payoutMethod === 'lottery'
+                        ? 'Drawn on the due date'
+                        : (() => {
+                            const recipient = equbCircle.members.find(m => m.userId === equbCircle.nextRound?.nextRecipientId);
+                            return recipient
+                              ? `${recipient.user.profile?.firstName || 'User'} (#${recipient.position})`
+                              : '—';
+                          })()}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Members List */}
             <Card>
               <CardHeader>
@@ -350,17 +458,73 @@ export default function EqubDetailPage() {
                           </p>
                         </div>
                       </div>
-                      {member.isActive && (
-                        <Badge variant="outline" className="flex items-center gap-1">
-                          <CheckCircle2 className="h-3 w-3" />
-                          Active
-                        </Badge>
-                      )}
+                      <div className="flex gap-2">
+                        {member.hasReceivedPayout && (
+                          <Badge variant="secondary">Paid out</Badge>
+                        )}
+                        {member.defaultedAt ? (
+                          <Badge variant="destructive">Defaulted</Badge>
+                        ) : member.isActive && (
+                          <Badge variant="outline" className="flex items-center gap-1">
+                            <CheckCircle2 className="h-3 w-3" />
+                            Active
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                   ))}
                 </div>
               </CardContent>
             </Card>
+
+            {/* Ledger */}
+            {ledger && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <BookOpen className="h-5 w-5" />
+                    Circle Ledger
+                  </CardTitle>
+                  {ledger.memberSummary && (
+                    <CardDescription>
+                      You have contributed {ledger.memberSummary.contributed.toLocaleString()} ETB
+                      {ledger.memberSummary.penalties > 0 && ` plus ${ledger.memberSummary.penalties.toLocaleString()} ETB in penalties`}
+                      {' '}and received {ledger.memberSummary.received.toLocaleString()} ETB
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {ledger.entries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No activity yet</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Round</TableHead>
+                          <TableHead>Description</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                          <TableHead className="text-right">Pot</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {ledger.entries.map((entry) => (
+                          <TableRow key={entry.id}>
+                            <TableCell>{new Date(entry.createdAt).toLocaleDateString()}</TableCell>
+                            <TableCell>{entry.round}</TableCell>
+                            <TableCell>{entry.description}</TableCell>
+                            <TableCell className={`text-right ${entry.amount < 0 ? 'text-red-600' : ''}`}>
+                              {entry.amount === 0 ? '—' : entry.amount.toLocaleString()}
+                            </TableCell>
+                            <TableCell className="text-right">{entry.balanceAfter.toLocaleString()}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Right Column - Actions */}
@@ -417,20 +581,14 @@ export default function EqubDetailPage() {
                               Contribute to round {equbCircle.currentRound + 1}
                             </DialogDescription>
                           </DialogHeader>
-                          <div className="py-4">
-                            <Label htmlFor="amount">Amount (ETB)</Label>
-                            <Input
-                              id="amount"
-                              type="number"
-                              min={equbCircle.contributionAmount}
-                              step="50"
-                              value={contributionAmount}
-                              onChange={(e) => setContributionAmount(parseFloat(e.target.value))}
-                              required
-                            />
-                            <p className="text-xs text-muted-foreground mt-1">
-                              Minimum: {equbCircle.contributionAmount.toLocaleString()} ETB
-                            </p>
+                          <div className="py-4 space-y-1">
+                            <p className="text-2xl font-bold">{equbCircle.contributionAmount.toLocaleString()} ETB</p>
+                            {equbCircle.nextRound && new Date() > new Date(equbCircle.nextRound.dueDate) && (
+                              <p className="text-xs text-destructive">
+                                This round was due on {new Date(equbCircle.nextRound.dueDate).toLocaleDateString()}.
+                                A late penalty of {(equbCircle.contributionAmount * equbCircle.latePenaltyRate).toLocaleString()} ETB will be added.
+                              </p>
+                            )}
                           </div>
                           <DialogFooter>
                             <Button type="button" variant="outline" onClick={() => setContributeDialogOpen(false)}>
@@ -459,7 +617,7 @@ export default function EqubDetailPage() {
               <CardContent className="text-sm space-y-2">
                 <p>1. Each member contributes {equbCircle.contributionAmount.toLocaleString()} ETB {equbCircle.frequency}</p>
                 <p>2. The full pot ({equbCircle.totalPot.toLocaleString()} ETB) goes to one member per round</p>
-                <p>3. Distribution follows position order</p>
+                <p>3. {equbCircle.payoutMethod === 'lottery' ? 'Each round\'s recipient is drawn by lottery' : 'Distribution follows position order'}</p>
                 <p>4. Cycle completes when everyone receives once</p>
               </CardContent>
             </Card>
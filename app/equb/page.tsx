@@ -54,6 +54,7 @@ export default function EqubPage() {
     memberLimit: 10,
     contributionAmount: 1000,
     frequency: 'monthly',
+    payoutMethod: 'position',
     startDate: '',
   });
 
@@ -92,7 +93,7 @@ export default function EqubPage() {
     setCreating(true);
 
     try {
-      const token = localStorage.getItem('token');
+      const token = localStorage.getItem('auth_token');
       if (!token) {
         toast({
           title: 'Login Required',
@@ -127,6 +128,7 @@ export default function EqubPage() {
           memberLimit: 10,
           contributionAmount: 1000,
           frequency: 'monthly',
+          payoutMethod: 'position',
           startDate: '',
         });
       } else {
@@ -258,6 +260,18 @@ export default function EqubPage() {
                     </SelectContent>
                   </Select>
                 </div>
+                <div>
+                  <Label htmlFor="payoutMethod">Payout Order *</Label>
+                  <Select value={formData.payoutMethod} onValueChange={(value) => setFormData({ ...formData, payoutMethod: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="position">By position - in joining order</SelectItem>
+                      <SelectItem value="lottery">Lottery - ዕጣ drawn each round</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div>
                   <Label htmlFor="startDate">Start Date *</Label>
                   <Input
@@ -28,6 +28,8 @@ interface GroupPurchaseDetail {
   discount: number;
   expiresAt: string;
   status: string;
+  activatedAt: string | null;
+  expiredAt: string | null;
   product: {
     id: string;
     name: string;
@@ -49,6 +51,8 @@ interface GroupPurchaseDetail {
     id: string;
     userId: string;
     isPaid: boolean;
+    orderId: string | null;
+    refundedAt: string | null;
     joinedAt: string;
     user: {
       id: string;
@@ -76,6 +80,7 @@ export default function GroupPurchaseDetailPage() {
   const [groupPurchase, setGroupPurchase] = useState<GroupPurchaseDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [joining, setJoining] = useState(false);
+  const [paying, setPaying] = useState(false);
   const [isMember, setIsMember] = useState(false);
 
   useEffect(() => {
@@ -132,7 +137,7 @@ export default function GroupPurchaseDetailPage() {
 
     setJoining(true);
     try {
-      const token = localStorage.getItem('token');
+      const token = localStorage.getItem('auth_token');
       const response = await fetch(`/api/social/group-purchase/${params.id}/join`, {
         method: 'POST',
         headers: {
@@ -169,6 +174,45 @@ export default function GroupPurchaseDetailPage() {
     }
   };
 
+  const handlePrepay = async () => {
+    setPaying(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/social/group-purchase/${params.id}/checkout`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        toast({
+          title: 'Order created',
+          description: result.message,
+        });
+        router.push(`/orders/${result.data.order.id}`);
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to start payment',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Error starting group purchase payment:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to start payment',
+        variant: 'destructive',
+      });
+    } finally {
+      setPaying(false);
+    }
+  };
+
   const handleShare = async () => {
     const shareUrl = `${window.location.origin}/group-buy/${params.id}`;
     const shareText = `Join my group purchase for ${groupPurchase?.product.name} and get ${Math.round(groupPurchase?.discount || 0)}% off! Only ${groupPurchase?.pricePerPerson} ETB per person.`;
@@ -239,6 +283,7 @@ export default function GroupPurchaseDetailPage() {
   const progress = Math.min((groupPurchase.currentMembers / groupPurchase.requiredMembers) * 100, 100);
   const savingsPerPerson = groupPurchase.regularPrice - groupPurchase.pricePerPerson;
   const isExpired = groupPurchase.timeRemaining.milliseconds <= 0;
+  const myMembership = user ? groupPurchase.members.find(m => m.userId === user.id) : undefined;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -356,7 +401,9 @@ export default function GroupPurchaseDetailPage() {
                           </p>
                         </div>
                       </div>
-                      {member.isPaid && (
+                      {member.refundedAt ? (
+                        <Badge variant="secondary">Refunded</Badge>
+                      ) : member.isPaid && (
                         <Badge variant="outline" className="flex items-center gap-1">
                           <CheckCircle2 className="h-3 w-3" />
                           Paid
@@ -399,11 +446,42 @@ export default function GroupPurchaseDetailPage() {
                       Group Complete!
                     </p>
                     <p className="text-xs text-green-700 mt-1">
-                      Orders will be processed automatically
+                      {groupPurchase.activatedAt
+                        ? 'Member orders have been created. Pay within 48 hours to keep your item.'
+                        : 'Member orders will be created shortly'}
                     </p>
                   </div>
                 )}
 
+                {groupPurchase.expiredAt && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-sm font-semibold text-red-800 flex items-center gap-2">
+                      <AlertCircle className="h-4 w-4" />
+                      Group Cancelled
+                    </p>
+                    <p className="text-xs text-red-700 mt-1">
+                      The group did not reach {groupPurchase.requiredMembers} members in time. Any payments have been refunded.
+                    </p>
+                  </div>
+                )}
+
+                {myMembership && !myMembership.isPaid && (groupPurchase.activatedAt ? myMembership.orderId : !isExpired && !groupPurchase.isComplete) && (
+                  <Button
+                    className="w-full"
+                    size="lg"
+                    onClick={groupPurchase.activatedAt
+                      ? () => router.push(`/orders/${myMembership.orderId}`)
+                      : handlePrepay}
+                    disabled={paying}
+                  >
+                    {paying
+                      ? 'Preparing order...'
+                      : groupPurchase.activatedAt
+                        ? 'Pay for Your Order'
+                        : `Pre-pay ${groupPurchase.pricePerPerson.toLocaleString()} ETB`}
+                  </Button>
+                )}
+
                 {!groupPurchase.isComplete && !isExpired && !isMember && (
                   <Button 
                     className="w-full" 
@@ -422,7 +500,9 @@ export default function GroupPurchaseDetailPage() {
                       You're in!
                     </p>
                     <p className="text-xs text-blue-700 mt-1">
-                      Invite friends to complete the group faster
+                      {myMembership?.isPaid
+                        ? "You've pre-paid. If the group doesn't fill in time you'll be refunded automatically."
+                        : 'Invite friends to complete the group faster'}
                     </p>
                   </div>
                 )}
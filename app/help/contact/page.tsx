@@ -62,6 +62,7 @@ const categoryLabels = {
 export default function ContactPage() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isSubmitted, setIsSubmitted] = useState(false)
+  const [ticketNumber, setTicketNumber] = useState<string | null>(null)
 
   const form = useForm<ContactFormValues>({
     resolver: zodResolver(contactFormSchema),
@@ -80,15 +81,19 @@ export default function ContactPage() {
     setIsSubmitting(true)
     
     try {
+      const token = localStorage.getItem('auth_token')
       const response = await fetch('/api/support/tickets', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(token && { 'Authorization': `Bearer ${token}` }),
         },
         body: JSON.stringify(data),
       })
 
       if (response.ok) {
+        const result = await response.json()
+        setTicketNumber(result.ticketId)
         setIsSubmitted(true)
         toast.success('Support ticket submitted successfully!')
         form.reset()
@@ -117,11 +122,16 @@ export default function ContactPage() {
             </p>
             <div className="space-y-2 text-sm text-muted-foreground mb-6">
               <p>A confirmation email has been sent to your email address.</p>
-              <p>Ticket ID: #{Math.random().toString(36).substr(2, 9).toUpperCase()}</p>
+              {ticketNumber && <p>Ticket ID: {ticketNumber}</p>}
+            </div>
+            <div className="flex justify-center gap-2">
+              <Button onClick={() => setIsSubmitted(false)}>
+                Submit Another Ticket
+              </Button>
+              <Button variant="outline" asChild>
+                <a href="/support/tickets">View My Tickets</a>
+              </Button>
             </div>
-            <Button onClick={() => setIsSubmitted(false)}>
-              Submit Another Ticket
-            </Button>
           </CardContent>
         </Card>
       </div>
@@ -95,6 +95,23 @@ function transformApiProduct(p: ApiProduct): Product {
   }
 }
 
+/**
+ * Headers for search requests: the shopper's token, if signed in, and a
+ * per-tab session id so search analytics can group anonymous searches
+ */
+function searchHeaders(): HeadersInit {
+  let sessionId = sessionStorage.getItem('search_session_id')
+  if (!sessionId) {
+    sessionId = crypto.randomUUID()
+    sessionStorage.setItem('search_session_id', sessionId)
+  }
+  const token = localStorage.getItem('auth_token')
+  return {
+    'x-session-id': sessionId,
+    ...(token && { 'Authorization': `Bearer ${token}` })
+  }
+}
+
 // Mock products removed - products will be fetched from the API
 
 function ProductsContent() {
@@ -109,6 +126,7 @@ function ProductsContent() {
   const [error, setError] = useState<string | null>(null)
   const [isUsingCache, setIsUsingCache] = useState(false)
   const [isOffline, setIsOffline] = useState(false)
+  const [searchId, setSearchId] = useState<string | null>(null)
 
   // Handle online/offline status changes
   useEffect(() => {
@@ -146,6 +164,7 @@ function ProductsContent() {
           isVerifiedVendor: p.isVerifiedVendor
         }))
         setProducts(transformedProducts)
+        setSearchId(null)
         setIsUsingCache(true)
         setError(null)
         return true
@@ -210,9 +229,20 @@ function ProductsContent() {
           ? `/api/products/search?${params.toString()}` 
           : '/api/products/search'
         
-        const response = await fetch(url)
+        const response = await fetch(url, { headers: searchHeaders() })
         if (response.ok) {
           const data = await response.json()
+
+          // An admin search rule can send this query to another page
+          if (data.redirect) {
+            if (data.redirect.startsWith('/')) {
+              router.replace(data.redirect)
+            } else {
+              window.location.assign(data.redirect)
+            }
+            return
+          }
+          setSearchId(data.searchId || null)
           
           // Transform backend data to match Product interface
           const transformedProducts = data.products.map((p: ApiProduct) => transformApiProduct(p))
@@ -247,7 +277,7 @@ function ProductsContent() {
     }
     
     fetchProducts()
-  }, [searchParams, loadCachedProducts, cacheProductsForOffline])
+  }, [searchParams, router, loadCachedProducts, cacheProductsForOffline])
 
   // Refresh products handler for OfflineIndicator
   const handleRefresh = useCallback(async () => {
@@ -291,6 +321,19 @@ function ProductsContent() {
     }
   }, [searchParams, cacheProductsForOffline])
 
+  // Open a product, recording the click against the search that listed it
+  const openProduct = (product: Product, position: number) => {
+    if (searchId) {
+      fetch('/api/search/clicks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ searchId, productId: product.id, position }),
+        keepalive: true
+      }).catch(() => {})
+    }
+    router.push(`/product/${product.id}`)
+  }
+
   const handleAddToCart = (product: Product) => {
     addToCart({
       id: product.id,
@@ -380,11 +423,11 @@ function ProductsContent() {
           
           {!loading && (isUsingCache || !error) && (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {products.map((product) => (
+            {products.map((product, index) => (
             <div
               key={product.id}
               className="group relative bg-white dark:bg-card rounded-xl shadow-lg hover:shadow-2xl border border-gray-100 dark:border-gray-800 overflow-hidden hover:-translate-y-2 transition-all duration-500 cursor-pointer"
-              onClick={() => router.push(`/product/${product.id}`)}
+              onClick={() => openProduct(product, index + 1)}
             >
               {/* Mobile: square ratio */}
               <div className="block md:hidden">
@@ -498,7 +541,7 @@ function ProductsContent() {
                       <Heart className="w-4 h-4" />
                     </Button>
                     <Button
-                      onClick={(e) => { e.stopPropagation(); router.push(`/product/${product.id}`); }}
+                      onClick={(e) => { e.stopPropagation(); openProduct(product, index + 1); }}
                       variant="outline"
                       size="icon"
                       className="border-2"
@@ -0,0 +1,5 @@
+'use client'
+
+import TwoFactorSettings from "@/page-components/TwoFactorSettings"
+
+export default TwoFactorSettings
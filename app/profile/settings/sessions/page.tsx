@@ -0,0 +1,5 @@
+'use client'
+
+import ActiveSessionsSettings from "@/page-components/ActiveSessionsSettings"
+
+export default ActiveSessionsSettings
@@ -0,0 +1,5 @@
+'use client'
+
+import SignInMethodsSettings from "@/page-components/SignInMethodsSettings"
+
+export default SignInMethodsSettings
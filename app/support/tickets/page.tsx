@@ -0,0 +1,7 @@
+"use client";
+
+import SupportTicketsPage from '@/page-components/SupportTickets';
+
+export default function Page() {
+  return <SupportTicketsPage />;
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { jwtVerify } from 'jose'
+import { adminScopeCanAccess } from '@/lib/permissions'
 
 const ADMIN_PREFIX = '/admin'
 const VENDOR_PREFIX = '/vendor'
 const VENDOR_STORE_PREFIX = '/vendor/store' // Public vendor store pages
 const VENDOR_LOGIN_PATH = '/vendor/login' // Public vendor login page
+const VENDOR_INVITE_PATH = '/vendor/staff/accept' // Staff invite link, opened by customers
+const ADMIN_API_PREFIX = '/api/admin/'
 const AUTH_COOKIE = 'auth_token'
 const LANGUAGE_COOKIE = 'preferred_language'
 
@@ -24,7 +27,7 @@ async function verifyJWT(token: string) {
   const secret = new TextEncoder().encode(process.env.JWT_SECRET || 'dev-secret-key-change-in-production')
   try {
     const { payload } = await jwtVerify(token, secret)
-    return payload as { userId?: string; email?: string; role?: string }
+    return payload as { userId?: string; email?: string; role?: string; adminScope?: string | null }
   } catch {
     return null
   }
@@ -73,7 +76,7 @@ function addCorsHeaders(request: NextRequest, response: NextResponse): void {
     );
     response.headers.set(
       'Access-Control-Allow-Headers',
-      'Content-Type, Authorization, X-CSRF-Token, X-Session-Id'
+      'Content-Type, Authorization, X-CSRF-Token, X-Session-Id, X-Step-Up-Token'
     );
     response.headers.set('Access-Control-Max-Age', '86400'); // 24 hours
   }
@@ -175,7 +178,7 @@ export async function middleware(req: NextRequest) {
   
   const isAdminRoute = pathname.startsWith(ADMIN_PREFIX)
   const isVendorStoreRoute = pathname.startsWith(VENDOR_STORE_PREFIX)
-  const isVendorLoginRoute = pathname === VENDOR_LOGIN_PATH
+  const isVendorLoginRoute = pathname === VENDOR_LOGIN_PATH || pathname === VENDOR_INVITE_PATH
   const isVendorRoute = pathname.startsWith(VENDOR_PREFIX) && !isVendorStoreRoute && !isVendorLoginRoute
   const isAdminLogin = pathname === '/admin/login'
   
@@ -199,6 +202,21 @@ export async function middleware(req: NextRequest) {
   // Add CORS headers for API routes
   addCorsHeaders(req, response);
 
+  // Keep scoped operators inside their part of the admin API. Role checks
+  // still happen in the route handlers.
+  if (pathname.startsWith(ADMIN_API_PREFIX)) {
+    const bearer = req.headers.get('authorization')
+    const apiToken = bearer?.startsWith('Bearer ') ? bearer.slice(7) : req.cookies.get(AUTH_COOKIE)?.value
+    const apiPayload = apiToken ? await verifyJWT(apiToken) : null
+    if (apiPayload?.role === 'admin' && !adminScopeCanAccess(apiPayload.adminScope, pathname)) {
+      return NextResponse.json(
+        { error: 'Your admin role does not allow this', errorCode: 'ADMIN_PERMISSION_DENIED' },
+        { status: 403 }
+      )
+    }
+    return response
+  }
+
   // Allow vendor store pages to be accessed publicly (customer-facing)
   if (isVendorStoreRoute) {
     return response
@@ -247,5 +265,5 @@ export async function middleware(req: NextRequest) {
 }
 
 export const config = {
-  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)'],
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)', '/api/admin/:path*'],
 }
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "InventoryMovementType" AS ENUM ('purchase_receipt', 'sale', 'return', 'adjustment');
+
+-- AlterTable
+ALTER TABLE "purchase_orders" ALTER COLUMN "supplierId" DROP NOT NULL,
+ADD COLUMN     "warehouseId" UUID,
+ADD COLUMN     "approvedBy" UUID,
+ADD COLUMN     "approvedAt" TIMESTAMP(3),
+ADD COLUMN     "sentAt" TIMESTAMP(3),
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "cancellationReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "inventory_movements" (
+    "id" UUID NOT NULL,
+    "productId" UUID NOT NULL,
+    "variantId" UUID,
+    "warehouseId" UUID,
+    "type" "InventoryMovementType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "stockAfter" INTEGER NOT NULL,
+    "referenceType" TEXT,
+    "referenceId" UUID,
+    "note" TEXT,
+    "createdBy" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inventory_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inventory_movements_productId_idx" ON "inventory_movements"("productId");
+
+-- CreateIndex
+CREATE INDEX "inventory_movements_referenceType_referenceId_idx" ON "inventory_movements"("referenceType", "referenceId");
+
+-- CreateIndex
+CREATE INDEX "inventory_movements_createdAt_idx" ON "inventory_movements"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "warehouses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_movements" ADD CONSTRAINT "inventory_movements_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_movements" ADD CONSTRAINT "inventory_movements_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_movements" ADD CONSTRAINT "inventory_movements_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "warehouses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "auto_reorder_rules" ADD COLUMN     "supplierId" UUID,
+ADD COLUMN     "supplierName" TEXT,
+ADD COLUMN     "unitCost" DOUBLE PRECISION;
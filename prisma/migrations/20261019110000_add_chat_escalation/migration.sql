@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "chat_conversations" ADD COLUMN     "escalatedAt" TIMESTAMP(3),
+ADD COLUMN     "escalationReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "chat_conversations_escalatedAt_idx" ON "chat_conversations"("escalatedAt");
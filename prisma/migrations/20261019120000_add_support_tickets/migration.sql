@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "SupportTicketStatus" AS ENUM ('open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed');
+
+-- CreateEnum
+CREATE TYPE "SupportTicketPriority" AS ENUM ('low', 'normal', 'high', 'urgent');
+
+-- CreateEnum
+CREATE TYPE "SupportTicketCategory" AS ENUM ('order_inquiry', 'shipping_issue', 'refund_request', 'product_question', 'vendor_support', 'technical_issue', 'account_help', 'other');
+
+-- CreateTable
+CREATE TABLE "support_tickets" (
+    "id" UUID NOT NULL,
+    "ticketNumber" TEXT NOT NULL,
+    "userId" UUID,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone" TEXT,
+    "category" "SupportTicketCategory" NOT NULL,
+    "priority" "SupportTicketPriority" NOT NULL DEFAULT 'normal',
+    "status" "SupportTicketStatus" NOT NULL DEFAULT 'open',
+    "subject" TEXT NOT NULL,
+    "orderNumber" TEXT,
+    "orderId" UUID,
+    "assignedToId" UUID,
+    "firstResponseDueAt" TIMESTAMP(3) NOT NULL,
+    "resolutionDueAt" TIMESTAMP(3) NOT NULL,
+    "firstRespondedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "support_tickets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "support_ticket_messages" (
+    "id" UUID NOT NULL,
+    "ticketId" UUID NOT NULL,
+    "authorId" UUID,
+    "authorType" TEXT NOT NULL,
+    "channel" TEXT NOT NULL DEFAULT 'web',
+    "body" TEXT NOT NULL,
+    "isInternal" BOOLEAN NOT NULL DEFAULT false,
+    "attachments" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "support_ticket_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "support_tickets_ticketNumber_key" ON "support_tickets"("ticketNumber");
+
+-- CreateIndex
+CREATE INDEX "support_tickets_userId_idx" ON "support_tickets"("userId");
+
+-- CreateIndex
+CREATE INDEX "support_tickets_email_idx" ON "support_tickets"("email");
+
+-- CreateIndex
+CREATE INDEX "support_tickets_status_priority_idx" ON "support_tickets"("status", "priority");
+
+-- CreateIndex
+CREATE INDEX "support_tickets_assignedToId_idx" ON "support_tickets"("assignedToId");
+
+-- CreateIndex
+CREATE INDEX "support_tickets_firstResponseDueAt_idx" ON "support_tickets"("firstResponseDueAt");
+
+-- CreateIndex
+CREATE INDEX "support_tickets_resolutionDueAt_idx" ON "support_tickets"("resolutionDueAt");
+
+-- CreateIndex
+CREATE INDEX "support_ticket_messages_ticketId_createdAt_idx" ON "support_ticket_messages"("ticketId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "support_tickets" ADD CONSTRAINT "support_tickets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "support_tickets" ADD CONSTRAINT "support_tickets_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "support_tickets" ADD CONSTRAINT "support_tickets_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "support_ticket_messages" ADD CONSTRAINT "support_ticket_messages_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "support_tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "support_ticket_messages" ADD CONSTRAINT "support_ticket_messages_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "EqubPayoutMethod" AS ENUM ('position', 'lottery');
+
+-- CreateEnum
+CREATE TYPE "EqubLedgerEntryType" AS ENUM ('contribution', 'penalty', 'payout', 'refund', 'missed_contribution');
+
+-- AlterTable
+ALTER TABLE "equb_circles" ADD COLUMN     "payoutMethod" "EqubPayoutMethod" NOT NULL DEFAULT 'position',
+ADD COLUMN     "latePenaltyRate" DOUBLE PRECISION NOT NULL DEFAULT 0.05,
+ADD COLUMN     "gracePeriodDays" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "maxMissedRounds" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "potBalance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "startedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "equb_circle_members" ADD COLUMN     "hasReceivedPayout" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "missedRounds" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "defaultedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "equb_contributions" ADD COLUMN     "penaltyAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "isLate" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "equb_distributions" ADD COLUMN     "drawMethod" "EqubPayoutMethod" NOT NULL DEFAULT 'position';
+
+-- CreateTable
+CREATE TABLE "equb_ledger_entries" (
+    "id" UUID NOT NULL,
+    "equbCircleId" UUID NOT NULL,
+    "memberId" UUID,
+    "round" INTEGER NOT NULL,
+    "type" "EqubLedgerEntryType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "balanceAfter" DOUBLE PRECISION NOT NULL,
+    "contributionId" UUID,
+    "distributionId" UUID,
+    "description" TEXT NOT NULL,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "equb_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "equb_contributions_equbCircleId_memberId_round_key" ON "equb_contributions"("equbCircleId", "memberId", "round");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "equb_distributions_equbCircleId_round_key" ON "equb_distributions"("equbCircleId", "round");
+
+-- CreateIndex
+CREATE INDEX "equb_ledger_entries_equbCircleId_createdAt_idx" ON "equb_ledger_entries"("equbCircleId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "equb_ledger_entries_memberId_idx" ON "equb_ledger_entries"("memberId");
+
+-- AddForeignKey
+ALTER TABLE "equb_ledger_entries" ADD CONSTRAINT "equb_ledger_entries_equbCircleId_fkey" FOREIGN KEY ("equbCircleId") REFERENCES "equb_circles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "equb_ledger_entries" ADD CONSTRAINT "equb_ledger_entries_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "equb_circle_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "group_purchases" ADD COLUMN     "activatedAt" TIMESTAMP(3),
+ADD COLUMN     "expiredAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "group_purchase_members" ADD COLUMN     "paidAt" TIMESTAMP(3),
+ADD COLUMN     "refundId" UUID,
+ADD COLUMN     "refundedAt" TIMESTAMP(3);
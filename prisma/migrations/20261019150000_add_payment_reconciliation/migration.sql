@@ -0,0 +1,113 @@
+-- CreateEnum
+CREATE TYPE "SettlementFileStatus" AS ENUM ('imported', 'reconciled', 'failed');
+
+-- CreateEnum
+CREATE TYPE "SettlementMatchStatus" AS ENUM ('matched', 'amount_mismatch', 'unmatched', 'duplicate', 'unpaid_order');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationExceptionType" AS ENUM ('unmatched_settlement', 'unsettled_order', 'amount_mismatch', 'duplicate_settlement', 'unpaid_order_settled');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationExceptionStatus" AS ENUM ('open', 'resolved', 'ignored');
+
+-- CreateTable
+CREATE TABLE "settlement_files" (
+    "id" UUID NOT NULL,
+    "provider" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "uploadedById" UUID NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "lineCount" INTEGER NOT NULL DEFAULT 0,
+    "totalAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "matchedCount" INTEGER NOT NULL DEFAULT 0,
+    "exceptionCount" INTEGER NOT NULL DEFAULT 0,
+    "status" "SettlementFileStatus" NOT NULL DEFAULT 'imported',
+    "reconciledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "settlement_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "settlement_lines" (
+    "id" UUID NOT NULL,
+    "fileId" UUID NOT NULL,
+    "lineNumber" INTEGER NOT NULL,
+    "reference" TEXT NOT NULL,
+    "orderNumber" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'ETB',
+    "settledAt" TIMESTAMP(3),
+    "raw" JSONB NOT NULL,
+    "orderId" UUID,
+    "matchStatus" "SettlementMatchStatus" NOT NULL DEFAULT 'unmatched',
+
+    CONSTRAINT "settlement_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "reconciliation_exceptions" (
+    "id" UUID NOT NULL,
+    "fileId" UUID NOT NULL,
+    "lineId" UUID,
+    "orderId" UUID,
+    "type" "ReconciliationExceptionType" NOT NULL,
+    "status" "ReconciliationExceptionStatus" NOT NULL DEFAULT 'open',
+    "reference" TEXT,
+    "expectedAmount" DECIMAL(12,2),
+    "settledAmount" DECIMAL(12,2),
+    "delta" DECIMAL(12,2),
+    "resolvedById" UUID,
+    "resolvedAt" TIMESTAMP(3),
+    "resolutionNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reconciliation_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "settlement_files_provider_periodStart_idx" ON "settlement_files"("provider", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "settlement_files_createdAt_idx" ON "settlement_files"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "settlement_lines_fileId_lineNumber_key" ON "settlement_lines"("fileId", "lineNumber");
+
+-- CreateIndex
+CREATE INDEX "settlement_lines_reference_idx" ON "settlement_lines"("reference");
+
+-- CreateIndex
+CREATE INDEX "settlement_lines_orderId_idx" ON "settlement_lines"("orderId");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_exceptions_fileId_idx" ON "reconciliation_exceptions"("fileId");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_exceptions_status_type_idx" ON "reconciliation_exceptions"("status", "type");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_exceptions_orderId_idx" ON "reconciliation_exceptions"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "settlement_files" ADD CONSTRAINT "settlement_files_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlement_lines" ADD CONSTRAINT "settlement_lines_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "settlement_files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlement_lines" ADD CONSTRAINT "settlement_lines_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_exceptions" ADD CONSTRAINT "reconciliation_exceptions_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "settlement_files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_exceptions" ADD CONSTRAINT "reconciliation_exceptions_lineId_fkey" FOREIGN KEY ("lineId") REFERENCES "settlement_lines"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_exceptions" ADD CONSTRAINT "reconciliation_exceptions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_exceptions" ADD CONSTRAINT "reconciliation_exceptions_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "journal_entries" (
+    "id" UUID NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceId" UUID NOT NULL,
+    "description" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'ETB',
+    "metadata" JSONB,
+    "postedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "journal_lines" (
+    "id" UUID NOT NULL,
+    "journalEntryId" UUID NOT NULL,
+    "accountCode" TEXT NOT NULL,
+    "subAccount" TEXT,
+    "debit" DECIMAL(14,2) NOT NULL DEFAULT 0,
+    "credit" DECIMAL(14,2) NOT NULL DEFAULT 0,
+    "memo" TEXT,
+    "postedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "journal_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "journal_entries_eventType_sourceId_key" ON "journal_entries"("eventType", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_sourceType_sourceId_idx" ON "journal_entries"("sourceType", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_postedAt_idx" ON "journal_entries"("postedAt");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_journalEntryId_idx" ON "journal_lines"("journalEntryId");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_accountCode_subAccount_postedAt_idx" ON "journal_lines"("accountCode", "subAccount", "postedAt");
+
+-- AddForeignKey
+ALTER TABLE "journal_lines" ADD CONSTRAINT "journal_lines_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "journal_entries"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Journal lines are one-sided and non-negative; the ledger is append-only
+ALTER TABLE "journal_lines" ADD CONSTRAINT "journal_lines_amount_check" CHECK ("debit" >= 0 AND "credit" >= 0 AND ("debit" = 0 OR "credit" = 0));
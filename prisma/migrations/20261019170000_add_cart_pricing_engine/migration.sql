@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "promotions" ADD COLUMN "is_exclusive" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "pricing_breakdown" JSONB;
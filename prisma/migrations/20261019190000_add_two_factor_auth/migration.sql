@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "site_settings" ADD COLUMN "require_vendor_two_factor" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "user_two_factor" (
+    "id" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "totpSecret" TEXT,
+    "totpPendingSecret" TEXT,
+    "totpEnabledAt" TIMESTAMP(3),
+    "totpLastStep" INTEGER,
+    "smsPhone" TEXT,
+    "smsEnabledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_two_factor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "two_factor_recovery_codes" (
+    "id" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "two_factor_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "two_factor_challenges" (
+    "id" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "codeHash" TEXT,
+    "phone" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "two_factor_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_two_factor_userId_key" ON "user_two_factor"("userId");
+
+-- CreateIndex
+CREATE INDEX "two_factor_recovery_codes_userId_idx" ON "two_factor_recovery_codes"("userId");
+
+-- CreateIndex
+CREATE INDEX "two_factor_challenges_userId_purpose_idx" ON "two_factor_challenges"("userId", "purpose");
+
+-- CreateIndex
+CREATE INDEX "two_factor_challenges_expiresAt_idx" ON "two_factor_challenges"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "user_two_factor" ADD CONSTRAINT "user_two_factor_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "two_factor_recovery_codes" ADD CONSTRAINT "two_factor_recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "two_factor_challenges" ADD CONSTRAINT "two_factor_challenges_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
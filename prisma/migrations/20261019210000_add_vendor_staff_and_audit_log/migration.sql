@@ -0,0 +1,95 @@
+-- CreateEnum
+CREATE TYPE "AdminScope" AS ENUM ('super_admin', 'support_agent', 'finance', 'catalog_moderator');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "admin_scope" "AdminScope";
+
+-- CreateTable
+CREATE TABLE "vendor_staff_members" (
+    "id" UUID NOT NULL,
+    "vendorId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "permissions" TEXT[],
+    "invitedById" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vendor_staff_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vendor_staff_invites" (
+    "id" UUID NOT NULL,
+    "vendorId" UUID NOT NULL,
+    "email" TEXT NOT NULL,
+    "permissions" TEXT[],
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" UUID NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vendor_staff_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" UUID NOT NULL,
+    "scope" TEXT NOT NULL,
+    "vendorId" UUID,
+    "actorId" UUID,
+    "action" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT,
+    "changes" JSONB,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vendor_staff_members_userId_key" ON "vendor_staff_members"("userId");
+
+-- CreateIndex
+CREATE INDEX "vendor_staff_members_vendorId_idx" ON "vendor_staff_members"("vendorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vendor_staff_invites_tokenHash_key" ON "vendor_staff_invites"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "vendor_staff_invites_vendorId_idx" ON "vendor_staff_invites"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "vendor_staff_invites_email_idx" ON "vendor_staff_invites"("email");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_vendorId_createdAt_idx" ON "audit_logs"("vendorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_scope_createdAt_idx" ON "audit_logs"("scope", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_actorId_createdAt_idx" ON "audit_logs"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_entityType_entityId_idx" ON "audit_logs"("entityType", "entityId");
+
+-- AddForeignKey
+ALTER TABLE "vendor_staff_members" ADD CONSTRAINT "vendor_staff_members_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vendor_staff_members" ADD CONSTRAINT "vendor_staff_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vendor_staff_invites" ADD CONSTRAINT "vendor_staff_invites_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vendor_staff_invites" ADD CONSTRAINT "vendor_staff_invites_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
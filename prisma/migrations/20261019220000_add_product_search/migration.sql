@@ -0,0 +1,30 @@
+-- Trigram matching for typo-tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Lower-cases text, folds Ge'ez homophone letters (ሐ/ኀ → ሀ, ሠ → ሰ,
+-- ዐ/ዓ/ኣ → አ, ፀ → ጸ) and turns Ethiopic punctuation into spaces.
+-- Must stay in step with normalizeGeez() in src/lib/search-query.ts.
+CREATE OR REPLACE FUNCTION normalize_geez(input TEXT) RETURNS TEXT
+LANGUAGE SQL IMMUTABLE PARALLEL SAFE AS $$
+    SELECT translate(
+        lower(coalesce(input, '')),
+        'ሐሑሒሓሔሕሖኀኁኂኃኄኅኆሠሡሢሣሤሥሦዐዑዒዓዔዕዖፀፁፂፃፄፅፆኣ፡።፣፤፥፦፧፨',
+        'ሀሁሂሃሄህሆሀሁሂሃሄህሆሰሱሲሳሴስሶአኡኢአኤእኦጸጹጺጻጼጽጾአ        '
+    )
+$$;
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple'::regconfig, normalize_geez("name")), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, normalize_geez("brand")), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, normalize_geez(coalesce("short_description", '') || ' ' || coalesce("description", ''))), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "products_search_vector_idx" ON "products" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "products_name_trgm_idx" ON "products" USING GIN (normalize_geez("name") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "products_brand_trgm_idx" ON "products" USING GIN (normalize_geez("brand") gin_trgm_ops);
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "CategoryAttributeType" AS ENUM ('text', 'number', 'boolean');
+
+-- CreateTable
+CREATE TABLE "category_attributes" (
+    "id" UUID NOT NULL,
+    "categoryId" UUID NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "type" "CategoryAttributeType" NOT NULL DEFAULT 'text',
+    "unit" TEXT,
+    "isFilterable" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "category_attributes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "category_attributes_categoryId_key_key" ON "category_attributes"("categoryId", "key");
+
+-- AddForeignKey
+ALTER TABLE "category_attributes" ADD CONSTRAINT "category_attributes_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- One row per attribute value of a product (variant_id NULL) or of one of
+-- its active variants. Keys and values are lower-cased and trimmed; list
+-- values ({"colors": ["Black", "White"]}) give one row per element.
+CREATE VIEW "product_attribute_values" AS
+SELECT p."id" AS product_id,
+       NULL::uuid AS variant_id,
+       lower(trim(spec.key)) AS key,
+       lower(trim(item.value)) AS value,
+       trim(item.value) AS display_value
+FROM "products" p
+CROSS JOIN LATERAL jsonb_each(
+    CASE WHEN jsonb_typeof(p."specifications") = 'object' THEN p."specifications" ELSE '{}'::jsonb END
+) AS spec
+CROSS JOIN LATERAL (
+    SELECT jsonb_array_elements_text(spec.value) AS value WHERE jsonb_typeof(spec.value) = 'array'
+    UNION ALL
+    SELECT spec.value #>> '{}' WHERE jsonb_typeof(spec.value) IN ('string', 'number', 'boolean')
+) AS item
+WHERE trim(item.value) <> ''
+UNION ALL
+SELECT v."product_id",
+       v."id",
+       lower(trim(attr.key)),
+       lower(trim(item.value)),
+       trim(item.value)
+FROM "product_variants" v
+CROSS JOIN LATERAL jsonb_each(
+    CASE WHEN jsonb_typeof(v."attributes") = 'object' THEN v."attributes" ELSE '{}'::jsonb END
+) AS attr
+CROSS JOIN LATERAL (
+    SELECT jsonb_array_elements_text(attr.value) AS value WHERE jsonb_typeof(attr.value) = 'array'
+    UNION ALL
+    SELECT attr.value #>> '{}' WHERE jsonb_typeof(attr.value) IN ('string', 'number', 'boolean')
+) AS item
+WHERE v."is_active" AND trim(item.value) <> '';
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "search_query_logs" (
+    "id" UUID NOT NULL,
+    "query" TEXT NOT NULL,
+    "normalizedQuery" TEXT NOT NULL,
+    "filters" JSONB,
+    "sort" TEXT,
+    "resultCount" INTEGER NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'text',
+    "userId" UUID,
+    "sessionId" TEXT,
+    "searchRuleId" UUID,
+    "redirectedTo" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "search_query_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "search_clicks" (
+    "id" UUID NOT NULL,
+    "searchId" UUID NOT NULL,
+    "productId" UUID NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "search_clicks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "search_rules" (
+    "id" UUID NOT NULL,
+    "query" TEXT NOT NULL,
+    "redirectUrl" TEXT,
+    "pinnedProductIds" UUID[],
+    "synonyms" TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "search_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "search_query_logs_normalizedQuery_idx" ON "search_query_logs"("normalizedQuery");
+
+-- CreateIndex
+CREATE INDEX "search_query_logs_createdAt_idx" ON "search_query_logs"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "search_clicks_searchId_idx" ON "search_clicks"("searchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "search_rules_query_key" ON "search_rules"("query");
+
+-- AddForeignKey
+ALTER TABLE "search_query_logs" ADD CONSTRAINT "search_query_logs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "search_query_logs" ADD CONSTRAINT "search_query_logs_searchRuleId_fkey" FOREIGN KEY ("searchRuleId") REFERENCES "search_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "search_clicks" ADD CONSTRAINT "search_clicks_searchId_fkey" FOREIGN KEY ("searchId") REFERENCES "search_query_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "search_rules" ADD CONSTRAINT "search_rules_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
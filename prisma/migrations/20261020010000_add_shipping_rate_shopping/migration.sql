@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "shipping_methods" ADD COLUMN     "volumetric_divisor" INTEGER NOT NULL DEFAULT 5000,
+ADD COLUMN     "supports_cod" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "shipping_rates" ADD COLUMN     "origin_zone_id" UUID,
+ADD COLUMN     "cod_fee" DECIMAL(10,2),
+ADD COLUMN     "cod_fee_percent" DECIMAL(5,4);
+
+-- CreateIndex
+CREATE INDEX "shipping_rates_origin_zone_id_idx" ON "shipping_rates"("origin_zone_id");
+
+-- AddForeignKey
+ALTER TABLE "shipping_rates" ADD CONSTRAINT "shipping_rates_origin_zone_id_fkey" FOREIGN KEY ("origin_zone_id") REFERENCES "shipping_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
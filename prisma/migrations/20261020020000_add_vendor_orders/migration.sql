@@ -0,0 +1,96 @@
+-- CreateTable
+CREATE TABLE "vendor_orders" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "order_id" UUID NOT NULL,
+    "vendor_id" UUID NOT NULL,
+    "number" TEXT NOT NULL,
+    "status" "OrderStatus" NOT NULL DEFAULT 'pending',
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "shipping_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "shipping_method_id" UUID,
+    "confirmed_at" TIMESTAMP(3),
+    "processing_at" TIMESTAMP(3),
+    "packed_at" TIMESTAMP(3),
+    "picked_up_at" TIMESTAMP(3),
+    "in_transit_at" TIMESTAMP(3),
+    "out_for_delivery_at" TIMESTAMP(3),
+    "fulfilled_at" TIMESTAMP(3),
+    "shipped_at" TIMESTAMP(3),
+    "delivered_at" TIMESTAMP(3),
+    "cancelled_at" TIMESTAMP(3),
+    "refunded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vendor_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "vendor_order_id" UUID;
+
+-- AlterTable
+ALTER TABLE "order_events" ADD COLUMN     "vendor_order_id" UUID;
+
+-- AlterTable
+ALTER TABLE "delivery_tracking" ALTER COLUMN "order_id" DROP NOT NULL,
+ADD COLUMN     "vendor_order_id" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vendor_orders_number_key" ON "vendor_orders"("number");
+
+-- CreateIndex
+CREATE INDEX "vendor_orders_vendor_id_status_idx" ON "vendor_orders"("vendor_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vendor_orders_order_id_vendor_id_key" ON "vendor_orders"("order_id", "vendor_id");
+
+-- CreateIndex
+CREATE INDEX "order_items_vendor_order_id_idx" ON "order_items"("vendor_order_id");
+
+-- CreateIndex
+CREATE INDEX "order_events_vendor_order_id_idx" ON "order_events"("vendor_order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_tracking_vendor_order_id_key" ON "delivery_tracking"("vendor_order_id");
+
+-- AddForeignKey
+ALTER TABLE "vendor_orders" ADD CONSTRAINT "vendor_orders_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vendor_orders" ADD CONSTRAINT "vendor_orders_vendor_id_fkey" FOREIGN KEY ("vendor_id") REFERENCES "profiles"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vendor_orders" ADD CONSTRAINT "vendor_orders_shipping_method_id_fkey" FOREIGN KEY ("shipping_method_id") REFERENCES "shipping_methods"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_vendor_order_id_fkey" FOREIGN KEY ("vendor_order_id") REFERENCES "vendor_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_vendor_order_id_fkey" FOREIGN KEY ("vendor_order_id") REFERENCES "vendor_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_tracking" ADD CONSTRAINT "delivery_tracking_vendor_order_id_fkey" FOREIGN KEY ("vendor_order_id") REFERENCES "vendor_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing orders get one vendor order per vendor, at the order's status
+INSERT INTO "vendor_orders" (
+    "order_id", "vendor_id", "number", "status", "subtotal",
+    "confirmed_at", "processing_at", "packed_at", "picked_up_at", "in_transit_at", "out_for_delivery_at",
+    "fulfilled_at", "shipped_at", "delivered_at", "cancelled_at", "refunded_at", "created_at", "updated_at"
+)
+SELECT
+    o."id", g."vendor_id",
+    o."order_number" || '-' || ROW_NUMBER() OVER (PARTITION BY o."id" ORDER BY g."vendor_id"),
+    o."status", g."subtotal",
+    o."confirmed_at", o."processing_at", o."packed_at", o."picked_up_at", o."in_transit_at", o."out_for_delivery_at",
+    o."fulfilled_at", o."shipped_at", o."delivered_at", o."cancelled_at", o."refunded_at", o."created_at", CURRENT_TIMESTAMP
+FROM (
+    SELECT "order_id", "vendor_id", SUM("total") AS "subtotal"
+    FROM "order_items"
+    GROUP BY "order_id", "vendor_id"
+) g
+JOIN "orders" o ON o."id" = g."order_id";
+
+UPDATE "order_items" oi
+SET "vendor_order_id" = vo."id"
+FROM "vendor_orders" vo
+WHERE vo."order_id" = oi."order_id" AND vo."vendor_id" = oi."vendor_id";
@@ -0,0 +1,105 @@
+-- CreateEnum
+CREATE TYPE "ReturnStatus" AS ENUM ('requested', 'approved', 'rejected', 'cancelled', 'in_transit', 'received', 'refunded', 'inspection_failed');
+
+-- CreateEnum
+CREATE TYPE "ReturnReason" AS ENUM ('damaged', 'defective', 'wrong_item', 'not_as_described', 'size_or_fit', 'no_longer_needed', 'other');
+
+-- AlterTable
+ALTER TABLE "profiles" ADD COLUMN     "returns_accepted" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "return_window_days" INTEGER NOT NULL DEFAULT 7,
+ADD COLUMN     "return_instructions" TEXT;
+
+-- AlterTable
+ALTER TABLE "commission_ledger" ADD COLUMN     "return_request_id" UUID;
+
+-- CreateTable
+CREATE TABLE "return_requests" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "number" TEXT NOT NULL,
+    "order_id" UUID NOT NULL,
+    "vendor_order_id" UUID,
+    "vendor_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "status" "ReturnStatus" NOT NULL DEFAULT 'requested',
+    "reason" "ReturnReason" NOT NULL,
+    "comment" TEXT,
+    "evidence_urls" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "return_method" TEXT,
+    "return_instructions" TEXT,
+    "return_label_url" TEXT,
+    "return_carrier" TEXT,
+    "return_tracking_id" TEXT,
+    "rejection_reason" TEXT,
+    "inspection_notes" TEXT,
+    "refund_amount" DECIMAL(10,2),
+    "refund_id" UUID,
+    "approved_at" TIMESTAMP(3),
+    "rejected_at" TIMESTAMP(3),
+    "cancelled_at" TIMESTAMP(3),
+    "shipped_at" TIMESTAMP(3),
+    "received_at" TIMESTAMP(3),
+    "inspected_at" TIMESTAMP(3),
+    "refunded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "return_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "return_items" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "return_request_id" UUID NOT NULL,
+    "order_item_id" UUID NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "restock_quantity" INTEGER NOT NULL DEFAULT 0,
+    "condition" TEXT,
+    "refund_amount" DECIMAL(10,2),
+
+    CONSTRAINT "return_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "return_requests_number_key" ON "return_requests"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "return_requests_refund_id_key" ON "return_requests"("refund_id");
+
+-- CreateIndex
+CREATE INDEX "return_requests_order_id_idx" ON "return_requests"("order_id");
+
+-- CreateIndex
+CREATE INDEX "return_requests_vendor_id_status_idx" ON "return_requests"("vendor_id", "status");
+
+-- CreateIndex
+CREATE INDEX "return_requests_user_id_idx" ON "return_requests"("user_id");
+
+-- CreateIndex
+CREATE INDEX "return_items_order_item_id_idx" ON "return_items"("order_item_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "return_items_return_request_id_order_item_id_key" ON "return_items"("return_request_id", "order_item_id");
+
+-- CreateIndex
+CREATE INDEX "commission_ledger_return_request_id_idx" ON "commission_ledger"("return_request_id");
+
+-- AddForeignKey
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_vendor_order_id_fkey" FOREIGN KEY ("vendor_order_id") REFERENCES "vendor_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_vendor_id_fkey" FOREIGN KEY ("vendor_id") REFERENCES "profiles"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_refund_id_fkey" FOREIGN KEY ("refund_id") REFERENCES "refunds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_return_request_id_fkey" FOREIGN KEY ("return_request_id") REFERENCES "return_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "order_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "balance_due" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "cancelled_quantity" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "order_edits" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "order_id" UUID NOT NULL,
+    "vendor_order_id" UUID,
+    "edited_by" UUID NOT NULL,
+    "source" TEXT NOT NULL,
+    "reason" TEXT,
+    "changes" JSONB NOT NULL,
+    "previous_total" DECIMAL(10,2) NOT NULL,
+    "new_total" DECIMAL(10,2) NOT NULL,
+    "refund_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "balance_due" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "refund_id" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_edits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_edits_refund_id_key" ON "order_edits"("refund_id");
+
+-- CreateIndex
+CREATE INDEX "order_edits_order_id_idx" ON "order_edits"("order_id");
+
+-- AddForeignKey
+ALTER TABLE "order_edits" ADD CONSTRAINT "order_edits_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_edits" ADD CONSTRAINT "order_edits_vendor_order_id_fkey" FOREIGN KEY ("vendor_order_id") REFERENCES "vendor_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_edits" ADD CONSTRAINT "order_edits_refund_id_fkey" FOREIGN KEY ("refund_id") REFERENCES "refunds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
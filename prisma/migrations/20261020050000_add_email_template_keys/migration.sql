@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "email_templates" ADD COLUMN     "key" TEXT,
+ADD COLUMN     "language" TEXT NOT NULL DEFAULT 'en';
+
+-- Existing rows were never read; key them by id so the unique index holds
+UPDATE "email_templates" SET "key" = "id"::text WHERE "key" IS NULL;
+
+ALTER TABLE "email_templates" ALTER COLUMN "key" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_templates_key_language_key" ON "email_templates"("key", "language");
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "email_queue" ADD COLUMN     "provider_message_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "email_events" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "email_queue_id" UUID,
+    "campaign_id" UUID,
+    "email" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "url" TEXT,
+    "metadata" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "email_suppressions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "email" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "details" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_suppressions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_queue_provider_message_id_idx" ON "email_queue"("provider_message_id");
+
+-- CreateIndex
+CREATE INDEX "email_queue_to_status_idx" ON "email_queue"("to", "status");
+
+-- CreateIndex
+CREATE INDEX "email_events_campaign_id_type_created_at_idx" ON "email_events"("campaign_id", "type", "created_at");
+
+-- CreateIndex
+CREATE INDEX "email_events_email_queue_id_type_idx" ON "email_events"("email_queue_id", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_suppressions_email_key" ON "email_suppressions"("email");
+
+-- AddForeignKey
+ALTER TABLE "email_events" ADD CONSTRAINT "email_events_email_queue_id_fkey" FOREIGN KEY ("email_queue_id") REFERENCES "email_queue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_events" ADD CONSTRAINT "email_events_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "email_campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "user_two_factor" ADD COLUMN "stepUpAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "stepUpLockedUntil" TIMESTAMP(3);
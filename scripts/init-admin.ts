@@ -6,13 +6,14 @@
  * 
  * This script will:
  * 1. Check if an admin already exists
- * 2. If not, create an admin user with the provided credentials
+ * 2. If not, create a super admin with the provided credentials
  * 3. If yes, display the existing admin email
+ *
+ * Further operators are added from the admin console (Admin > Operators).
  */
 
 import { PrismaClient } from '@prisma/client';
 import { hashPassword } from '../src/lib/auth';
-import { validateSingleAdminConstraint } from '../src/services/AdminService';
 import * as readline from 'readline';
 
 const prisma = new PrismaClient();
@@ -42,8 +43,7 @@ async function initAdmin() {
       console.log('✅ Admin user already exists!');
       console.log(`   Email: ${existingAdmin.email}`);
       console.log(`   Created: ${existingAdmin.createdAt.toISOString()}`);
-      console.log('\n⚠️  Only one admin is allowed in the system.');
-      console.log('   To change the admin, manually update the database.');
+      console.log('\nℹ️  Add more operators from the admin console under Operators.');
       return;
     }
 
@@ -75,12 +75,9 @@ async function initAdmin() {
       // Update existing user to admin
       console.log('\n⚠️  User with this email already exists. Upgrading to admin...');
       
-      // Validate single admin constraint
-      await validateSingleAdminConstraint(existingUser.id, 'admin');
-      
       const updatedUser = await prisma.user.update({
         where: { email },
-        data: { role: 'admin' },
+        data: { role: 'admin', adminScope: 'super_admin' },
         include: { profile: true },
       });
 
@@ -109,6 +106,7 @@ async function initAdmin() {
           email,
           password: hashedPassword,
           role: 'admin',
+          adminScope: 'super_admin',
           emailVerified: new Date(),
           profile: {
             create: {
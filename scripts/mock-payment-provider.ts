@@ -0,0 +1,45 @@
+#!/usr/bin/env tsx
+
+/**
+ * Local Mock Payment Provider
+ *
+ * Starts an in-memory TeleBirr / CBE Birr / Awash API so local-method checkout,
+ * webhooks and refunds can be exercised without provider sandboxes.
+ *
+ * Usage:
+ *   npm run mock:payments
+ *   # or
+ *   tsx scripts/mock-payment-provider.ts [port]
+ *
+ * Then settle a payment and forward the signed callback to the webhook:
+ *   curl -X POST http://127.0.0.1:4010/_mock/complete/<reference>
+ */
+
+import { startMockProviderServer } from '../src/lib/payment-providers/mock-server';
+
+async function main() {
+  const port = parseInt(process.argv[2] || process.env.MOCK_PAYMENTS_PORT || '4010');
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  const server = await startMockProviderServer({ port, secret });
+
+  console.log(`Mock payment provider listening on ${server.url}\n`);
+  console.log('Add to .env.local:');
+  console.log(`  TELEBIRR_API_URL=${server.baseUrls.telebirr}`);
+  console.log(`  CBE_API_URL=${server.baseUrls.cbe}`);
+  console.log(`  AWASH_API_URL=${server.baseUrls.awash}`);
+  if (!secret) {
+    console.log('\nPAYMENT_WEBHOOK_SECRET is not set: callbacks will be unsigned and requests unauthenticated.');
+  }
+
+  const shutdown = async () => {
+    await server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
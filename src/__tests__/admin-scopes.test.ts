@@ -0,0 +1,188 @@
+/**
+ * Unit Tests: Operator Scopes Outside the Admin API
+ *
+ * Admin-only routes that live outside /api/admin are not covered by the
+ * middleware scope check, so they check the operator's scope themselves.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    order: {
+      findUnique: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/capture', () => ({
+  capturePayment: vi.fn(),
+  getCaptureStatus: vi.fn(),
+}));
+
+vi.mock('@/lib/vendor-payout', () => ({
+  calculateVendorPayout: vi.fn(),
+  createVendorPayout: vi.fn(),
+  markPayoutAsPaid: vi.fn(),
+  getPendingPayouts: vi.fn(),
+  getVendorPayoutSummary: vi.fn(),
+}));
+
+vi.mock('@/services/VendorOrganizationService', () => ({
+  getVendorContext: vi.fn(),
+}));
+
+vi.mock('@/services/SupportTicketService', () => ({
+  getTicket: vi.fn(),
+  updateTicket: vi.fn(),
+}));
+
+vi.mock('@/lib/logistics', () => ({
+  sendTrackingNotification: vi.fn(),
+}));
+
+vi.mock('@/services/LoyaltyService', () => ({
+  awardPointsForPurchase: vi.fn(),
+}));
+
+vi.mock('@/services/VendorOrderService', () => ({
+  applyOrderStatusToVendorOrders: vi.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { generateToken, hasAdminPermission } from '@/lib/auth';
+import { capturePayment } from '@/lib/capture';
+import { markPayoutAsPaid } from '@/lib/vendor-payout';
+import { updateTicket } from '@/services/SupportTicketService';
+import { POST as capturePost } from '../../app/api/payments/capture/route';
+import { PATCH as payoutsPatch } from '../../app/api/vendors/payouts/route';
+import { PATCH as ticketPatch } from '../../app/api/support/tickets/[id]/route';
+import { PUT as orderStatusPut } from '../../app/api/orders/[orderId]/status/route';
+import { GET as analyticsOverviewGet } from '../../app/api/analytics/overview/route';
+
+const ORDER_ID = '4b0f3a9e-8f1e-4d8a-9a53-0f3c1d2e7b61';
+const PAYOUT_ID = '9c2d1e4f-3a5b-4c6d-8e7f-1a2b3c4d5e6f';
+
+function tokenFor(adminScope: string | null) {
+  vi.mocked(prisma.user.findUnique).mockResolvedValue({ role: 'admin', adminScope } as any);
+  return generateToken({ userId: 'op-1', email: 'op@minalesh.et', role: 'admin', adminScope });
+}
+
+function jsonRequest(url: string, method: string, token: string, body?: unknown) {
+  return new Request(url, {
+    method,
+    headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('Operator scopes outside the admin API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.order.findUnique).mockResolvedValue({
+      id: ORDER_ID,
+      userId: 'customer-1',
+      status: 'paid',
+      orderNumber: 'MIN-1',
+      totalAmount: 100,
+    } as any);
+  });
+
+  describe('hasAdminPermission', () => {
+    it('checks the operator scope on the token', () => {
+      expect(hasAdminPermission({ role: 'admin', adminScope: 'finance' }, 'finance')).toBe(true);
+      expect(hasAdminPermission({ role: 'admin', adminScope: 'support_agent' }, 'finance')).toBe(false);
+      expect(hasAdminPermission({ role: 'admin', adminScope: 'support_agent' }, ['support', 'finance'])).toBe(true);
+      expect(hasAdminPermission({ role: 'vendor', adminScope: null }, 'catalog')).toBe(false);
+    });
+
+    it('treats admins without a scope as super admins', () => {
+      expect(hasAdminPermission({ role: 'admin' }, 'settings')).toBe(true);
+    });
+  });
+
+  it('denies a support agent capturing payment for another customer\'s order', async () => {
+    const res = await capturePost(
+      jsonRequest('http://localhost/api/payments/capture', 'POST', tokenFor('support_agent'), { orderId: ORDER_ID })
+    );
+
+    expect(res.status).toBe(403);
+    expect(capturePayment).not.toHaveBeenCalled();
+  });
+
+  it('lets a finance operator capture payment', async () => {
+    vi.mocked(capturePayment).mockResolvedValue({ success: true, captureId: 'cap-1', capturedAmount: 100 } as any);
+
+    const res = await capturePost(
+      jsonRequest('http://localhost/api/payments/capture', 'POST', tokenFor('finance'), { orderId: ORDER_ID })
+    );
+
+    expect(res.status).toBe(200);
+  });
+
+  it('denies a catalog moderator marking vendor payouts paid', async () => {
+    const res = await payoutsPatch(
+      jsonRequest('http://localhost/api/vendors/payouts', 'PATCH', tokenFor('catalog_moderator'), { payoutId: PAYOUT_ID })
+    );
+
+    expect(res.status).toBe(403);
+    await expect(res.json()).resolves.toMatchObject({ errorCode: 'ADMIN_PERMISSION_DENIED' });
+    expect(markPayoutAsPaid).not.toHaveBeenCalled();
+  });
+
+  it('denies a finance operator updating support tickets', async () => {
+    const res = await ticketPatch(
+      jsonRequest('http://localhost/api/support/tickets/t-1', 'PATCH', tokenFor('finance'), { status: 'resolved' }),
+      { params: { id: 't-1' } }
+    );
+
+    expect(res.status).toBe(403);
+    expect(updateTicket).not.toHaveBeenCalled();
+  });
+
+  it('denies a catalog moderator changing another customer\'s order status', async () => {
+    const res = await orderStatusPut(
+      jsonRequest(`http://localhost/api/orders/${ORDER_ID}/status`, 'PUT', tokenFor('catalog_moderator'), {
+        status: 'confirmed',
+      }),
+      { params: { orderId: ORDER_ID } }
+    );
+
+    expect(res.status).toBe(403);
+  });
+
+  it('uses the operator\'s current scope rather than the one on the token', async () => {
+    const token = tokenFor('finance');
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ role: 'admin', adminScope: 'support_agent' } as any);
+
+    const res = await capturePost(
+      jsonRequest('http://localhost/api/payments/capture', 'POST', token, { orderId: ORDER_ID })
+    );
+
+    expect(res.status).toBe(403);
+    expect(capturePayment).not.toHaveBeenCalled();
+  });
+
+  it('denies an operator whose access was revoked', async () => {
+    const token = tokenFor('finance');
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ role: 'customer', adminScope: null } as any);
+
+    const res = await capturePost(
+      jsonRequest('http://localhost/api/payments/capture', 'POST', token, { orderId: ORDER_ID })
+    );
+
+    expect(res.status).toBe(403);
+    expect(capturePayment).not.toHaveBeenCalled();
+  });
+
+  it('denies a support agent the analytics overview', async () => {
+    const res = await analyticsOverviewGet(
+      jsonRequest('http://localhost/api/analytics/overview', 'GET', tokenFor('support_agent')) as any
+    );
+
+    expect(res.status).toBe(403);
+  });
+});
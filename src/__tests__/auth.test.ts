@@ -90,7 +90,7 @@ describe('Authentication Module', () => {
       role: 'customer' as UserRole,
     };
 
-    it('should generate a valid JWT token', () => {
+    it('should generate a valid JWT token', async () => {
       const token = generateToken(testPayload);
 
       expect(token).toBeDefined();
@@ -98,7 +98,7 @@ describe('Authentication Module', () => {
       expect(token.split('.')).toHaveLength(3); // JWT has 3 parts
     });
 
-    it('should generate a valid refresh token', () => {
+    it('should generate a valid refresh token', async () => {
       const token = generateRefreshToken(testPayload);
 
       expect(token).toBeDefined();
@@ -106,7 +106,7 @@ describe('Authentication Module', () => {
       expect(token.split('.')).toHaveLength(3);
     });
 
-    it('should generate different tokens for different payloads', () => {
+    it('should generate different tokens for different payloads', async () => {
       const payload1 = { ...testPayload, userId: 'user-1' };
       const payload2 = { ...testPayload, userId: 'user-2' };
 
@@ -116,7 +116,7 @@ describe('Authentication Module', () => {
       expect(token1).not.toBe(token2);
     });
 
-    it('should generate tokens with different roles', () => {
+    it('should generate tokens with different roles', async () => {
       const customerPayload = { ...testPayload, role: 'customer' as UserRole };
       const vendorPayload = { ...testPayload, role: 'vendor' as UserRole };
       const adminPayload = { ...testPayload, role: 'admin' as UserRole };
@@ -138,7 +138,7 @@ describe('Authentication Module', () => {
       role: 'customer' as UserRole,
     };
 
-    it('should verify a valid token', () => {
+    it('should verify a valid token', async () => {
       const token = generateToken(testPayload);
       const verified = verifyToken(token);
 
@@ -148,14 +148,14 @@ describe('Authentication Module', () => {
       expect(verified?.role).toBe(testPayload.role);
     });
 
-    it('should reject an invalid token', () => {
+    it('should reject an invalid token', async () => {
       const invalidToken = 'invalid.token.here';
       const verified = verifyToken(invalidToken);
 
       expect(verified).toBeNull();
     });
 
-    it('should reject a tampered token', () => {
+    it('should reject a tampered token', async () => {
       const token = generateToken(testPayload);
       const tamperedToken = token.substring(0, token.length - 5) + 'xxxxx';
       const verified = verifyToken(tamperedToken);
@@ -163,13 +163,13 @@ describe('Authentication Module', () => {
       expect(verified).toBeNull();
     });
 
-    it('should reject empty token', () => {
+    it('should reject empty token', async () => {
       const verified = verifyToken('');
 
       expect(verified).toBeNull();
     });
 
-    it('should verify refresh token', () => {
+    it('should verify refresh token', async () => {
       const token = generateRefreshToken(testPayload);
       const verified = verifyToken(token);
 
@@ -179,7 +179,7 @@ describe('Authentication Module', () => {
   });
 
   describe('Token Extraction from Request', () => {
-    it('should extract token from valid authorization header', () => {
+    it('should extract token from valid authorization header', async () => {
       const mockRequest = {
         headers: {
           get: (name: string) => name === 'authorization' ? 'Bearer valid-token-123' : null,
@@ -190,7 +190,7 @@ describe('Authentication Module', () => {
       expect(token).toBe('valid-token-123');
     });
 
-    it('should return null for missing authorization header', () => {
+    it('should return null for missing authorization header', async () => {
       const mockRequest = {
         headers: {
           get: () => null,
@@ -201,7 +201,7 @@ describe('Authentication Module', () => {
       expect(token).toBeNull();
     });
 
-    it('should return null for non-Bearer authorization', () => {
+    it('should return null for non-Bearer authorization', async () => {
       const mockRequest = {
         headers: {
           get: (name: string) => name === 'authorization' ? 'Basic base64credentials' : null,
@@ -212,7 +212,7 @@ describe('Authentication Module', () => {
       expect(token).toBeNull();
     });
 
-    it('should return null for empty authorization header', () => {
+    it('should return null for empty authorization header', async () => {
       const mockRequest = {
         headers: {
           get: (name: string) => name === 'authorization' ? '' : null,
@@ -223,7 +223,7 @@ describe('Authentication Module', () => {
       expect(token).toBeNull();
     });
 
-    it('should handle Bearer with extra spaces', () => {
+    it('should handle Bearer with extra spaces', async () => {
       const mockRequest = {
         headers: {
           get: (name: string) => name === 'authorization' ? 'Bearer   token-with-spaces' : null,
@@ -242,99 +242,99 @@ describe('Authentication Module', () => {
       role: 'customer' as UserRole,
     };
 
-    it('should return payload for valid token', () => {
+    it('should return payload for valid token', async () => {
       const token = generateToken(testPayload);
-      const user = getUserFromToken(token);
+      const user = await getUserFromToken(token);
 
       expect(user).not.toBeNull();
       expect(user?.userId).toBe(testPayload.userId);
       expect(user?.email).toBe(testPayload.email);
     });
 
-    it('should return null for null token', () => {
-      const user = getUserFromToken(null);
+    it('should return null for null token', async () => {
+      const user = await getUserFromToken(null);
       expect(user).toBeNull();
     });
 
-    it('should return null for invalid token', () => {
-      const user = getUserFromToken('invalid-token');
+    it('should return null for invalid token', async () => {
+      const user = await getUserFromToken('invalid-token');
       expect(user).toBeNull();
     });
   });
 
   describe('Role Checking', () => {
     describe('hasRole', () => {
-      it('should return true for matching single role', () => {
+      it('should return true for matching single role', async () => {
         expect(hasRole('admin' as UserRole, 'admin' as UserRole)).toBe(true);
         expect(hasRole('vendor' as UserRole, 'vendor' as UserRole)).toBe(true);
         expect(hasRole('customer' as UserRole, 'customer' as UserRole)).toBe(true);
       });
 
-      it('should return false for non-matching single role', () => {
+      it('should return false for non-matching single role', async () => {
         expect(hasRole('customer' as UserRole, 'admin' as UserRole)).toBe(false);
         expect(hasRole('vendor' as UserRole, 'admin' as UserRole)).toBe(false);
         expect(hasRole('customer' as UserRole, 'vendor' as UserRole)).toBe(false);
       });
 
-      it('should return true for role in array', () => {
+      it('should return true for role in array', async () => {
         expect(hasRole('admin' as UserRole, ['admin', 'vendor'] as UserRole[])).toBe(true);
         expect(hasRole('vendor' as UserRole, ['admin', 'vendor'] as UserRole[])).toBe(true);
       });
 
-      it('should return false for role not in array', () => {
+      it('should return false for role not in array', async () => {
         expect(hasRole('customer' as UserRole, ['admin', 'vendor'] as UserRole[])).toBe(false);
       });
     });
 
     describe('isAdmin', () => {
-      it('should return true for admin role', () => {
+      it('should return true for admin role', async () => {
         expect(isAdmin('admin' as UserRole)).toBe(true);
       });
 
-      it('should return false for non-admin roles', () => {
+      it('should return false for non-admin roles', async () => {
         expect(isAdmin('vendor' as UserRole)).toBe(false);
         expect(isAdmin('customer' as UserRole)).toBe(false);
       });
     });
 
     describe('isVendor', () => {
-      it('should return true for vendor role', () => {
+      it('should return true for vendor role', async () => {
         expect(isVendor('vendor' as UserRole)).toBe(true);
       });
 
-      it('should return true for admin role', () => {
+      it('should return true for admin role', async () => {
         expect(isVendor('admin' as UserRole)).toBe(true);
       });
 
-      it('should return false for customer role', () => {
+      it('should return false for customer role', async () => {
         expect(isVendor('customer' as UserRole)).toBe(false);
       });
     });
 
     describe('isCustomer', () => {
-      it('should return true for customer role', () => {
+      it('should return true for customer role', async () => {
         expect(isCustomer('customer' as UserRole)).toBe(true);
       });
 
-      it('should return true for vendor role', () => {
+      it('should return true for vendor role', async () => {
         expect(isCustomer('vendor' as UserRole)).toBe(true);
       });
 
-      it('should return true for admin role', () => {
+      it('should return true for admin role', async () => {
         expect(isCustomer('admin' as UserRole)).toBe(true);
       });
     });
   });
 
   describe('Random Token Generation', () => {
-    it('should generate a non-empty token', () => {
+    it('should generate a non-empty token', async () => {
       const token = generateRandomToken();
 
       expect(token).toBeDefined();
       expect(token.length).toBeGreaterThan(0);
     });
 
-    it('should generate different tokens on each call', () => {
+    it('should generate different tokens on each call', async () => {
       const token1 = generateRandomToken();
       const token2 = generateRandomToken();
       const token3 = generateRandomToken();
@@ -344,13 +344,13 @@ describe('Authentication Module', () => {
       expect(token1).not.toBe(token3);
     });
 
-    it('should generate tokens without hyphens', () => {
+    it('should generate tokens without hyphens', async () => {
       const token = generateRandomToken();
 
       expect(token).not.toContain('-');
     });
 
-    it('should generate tokens of consistent length', () => {
+    it('should generate tokens of consistent length', async () => {
       const tokens = Array.from({ length: 10 }, () => generateRandomToken());
       const lengths = tokens.map(t => t.length);
       const uniqueLengths = [...new Set(lengths)];
@@ -0,0 +1,166 @@
+/**
+ * Unit Tests: Auto Reorder Engine
+ *
+ * Tests reorder point evaluation, order quantity calculation and
+ * draft purchase-order generation from AutoReorderRule records.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const mockPrisma: any = {
+    autoReorderRule: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    purchaseOrder: {
+      findMany: vi.fn(),
+    },
+    notification: {
+      create: vi.fn(() => Promise.resolve({})),
+    },
+    $transaction: vi.fn(),
+  };
+  mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockPrisma));
+  return { default: mockPrisma };
+});
+
+vi.mock('@/services/InventoryService', () => ({
+  getAvailableStock: vi.fn(),
+}));
+
+vi.mock('@/services/PurchaseOrderService', () => ({
+  createPurchaseOrder: vi.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { getAvailableStock } from '@/services/InventoryService';
+import { createPurchaseOrder } from '@/services/PurchaseOrderService';
+import {
+  shouldReorder,
+  calculateReorderQuantity,
+  sumOnOrderQuantities,
+  runAutoReorder,
+} from '@/services/AutoReorderService';
+
+const rule = {
+  id: 'rule-1',
+  vendorId: 'vendor-user-1',
+  productId: 'prod-1',
+  warehouseId: 'wh-1',
+  reorderPoint: 20,
+  reorderQuantity: 50,
+  leadTimeDays: 7,
+  safetyStock: 10,
+  minOrderQty: null,
+  maxOrderQty: null,
+  supplierId: null,
+  supplierName: 'Addis Wholesale',
+  unitCost: 12.5,
+  isActive: true,
+};
+
+describe('Auto Reorder Engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('shouldReorder', () => {
+    it('should fire only when position is below the reorder point', () => {
+      expect(shouldReorder(rule, 19)).toBe(true);
+      expect(shouldReorder(rule, 20)).toBe(false);
+      expect(shouldReorder(rule, 35)).toBe(false);
+    });
+  });
+
+  describe('calculateReorderQuantity', () => {
+    it('should use the reorder quantity when it covers the shortfall', () => {
+      expect(calculateReorderQuantity(rule, 15)).toBe(50);
+    });
+
+    it('should top up to reorder point plus safety stock after a big drop', () => {
+      expect(calculateReorderQuantity({ ...rule, reorderQuantity: 5 }, -10)).toBe(40);
+    });
+
+    it('should clamp to min and max order quantities', () => {
+      expect(calculateReorderQuantity({ ...rule, minOrderQty: 100 }, 15)).toBe(100);
+      expect(calculateReorderQuantity({ ...rule, maxOrderQty: 30 }, 15)).toBe(30);
+    });
+  });
+
+  describe('sumOnOrderQuantities', () => {
+    it('should count only outstanding quantities', () => {
+      const onOrder = sumOnOrderQuantities([
+        { items: [{ productId: 'prod-1', quantity: 10, receivedQuantity: 4 }] },
+        { items: [{ productId: 'prod-1', quantity: 5, receivedQuantity: 0 }] },
+      ]);
+      expect(onOrder.get('prod-1')).toBe(11);
+    });
+  });
+
+  describe('runAutoReorder', () => {
+    it('should draft an auto-generated PO when stock is below the reorder point', async () => {
+      const now = new Date('2026-10-19T05:00:00Z');
+      (prisma.autoReorderRule.findMany as any).mockResolvedValue([rule]);
+      (prisma.purchaseOrder.findMany as any).mockResolvedValue([]);
+      (getAvailableStock as any).mockResolvedValue(8);
+      (createPurchaseOrder as any).mockResolvedValue({ id: 'po-1', poNumber: 'PO-2026-001' });
+
+      const result = await runAutoReorder(now);
+
+      expect(result).toEqual({
+        rulesEvaluated: 1,
+        rulesTriggered: 1,
+        purchaseOrdersCreated: 1,
+        errors: 0,
+      });
+      expect(createPurchaseOrder).toHaveBeenCalledWith(
+        'vendor-user-1',
+        expect.objectContaining({
+          supplierName: 'Addis Wholesale',
+          warehouseId: 'wh-1',
+          autoGenerated: true,
+          expectedDelivery: new Date('2026-10-26T05:00:00Z'),
+          items: [{ productId: 'prod-1', quantity: 50, unitPrice: 12.5 }],
+        }),
+        expect.anything()
+      );
+      expect(prisma.autoReorderRule.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['rule-1'] } },
+        data: { lastTriggered: now },
+      });
+    });
+
+    it('should not reorder when enough stock is already on order', async () => {
+      (prisma.autoReorderRule.findMany as any).mockResolvedValue([rule]);
+      (prisma.purchaseOrder.findMany as any).mockResolvedValue([
+        {
+          vendorId: 'vendor-user-1',
+          items: [{ productId: 'prod-1', quantity: 50, receivedQuantity: 0 }],
+        },
+      ]);
+      (getAvailableStock as any).mockResolvedValue(8);
+
+      const result = await runAutoReorder();
+
+      expect(result.rulesTriggered).toBe(0);
+      expect(createPurchaseOrder).not.toHaveBeenCalled();
+    });
+
+    it('should group rules for the same vendor, warehouse and supplier into one PO', async () => {
+      (prisma.autoReorderRule.findMany as any).mockResolvedValue([
+        rule,
+        { ...rule, id: 'rule-2', productId: 'prod-2', leadTimeDays: 14 },
+      ]);
+      (prisma.purchaseOrder.findMany as any).mockResolvedValue([]);
+      (getAvailableStock as any).mockResolvedValue(0);
+      (createPurchaseOrder as any).mockResolvedValue({ id: 'po-1', poNumber: 'PO-2026-001' });
+
+      const result = await runAutoReorder();
+
+      expect(result.purchaseOrdersCreated).toBe(1);
+      const input = (createPurchaseOrder as any).mock.calls[0][1];
+      expect(input.items).toHaveLength(2);
+    });
+  });
+});
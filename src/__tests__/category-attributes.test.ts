@@ -0,0 +1,174 @@
+/**
+ * Unit Tests: Category Attributes
+ *
+ * Tests attribute schema inheritance from parent categories and how
+ * attributes are created, updated and removed.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    category: {
+      findUnique: vi.fn(),
+    },
+    categoryAttribute: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    auditLog: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/cache', () => ({
+  invalidateCacheByTag: vi.fn(() => Promise.resolve(0)),
+}));
+
+import prisma from '@/lib/prisma';
+import { invalidateCacheByTag } from '@/lib/cache';
+import {
+  createCategoryAttribute,
+  deleteCategoryAttribute,
+  getCategoryAttributes,
+  updateCategoryAttribute,
+} from '@/services/CategoryAttributeService';
+
+const admin = { userId: 'admin-1' };
+
+const attribute = (overrides: Record<string, unknown>) => ({
+  id: 'a1',
+  categoryId: 'phones',
+  key: 'storage',
+  label: 'Storage',
+  type: 'number',
+  unit: 'GB',
+  isFilterable: true,
+  sortOrder: 0,
+  ...overrides,
+});
+
+describe('Category Attributes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getCategoryAttributes', () => {
+    beforeEach(() => {
+      const parents: Record<string, string | null> = { phones: 'electronics', electronics: null };
+      vi.mocked(prisma.category.findUnique).mockImplementation((({ where }: any) =>
+        Promise.resolve(where.id in parents ? { parentId: parents[where.id] } : null)) as any);
+    });
+
+    it('includes attributes inherited from parent categories', async () => {
+      vi.mocked(prisma.categoryAttribute.findMany).mockResolvedValue([
+        attribute({ id: 'a1', categoryId: 'phones', key: 'storage', sortOrder: 1 }),
+        attribute({ id: 'a2', categoryId: 'electronics', key: 'brand color', label: 'Color', type: 'text', unit: null, sortOrder: 0 }),
+      ] as any);
+
+      const attributes = await getCategoryAttributes('phones');
+
+      expect(attributes.map((a) => [a.key, a.inherited])).toEqual([
+        ['brand color', true],
+        ['storage', false],
+      ]);
+      const findCall = vi.mocked(prisma.categoryAttribute.findMany).mock.calls[0][0] as any;
+      expect(findCall.where.categoryId).toEqual({ in: ['phones', 'electronics'] });
+    });
+
+    it('lets a subcategory redefine a parent attribute', async () => {
+      vi.mocked(prisma.categoryAttribute.findMany).mockResolvedValue([
+        attribute({ id: 'parent', categoryId: 'electronics', label: 'Capacity', unit: 'MB' }),
+        attribute({ id: 'child', categoryId: 'phones', label: 'Storage', unit: 'GB' }),
+      ] as any);
+
+      const attributes = await getCategoryAttributes('phones');
+
+      expect(attributes).toHaveLength(1);
+      expect(attributes[0]).toMatchObject({ id: 'child', unit: 'GB', inherited: false });
+    });
+
+    it('stops at a loop in the category tree', async () => {
+      vi.mocked(prisma.category.findUnique).mockResolvedValue({ parentId: 'phones' } as any);
+      vi.mocked(prisma.categoryAttribute.findMany).mockResolvedValue([]);
+
+      await getCategoryAttributes('phones');
+
+      expect(prisma.category.findUnique).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createCategoryAttribute', () => {
+    it('stores the key lower-cased and records the change', async () => {
+      vi.mocked(prisma.category.findUnique).mockResolvedValue({ id: 'phones' } as any);
+      vi.mocked(prisma.categoryAttribute.create).mockResolvedValue(attribute({}) as any);
+
+      await createCategoryAttribute(admin, 'phones', { key: ' Storage ', label: 'Storage', type: 'number', unit: 'GB' });
+
+      const createCall = vi.mocked(prisma.categoryAttribute.create).mock.calls[0][0] as any;
+      expect(createCall.data).toMatchObject({ categoryId: 'phones', key: 'storage', type: 'number', unit: 'GB' });
+      expect(invalidateCacheByTag).toHaveBeenCalledWith('facets');
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'category_attribute.create', actorId: 'admin-1' }),
+      });
+    });
+
+    it('rejects a key the category already has', async () => {
+      vi.mocked(prisma.category.findUnique).mockResolvedValue({ id: 'phones' } as any);
+      vi.mocked(prisma.categoryAttribute.create).mockRejectedValue({ code: 'P2002' });
+
+      await expect(
+        createCategoryAttribute(admin, 'phones', { key: 'storage', label: 'Storage' })
+      ).rejects.toMatchObject({ statusCode: 409, errorCode: 'ATTRIBUTE_EXISTS' });
+    });
+
+    it('rejects an unknown category', async () => {
+      vi.mocked(prisma.category.findUnique).mockResolvedValue(null);
+
+      await expect(
+        createCategoryAttribute(admin, 'missing', { key: 'storage', label: 'Storage' })
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(prisma.categoryAttribute.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updating and removing', () => {
+    it('only changes attributes of the given category', async () => {
+      vi.mocked(prisma.categoryAttribute.findFirst).mockResolvedValue(null);
+
+      await expect(
+        updateCategoryAttribute(admin, 'laptops', 'a1', { label: 'Disk' })
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(prisma.categoryAttribute.findFirst).toHaveBeenCalledWith({ where: { id: 'a1', categoryId: 'laptops' } });
+      expect(prisma.categoryAttribute.update).not.toHaveBeenCalled();
+    });
+
+    it('updates only the fields that were sent', async () => {
+      vi.mocked(prisma.categoryAttribute.findFirst).mockResolvedValue(attribute({}) as any);
+      vi.mocked(prisma.categoryAttribute.update).mockResolvedValue(attribute({ isFilterable: false }) as any);
+
+      await updateCategoryAttribute(admin, 'phones', 'a1', { isFilterable: false });
+
+      const updateCall = vi.mocked(prisma.categoryAttribute.update).mock.calls[0][0] as any;
+      expect(updateCall.data).toEqual({ isFilterable: false });
+    });
+
+    it('deletes the attribute and records what it was', async () => {
+      vi.mocked(prisma.categoryAttribute.findFirst).mockResolvedValue(attribute({}) as any);
+
+      await deleteCategoryAttribute(admin, 'phones', 'a1');
+
+      expect(prisma.categoryAttribute.delete).toHaveBeenCalledWith({ where: { id: 'a1' } });
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'category_attribute.delete',
+          changes: { categoryId: 'phones', key: 'storage' },
+        }),
+      });
+    });
+  });
+});
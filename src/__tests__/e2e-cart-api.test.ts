@@ -50,7 +50,7 @@ describe('E2E: Cart API', () => {
     it('should add item to anonymous cart', async () => {
       // Setup: Anonymous user (no auth token)
       vi.mocked(getTokenFromRequest).mockReturnValue(null);
-      vi.mocked(getUserFromToken).mockReturnValue(null);
+      vi.mocked(getUserFromToken).mockResolvedValue(null);
 
       const mockProduct = {
         id: 'prod-1',
@@ -104,7 +104,7 @@ describe('E2E: Cart API', () => {
 
     it('should get anonymous cart items', async () => {
       vi.mocked(getTokenFromRequest).mockReturnValue(null);
-      vi.mocked(getUserFromToken).mockReturnValue(null);
+      vi.mocked(getUserFromToken).mockResolvedValue(null);
 
       const mockCartItems = [
         {
@@ -153,7 +153,7 @@ describe('E2E: Cart API', () => {
 
     beforeEach(() => {
       vi.mocked(getTokenFromRequest).mockReturnValue('valid-token');
-      vi.mocked(getUserFromToken).mockReturnValue(mockUser as any);
+      vi.mocked(getUserFromToken).mockResolvedValue(mockUser as any);
     });
 
     it('should add item to authenticated user cart', async () => {
@@ -177,7 +177,7 @@ describe('E2E: Cart API', () => {
       vi.mocked(prisma.cart.create).mockResolvedValue(mockCartItem as any);
 
       // Step 1: Verify user authentication
-      const user = getUserFromToken(getTokenFromRequest({} as any));
+      const user = await getUserFromToken(getTokenFromRequest({} as any));
       expect(user?.userId).toBe('user-1');
 
       // Step 2: Product has sufficient stock
@@ -418,7 +418,7 @@ describe('E2E: Cart API', () => {
       // Should return error even if product has enough stock
     });
 
-    it('should treat same product with different variants as separate items', () => {
+    it('should treat same product with different variants as separate items', async () => {
       // This test validates the logic without database calls
       const cartItems = [
         { id: 'cart-1', productId: 'prod-1', variantId: 'var-1', quantity: 2 },
@@ -433,7 +433,7 @@ describe('E2E: Cart API', () => {
   });
 
   describe('Cart Price Calculation', () => {
-    it('should use sale price when available', () => {
+    it('should use sale price when available', async () => {
       const item = {
         product: { price: 100, salePrice: 80 },
         variant: null,
@@ -447,7 +447,7 @@ describe('E2E: Cart API', () => {
       expect(total).toBe(160);
     });
 
-    it('should use variant price when variant is selected', () => {
+    it('should use variant price when variant is selected', async () => {
       const item = {
         product: { price: 100, salePrice: 80 },
         variant: { price: 120, salePrice: 100 },
@@ -465,7 +465,7 @@ describe('E2E: Cart API', () => {
       expect(total).toBe(100);
     });
 
-    it('should calculate cart subtotal correctly', () => {
+    it('should calculate cart subtotal correctly', async () => {
       const items = [
         { product: { price: 50 }, variant: null, quantity: 3 }, // 150
         { product: { price: 100, salePrice: 75 }, variant: null, quantity: 2 }, // 150
@@ -484,7 +484,7 @@ describe('E2E: Cart API', () => {
       expect(subtotal).toBe(330);
     });
 
-    it('should calculate item count correctly', () => {
+    it('should calculate item count correctly', async () => {
       const items = [
         { quantity: 3 },
         { quantity: 2 },
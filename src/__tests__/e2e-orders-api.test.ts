@@ -64,8 +64,8 @@ describe('E2E: Orders API', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(getTokenFromRequest).mockReturnValue('valid-token');
-    vi.mocked(getUserFromToken).mockReturnValue(mockUser as any);
-    vi.mocked(withAuth).mockReturnValue({ error: null, payload: mockUser as any });
+    vi.mocked(getUserFromToken).mockResolvedValue(mockUser as any);
+    vi.mocked(withAuth).mockResolvedValue({ error: null, payload: mockUser as any });
   });
 
   describe('Order Creation Flow', () => {
@@ -96,7 +96,7 @@ describe('E2E: Orders API', () => {
       vi.mocked(prisma.user.findUnique).mockResolvedValue({ email: 'user@example.com' } as any);
 
       // Step 1: Verify authentication
-      const authResult = withAuth({} as any);
+      const authResult = await withAuth({} as any);
       expect(authResult.error).toBeNull();
       expect(authResult.payload?.userId).toBe('user-1');
 
@@ -201,7 +201,7 @@ describe('E2E: Orders API', () => {
       // Should return error: 'Insufficient stock'
     });
 
-    it('should calculate order totals correctly', () => {
+    it('should calculate order totals correctly', async () => {
       const items = [
         { id: 'prod-1', quantity: 2, price: 100 }, // 200
         { id: 'prod-2', quantity: 3, price: 50 },  // 150
@@ -308,7 +308,7 @@ describe('E2E: Orders API', () => {
       expect(order.status).toBe('paid');
     });
 
-    it('should validate status transitions', () => {
+    it('should validate status transitions', async () => {
       const validStatuses = [
         'pending', 'paid', 'confirmed', 'processing',
         'fulfilled', 'shipped', 'delivered', 'cancelled', 'refunded'
@@ -398,7 +398,7 @@ describe('E2E: Orders API', () => {
   });
 
   describe('Order Validation', () => {
-    it('should validate minimum order items', () => {
+    it('should validate minimum order items', async () => {
       const orderWithItems = [{ id: 'prod-1', quantity: 1 }];
       const orderWithoutItems: any[] = [];
 
@@ -407,7 +407,7 @@ describe('E2E: Orders API', () => {
       // Empty order should be rejected
     });
 
-    it('should validate item quantities', () => {
+    it('should validate item quantities', async () => {
       const validQuantities = [1, 5, 100];
       const invalidQuantities = [0, -1, 1000]; // max is 999
 
@@ -421,7 +421,7 @@ describe('E2E: Orders API', () => {
       expect(invalidQuantities[2]).toBeGreaterThan(999); // Over max is invalid
     });
 
-    it('should validate payment method', () => {
+    it('should validate payment method', async () => {
       const validMethods = ['COD', 'TeleBirr', 'CBE', 'Awash', 'BankTransfer', 'Other'];
       const invalidMethod = 'CreditCard';
 
@@ -435,15 +435,15 @@ describe('E2E: Orders API', () => {
 
   describe('Authorization', () => {
     it('should require authentication for order operations', async () => {
-      vi.mocked(withAuth).mockReturnValue({ error: new Response('Unauthorized', { status: 401 }) as any, payload: null });
+      vi.mocked(withAuth).mockResolvedValue({ error: new Response('Unauthorized', { status: 401 }) as any, payload: null });
 
-      const authResult = withAuth({} as any);
+      const authResult = await withAuth({} as any);
       expect(authResult.error).not.toBeNull();
       expect(authResult.payload).toBeNull();
     });
 
     it('should allow users to only see their own orders', async () => {
-      const authResult = withAuth({} as any);
+      const authResult = await withAuth({} as any);
       expect(authResult.payload?.userId).toBe('user-1');
 
       // Orders query should filter by userId
@@ -500,7 +500,7 @@ describe('E2E: Orders API', () => {
       // Should return: { success: false, error: 'An error occurred' }
     });
 
-    it('should handle validation errors', () => {
+    it('should handle validation errors', async () => {
       const invalidOrder = {
         items: [], // Empty items
         paymentMethod: 'InvalidMethod',
@@ -61,7 +61,7 @@ describe('E2E: Products API', () => {
 
     beforeEach(() => {
       vi.mocked(getTokenFromRequest).mockReturnValue('valid-token');
-      vi.mocked(getUserFromToken).mockReturnValue(mockVendorUser as any);
+      vi.mocked(getUserFromToken).mockResolvedValue(mockVendorUser as any);
       vi.mocked(prisma.profile.findUnique).mockResolvedValue(mockVendorProfile as any);
     });
 
@@ -88,7 +88,7 @@ describe('E2E: Products API', () => {
       vi.mocked(prisma.product.create).mockResolvedValue(createdProduct as any);
 
       // Step 1: Verify user is authenticated
-      const user = getUserFromToken(getTokenFromRequest({} as any));
+      const user = await getUserFromToken(getTokenFromRequest({} as any));
       expect(user?.userId).toBe('vendor-user-1');
 
       // Step 2: Verify user is a vendor
@@ -120,7 +120,7 @@ describe('E2E: Products API', () => {
       vi.mocked(prisma.product.findMany).mockResolvedValue(mockProducts as any);
 
       // Step 1: Verify authentication
-      const user = getUserFromToken(getTokenFromRequest({} as any));
+      const user = await getUserFromToken(getTokenFromRequest({} as any));
       expect(user).not.toBeNull();
 
       // Step 2: Verify vendor profile
@@ -343,9 +343,9 @@ describe('E2E: Products API', () => {
   describe('Authorization Checks', () => {
     it('should reject unauthenticated requests for product creation', async () => {
       vi.mocked(getTokenFromRequest).mockReturnValue(null);
-      vi.mocked(getUserFromToken).mockReturnValue(null);
+      vi.mocked(getUserFromToken).mockResolvedValue(null);
 
-      const user = getUserFromToken(getTokenFromRequest({} as any));
+      const user = await getUserFromToken(getTokenFromRequest({} as any));
       expect(user).toBeNull();
       // Should return 401 Unauthorized
     });
@@ -358,14 +358,14 @@ describe('E2E: Products API', () => {
       };
 
       vi.mocked(getTokenFromRequest).mockReturnValue('valid-token');
-      vi.mocked(getUserFromToken).mockReturnValue(customerUser as any);
+      vi.mocked(getUserFromToken).mockResolvedValue(customerUser as any);
       vi.mocked(prisma.profile.findUnique).mockResolvedValue({
         id: 'profile-1',
         userId: 'customer-1',
         isVendor: false,
       } as any);
 
-      const user = getUserFromToken(getTokenFromRequest({} as any));
+      const user = await getUserFromToken(getTokenFromRequest({} as any));
       const profile = await prisma.profile.findUnique({
         where: { userId: user!.userId },
       });
@@ -382,16 +382,16 @@ describe('E2E: Products API', () => {
       };
 
       vi.mocked(getTokenFromRequest).mockReturnValue('valid-token');
-      vi.mocked(getUserFromToken).mockReturnValue(adminUser as any);
+      vi.mocked(getUserFromToken).mockResolvedValue(adminUser as any);
 
-      const user = getUserFromToken(getTokenFromRequest({} as any));
+      const user = await getUserFromToken(getTokenFromRequest({} as any));
       expect(user?.role).toBe('admin');
       // Admin can manage any product regardless of ownership
     });
   });
 
   describe('Product Validation', () => {
-    it('should validate required fields', () => {
+    it('should validate required fields', async () => {
       const invalidProducts = [
         { name: '', price: 100, stockQuantity: 10 }, // Empty name
         { name: 'Product', price: -50, stockQuantity: 10 }, // Negative price
@@ -407,7 +407,7 @@ describe('E2E: Products API', () => {
       }
     });
 
-    it('should validate price format', () => {
+    it('should validate price format', async () => {
       const prices = [99.99, 100, 0, 0.01];
       
       for (const price of prices) {
@@ -416,7 +416,7 @@ describe('E2E: Products API', () => {
       }
     });
 
-    it('should validate stock quantity', () => {
+    it('should validate stock quantity', async () => {
       const quantities = [0, 1, 100, 1000];
       
       for (const qty of quantities) {
@@ -425,7 +425,7 @@ describe('E2E: Products API', () => {
       }
     });
 
-    it('should validate product status', () => {
+    it('should validate product status', async () => {
       const validStatuses = ['draft', 'published', 'archived'];
       const invalidStatus = 'invalid';
 
@@ -497,7 +497,7 @@ describe('E2E: Products API', () => {
   });
 
   describe('Product Images', () => {
-    it('should accept multiple product images', () => {
+    it('should accept multiple product images', async () => {
       const images = [
         'https://example.com/image1.jpg',
         'https://example.com/image2.jpg',
@@ -510,7 +510,7 @@ describe('E2E: Products API', () => {
       });
     });
 
-    it('should validate image URLs', () => {
+    it('should validate image URLs', async () => {
       const validUrl = 'https://example.com/image.jpg';
       const invalidUrl = 'not-a-url';
 
@@ -132,7 +132,7 @@ describe('E2E: Reviews API', () => {
       );
     });
 
-    it('should require productId parameter', () => {
+    it('should require productId parameter', async () => {
       const productId = null;
       const isValid = productId !== null && productId !== undefined;
       expect(isValid).toBe(false);
@@ -170,7 +170,7 @@ describe('E2E: Reviews API', () => {
   describe('Create Review', () => {
     beforeEach(() => {
       vi.mocked(getTokenFromRequest).mockReturnValue('valid-token');
-      vi.mocked(getUserFromToken).mockReturnValue(mockUser as any);
+      vi.mocked(getUserFromToken).mockResolvedValue(mockUser as any);
     });
 
     it('should create a new review', async () => {
@@ -192,7 +192,7 @@ describe('E2E: Reviews API', () => {
       vi.mocked(prisma.review.create).mockResolvedValue(createdReview as any);
 
       // Step 1: Verify authentication
-      const user = getUserFromToken(getTokenFromRequest({} as any));
+      const user = await getUserFromToken(getTokenFromRequest({} as any));
       expect(user).not.toBeNull();
       expect(user?.userId).toBe('user-1');
 
@@ -223,14 +223,14 @@ describe('E2E: Reviews API', () => {
 
     it('should require authentication', async () => {
       vi.mocked(getTokenFromRequest).mockReturnValue(null);
-      vi.mocked(getUserFromToken).mockReturnValue(null);
+      vi.mocked(getUserFromToken).mockResolvedValue(null);
 
-      const user = getUserFromToken(getTokenFromRequest({} as any));
+      const user = await getUserFromToken(getTokenFromRequest({} as any));
       expect(user).toBeNull();
       // Should return 401 Unauthorized
     });
 
-    it('should require productId and rating', () => {
+    it('should require productId and rating', async () => {
       const invalidReviews = [
         { productId: null, rating: 5 }, // Missing productId
         { productId: 'prod-1', rating: null }, // Missing rating
@@ -243,7 +243,7 @@ describe('E2E: Reviews API', () => {
       }
     });
 
-    it('should validate rating range (1-5)', () => {
+    it('should validate rating range (1-5)', async () => {
       const validRatings = [1, 2, 3, 4, 5];
       const invalidRatings = [0, 6, -1, 10];
 
@@ -315,7 +315,7 @@ describe('E2E: Reviews API', () => {
         role: 'admin' as UserRole,
       };
 
-      vi.mocked(getUserFromToken).mockReturnValue(adminUser as any);
+      vi.mocked(getUserFromToken).mockResolvedValue(adminUser as any);
 
       const approvedReview = {
         id: 'review-1',
@@ -324,7 +324,7 @@ describe('E2E: Reviews API', () => {
 
       vi.mocked(prisma.review.update).mockResolvedValue(approvedReview as any);
 
-      const user = getUserFromToken('token');
+      const user = await getUserFromToken('token');
       expect(user?.role).toBe('admin');
 
       const review = await prisma.review.update({
@@ -372,7 +372,7 @@ describe('E2E: Reviews API', () => {
   });
 
   describe('Review Statistics', () => {
-    it('should calculate average rating', () => {
+    it('should calculate average rating', async () => {
       const reviews = [
         { rating: 5 },
         { rating: 4 },
@@ -387,7 +387,7 @@ describe('E2E: Reviews API', () => {
       expect(averageRating).toBeCloseTo(4.2, 1);
     });
 
-    it('should count reviews by rating', () => {
+    it('should count reviews by rating', async () => {
       const reviews = [
         { rating: 5 },
         { rating: 5 },
@@ -408,7 +408,7 @@ describe('E2E: Reviews API', () => {
       expect(ratingCounts[1]).toBeUndefined();
     });
 
-    it('should calculate review count', () => {
+    it('should calculate review count', async () => {
       const reviews = [
         { id: 'review-1' },
         { id: 'review-2' },
@@ -513,7 +513,7 @@ describe('E2E: Reviews API', () => {
   describe('Review Update and Delete', () => {
     beforeEach(() => {
       vi.mocked(getTokenFromRequest).mockReturnValue('valid-token');
-      vi.mocked(getUserFromToken).mockReturnValue(mockUser as any);
+      vi.mocked(getUserFromToken).mockResolvedValue(mockUser as any);
     });
 
     it('should allow user to update own review', async () => {
@@ -561,7 +561,7 @@ describe('E2E: Reviews API', () => {
         where: { id: 'review-1' },
       });
 
-      const user = getUserFromToken('token');
+      const user = await getUserFromToken('token');
       const isOwner = review?.userId === user?.userId;
       expect(isOwner).toBe(false);
       // Should return 403 Forbidden
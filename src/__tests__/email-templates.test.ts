@@ -0,0 +1,336 @@
+/**
+ * Unit Tests: Email Templates
+ *
+ * Tests the template engine, variable validation, how emails resolve by
+ * key and recipient language with the built-in emails as fallback, and the
+ * admin save, preview and test-send flows.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    emailTemplate: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      delete: vi.fn(),
+    },
+    userPreferences: {
+      findUnique: vi.fn(),
+    },
+    auditLog: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logError: vi.fn(),
+  logEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/email', async () => ({
+  ...(await vi.importActual<typeof import('@/lib/email')>('@/lib/email')),
+  sendEmailImmediate: vi.fn(() => Promise.resolve(true)),
+}));
+
+import prisma from '@/lib/prisma';
+import { logError } from '@/lib/logger';
+import { sendEmailImmediate } from '@/lib/email';
+import {
+  assertTemplateUsesDeclaredVariables,
+  getTemplateVariableNames,
+  normalizeTemplateVariables,
+  renderTemplateContent,
+  renderTemplateString,
+} from '@/lib/email-templates';
+import {
+  deleteEmailTemplate,
+  getEmailTemplate,
+  previewEmailTemplate,
+  renderEmail,
+  saveEmailTemplate,
+  sendTestEmail,
+} from '@/services/EmailTemplateService';
+
+const admin = { userId: 'admin-1', email: 'admin@minalesh.et' };
+
+const amharicReset = {
+  id: 'tpl-am',
+  key: 'password_reset',
+  language: 'am',
+  subject: 'የይለፍ ቃል ዳግም ማስጀመሪያ',
+  htmlContent: '<a href="{{appUrl}}/auth/reset-password?token={{resetToken}}">ዳግም አስጀምር</a>',
+  textContent: '{{appUrl}}/auth/reset-password?token={{resetToken}}',
+  variables: [{ name: 'resetToken', required: true }, { name: 'appUrl', required: true }],
+  isActive: true,
+};
+
+describe('Email Templates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.emailTemplate.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.userPreferences.findUnique).mockResolvedValue(null);
+  });
+
+  describe('renderTemplateString', () => {
+    it('replaces variables and escapes them in HTML only', () => {
+      const data = { name: 'Abebe <b>' };
+
+      expect(renderTemplateString('Hi {{name}}', data)).toBe('Hi Abebe <b>');
+      expect(renderTemplateString('Hi {{name}}', data, { html: true })).toBe('Hi Abebe &lt;b&gt;');
+      expect(renderTemplateString('Hi {{{name}}}', data, { html: true })).toBe('Hi Abebe <b>');
+    });
+
+    it('renders if/else blocks and loops with item fields in scope', () => {
+      const source =
+        '{{#if trackingNumber}}Tracking {{trackingNumber}}{{else}}No tracking{{/if}}|' +
+        '{{#each items}}{{name}} x{{quantity}} ({{orderNumber}}); {{/each}}';
+      const data = { orderNumber: 'MIN-1', items: [{ name: 'Coffee', quantity: 2 }, { name: 'Jebena', quantity: 1 }] };
+
+      expect(renderTemplateString(source, data)).toBe('No tracking|Coffee x2 (MIN-1); Jebena x1 (MIN-1); ');
+      expect(renderTemplateString(source, { ...data, trackingNumber: 'ET1' })).toContain('Tracking ET1|');
+      expect(renderTemplateString('{{#each labels}}- {{this}}\n{{/each}}', { labels: ['a', 'b'] })).toBe('- a\n- b\n');
+    });
+
+    it('formats numbers and dates', () => {
+      const text = renderTemplateString('{{amount}} on {{date}}', {
+        amount: 1234.5,
+        date: new Date('2026-11-15T09:00:00Z'),
+      });
+
+      expect(text).toContain('1,234.5');
+      expect(text).toContain('2026');
+    });
+
+    it('rejects unbalanced blocks', () => {
+      expect(() => renderTemplateString('{{#if a}}open', {})).toThrow(/never closed/);
+      expect(() => renderTemplateString('{{/each}}', {})).toThrow(/Unexpected/);
+      expect(() => renderTemplateString('{{#each}}{{/each}}', {})).toThrow(/needs a variable name/);
+    });
+  });
+
+  describe('variable validation', () => {
+    const variables = normalizeTemplateVariables([
+      'orderNumber',
+      { name: 'items', required: true },
+      { name: 'trackingNumber', required: false },
+      42,
+    ]);
+
+    it('reads declared variables, treating plain names as required', () => {
+      expect(variables).toEqual([
+        { name: 'orderNumber', required: true },
+        { name: 'items', description: undefined, required: true },
+        { name: 'trackingNumber', description: undefined, required: false },
+      ]);
+    });
+
+    it('lists top-level variables but not loop item fields', () => {
+      expect(getTemplateVariableNames('{{orderNumber}} {{#each items}}{{name}}{{/each}} {{#if a.b}}{{c}}{{/if}}')).toEqual([
+        'orderNumber',
+        'items',
+        'a',
+        'c',
+      ]);
+    });
+
+    it('rejects templates that use undeclared variables', () => {
+      expect(() =>
+        assertTemplateUsesDeclaredVariables(
+          { subject: '{{orderNumber}}', htmlContent: '{{customerName}}', textContent: '{{total}}' },
+          variables
+        )
+      ).toThrow(
+        expect.objectContaining({
+          errorCode: 'UNKNOWN_TEMPLATE_VARIABLES',
+          details: expect.objectContaining({ unknown: ['customerName', 'total'] }),
+        })
+      );
+    });
+
+    it('requires a value for every required variable', () => {
+      const content = { subject: '{{orderNumber}}', htmlContent: '', textContent: '' };
+
+      expect(() => renderTemplateContent(content, variables, { orderNumber: 'MIN-1' })).toThrow(
+        expect.objectContaining({ errorCode: 'MISSING_TEMPLATE_VARIABLES', details: { missing: ['items'] } })
+      );
+      expect(renderTemplateContent(content, variables, { orderNumber: 'MIN-1', items: [] }).subject).toBe('MIN-1');
+    });
+  });
+
+  describe('renderEmail', () => {
+    it('uses the template in the recipient language', async () => {
+      vi.mocked(prisma.userPreferences.findUnique).mockResolvedValue({ language: 'am' } as any);
+      vi.mocked(prisma.emailTemplate.findMany).mockResolvedValue([
+        { ...amharicReset, id: 'tpl-en', language: 'en', subject: 'Reset' },
+        amharicReset,
+      ] as any);
+
+      const email = await renderEmail(
+        'password_reset',
+        'abebe@example.com',
+        { resetToken: 'tok', appUrl: 'https://minalesh.et' },
+        { userId: 'user-1' }
+      );
+
+      expect(prisma.emailTemplate.findMany).toHaveBeenCalledWith({
+        where: { key: 'password_reset', language: { in: ['am', 'en'] }, isActive: true },
+      });
+      expect(email).toMatchObject({
+        to: 'abebe@example.com',
+        subject: 'የይለፍ ቃል ዳግም ማስጀመሪያ',
+        text: 'https://minalesh.et/auth/reset-password?token=tok',
+        template: 'password_reset',
+        metadata: { templateId: 'tpl-am', language: 'am' },
+      });
+    });
+
+    it('falls back to the English template, then the built-in email', async () => {
+      vi.mocked(prisma.userPreferences.findUnique).mockResolvedValue({ language: 'om' } as any);
+      vi.mocked(prisma.emailTemplate.findMany).mockResolvedValueOnce([
+        { ...amharicReset, id: 'tpl-en', language: 'en', subject: 'Reset your password' },
+      ] as any);
+
+      const data = { resetToken: 'tok', appUrl: 'https://x' };
+      const english = await renderEmail('password_reset', 'a@example.com', data, { userId: 'user-1' });
+      const builtIn = await renderEmail('password_reset', 'a@example.com', data, { userId: 'user-1' });
+
+      expect(english.subject).toBe('Reset your password');
+      expect(builtIn.subject).toBe('Password Reset Request');
+      expect(builtIn.text).toContain('https://x/auth/reset-password?token=tok');
+      expect(builtIn.template).toBe('password_reset');
+    });
+
+    it('lets the caller choose the language for recipients without preferences', async () => {
+      await renderEmail('account_deletion', 'a@example.com', { displayName: 'Abebe' }, { language: 'ti' });
+
+      expect(prisma.userPreferences.findUnique).not.toHaveBeenCalled();
+      expect(prisma.emailTemplate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ language: { in: ['ti', 'en'] } }) })
+      );
+    });
+
+    it('sends the built-in email when the stored template cannot be used', async () => {
+      vi.mocked(prisma.emailTemplate.findMany).mockResolvedValue([
+        { ...amharicReset, language: 'en', textContent: '{{#if resetToken}}unclosed' },
+      ] as any);
+
+      const email = await renderEmail('password_reset', 'a@example.com', { resetToken: 'tok', appUrl: 'https://x' });
+
+      expect(email.subject).toBe('Password Reset Request');
+      expect(logError).toHaveBeenCalled();
+    });
+
+    it('throws when required variables are missing', async () => {
+      await expect(renderEmail('password_reset', 'a@example.com', { appUrl: 'https://x' })).rejects.toMatchObject({
+        statusCode: 400,
+        errorCode: 'MISSING_TEMPLATE_VARIABLES',
+      });
+    });
+
+    it('rejects unknown template keys', async () => {
+      await expect(renderEmail('no_such_email', 'a@example.com', {})).rejects.toMatchObject({
+        statusCode: 404,
+        errorCode: 'EMAIL_TEMPLATE_NOT_FOUND',
+      });
+    });
+  });
+
+  describe('admin editing', () => {
+    it('offers the built-in email with text variables as placeholders', async () => {
+      const template = await getEmailTemplate('vendor_verification_status');
+
+      expect(template.builtIn.subject).toContain('Approved');
+      expect(template.builtIn.htmlContent).toContain('{{vendorName}}');
+      expect(template.builtIn.htmlContent).not.toContain('{{status}}');
+      expect(template.variables.map((variable) => variable.name)).toEqual(['vendorName', 'status', 'rejectionReason']);
+    });
+
+    it('saves a language version with the declared variables', async () => {
+      vi.mocked(prisma.emailTemplate.upsert).mockResolvedValue({ id: 'tpl-am' } as any);
+
+      await saveEmailTemplate(admin, 'password_reset', {
+        language: 'am',
+        subject: amharicReset.subject,
+        htmlContent: amharicReset.htmlContent,
+        textContent: amharicReset.textContent,
+      });
+
+      expect(prisma.emailTemplate.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { key_language: { key: 'password_reset', language: 'am' } },
+          create: expect.objectContaining({
+            key: 'password_reset',
+            language: 'am',
+            category: 'transactional',
+            variables: [
+              expect.objectContaining({ name: 'resetToken', required: true }),
+              expect.objectContaining({ name: 'appUrl', required: true }),
+            ],
+          }),
+        })
+      );
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'email_template.save', entityId: 'tpl-am' }),
+      });
+    });
+
+    it('refuses to save templates with undeclared variables or bad syntax', async () => {
+      const draft = { language: 'en' as const, subject: 'Reset', textContent: 'x' };
+
+      await expect(
+        saveEmailTemplate(admin, 'password_reset', { ...draft, htmlContent: '{{password}}' })
+      ).rejects.toMatchObject({ errorCode: 'UNKNOWN_TEMPLATE_VARIABLES' });
+      await expect(
+        saveEmailTemplate(admin, 'password_reset', { ...draft, htmlContent: '{{#if appUrl}}' })
+      ).rejects.toMatchObject({ errorCode: 'INVALID_EMAIL_TEMPLATE' });
+      expect(prisma.emailTemplate.upsert).not.toHaveBeenCalled();
+    });
+
+    it('removes a language version', async () => {
+      vi.mocked(prisma.emailTemplate.findUnique).mockResolvedValueOnce({ id: 'tpl-am' } as any);
+
+      await deleteEmailTemplate(admin, 'password_reset', 'am');
+
+      expect(prisma.emailTemplate.delete).toHaveBeenCalledWith({ where: { id: 'tpl-am' } });
+      await expect(deleteEmailTemplate(admin, 'password_reset', 'om')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('previews a draft with sample values and overrides', async () => {
+      const preview = await previewEmailTemplate('order_confirmation', {
+        language: 'en',
+        subject: 'Order {{orderNumber}}',
+        htmlContent: '<ul>{{#each items}}<li>{{name}}</li>{{/each}}</ul>',
+        textContent: 'Total {{totalAmount}}',
+        data: { totalAmount: '10.00' },
+      });
+
+      expect(preview).toEqual({
+        subject: 'Order MIN-10245',
+        html: '<ul><li>Yirgacheffe coffee 1kg</li><li>Jebena</li></ul>',
+        text: 'Total 10.00',
+      });
+    });
+
+    it('sends a test to the admin with a marked subject', async () => {
+      const result = await sendTestEmail(admin, 'account_deletion', { language: 'en' });
+
+      expect(result).toEqual({ to: 'admin@minalesh.et' });
+      expect(sendEmailImmediate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'admin@minalesh.et',
+          subject: expect.stringMatching(/^\[Test\] /),
+          template: 'account_deletion',
+        })
+      );
+    });
+
+    it('needs an address when the admin has no email', async () => {
+      await expect(
+        sendTestEmail({ userId: 'admin-2', email: null }, 'account_deletion', { language: 'en' })
+      ).rejects.toMatchObject({ errorCode: 'TEST_RECIPIENT_REQUIRED' });
+    });
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * Unit Tests: Email Tracking
+ *
+ * Tests signed tracking tokens and click links, how campaign emails are
+ * rewritten at send time, delivery webhook signatures, recording opens,
+ * clicks and unsubscribes against campaign counters, bounce and complaint
+ * suppression, and that the queue skips suppressed addresses.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    emailQueue: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      fields: { maxAttempts: 'max_attempts' },
+    },
+    emailEvent: {
+      count: vi.fn(),
+      create: vi.fn(),
+    },
+    emailCampaign: {
+      update: vi.fn(),
+    },
+    emailSubscription: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+    emailSuppression: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logError: vi.fn(),
+  logEvent: vi.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { processEmailQueue } from '@/lib/email';
+import {
+  applyEmailTracking,
+  buildClickUrl,
+  createTrackingToken,
+  signClickUrl,
+  verifyClickUrl,
+  verifyDeliveryWebhook,
+  verifyTrackingToken,
+} from '@/lib/email-tracking';
+import {
+  handleDeliveryEvent,
+  recordEmailClick,
+  recordEmailOpen,
+  unsubscribeByToken,
+} from '@/services/EmailTrackingService';
+
+const QUEUE_ID = '11111111-1111-1111-1111-111111111111';
+
+const campaignEmail = {
+  id: QUEUE_ID,
+  to: 'abebe@example.com',
+  metadata: { campaignId: 'campaign-1', campaignName: 'Meskel Sale', type: 'campaign' },
+};
+
+describe('Email Tracking', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.emailQueue.findFirst).mockResolvedValue(campaignEmail as any);
+    vi.mocked(prisma.emailEvent.count).mockResolvedValue(0);
+    vi.mocked(prisma.emailCampaign.update).mockResolvedValue({} as any);
+  });
+
+  describe('tokens and links', () => {
+    it('should round-trip a tracking token and reject tampered ones', () => {
+      const token = createTrackingToken(QUEUE_ID);
+
+      expect(verifyTrackingToken(token)).toBe(QUEUE_ID);
+      expect(verifyTrackingToken(token.replace(QUEUE_ID, '22222222-2222-2222-2222-222222222222'))).toBeNull();
+      expect(verifyTrackingToken(`${token}x`)).toBeNull();
+      expect(verifyTrackingToken('not-a-token')).toBeNull();
+      expect(verifyTrackingToken(null)).toBeNull();
+    });
+
+    it('should bind click signatures to the destination', () => {
+      const token = createTrackingToken(QUEUE_ID);
+      const signature = signClickUrl(token, 'https://minalesh.et/sale');
+
+      expect(verifyClickUrl(token, 'https://minalesh.et/sale', signature)).toBe(true);
+      expect(verifyClickUrl(token, 'https://evil.example/', signature)).toBe(false);
+      expect(verifyClickUrl(token, 'https://minalesh.et/sale', null)).toBe(false);
+    });
+
+    it('should rewrite links and add the unsubscribe footer, pixel and headers', () => {
+      const tracked = applyEmailTracking(
+        {
+          html: '<html><body><a href="https://minalesh.et/sale?a=1&amp;b=2">Shop</a> <a href="mailto:help@minalesh.et">Help</a></body></html>',
+          text: 'Shop now',
+        },
+        QUEUE_ID
+      );
+      const token = createTrackingToken(QUEUE_ID);
+
+      expect(tracked.html).not.toContain('href="https://minalesh.et/sale');
+      expect(tracked.html).toContain(buildClickUrl(token, 'https://minalesh.et/sale?a=1&b=2').replace(/&/g, '&amp;'));
+      expect(tracked.html).toContain('href="mailto:help@minalesh.et"');
+      expect(tracked.html).toMatch(/<img src="[^"]*\/api\/email\/open\?token=[^"]+" width="1" height="1"[^>]*\/><\/body>/);
+      expect(tracked.html).toContain('/api/email/unsubscribe?token=');
+      expect(tracked.text).toMatch(/^Shop now\n\nUnsubscribe: .*\/api\/email\/unsubscribe\?token=/);
+      expect(tracked.headers).toEqual({
+        'List-Unsubscribe': expect.stringMatching(/^<.*\/api\/email\/unsubscribe\?token=.+>$/),
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      });
+    });
+  });
+
+  describe('verifyDeliveryWebhook', () => {
+    const secret = `whsec_${Buffer.from('webhook-signing-key').toString('base64')}`;
+    const payload = JSON.stringify({ type: 'email.bounced' });
+    const now = new Date('2026-10-19T12:00:00Z');
+    const timestamp = String(Math.floor(now.getTime() / 1000));
+
+    const headersFor = (signedPayload: string, ts = timestamp) => {
+      const signature = createHmac('sha256', Buffer.from('webhook-signing-key'))
+        .update(`msg_1.${ts}.${signedPayload}`)
+        .digest('base64');
+      return new Headers({ 'svix-id': 'msg_1', 'svix-timestamp': ts, 'svix-signature': `v1,bad v1,${signature}` });
+    };
+
+    it('should accept a correctly signed event', () => {
+      expect(verifyDeliveryWebhook(payload, headersFor(payload), secret, now)).toBe(true);
+    });
+
+    it('should reject altered, stale or unsigned events', () => {
+      expect(verifyDeliveryWebhook(payload, headersFor('{"type":"email.sent"}'), secret, now)).toBe(false);
+      expect(verifyDeliveryWebhook(payload, headersFor(payload, String(Number(timestamp) - 600)), secret, now)).toBe(false);
+      expect(verifyDeliveryWebhook(payload, new Headers(), secret, now)).toBe(false);
+    });
+  });
+
+  describe('recordEmailOpen', () => {
+    it('should count the first open of an email on its campaign', async () => {
+      await recordEmailOpen(createTrackingToken(QUEUE_ID));
+
+      expect(prisma.emailEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          emailQueueId: QUEUE_ID,
+          campaignId: 'campaign-1',
+          email: 'abebe@example.com',
+          type: 'open',
+        }),
+      });
+      expect(prisma.emailCampaign.update).toHaveBeenCalledWith({
+        where: { id: 'campaign-1' },
+        data: { openCount: { increment: 1 } },
+      });
+    });
+
+    it('should store repeat opens without counting the recipient again', async () => {
+      vi.mocked(prisma.emailEvent.count).mockResolvedValue(2);
+
+      await recordEmailOpen(createTrackingToken(QUEUE_ID));
+
+      expect(prisma.emailEvent.create).toHaveBeenCalled();
+      expect(prisma.emailCampaign.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore invalid tokens', async () => {
+      await recordEmailOpen('forged.token');
+
+      expect(prisma.emailQueue.findFirst).not.toHaveBeenCalled();
+      expect(prisma.emailEvent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordEmailClick', () => {
+    it('should record the click and return the destination', async () => {
+      const token = createTrackingToken(QUEUE_ID);
+      const url = 'https://minalesh.et/sale';
+
+      const destination = await recordEmailClick(token, url, signClickUrl(token, url));
+
+      expect(destination).toBe(url);
+      expect(prisma.emailEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'click', url }),
+      });
+      expect(prisma.emailCampaign.update).toHaveBeenCalledWith({
+        where: { id: 'campaign-1' },
+        data: { clickCount: { increment: 1 } },
+      });
+    });
+
+    it('should not redirect to a destination the link was not signed for', async () => {
+      const token = createTrackingToken(QUEUE_ID);
+
+      const destination = await recordEmailClick(
+        token,
+        'https://evil.example/',
+        signClickUrl(token, 'https://minalesh.et/sale')
+      );
+
+      expect(destination).not.toContain('evil.example');
+      expect(prisma.emailEvent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unsubscribeByToken', () => {
+    it('should unsubscribe the recipient and count it on the campaign', async () => {
+      vi.mocked(prisma.emailSubscription.findUnique).mockResolvedValue({ isSubscribed: true } as any);
+
+      const result = await unsubscribeByToken(createTrackingToken(QUEUE_ID), 'one_click');
+
+      expect(result).toEqual({ email: 'abebe@example.com', unsubscribed: true });
+      expect(prisma.emailSubscription.upsert).toHaveBeenCalledWith({
+        where: { email: 'abebe@example.com' },
+        create: expect.objectContaining({ email: 'abebe@example.com', isSubscribed: false }),
+        update: expect.objectContaining({ isSubscribed: false, unsubscribedAt: expect.any(Date) }),
+      });
+      expect(prisma.emailEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'unsubscribe', metadata: { method: 'one_click' } }),
+      });
+      expect(prisma.emailCampaign.update).toHaveBeenCalledWith({
+        where: { id: 'campaign-1' },
+        data: { unsubscribeCount: { increment: 1 } },
+      });
+    });
+
+    it('should do nothing for an address that already unsubscribed', async () => {
+      vi.mocked(prisma.emailSubscription.findUnique).mockResolvedValue({ isSubscribed: false } as any);
+
+      const result = await unsubscribeByToken(createTrackingToken(QUEUE_ID), 'link');
+
+      expect(result.unsubscribed).toBe(false);
+      expect(prisma.emailSubscription.upsert).not.toHaveBeenCalled();
+      expect(prisma.emailCampaign.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid links', async () => {
+      await expect(unsubscribeByToken('forged.token', 'link')).rejects.toMatchObject({
+        errorCode: 'INVALID_UNSUBSCRIBE_TOKEN',
+      });
+    });
+  });
+
+  describe('handleDeliveryEvent', () => {
+    it('should suppress a hard-bounced address and count the bounce', async () => {
+      const result = await handleDeliveryEvent({
+        type: 'email.bounced',
+        data: {
+          email_id: 're_123',
+          to: ['Abebe@Example.com'],
+          bounce: { type: 'Permanent', subType: 'General', message: 'Mailbox does not exist' },
+        },
+      });
+
+      expect(result).toEqual({ handled: true });
+      expect(prisma.emailQueue.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { providerMessageId: 're_123' } })
+      );
+      expect(prisma.emailSuppression.upsert).toHaveBeenCalledWith({
+        where: { email: 'abebe@example.com' },
+        create: { email: 'abebe@example.com', reason: 'bounce', details: 'Mailbox does not exist' },
+        update: { reason: 'bounce', details: 'Mailbox does not exist' },
+      });
+      expect(prisma.emailQueue.updateMany).toHaveBeenCalledWith({
+        where: { to: { equals: 'Abebe@Example.com', mode: 'insensitive' }, status: 'pending' },
+        data: expect.objectContaining({ status: 'suppressed' }),
+      });
+      expect(prisma.emailCampaign.update).toHaveBeenCalledWith({
+        where: { id: 'campaign-1' },
+        data: { bounceCount: { increment: 1 } },
+      });
+    });
+
+    it('should record a soft bounce without suppressing the address', async () => {
+      await handleDeliveryEvent({
+        type: 'email.bounced',
+        data: { email_id: 're_123', to: ['abebe@example.com'], bounce: { type: 'Transient' } },
+      });
+
+      expect(prisma.emailEvent.create).toHaveBeenCalledWith({ data: expect.objectContaining({ type: 'bounce' }) });
+      expect(prisma.emailSuppression.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should suppress and unsubscribe an address that complained', async () => {
+      vi.mocked(prisma.emailSubscription.findUnique).mockResolvedValue({ isSubscribed: true } as any);
+
+      await handleDeliveryEvent({ type: 'email.complained', data: { email_id: 're_123', to: ['abebe@example.com'] } });
+
+      expect(prisma.emailSuppression.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ create: expect.objectContaining({ reason: 'complaint' }) })
+      );
+      expect(prisma.emailSubscription.upsert).toHaveBeenCalled();
+      expect(prisma.emailEvent.create).toHaveBeenCalledWith({ data: expect.objectContaining({ type: 'complaint' }) });
+      expect(prisma.emailEvent.create).toHaveBeenCalledWith({ data: expect.objectContaining({ type: 'unsubscribe' }) });
+    });
+
+    it('should ignore other event types', async () => {
+      const result = await handleDeliveryEvent({ type: 'email.delivered', data: { email_id: 're_123' } });
+
+      expect(result).toEqual({ handled: false });
+      expect(prisma.emailEvent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processEmailQueue', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.mocked(prisma.emailQueue.findMany).mockResolvedValue([{ id: QUEUE_ID }] as any);
+      vi.mocked(prisma.emailQueue.update).mockResolvedValue({
+        ...campaignEmail,
+        subject: 'Meskel Sale',
+        html: '<p>Sale</p>',
+        text: 'Sale',
+        attempts: 0,
+        maxAttempts: 3,
+      } as any);
+    });
+
+    it('should skip addresses on the suppression list', async () => {
+      vi.mocked(prisma.emailSuppression.findUnique).mockResolvedValue({ reason: 'bounce' } as any);
+
+      const result = await processEmailQueue();
+
+      expect(result).toEqual({ processed: 1, sent: 0, failed: 1 });
+      expect(prisma.emailQueue.update).toHaveBeenLastCalledWith({
+        where: { id: QUEUE_ID },
+        data: expect.objectContaining({ status: 'suppressed' }),
+      });
+      expect(prisma.emailCampaign.update).not.toHaveBeenCalled();
+    });
+
+    it('should count sent campaign emails on the campaign', async () => {
+      vi.mocked(prisma.emailSuppression.findUnique).mockResolvedValue(null);
+
+      const result = await processEmailQueue();
+
+      expect(result.sent).toBe(1);
+      expect(prisma.emailCampaign.update).toHaveBeenCalledWith({
+        where: { id: 'campaign-1' },
+        data: { sentCount: { increment: 1 } },
+      });
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Unit Tests: Equb Engine
+ *
+ * Tests round scheduling, late penalties, payout order, contributions and
+ * round settlement including missed and defaulted members.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const client: any = {
+    equbCircle: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    equbCircleMember: {
+      update: vi.fn(),
+    },
+    equbContribution: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      count: vi.fn(),
+    },
+    equbDistribution: {
+      create: vi.fn(),
+    },
+    equbLedgerEntry: {
+      create: vi.fn(),
+    },
+  };
+  client.$transaction = vi.fn((fn: any) => fn(client));
+  return { default: client };
+});
+
+import prisma from '@/lib/prisma';
+import {
+  addPeriods,
+  getRoundSchedule,
+  calculateLatePenalty,
+  selectRecipient,
+  contribute,
+  settleRound,
+} from '@/services/EqubService';
+
+const DAY = 24 * 60 * 60 * 1000;
+const startDate = new Date('2026-11-01T00:00:00Z');
+
+const members = [
+  { id: 'm1', userId: 'u1', position: 1, isActive: true, hasReceivedPayout: false, missedRounds: 0 },
+  { id: 'm2', userId: 'u2', position: 2, isActive: true, hasReceivedPayout: false, missedRounds: 1 },
+  { id: 'm3', userId: 'u3', position: 3, isActive: true, hasReceivedPayout: false, missedRounds: 0 },
+];
+
+const circle = {
+  id: 'circle-1',
+  status: 'active',
+  startDate,
+  startedAt: startDate,
+  frequency: 'weekly',
+  contributionAmount: 1000,
+  latePenaltyRate: 0.05,
+  gracePeriodDays: 3,
+  maxMissedRounds: 2,
+  payoutMethod: 'position',
+  currentRound: 0,
+  totalRounds: 3,
+};
+
+let potBalance = 0;
+
+function ledgerCalls() {
+  return (prisma.equbLedgerEntry.create as any).mock.calls.map((call: any[]) => call[0].data);
+}
+
+describe('Equb Engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    potBalance = 0;
+    (prisma.equbCircle.update as any).mockImplementation(({ data }: any) => {
+      if (data.potBalance?.increment !== undefined) {
+        potBalance += data.potBalance.increment;
+      }
+      return { potBalance };
+    });
+    (prisma.equbLedgerEntry.create as any).mockImplementation(({ data }: any) => data);
+  });
+
+  describe('scheduling', () => {
+    it('should clamp monthly periods to the end of shorter months', () => {
+      const jan31 = new Date('2027-01-31T00:00:00Z');
+
+      expect(addPeriods(jan31, 'monthly', 1).toISOString()).toBe('2027-02-28T00:00:00.000Z');
+      expect(addPeriods(jan31, 'monthly', 2).toISOString()).toBe('2027-03-31T00:00:00.000Z');
+    });
+
+    it('should make each round due at the end of its period', () => {
+      const schedule = getRoundSchedule({ startDate, frequency: 'biweekly', gracePeriodDays: 3 }, 2);
+
+      expect(schedule.dueDate.getTime()).toBe(startDate.getTime() + 28 * DAY);
+      expect(schedule.graceEndsAt.getTime()).toBe(schedule.dueDate.getTime() + 3 * DAY);
+    });
+
+    it('should only charge a penalty after the due date', () => {
+      const schedule = getRoundSchedule(circle, 1);
+
+      expect(calculateLatePenalty(circle, schedule, schedule.dueDate)).toBe(0);
+      expect(calculateLatePenalty(circle, schedule, new Date(schedule.dueDate.getTime() + DAY))).toBe(50);
+    });
+  });
+
+  describe('selectRecipient', () => {
+    it('should pay the lowest unpaid position first', () => {
+      expect(selectRecipient([members[2], members[1]], 'position')?.id).toBe('m2');
+    });
+
+    it('should draw lottery recipients from the eligible members', () => {
+      expect(selectRecipient(members, 'lottery', () => 2)?.id).toBe('m3');
+      expect(selectRecipient([], 'lottery')).toBeNull();
+    });
+  });
+
+  describe('contribute', () => {
+    it('should record a late contribution with its penalty in the ledger', async () => {
+      (prisma.equbCircle.findUnique as any).mockResolvedValue({ ...circle, members });
+      (prisma.equbContribution.findFirst as any).mockResolvedValue(null);
+      (prisma.equbContribution.create as any).mockImplementation(({ data }: any) => ({ id: 'c1', ...data }));
+      (prisma.equbContribution.count as any).mockResolvedValue(1);
+
+      const result = await contribute('circle-1', 'u1', new Date(startDate.getTime() + 8 * DAY));
+
+      expect(result).toMatchObject({ round: 1, penalty: 50, remaining: 2 });
+      expect(ledgerCalls()).toEqual([
+        expect.objectContaining({ type: 'contribution', amount: 1000, balanceAfter: 1000 }),
+        expect.objectContaining({ type: 'penalty', amount: 50, balanceAfter: 1050 }),
+      ]);
+    });
+
+    it('should allow one contribution per member per round', async () => {
+      (prisma.equbCircle.findUnique as any).mockResolvedValue({ ...circle, members });
+      (prisma.equbContribution.findFirst as any).mockResolvedValue({ id: 'c1' });
+
+      await expect(
+        contribute('circle-1', 'u1', new Date(startDate.getTime() + DAY))
+      ).rejects.toThrow(/already contributed for round 1/);
+      expect(prisma.equbContribution.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject contributions after the grace period', async () => {
+      (prisma.equbCircle.findUnique as any).mockResolvedValue({ ...circle, members });
+
+      await expect(
+        contribute('circle-1', 'u1', new Date(startDate.getTime() + 11 * DAY))
+      ).rejects.toThrow(/window for round 1 has closed/);
+    });
+  });
+
+  describe('settleRound', () => {
+    const paid = (memberIds: string[]) =>
+      memberIds.map((memberId, i) => ({ id: `c${i}`, memberId, amount: 1000, penaltyAmount: 0 }));
+
+    it('should wait for the due date even when everyone has paid', async () => {
+      (prisma.equbCircle.findUnique as any).mockResolvedValue({ ...circle, members });
+      (prisma.equbContribution.findMany as any).mockResolvedValue(paid(['m1', 'm2', 'm3']));
+
+      expect(await settleRound('circle-1', new Date(startDate.getTime() + 6 * DAY))).toBeNull();
+      expect(prisma.equbDistribution.create).not.toHaveBeenCalled();
+    });
+
+    it('should pay the whole pot to the next position on the due date', async () => {
+      potBalance = 3000;
+      (prisma.equbCircle.findUnique as any)
+        .mockResolvedValueOnce({ ...circle, members })
+        .mockResolvedValueOnce({ potBalance });
+      (prisma.equbContribution.findMany as any).mockResolvedValue(paid(['m1', 'm2', 'm3']));
+      (prisma.equbDistribution.create as any).mockImplementation(({ data }: any) => ({ id: 'd1', ...data }));
+
+      const result = await settleRound('circle-1', new Date(startDate.getTime() + 7 * DAY));
+
+      expect(result).toMatchObject({ round: 1, recipientUserId: 'u1', amount: 3000, circleCompleted: false });
+      expect((prisma.equbDistribution.create as any).mock.calls[0][0].data).toMatchObject({
+        recipientId: 'u1',
+        amount: 3000,
+        status: 'completed',
+      });
+      expect(ledgerCalls()).toEqual([
+        expect.objectContaining({ type: 'payout', amount: -3000, balanceAfter: 0 }),
+      ]);
+    });
+
+    it('should default repeat non-payers after the grace period and skip their turn', async () => {
+      potBalance = 2000;
+      (prisma.equbCircle.findUnique as any)
+        .mockResolvedValueOnce({
+          ...circle,
+          currentRound: 1,
+          members: members.map((m) => ({ ...m, hasReceivedPayout: m.id === 'm1' })),
+        })
+        .mockResolvedValueOnce({ potBalance });
+      (prisma.equbContribution.findMany as any).mockResolvedValue(paid(['m1', 'm3']));
+      (prisma.equbDistribution.create as any).mockImplementation(({ data }: any) => ({ id: 'd2', ...data }));
+
+      const result = await settleRound('circle-1', new Date(startDate.getTime() + 18 * DAY));
+
+      expect(result).toMatchObject({
+        round: 2,
+        recipientUserId: 'u3',
+        missedMemberIds: ['m2'],
+        defaultedMemberIds: ['m2'],
+      });
+      expect(prisma.equbCircleMember.update).toHaveBeenCalledWith({
+        where: { id: 'm2' },
+        data: { missedRounds: 2, isActive: false, defaultedAt: expect.any(Date) },
+      });
+      expect(ledgerCalls()[0]).toMatchObject({ type: 'missed_contribution', memberId: 'm2', amount: 0 });
+    });
+
+    it('should refund contributors and close the circle when nobody is left to pay', async () => {
+      potBalance = 1000;
+      (prisma.equbCircle.findUnique as any)
+        .mockResolvedValueOnce({
+          ...circle,
+          currentRound: 2,
+          members: [
+            { ...members[0], hasReceivedPayout: true },
+            { ...members[1], isActive: false },
+            { ...members[2], hasReceivedPayout: true },
+          ],
+        })
+        .mockResolvedValueOnce({ potBalance });
+      (prisma.equbContribution.findMany as any).mockResolvedValue(paid(['m1']));
+
+      const result = await settleRound('circle-1', new Date(startDate.getTime() + 25 * DAY));
+
+      expect(result).toMatchObject({ round: 3, recipientUserId: null, circleCompleted: true });
+      expect(prisma.equbDistribution.create).not.toHaveBeenCalled();
+      expect(ledgerCalls()).toContainEqual(
+        expect.objectContaining({ type: 'refund', memberId: 'm1', amount: -1000, balanceAfter: 0 })
+      );
+      expect(prisma.equbCircle.update).toHaveBeenLastCalledWith({
+        where: { id: 'circle-1' },
+        data: { currentRound: 3, status: 'completed', endDate: expect.any(Date) },
+      });
+    });
+  });
+});
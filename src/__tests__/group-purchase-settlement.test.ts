@@ -0,0 +1,326 @@
+/**
+ * Unit Tests: Group Purchase Settlement
+ *
+ * Tests activation of filled groups into member orders, pre-payment checkout,
+ * payment capture and refunds when a group expires short of its target.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const client: any = {
+    groupPurchase: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    groupPurchaseMember: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    order: {
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    inventoryReservation: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    notification: {
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn((callback: (tx: any) => Promise<any>) => callback(client)),
+  };
+  return { default: client };
+});
+
+vi.mock('@/lib/refund', () => ({
+  initiateRefund: vi.fn(),
+  processRefund: vi.fn(),
+}));
+
+vi.mock('@/services/InventoryService', () => ({
+  createReservation: vi.fn(),
+  extendReservation: vi.fn(),
+}));
+
+vi.mock('@/services/VendorOrderService', () => ({
+  createVendorOrders: vi.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { initiateRefund, processRefund } from '@/lib/refund';
+import { createReservation, extendReservation } from '@/services/InventoryService';
+import { createVendorOrders } from '@/services/VendorOrderService';
+import {
+  activateGroup,
+  checkoutMember,
+  capturePayments,
+  expireGroup,
+  processGroupPurchases,
+  GROUP_PAYMENT_WINDOW_HOURS,
+} from '@/services/GroupPurchaseService';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const product = { id: 'p1', name: 'Jebena Set', sku: 'JB-1', vendorId: 'v1' };
+
+const group = {
+  id: 'g1',
+  title: 'Jebena for 3',
+  productId: 'p1',
+  product,
+  requiredMembers: 3,
+  currentMembers: 3,
+  pricePerPerson: 450,
+  status: 'completed',
+  expiresAt: new Date('2026-10-20T12:00:00Z'),
+  completedAt: null,
+  activatedAt: null,
+  expiredAt: null,
+};
+
+const member = (id: string, order: Record<string, unknown> | null = null) => ({
+  id: `m-${id}`,
+  userId: id,
+  isPaid: false,
+  order,
+});
+
+function notifications() {
+  return (prisma.notification.createMany as any).mock.calls.map((call: any[]) => call[0].data).flat();
+}
+
+describe('Group Purchase Settlement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    let orderSeq = 0;
+    (prisma.order.create as any).mockImplementation(({ data }: any) => ({ id: `o${++orderSeq}`, ...data }));
+    (prisma.notification.createMany as any).mockResolvedValue({ count: 1 });
+    (createReservation as any).mockResolvedValue({ success: true, reservationId: 'r1' });
+  });
+
+  describe('activateGroup', () => {
+    it('should create one order per member at the group price and hold stock for the payment window', async () => {
+      (prisma.groupPurchase.findUnique as any).mockResolvedValue({
+        ...group,
+        members: [member('u1'), member('u2'), member('u3')],
+      });
+
+      const result = await activateGroup('g1', now);
+
+      expect(result).toEqual({ ordersCreated: 3, reservationFailures: 0 });
+      expect(prisma.order.create).toHaveBeenCalledTimes(3);
+      expect((prisma.order.create as any).mock.calls[0][0].data).toMatchObject({
+        userId: 'u1',
+        totalAmount: '450.00',
+        orderItems: { create: { productId: 'p1', vendorId: 'v1', quantity: 1, price: '450.00' } },
+      });
+      expect(createVendorOrders).toHaveBeenCalledWith(prisma, expect.objectContaining({ id: 'o1' }));
+      expect(createReservation).toHaveBeenCalledWith({ productId: 'p1', quantity: 1, userId: 'u2' });
+      expect(extendReservation).toHaveBeenCalledWith('r1', GROUP_PAYMENT_WINDOW_HOURS * 60);
+      expect(prisma.groupPurchaseMember.update).toHaveBeenCalledWith({
+        where: { id: 'm-u3' },
+        data: { orderId: 'o3' },
+      });
+      expect(prisma.groupPurchase.update).toHaveBeenCalledWith({
+        where: { id: 'g1' },
+        data: { status: 'completed', completedAt: now, activatedAt: now },
+      });
+      expect(notifications()).toHaveLength(3);
+    });
+
+    it('should keep pre-paid orders and cancel orders it cannot reserve stock for', async () => {
+      (prisma.groupPurchase.findUnique as any).mockResolvedValue({
+        ...group,
+        members: [
+          member('u1', { id: 'paid-order', status: 'paid', paymentStatus: 'completed' }),
+          member('u2'),
+        ],
+      });
+      (createReservation as any).mockResolvedValue({ success: false, error: 'Insufficient stock' });
+
+      const result = await activateGroup('g1', now);
+
+      expect(result).toEqual({ ordersCreated: 0, reservationFailures: 1 });
+      expect(prisma.order.create).toHaveBeenCalledTimes(1);
+      expect(prisma.order.update).toHaveBeenCalledWith({
+        where: { id: 'o1' },
+        data: expect.objectContaining({ status: 'cancelled' }),
+      });
+      expect(notifications()).toEqual([
+        expect.objectContaining({ userId: 'u1', title: 'Group purchase unlocked!' }),
+        expect.objectContaining({ userId: 'u2', title: 'Group purchase out of stock' }),
+      ]);
+    });
+
+    it('should skip groups that are already activated', async () => {
+      (prisma.groupPurchase.findUnique as any).mockResolvedValue({ ...group, activatedAt: now, members: [] });
+
+      expect(await activateGroup('g1', now)).toBeNull();
+      expect(prisma.groupPurchase.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkoutMember', () => {
+    it('should create a pre-payment order for a member', async () => {
+      (prisma.groupPurchase.findUnique as any).mockResolvedValue({
+        ...group,
+        status: 'active',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        members: [member('u1')],
+      });
+
+      const result = await checkoutMember('g1', 'u1');
+
+      expect(result.created).toBe(true);
+      expect(prisma.inventoryReservation.update).toHaveBeenCalledWith({
+        where: { id: 'r1' },
+        data: { orderId: 'o1' },
+      });
+      expect(prisma.groupPurchaseMember.update).toHaveBeenCalledWith({
+        where: { id: 'm-u1' },
+        data: { orderId: 'o1' },
+      });
+    });
+
+    it('should reject users who have not joined', async () => {
+      (prisma.groupPurchase.findUnique as any).mockResolvedValue({ ...group, status: 'active', members: [] });
+
+      await expect(checkoutMember('g1', 'u9')).rejects.toThrow(/Join the group purchase/);
+      expect(prisma.order.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('capturePayments', () => {
+    it('should mark members paid once their order payment completes', async () => {
+      (prisma.groupPurchaseMember.findMany as any).mockResolvedValue([
+        {
+          id: 'm-u1',
+          userId: 'u1',
+          order: { id: 'o1', totalAmount: '450.00', paidAt: now },
+          groupPurchase: { id: 'g1', title: 'Jebena for 3' },
+        },
+      ]);
+
+      expect(await capturePayments(now)).toBe(1);
+      expect(prisma.groupPurchaseMember.update).toHaveBeenCalledWith({
+        where: { id: 'm-u1' },
+        data: { isPaid: true, paidAmount: 450, paidAt: now },
+      });
+      expect(notifications()[0]).toMatchObject({ userId: 'u1', type: 'payment' });
+    });
+  });
+
+  describe('expireGroup', () => {
+    it('should refund paid members, release unpaid reservations and cancel every open order', async () => {
+      (prisma.groupPurchase.findUnique as any).mockResolvedValue({
+        ...group,
+        status: 'active',
+        currentMembers: 2,
+        members: [
+          member('u1', { id: 'o1', status: 'paid', paymentStatus: 'completed', totalAmount: '450.00' }),
+          member('u2', { id: 'o2', status: 'pending', paymentStatus: 'pending', totalAmount: '450.00' }),
+        ],
+      });
+      (initiateRefund as any).mockResolvedValue({ success: true, refundId: 'ref-1' });
+      (processRefund as any).mockResolvedValue(true);
+
+      const result = await expireGroup('g1', now);
+
+      expect(result).toEqual({ refundsIssued: 1, refundFailures: 0 });
+      expect(processRefund).toHaveBeenCalledWith('ref-1');
+      expect(initiateRefund).toHaveBeenCalledWith({
+        orderId: 'o1',
+        amount: 450,
+        reason: expect.stringContaining('expired with 2/3 members'),
+      });
+      expect(prisma.groupPurchaseMember.update).toHaveBeenCalledWith({
+        where: { id: 'm-u1' },
+        data: { refundId: 'ref-1', refundedAt: now },
+      });
+      expect(prisma.inventoryReservation.updateMany).toHaveBeenCalledWith({
+        where: { orderId: 'o2', status: 'active' },
+        data: { status: 'released', releasedAt: now },
+      });
+      expect(prisma.order.update).toHaveBeenCalledTimes(2);
+      expect(prisma.groupPurchase.update).toHaveBeenCalledWith({
+        where: { id: 'g1' },
+        data: { status: 'expired', expiredAt: now },
+      });
+      expect(notifications()).toEqual([
+        expect.objectContaining({ userId: 'u2', title: 'Group purchase cancelled' }),
+        expect.objectContaining({ userId: 'u1', title: 'Group purchase refunded' }),
+      ]);
+    });
+
+    it('should record a refund the provider fails and tell the member it will be followed up', async () => {
+      (prisma.groupPurchase.findUnique as any).mockResolvedValue({
+        ...group,
+        currentMembers: 1,
+        members: [member('u1', { id: 'o1', status: 'paid', paymentStatus: 'completed', totalAmount: '450.00' })],
+      });
+      (initiateRefund as any).mockResolvedValue({ success: true, refundId: 'ref-1' });
+      (processRefund as any).mockResolvedValue(false);
+
+      const result = await expireGroup('g1', now);
+
+      expect(result).toEqual({ refundsIssued: 0, refundFailures: 1 });
+      expect(prisma.groupPurchaseMember.update).toHaveBeenCalledWith({
+        where: { id: 'm-u1' },
+        data: { refundId: 'ref-1', refundedAt: null },
+      });
+      expect(notifications()).toEqual([
+        expect.objectContaining({ userId: 'u1', message: expect.stringContaining('Our team will process your refund') }),
+      ]);
+    });
+
+    it('should leave the order open when the refund fails', async () => {
+      (prisma.groupPurchase.findUnique as any).mockResolvedValue({
+        ...group,
+        currentMembers: 1,
+        members: [member('u1', { id: 'o1', status: 'paid', paymentStatus: 'completed', totalAmount: '450.00' })],
+      });
+      (initiateRefund as any).mockResolvedValue({ success: false, error: 'Gateway unavailable' });
+
+      const result = await expireGroup('g1', now);
+
+      expect(result).toEqual({ refundsIssued: 0, refundFailures: 1 });
+      expect(prisma.order.update).not.toHaveBeenCalled();
+      expect(prisma.groupPurchase.update).toHaveBeenCalledWith({
+        where: { id: 'g1' },
+        data: { status: 'expired', expiredAt: now },
+      });
+    });
+  });
+
+  describe('processGroupPurchases', () => {
+    it('should only activate filled groups and only expire groups short of their target', async () => {
+      (prisma.groupPurchase.findMany as any)
+        .mockResolvedValueOnce([
+          { id: 'filled', currentMembers: 3, requiredMembers: 3 },
+          { id: 'open', currentMembers: 1, requiredMembers: 3 },
+        ])
+        .mockResolvedValueOnce([
+          { id: 'short', currentMembers: 1, requiredMembers: 3 },
+          { id: 'filled-late', currentMembers: 3, requiredMembers: 3 },
+        ]);
+      (prisma.groupPurchase.findUnique as any).mockImplementation(({ where }: any) => ({
+        ...group,
+        id: where.id,
+        currentMembers: where.id === 'short' ? 1 : 3,
+        members: [],
+      }));
+      (prisma.groupPurchaseMember.findMany as any).mockResolvedValue([]);
+
+      const summary = await processGroupPurchases(now);
+
+      expect(summary).toMatchObject({ activated: 1, expired: 1, errors: [] });
+      expect((prisma.groupPurchase.findUnique as any).mock.calls.map((c: any[]) => c[0].where.id)).toEqual([
+        'filled',
+        'short',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests: Inventory Forecast Persistence
+ *
+ * Tests storing forecasts, back-filling actual demand and
+ * the per-model-version accuracy report.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  return {
+    default: {
+      inventoryForecast: {
+        findMany: vi.fn(),
+        update: vi.fn(),
+        deleteMany: vi.fn(),
+        createMany: vi.fn(),
+      },
+      $queryRaw: vi.fn(),
+      $transaction: vi.fn(),
+    },
+  };
+});
+
+import prisma from '@/lib/prisma';
+import {
+  backfillForecastActuals,
+  generateInventoryForecasts,
+  summarizeAccuracy,
+} from '@/services/ForecastService';
+
+describe('Inventory Forecast Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('generateInventoryForecasts', () => {
+    it('should store one forecast per day of the horizon for each product/warehouse', async () => {
+      (prisma.$queryRaw as any).mockResolvedValue([
+        { product_id: 'prod-1', warehouse_id: 'wh-1', day: new Date('2026-10-17T00:00:00Z'), quantity: 4 },
+        { product_id: 'prod-1', warehouse_id: null, day: new Date('2026-10-18T00:00:00Z'), quantity: 2 },
+      ]);
+
+      const result = await generateInventoryForecasts(new Date('2026-10-19T00:30:00Z'), 28, 7);
+
+      expect(result).toEqual({ seriesForecasted: 2, forecastsWritten: 14 });
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+      const created = (prisma.inventoryForecast.createMany as any).mock.calls[0][0].data;
+      expect(created).toHaveLength(7);
+      expect(created[0]).toMatchObject({
+        productId: 'prod-1',
+        warehouseId: 'wh-1',
+        forecastDate: new Date('2026-10-19T00:00:00Z'),
+      });
+      expect(prisma.inventoryForecast.deleteMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ actualDemand: null }),
+      });
+    });
+  });
+
+  describe('backfillForecastActuals', () => {
+    it('should record actual demand and accuracy for past forecasts', async () => {
+      (prisma.inventoryForecast.findMany as any).mockResolvedValue([
+        {
+          id: 'f-1',
+          productId: 'prod-1',
+          warehouseId: 'wh-1',
+          forecastDate: new Date('2026-10-18T00:00:00Z'),
+          predictedDemand: 8,
+        },
+        {
+          id: 'f-2',
+          productId: 'prod-2',
+          warehouseId: null,
+          forecastDate: new Date('2026-10-18T00:00:00Z'),
+          predictedDemand: 1,
+        },
+      ]);
+      (prisma.$queryRaw as any).mockResolvedValue([
+        { product_id: 'prod-1', warehouse_id: 'wh-1', day: new Date('2026-10-18T00:00:00Z'), quantity: 10 },
+      ]);
+
+      const count = await backfillForecastActuals(new Date('2026-10-19T00:30:00Z'));
+
+      expect(count).toBe(2);
+      expect(prisma.inventoryForecast.update).toHaveBeenCalledWith({
+        where: { id: 'f-1' },
+        data: { actualDemand: 10, accuracy: 0.8 },
+      });
+      expect(prisma.inventoryForecast.update).toHaveBeenCalledWith({
+        where: { id: 'f-2' },
+        data: { actualDemand: 0, accuracy: 0 },
+      });
+    });
+
+    it('should do nothing when no forecasts are due', async () => {
+      (prisma.inventoryForecast.findMany as any).mockResolvedValue([]);
+
+      expect(await backfillForecastActuals()).toBe(0);
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('summarizeAccuracy', () => {
+    it('should report MAPE per model version', () => {
+      const report = summarizeAccuracy([
+        { modelVersion: 'hw-additive-weekly-v1', predictedDemand: 8, actualDemand: 10, accuracy: 0.8 },
+        { modelVersion: 'hw-additive-weekly-v1', predictedDemand: 6, actualDemand: 5, accuracy: 0.833 },
+        { modelVersion: 'ses-v1', predictedDemand: 5, actualDemand: 10, accuracy: 0.5 },
+        { modelVersion: 'ses-v1', predictedDemand: 5, actualDemand: null, accuracy: null },
+      ]);
+
+      expect(report).toEqual([
+        { modelVersion: 'hw-additive-weekly-v1', evaluatedForecasts: 2, mape: 20, meanAccuracy: 0.817 },
+        { modelVersion: 'ses-v1', evaluatedForecasts: 1, mape: 50, meanAccuracy: 0.5 },
+      ]);
+    });
+  });
+});
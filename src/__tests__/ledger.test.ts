@@ -0,0 +1,302 @@
+/**
+ * Unit Tests: Accounting Ledger
+ *
+ * Tests that capture, commission, refund, payout and gift card journals
+ * balance, and that posting is idempotent.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    journalEntry: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    order: {
+      findUnique: vi.fn(),
+    },
+    commissionLedger: {
+      findMany: vi.fn(),
+    },
+    refund: {
+      findUnique: vi.fn(),
+    },
+    vendorPayout: {
+      findUnique: vi.fn(),
+    },
+    giftCardTransaction: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+import prisma from '@/lib/prisma';
+import {
+  allocateCents,
+  postJournal,
+  postPaymentCapture,
+  postCommission,
+  postRefund,
+  postVendorPayout,
+  postGiftCardTransaction,
+  LEDGER_ACCOUNTS,
+} from '@/services/LedgerService';
+
+type PostedLine = { accountCode: string; subAccount: string | null; debit: number; credit: number };
+
+const postedLines = (): PostedLine[] =>
+  (vi.mocked(prisma.journalEntry.create).mock.calls[0][0] as any).data.lines.create;
+
+const totals = (lines: PostedLine[]) => ({
+  debit: Math.round(lines.reduce((sum, line) => sum + line.debit, 0) * 100),
+  credit: Math.round(lines.reduce((sum, line) => sum + line.credit, 0) * 100),
+});
+
+const journalLine = (accountCode: string, subAccount: string | null, debit: number, credit: number) => ({
+  accountCode,
+  subAccount,
+  debit,
+  credit,
+});
+
+describe('Accounting Ledger', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.journalEntry.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.journalEntry.create).mockImplementation((async ({ data }: any) => ({
+      ...data,
+      id: 'journal-1',
+      lines: data.lines.create,
+    })) as any);
+  });
+
+  describe('allocateCents', () => {
+    it('should split amounts so the parts sum exactly', () => {
+      expect(allocateCents(100, [1, 1, 1])).toEqual([34, 33, 33]);
+      expect(allocateCents(58, [100, 15])).toEqual([50, 8]);
+      expect(allocateCents(10, [0, 0])).toEqual([0, 0]);
+    });
+  });
+
+  describe('postJournal', () => {
+    it('should reject a journal whose debits and credits differ', async () => {
+      await expect(
+        postJournal({
+          eventType: 'payout',
+          sourceType: 'vendor_payout',
+          sourceId: 'payout-1',
+          description: 'Broken',
+          lines: [
+            { account: LEDGER_ACCOUNTS.VENDOR_PAYABLE, debit: 1000 },
+            { account: LEDGER_ACCOUNTS.BANK, credit: 999 },
+          ],
+        })
+      ).rejects.toMatchObject({ statusCode: 500, errorCode: 'LEDGER_IMBALANCE' });
+      expect(prisma.journalEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('should return the existing journal when the event was already posted', async () => {
+      const existing = { id: 'journal-0', lines: [] };
+      vi.mocked(prisma.journalEntry.findUnique).mockResolvedValue(existing as any);
+
+      const result = await postJournal({
+        eventType: 'payout',
+        sourceType: 'vendor_payout',
+        sourceId: 'payout-1',
+        description: 'Payout',
+        lines: [
+          { account: LEDGER_ACCOUNTS.VENDOR_PAYABLE, debit: 1000 },
+          { account: LEDGER_ACCOUNTS.BANK, credit: 1000 },
+        ],
+      });
+
+      expect(result).toBe(existing);
+      expect(prisma.journalEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('postPaymentCapture', () => {
+    it('should balance tenders against vendor sales, fees and VAT with the residual in suspense', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1',
+        orderNumber: 'MIN-1',
+        paymentMethod: 'TeleBirr',
+        paymentStatus: 'completed',
+        paidAt: new Date('2026-10-18T10:00:00Z'),
+        totalAmount: 1000,
+        discountAmount: 50,
+        shippingAmount: 100,
+        taxAmount: 120,
+        protectionFee: 15,
+        insuranceFee: 5,
+        orderItems: [
+          { vendorId: 'vendor-1', total: 500 },
+          { vendorId: 'vendor-2', total: 200 },
+          { vendorId: 'vendor-1', total: 100 },
+        ],
+        giftCardTransactions: [{ amount: 30 }],
+      } as any);
+
+      await postPaymentCapture('order-1');
+
+      const lines = postedLines();
+      expect(totals(lines)).toEqual({ debit: 105000, credit: 105000 });
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ accountCode: '1100', subAccount: 'telebirr', debit: 1000 }),
+          expect.objectContaining({ accountCode: '1100', subAccount: 'gift_card', debit: 30 }),
+          expect.objectContaining({ accountCode: '5100', debit: 20 }),
+          expect.objectContaining({ accountCode: '2100', subAccount: 'vendor-1', credit: 600 }),
+          expect.objectContaining({ accountCode: '2100', subAccount: 'vendor-2', credit: 200 }),
+          expect.objectContaining({ accountCode: '4300', credit: 100 }),
+          expect.objectContaining({ accountCode: '2200', credit: 120 }),
+          expect.objectContaining({ accountCode: '4200', credit: 20 }),
+          expect.objectContaining({ accountCode: '9900', credit: 10 }),
+        ])
+      );
+    });
+
+    it('should not post for unpaid orders', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1',
+        paymentStatus: 'pending',
+        paidAt: null,
+        orderItems: [],
+        giftCardTransactions: [],
+      } as any);
+
+      expect(await postPaymentCapture('order-1')).toBeNull();
+      expect(prisma.journalEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('postCommission', () => {
+    it('should split VAT out of the commission charged to vendors', async () => {
+      vi.mocked(prisma.commissionLedger.findMany).mockResolvedValue([
+        { vendorId: 'vendor-1', commissionAmount: 100, paidAt: null },
+        { vendorId: 'vendor-2', commissionAmount: 15, paidAt: null },
+      ] as any);
+
+      await postCommission('order-1');
+
+      expect(postedLines()).toEqual([
+        expect.objectContaining({ accountCode: '2100', subAccount: 'vendor-1', debit: 100, credit: 0 }),
+        expect.objectContaining({ accountCode: '2100', subAccount: 'vendor-2', debit: 15, credit: 0 }),
+        expect.objectContaining({ accountCode: '4100', debit: 0, credit: 100 }),
+        expect.objectContaining({ accountCode: '2200', debit: 0, credit: 15 }),
+      ]);
+    });
+  });
+
+  describe('postRefund', () => {
+    it('should reverse the capture and commission in proportion to the refund', async () => {
+      vi.mocked(prisma.refund.findUnique).mockResolvedValue({
+        id: 'refund-1',
+        orderId: 'order-1',
+        amount: 500,
+        status: 'completed',
+        provider: 'telebirr',
+        processedAt: new Date('2026-10-19T09:00:00Z'),
+        order: { id: 'order-1', orderNumber: 'MIN-1', paymentMethod: 'telebirr' },
+      } as any);
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1',
+        paymentStatus: 'refunded',
+        paidAt: new Date('2026-10-18T10:00:00Z'),
+        orderItems: [],
+        giftCardTransactions: [],
+      } as any);
+      const journals: Record<string, unknown> = {
+        payment_capture: {
+          id: 'journal-capture',
+          lines: [
+            journalLine('1100', 'telebirr', 1000, 0),
+            journalLine('2100', 'vendor-1', 0, 800),
+            journalLine('2200', null, 0, 200),
+          ],
+        },
+        commission: {
+          id: 'journal-commission',
+          lines: [
+            journalLine('2100', 'vendor-1', 115, 0),
+            journalLine('4100', null, 0, 100),
+            journalLine('2200', null, 0, 15),
+          ],
+        },
+      };
+      vi.mocked(prisma.journalEntry.findUnique).mockImplementation((async ({ where }: any) =>
+        journals[where.eventType_sourceId.eventType] ?? null) as any);
+
+      await postRefund('refund-1');
+
+      const lines = postedLines();
+      expect(totals(lines)).toEqual({ debit: 55750, credit: 55750 });
+      expect(lines).toEqual([
+        expect.objectContaining({ accountCode: '1100', subAccount: 'telebirr', credit: 500 }),
+        expect.objectContaining({ accountCode: '2100', subAccount: 'vendor-1', debit: 400 }),
+        expect.objectContaining({ accountCode: '2200', debit: 100 }),
+        expect.objectContaining({ accountCode: '2100', subAccount: 'vendor-1', credit: 57.5 }),
+        expect.objectContaining({ accountCode: '4100', debit: 50 }),
+        expect.objectContaining({ accountCode: '2200', debit: 7.5 }),
+      ]);
+    });
+  });
+
+  describe('postVendorPayout', () => {
+    const payout = (payoutAmount: number) => ({
+      id: 'payout-1',
+      vendorId: 'vendor-1',
+      payoutAmount,
+      status: 'paid',
+      paidAt: new Date('2026-10-19T09:00:00Z'),
+      periodStart: new Date('2026-10-01T00:00:00Z'),
+      periodEnd: new Date('2026-10-15T00:00:00Z'),
+    });
+
+    it('should withhold tax on payouts at or above the threshold', async () => {
+      vi.mocked(prisma.vendorPayout.findUnique).mockResolvedValue(payout(20000) as any);
+
+      await postVendorPayout('payout-1');
+
+      expect(postedLines()).toEqual([
+        expect.objectContaining({ accountCode: '2100', subAccount: 'vendor-1', debit: 20000 }),
+        expect.objectContaining({ accountCode: '1200', credit: 19400 }),
+        expect.objectContaining({ accountCode: '2300', credit: 600 }),
+      ]);
+    });
+
+    it('should pay small payouts in full', async () => {
+      vi.mocked(prisma.vendorPayout.findUnique).mockResolvedValue(payout(5000) as any);
+
+      await postVendorPayout('payout-1');
+
+      expect(postedLines()).toEqual([
+        expect.objectContaining({ accountCode: '2100', debit: 5000 }),
+        expect.objectContaining({ accountCode: '1200', credit: 5000 }),
+      ]);
+    });
+  });
+
+  describe('postGiftCardTransaction', () => {
+    it.each([
+      ['purchase', 'gift_card_issue', { accountCode: '1100', debit: 250 }, { accountCode: '2400', credit: 250 }],
+      ['redeem', 'gift_card_redeem', { accountCode: '2400', debit: 250 }, { accountCode: '1100', credit: 250 }],
+    ])('should post a %s as %s', async (type, eventType, debitLine, creditLine) => {
+      vi.mocked(prisma.giftCardTransaction.findUnique).mockResolvedValue({
+        id: 'tx-1',
+        cardId: 'card-1',
+        orderId: null,
+        type,
+        amount: 250,
+        createdAt: new Date('2026-10-19T09:00:00Z'),
+        card: { code: 'GIFT-ABCD-1234' },
+      } as any);
+
+      const journal: any = await postGiftCardTransaction('tx-1');
+
+      expect(journal.eventType).toBe(eventType);
+      expect(postedLines()).toEqual([expect.objectContaining(debitLine), expect.objectContaining(creditLine)]);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Unit Tests: Buyer–Vendor Messaging
+ *
+ * Tests conversation access, opening conversations from products and orders,
+ * sending messages, read receipts and escalation to admins.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  return {
+    default: {
+      product: { findUnique: vi.fn() },
+      order: { findFirst: vi.fn() },
+      profile: { findFirst: vi.fn() },
+      user: { findMany: vi.fn() },
+      chatConversation: {
+        findFirst: vi.fn(),
+        findUnique: vi.fn(),
+        create: vi.fn(),
+        update: vi.fn(),
+      },
+      chatMessage: {
+        create: vi.fn(),
+        updateMany: vi.fn(),
+        findMany: vi.fn(),
+      },
+      notification: {
+        createMany: vi.fn(() => Promise.resolve({ count: 1 })),
+      },
+      $transaction: vi.fn((operations: any[]) => Promise.all(operations)),
+    },
+  };
+});
+
+import prisma from '@/lib/prisma';
+import {
+  getParticipantRole,
+  openConversation,
+  sendMessage,
+  markConversationRead,
+  escalateConversation,
+  getMessagesSince,
+} from '@/services/MessagingService';
+
+const buyer = { userId: 'buyer-1', role: 'customer' as const };
+const vendor = { userId: 'vendor-user-1', role: 'vendor' as const };
+const admin = { userId: 'admin-1', role: 'admin' as const };
+const financeOperator = { userId: 'admin-2', role: 'admin' as const, adminScope: 'finance' };
+
+const conversation = {
+  id: 'conv-1',
+  customerId: 'buyer-1',
+  vendorId: 'vendor-user-1',
+  adminId: null,
+  status: 'active',
+  escalatedAt: null,
+};
+
+describe('Messaging', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getParticipantRole', () => {
+    it('should identify each side of the conversation', () => {
+      expect(getParticipantRole(conversation, buyer)).toBe('customer');
+      expect(getParticipantRole(conversation, vendor)).toBe('vendor');
+      expect(getParticipantRole(conversation, admin)).toBe('admin');
+    });
+
+    it('should deny other users', () => {
+      expect(getParticipantRole(conversation, { userId: 'someone', role: 'vendor' })).toBeNull();
+    });
+
+    it('should deny operators without the support permission unless they own the conversation', () => {
+      expect(getParticipantRole(conversation, financeOperator)).toBeNull();
+      expect(getParticipantRole({ ...conversation, adminId: 'admin-2' }, financeOperator)).toBe('admin');
+    });
+  });
+
+  describe('getMessagesSince', () => {
+    it('should let support operators follow any single conversation', async () => {
+      (prisma.chatMessage.findMany as any).mockResolvedValue([]);
+
+      await getMessagesSince({ ...admin, adminScope: 'support_agent' }, new Date(0), 'conv-1');
+
+      const { where } = (prisma.chatMessage.findMany as any).mock.calls[0][0];
+      expect(where.conversation).toBeUndefined();
+    });
+
+    it('should keep other operators to their own conversations', async () => {
+      (prisma.chatMessage.findMany as any).mockResolvedValue([]);
+
+      await getMessagesSince(financeOperator, new Date(0), 'conv-1');
+
+      const { where } = (prisma.chatMessage.findMany as any).mock.calls[0][0];
+      expect(where.conversation.OR).toContainEqual({ adminId: 'admin-2' });
+      expect(where.conversation.OR).not.toContainEqual({ escalatedAt: { not: null } });
+    });
+  });
+
+  describe('openConversation', () => {
+    it('should open a conversation with the product vendor and post the first message', async () => {
+      (prisma.product.findUnique as any).mockResolvedValue({
+        vendor: { id: 'vendor-profile-1', userId: 'vendor-user-1' },
+      });
+      (prisma.chatConversation.findFirst as any).mockResolvedValue(null);
+      (prisma.chatConversation.create as any).mockImplementation(({ data }: any) => ({
+        id: 'conv-1',
+        ...data,
+        messages: [{ id: 'msg-1', ...data.messages.create }],
+      }));
+
+      const result = await openConversation(buyer, {
+        productId: 'prod-1',
+        message: 'Is this available in size 42?',
+      });
+
+      expect(result.created).toBe(true);
+      const data = (prisma.chatConversation.create as any).mock.calls[0][0].data;
+      expect(data).toMatchObject({
+        customerId: 'buyer-1',
+        vendorId: 'vendor-user-1',
+        productId: 'prod-1',
+      });
+      expect(data.messages.create).toMatchObject({ senderType: 'customer', attachments: [] });
+      expect(prisma.notification.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ userId: 'vendor-user-1', title: 'New message' })],
+      });
+    });
+
+    it('should require a vendor when the order has several', async () => {
+      (prisma.order.findFirst as any).mockResolvedValue({
+        orderItems: [
+          { vendor: { id: 'vp-1', userId: 'vu-1' } },
+          { vendor: { id: 'vp-2', userId: 'vu-2' } },
+        ],
+      });
+
+      await expect(
+        openConversation(buyer, { orderId: 'order-1', message: 'Where is my parcel?' })
+      ).rejects.toThrow(/specify vendorId/);
+    });
+
+    it('should not let vendors message their own store', async () => {
+      (prisma.product.findUnique as any).mockResolvedValue({
+        vendor: { id: 'vendor-profile-1', userId: 'vendor-user-1' },
+      });
+
+      await expect(
+        openConversation(vendor, { productId: 'prod-1', message: 'hello' })
+      ).rejects.toThrow(/own store/);
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should record the sender role and let the first admin take ownership', async () => {
+      (prisma.chatConversation.findUnique as any).mockResolvedValue({
+        ...conversation,
+        escalatedAt: new Date(),
+      });
+      (prisma.chatMessage.create as any).mockImplementation(({ data }: any) => ({ id: 'msg-2', ...data }));
+
+      const message: any = await sendMessage(admin, 'conv-1', { message: 'Looking into this now' });
+
+      expect(message.senderType).toBe('admin');
+      expect(prisma.chatConversation.update).toHaveBeenCalledWith({
+        where: { id: 'conv-1' },
+        data: expect.objectContaining({ adminId: 'admin-1', status: 'active' }),
+      });
+      const recipients = (prisma.notification.createMany as any).mock.calls[0][0].data.map(
+        (n: any) => n.userId
+      );
+      expect(recipients).toEqual(['buyer-1', 'vendor-user-1']);
+    });
+
+    it('should reject messages to a closed conversation', async () => {
+      (prisma.chatConversation.findUnique as any).mockResolvedValue({
+        ...conversation,
+        status: 'closed',
+      });
+
+      await expect(sendMessage(buyer, 'conv-1', { message: 'hi' })).rejects.toThrow(/closed/);
+      expect(prisma.chatMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('should hide conversations from outsiders', async () => {
+      (prisma.chatConversation.findUnique as any).mockResolvedValue(conversation);
+
+      await expect(
+        sendMessage({ userId: 'other', role: 'customer' }, 'conv-1', { message: 'hi' })
+      ).rejects.toThrow(/not found/);
+    });
+  });
+
+  describe('markConversationRead', () => {
+    it("should only mark the other participants' messages as read", async () => {
+      (prisma.chatConversation.findUnique as any).mockResolvedValue(conversation);
+      (prisma.chatMessage.updateMany as any).mockResolvedValue({ count: 3 });
+
+      expect(await markConversationRead(vendor, 'conv-1')).toBe(3);
+      expect(prisma.chatMessage.updateMany).toHaveBeenCalledWith({
+        where: { conversationId: 'conv-1', senderId: { not: 'vendor-user-1' }, isRead: false },
+        data: { isRead: true, readAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('escalateConversation', () => {
+    it('should flag the conversation and notify every admin', async () => {
+      (prisma.chatConversation.findUnique as any).mockResolvedValue(conversation);
+      (prisma.chatConversation.update as any).mockResolvedValue({ ...conversation });
+      (prisma.user.findMany as any).mockResolvedValue([{ id: 'admin-1' }, { id: 'admin-2' }]);
+
+      await escalateConversation(buyer, 'conv-1', 'Seller stopped responding');
+
+      expect(prisma.chatConversation.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ escalationReason: 'Seller stopped responding' }),
+        })
+      );
+      expect((prisma.notification.createMany as any).mock.calls[0][0].data).toHaveLength(2);
+    });
+
+    it('should not escalate twice', async () => {
+      (prisma.chatConversation.findUnique as any).mockResolvedValue({
+        ...conversation,
+        escalatedAt: new Date(),
+      });
+
+      await expect(escalateConversation(buyer, 'conv-1', 'again')).rejects.toThrow(/already/);
+    });
+  });
+});
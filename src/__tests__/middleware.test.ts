@@ -30,18 +30,18 @@ describe('Middleware Functions', () => {
   });
 
   describe('withAuth', () => {
-    it('should return error when no token provided', () => {
+    it('should return error when no token provided', async () => {
       mockGetTokenFromRequest.mockReturnValue(null);
       mockGetUserFromToken.mockReturnValue(null);
 
       const req = new Request('http://localhost/api/test');
-      const result = withAuth(req);
+      const result = await withAuth(req);
 
       expect(result.error).toBeDefined();
       expect(result.payload).toBeNull();
     });
 
-    it('should return payload when token is valid', () => {
+    it('should return payload when token is valid', async () => {
       const mockPayload = {
         userId: 'user-1',
         email: 'user@test.com',
@@ -52,7 +52,7 @@ describe('Middleware Functions', () => {
       mockGetUserFromToken.mockReturnValue(mockPayload);
 
       const req = new Request('http://localhost/api/test');
-      const result = withAuth(req);
+      const result = await withAuth(req);
 
       expect(result.error).toBeNull();
       expect(result.payload).toEqual(mockPayload);
@@ -60,7 +60,7 @@ describe('Middleware Functions', () => {
   });
 
   describe('withRole', () => {
-    it('should return error when user does not have required role', () => {
+    it('should return error when user does not have required role', async () => {
       const mockPayload = {
         userId: 'user-1',
         email: 'user@test.com',
@@ -71,13 +71,13 @@ describe('Middleware Functions', () => {
       mockGetUserFromToken.mockReturnValue(mockPayload);
 
       const req = new Request('http://localhost/api/test');
-      const result = withRole(req, 'admin' as UserRole);
+      const result = await withRole(req, 'admin' as UserRole);
 
       expect(result.error).toBeDefined();
       expect(result.payload).toBeNull();
     });
 
-    it('should return payload when user has required role', () => {
+    it('should return payload when user has required role', async () => {
       const mockPayload = {
         userId: 'user-1',
         email: 'admin@test.com',
@@ -88,13 +88,13 @@ describe('Middleware Functions', () => {
       mockGetUserFromToken.mockReturnValue(mockPayload);
 
       const req = new Request('http://localhost/api/test');
-      const result = withRole(req, 'admin' as UserRole);
+      const result = await withRole(req, 'admin' as UserRole);
 
       expect(result.error).toBeNull();
       expect(result.payload).toEqual(mockPayload);
     });
 
-    it('should work with array of roles', () => {
+    it('should work with array of roles', async () => {
       const mockPayload = {
         userId: 'user-1',
         email: 'vendor@test.com',
@@ -105,7 +105,7 @@ describe('Middleware Functions', () => {
       mockGetUserFromToken.mockReturnValue(mockPayload);
 
       const req = new Request('http://localhost/api/test');
-      const result = withRole(req, ['admin', 'vendor'] as UserRole[]);
+      const result = await withRole(req, ['admin', 'vendor'] as UserRole[]);
 
       expect(result.error).toBeNull();
       expect(result.payload).toEqual(mockPayload);
@@ -113,7 +113,7 @@ describe('Middleware Functions', () => {
   });
 
   describe('withAdmin', () => {
-    it('should allow admin users', () => {
+    it('should allow admin users', async () => {
       const mockPayload = {
         userId: 'admin-1',
         email: 'admin@test.com',
@@ -124,13 +124,13 @@ describe('Middleware Functions', () => {
       mockGetUserFromToken.mockReturnValue(mockPayload);
 
       const req = new Request('http://localhost/api/test');
-      const result = withAdmin(req);
+      const result = await withAdmin(req);
 
       expect(result.error).toBeNull();
       expect(result.payload).toEqual(mockPayload);
     });
 
-    it('should reject non-admin users', () => {
+    it('should reject non-admin users', async () => {
       const mockPayload = {
         userId: 'user-1',
         email: 'user@test.com',
@@ -141,7 +141,7 @@ describe('Middleware Functions', () => {
       mockGetUserFromToken.mockReturnValue(mockPayload);
 
       const req = new Request('http://localhost/api/test');
-      const result = withAdmin(req);
+      const result = await withAdmin(req);
 
       expect(result.error).toBeDefined();
       expect(result.payload).toBeNull();
@@ -149,7 +149,7 @@ describe('Middleware Functions', () => {
   });
 
   describe('withVendorOrAdmin', () => {
-    it('should allow vendor users', () => {
+    it('should allow vendor users', async () => {
       const mockPayload = {
         userId: 'vendor-1',
         email: 'vendor@test.com',
@@ -160,13 +160,13 @@ describe('Middleware Functions', () => {
       mockGetUserFromToken.mockReturnValue(mockPayload);
 
       const req = new Request('http://localhost/api/test');
-      const result = withVendorOrAdmin(req);
+      const result = await withVendorOrAdmin(req);
 
       expect(result.error).toBeNull();
       expect(result.payload).toEqual(mockPayload);
     });
 
-    it('should allow admin users', () => {
+    it('should allow admin users', async () => {
       const mockPayload = {
         userId: 'admin-1',
         email: 'admin@test.com',
@@ -177,13 +177,13 @@ describe('Middleware Functions', () => {
       mockGetUserFromToken.mockReturnValue(mockPayload);
 
       const req = new Request('http://localhost/api/test');
-      const result = withVendorOrAdmin(req);
+      const result = await withVendorOrAdmin(req);
 
       expect(result.error).toBeNull();
       expect(result.payload).toEqual(mockPayload);
     });
 
-    it('should reject customer users', () => {
+    it('should reject customer users', async () => {
       const mockPayload = {
         userId: 'user-1',
         email: 'user@test.com',
@@ -194,7 +194,7 @@ describe('Middleware Functions', () => {
       mockGetUserFromToken.mockReturnValue(mockPayload);
 
       const req = new Request('http://localhost/api/test');
-      const result = withVendorOrAdmin(req);
+      const result = await withVendorOrAdmin(req);
 
       expect(result.error).toBeDefined();
       expect(result.payload).toBeNull();
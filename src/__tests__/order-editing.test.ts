@@ -0,0 +1,524 @@
+/**
+ * Unit Tests: Order Editing
+ *
+ * Tests partial cancellation and quantity and address changes before
+ * fulfilment: which orders can still change, how the edited order is
+ * re-priced, and how stock, reservations, the coupon and the paid amount
+ * (refunded, never raised once paid) follow the edit.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const client: any = {
+    order: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    orderItem: {
+      update: vi.fn(),
+    },
+    vendorOrder: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    product: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    productVariant: {
+      findUnique: vi.fn(),
+    },
+    inventoryReservation: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    flashSale: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    tieredPricing: {
+      findMany: vi.fn(),
+    },
+    promotion: {
+      findMany: vi.fn(),
+    },
+    coupon: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    couponUsage: {
+      deleteMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    orderEdit: {
+      create: vi.fn(),
+    },
+    orderEvent: {
+      create: vi.fn(),
+    },
+    refund: {
+      create: vi.fn(),
+    },
+    $transaction: vi.fn((callback: (tx: any) => Promise<any>) => callback(client)),
+  };
+  return { default: client };
+});
+
+vi.mock('@/lib/refund', () => ({
+  processRefund: vi.fn(() => Promise.resolve(true)),
+}));
+
+vi.mock('@/services/InventoryService', () => ({
+  applyStockMovement: vi.fn(() => Promise.resolve(10)),
+}));
+
+vi.mock('@/lib/shipping', () => ({
+  normalizeCountryCode: vi.fn(() => 'ET'),
+  quoteShipments: vi.fn(),
+}));
+
+vi.mock('@/services/PricingService', () => ({
+  requoteOrder: vi.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { processRefund } from '@/lib/refund';
+import { quoteShipments } from '@/lib/shipping';
+import { applyStockMovement } from '@/services/InventoryService';
+import { requoteOrder } from '@/services/PricingService';
+import { editOrder, editVendorOrder, isOrderEditable, settleOrderEdit } from '@/services/OrderEditService';
+
+const placedAt = new Date('2026-10-01T10:00:00Z');
+
+const makeOrder = (overrides: Record<string, unknown> = {}) => ({
+  id: 'order-1',
+  orderNumber: 'MIN-1',
+  userId: 'user-1',
+  status: 'paid',
+  paymentStatus: 'completed',
+  paymentMethod: 'TeleBirr',
+  createdAt: placedAt,
+  updatedAt: placedAt,
+  subtotal: 500,
+  discountAmount: 50,
+  shippingAmount: 100,
+  taxAmount: 0,
+  protectionFee: 0,
+  insuranceFee: 0,
+  totalAmount: 550,
+  balanceDue: 0,
+  couponId: null,
+  coupon: null,
+  promotionIds: ['promo-1'],
+  shippingAddress: { city: 'Addis Ababa', line1: 'Bole Road' },
+  pricingBreakdown: { discountAmount: 50, adjustments: [] },
+  orderItems: [
+    { id: 'item-1', vendorId: 'vendor-a', vendorOrderId: 'vo-a', productId: 'p-1', variantId: null, productName: 'Coffee mug', quantity: 2, price: 100 },
+    { id: 'item-2', vendorId: 'vendor-b', vendorOrderId: 'vo-b', productId: 'p-2', variantId: null, productName: 'Scarf', quantity: 1, price: 300 },
+  ],
+  vendorOrders: [
+    { id: 'vo-a', vendorId: 'vendor-a', number: 'MIN-1-1', status: 'pending', shippingAmount: 50, shippingMethodId: 'method-1' },
+    { id: 'vo-b', vendorId: 'vendor-b', number: 'MIN-1-2', status: 'pending', shippingAmount: 50, shippingMethodId: 'method-1' },
+  ],
+  ...overrides,
+});
+
+const mugQuote = (quantity: number, discount: number) => ({
+  subtotal: 100 * quantity,
+  discountAmount: discount,
+  total: 100 * quantity - discount,
+  freeShipping: false,
+  lines: [{ productId: 'p-1', variantId: null, name: 'Coffee mug', quantity, unitPrice: 100, subtotal: 100 * quantity, discount, total: 100 * quantity - discount, adjustments: [] }],
+  adjustments: discount > 0 ? [{ type: 'promotion', sourceId: 'promo-1', name: 'Mug week', amount: discount, description: '10% off' }] : [],
+  skippedPromotions: [],
+  promotionIds: discount > 0 ? ['promo-1'] : [],
+  couponId: null,
+  coupon: null,
+});
+
+describe('Order edit helpers', () => {
+  it('only allows edits before fulfilment starts', () => {
+    expect(isOrderEditable('pending')).toBe(true);
+    expect(isOrderEditable('paid')).toBe(true);
+    expect(isOrderEditable('confirmed')).toBe(true);
+    expect(isOrderEditable('processing')).toBe(false);
+    expect(isOrderEditable('cancelled')).toBe(false);
+  });
+
+  it('settles nothing on an unpaid order', () => {
+    expect(settleOrderEdit(550, 230, 0, false)).toEqual({ refundAmount: 0, balanceChange: 0 });
+  });
+
+  it('refunds a lower total on a paid order', () => {
+    expect(settleOrderEdit(550, 230, 0, true)).toEqual({ refundAmount: 320, balanceChange: 0 });
+  });
+
+  it('clears the balance due before refunding', () => {
+    expect(settleOrderEdit(650, 500, 100, true)).toEqual({ refundAmount: 50, balanceChange: -100 });
+    expect(settleOrderEdit(650, 600, 100, true)).toEqual({ refundAmount: 0, balanceChange: -50 });
+  });
+
+  it('adds a higher total to the balance due', () => {
+    expect(settleOrderEdit(550, 650, 0, true)).toEqual({ refundAmount: 0, balanceChange: 100 });
+  });
+});
+
+describe('editOrder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.inventoryReservation.findMany as any).mockResolvedValue([]);
+    (prisma.order.update as any).mockImplementation(({ data }: any) =>
+      Promise.resolve({ ...makeOrder(), ...data })
+    );
+    (prisma.orderEdit.create as any).mockImplementation(({ data }: any) => Promise.resolve({ id: 'edit-1', ...data }));
+    (prisma.order.updateMany as any).mockResolvedValue({ count: 1 });
+    (prisma.refund.create as any).mockResolvedValue({ id: 'refund-1' });
+    (quoteShipments as any).mockResolvedValue({
+      shipments: [{ vendorId: 'vendor-a', selected: { rate: 50, methodId: 'method-1' } }],
+      shippingAmount: 50,
+      unavailableVendorIds: [],
+    });
+  });
+
+  it('only finds the buyer\'s own orders', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(null);
+
+    await expect(
+      editOrder('user-2', 'order-1', { items: [{ orderItemId: 'item-2', quantity: 0 }] })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('rejects edits once the order is being fulfilled', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder({ status: 'processing' }));
+
+    await expect(
+      editOrder('user-1', 'order-1', { items: [{ orderItemId: 'item-2', quantity: 0 }] })
+    ).rejects.toMatchObject({ statusCode: 400, errorCode: 'ORDER_NOT_EDITABLE' });
+  });
+
+  it('rejects edits of a line whose vendor order is already being processed', async () => {
+    const order = makeOrder();
+    order.vendorOrders[1].status = 'packed';
+    (prisma.order.findFirst as any).mockResolvedValue(order);
+
+    await expect(
+      editOrder('user-1', 'order-1', { items: [{ orderItemId: 'item-2', quantity: 0 }] })
+    ).rejects.toMatchObject({ errorCode: 'ORDER_NOT_EDITABLE' });
+  });
+
+  it('rejects an edit that changes nothing', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder());
+
+    await expect(
+      editOrder('user-1', 'order-1', { items: [{ orderItemId: 'item-1', quantity: 2 }] })
+    ).rejects.toMatchObject({ errorCode: 'EMPTY_ORDER_EDIT' });
+  });
+
+  it('cancels a line, re-prices at the order\'s prices and refunds the difference', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder());
+    (requoteOrder as any).mockResolvedValue(mugQuote(2, 20));
+
+    const { order, edit } = await editOrder('user-1', 'order-1', {
+      items: [{ orderItemId: 'item-2', quantity: 0 }],
+    });
+
+    expect(requoteOrder).toHaveBeenCalledWith({
+      lines: [{ productId: 'p-1', variantId: null, name: 'Coffee mug', unitPrice: 100, quantity: 2 }],
+      pricedAt: placedAt,
+      promotionIds: ['promo-1'],
+      couponId: null,
+      flashAdjustments: [],
+    });
+    // 200 - 20 discount + 50 shipping for the mug; the scarf's shipment is gone
+    expect(order.totalAmount).toBe('230.00');
+    expect(order.shippingAmount).toBe('50.00');
+    expect(prisma.order.updateMany).toHaveBeenCalledWith({
+      where: { id: 'order-1', updatedAt: placedAt },
+      data: { updatedAt: expect.any(Date) },
+    });
+    expect(prisma.refund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ orderId: 'order-1', amount: '320.00', status: 'pending', provider: 'TeleBirr' }),
+    });
+    expect(processRefund).toHaveBeenCalledWith('refund-1');
+    expect(edit).toMatchObject({ previousTotal: '550.00', newTotal: '230.00', refundAmount: '320.00', refundId: 'refund-1' });
+
+    expect(applyStockMovement).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({ productId: 'p-2', quantity: 1, type: 'adjustment', referenceType: 'order_edit' })
+    );
+    expect(prisma.orderItem.update).toHaveBeenCalledWith({
+      where: { id: 'item-2' },
+      data: { quantity: 0, cancelledQuantity: { increment: 1 }, total: '0.00' },
+    });
+    expect(prisma.vendorOrder.update).toHaveBeenCalledWith({
+      where: { id: 'vo-b' },
+      data: expect.objectContaining({ status: 'cancelled', subtotal: '0.00', shippingAmount: '0.00' }),
+    });
+    expect(prisma.orderEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ orderId: 'order-1', eventType: 'order_edited', description: 'Cancelled Scarf' }),
+    });
+  });
+
+  it('does not refund an order another edit changed at the same time', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder());
+    (requoteOrder as any).mockResolvedValue(mugQuote(2, 20));
+    (prisma.order.updateMany as any).mockResolvedValue({ count: 0 });
+
+    await expect(
+      editOrder('user-1', 'order-1', { items: [{ orderItemId: 'item-2', quantity: 0 }] })
+    ).rejects.toMatchObject({ statusCode: 409, errorCode: 'ORDER_EDIT_CONFLICT' });
+    expect(prisma.refund.create).not.toHaveBeenCalled();
+    expect(prisma.orderItem.update).not.toHaveBeenCalled();
+    expect(processRefund).not.toHaveBeenCalled();
+  });
+
+  it('releases the order\'s inventory reservation before restocking', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder({ paymentStatus: 'pending', status: 'pending' }));
+    (requoteOrder as any).mockResolvedValue(mugQuote(2, 20));
+    (prisma.inventoryReservation.findMany as any).mockResolvedValue([{ id: 'res-1', quantity: 1 }]);
+
+    await editOrder('user-1', 'order-1', { items: [{ orderItemId: 'item-2', quantity: 0 }] });
+
+    expect(prisma.inventoryReservation.update).toHaveBeenCalledWith({
+      where: { id: 'res-1' },
+      data: { status: 'released', releasedAt: expect.any(Date) },
+    });
+    expect(applyStockMovement).not.toHaveBeenCalled();
+    // Nothing was paid, so nothing is refunded
+    expect(prisma.refund.create).not.toHaveBeenCalled();
+  });
+
+  it('drops a coupon the edited order no longer qualifies for', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(
+      makeOrder({ couponId: 'coupon-1', coupon: { id: 'coupon-1', code: 'SAVE50' } })
+    );
+    (requoteOrder as any).mockResolvedValue({
+      ...mugQuote(2, 0),
+      couponError: 'Minimum purchase of 400 ETB required',
+    });
+
+    const { order, edit } = await editOrder('user-1', 'order-1', {
+      items: [{ orderItemId: 'item-2', quantity: 0 }],
+    });
+
+    expect(order.couponId).toBeNull();
+    expect(prisma.couponUsage.deleteMany).toHaveBeenCalledWith({ where: { orderId: 'order-1', couponId: 'coupon-1' } });
+    expect(prisma.coupon.update).toHaveBeenCalledWith({
+      where: { id: 'coupon-1' },
+      data: { usageCount: { decrement: 1 } },
+    });
+    expect(edit.changes).toMatchObject({
+      couponRemoved: { code: 'SAVE50', reason: 'Minimum purchase of 400 ETB required' },
+    });
+  });
+
+  it('refuses to raise the total of a paid order', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder());
+    (prisma.product.findUnique as any).mockResolvedValue({ stockQuantity: 5 });
+    (requoteOrder as any).mockResolvedValue({
+      ...mugQuote(3, 30),
+      subtotal: 600,
+      total: 570,
+    });
+
+    // 600 - 30 discount + 100 shipping, up from 550
+    await expect(
+      editOrder('user-1', 'order-1', { items: [{ orderItemId: 'item-1', quantity: 3 }] })
+    ).rejects.toMatchObject({
+      errorCode: 'ORDER_EDIT_RAISES_PAID_TOTAL',
+      details: { previousTotal: 550, totalAmount: 670 },
+    });
+    expect(prisma.order.update).not.toHaveBeenCalled();
+    expect(applyStockMovement).not.toHaveBeenCalled();
+  });
+
+  it('raises quantities on an order that is not paid yet', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder({ status: 'pending', paymentStatus: 'pending' }));
+    (prisma.product.findUnique as any).mockResolvedValue({ stockQuantity: 5 });
+    (requoteOrder as any).mockResolvedValue({
+      ...mugQuote(3, 30),
+      subtotal: 600,
+      total: 570,
+    });
+
+    const { order, edit } = await editOrder('user-1', 'order-1', {
+      items: [{ orderItemId: 'item-1', quantity: 3 }],
+    });
+
+    expect(order.totalAmount).toBe('670.00');
+    expect(edit.balanceDue).toBe('0.00');
+    expect(prisma.refund.create).not.toHaveBeenCalled();
+    expect(applyStockMovement).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({ productId: 'p-1', quantity: -1, type: 'sale' })
+    );
+  });
+
+  it('rejects added units that are not in stock', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder());
+    (prisma.product.findUnique as any).mockResolvedValue({ stockQuantity: 0 });
+
+    await expect(
+      editOrder('user-1', 'order-1', { items: [{ orderItemId: 'item-1', quantity: 3 }] })
+    ).rejects.toMatchObject({ errorCode: 'INSUFFICIENT_STOCK' });
+    expect(requoteOrder).not.toHaveBeenCalled();
+  });
+
+  it('cancels and fully refunds the order when every line is cancelled', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder());
+
+    const { order } = await editOrder('user-1', 'order-1', {
+      items: [
+        { orderItemId: 'item-1', quantity: 0 },
+        { orderItemId: 'item-2', quantity: 0 },
+      ],
+    });
+
+    expect(requoteOrder).not.toHaveBeenCalled();
+    expect(order.status).toBe('cancelled');
+    expect(order.totalAmount).toBe('0.00');
+    expect(prisma.refund.create).toHaveBeenCalledWith({ data: expect.objectContaining({ amount: '550.00' }) });
+  });
+
+  it('re-quotes every shipment for a new address', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder({ status: 'pending', paymentStatus: 'pending' }));
+    (requoteOrder as any).mockResolvedValue({
+      ...mugQuote(2, 20),
+      subtotal: 500,
+      total: 450,
+      discountAmount: 50,
+    });
+    (quoteShipments as any).mockResolvedValue({
+      shipments: [
+        { vendorId: 'vendor-a', selected: { rate: 80, methodId: 'method-1' } },
+        { vendorId: 'vendor-b', selected: { rate: 80, methodId: 'method-1' } },
+      ],
+      shippingAmount: 160,
+      unavailableVendorIds: [],
+    });
+
+    const { order } = await editOrder('user-1', 'order-1', {
+      shippingAddress: { city: 'Bahir Dar', line1: 'Kebele 4' },
+    });
+
+    expect(order.shippingAddress).toEqual({ city: 'Bahir Dar', line1: 'Kebele 4' });
+    expect(order.shippingAmount).toBe('160.00');
+    expect(order.totalAmount).toBe('610.00');
+  });
+
+  it('rejects a new address no vendor delivers to', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(makeOrder());
+    (requoteOrder as any).mockResolvedValue(mugQuote(2, 20));
+    (quoteShipments as any).mockResolvedValue({ shipments: [], shippingAmount: 0, unavailableVendorIds: ['vendor-b'] });
+
+    await expect(
+      editOrder('user-1', 'order-1', { shippingAddress: { city: 'Jinka' } })
+    ).rejects.toMatchObject({ errorCode: 'SHIPPING_UNAVAILABLE' });
+    expect(prisma.refund.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('editVendorOrder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.vendorOrder.findFirst as any).mockResolvedValue({ orderId: 'order-1' });
+    (prisma.order.findUnique as any).mockResolvedValue(makeOrder());
+  });
+
+  it('only lets the buyer change the address', async () => {
+    await expect(
+      editVendorOrder('vendor-a', 'vo-a', 'actor-1', { shippingAddress: { city: 'Adama' } })
+    ).rejects.toMatchObject({ errorCode: 'ADDRESS_CHANGE_NOT_ALLOWED' });
+  });
+
+  it('does not let vendors raise quantities', async () => {
+    await expect(
+      editVendorOrder('vendor-a', 'vo-a', 'actor-1', { items: [{ orderItemId: 'item-1', quantity: 5 }] })
+    ).rejects.toMatchObject({ errorCode: 'QUANTITY_INCREASE_NOT_ALLOWED' });
+  });
+
+  it('only reaches the vendor\'s own lines', async () => {
+    await expect(
+      editVendorOrder('vendor-a', 'vo-a', 'actor-1', { items: [{ orderItemId: 'item-2', quantity: 0 }] })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('requoteOrder', () => {
+  let realRequoteOrder: typeof requoteOrder;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    ({ requoteOrder: realRequoteOrder } = await vi.importActual<typeof import('@/services/PricingService')>(
+      '@/services/PricingService'
+    ));
+    (prisma.product.findMany as any).mockResolvedValue([{ id: 'p-1', categoryId: 'cat-1' }]);
+    (prisma.tieredPricing.findMany as any).mockResolvedValue([]);
+    (prisma.promotion.findMany as any).mockResolvedValue([]);
+    (prisma.flashSale.findMany as any).mockResolvedValue([]);
+  });
+
+  const line = (quantity: number) => ({ productId: 'p-1', variantId: null, name: 'Coffee mug', unitPrice: 100, quantity });
+
+  it('keeps the coupon while the order still meets its minimum', async () => {
+    (prisma.coupon.findUnique as any).mockResolvedValue({
+      id: 'coupon-1',
+      code: 'SAVE10',
+      discountType: 'percentage',
+      discountValue: 10,
+      minimumPurchase: 200,
+      maximumDiscount: null,
+    });
+
+    const quote = await realRequoteOrder({ lines: [line(3)], pricedAt: placedAt, promotionIds: [], couponId: 'coupon-1' });
+
+    expect(quote.couponId).toBe('coupon-1');
+    expect(quote.total).toBe(270);
+  });
+
+  it('drops the coupon below its minimum', async () => {
+    (prisma.coupon.findUnique as any).mockResolvedValue({
+      id: 'coupon-1',
+      code: 'SAVE10',
+      discountType: 'percentage',
+      discountValue: 10,
+      minimumPurchase: 200,
+      maximumDiscount: null,
+    });
+
+    const quote = await realRequoteOrder({ lines: [line(1)], pricedAt: placedAt, promotionIds: [], couponId: 'coupon-1' });
+
+    expect(quote.coupon).toBeNull();
+    expect(quote.couponError).toBe('Minimum purchase of 200 ETB required');
+    expect(quote.total).toBe(100);
+  });
+
+  it('keeps flash prices, for no more units than were sold at them', async () => {
+    (prisma.flashSale.findMany as any).mockResolvedValue([
+      {
+        id: 'flash-1',
+        name: 'Mug rush',
+        productId: 'p-1',
+        flashPrice: 80,
+        stockLimit: 100,
+        stockSold: 100,
+        // Long over, and sold out since
+        startsAt: new Date('2026-09-30T00:00:00Z'),
+        endsAt: new Date('2026-10-02T00:00:00Z'),
+        isActive: false,
+      },
+    ]);
+
+    const quote = await realRequoteOrder({
+      lines: [line(3)],
+      pricedAt: placedAt,
+      promotionIds: [],
+      flashAdjustments: [{ type: 'flash', sourceId: 'flash-1', name: 'Mug rush', amount: 40, quantity: 2, description: '' }],
+    });
+
+    expect(quote.total).toBe(260);
+  });
+});
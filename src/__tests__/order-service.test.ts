@@ -25,16 +25,42 @@ vi.mock('@/lib/prisma', () => {
       user: {
         findUnique: vi.fn(),
       },
+      flashSale: {
+        findMany: vi.fn(),
+      },
+      tieredPricing: {
+        findMany: vi.fn(),
+      },
+      promotion: {
+        findMany: vi.fn(),
+      },
+      coupon: {
+        findUnique: vi.fn(),
+      },
+      shippingZone: {
+        findMany: vi.fn(),
+      },
+      shippingRate: {
+        findMany: vi.fn(),
+      },
       $transaction: vi.fn(),
     },
   };
 });
 
+vi.mock('@/lib/cache', () => ({
+  getOrSetCache: vi.fn((key: string, fn: () => Promise<any>) => fn()),
+}));
+
 vi.mock('@/lib/email', () => ({
   sendEmail: vi.fn(() => Promise.resolve()),
   createOrderConfirmationEmail: vi.fn(() => ({})),
 }));
 
+vi.mock('@/services/VendorOrderService', () => ({
+  createVendorOrders: vi.fn(),
+}));
+
 import prisma from '@/lib/prisma';
 import { sendEmail } from '@/lib/email';
 import {
@@ -47,6 +73,9 @@ import {
 describe('Order Service', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(prisma.flashSale.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.tieredPricing.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.promotion.findMany).mockResolvedValue([]);
   });
 
   describe('getUserOrders', () => {
@@ -78,12 +107,23 @@ describe('Order Service', () => {
           orderItems: {
             select: {
               id: true,
+              vendorOrderId: true,
               productName: true,
               quantity: true,
               price: true,
               total: true,
             },
           },
+          vendorOrders: {
+            select: {
+              id: true,
+              number: true,
+              status: true,
+              shippingAmount: true,
+              vendor: { select: { displayName: true } },
+            },
+            orderBy: { number: 'asc' },
+          },
         },
         orderBy: { createdAt: 'desc' },
       });
@@ -100,9 +140,10 @@ describe('Order Service', () => {
   });
 
   describe('createOrder', () => {
+    // Digital, so only the shipping tests need an address and a shipping quote
     const mockProducts = [
-      { id: 'prod-1', name: 'Product 1', price: 100, sku: 'SKU-1', vendorId: 'vendor-1' },
-      { id: 'prod-2', name: 'Product 2', price: 50, sku: 'SKU-2', vendorId: 'vendor-2' },
+      { id: 'prod-1', name: 'Product 1', price: 100, sku: 'SKU-1', vendorId: 'vendor-1', isDigital: true },
+      { id: 'prod-2', name: 'Product 2', price: 50, sku: 'SKU-2', vendorId: 'vendor-2', isDigital: true },
     ];
 
     it('should create order with COD payment method', async () => {
@@ -229,6 +270,66 @@ describe('Order Service', () => {
       expect(result.order.totalAmount).toBe('250.00');
     });
 
+    it('should refuse to charge without a coupon the customer was quoted', async () => {
+      vi.mocked(prisma.product.findMany).mockResolvedValue([mockProducts[0]] as any);
+      vi.mocked(prisma.coupon.findUnique).mockResolvedValue({
+        id: 'coupon-1',
+        code: 'SAVE10',
+        status: 'active',
+        expiresAt: new Date('2020-01-01'),
+      } as any);
+
+      const result = await createOrder({
+        userId: 'user-1',
+        items: [{ id: 'prod-1', quantity: 1 }],
+        couponCode: 'SAVE10',
+        paymentMethod: 'COD',
+      });
+
+      expect(result).toEqual({ success: false, error: 'This coupon has expired' });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should fail the order when the coupon runs out during checkout', async () => {
+      vi.mocked(prisma.product.findMany).mockResolvedValue([mockProducts[0]] as any);
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({ stockQuantity: 100 } as any);
+      vi.mocked(prisma.coupon.findUnique).mockResolvedValue({
+        id: 'coupon-1',
+        code: 'SAVE10',
+        status: 'active',
+        discountType: 'fixed_amount',
+        discountValue: 10,
+        usageLimit: 5,
+        usageCount: 4,
+        expiresAt: null,
+      } as any);
+
+      const tx = {
+        product: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+        order: { create: vi.fn().mockResolvedValue({ id: 'order-1', orderItems: [] }) },
+        coupon: {
+          findUnique: vi.fn().mockResolvedValue({ usageLimit: 5 }),
+          updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+        },
+        couponUsage: { create: vi.fn() },
+      };
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => callback(tx));
+
+      const result = await createOrder({
+        userId: 'user-1',
+        items: [{ id: 'prod-1', quantity: 1 }],
+        couponCode: 'SAVE10',
+        paymentMethod: 'COD',
+      });
+
+      expect(tx.coupon.updateMany).toHaveBeenCalledWith({
+        where: { id: 'coupon-1', usageCount: { lt: 5 } },
+        data: { usageCount: { increment: 1 } },
+      });
+      expect(tx.couponUsage.create).not.toHaveBeenCalled();
+      expect(result).toEqual({ success: false, error: 'This coupon has reached its usage limit' });
+    });
+
     it('should handle shipping address', async () => {
       const mockOrder = {
         id: 'order-1',
@@ -241,8 +342,29 @@ describe('Order Service', () => {
         orderItems: [],
       };
 
-      vi.mocked(prisma.product.findMany).mockResolvedValue([mockProducts[0]] as any);
+      vi.mocked(prisma.product.findMany).mockResolvedValue([{
+        ...mockProducts[0],
+        isDigital: false,
+        weight: 1,
+        dimensions: null,
+        vendor: { displayName: 'Vendor 1', city: 'Adama', country: 'Ethiopia' },
+      }] as any);
       vi.mocked(prisma.product.findUnique).mockResolvedValue({ stockQuantity: 100 } as any);
+      vi.mocked(prisma.shippingZone.findMany).mockResolvedValue([
+        { id: 'zone-et', countries: ['ET'], regions: [], cities: [], postalCodes: [] },
+      ] as any);
+      vi.mocked(prisma.shippingRate.findMany).mockResolvedValue([{
+        id: 'rate-1',
+        zoneId: 'zone-et',
+        originZoneId: null,
+        methodId: 'method-1',
+        baseRate: 50,
+        perKgRate: null,
+        freeShippingThreshold: null,
+        codFee: 10,
+        codFeePercent: null,
+        method: { name: 'Standard', isActive: true, supportsCod: true, volumetricDivisor: 5000 },
+      }] as any);
       vi.mocked(prisma.$transaction).mockResolvedValue(mockOrder);
       vi.mocked(prisma.user.findUnique).mockResolvedValue({ email: 'test@example.com' } as any);
 
@@ -258,6 +380,46 @@ describe('Order Service', () => {
       });
 
       expect(result.success).toBe(true);
+      const rateQuery = vi.mocked(prisma.shippingRate.findMany).mock.calls[0][0] as any;
+      expect(rateQuery.where.zoneId).toBe('zone-et');
+    });
+
+    it('should require a shipping address for physical items', async () => {
+      vi.mocked(prisma.product.findMany).mockResolvedValue([{ ...mockProducts[0], isDigital: false }] as any);
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({ stockQuantity: 100 } as any);
+
+      const result = await createOrder({
+        userId: 'user-1',
+        items: [{ id: 'prod-1', quantity: 1 }],
+        paymentMethod: 'COD',
+        shippingAddress: { name: 'John Doe', line1: '123 Main St' },
+      });
+
+      expect(result).toMatchObject({ success: false, statusCode: 422, details: { productIds: ['prod-1'] } });
+      expect(prisma.shippingRate.findMany).not.toHaveBeenCalled();
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject items no shipping method delivers', async () => {
+      vi.mocked(prisma.product.findMany).mockResolvedValue([{
+        ...mockProducts[0],
+        isDigital: false,
+        weight: 1,
+        dimensions: null,
+        vendor: { displayName: 'Vendor 1', city: 'Adama', country: 'ET' },
+      }] as any);
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({ stockQuantity: 100 } as any);
+      vi.mocked(prisma.shippingZone.findMany).mockResolvedValue([]);
+
+      const result = await createOrder({
+        userId: 'user-1',
+        items: [{ id: 'prod-1', quantity: 1 }],
+        paymentMethod: 'COD',
+        shippingAddress: { city: 'Gambela' },
+      });
+
+      expect(result).toMatchObject({ success: false, details: { vendorIds: ['vendor-1'] } });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
     });
 
     it('should handle transaction errors', async () => {
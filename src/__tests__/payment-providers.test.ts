@@ -0,0 +1,123 @@
+/**
+ * Unit Tests: Payment Provider Adapters
+ *
+ * Runs the TeleBirr, CBE Birr and Awash adapters against the local mock
+ * provider server: initiating payments, verifying and parsing callbacks,
+ * querying status and refunding through processAutoRefund.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getPaymentProvider, PAYMENT_PROVIDER_IDS } from '@/lib/payment-providers';
+import { startMockProviderServer, type MockProviderServer } from '@/lib/payment-providers/mock-server';
+import { processAutoRefund } from '@/lib/payment-refund';
+
+const SECRET = 'provider-test-secret';
+
+let server: MockProviderServer;
+
+const paymentRequest = (orderNumber: string) => ({
+  orderId: `id-${orderNumber}`,
+  orderNumber,
+  amount: 1250.5,
+  currency: 'ETB',
+  customerPhone: '0911000000',
+  callbackUrl: 'http://localhost:3000/api/payments/webhook',
+});
+
+describe('Payment Provider Adapters', () => {
+  beforeAll(async () => {
+    server = await startMockProviderServer({ secret: SECRET });
+    process.env.PAYMENT_WEBHOOK_SECRET = SECRET;
+    process.env.TELEBIRR_API_URL = server.baseUrls.telebirr;
+    process.env.TELEBIRR_API_KEY = 'tb-key';
+    process.env.CBE_API_URL = server.baseUrls.cbe;
+    process.env.CBE_API_KEY = 'cbe-key';
+    process.env.AWASH_API_URL = server.baseUrls.awash;
+    process.env.AWASH_API_KEY = 'awash-key';
+  });
+
+  afterAll(async () => {
+    await server.close();
+    for (const name of ['TELEBIRR', 'CBE', 'AWASH']) {
+      delete process.env[`${name}_API_URL`];
+      delete process.env[`${name}_API_KEY`];
+    }
+  });
+
+  it('should resolve payment method spellings to adapters', () => {
+    expect(getPaymentProvider('TeleBirr')?.id).toBe('telebirr');
+    expect(getPaymentProvider('CBE')?.id).toBe('cbe');
+    expect(getPaymentProvider('cbe-birr')?.id).toBe('cbe');
+    expect(getPaymentProvider('Awash')?.id).toBe('awash');
+    expect(getPaymentProvider('stripe')).toBeNull();
+    expect(getPaymentProvider('COD')).toBeNull();
+  });
+
+  describe.each(PAYMENT_PROVIDER_IDS)('%s', (id) => {
+    const provider = getPaymentProvider(id)!;
+    const orderNumber = `MIN-${id}-1`;
+    let reference: string;
+
+    it('should initiate a pending payment', async () => {
+      const result = await provider.initiate(paymentRequest(orderNumber));
+      reference = result.reference;
+
+      expect(server.payments.get(reference)).toMatchObject({ orderNumber, amount: '1250.50', status: 'pending' });
+      expect(await provider.queryStatus(reference)).toMatchObject({ reference, status: 'pending' });
+    });
+
+    it('should verify and parse the signed completion callback', async () => {
+      server.setStatus(reference, 'completed');
+      const { body, headers } = server.callback(reference);
+
+      expect(provider.verifyCallback(body, new Headers(headers))).toBe(true);
+      expect(provider.verifyCallback(body.replace('1250.50', '1.00'), new Headers(headers))).toBe(false);
+      expect(provider.parseCallback(JSON.parse(body))).toMatchObject({
+        status: 'completed',
+        orderNumber,
+        paymentReference: reference,
+        amount: '1250.50',
+      });
+      expect(await provider.queryStatus(reference)).toMatchObject({ status: 'completed', amount: 1250.5 });
+    });
+
+    it('should refund a settled payment through processAutoRefund', async () => {
+      const result = await processAutoRefund(`id-${orderNumber}`, 500, id, reference, `refund-${id}`);
+
+      expect(result).toMatchObject({ success: true, amount: 500, transactionId: reference });
+      expect(result.refundId).toBeTruthy();
+      expect(server.payments.get(reference)?.refunds).toEqual([
+        expect.objectContaining({ id: result.refundId, amount: '500.00' }),
+      ]);
+    });
+  });
+
+  it('should refund orders paid with an older spelling of the method', async () => {
+    const provider = getPaymentProvider('awash')!;
+    const { reference } = await provider.initiate(paymentRequest('MIN-awash-bank'));
+    server.setStatus(reference, 'completed');
+
+    const result = await processAutoRefund('id-MIN-awash-bank', 100, 'awash_bank', reference, 'refund-awash-bank');
+
+    expect(result).toMatchObject({ success: true, amount: 100 });
+    expect(server.payments.get(reference)?.refunds).toHaveLength(1);
+  });
+
+  it('should not refund payments the provider has not settled', async () => {
+    const provider = getPaymentProvider('cbe')!;
+    const { reference } = await provider.initiate(paymentRequest('MIN-unpaid'));
+
+    const result = await provider.refund({ reference, amount: 100, refundReference: 'rf-1' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/not settled/);
+  });
+
+  it('should surface provider errors as PaymentProviderError', async () => {
+    await expect(getPaymentProvider('awash')!.queryStatus('AWB-missing')).rejects.toMatchObject({
+      statusCode: 502,
+      errorCode: 'PAYMENT_PROVIDER_ERROR',
+      message: 'awash: Transaction not found',
+    });
+  });
+});
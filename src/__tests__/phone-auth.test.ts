@@ -0,0 +1,299 @@
+/**
+ * Unit Tests: Phone Authentication
+ *
+ * Tests OTP issuing and throttling, phone registration, passwordless login
+ * and linking phones and emails to existing accounts.
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    phoneOtp: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/sms', () => ({
+  sendSMS: vi.fn(),
+  formatEthiopianPhone: vi.fn((phone: string) => `+251${phone.replace(/^(\+?251|0)/, '')}`),
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendEmail: vi.fn(),
+  createEmailVerificationEmail: vi.fn((to: string) => ({ to, subject: 'Verify', html: '', text: '' })),
+}));
+
+import prisma from '@/lib/prisma';
+import { sendSMS } from '@/lib/sms';
+import { sendEmail } from '@/lib/email';
+import {
+  MAX_PHONE_OTP_ATTEMPTS,
+  MAX_PHONE_OTPS_PER_HOUR,
+  confirmPhoneLink,
+  linkEmail,
+  loginWithPhoneOtp,
+  registerWithPhone,
+  requestPhoneLink,
+  requestPhoneOtp,
+  verifyPhoneOtp,
+} from '@/services/PhoneAuthService';
+
+const PHONE = '+251911234567';
+
+function otpRecord(code: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'otp-1',
+    phone: PHONE,
+    purpose: 'login',
+    userId: 'user-1',
+    codeHash: crypto.createHash('sha256').update(code).digest('hex'),
+    attempts: 0,
+    expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+    consumedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function sentCode(): string {
+  const message = vi.mocked(sendSMS).mock.calls[0][0].message;
+  return message.match(/\d{6}/)![0];
+}
+
+describe('Phone authentication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.phoneOtp.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.phoneOtp.create).mockResolvedValue({} as any);
+    vi.mocked(prisma.phoneOtp.updateMany).mockResolvedValue({ count: 1 } as any);
+    vi.mocked(sendSMS).mockResolvedValue(true);
+  });
+
+  describe('requestPhoneOtp', () => {
+    it('texts a registration code to a new number and stores only its hash', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+
+      const result = await requestPhoneOtp('0911234567', 'register');
+
+      expect(result.phone).toBe(PHONE);
+      const code = sentCode();
+      const stored = vi.mocked(prisma.phoneOtp.create).mock.calls[0][0].data;
+      expect(stored.codeHash).not.toContain(code);
+      expect(stored).toMatchObject({ phone: PHONE, purpose: 'register', userId: null });
+    });
+
+    it('refuses to register a number that already has an account', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' } as any);
+
+      await expect(requestPhoneOtp('0911234567', 'register')).rejects.toMatchObject({
+        statusCode: 409,
+        errorCode: 'PHONE_ALREADY_REGISTERED',
+      });
+      expect(sendSMS).not.toHaveBeenCalled();
+    });
+
+    it('answers login requests for unknown numbers without sending anything', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+
+      const result = await requestPhoneOtp('0911234567', 'login');
+
+      expect(result.phone).toBe(PHONE);
+      expect(sendSMS).not.toHaveBeenCalled();
+      expect(prisma.phoneOtp.create).not.toHaveBeenCalled();
+    });
+
+    it('makes the user wait before resending', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.phoneOtp.findMany).mockResolvedValue([{ createdAt: new Date() }] as any);
+
+      await expect(requestPhoneOtp('0911234567', 'register')).rejects.toMatchObject({
+        statusCode: 429,
+        errorCode: 'OTP_RESEND_TOO_SOON',
+      });
+    });
+
+    it('caps the number of codes per hour', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+      const old = new Date(Date.now() - 10 * 60 * 1000);
+      vi.mocked(prisma.phoneOtp.findMany).mockResolvedValue(
+        Array.from({ length: MAX_PHONE_OTPS_PER_HOUR }, () => ({ createdAt: old })) as any
+      );
+
+      await expect(requestPhoneOtp('0911234567', 'register')).rejects.toMatchObject({
+        errorCode: 'TOO_MANY_OTP_REQUESTS',
+      });
+    });
+
+    it('reports SMS delivery failures', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+      vi.mocked(sendSMS).mockResolvedValue(false);
+
+      await expect(requestPhoneOtp('0911234567', 'register')).rejects.toMatchObject({
+        statusCode: 502,
+        errorCode: 'SMS_SEND_FAILED',
+      });
+    });
+  });
+
+  describe('verifyPhoneOtp', () => {
+    it('consumes a correct code', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(otpRecord('123456') as any);
+
+      await verifyPhoneOtp(PHONE, 'login', '123456');
+
+      expect(prisma.phoneOtp.updateMany).toHaveBeenCalledWith({
+        where: { id: 'otp-1', consumedAt: null },
+        data: { consumedAt: expect.any(Date) },
+      });
+    });
+
+    it('counts wrong codes', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(otpRecord('123456') as any);
+
+      await expect(verifyPhoneOtp(PHONE, 'login', '654321')).rejects.toMatchObject({ errorCode: 'INVALID_OTP' });
+      expect(prisma.phoneOtp.updateMany).toHaveBeenCalledWith({
+        where: { id: 'otp-1', attempts: { lt: MAX_PHONE_OTP_ATTEMPTS } },
+        data: { attempts: { increment: 1 } },
+      });
+    });
+
+    it('locks a code after too many wrong guesses', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(
+        otpRecord('123456', { attempts: MAX_PHONE_OTP_ATTEMPTS }) as any
+      );
+      // The guess limit is enforced by the conditional update
+      vi.mocked(prisma.phoneOtp.updateMany).mockResolvedValueOnce({ count: 0 } as any);
+
+      await expect(verifyPhoneOtp(PHONE, 'login', '123456')).rejects.toMatchObject({
+        statusCode: 429,
+        errorCode: 'TOO_MANY_ATTEMPTS',
+      });
+      expect(prisma.phoneOtp.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects expired codes', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(
+        otpRecord('123456', { expiresAt: new Date(Date.now() - 1000) }) as any
+      );
+
+      await expect(verifyPhoneOtp(PHONE, 'login', '123456')).rejects.toMatchObject({ errorCode: 'OTP_EXPIRED' });
+    });
+
+    it('rejects a code redeemed concurrently', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(otpRecord('123456') as any);
+      vi.mocked(prisma.phoneOtp.updateMany)
+        .mockResolvedValueOnce({ count: 1 } as any)
+        .mockResolvedValueOnce({ count: 0 } as any);
+
+      await expect(verifyPhoneOtp(PHONE, 'login', '123456')).rejects.toMatchObject({ errorCode: 'OTP_EXPIRED' });
+    });
+  });
+
+  describe('registerWithPhone', () => {
+    it('creates a verified phone account without an email', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(otpRecord('123456', { purpose: 'register', userId: null }) as any);
+      vi.mocked(prisma.user.create).mockResolvedValue({ id: 'user-2' } as any);
+
+      await registerWithPhone({ phone: '0911234567', code: '123456', firstName: 'Abebe', lastName: 'Kebede' });
+
+      const data = vi.mocked(prisma.user.create).mock.calls[0][0].data as any;
+      expect(data.phone).toBe(PHONE);
+      expect(data.phoneVerified).toBeInstanceOf(Date);
+      expect(data.email).toBeUndefined();
+      expect(data.password).toBeTruthy();
+      expect(data.profile.create.displayName).toBe('Abebe Kebede');
+    });
+
+    it('turns a unique violation into a conflict', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(otpRecord('123456', { purpose: 'register', userId: null }) as any);
+      vi.mocked(prisma.user.create).mockRejectedValue({ code: 'P2002' });
+
+      await expect(
+        registerWithPhone({ phone: '0911234567', code: '123456', firstName: 'Abebe', lastName: 'Kebede' })
+      ).rejects.toMatchObject({ errorCode: 'PHONE_ALREADY_REGISTERED' });
+    });
+  });
+
+  describe('loginWithPhoneOtp', () => {
+    it('returns the account the code was sent to', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(otpRecord('123456') as any);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1', phone: PHONE, lockoutUntil: null } as any);
+
+      const user = await loginWithPhoneOtp('0911234567', '123456');
+
+      expect(user.id).toBe('user-1');
+    });
+
+    it('rejects the code if the number has since moved to another account', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(otpRecord('123456') as any);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1', phone: null, lockoutUntil: null } as any);
+
+      await expect(loginWithPhoneOtp('0911234567', '123456')).rejects.toMatchObject({ errorCode: 'INVALID_OTP' });
+    });
+
+    it('respects account lockout', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(otpRecord('123456') as any);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: 'user-1',
+        phone: PHONE,
+        lockoutUntil: new Date(Date.now() + 10 * 60 * 1000),
+      } as any);
+
+      await expect(loginWithPhoneOtp('0911234567', '123456')).rejects.toMatchObject({ errorCode: 'ACCOUNT_LOCKED' });
+    });
+  });
+
+  describe('account linking', () => {
+    it('will not link a phone that belongs to someone else', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'other-user' } as any);
+
+      await expect(requestPhoneLink('user-1', '0911234567')).rejects.toMatchObject({ errorCode: 'PHONE_IN_USE' });
+      expect(sendSMS).not.toHaveBeenCalled();
+    });
+
+    it('links a phone with a code issued to the same user', async () => {
+      vi.mocked(prisma.phoneOtp.findFirst).mockResolvedValue(otpRecord('123456', { purpose: 'link' }) as any);
+      vi.mocked(prisma.user.update).mockResolvedValue({ id: 'user-1', phone: PHONE } as any);
+
+      await confirmPhoneLink('user-1', '0911234567', '123456');
+
+      expect(prisma.phoneOtp.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ purpose: 'link', userId: 'user-1' }) })
+      );
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { phone: PHONE, phoneVerified: expect.any(Date) } })
+      );
+    });
+
+    it('adds an email to a phone account and sends a verification link', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ email: null } as any);
+      vi.mocked(prisma.user.update).mockResolvedValue({} as any);
+
+      await linkEmail('user-1', 'Abebe@Example.com');
+
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ email: 'abebe@example.com' }) })
+      );
+      expect(sendEmail).toHaveBeenCalled();
+    });
+
+    it('does not replace an existing email', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ email: 'old@example.com' } as any);
+
+      await expect(linkEmail('user-1', 'new@example.com')).rejects.toMatchObject({ errorCode: 'EMAIL_ALREADY_SET' });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
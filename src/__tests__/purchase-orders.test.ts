@@ -0,0 +1,276 @@
+/**
+ * Unit Tests: Purchase Orders
+ *
+ * Tests for the vendor purchase-order workflow: status transitions,
+ * totals, partial/full goods receipt and the resulting stock movements.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  return {
+    default: {
+      product: {
+        findMany: vi.fn(),
+      },
+      purchaseOrder: {
+        count: vi.fn(),
+        create: vi.fn(),
+        findFirst: vi.fn(),
+        update: vi.fn(),
+      },
+      $transaction: vi.fn(),
+    },
+  };
+});
+
+import prisma from '@/lib/prisma';
+import {
+  canTransitionPurchaseOrder,
+  calculatePurchaseOrderTotals,
+  applyReceipt,
+  createPurchaseOrder,
+  approvePurchaseOrder,
+  receivePurchaseOrder,
+  type PurchaseOrderItem,
+} from '@/services/PurchaseOrderService';
+
+const baseItems: PurchaseOrderItem[] = [
+  {
+    productId: 'prod-1',
+    variantId: null,
+    productName: 'Coffee Beans',
+    sku: 'CB-1',
+    quantity: 10,
+    unitPrice: 100,
+    receivedQuantity: 0,
+  },
+  {
+    productId: 'prod-2',
+    variantId: 'var-1',
+    productName: 'T-Shirt - Large',
+    sku: 'TS-L',
+    quantity: 5,
+    unitPrice: 50,
+    receivedQuantity: 0,
+  },
+];
+
+describe('Purchase Orders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('canTransitionPurchaseOrder', () => {
+    it('should follow the approval lifecycle', () => {
+      expect(canTransitionPurchaseOrder('draft', 'pending_approval')).toBe(true);
+      expect(canTransitionPurchaseOrder('pending_approval', 'approved')).toBe(true);
+      expect(canTransitionPurchaseOrder('approved', 'sent_to_supplier')).toBe(true);
+      expect(canTransitionPurchaseOrder('sent_to_supplier', 'partially_received')).toBe(true);
+      expect(canTransitionPurchaseOrder('partially_received', 'received')).toBe(true);
+    });
+
+    it('should not allow sending an unapproved PO', () => {
+      expect(canTransitionPurchaseOrder('draft', 'sent_to_supplier')).toBe(false);
+      expect(canTransitionPurchaseOrder('pending_approval', 'sent_to_supplier')).toBe(false);
+    });
+
+    it('should treat received and cancelled as terminal', () => {
+      expect(canTransitionPurchaseOrder('received', 'cancelled')).toBe(false);
+      expect(canTransitionPurchaseOrder('cancelled', 'draft')).toBe(false);
+    });
+  });
+
+  describe('calculatePurchaseOrderTotals', () => {
+    it('should sum line totals and add tax', () => {
+      expect(calculatePurchaseOrderTotals(baseItems, 187.5)).toEqual({
+        subtotal: 1250,
+        taxAmount: 187.5,
+        totalAmount: 1437.5,
+      });
+    });
+  });
+
+  describe('applyReceipt', () => {
+    it('should record a partial receipt', () => {
+      const result = applyReceipt(baseItems, [{ productId: 'prod-1', quantity: 4 }]);
+
+      expect(result.fullyReceived).toBe(false);
+      expect(result.items[0].receivedQuantity).toBe(4);
+      expect(baseItems[0].receivedQuantity).toBe(0);
+    });
+
+    it('should detect a full receipt across lines', () => {
+      const partial = applyReceipt(baseItems, [{ productId: 'prod-1', quantity: 4 }]);
+      const result = applyReceipt(partial.items, [
+        { productId: 'prod-1', quantity: 6 },
+        { productId: 'prod-2', variantId: 'var-1', quantity: 5 },
+      ]);
+
+      expect(result.fullyReceived).toBe(true);
+    });
+
+    it('should reject receiving more than outstanding', () => {
+      expect(() => applyReceipt(baseItems, [{ productId: 'prod-1', quantity: 11 }])).toThrow(
+        /only 10 outstanding/
+      );
+    });
+
+    it('should reject lines that are not on the PO', () => {
+      expect(() => applyReceipt(baseItems, [{ productId: 'prod-2', quantity: 1 }])).toThrow(
+        /not on this purchase order/
+      );
+    });
+  });
+
+  describe('createPurchaseOrder', () => {
+    it('should snapshot product details and compute totals', async () => {
+      (prisma.product.findMany as any).mockResolvedValue([
+        { id: 'prod-1', name: 'Coffee Beans', sku: 'CB-1', variants: [] },
+      ]);
+      (prisma.purchaseOrder.count as any).mockResolvedValue(2);
+      (prisma.purchaseOrder.create as any).mockImplementation(({ data }: any) => data);
+
+      const po: any = await createPurchaseOrder('vendor-user-1', {
+        supplierName: 'Sidama Coffee Union',
+        expectedDelivery: new Date('2026-11-01'),
+        items: [{ productId: 'prod-1', quantity: 10, unitPrice: 100 }],
+      });
+
+      expect(po.poNumber).toMatch(/^PO-\d{4}-003$/);
+      expect(po.status).toBe('draft');
+      expect(po.subtotal).toBe(1000);
+      expect(po.items[0]).toMatchObject({ productName: 'Coffee Beans', receivedQuantity: 0 });
+      expect(prisma.product.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: { in: ['prod-1'] }, vendor: { userId: 'vendor-user-1' } },
+        })
+      );
+    });
+
+    it('should reject products the vendor does not own', async () => {
+      (prisma.product.findMany as any).mockResolvedValue([]);
+
+      await expect(
+        createPurchaseOrder('vendor-user-1', {
+          supplierName: 'Supplier',
+          expectedDelivery: new Date(),
+          items: [{ productId: 'prod-9', quantity: 1, unitPrice: 1 }],
+        })
+      ).rejects.toThrow(/do not belong to you/);
+    });
+  });
+
+  describe('approvePurchaseOrder', () => {
+    it('should refuse to approve a sent PO', async () => {
+      (prisma.purchaseOrder.findFirst as any).mockResolvedValue({
+        id: 'po-1',
+        status: 'sent_to_supplier',
+      });
+
+      await expect(approvePurchaseOrder('vendor-user-1', 'po-1', 'vendor-user-1')).rejects.toThrow(
+        /Cannot move purchase order/
+      );
+      expect(prisma.purchaseOrder.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('receivePurchaseOrder', () => {
+    function mockTransaction(po: any) {
+      const tx = {
+        purchaseOrder: {
+          findFirst: vi.fn().mockResolvedValue(po),
+          updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+          findUnique: vi.fn().mockResolvedValue({ ...po, status: 'partially_received' }),
+        },
+        product: {
+          update: vi.fn(),
+          findUnique: vi.fn().mockResolvedValue({ stockQuantity: 14 }),
+        },
+        productVariant: {
+          update: vi.fn(),
+          findUnique: vi.fn().mockResolvedValue({ stockQuantity: 5 }),
+        },
+        inventoryMovement: {
+          create: vi.fn(),
+        },
+      };
+      (prisma.$transaction as any).mockImplementation(async (callback: any) => callback(tx));
+      return tx;
+    }
+
+    it('should raise stock and log a movement for each received line', async () => {
+      const tx = mockTransaction({
+        id: 'po-1',
+        poNumber: 'PO-2026-001',
+        status: 'sent_to_supplier',
+        warehouseId: 'wh-1',
+        items: baseItems,
+        updatedAt: new Date(),
+      });
+
+      await receivePurchaseOrder('vendor-user-1', 'po-1', [{ productId: 'prod-1', quantity: 4 }], 'vendor-user-1');
+
+      expect(tx.purchaseOrder.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'partially_received' }),
+        })
+      );
+      expect(tx.product.update).toHaveBeenCalledWith({
+        where: { id: 'prod-1' },
+        data: { stockQuantity: { increment: 4 } },
+      });
+      expect(tx.inventoryMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          productId: 'prod-1',
+          warehouseId: 'wh-1',
+          type: 'purchase_receipt',
+          quantity: 4,
+          stockAfter: 14,
+          referenceType: 'purchase_order',
+          referenceId: 'po-1',
+        }),
+      });
+    });
+
+    it('should mark the PO received when every line is complete', async () => {
+      const tx = mockTransaction({
+        id: 'po-1',
+        poNumber: 'PO-2026-001',
+        status: 'partially_received',
+        warehouseId: null,
+        items: [{ ...baseItems[0], receivedQuantity: 10 }, baseItems[1]],
+        updatedAt: new Date(),
+      });
+
+      await receivePurchaseOrder(
+        'vendor-user-1',
+        'po-1',
+        [{ productId: 'prod-2', variantId: 'var-1', quantity: 5 }],
+        'vendor-user-1'
+      );
+
+      const update = tx.purchaseOrder.updateMany.mock.calls[0][0];
+      expect(update.data.status).toBe('received');
+      expect(update.data.actualDelivery).toBeInstanceOf(Date);
+      expect(tx.productVariant.update).toHaveBeenCalledWith({
+        where: { id: 'var-1' },
+        data: { stockQuantity: { increment: 5 } },
+      });
+    });
+
+    it('should not receive goods on an unsent PO', async () => {
+      const tx = mockTransaction({
+        id: 'po-1',
+        status: 'approved',
+        items: baseItems,
+        updatedAt: new Date(),
+      });
+
+      await expect(
+        receivePurchaseOrder('vendor-user-1', 'po-1', [{ productId: 'prod-1', quantity: 1 }], 'u')
+      ).rejects.toThrow(/sent to the supplier/);
+      expect(tx.inventoryMovement.create).not.toHaveBeenCalled();
+    });
+  });
+});
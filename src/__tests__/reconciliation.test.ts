@@ -0,0 +1,286 @@
+/**
+ * Unit Tests: Payment Reconciliation
+ *
+ * Tests settlement file parsing for TeleBirr, CBE Birr and bank statement
+ * CSVs, and matching settlement lines against orders into exceptions.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    settlementFile: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    settlementLine: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    reconciliationException: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+    order: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+import prisma from '@/lib/prisma';
+import { parseSettlementFile } from '@/lib/settlement-file';
+import {
+  importSettlementFile,
+  reconcileSettlementFile,
+  resolveReconciliationException,
+} from '@/services/ReconciliationService';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const line = (lineNumber: number, reference: string, amount: number, orderNumber?: string) => ({
+  id: `line-${lineNumber}`,
+  lineNumber,
+  reference,
+  orderNumber: orderNumber ?? null,
+  amount,
+});
+
+const order = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  orderNumber: `MIN-${id}`,
+  paymentReference: `REF-${id}`,
+  paymentStatus: 'completed',
+  paymentMethod: 'telebirr',
+  totalAmount: 100,
+  ...overrides,
+});
+
+const settlementFile = (lines: ReturnType<typeof line>[], exceptions: unknown[] = []) => ({
+  id: 'file-1',
+  provider: 'telebirr',
+  fileName: 'telebirr-2026-10-18.csv',
+  periodStart: new Date('2026-10-18T00:00:00Z'),
+  periodEnd: new Date('2026-10-18T23:59:59Z'),
+  lines,
+  exceptions,
+});
+
+const createdExceptions = () =>
+  vi.mocked(prisma.reconciliationException.createMany).mock.calls[0][0]!.data as Array<Record<string, unknown>>;
+
+describe('Payment Reconciliation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.settlementLine.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.reconciliationException.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.reconciliationException.updateMany).mockResolvedValue({ count: 0 });
+  });
+
+  describe('parseSettlementFile', () => {
+    it('should parse a TeleBirr report and skip failed transactions', () => {
+      const csv = [
+        'Transaction ID,Merchant Order ID,Total Amount,Transaction Time,Trade Status',
+        'TB100,MIN-1,"1,250.50",18/10/2026 09:15,Completed',
+        'TB101,MIN-2,300.00,18/10/2026 10:00,Failure',
+        'TB102,MIN-3,abc,18/10/2026 11:00,Completed',
+      ].join('\n');
+
+      const result = parseSettlementFile(csv, 'telebirr');
+
+      expect(result.lines).toEqual([
+        expect.objectContaining({
+          lineNumber: 1,
+          reference: 'TB100',
+          orderNumber: 'MIN-1',
+          amount: 1250.5,
+          currency: 'ETB',
+          settledAt: new Date('2026-10-18T09:15:00Z'),
+        }),
+      ]);
+      expect(result.skipped).toBe(1);
+      expect(result.errors).toEqual([{ lineNumber: 3, message: 'Amount is missing or not a number' }]);
+    });
+
+    it('should read order numbers from bank statement narrations and skip debits', () => {
+      const csv = [
+        'Value Date,Reference,Narration,Debit,Credit',
+        '2026-10-18,FT2629100,Payment for MIN-1729000000001 via Awash,,500.00',
+        '2026-10-18,FT2629101,Service charge,25.00,',
+        '2026-10-18,,Transfer from A. Bekele,,75.00',
+      ].join('\n');
+
+      const result = parseSettlementFile(csv, 'bank');
+
+      expect(result.lines).toHaveLength(2);
+      expect(result.lines[0]).toMatchObject({ reference: 'FT2629100', orderNumber: 'MIN-1729000000001', amount: 500 });
+      expect(result.lines[1]).toMatchObject({ reference: 'Transfer from A. Bekele', amount: 75 });
+      expect(result.skipped).toBe(1);
+    });
+
+    it('should report missing columns', () => {
+      const result = parseSettlementFile('Date,Description\n2026-10-18,Deposit', 'cbe');
+
+      expect(result.lines).toEqual([]);
+      expect(result.errors[0].message).toMatch(/Missing cbe column\(s\): reference, amount/);
+    });
+  });
+
+  describe('reconcileSettlementFile', () => {
+    it('should match lines and flag every kind of mismatch', async () => {
+      vi.mocked(prisma.settlementFile.findUnique).mockResolvedValue(
+        settlementFile([
+          line(1, 'REF-a', 100),
+          line(2, 'TB-x', 250, 'MIN-b'),
+          line(3, 'REF-c', 100),
+          line(4, 'UNKNOWN', 40),
+          line(5, 'REF-a', 100),
+        ]) as any
+      );
+      vi.mocked(prisma.order.findMany)
+        .mockResolvedValueOnce([
+          order('a'),
+          order('b', { paymentReference: null, totalAmount: 200 }),
+          order('c', { paymentStatus: 'pending' }),
+        ] as any)
+        // Paid during the period: a and b are settled above, d and the CBE order are not
+        .mockResolvedValueOnce([order('a'), order('b'), order('d'), order('e', { paymentMethod: 'CBE' })] as any);
+
+      const summary = await reconcileSettlementFile('file-1', now);
+
+      expect(summary).toMatchObject({
+        lineCount: 5,
+        matched: 1,
+        exceptions: {
+          amount_mismatch: 1,
+          unpaid_order_settled: 1,
+          unmatched_settlement: 1,
+          duplicate_settlement: 1,
+          unsettled_order: 1,
+        },
+      });
+      expect(createdExceptions()).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: 'amount_mismatch', orderId: 'b', expectedAmount: 200, settledAmount: 250, delta: 50 }),
+          expect.objectContaining({ type: 'unpaid_order_settled', orderId: 'c' }),
+          expect.objectContaining({ type: 'unmatched_settlement', lineId: 'line-4', settledAmount: 40 }),
+          expect.objectContaining({ type: 'duplicate_settlement', lineId: 'line-5', orderId: 'a' }),
+          expect.objectContaining({ type: 'unsettled_order', orderId: 'd', expectedAmount: 100 }),
+        ])
+      );
+      expect(prisma.settlementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: { orderId: 'a', matchStatus: 'matched' },
+      });
+      expect(prisma.reconciliationException.deleteMany).toHaveBeenCalledWith({
+        where: { fileId: 'file-1', status: 'open' },
+      });
+      expect(prisma.settlementFile.update).toHaveBeenCalledWith({
+        where: { id: 'file-1' },
+        data: expect.objectContaining({ matchedCount: 1, exceptionCount: 5, status: 'reconciled', reconciledAt: now }),
+      });
+    });
+
+    it('should treat amounts within a cent as matched', async () => {
+      vi.mocked(prisma.settlementFile.findUnique).mockResolvedValue(
+        settlementFile([line(1, 'REF-a', 100.005)]) as any
+      );
+      vi.mocked(prisma.order.findMany).mockResolvedValueOnce([order('a')] as any).mockResolvedValueOnce([]);
+
+      const summary = await reconcileSettlementFile('file-1', now);
+
+      expect(summary.matched).toBe(1);
+      expect(createdExceptions()).toEqual([]);
+    });
+
+    it('should flag orders already settled by another file as duplicates', async () => {
+      vi.mocked(prisma.settlementFile.findUnique).mockResolvedValue(settlementFile([line(1, 'REF-a', 100)]) as any);
+      vi.mocked(prisma.order.findMany).mockResolvedValueOnce([order('a')] as any).mockResolvedValueOnce([]);
+      vi.mocked(prisma.settlementLine.findMany).mockResolvedValueOnce([{ orderId: 'a' }] as any);
+
+      await reconcileSettlementFile('file-1', now);
+
+      expect(createdExceptions()).toEqual([expect.objectContaining({ type: 'duplicate_settlement', orderId: 'a' })]);
+    });
+
+    it('should not re-raise exceptions finance already closed', async () => {
+      vi.mocked(prisma.settlementFile.findUnique).mockResolvedValue(
+        settlementFile([line(4, 'UNKNOWN', 40)], [{ type: 'unmatched_settlement', lineId: 'line-4', orderId: null }]) as any
+      );
+      vi.mocked(prisma.order.findMany).mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+      const summary = await reconcileSettlementFile('file-1', now);
+
+      expect(summary.exceptions).toEqual({});
+      expect(createdExceptions()).toEqual([]);
+    });
+
+    it('should close unsettled-order exceptions from earlier files once settled', async () => {
+      vi.mocked(prisma.settlementFile.findUnique).mockResolvedValue(settlementFile([line(1, 'REF-a', 100)]) as any);
+      vi.mocked(prisma.order.findMany).mockResolvedValueOnce([order('a')] as any).mockResolvedValueOnce([]);
+      vi.mocked(prisma.reconciliationException.updateMany).mockResolvedValue({ count: 1 });
+
+      const summary = await reconcileSettlementFile('file-1', now);
+
+      expect(summary.autoResolved).toBe(1);
+      expect(prisma.reconciliationException.updateMany).toHaveBeenCalledWith({
+        where: { type: 'unsettled_order', status: 'open', orderId: { in: ['a'] }, fileId: { not: 'file-1' } },
+        data: { status: 'resolved', resolvedAt: now, resolutionNote: 'Settled in telebirr-2026-10-18.csv' },
+      });
+    });
+  });
+
+  describe('importSettlementFile', () => {
+    it('should reject files without usable lines', async () => {
+      await expect(
+        importSettlementFile(
+          { provider: 'cbe', format: 'cbe', fileName: 'empty.csv', content: 'Transaction ID,Amount\n' },
+          'admin-1'
+        )
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'INVALID_SETTLEMENT_FILE' });
+      expect(prisma.settlementFile.create).not.toHaveBeenCalled();
+    });
+
+    it('should default the period to the settlement dates in the file', async () => {
+      vi.mocked(prisma.settlementFile.create).mockResolvedValue({ id: 'file-1' } as any);
+      vi.mocked(prisma.settlementFile.findUnique).mockResolvedValue(settlementFile([]) as any);
+      vi.mocked(prisma.order.findMany).mockResolvedValue([]);
+
+      await importSettlementFile(
+        {
+          provider: 'cbe',
+          format: 'cbe',
+          fileName: 'cbe.csv',
+          content: 'Transaction ID,Amount,Value Date\nCBE-1,10,2026-10-17\nCBE-2,20.5,2026-10-18',
+        },
+        'admin-1',
+        now
+      );
+
+      expect(prisma.settlementFile.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          periodStart: new Date('2026-10-17'),
+          periodEnd: new Date('2026-10-18'),
+          lineCount: 2,
+          totalAmount: 30.5,
+        }),
+      });
+    });
+  });
+
+  describe('resolveReconciliationException', () => {
+    it('should refuse to resolve a closed exception', async () => {
+      vi.mocked(prisma.reconciliationException.findUnique).mockResolvedValue({ id: 'ex-1', status: 'ignored' } as any);
+
+      await expect(
+        resolveReconciliationException('ex-1', 'admin-1', { status: 'resolved' })
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(prisma.reconciliationException.update).not.toHaveBeenCalled();
+    });
+  });
+});
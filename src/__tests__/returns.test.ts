@@ -0,0 +1,421 @@
+/**
+ * Unit Tests: Returns
+ *
+ * Tests return eligibility (delivery, vendor return window, quantities),
+ * the return status workflow and how inspection restocks items, refunds
+ * the buyer and reverses the vendor's commission.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const client: any = {
+    order: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    profile: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    returnRequest: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+    returnItem: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    commissionLedger: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    orderEvent: {
+      create: vi.fn(),
+    },
+    refund: {
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn((callback: (tx: any) => Promise<any>) => callback(client)),
+  };
+  return { default: client };
+});
+
+vi.mock('@/lib/refund', () => ({
+  initiateRefund: vi.fn(),
+  processRefund: vi.fn(() => Promise.resolve(true)),
+}));
+
+vi.mock('@/services/InventoryService', () => ({
+  applyStockMovement: vi.fn(() => Promise.resolve(5)),
+}));
+
+import prisma from '@/lib/prisma';
+import { initiateRefund, processRefund } from '@/lib/refund';
+import { applyStockMovement } from '@/services/InventoryService';
+import {
+  allocateRefund,
+  approveReturnRequest,
+  canTransitionReturn,
+  createReturnRequest,
+  getReturnDeadline,
+  inspectReturn,
+} from '@/services/ReturnService';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const order = (deliveredDaysAgo: number | null) => ({
+  id: 'order-1',
+  deliveredAt: null,
+  orderItems: [
+    { id: 'item-1', vendorId: 'vendor-a', vendorOrderId: 'vo-a', quantity: 2, productName: 'Coffee mug' },
+    { id: 'item-2', vendorId: 'vendor-b', vendorOrderId: 'vo-b', quantity: 1, productName: 'Scarf' },
+  ],
+  vendorOrders: [
+    {
+      id: 'vo-a',
+      vendorId: 'vendor-a',
+      deliveredAt: deliveredDaysAgo === null ? null : new Date(Date.now() - deliveredDaysAgo * DAY),
+    },
+    { id: 'vo-b', vendorId: 'vendor-b', deliveredAt: null },
+  ],
+});
+
+const policy = { returnsAccepted: true, returnWindowDays: 7, returnInstructions: 'Bole Road shop, 9am-5pm' };
+
+describe('Return helpers', () => {
+  it('closes the return window the given days after delivery', () => {
+    const deliveredAt = new Date('2026-10-01T10:00:00Z');
+    expect(getReturnDeadline(deliveredAt, 7).toISOString()).toBe('2026-10-08T10:00:00.000Z');
+  });
+
+  it('splits a refund by line value with the remainder on the last line', () => {
+    expect(allocateRefund([100, 50], 150)).toEqual([100, 50]);
+    expect(allocateRefund([100, 100, 100], 100)).toEqual([33.33, 33.33, 33.34]);
+  });
+
+  it('only moves returns forward through the workflow', () => {
+    expect(canTransitionReturn('requested', 'approved')).toBe(true);
+    expect(canTransitionReturn('approved', 'received')).toBe(true);
+    expect(canTransitionReturn('requested', 'received')).toBe(false);
+    expect(canTransitionReturn('in_transit', 'cancelled')).toBe(false);
+    expect(canTransitionReturn('refunded', 'received')).toBe(false);
+  });
+});
+
+describe('createReturnRequest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.profile.findUnique as any).mockResolvedValue(policy);
+    (prisma.returnItem.findMany as any).mockResolvedValue([]);
+    (prisma.returnRequest.create as any).mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: 'return-1', ...data })
+    );
+  });
+
+  const request = (items: Array<{ orderItemId: string; quantity: number }>) =>
+    createReturnRequest('user-1', { orderId: 'order-1', items, reason: 'damaged' });
+
+  it('only finds the buyer\'s own orders', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(null);
+
+    await expect(request([{ orderItemId: 'item-1', quantity: 1 }])).rejects.toMatchObject({ statusCode: 404 });
+    expect(prisma.order.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'order-1', userId: 'user-1' } })
+    );
+  });
+
+  it('rejects items from different vendors in one request', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(order(2));
+
+    await expect(
+      request([
+        { orderItemId: 'item-1', quantity: 1 },
+        { orderItemId: 'item-2', quantity: 1 },
+      ])
+    ).rejects.toMatchObject({ errorCode: 'RETURN_MIXED_VENDORS' });
+  });
+
+  it('rejects items not yet delivered', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(order(null));
+
+    await expect(request([{ orderItemId: 'item-1', quantity: 1 }])).rejects.toMatchObject({
+      errorCode: 'RETURN_NOT_DELIVERED',
+    });
+  });
+
+  it('rejects returns to a vendor that does not accept them', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(order(2));
+    (prisma.profile.findUnique as any).mockResolvedValue({ ...policy, returnsAccepted: false });
+
+    await expect(request([{ orderItemId: 'item-1', quantity: 1 }])).rejects.toMatchObject({
+      errorCode: 'RETURNS_NOT_ACCEPTED',
+    });
+  });
+
+  it('rejects requests after the vendor\'s return window', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(order(8));
+
+    await expect(request([{ orderItemId: 'item-1', quantity: 1 }])).rejects.toMatchObject({
+      statusCode: 400,
+      errorCode: 'RETURN_WINDOW_CLOSED',
+    });
+  });
+
+  it('counts units already in other open returns', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(order(2));
+    (prisma.returnItem.findMany as any).mockResolvedValue([{ orderItemId: 'item-1', quantity: 1 }]);
+
+    await expect(request([{ orderItemId: 'item-1', quantity: 2 }])).rejects.toMatchObject({
+      errorCode: 'RETURN_QUANTITY_EXCEEDED',
+      details: { orderItemId: 'item-1', returnable: 1 },
+    });
+    expect(prisma.returnItem.findMany).toHaveBeenCalledWith({
+      where: {
+        orderItemId: { in: ['item-1'] },
+        returnRequest: { status: { notIn: ['rejected', 'cancelled'] } },
+      },
+      select: { orderItemId: true, quantity: true },
+    });
+    // Counted inside the transaction, after locking the order
+    expect(prisma.order.update).toHaveBeenCalledWith({ where: { id: 'order-1' }, data: { updatedAt: expect.any(Date) } });
+    expect(prisma.returnRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('creates the request against the vendor order and puts it on the timeline', async () => {
+    (prisma.order.findFirst as any).mockResolvedValue(order(2));
+
+    const returnRequest = await request([{ orderItemId: 'item-1', quantity: 2 }]);
+
+    expect(returnRequest).toMatchObject({
+      orderId: 'order-1',
+      vendorOrderId: 'vo-a',
+      vendorId: 'vendor-a',
+      userId: 'user-1',
+      reason: 'damaged',
+      items: { create: [{ orderItemId: 'item-1', quantity: 2 }] },
+    });
+    expect(returnRequest.number).toMatch(/^RMA-\d{8}-[0-9A-Z]{6}$/);
+    expect(prisma.orderEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        orderId: 'order-1',
+        vendorOrderId: 'vo-a',
+        eventType: 'return_requested',
+      }),
+    });
+  });
+});
+
+describe('approveReturnRequest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.profile.findUnique as any).mockResolvedValue(policy);
+    (prisma.returnRequest.update as any).mockImplementation(({ data }: any) => Promise.resolve(data));
+  });
+
+  it('falls back to the vendor\'s drop-off instructions', async () => {
+    (prisma.returnRequest.findFirst as any).mockResolvedValue({
+      id: 'return-1',
+      number: 'RMA-1',
+      orderId: 'order-1',
+      vendorOrderId: 'vo-a',
+      status: 'requested',
+    });
+
+    const approved = await approveReturnRequest('vendor-a', 'return-1', 'user-a', { returnMethod: 'drop_off' });
+
+    expect(approved).toMatchObject({
+      status: 'approved',
+      returnMethod: 'drop_off',
+      returnInstructions: 'Bole Road shop, 9am-5pm',
+    });
+    expect(prisma.orderEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: 'return_approved' }),
+    });
+  });
+
+  it('cannot approve a cancelled return', async () => {
+    (prisma.returnRequest.findFirst as any).mockResolvedValue({
+      id: 'return-1',
+      number: 'RMA-1',
+      orderId: 'order-1',
+      vendorOrderId: 'vo-a',
+      status: 'cancelled',
+    });
+
+    await expect(
+      approveReturnRequest('vendor-a', 'return-1', 'user-a', { returnMethod: 'drop_off' })
+    ).rejects.toMatchObject({ errorCode: 'INVALID_RETURN_TRANSITION' });
+  });
+});
+
+describe('inspectReturn', () => {
+  const received = {
+    id: 'return-1',
+    number: 'RMA-1',
+    orderId: 'order-1',
+    vendorOrderId: 'vo-a',
+    status: 'received',
+    items: [
+      {
+        id: 'ri-1',
+        orderItemId: 'item-1',
+        quantity: 2,
+        orderItem: { id: 'item-1', productId: 'product-1', variantId: null, productName: 'Coffee mug', price: '150.00' },
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.returnRequest.findFirst as any).mockResolvedValue(received);
+    (prisma.returnRequest.update as any).mockImplementation(({ data }: any) => Promise.resolve(data));
+    (prisma.returnRequest.updateMany as any).mockResolvedValue({ count: 1 });
+    (prisma.commissionLedger.findMany as any).mockResolvedValue([
+      { vendorId: 'vendor-a', orderItemId: 'item-1', commissionRate: '0.1500' },
+    ]);
+    (initiateRefund as any).mockResolvedValue({ success: true, refundId: 'refund-1' });
+  });
+
+  it('restocks, refunds and reverses commission on the refunded share', async () => {
+    const result = await inspectReturn('vendor-a', 'return-1', 'user-a', {
+      items: [{ returnItemId: 'ri-1', restockQuantity: 1, condition: 'one cracked' }],
+      refundAmount: 200,
+    });
+
+    expect(initiateRefund).toHaveBeenCalledWith({
+      orderId: 'order-1',
+      amount: 200,
+      reason: 'Return RMA-1',
+      restoreStock: false,
+    });
+    expect(applyStockMovement).toHaveBeenCalledWith(prisma, {
+      productId: 'product-1',
+      variantId: null,
+      quantity: 1,
+      type: 'return',
+      referenceType: 'return',
+      referenceId: 'return-1',
+      note: 'Return RMA-1',
+      createdBy: 'user-a',
+    });
+    expect(prisma.commissionLedger.create).toHaveBeenCalledWith({
+      data: {
+        vendorId: 'vendor-a',
+        orderId: 'order-1',
+        orderItemId: 'item-1',
+        returnRequestId: 'return-1',
+        saleAmount: '-200.00',
+        commissionRate: '0.1500',
+        commissionAmount: '-30.00',
+        vendorPayout: '-170.00',
+        status: 'reversed',
+        paidAt: expect.any(Date),
+      },
+    });
+    expect(result).toMatchObject({ status: 'refunded', refundAmount: '200.00', refundId: 'refund-1' });
+    expect(processRefund).toHaveBeenCalledWith('refund-1');
+    expect(prisma.orderEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: 'return_refunded' }),
+    });
+  });
+
+  it('refunds the full price of the returned items by default', async () => {
+    await inspectReturn('vendor-a', 'return-1', 'user-a', {
+      items: [{ returnItemId: 'ri-1', restockQuantity: 2 }],
+    });
+
+    expect(initiateRefund).toHaveBeenCalledWith(expect.objectContaining({ amount: 300 }));
+  });
+
+  it('caps the refund at what was paid after discounts', async () => {
+    (prisma.order.findUnique as any).mockResolvedValue({
+      pricingBreakdown: {
+        lines: [{ productId: 'product-1', variantId: null, quantity: 4, subtotal: 600, discount: 120, total: 480 }],
+      },
+    });
+
+    await expect(
+      inspectReturn('vendor-a', 'return-1', 'user-a', { items: [], refundAmount: 241 })
+    ).rejects.toMatchObject({ errorCode: 'RETURN_REFUND_EXCEEDED', details: { maxRefund: 240 } });
+
+    await inspectReturn('vendor-a', 'return-1', 'user-a', { items: [{ returnItemId: 'ri-1', restockQuantity: 2 }] });
+    expect(initiateRefund).toHaveBeenCalledWith(expect.objectContaining({ amount: 240 }));
+  });
+
+  it('rejects a refund above the price of the returned items', async () => {
+    await expect(
+      inspectReturn('vendor-a', 'return-1', 'user-a', { items: [], refundAmount: 301 })
+    ).rejects.toMatchObject({ errorCode: 'RETURN_REFUND_EXCEEDED' });
+    expect(initiateRefund).not.toHaveBeenCalled();
+  });
+
+  it('rejects restocking more than was returned', async () => {
+    await expect(
+      inspectReturn('vendor-a', 'return-1', 'user-a', { items: [{ returnItemId: 'ri-1', restockQuantity: 3 }] })
+    ).rejects.toMatchObject({ errorCode: 'RESTOCK_QUANTITY_EXCEEDED' });
+  });
+
+  it('fails the inspection without restock or refund when the refund is 0', async () => {
+    const result = await inspectReturn('vendor-a', 'return-1', 'user-a', {
+      items: [{ returnItemId: 'ri-1', restockQuantity: 2 }],
+      refundAmount: 0,
+      notes: 'Used and worn',
+    });
+
+    expect(result).toMatchObject({ status: 'inspection_failed', refundAmount: '0.00' });
+    expect(initiateRefund).not.toHaveBeenCalled();
+    expect(applyStockMovement).not.toHaveBeenCalled();
+    expect(prisma.commissionLedger.create).not.toHaveBeenCalled();
+  });
+
+  it('claims the received return before issuing the refund', async () => {
+    await inspectReturn('vendor-a', 'return-1', 'user-a', { items: [] });
+
+    expect(prisma.returnRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'return-1', status: 'received' },
+      data: { status: 'refunded', inspectedAt: expect.any(Date) },
+    });
+    expect((prisma.returnRequest.updateMany as any).mock.invocationCallOrder[0]).toBeLessThan(
+      (initiateRefund as any).mock.invocationCallOrder[0]
+    );
+  });
+
+  it('does not refund a return another inspection already claimed', async () => {
+    (prisma.returnRequest.updateMany as any).mockResolvedValue({ count: 0 });
+
+    await expect(
+      inspectReturn('vendor-a', 'return-1', 'user-a', { items: [] })
+    ).rejects.toMatchObject({ errorCode: 'RETURN_ALREADY_INSPECTED' });
+    expect(initiateRefund).not.toHaveBeenCalled();
+  });
+
+  it('hands the return back and fails the refund when recording the inspection fails', async () => {
+    (prisma.commissionLedger.findMany as any).mockRejectedValue(new Error('connection lost'));
+
+    await expect(inspectReturn('vendor-a', 'return-1', 'user-a', { items: [] })).rejects.toThrow('connection lost');
+
+    expect(prisma.returnRequest.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'return-1', status: 'refunded' },
+      data: { status: 'received', inspectedAt: null },
+    });
+    expect(prisma.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: 'refund-1', status: 'pending' },
+      data: { status: 'failed' },
+    });
+    expect(processRefund).not.toHaveBeenCalled();
+  });
+
+  it('does not inspect a return that has not been received', async () => {
+    (prisma.returnRequest.findFirst as any).mockResolvedValue({ ...received, status: 'approved' });
+
+    await expect(
+      inspectReturn('vendor-a', 'return-1', 'user-a', { items: [] })
+    ).rejects.toMatchObject({ errorCode: 'INVALID_RETURN_TRANSITION' });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Unit Tests: Search Analytics
+ *
+ * Tests search and click logging, the analytics report and how admin
+ * search rules are validated, stored and cached.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    $queryRaw: vi.fn(),
+    searchQueryLog: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    searchClick: {
+      create: vi.fn(),
+    },
+    voiceSearch: {
+      create: vi.fn(),
+    },
+    searchRule: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    product: {
+      findMany: vi.fn(),
+    },
+    auditLog: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/cache', () => ({
+  getOrSetCache: vi.fn((key: string, fn: () => Promise<any>) => fn()),
+  invalidateCacheByTag: vi.fn(() => Promise.resolve(0)),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logError: vi.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { invalidateCacheByTag } from '@/lib/cache';
+import {
+  createSearchRule,
+  deleteSearchRule,
+  getSearchAnalytics,
+  getSearchRule,
+  logSearch,
+  normalizeSearchQuery,
+  recordSearchClick,
+  updateSearchRule,
+} from '@/services/SearchAnalyticsService';
+
+const admin = { userId: 'admin-1' };
+
+describe('Search Analytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('logSearch', () => {
+    it('logs the query in its normalized form', async () => {
+      vi.mocked(prisma.searchQueryLog.create).mockResolvedValue({ id: 's1' } as any);
+
+      const id = await logSearch({ query: '  ሐበሻ Coffee ', resultCount: 3, sessionId: 'tab-1' });
+
+      expect(id).toBe('s1');
+      const createCall = vi.mocked(prisma.searchQueryLog.create).mock.calls[0][0] as any;
+      expect(createCall.data).toMatchObject({
+        query: 'ሐበሻ Coffee',
+        normalizedQuery: normalizeSearchQuery('ሀበሻ coffee'),
+        resultCount: 3,
+        source: 'text',
+        sessionId: 'tab-1',
+      });
+      expect(prisma.voiceSearch.create).not.toHaveBeenCalled();
+    });
+
+    it('also records voice searches', async () => {
+      vi.mocked(prisma.searchQueryLog.create).mockResolvedValue({ id: 's2' } as any);
+
+      await logSearch({
+        query: 'ቡና',
+        resultCount: 0,
+        source: 'voice',
+        userId: 'u1',
+        voice: { language: 'am', confidence: 0.8 },
+      });
+
+      expect(prisma.voiceSearch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'u1',
+          sessionId: 's2',
+          language: 'am',
+          transcription: 'ቡና',
+          confidence: 0.8,
+          resultCount: 0,
+        }),
+      });
+    });
+
+    it('never fails the search when the log cannot be written', async () => {
+      vi.mocked(prisma.searchQueryLog.create).mockRejectedValue(new Error('database down'));
+
+      await expect(logSearch({ query: 'phone', resultCount: 1 })).resolves.toBeNull();
+    });
+
+    it('skips queries with nothing to search for', async () => {
+      expect(await logSearch({ query: ' ፡፡ ', resultCount: 0 })).toBeNull();
+      expect(prisma.searchQueryLog.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordSearchClick', () => {
+    it('records the clicked product and its position', async () => {
+      vi.mocked(prisma.searchQueryLog.findUnique).mockResolvedValue({ id: 's1' } as any);
+
+      await recordSearchClick('s1', 'p1', 3);
+
+      expect(prisma.searchClick.create).toHaveBeenCalledWith({
+        data: { searchId: 's1', productId: 'p1', position: 3 },
+      });
+    });
+
+    it('rejects clicks for unknown searches', async () => {
+      vi.mocked(prisma.searchQueryLog.findUnique).mockResolvedValue(null);
+
+      await expect(recordSearchClick('missing', 'p1', 1)).rejects.toMatchObject({ statusCode: 404 });
+      expect(prisma.searchClick.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSearchAnalytics', () => {
+    it('reports rates as percentages of all searches', async () => {
+      vi.mocked(prisma.$queryRaw)
+        .mockResolvedValueOnce([
+          { searches: 200, zero_result_searches: 30, clicked_searches: 90, avg_click_position: 2.345 },
+        ] as any)
+        .mockResolvedValueOnce([
+          {
+            query: 'phone',
+            searches: 40,
+            zero_result_searches: 0,
+            clicked_searches: 10,
+            avg_results: 12.34,
+            last_searched_at: new Date('2026-10-18'),
+          },
+        ] as any)
+        .mockResolvedValueOnce([]);
+
+      const report = await getSearchAnalytics({ days: 7 });
+
+      expect(report.days).toBe(7);
+      expect(report.totals).toEqual({
+        searches: 200,
+        zeroResultRate: 15,
+        clickThroughRate: 45,
+        averageClickPosition: 2.3,
+      });
+      expect(report.topQueries[0]).toMatchObject({
+        query: 'phone',
+        searches: 40,
+        clickThroughRate: 25,
+        averageResults: 12.3,
+      });
+      expect(report.zeroResultQueries).toEqual([]);
+    });
+
+    it('reports zero rates when nothing was searched', async () => {
+      vi.mocked(prisma.$queryRaw)
+        .mockResolvedValueOnce([{ searches: 0, zero_result_searches: 0, clicked_searches: 0, avg_click_position: null }] as any)
+        .mockResolvedValue([]);
+
+      const report = await getSearchAnalytics({ days: 5000 });
+
+      expect(report.days).toBe(365);
+      expect(report.totals).toEqual({
+        searches: 0,
+        zeroResultRate: 0,
+        clickThroughRate: 0,
+        averageClickPosition: null,
+      });
+    });
+  });
+
+  describe('search rules', () => {
+    it('finds the rule for a query in any spelling', async () => {
+      vi.mocked(prisma.searchRule.findUnique).mockResolvedValue({
+        id: 'r1', redirectUrl: null, pinnedProductIds: ['p1'], synonyms: [], isActive: true,
+      } as any);
+
+      const rule = await getSearchRule(' iPhone ');
+
+      expect(rule).toEqual({ id: 'r1', redirectUrl: null, pinnedProductIds: ['p1'], synonyms: [] });
+      const findCall = vi.mocked(prisma.searchRule.findUnique).mock.calls[0][0] as any;
+      expect(findCall.where).toEqual({ query: 'iphone' });
+    });
+
+    it('stores a new rule under the normalized query', async () => {
+      vi.mocked(prisma.product.findMany).mockResolvedValue([{ id: 'p1' }] as any);
+      vi.mocked(prisma.searchRule.create).mockResolvedValue({ id: 'r1', redirectUrl: null } as any);
+
+      await createSearchRule(admin, { query: 'iPhone', pinnedProductIds: ['p1', 'p1'], synonyms: [' apple phone '] });
+
+      const createCall = vi.mocked(prisma.searchRule.create).mock.calls[0][0] as any;
+      expect(createCall.data).toMatchObject({
+        query: 'iphone',
+        pinnedProductIds: ['p1'],
+        synonyms: ['apple phone'],
+        isActive: true,
+        createdById: 'admin-1',
+      });
+      expect(invalidateCacheByTag).toHaveBeenCalledWith('search');
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'search_rule.create', actorId: 'admin-1' }),
+      });
+    });
+
+    it('rejects a rule that does nothing', async () => {
+      await expect(createSearchRule(admin, { query: 'iphone' })).rejects.toMatchObject({
+        statusCode: 400,
+        errorCode: 'INVALID_SEARCH_RULE',
+      });
+      expect(prisma.searchRule.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects pinned products that do not exist', async () => {
+      vi.mocked(prisma.product.findMany).mockResolvedValue([{ id: 'p1' }] as any);
+
+      await expect(
+        createSearchRule(admin, { query: 'iphone', pinnedProductIds: ['p1', 'p2'] })
+      ).rejects.toMatchObject({ errorCode: 'UNKNOWN_PRODUCTS', details: { productIds: ['p2'] } });
+    });
+
+    it('rejects a second rule for the same query', async () => {
+      vi.mocked(prisma.searchRule.create).mockRejectedValue({ code: 'P2002' });
+
+      await expect(
+        createSearchRule(admin, { query: 'iphone', redirectUrl: '/categories/phones' })
+      ).rejects.toMatchObject({ statusCode: 409, errorCode: 'SEARCH_RULE_EXISTS' });
+    });
+
+    it('keeps at least one action when updating', async () => {
+      vi.mocked(prisma.searchRule.findUnique).mockResolvedValue({
+        id: 'r1', query: 'iphone', redirectUrl: '/categories/phones', pinnedProductIds: [], synonyms: [],
+      } as any);
+
+      await expect(updateSearchRule(admin, 'r1', { redirectUrl: null })).rejects.toMatchObject({
+        errorCode: 'INVALID_SEARCH_RULE',
+      });
+      expect(prisma.searchRule.update).not.toHaveBeenCalled();
+    });
+
+    it('deletes a rule and records its query', async () => {
+      vi.mocked(prisma.searchRule.findUnique).mockResolvedValue({ id: 'r1', query: 'iphone' } as any);
+
+      await deleteSearchRule(admin, 'r1');
+
+      expect(prisma.searchRule.delete).toHaveBeenCalledWith({ where: { id: 'r1' } });
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'search_rule.delete', changes: { query: 'iphone' } }),
+      });
+    });
+  });
+});
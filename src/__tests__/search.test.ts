@@ -0,0 +1,403 @@
+/**
+ * Unit Tests: Product Search
+ *
+ * Tests query expansion (Ge'ez normalization, transliteration and
+ * synonyms), how searchProducts orders hits by relevance score and
+ * attribute filters and facets.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    $queryRaw: vi.fn(),
+    product: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+      aggregate: vi.fn(),
+      groupBy: vi.fn(),
+    },
+    category: {
+      findUnique: vi.fn(),
+    },
+    categoryAttribute: {
+      findMany: vi.fn(),
+    },
+    searchRule: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/cache', () => ({
+  getOrSetCache: vi.fn((key: string, fn: () => Promise<any>) => fn()),
+}));
+
+import prisma from '@/lib/prisma';
+import {
+  normalizeGeez,
+  transliterateToGeez,
+  getSynonyms,
+  expandSearchQuery,
+} from '@/lib/search-query';
+import {
+  searchProducts,
+  getSearchSuggestions,
+  getSearchFacets,
+  parseAttributeFilters,
+} from '@/lib/search';
+
+describe('Search Query Processing', () => {
+  describe('normalizeGeez', () => {
+    it('folds homophone letters to one spelling', () => {
+      expect(normalizeGeez('ሐበሻ')).toBe('ሀበሻ');
+      expect(normalizeGeez('ኀይል')).toBe('ሀይል');
+      expect(normalizeGeez('ሠላም')).toBe('ሰላም');
+      expect(normalizeGeez('ዓለም')).toBe('አለም');
+      expect(normalizeGeez('ኣዲስ')).toBe('አዲስ');
+      expect(normalizeGeez('ፀሐይ')).toBe('ጸሀይ');
+    });
+
+    it('turns Ethiopic punctuation into spaces and lower-cases Latin', () => {
+      expect(normalizeGeez('ቡና፡ጀበና።')).toBe('ቡና ጀበና ');
+      expect(normalizeGeez('Samsung')).toBe('samsung');
+    });
+  });
+
+  describe('transliterateToGeez', () => {
+    it('spells common Amharic words in Ge\'ez script', () => {
+      expect(transliterateToGeez('buna')).toBe('ቡና');
+      expect(transliterateToGeez('shai')).toBe('ሻይ');
+      expect(transliterateToGeez('dabo')).toBe('ዳቦ');
+      expect(transliterateToGeez('mesob')).toBe('መሶብ');
+    });
+
+    it('writes leading vowels on the አ carrier', () => {
+      expect(transliterateToGeez('injera')).toBe('ኢንጀራ');
+    });
+
+    it('returns null for words that are not Latin letters', () => {
+      expect(transliterateToGeez('ቡና')).toBeNull();
+      expect(transliterateToGeez('64gb')).toBeNull();
+    });
+  });
+
+  describe('getSynonyms', () => {
+    it('links English, Amharic and transliterated words both ways', () => {
+      expect(getSynonyms('coffee')).toEqual(expect.arrayContaining(['buna', 'ቡና']));
+      expect(getSynonyms('ቡና')).toEqual(expect.arrayContaining(['coffee', 'buna']));
+    });
+
+    it('matches synonyms spelled with a different homophone letter', () => {
+      expect(getSynonyms('ሠዓት')).toContain('watch');
+    });
+
+    it('returns nothing for unknown words', () => {
+      expect(getSynonyms('samsung')).toEqual([]);
+    });
+  });
+
+  describe('expandSearchQuery', () => {
+    it('ORs each word with its alternatives and ANDs the words', () => {
+      const expanded = expandSearchQuery('samsung phone');
+
+      expect(expanded.tsQuery).toContain('samsung:*');
+      expect(expanded.tsQuery).toContain(' & ');
+      expect(expanded.tsQuery).toContain('ስልክ:*');
+      expect(expanded.tsQuery).toContain('mobile:*');
+    });
+
+    it('expands an Amharic query to its English synonyms', () => {
+      const expanded = expandSearchQuery('ቡና');
+
+      expect(expanded.normalized).toBe('ቡና');
+      expect(expanded.tsQuery).toBe('(ቡና | coffee:* | buna:*)');
+      expect(expanded.similarityTerms).toEqual(['ቡና', 'coffee', 'buna']);
+    });
+
+    it('normalizes Amharic queries before matching', () => {
+      const expanded = expandSearchQuery('ሐበሻ ቀሚስ');
+
+      expect(expanded.normalized).toBe('ሀበሻ ቀሚስ');
+      expect(expanded.tsQuery).toContain('ሀበሻ:*');
+      expect(expanded.tsQuery).toContain('dress:*');
+    });
+
+    it('adds a Ge\'ez spelling for transliterated words', () => {
+      const expanded = expandSearchQuery('berbere');
+
+      expect(expanded.tokens[0].alternatives).toContain('በርበረ');
+      expect(expanded.similarityTerms).toContain('በርበረ');
+    });
+
+    it('ORs in synonyms of the whole phrase', () => {
+      const expanded = expandSearchQuery('coffee pot');
+
+      expect(expanded.tsQuery).toMatch(/^\(\(coffee:\*.*\) & \(pot:\*.*\)\) \| jebena:\* \| ጀበና:\*$/);
+    });
+
+    it('strips tsquery operators from the query', () => {
+      const expanded = expandSearchQuery("tv & (radio | !'x')");
+
+      expect(expanded.tokens.map((t) => t.token)).toEqual(['tv', 'radio', 'x']);
+      expect(expanded.tsQuery).not.toMatch(/!|'/);
+    });
+
+    it('has nothing to search for punctuation-only queries', () => {
+      const expanded = expandSearchQuery('  ።  ');
+
+      expect(expanded.tsQuery).toBeNull();
+      expect(expanded.similarityTerms).toEqual([]);
+    });
+  });
+});
+
+describe('searchProducts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.searchRule.findUnique).mockResolvedValue(null);
+  });
+
+  it('orders hits by relevance score and returns the score', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([
+      { id: 'p2', name: 'ቡና Yirgacheffe', score: 1.4 },
+      { id: 'p1', name: 'Coffee mug', score: 0.61234 },
+      { id: 'p3', name: 'Jebena', score: 0.2 },
+    ] as any);
+    vi.mocked(prisma.product.findMany)
+      // Ids the other filters allow
+      .mockResolvedValueOnce([{ id: 'p1' }, { id: 'p2' }] as any)
+      // The page itself, in database order
+      .mockResolvedValueOnce([{ id: 'p1', name: 'Coffee mug' }, { id: 'p2', name: 'ቡና Yirgacheffe' }] as any);
+
+    const result = await searchProducts({ filters: { query: 'ቡና', inStock: true } });
+
+    expect(result.products.map((p) => p.id)).toEqual(['p2', 'p1']);
+    expect(result.products.map((p) => p.relevanceScore)).toEqual([1.4, 0.6123]);
+    expect(result.pagination.totalCount).toBe(2);
+
+    const allowedQuery = vi.mocked(prisma.product.findMany).mock.calls[0][0] as any;
+    expect(allowedQuery.where.id).toEqual({ in: ['p2', 'p1', 'p3'] });
+    expect(allowedQuery.where.stockQuantity).toEqual({ gt: 0 });
+  });
+
+  it('passes the expanded query to the ranking query', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([] as any);
+
+    await searchProducts({ filters: { query: 'buna' } });
+
+    const values = vi.mocked(prisma.$queryRaw).mock.calls[0].slice(1);
+    expect(values).toContainEqual(expect.arrayContaining(['buna', 'ቡና', 'coffee']));
+    expect(values).toContain('(buna:* | coffee:* | ቡና)');
+  });
+
+  it('returns no products without querying them when nothing matches', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([] as any);
+
+    const result = await searchProducts({ filters: { query: 'zzzz' } });
+
+    expect(result.products).toEqual([]);
+    expect(result.pagination.totalCount).toBe(0);
+    expect(prisma.product.findMany).not.toHaveBeenCalled();
+  });
+
+  it('keeps other sort orders and still attaches scores', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([
+      { id: 'p1', name: 'Cheap phone', score: 0.3 },
+      { id: 'p2', name: 'Phone case', score: 0.9 },
+    ] as any);
+    vi.mocked(prisma.product.findMany).mockResolvedValue([{ id: 'p1' }, { id: 'p2' }] as any);
+    vi.mocked(prisma.product.count).mockResolvedValue(2);
+
+    const result = await searchProducts({
+      filters: { query: 'phone' },
+      sort: { field: 'price', order: 'asc' },
+    });
+
+    expect(result.products).toEqual([
+      { id: 'p1', relevanceScore: 0.3, pinned: false },
+      { id: 'p2', relevanceScore: 0.9, pinned: false },
+    ]);
+    const call = vi.mocked(prisma.product.findMany).mock.calls[0][0] as any;
+    expect(call.orderBy).toEqual({ price: 'asc' });
+  });
+
+  it('lists pinned products first and searches rule synonyms', async () => {
+    vi.mocked(prisma.searchRule.findUnique).mockResolvedValue({
+      id: 'r1', redirectUrl: null, pinnedProductIds: ['p9'], synonyms: ['apple phone'], isActive: true,
+    } as any);
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([{ id: 'p1', name: 'iPhone 15', score: 2 }] as any);
+    vi.mocked(prisma.product.findMany)
+      .mockResolvedValueOnce([{ id: 'p1' }, { id: 'p9' }] as any)
+      .mockResolvedValueOnce([{ id: 'p1' }, { id: 'p9' }] as any);
+
+    const result = await searchProducts({ filters: { query: 'iPhone' } });
+
+    expect(result.products.map((p) => [p.id, p.pinned])).toEqual([['p9', true], ['p1', false]]);
+    expect(result.searchRuleId).toBe('r1');
+    const values = vi.mocked(prisma.$queryRaw).mock.calls[0].slice(1);
+    expect(values).toContainEqual(expect.arrayContaining(['apple phone']));
+  });
+
+  it('returns a redirect rule without searching', async () => {
+    vi.mocked(prisma.searchRule.findUnique).mockResolvedValue({
+      id: 'r2', redirectUrl: '/categories/phones', pinnedProductIds: [], synonyms: [], isActive: true,
+    } as any);
+
+    const result = await searchProducts({ filters: { query: 'Phones' } });
+
+    expect(result).toMatchObject({ products: [], redirect: '/categories/phones', searchRuleId: 'r2' });
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('ignores inactive rules', async () => {
+    vi.mocked(prisma.searchRule.findUnique).mockResolvedValue({
+      id: 'r3', redirectUrl: '/sale', pinnedProductIds: [], synonyms: [], isActive: false,
+    } as any);
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([] as any);
+
+    const result = await searchProducts({ filters: { query: 'sale' } });
+
+    expect(result.redirect).toBeUndefined();
+    expect(result.searchRuleId).toBeUndefined();
+  });
+
+  it('does not rank when there is no query', async () => {
+    vi.mocked(prisma.product.findMany).mockResolvedValue([{ id: 'p1' }] as any);
+    vi.mocked(prisma.product.count).mockResolvedValue(1);
+
+    const result = await searchProducts({ filters: { categoryId: 'c1' } });
+
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    expect(result.products[0]).not.toHaveProperty('relevanceScore');
+  });
+});
+
+describe('getSearchSuggestions', () => {
+  it('suggests the names of the best matches', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([
+      { id: 'p1', name: 'ሻይ ቅጠል', score: 1 },
+      { id: 'p2', name: 'Tea cup', score: 0.5 },
+    ] as any);
+
+    const suggestions = await getSearchSuggestions('shai', 5);
+
+    expect(suggestions).toEqual(['ሻይ ቅጠል', 'Tea cup']);
+  });
+});
+
+describe('Attribute filters', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reads repeated and comma-separated attr parameters', () => {
+    const params = new URLSearchParams(
+      'category=phones&attr.Storage=64GB,128GB&attr.color=black&attr.color=white&attr.empty='
+    );
+
+    expect(parseAttributeFilters(params)).toEqual({
+      storage: ['64GB', '128GB'],
+      color: ['black', 'white'],
+    });
+    expect(parseAttributeFilters(new URLSearchParams('category=phones'))).toBeUndefined();
+  });
+
+  it('limits results to products with matching attributes', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([{ id: 'p1' }] as any);
+    vi.mocked(prisma.product.findMany).mockResolvedValue([{ id: 'p1' }] as any);
+    vi.mocked(prisma.product.count).mockResolvedValue(1);
+
+    await searchProducts({ filters: { attributes: { Storage: ['64GB'], Color: ['Black', ' '] } } });
+
+    const values = vi.mocked(prisma.$queryRaw).mock.calls[0].slice(1);
+    expect(values).toContain(JSON.stringify({ storage: ['64gb'], color: ['black'] }));
+    const call = vi.mocked(prisma.product.findMany).mock.calls[0][0] as any;
+    expect(call.where.id).toEqual({ in: ['p1'] });
+  });
+
+  it('only checks attributes of products that match the query', async () => {
+    vi.mocked(prisma.$queryRaw)
+      .mockResolvedValueOnce([{ id: 'p1', name: 'Phone', score: 1 }] as any)
+      .mockResolvedValueOnce([] as any);
+
+    const result = await searchProducts({ filters: { query: 'phone', attributes: { color: ['black'] } } });
+
+    const values = vi.mocked(prisma.$queryRaw).mock.calls[1].slice(1);
+    expect(values).toContainEqual(['p1']);
+    expect(result.products).toEqual([]);
+    expect(prisma.product.findMany).not.toHaveBeenCalled();
+  });
+
+  it('counts each selected attribute without its own filter', async () => {
+    vi.mocked(prisma.category.findUnique).mockResolvedValue({ id: 'cat-phones', parentId: null } as any);
+    vi.mocked(prisma.categoryAttribute.findMany).mockResolvedValue([
+      { id: 'a1', categoryId: 'cat-phones', key: 'storage', label: 'Storage', type: 'number', unit: 'GB', isFilterable: true, sortOrder: 0 },
+      { id: 'a2', categoryId: 'cat-phones', key: 'color', label: 'Color', type: 'text', unit: null, isFilterable: true, sortOrder: 1 },
+    ] as any);
+    vi.mocked(prisma.product.aggregate).mockResolvedValue({ _min: { price: 100 }, _max: { price: 900 } } as any);
+    (prisma.product.groupBy as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    // All products in the category, ignoring attribute filters
+    vi.mocked(prisma.product.findMany).mockResolvedValue([{ id: 'p1' }, { id: 'p2' }, { id: 'p3' }] as any);
+
+    vi.mocked(prisma.$queryRaw).mockImplementation(((strings: TemplateStringsArray, ...values: any[]) => {
+      const sql = strings.join('?');
+      if (sql.includes('jsonb_each')) {
+        // Attribute matching: everything matches the color filter; storage was excluded
+        return Promise.resolve([{ id: 'p1' }, { id: 'p2' }]);
+      }
+      const keys = values[1] as string[];
+      if (keys.includes('storage')) {
+        return Promise.resolve([
+          { key: 'storage', value: '128', label: '128', count: 1 },
+          { key: 'storage', value: '64', label: '64', count: 2 },
+        ]);
+      }
+      return Promise.resolve([
+        { key: 'color', value: 'white', label: 'White', count: 1 },
+        { key: 'color', value: 'black', label: 'Black', count: 2 },
+      ]);
+    }) as any);
+
+    const facets: any = await getSearchFacets({ categorySlug: 'phones', attributes: { color: ['black'] } });
+
+    expect(facets.attributes).toEqual([
+      {
+        key: 'storage',
+        label: 'Storage',
+        type: 'number',
+        unit: 'GB',
+        values: [
+          { value: '64', count: 2, selected: false },
+          { value: '128', count: 1, selected: false },
+        ],
+      },
+      {
+        key: 'color',
+        label: 'Color',
+        type: 'text',
+        unit: null,
+        values: [
+          { value: 'Black', count: 2, selected: true },
+          { value: 'White', count: 1, selected: false },
+        ],
+      },
+    ]);
+
+    // Color is counted over every category product, not just the black ones
+    const colorCount = vi.mocked(prisma.$queryRaw).mock.calls.find(
+      ([, , keys]: any[]) => Array.isArray(keys) && keys.includes('color')
+    );
+    expect(colorCount?.[1]).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('has no attribute facets without a category', async () => {
+    vi.mocked(prisma.product.aggregate).mockResolvedValue({ _min: { price: null }, _max: { price: null } } as any);
+    (prisma.product.groupBy as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+    const facets: any = await getSearchFacets({});
+
+    expect(facets.attributes).toEqual([]);
+    expect(prisma.categoryAttribute.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Unit Tests: Sessions
+ *
+ * Tests refresh token rotation, reuse detection and session revocation.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    userSession: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    sessionRefreshToken: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/security', () => ({
+  logSecurityEvent: vi.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { generateToken, getUserFromToken, verifyToken } from '@/lib/auth';
+import { requireAuth } from '@/lib/middleware';
+import { logSecurityEvent } from '@/lib/security';
+import {
+  createSession,
+  describeDevice,
+  hashRefreshToken,
+  isSessionActive,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from '@/services/SessionService';
+
+const future = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+const storedToken = (overrides: Record<string, unknown> = {}, sessionOverrides: Record<string, unknown> = {}) => ({
+  id: 'token-1',
+  sessionId: 'session-1',
+  rotatedAt: null,
+  session: {
+    id: 'session-1',
+    userId: 'user-1',
+    userAgent: 'old-agent',
+    ipAddress: '10.0.0.1',
+    revokedAt: null,
+    expiresAt: future(),
+    user: { id: 'user-1', email: 'user@example.com', role: 'customer', lockoutUntil: null },
+    ...sessionOverrides,
+  },
+  ...overrides,
+});
+
+describe('Sessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.sessionRefreshToken.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.userSession.updateMany).mockResolvedValue({ count: 1 });
+  });
+
+  describe('createSession', () => {
+    it('should store only a hash of the refresh token and tag the access token with the session', async () => {
+      vi.mocked(prisma.userSession.create).mockResolvedValue({ id: 'session-1' } as any);
+
+      const result = await createSession(
+        { userId: 'user-1', email: 'user@example.com', role: 'customer' },
+        { userAgent: 'Mozilla/5.0 (Linux; Android 14) Chrome/126.0', ipAddress: '10.0.0.1' }
+      );
+
+      const data = vi.mocked(prisma.userSession.create).mock.calls[0][0].data as any;
+      expect(data.refreshTokens.create.tokenHash).toBe(hashRefreshToken(result.refreshToken));
+      expect(JSON.stringify(data)).not.toContain(result.refreshToken);
+      expect(verifyToken(result.token)).toMatchObject({ userId: 'user-1', sessionId: 'session-1' });
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('should retire the presented token and issue a new one in the same session', async () => {
+      vi.mocked(prisma.sessionRefreshToken.findUnique).mockResolvedValue(storedToken() as any);
+
+      const result = await rotateRefreshToken('refresh-1', { ipAddress: '10.0.0.2' });
+
+      expect(prisma.sessionRefreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', rotatedAt: null },
+        data: { rotatedAt: expect.any(Date) },
+      });
+      expect(prisma.sessionRefreshToken.create).toHaveBeenCalledWith({
+        data: { sessionId: 'session-1', tokenHash: hashRefreshToken(result.refreshToken) },
+      });
+      expect(prisma.userSession.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: expect.objectContaining({ ipAddress: '10.0.0.2', userAgent: 'old-agent' }),
+      });
+      expect(result.refreshToken).not.toBe('refresh-1');
+      expect(verifyToken(result.token)).toMatchObject({ sessionId: 'session-1' });
+    });
+
+    it('should revoke the whole session when a rotated token is reused', async () => {
+      vi.mocked(prisma.sessionRefreshToken.findUnique).mockResolvedValue(
+        storedToken({ rotatedAt: new Date() }) as any
+      );
+
+      await expect(rotateRefreshToken('refresh-1')).rejects.toMatchObject({ statusCode: 401 });
+
+      expect(prisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'refresh_token_reuse' },
+      });
+      expect(logSecurityEvent).toHaveBeenCalledWith(
+        'unknown',
+        'refresh_token_reuse',
+        'high',
+        undefined,
+        '/api/auth/refresh',
+        { userId: 'user-1', sessionId: 'session-1' }
+      );
+      expect(prisma.sessionRefreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens from revoked or expired sessions', async () => {
+      vi.mocked(prisma.sessionRefreshToken.findUnique).mockResolvedValue(
+        storedToken({}, { revokedAt: new Date() }) as any
+      );
+      await expect(rotateRefreshToken('refresh-1')).rejects.toMatchObject({ statusCode: 401 });
+
+      vi.mocked(prisma.sessionRefreshToken.findUnique).mockResolvedValue(
+        storedToken({}, { expiresAt: new Date(Date.now() - 1000) }) as any
+      );
+      await expect(rotateRefreshToken('refresh-1')).rejects.toMatchObject({ statusCode: 401 });
+
+      expect(prisma.sessionRefreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown tokens', async () => {
+      vi.mocked(prisma.sessionRefreshToken.findUnique).mockResolvedValue(null);
+
+      await expect(rotateRefreshToken('forged')).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should let only one of two concurrent refreshes win', async () => {
+      vi.mocked(prisma.sessionRefreshToken.findUnique).mockResolvedValue(storedToken() as any);
+      vi.mocked(prisma.sessionRefreshToken.updateMany).mockResolvedValue({ count: 0 });
+
+      await expect(rotateRefreshToken('refresh-1')).rejects.toMatchObject({ statusCode: 401 });
+      expect(prisma.sessionRefreshToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revocation', () => {
+    it("should not revoke another user's session", async () => {
+      vi.mocked(prisma.userSession.findFirst).mockResolvedValue(null);
+
+      await expect(revokeSession('user-2', 'session-1')).rejects.toMatchObject({ statusCode: 404 });
+      expect(prisma.userSession.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should keep the current session when signing out other devices', async () => {
+      vi.mocked(prisma.userSession.updateMany).mockResolvedValue({ count: 2 });
+
+      const revoked = await revokeAllSessions('user-1', 'user_revoked', 'session-1');
+
+      expect(revoked).toBe(2);
+      expect(prisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null, id: { not: 'session-1' } },
+        data: { revokedAt: expect.any(Date), revokedReason: 'user_revoked' },
+      });
+    });
+
+    it('should treat revoked sessions as inactive', async () => {
+      vi.mocked(prisma.userSession.findUnique).mockResolvedValue({ revokedAt: new Date(), expiresAt: future() } as any);
+      expect(await isSessionActive('session-1')).toBe(false);
+
+      vi.mocked(prisma.userSession.findUnique).mockResolvedValue({ revokedAt: null, expiresAt: future() } as any);
+      expect(await isSessionActive('session-1')).toBe(true);
+    });
+
+    it('should reject access tokens of revoked sessions on every authenticated route', async () => {
+      const token = generateToken({ userId: 'user-1', email: 'user@example.com', role: 'customer', sessionId: 'session-1' });
+      const request = new Request('http://localhost/api/orders', {
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      vi.mocked(prisma.userSession.findUnique).mockResolvedValue({ revokedAt: null, expiresAt: future() } as any);
+      expect(await getUserFromToken(token)).toMatchObject({ userId: 'user-1', sessionId: 'session-1' });
+
+      vi.mocked(prisma.userSession.findUnique).mockResolvedValue({ revokedAt: new Date(), expiresAt: future() } as any);
+      expect(await getUserFromToken(token)).toBeNull();
+      await expect(requireAuth(request)).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  describe('describeDevice', () => {
+    it.each([
+      ['Mozilla/5.0 (Linux; Android 14) AppleWebKit/537.36 Chrome/126.0 Mobile Safari/537.36', 'Chrome on Android'],
+      ['Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/126.0 Safari/537.36 Edg/126.0', 'Edge on Windows'],
+      ['Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Version/17.0 Mobile Safari/604.1', 'Safari on iOS'],
+      [null, 'Unknown device'],
+    ])('should describe %s as %s', (userAgent, expected) => {
+      expect(describeDevice(userAgent)).toBe(expected);
+    });
+  });
+});
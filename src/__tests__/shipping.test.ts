@@ -0,0 +1,326 @@
+/**
+ * Unit Tests: Shipping
+ *
+ * Tests dimensional weight, cash-on-delivery fees, origin-aware rate
+ * shopping, per-vendor shipment quotes and how admins manage shipping
+ * methods and rates.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    shippingZone: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+    },
+    shippingMethod: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    shippingRate: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+    },
+    product: {
+      findMany: vi.fn(),
+    },
+    productVariant: {
+      findMany: vi.fn(),
+    },
+    auditLog: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/cache', () => ({
+  getOrSetCache: vi.fn((key: string, fn: () => Promise<any>) => fn()),
+  invalidateCacheByTag: vi.fn(() => Promise.resolve(0)),
+}));
+
+import prisma from '@/lib/prisma';
+import { invalidateCacheByTag } from '@/lib/cache';
+import {
+  calculateBillableWeight,
+  calculateCodFee,
+  getShippingOptions,
+  normalizeCountryCode,
+  parseDimensions,
+  quoteShipments,
+} from '@/lib/shipping';
+import { createShippingMethod, createShippingRate, deleteShippingMethod } from '@/services/ShippingService';
+
+const admin = { userId: 'admin-1' };
+
+const zones = [
+  { id: 'zone-addis', countries: ['ET'], regions: [], cities: ['Addis Ababa'], postalCodes: [], isActive: true },
+  { id: 'zone-dire', countries: ['ET'], regions: [], cities: ['Dire Dawa'], postalCodes: [], isActive: true },
+];
+
+const standard = {
+  id: 'method-standard',
+  name: 'Standard',
+  description: null,
+  carrier: null,
+  estimatedDaysMin: 3,
+  estimatedDaysMax: 5,
+  volumetricDivisor: 5000,
+  supportsCod: true,
+  isActive: true,
+};
+
+const express = { ...standard, id: 'method-express', name: 'Express', estimatedDaysMin: 1, estimatedDaysMax: 2, supportsCod: false };
+
+function rate(overrides: Record<string, any> = {}) {
+  return {
+    id: 'rate-1',
+    zoneId: 'zone-addis',
+    originZoneId: null,
+    methodId: standard.id,
+    method: standard,
+    baseRate: 100,
+    perKgRate: null,
+    freeShippingThreshold: null,
+    codFee: null,
+    codFeePercent: null,
+    ...overrides,
+  };
+}
+
+describe('Shipping', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.shippingZone.findMany).mockResolvedValue(zones as any);
+  });
+
+  describe('parseDimensions', () => {
+    it('reads objects and strings into centimetres', () => {
+      expect(parseDimensions({ length: 30, width: 20, height: 10 })).toEqual({ length: 30, width: 20, height: 10 });
+      expect(parseDimensions({ length: 0.3, width: 0.2, height: 0.1, unit: 'm' })).toEqual({
+        length: 30,
+        width: 20,
+        height: 10,
+      });
+      expect(parseDimensions('300 x 200 x 100 mm')).toEqual({ length: 30, width: 20, height: 10 });
+    });
+
+    it('treats anything else as unknown', () => {
+      expect(parseDimensions(null)).toBeNull();
+      expect(parseDimensions('large')).toBeNull();
+      expect(parseDimensions({ length: 30, width: 20 })).toBeNull();
+      expect(parseDimensions({ length: 30, width: 20, height: 10, unit: 'ft' })).toBeNull();
+    });
+  });
+
+  describe('calculateBillableWeight', () => {
+    it('bills light, bulky parcels by their dimensional weight', () => {
+      // 50 x 40 x 30 cm / 5000 = 12 kg
+      const pillow = { weight: 2, dimensions: { length: 50, width: 40, height: 30 }, quantity: 2 };
+      const phone = { weight: 0.5, dimensions: { length: 10, width: 5, height: 2 }, quantity: 1 };
+
+      expect(calculateBillableWeight([pillow, phone])).toBe(24.5);
+      expect(calculateBillableWeight([pillow], 6000)).toBe(20);
+    });
+
+    it('falls back to the actual weight without dimensions', () => {
+      expect(calculateBillableWeight([{ weight: 1.25, quantity: 3 }])).toBe(3.75);
+    });
+  });
+
+  describe('calculateCodFee', () => {
+    it('adds the flat fee and the percentage of the shipment value', () => {
+      expect(calculateCodFee(1000, 20, 0.015)).toBe(35);
+      expect(calculateCodFee(1000, null, null)).toBe(0);
+    });
+  });
+
+  describe('normalizeCountryCode', () => {
+    it('defaults to Ethiopia and accepts its name', () => {
+      expect(normalizeCountryCode(undefined)).toBe('ET');
+      expect(normalizeCountryCode('Ethiopia')).toBe('ET');
+      expect(normalizeCountryCode('ke')).toBe('KE');
+    });
+  });
+
+  describe('getShippingOptions', () => {
+    const address = { country: 'ET', city: 'Addis Ababa' };
+
+    it('prefers the rate for the shipment origin over the generic one', async () => {
+      vi.mocked(prisma.shippingRate.findMany).mockResolvedValue([
+        rate({ id: 'generic', baseRate: 150 }),
+        rate({ id: 'from-dire', originZoneId: 'zone-dire', baseRate: 250 }),
+      ] as any);
+
+      const result = await getShippingOptions(address, 500, undefined, {
+        origin: { country: 'ET', city: 'Dire Dawa' },
+      });
+
+      expect(result.options).toHaveLength(1);
+      expect(result.options[0]).toMatchObject({ id: 'from-dire', rate: 250 });
+      const findCall = vi.mocked(prisma.shippingRate.findMany).mock.calls[0][0] as any;
+      expect(findCall.where.AND[1]).toEqual({ OR: [{ originZoneId: null }, { originZoneId: 'zone-dire' }] });
+    });
+
+    it('charges per kg of billable weight', async () => {
+      vi.mocked(prisma.shippingRate.findMany).mockResolvedValue([rate({ perKgRate: 10 })] as any);
+
+      const result = await getShippingOptions(address, 500, undefined, {
+        parcels: [{ weight: 1, dimensions: { length: 50, width: 40, height: 30 }, quantity: 1 }],
+      });
+
+      expect(result.options[0]).toMatchObject({ rate: 220, billableWeight: 12 });
+    });
+
+    it('adds COD fees and drops methods without cash on delivery', async () => {
+      vi.mocked(prisma.shippingRate.findMany).mockResolvedValue([
+        rate({ codFee: 20, codFeePercent: 0.01 }),
+        rate({ id: 'rate-2', methodId: express.id, method: express, baseRate: 300 }),
+      ] as any);
+
+      const result = await getShippingOptions(address, 1000, undefined, { cashOnDelivery: true });
+
+      expect(result.options).toHaveLength(1);
+      expect(result.options[0]).toMatchObject({ methodId: standard.id, rate: 130, codFee: 30 });
+    });
+
+    it('waives only the shipping portion with free shipping', async () => {
+      vi.mocked(prisma.shippingRate.findMany).mockResolvedValue([rate({ codFee: 25 })] as any);
+
+      const result = await getShippingOptions(address, 1000, undefined, { freeShipping: true, cashOnDelivery: true });
+
+      expect(result.options[0]).toMatchObject({ rate: 25, codFee: 25 });
+    });
+  });
+
+  describe('quoteShipments', () => {
+    const products = [
+      {
+        id: 'p1', vendorId: 'v1', isDigital: false, weight: 1, dimensions: null,
+        vendor: { displayName: 'Addis Crafts', city: 'Addis Ababa', country: 'Ethiopia' },
+      },
+      {
+        id: 'p2', vendorId: 'v2', isDigital: false, weight: 2, dimensions: null,
+        vendor: { displayName: 'Dire Spices', city: 'Dire Dawa', country: 'ET' },
+      },
+      {
+        id: 'p3', vendorId: 'v2', isDigital: true, weight: null, dimensions: null,
+        vendor: { displayName: 'Dire Spices', city: 'Dire Dawa', country: 'ET' },
+      },
+    ];
+
+    beforeEach(() => {
+      vi.mocked(prisma.product.findMany).mockResolvedValue(products as any);
+      vi.mocked(prisma.shippingRate.findMany).mockImplementation((args: any) => {
+        const fromDire = args.where.AND[1].OR.some((clause: any) => clause.originZoneId === 'zone-dire');
+        return Promise.resolve([
+          rate({ baseRate: fromDire ? 200 : 80 }),
+          rate({ id: 'rate-2', methodId: express.id, method: express, baseRate: fromDire ? 400 : 150 }),
+        ]) as any;
+      });
+    });
+
+    it('quotes one shipment per vendor from its own city', async () => {
+      const quote = await quoteShipments({ country: 'ET', city: 'Addis Ababa' }, [
+        { productId: 'p1', quantity: 1, total: 300 },
+        { productId: 'p2', quantity: 2, total: 400 },
+        { productId: 'p3', quantity: 1, total: 50 },
+      ]);
+
+      expect(quote.shipments).toHaveLength(2);
+      expect(quote.shipments[0]).toMatchObject({
+        vendorId: 'v1',
+        vendorName: 'Addis Crafts',
+        origin: { country: 'ET', city: 'Addis Ababa' },
+        subtotal: 300,
+        selected: { methodId: standard.id, rate: 80 },
+      });
+      // The digital product does not ship
+      expect(quote.shipments[1]).toMatchObject({ vendorId: 'v2', productIds: ['p2'], subtotal: 400 });
+      expect(quote.shippingAmount).toBe(280);
+      expect(quote.unavailableVendorIds).toEqual([]);
+    });
+
+    it('uses the chosen method per vendor, else the cheapest', async () => {
+      const quote = await quoteShipments(
+        { country: 'ET', city: 'Addis Ababa' },
+        [
+          { productId: 'p1', quantity: 1, total: 300 },
+          { productId: 'p2', quantity: 1, total: 200 },
+        ],
+        { selections: { v1: express.id, v2: 'unknown-method' } }
+      );
+
+      expect(quote.shipments.map((shipment) => shipment.selected?.methodId)).toEqual([express.id, standard.id]);
+      expect(quote.shippingAmount).toBe(350);
+    });
+
+    it('reports vendors that cannot ship to the address', async () => {
+      vi.mocked(prisma.shippingZone.findMany).mockResolvedValue([zones[1]] as any);
+
+      const quote = await quoteShipments({ country: 'ET', city: 'Addis Ababa' }, [
+        { productId: 'p1', quantity: 1, total: 300 },
+      ]);
+
+      expect(quote.shipments[0].selected).toBeNull();
+      expect(quote.unavailableVendorIds).toEqual(['v1']);
+      expect(quote.shippingAmount).toBe(0);
+    });
+  });
+
+  describe('ShippingService', () => {
+    it('rejects a delivery window that ends before it starts', async () => {
+      await expect(
+        createShippingMethod(admin, { name: 'Express', estimatedDaysMin: 5, estimatedDaysMax: 2 })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'INVALID_DELIVERY_WINDOW' });
+      expect(prisma.shippingMethod.create).not.toHaveBeenCalled();
+    });
+
+    it('creates a method and clears cached shipping data', async () => {
+      vi.mocked(prisma.shippingMethod.create).mockResolvedValue({ id: 'm1' } as any);
+
+      await createShippingMethod(admin, { name: ' Express ', volumetricDivisor: 6000, supportsCod: false });
+
+      const createCall = vi.mocked(prisma.shippingMethod.create).mock.calls[0][0] as any;
+      expect(createCall.data).toMatchObject({ name: 'Express', volumetricDivisor: 6000, supportsCod: false });
+      expect(invalidateCacheByTag).toHaveBeenCalledWith('shipping');
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'shipping_method.create', actorId: 'admin-1' }),
+      });
+    });
+
+    it('keeps methods that orders were shipped with', async () => {
+      vi.mocked(prisma.shippingMethod.findUnique).mockResolvedValue({
+        id: 'm1', name: 'Standard', _count: { orders: 3 },
+      } as any);
+
+      await expect(deleteShippingMethod(admin, 'm1')).rejects.toMatchObject({
+        statusCode: 409,
+        errorCode: 'SHIPPING_METHOD_IN_USE',
+      });
+      expect(prisma.shippingMethod.delete).not.toHaveBeenCalled();
+    });
+
+    it('rejects a second rate for the same method and zones', async () => {
+      vi.mocked(prisma.shippingZone.count).mockResolvedValue(2);
+      vi.mocked(prisma.shippingMethod.findUnique).mockResolvedValue({ id: 'm1' } as any);
+      vi.mocked(prisma.shippingRate.findFirst).mockResolvedValue({ id: 'r1' } as any);
+
+      await expect(
+        createShippingRate(admin, { zoneId: 'zone-addis', originZoneId: 'zone-dire', methodId: 'm1', baseRate: 100 })
+      ).rejects.toMatchObject({ statusCode: 409, errorCode: 'SHIPPING_RATE_EXISTS', details: { rateId: 'r1' } });
+      expect(prisma.shippingRate.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects rates for unknown zones', async () => {
+      vi.mocked(prisma.shippingZone.count).mockResolvedValue(1);
+
+      await expect(
+        createShippingRate(admin, { zoneId: 'zone-addis', originZoneId: 'missing', methodId: 'm1', baseRate: 100 })
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
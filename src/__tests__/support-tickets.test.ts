@@ -0,0 +1,252 @@
+/**
+ * Unit Tests: Support Tickets
+ *
+ * Tests SLA deadlines and status, ticket number threading, ticket creation,
+ * agent and customer replies and inbound email handling.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  return {
+    default: {
+      order: { findUnique: vi.fn() },
+      profile: { findUnique: vi.fn() },
+      supportTicket: {
+        create: vi.fn(),
+        findUnique: vi.fn(),
+        update: vi.fn(),
+      },
+      supportTicketMessage: {
+        create: vi.fn(),
+      },
+      $transaction: vi.fn((operations: any[]) => Promise.all(operations)),
+    },
+  };
+});
+
+vi.mock('@/lib/email', () => ({
+  queueEmail: vi.fn(() => Promise.resolve()),
+  createSupportTicketCreatedEmail: vi.fn((to: string) => ({ to, subject: 'created', html: '', text: '' })),
+  createSupportTicketReplyEmail: vi.fn((to: string) => ({ to, subject: 'reply', html: '', text: '' })),
+}));
+
+import prisma from '@/lib/prisma';
+import { queueEmail } from '@/lib/email';
+import {
+  calculateSlaDeadlines,
+  getSlaStatus,
+  generateTicketNumber,
+  parseTicketNumber,
+  stripQuotedReply,
+  createTicket,
+  addAgentReply,
+  addCustomerReply,
+  handleInboundEmail,
+} from '@/services/SupportTicketService';
+
+const HOUR = 60 * 60 * 1000;
+const openedAt = new Date('2026-10-19T08:00:00Z');
+
+const ticket = {
+  id: 'ticket-1',
+  ticketNumber: 'TKT-20261019-AB12CD',
+  userId: 'user-1',
+  name: 'Abebe',
+  email: 'abebe@example.com',
+  subject: 'Where is my order?',
+  status: 'open',
+  assignedToId: null,
+  firstRespondedAt: null,
+};
+
+describe('Support Tickets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('SLA', () => {
+    it('should set deadlines from the category policy', () => {
+      const deadlines = calculateSlaDeadlines('refund_request', openedAt);
+
+      expect(deadlines.firstResponseDueAt.getTime() - openedAt.getTime()).toBe(4 * HOUR);
+      expect(deadlines.resolutionDueAt.getTime() - openedAt.getTime()).toBe(48 * HOUR);
+    });
+
+    it('should move from on track to at risk to breached before the first reply', () => {
+      const sla = {
+        createdAt: openedAt,
+        ...calculateSlaDeadlines('shipping_issue', openedAt),
+        firstRespondedAt: null,
+        resolvedAt: null,
+      };
+
+      expect(getSlaStatus(sla, new Date(openedAt.getTime() + 2 * HOUR))).toBe('on_track');
+      expect(getSlaStatus(sla, new Date(openedAt.getTime() + 7 * HOUR))).toBe('at_risk');
+      expect(getSlaStatus(sla, new Date(openedAt.getTime() + 9 * HOUR))).toBe('breached');
+    });
+
+    it('should report met or breached once resolved', () => {
+      const deadlines = calculateSlaDeadlines('shipping_issue', openedAt);
+      const base = { createdAt: openedAt, ...deadlines };
+
+      expect(
+        getSlaStatus({
+          ...base,
+          firstRespondedAt: new Date(openedAt.getTime() + HOUR),
+          resolvedAt: new Date(openedAt.getTime() + 24 * HOUR),
+        })
+      ).toBe('met');
+      expect(
+        getSlaStatus({
+          ...base,
+          firstRespondedAt: new Date(openedAt.getTime() + 10 * HOUR),
+          resolvedAt: new Date(openedAt.getTime() + 24 * HOUR),
+        })
+      ).toBe('breached');
+    });
+  });
+
+  describe('ticket numbers', () => {
+    it('should generate numbers that round-trip through an email subject', () => {
+      const ticketNumber = generateTicketNumber(openedAt);
+
+      expect(ticketNumber).toMatch(/^TKT-20261019-[A-Z0-9]{6}$/);
+      expect(parseTicketNumber(`Re: [${ticketNumber}] Where is my order?`)).toBe(ticketNumber);
+      expect(parseTicketNumber('Re: Where is my order?')).toBeNull();
+    });
+
+    it('should strip quoted history from email replies', () => {
+      const text = [
+        'It arrived today, thanks!',
+        '',
+        'On Mon, Oct 19, 2026 at 10:00 AM Minalesh Support <support@minalesh.et> wrote:',
+        '> Your parcel is out for delivery.',
+      ].join('\r\n');
+
+      expect(stripQuotedReply(text)).toBe('It arrived today, thanks!');
+    });
+  });
+
+  describe('createTicket', () => {
+    it('should link the order only when it belongs to the requester', async () => {
+      (prisma.order.findUnique as any).mockResolvedValue({
+        id: 'order-1',
+        userId: 'someone-else',
+        user: { email: 'other@example.com' },
+      });
+      (prisma.supportTicket.create as any).mockImplementation(({ data }: any) => ({ id: 'ticket-1', ...data }));
+
+      await createTicket(
+        {
+          name: 'Abebe',
+          email: 'Abebe@Example.com',
+          category: 'order_inquiry',
+          subject: 'Where is my order?',
+          message: 'It has been a week',
+          orderNumber: 'ORD-1',
+        },
+        'user-1'
+      );
+
+      const data = (prisma.supportTicket.create as any).mock.calls[0][0].data;
+      expect(data).toMatchObject({ email: 'abebe@example.com', orderId: null, priority: 'normal' });
+      expect(data.messages.create).toMatchObject({ authorType: 'customer', channel: 'web' });
+      expect(queueEmail).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('addAgentReply', () => {
+    it('should stop the first-response clock, assign the agent and email the customer', async () => {
+      (prisma.supportTicket.findUnique as any).mockResolvedValue(ticket);
+      (prisma.supportTicketMessage.create as any).mockImplementation(({ data }: any) => ({ id: 'msg-1', ...data }));
+      (prisma.profile.findUnique as any).mockResolvedValue({ displayName: 'Sara', firstName: null });
+
+      await addAgentReply('ticket-1', 'agent-1', { body: 'It ships tomorrow' });
+
+      expect(prisma.supportTicket.update).toHaveBeenCalledWith({
+        where: { id: 'ticket-1' },
+        data: expect.objectContaining({
+          status: 'waiting_on_customer',
+          firstRespondedAt: expect.any(Date),
+          assignedToId: 'agent-1',
+        }),
+      });
+      expect(queueEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep internal notes off the customer email', async () => {
+      (prisma.supportTicket.findUnique as any).mockResolvedValue(ticket);
+
+      await addAgentReply('ticket-1', 'agent-1', { body: 'Courier confirmed delay', isInternal: true });
+
+      expect((prisma.supportTicketMessage.create as any).mock.calls[0][0].data.isInternal).toBe(true);
+      expect(prisma.supportTicket.update).toHaveBeenCalledWith({
+        where: { id: 'ticket-1' },
+        data: { lastActivityAt: expect.any(Date) },
+      });
+      expect(queueEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addCustomerReply', () => {
+    it('should re-open a ticket waiting on the customer', async () => {
+      (prisma.supportTicket.findUnique as any).mockResolvedValue({ ...ticket, status: 'waiting_on_customer' });
+
+      await addCustomerReply(
+        'ticket-1',
+        { userId: 'user-1', email: 'abebe@example.com', role: 'customer' },
+        'Still not here'
+      );
+
+      expect(prisma.supportTicket.update).toHaveBeenCalledWith({
+        where: { id: 'ticket-1' },
+        data: expect.objectContaining({ status: 'open', resolvedAt: null }),
+      });
+    });
+
+    it('should hide other customers tickets', async () => {
+      (prisma.supportTicket.findUnique as any).mockResolvedValue(ticket);
+
+      await expect(
+        addCustomerReply('ticket-1', { userId: 'user-2', email: 'x@example.com', role: 'customer' }, 'hi')
+      ).rejects.toThrow(/not found/);
+    });
+  });
+
+  describe('handleInboundEmail', () => {
+    it('should ignore mail from an address other than the ticket owner', async () => {
+      (prisma.supportTicket.findUnique as any).mockResolvedValue(ticket);
+
+      const result = await handleInboundEmail({
+        from: 'Mallory <mallory@example.com>',
+        subject: `Re: [${ticket.ticketNumber}] Where is my order?`,
+        text: 'Please refund me',
+      });
+
+      expect(result).toEqual({
+        accepted: false,
+        ticketNumber: ticket.ticketNumber,
+        reason: 'Sender does not match ticket',
+      });
+      expect(prisma.supportTicketMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('should append the reply from the ticket owner as an email message', async () => {
+      (prisma.supportTicket.findUnique as any).mockResolvedValue(ticket);
+
+      const result = await handleInboundEmail({
+        from: 'Abebe <ABEBE@example.com>',
+        subject: `Re: [${ticket.ticketNumber}] Where is my order?`,
+        text: 'Got it, thanks\n\n> earlier message',
+      });
+
+      expect(result.accepted).toBe(true);
+      expect((prisma.supportTicketMessage.create as any).mock.calls[0][0].data).toMatchObject({
+        channel: 'email',
+        body: 'Got it, thanks',
+        authorId: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit Tests: Tiered Pricing
+ *
+ * Tests quantity break validation, the product page's price-break table and
+ * that vendors can only manage breaks on their own products.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    product: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    tieredPricing: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+import prisma from '@/lib/prisma';
+import {
+  buildPriceBreaks,
+  createPriceTier,
+  deletePriceTier,
+  getProductPriceBreaks,
+  replacePriceTiers,
+  updatePriceTier,
+  validatePriceTiers,
+  type PriceTierInput,
+} from '@/services/TieredPricingService';
+
+const tier = (
+  minQuantity: number,
+  maxQuantity: number | null,
+  discountValue = 10,
+  discountType: PriceTierInput['discountType'] = 'percentage'
+): PriceTierInput => ({ minQuantity, maxQuantity, discountType, discountValue });
+
+describe('Tiered Pricing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.product.findFirst).mockResolvedValue({ id: 'product-1', price: 100, salePrice: null } as any);
+    vi.mocked(prisma.tieredPricing.findMany).mockResolvedValue([]);
+  });
+
+  describe('validatePriceTiers', () => {
+    it('should accept consecutive breaks ending in an open-ended one', () => {
+      expect(() => validatePriceTiers([tier(10, 49), tier(2, 9, 5), tier(50, null, 15)], 100)).not.toThrow();
+    });
+
+    it('should reject overlapping ranges', () => {
+      expect(() => validatePriceTiers([tier(2, 10), tier(10, 20)], 100)).toThrow(
+        expect.objectContaining({ errorCode: 'OVERLAPPING_PRICE_TIERS' })
+      );
+    });
+
+    it('should reject a break after an open-ended one', () => {
+      expect(() => validatePriceTiers([tier(5, null), tier(20, 30)], 100)).toThrow('Quantity ranges overlap');
+    });
+
+    it('should ignore inactive breaks when checking overlaps', () => {
+      expect(() =>
+        validatePriceTiers([tier(2, 10), { ...tier(5, 20), isActive: false }], 100)
+      ).not.toThrow();
+    });
+
+    it.each([
+      ['a break at one unit', tier(1, 5)],
+      ['a range that ends before it starts', tier(10, 5)],
+      ['a 100% discount', tier(2, 5, 100)],
+      ['a fixed discount above the unit price', tier(2, 5, 150, 'fixed_amount')],
+    ])('should reject %s', (_label, input) => {
+      expect(() => validatePriceTiers([input], 100)).toThrow(
+        expect.objectContaining({ errorCode: 'INVALID_PRICE_TIER' })
+      );
+    });
+  });
+
+  describe('buildPriceBreaks', () => {
+    it('should list per-unit prices in quantity order', () => {
+      expect(buildPriceBreaks([tier(10, null, 20, 'fixed_amount'), tier(2, 9, 5)], 80)).toEqual([
+        expect.objectContaining({ minQuantity: 2, maxQuantity: 9, unitPrice: 76, savingsPercent: 5 }),
+        expect.objectContaining({ minQuantity: 10, maxQuantity: null, unitPrice: 60, savingsPercent: 25 }),
+      ]);
+    });
+  });
+
+  describe('getProductPriceBreaks', () => {
+    it('should price breaks off the sale price', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({
+        id: 'product-1',
+        price: 100,
+        salePrice: 50,
+        tieredPricing: [
+          { minQuantity: 5, maxQuantity: null, discountType: 'percentage', discountValue: 10, isActive: true },
+        ],
+      } as any);
+
+      const result = await getProductPriceBreaks('product-1');
+
+      expect(result.unitPrice).toBe(50);
+      expect(result.breaks).toEqual([expect.objectContaining({ minQuantity: 5, unitPrice: 45 })]);
+    });
+  });
+
+  describe('vendor management', () => {
+    it("should not touch another vendor's product", async () => {
+      vi.mocked(prisma.product.findFirst).mockResolvedValue(null);
+
+      await expect(createPriceTier('vendor-2', 'product-1', tier(2, 5))).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(prisma.product.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'product-1', vendor: { userId: 'vendor-2' } } })
+      );
+      expect(prisma.tieredPricing.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a new break that overlaps an existing one', async () => {
+      vi.mocked(prisma.tieredPricing.findMany).mockResolvedValue([
+        { id: 'tier-1', minQuantity: 10, maxQuantity: null, discountType: 'percentage', discountValue: 10, isActive: true },
+      ] as any);
+
+      await expect(createPriceTier('vendor-1', 'product-1', tier(5, 12))).rejects.toMatchObject({
+        errorCode: 'OVERLAPPING_PRICE_TIERS',
+      });
+      expect(prisma.tieredPricing.create).not.toHaveBeenCalled();
+    });
+
+    it('should validate an update against the other breaks only', async () => {
+      vi.mocked(prisma.tieredPricing.findMany).mockResolvedValue([
+        { id: 'tier-1', minQuantity: 2, maxQuantity: 9, discountType: 'percentage', discountValue: 5, isActive: true },
+        { id: 'tier-2', minQuantity: 10, maxQuantity: null, discountType: 'percentage', discountValue: 10, isActive: true },
+      ] as any);
+
+      await updatePriceTier('vendor-1', 'product-1', 'tier-1', { maxQuantity: 8 });
+
+      expect(prisma.tieredPricing.update).toHaveBeenCalledWith({
+        where: { id: 'tier-1' },
+        data: expect.objectContaining({ minQuantity: 2, maxQuantity: 8, discountValue: 5 }),
+      });
+    });
+
+    it('should report a missing break on delete', async () => {
+      vi.mocked(prisma.tieredPricing.deleteMany).mockResolvedValue({ count: 0 });
+
+      await expect(deletePriceTier('vendor-1', 'product-1', 'tier-9')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should replace all breaks in one transaction', async () => {
+      await replacePriceTiers('vendor-1', 'product-1', [tier(2, 9, 5), tier(10, null)]);
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.tieredPricing.deleteMany).toHaveBeenCalledWith({ where: { productId: 'product-1' } });
+      expect(prisma.tieredPricing.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ productId: 'product-1', minQuantity: 2, maxQuantity: 9, isActive: true }),
+          expect.objectContaining({ productId: 'product-1', minQuantity: 10, maxQuantity: null, isActive: true }),
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Unit Tests: Two-Factor Authentication
+ *
+ * Tests enrolment, login challenges, recovery codes and step-up tokens.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    siteSettings: { findFirst: vi.fn() },
+    user: { findUnique: vi.fn() },
+    userTwoFactor: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    twoFactorRecoveryCode: {
+      count: vi.fn(),
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    twoFactorChallenge: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/sms', () => ({
+  sendSMS: vi.fn(),
+  formatEthiopianPhone: vi.fn(() => '+251911234567'),
+}));
+
+vi.mock('@/lib/security', () => ({
+  logSecurityEvent: vi.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { sendSMS } from '@/lib/sms';
+import { generatePurposeToken, generateToken, hashPassword, verifyToken } from '@/lib/auth';
+import { generateTotp, getTotpStep } from '@/lib/totp';
+import {
+  MAX_CHALLENGE_ATTEMPTS,
+  RECOVERY_CODE_COUNT,
+  STEP_UP_HEADER,
+  beginSmsEnrolment,
+  beginTotpEnrolment,
+  confirmTotpEnrolment,
+  disableTwoFactor,
+  generateRecoveryCodes,
+  getLoginSecondStep,
+  isTwoFactorRequired,
+  requireEnrolmentActor,
+  requireStepUp,
+  stepUp,
+  verifyChallenge,
+} from '@/services/TwoFactorService';
+
+const user = { userId: 'user-1', email: 'user@example.com', role: 'customer' as const, sessionId: 'session-1' };
+
+const future = () => new Date(Date.now() + 5 * 60 * 1000);
+
+const challenge = (overrides: Record<string, unknown> = {}) => ({
+  id: 'challenge-1',
+  userId: 'user-1',
+  purpose: 'login',
+  codeHash: null,
+  phone: null,
+  attempts: 0,
+  expiresAt: future(),
+  consumedAt: null,
+  ...overrides,
+});
+
+// Enrol through the service so the stored secret is encrypted the same way
+async function enrolledTotpRecord() {
+  vi.mocked(prisma.userTwoFactor.upsert).mockResolvedValue({} as any);
+  const { secret } = await beginTotpEnrolment('user-1', 'user@example.com');
+  const stored = vi.mocked(prisma.userTwoFactor.upsert).mock.calls[0][0].create.totpPendingSecret as string;
+  return { secret, record: { userId: 'user-1', totpSecret: stored, totpEnabledAt: new Date(), totpLastStep: null } };
+}
+
+describe('Two-factor authentication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockResolvedValue([] as any);
+    vi.mocked(prisma.twoFactorChallenge.updateMany).mockResolvedValue({ count: 1 } as any);
+  });
+
+  describe('isTwoFactorRequired', () => {
+    it('always requires 2FA for admins', async () => {
+      expect(await isTwoFactorRequired('admin')).toBe(true);
+      expect(prisma.siteSettings.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('requires 2FA for vendors only when the site setting is on', async () => {
+      vi.mocked(prisma.siteSettings.findFirst).mockResolvedValueOnce({ requireVendorTwoFactor: true } as any);
+      expect(await isTwoFactorRequired('vendor')).toBe(true);
+
+      vi.mocked(prisma.siteSettings.findFirst).mockResolvedValueOnce(null);
+      expect(await isTwoFactorRequired('vendor')).toBe(false);
+    });
+
+    it('never requires 2FA for customers', async () => {
+      expect(await isTwoFactorRequired('customer')).toBe(false);
+    });
+  });
+
+  describe('TOTP enrolment', () => {
+    it('stores the pending secret encrypted, never in plain text', async () => {
+      const { secret, record } = await enrolledTotpRecord();
+
+      expect(record.totpSecret).not.toContain(secret);
+    });
+
+    it('enables TOTP and issues recovery codes for the first factor', async () => {
+      const { secret, record } = await enrolledTotpRecord();
+      vi.mocked(prisma.userTwoFactor.findUnique)
+        .mockResolvedValueOnce({ ...record, totpSecret: null, totpEnabledAt: null, totpPendingSecret: record.totpSecret } as any)
+        .mockResolvedValueOnce(null);
+
+      const result = await confirmTotpEnrolment('user-1', generateTotp(secret));
+
+      expect(prisma.userTwoFactor.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ totpSecret: record.totpSecret, totpPendingSecret: null }),
+        })
+      );
+      expect(result.recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+    });
+
+    it('rejects a wrong confirmation code', async () => {
+      const { record } = await enrolledTotpRecord();
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValueOnce({
+        totpPendingSecret: record.totpSecret,
+      } as any);
+
+      await expect(confirmTotpEnrolment('user-1', '000000')).rejects.toMatchObject({
+        errorCode: 'INVALID_TWO_FACTOR_CODE',
+      });
+      expect(prisma.userTwoFactor.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireEnrolmentActor', () => {
+    const signedIn = { userId: user.userId, email: user.email, role: user.role };
+    const enrolmentRequest = (token: string, stepUpToken?: string) =>
+      new Request('http://localhost/api/auth/2fa/sms/setup', {
+        method: 'POST',
+        headers: {
+          authorization: `Bearer ${token}`,
+          ...(stepUpToken ? { [STEP_UP_HEADER]: stepUpToken } : {}),
+        },
+      });
+
+    it('lets users without 2FA enrol their first factor', async () => {
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue(null);
+
+      await expect(requireEnrolmentActor(enrolmentRequest(generateToken(signedIn)))).resolves.toMatchObject({
+        setup: false,
+      });
+    });
+
+    it('requires a step-up to add a factor once 2FA is on', async () => {
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue({ totpEnabledAt: new Date() } as any);
+      const token = generateToken(signedIn);
+
+      await expect(requireEnrolmentActor(enrolmentRequest(token))).rejects.toMatchObject({
+        statusCode: 403,
+        errorCode: 'STEP_UP_REQUIRED',
+      });
+
+      const stepUpToken = generatePurposeToken(signedIn, 'step_up', '5m');
+      await expect(requireEnrolmentActor(enrolmentRequest(token, stepUpToken))).resolves.toMatchObject({
+        setup: false,
+      });
+    });
+
+    it('does not let a setup token add a factor once one is enabled', async () => {
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue({ totpEnabledAt: new Date() } as any);
+      const setupToken = generatePurposeToken(signedIn, 'two_factor_setup', '15m');
+
+      await expect(requireEnrolmentActor(enrolmentRequest(setupToken))).rejects.toMatchObject({
+        errorCode: 'TWO_FACTOR_ALREADY_ENABLED',
+      });
+    });
+  });
+
+  describe('verifyChallenge', () => {
+    it('accepts a current TOTP code and consumes the challenge', async () => {
+      const { secret, record } = await enrolledTotpRecord();
+      vi.mocked(prisma.twoFactorChallenge.findUnique).mockResolvedValue(challenge() as any);
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue(record as any);
+      vi.mocked(prisma.userTwoFactor.updateMany).mockResolvedValue({ count: 1 } as any);
+
+      const result = await verifyChallenge('challenge-1', 'login', { method: 'totp', code: generateTotp(secret) });
+
+      expect(result.userId).toBe('user-1');
+      expect(prisma.twoFactorChallenge.updateMany).toHaveBeenCalledWith({
+        where: { id: 'challenge-1', consumedAt: null },
+        data: { consumedAt: expect.any(Date) },
+      });
+    });
+
+    it('rejects a TOTP code that was already used', async () => {
+      const { secret, record } = await enrolledTotpRecord();
+      vi.mocked(prisma.twoFactorChallenge.findUnique).mockResolvedValue(challenge() as any);
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue({ ...record, totpLastStep: getTotpStep() } as any);
+
+      await expect(
+        verifyChallenge('challenge-1', 'login', { method: 'totp', code: generateTotp(secret) })
+      ).rejects.toMatchObject({ errorCode: 'INVALID_TWO_FACTOR_CODE' });
+      expect(prisma.twoFactorChallenge.updateMany).toHaveBeenCalledWith({
+        where: { id: 'challenge-1', attempts: { lt: MAX_CHALLENGE_ATTEMPTS } },
+        data: { attempts: { increment: 1 } },
+      });
+    });
+
+    it('accepts the code texted for the challenge', async () => {
+      vi.mocked(prisma.twoFactorChallenge.create).mockResolvedValue(challenge({ purpose: 'sms_enrolment' }) as any);
+      vi.mocked(sendSMS).mockResolvedValue(true);
+      await beginSmsEnrolment('user-1', '0911234567');
+      const code = vi.mocked(sendSMS).mock.calls[0][0].message.match(/\d{6}/)![0];
+      const codeHash = vi.mocked(prisma.twoFactorChallenge.update).mock.calls[0][0].data.codeHash;
+
+      vi.mocked(prisma.twoFactorChallenge.findUnique).mockResolvedValue(
+        challenge({ purpose: 'sms_enrolment', codeHash, phone: '+251911234567' }) as any
+      );
+
+      const result = await verifyChallenge('challenge-1', 'sms_enrolment', { method: 'sms', code }, 'user-1');
+      expect(result.phone).toBe('+251911234567');
+    });
+
+    it('consumes a recovery code only once', async () => {
+      vi.mocked(prisma.twoFactorChallenge.findUnique).mockResolvedValue(challenge() as any);
+      vi.mocked(prisma.twoFactorRecoveryCode.updateMany).mockResolvedValueOnce({ count: 0 } as any);
+
+      await expect(
+        verifyChallenge('challenge-1', 'login', { method: 'recovery', code: 'ABCDE-12345' })
+      ).rejects.toMatchObject({ errorCode: 'INVALID_TWO_FACTOR_CODE' });
+      expect(prisma.twoFactorRecoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', codeHash: expect.any(String), usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('rejects expired, consumed or mismatched challenges', async () => {
+      vi.mocked(prisma.twoFactorChallenge.findUnique).mockResolvedValueOnce(
+        challenge({ expiresAt: new Date(Date.now() - 1000) }) as any
+      );
+      await expect(
+        verifyChallenge('challenge-1', 'login', { method: 'recovery', code: 'ABCDE-12345' })
+      ).rejects.toMatchObject({ errorCode: 'CHALLENGE_EXPIRED' });
+
+      vi.mocked(prisma.twoFactorChallenge.findUnique).mockResolvedValueOnce(challenge({ consumedAt: new Date() }) as any);
+      await expect(
+        verifyChallenge('challenge-1', 'login', { method: 'recovery', code: 'ABCDE-12345' })
+      ).rejects.toMatchObject({ errorCode: 'CHALLENGE_EXPIRED' });
+
+      vi.mocked(prisma.twoFactorChallenge.findUnique).mockResolvedValueOnce(challenge({ purpose: 'step_up' }) as any);
+      await expect(
+        verifyChallenge('challenge-1', 'login', { method: 'recovery', code: 'ABCDE-12345' })
+      ).rejects.toMatchObject({ errorCode: 'CHALLENGE_EXPIRED' });
+    });
+
+    it('locks the challenge after too many wrong codes', async () => {
+      vi.mocked(prisma.twoFactorChallenge.findUnique).mockResolvedValue(
+        challenge({ attempts: MAX_CHALLENGE_ATTEMPTS }) as any
+      );
+      vi.mocked(prisma.twoFactorChallenge.updateMany).mockResolvedValueOnce({ count: 0 } as any);
+
+      await expect(
+        verifyChallenge('challenge-1', 'login', { method: 'recovery', code: 'ABCDE-12345' })
+      ).rejects.toMatchObject({ statusCode: 429, errorCode: 'TOO_MANY_ATTEMPTS' });
+      expect(prisma.twoFactorRecoveryCode.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateRecoveryCodes', () => {
+    it('replaces old codes and stores only hashes', async () => {
+      const codes = await generateRecoveryCodes('user-1');
+
+      expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+      expect(prisma.twoFactorRecoveryCode.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      const stored = vi.mocked(prisma.twoFactorRecoveryCode.createMany).mock.calls[0][0].data as { codeHash: string }[];
+      expect(stored.map((row) => row.codeHash)).not.toContain(codes[0]);
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    it('refuses for admins', async () => {
+      await expect(disableTwoFactor('user-1', 'admin')).rejects.toMatchObject({ errorCode: 'TWO_FACTOR_REQUIRED' });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('removes factors and recovery codes for customers', async () => {
+      await disableTwoFactor('user-1', 'customer');
+
+      expect(prisma.userTwoFactor.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      expect(prisma.twoFactorRecoveryCode.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    });
+  });
+
+  describe('getLoginSecondStep', () => {
+    it('opens a challenge for users with 2FA', async () => {
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue({ totpEnabledAt: new Date() } as any);
+      vi.mocked(prisma.twoFactorChallenge.create).mockResolvedValue(challenge() as any);
+
+      const step = await getLoginSecondStep(user);
+
+      expect(step).toEqual({ twoFactorRequired: true, challengeId: 'challenge-1', methods: ['totp', 'recovery'] });
+      expect(sendSMS).not.toHaveBeenCalled();
+    });
+
+    it('asks admins without 2FA to enrol using a setup token that cannot act as an access token', async () => {
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue(null);
+
+      const step = await getLoginSecondStep({ ...user, role: 'admin' as any });
+
+      expect(step).toMatchObject({ twoFactorSetupRequired: true });
+      expect(verifyToken((step as { setupToken: string }).setupToken)).toBeNull();
+    });
+
+    it('lets customers without 2FA straight through', async () => {
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue(null);
+
+      expect(await getLoginSecondStep(user)).toBeNull();
+    });
+  });
+
+  describe('step-up', () => {
+    it('issues a step-up token after the password for users without 2FA', async () => {
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ password: await hashPassword('correct-horse') } as any);
+
+      await expect(stepUp(user, { password: 'wrong' })).rejects.toMatchObject({ errorCode: 'INVALID_PASSWORD' });
+
+      const { stepUpToken } = await stepUp(user, { password: 'correct-horse' });
+      const request = new Request('http://localhost/api/user/data-export', {
+        headers: { [STEP_UP_HEADER]: stepUpToken },
+      });
+      expect(() => requireStepUp(request, user)).not.toThrow();
+    });
+
+    it('requires a second factor rather than the password for users with 2FA', async () => {
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue({ totpEnabledAt: new Date() } as any);
+
+      await expect(stepUp(user, { password: 'correct-horse' })).rejects.toMatchObject({
+        errorCode: 'TWO_FACTOR_CODE_REQUIRED',
+      });
+    });
+
+    it('counts authenticator and recovery codes tried at step-up', async () => {
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue({ totpEnabledAt: new Date() } as any);
+      vi.mocked(prisma.userTwoFactor.updateMany).mockResolvedValue({ count: 1 } as any);
+      vi.mocked(prisma.twoFactorRecoveryCode.updateMany).mockResolvedValue({ count: 0 } as any);
+
+      await expect(stepUp(user, { method: 'recovery', code: 'ABCDE-12345' })).rejects.toMatchObject({
+        errorCode: 'INVALID_TWO_FACTOR_CODE',
+      });
+      expect(prisma.userTwoFactor.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', stepUpAttempts: { lt: MAX_CHALLENGE_ATTEMPTS } },
+        data: { stepUpAttempts: { increment: 1 } },
+      });
+    });
+
+    it('locks step-up after too many wrong codes', async () => {
+      vi.mocked(prisma.userTwoFactor.findUnique).mockResolvedValue({ totpEnabledAt: new Date() } as any);
+      vi.mocked(prisma.userTwoFactor.updateMany).mockResolvedValue({ count: 0 } as any);
+
+      await expect(stepUp(user, { method: 'recovery', code: 'ABCDE-12345' })).rejects.toMatchObject({
+        statusCode: 429,
+        errorCode: 'TOO_MANY_ATTEMPTS',
+      });
+      expect(prisma.userTwoFactor.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', stepUpLockedUntil: null },
+        data: { stepUpLockedUntil: expect.any(Date) },
+      });
+      expect(prisma.twoFactorRecoveryCode.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects missing, foreign-session or wrong-purpose tokens', () => {
+      const check = (headers: Record<string, string>) =>
+        requireStepUp(new Request('http://localhost/api/user/data-export', { headers }), user);
+
+      expect(() => check({})).toThrow(expect.objectContaining({ errorCode: 'STEP_UP_REQUIRED' }));
+
+      const otherSession = generatePurposeToken({ ...user, sessionId: 'session-2' }, 'step_up', '5m');
+      expect(() => check({ [STEP_UP_HEADER]: otherSession })).toThrow(
+        expect.objectContaining({ errorCode: 'STEP_UP_REQUIRED' })
+      );
+
+      const setupToken = generatePurposeToken(user, 'two_factor_setup', '5m');
+      expect(() => check({ [STEP_UP_HEADER]: setupToken })).toThrow(
+        expect.objectContaining({ errorCode: 'STEP_UP_REQUIRED' })
+      );
+    });
+  });
+});
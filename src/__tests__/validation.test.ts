@@ -100,6 +100,19 @@ describe('Validation Layer', () => {
         const result = authSchemas.login.safeParse(invalidData);
         expect(result.success).toBe(false);
       });
+
+      it('should accept a phone number instead of email', () => {
+        const result = authSchemas.login.safeParse({
+          phone: '0911234567',
+          password: 'password123',
+        });
+        expect(result.success).toBe(true);
+      });
+
+      it('should reject login without email or phone', () => {
+        const result = authSchemas.login.safeParse({ password: 'password123' });
+        expect(result.success).toBe(false);
+      });
     });
 
     describe('Register Schema', () => {
@@ -199,7 +212,7 @@ describe('Validation Layer', () => {
     describe('Calculate Schema', () => {
       it('should validate valid calculate data', () => {
         const validData = {
-          subtotal: 100.00,
+          items: [{ productId: 'product-123', quantity: 2 }],
           shippingAddress: {
             country: 'US',
             state: 'CA',
@@ -211,18 +224,23 @@ describe('Validation Layer', () => {
         expect(result.success).toBe(true);
       });
 
-      it('should reject negative subtotal', () => {
+      it('should reject a client-supplied subtotal without items', () => {
         const invalidData = {
-          subtotal: -100,
+          subtotal: 100,
         };
 
         const result = cartSchemas.calculate.safeParse(invalidData);
         expect(result.success).toBe(false);
       });
 
+      it('should reject an empty cart', () => {
+        const result = cartSchemas.calculate.safeParse({ items: [] });
+        expect(result.success).toBe(false);
+      });
+
       it('should accept optional coupon code', () => {
         const validData = {
-          subtotal: 100,
+          items: [{ productId: 'product-123', quantity: 1 }],
           couponCode: 'SAVE10',
         };
 
@@ -0,0 +1,250 @@
+/**
+ * Unit Tests: Vendor Orders
+ *
+ * Tests how orders are split into per-vendor orders, how vendors move their
+ * own part along and how the order's status is derived from them.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const client: any = {
+    vendorOrder: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    orderEvent: {
+      create: vi.fn(),
+    },
+    order: {
+      update: vi.fn(),
+    },
+    deliveryTracking: {
+      upsert: vi.fn(),
+    },
+    $transaction: vi.fn((callback: (tx: any) => Promise<any>) => callback(client)),
+  };
+  return { default: client };
+});
+
+vi.mock('@/lib/logistics', () => ({
+  getLogisticsProvider: vi.fn((code: string) =>
+    ['minalesh', 'internal'].includes(code) ? { code, webhookEnabled: code === 'minalesh' } : undefined
+  ),
+  sendTrackingNotification: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('@/services/LoyaltyService', () => ({
+  awardPointsForPurchase: vi.fn(() => Promise.resolve()),
+}));
+
+import prisma from '@/lib/prisma';
+import { sendTrackingNotification } from '@/lib/logistics';
+import { awardPointsForPurchase } from '@/services/LoyaltyService';
+import { deriveOrderStatus } from '@/lib/order-status';
+import {
+  applyOrderStatusToVendorOrders,
+  createVendorOrders,
+  updateVendorOrderStatus,
+  updateVendorOrderTracking,
+} from '@/services/VendorOrderService';
+
+describe('deriveOrderStatus', () => {
+  it('keeps the order status when it has no vendor orders', () => {
+    expect(deriveOrderStatus('paid', [])).toBe('paid');
+  });
+
+  it('keeps a terminal order status', () => {
+    expect(deriveOrderStatus('refunded', ['delivered', 'shipped'])).toBe('refunded');
+  });
+
+  it('follows the slowest active vendor order', () => {
+    expect(deriveOrderStatus('paid', ['in_transit', 'packed', 'delivered'])).toBe('packed');
+  });
+
+  it('ignores cancelled vendor orders while others are active', () => {
+    expect(deriveOrderStatus('confirmed', ['cancelled', 'delivered'])).toBe('delivered');
+  });
+
+  it('is cancelled when every vendor order is cancelled', () => {
+    expect(deriveOrderStatus('confirmed', ['cancelled', 'cancelled'])).toBe('cancelled');
+  });
+
+  it('is refunded when every vendor order is cancelled or refunded', () => {
+    expect(deriveOrderStatus('shipped', ['cancelled', 'refunded'])).toBe('refunded');
+  });
+
+  it('keeps a paid order paid while vendor orders are still pending', () => {
+    expect(deriveOrderStatus('paid', ['pending', 'confirmed'])).toBe('paid');
+  });
+});
+
+describe('createVendorOrders', () => {
+  it('creates one numbered vendor order per vendor with its shipment', async () => {
+    const tx: any = {
+      vendorOrder: { create: vi.fn(({ data }) => Promise.resolve({ id: `vo-${data.vendorId}`, ...data })) },
+      orderItem: { updateMany: vi.fn() },
+    };
+
+    const vendorOrders = await createVendorOrders(
+      tx,
+      {
+        id: 'order-1',
+        orderNumber: 'MIN-100',
+        orderItems: [
+          { id: 'item-1', vendorId: 'vendor-a', total: '100.00' },
+          { id: 'item-2', vendorId: 'vendor-b', total: '40.00' },
+          { id: 'item-3', vendorId: 'vendor-a', total: '25.50' },
+        ],
+      },
+      [{ vendorId: 'vendor-b', selected: { methodId: 'method-express', rate: 80 } as any }]
+    );
+
+    expect(vendorOrders).toHaveLength(2);
+    expect(tx.vendorOrder.create).toHaveBeenNthCalledWith(1, {
+      data: {
+        orderId: 'order-1',
+        vendorId: 'vendor-a',
+        number: 'MIN-100-1',
+        subtotal: '125.50',
+        shippingAmount: '0.00',
+        shippingMethodId: null,
+      },
+    });
+    expect(tx.vendorOrder.create).toHaveBeenNthCalledWith(2, {
+      data: {
+        orderId: 'order-1',
+        vendorId: 'vendor-b',
+        number: 'MIN-100-2',
+        subtotal: '40.00',
+        shippingAmount: '80.00',
+        shippingMethodId: 'method-express',
+      },
+    });
+    expect(tx.orderItem.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['item-1', 'item-3'] } },
+      data: { vendorOrderId: 'vo-vendor-a' },
+    });
+  });
+});
+
+describe('updateVendorOrderStatus', () => {
+  const vendorOrder = (status: string, orderStatus: string) => ({
+    id: 'vo-1',
+    number: 'MIN-100-1',
+    status,
+    order: { id: 'order-1', userId: 'user-1', status: orderStatus, totalAmount: '500.00' },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.vendorOrder.update as any).mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: 'vo-1', ...data })
+    );
+  });
+
+  it('only finds the vendor\'s own vendor orders', async () => {
+    (prisma.vendorOrder.findFirst as any).mockResolvedValue(null);
+
+    await expect(updateVendorOrderStatus('vendor-b', 'vo-1', 'confirmed', 'user-b')).rejects.toThrow(
+      'Vendor order not found'
+    );
+    expect(prisma.vendorOrder.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'vo-1', vendorId: 'vendor-b' } })
+    );
+  });
+
+  it('rejects an invalid transition', async () => {
+    (prisma.vendorOrder.findFirst as any).mockResolvedValue(vendorOrder('confirmed', 'confirmed'));
+
+    await expect(updateVendorOrderStatus('vendor-a', 'vo-1', 'delivered', 'user-a')).rejects.toMatchObject({
+      statusCode: 400,
+      errorCode: 'INVALID_STATUS_TRANSITION',
+    });
+    expect(prisma.vendorOrder.update).not.toHaveBeenCalled();
+  });
+
+  it('treats a pending vendor order on a paid order as paid', async () => {
+    (prisma.vendorOrder.findFirst as any).mockResolvedValue(vendorOrder('pending', 'paid'));
+    (prisma.vendorOrder.findMany as any).mockResolvedValue([{ status: 'confirmed' }, { status: 'pending' }]);
+
+    const result = await updateVendorOrderStatus('vendor-a', 'vo-1', 'confirmed', 'user-a');
+
+    expect(prisma.vendorOrder.update).toHaveBeenCalledWith({
+      where: { id: 'vo-1' },
+      data: { status: 'confirmed', confirmedAt: expect.any(Date) },
+    });
+    expect(result.orderStatus).toBe('paid');
+    expect(prisma.order.update).not.toHaveBeenCalled();
+  });
+
+  it('moves the order once its slowest vendor order moves', async () => {
+    (prisma.vendorOrder.findFirst as any).mockResolvedValue(vendorOrder('out_for_delivery', 'out_for_delivery'));
+    (prisma.vendorOrder.findMany as any).mockResolvedValue([{ status: 'delivered' }, { status: 'delivered' }]);
+
+    const result = await updateVendorOrderStatus('vendor-a', 'vo-1', 'delivered', 'user-a');
+
+    expect(result.orderStatus).toBe('delivered');
+    expect(prisma.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: { status: 'delivered', deliveredAt: expect.any(Date) },
+    });
+    expect(prisma.orderEvent.create).toHaveBeenCalledTimes(2);
+    expect(sendTrackingNotification).toHaveBeenCalledWith('order-1', 'delivered');
+    expect(awardPointsForPurchase).toHaveBeenCalledWith('user-1', 'order-1', 500);
+  });
+});
+
+describe('applyOrderStatusToVendorOrders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('applies the order status only to vendor orders that can take it', async () => {
+    (prisma.vendorOrder.findMany as any).mockResolvedValue([
+      { id: 'vo-1', number: 'MIN-100-1', status: 'pending' },
+      { id: 'vo-2', number: 'MIN-100-2', status: 'shipped' },
+      { id: 'vo-3', number: 'MIN-100-3', status: 'cancelled' },
+    ]);
+
+    const applied = await applyOrderStatusToVendorOrders(prisma as any, 'order-1', 'confirmed', 'admin-1');
+
+    expect(applied).toBe(1);
+    expect(prisma.vendorOrder.update).toHaveBeenCalledTimes(1);
+    expect(prisma.vendorOrder.update).toHaveBeenCalledWith({
+      where: { id: 'vo-1' },
+      data: { status: 'confirmed', confirmedAt: expect.any(Date) },
+    });
+  });
+});
+
+describe('updateVendorOrderTracking', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.vendorOrder.findFirst as any).mockResolvedValue({ id: 'vo-1', orderId: 'order-1', number: 'MIN-100-1' });
+  });
+
+  it('rejects an unknown logistics provider', async () => {
+    await expect(
+      updateVendorOrderTracking('vendor-a', 'vo-1', { logisticsProvider: 'pigeon' }, 'user-a')
+    ).rejects.toMatchObject({ statusCode: 400, errorCode: 'UNKNOWN_LOGISTICS_PROVIDER' });
+    expect(prisma.deliveryTracking.upsert).not.toHaveBeenCalled();
+  });
+
+  it('saves tracking on the vendor order', async () => {
+    (prisma.deliveryTracking.upsert as any).mockResolvedValue({ logisticsProvider: 'minalesh', providerTrackingId: 'MX-1' });
+
+    await updateVendorOrderTracking('vendor-a', 'vo-1', { logisticsProvider: 'minalesh', providerTrackingId: 'MX-1' }, 'user-a');
+
+    expect(prisma.deliveryTracking.upsert).toHaveBeenCalledWith({
+      where: { vendorOrderId: 'vo-1' },
+      update: { logisticsProvider: 'minalesh', providerTrackingId: 'MX-1', providerWebhookEnabled: true },
+      create: { vendorOrderId: 'vo-1', logisticsProvider: 'minalesh', providerTrackingId: 'MX-1', providerWebhookEnabled: true },
+    });
+    expect(prisma.orderEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ orderId: 'order-1', vendorOrderId: 'vo-1', eventType: 'tracking_update' }),
+    });
+  });
+});
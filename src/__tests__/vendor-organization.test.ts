@@ -0,0 +1,385 @@
+/**
+ * Unit Tests: Vendor Organizations and Admin Operators
+ *
+ * Tests how vendor routes resolve the shop for owners and staff, staff
+ * invitations, scoped admin operators and the audit entries they leave.
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    profile: {
+      findUnique: vi.fn(),
+    },
+    vendorStaffMember: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    vendorStaffInvite: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    auditLog: {
+      create: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendEmail: vi.fn(),
+  createVendorStaffInviteEmail: vi.fn((to: string, storeName: string, permissions: string[], token: string) => ({
+    to,
+    subject: `Join ${storeName}`,
+    html: token,
+    text: token,
+  })),
+}));
+
+vi.mock('@/services/SessionService', () => ({
+  revokeAllSessions: vi.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { sendEmail } from '@/lib/email';
+import { adminScopeCanAccess, getAdminApiPermissions } from '@/lib/permissions';
+import { revokeAllSessions } from '@/services/SessionService';
+import {
+  acceptInvite,
+  inviteStaff,
+  loadVendorContext,
+  removeStaff,
+  requireVendorContext,
+  type VendorContext,
+} from '@/services/VendorOrganizationService';
+import {
+  requireAdminPermission,
+  revokeOperatorAccess,
+  setOperatorScope,
+} from '@/services/AdminService';
+
+const SHOP = {
+  id: 'shop-1',
+  userId: 'owner-1',
+  displayName: 'Addis Coffee',
+  isVendor: true,
+  vendorStatus: 'approved',
+};
+
+const ownerContext: VendorContext = {
+  vendor: SHOP,
+  actorId: 'owner-1',
+  isOwner: true,
+  permissions: ['catalog', 'orders', 'finance', 'messaging'],
+};
+
+const staffContext: VendorContext = {
+  vendor: SHOP,
+  actorId: 'staff-1',
+  isOwner: false,
+  permissions: ['catalog'],
+};
+
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+describe('Vendor organizations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation(async (operations: any) => Promise.all(operations));
+    vi.mocked(prisma.auditLog.create).mockResolvedValue({} as any);
+  });
+
+  describe('loadVendorContext', () => {
+    it('gives shop owners every permission', async () => {
+      vi.mocked(prisma.profile.findUnique).mockResolvedValue(SHOP as any);
+
+      const context = await loadVendorContext('owner-1');
+
+      expect(context).toMatchObject({ isOwner: true, vendor: { id: 'shop-1' } });
+      expect(context!.permissions).toEqual(['catalog', 'orders', 'finance', 'messaging']);
+    });
+
+    it('resolves staff to the shop they work for with their permissions', async () => {
+      vi.mocked(prisma.profile.findUnique).mockResolvedValue({ id: 'p-2', isVendor: false } as any);
+      vi.mocked(prisma.vendorStaffMember.findUnique).mockResolvedValue({
+        userId: 'staff-1',
+        permissions: ['catalog', 'unknown'],
+        vendor: SHOP,
+      } as any);
+
+      const context = await loadVendorContext('staff-1');
+
+      expect(context).toMatchObject({ isOwner: false, actorId: 'staff-1', vendor: { id: 'shop-1' } });
+      expect(context!.permissions).toEqual(['catalog']);
+    });
+
+    it('returns null for users outside any shop', async () => {
+      vi.mocked(prisma.profile.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.vendorStaffMember.findUnique).mockResolvedValue(null);
+
+      expect(await loadVendorContext('customer-1')).toBeNull();
+    });
+  });
+
+  describe('requireVendorContext', () => {
+    it('rejects staff without the permission', async () => {
+      vi.mocked(prisma.profile.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.vendorStaffMember.findUnique).mockResolvedValue({
+        permissions: ['messaging'],
+        vendor: SHOP,
+      } as any);
+
+      await expect(requireVendorContext({ userId: 'staff-1' }, 'finance')).rejects.toMatchObject({
+        statusCode: 403,
+        errorCode: 'VENDOR_PERMISSION_DENIED',
+      });
+    });
+
+    it('rejects non-vendors', async () => {
+      vi.mocked(prisma.profile.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.vendorStaffMember.findUnique).mockResolvedValue(null);
+
+      await expect(requireVendorContext({ userId: 'customer-1' })).rejects.toMatchObject({
+        errorCode: 'NOT_A_VENDOR',
+      });
+    });
+  });
+
+  describe('inviteStaff', () => {
+    it('emails a token and stores only its hash', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.vendorStaffInvite.updateMany).mockResolvedValue({ count: 0 } as any);
+      vi.mocked(prisma.vendorStaffInvite.create).mockResolvedValue({ id: 'invite-1' } as any);
+
+      await inviteStaff(ownerContext, { email: ' Helper@Example.com ', permissions: ['orders', 'catalog'] });
+
+      const data = vi.mocked(prisma.vendorStaffInvite.create).mock.calls[0][0].data as any;
+      expect(data.email).toBe('helper@example.com');
+      expect(data.permissions).toEqual(['catalog', 'orders']);
+
+      const token = vi.mocked(sendEmail).mock.calls[0][0].text;
+      expect(data.tokenHash).toBe(hash(token));
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'staff.invite', vendorId: 'shop-1', actorId: 'owner-1' }),
+      });
+    });
+
+    it('only lets the owner invite', async () => {
+      await expect(
+        inviteStaff(staffContext, { email: 'a@example.com', permissions: ['catalog'] })
+      ).rejects.toMatchObject({ errorCode: 'SHOP_OWNER_ONLY' });
+    });
+
+    it('refuses people who already work for a shop', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: 'user-9',
+        profile: { isVendor: false },
+        vendorStaffMembership: { vendorId: 'shop-2' },
+      } as any);
+
+      await expect(
+        inviteStaff(ownerContext, { email: 'a@example.com', permissions: ['catalog'] })
+      ).rejects.toMatchObject({ errorCode: 'ALREADY_STAFF' });
+    });
+  });
+
+  describe('acceptInvite', () => {
+    const invite = {
+      id: 'invite-1',
+      vendorId: 'shop-1',
+      email: 'helper@example.com',
+      permissions: ['orders'],
+      invitedById: 'owner-1',
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+      vendor: SHOP,
+    };
+
+    it('requires the invited email address', async () => {
+      vi.mocked(prisma.vendorStaffInvite.findUnique).mockResolvedValue(invite as any);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: 'user-2',
+        email: 'someone@example.com',
+        role: 'customer',
+        profile: null,
+        vendorStaffMembership: null,
+      } as any);
+
+      await expect(
+        acceptInvite({ userId: 'user-2', email: 'someone@example.com', role: 'customer' }, 'token')
+      ).rejects.toMatchObject({ errorCode: 'INVITE_EMAIL_MISMATCH' });
+    });
+
+    it('rejects expired invitations', async () => {
+      vi.mocked(prisma.vendorStaffInvite.findUnique).mockResolvedValue({
+        ...invite,
+        expiresAt: new Date(Date.now() - 1000),
+      } as any);
+
+      await expect(
+        acceptInvite({ userId: 'user-2', email: 'helper@example.com', role: 'customer' }, 'token')
+      ).rejects.toMatchObject({ errorCode: 'INVITE_INVALID' });
+    });
+
+    it('joins the shop and makes customers vendors', async () => {
+      vi.mocked(prisma.vendorStaffInvite.findUnique).mockResolvedValue(invite as any);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: 'user-2',
+        email: 'helper@example.com',
+        role: 'customer',
+        profile: null,
+        vendorStaffMembership: null,
+      } as any);
+      vi.mocked(prisma.vendorStaffMember.create).mockResolvedValue({ id: 'member-1' } as any);
+      vi.mocked(prisma.vendorStaffInvite.update).mockResolvedValue({} as any);
+      vi.mocked(prisma.user.update).mockResolvedValue({} as any);
+
+      const result = await acceptInvite(
+        { userId: 'user-2', email: 'helper@example.com', role: 'customer', sessionId: 'session-1' },
+        'token'
+      );
+
+      expect(prisma.vendorStaffInvite.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: hash('token') } })
+      );
+      expect(prisma.vendorStaffMember.create).toHaveBeenCalledWith({
+        data: { vendorId: 'shop-1', userId: 'user-2', permissions: ['orders'], invitedById: 'owner-1' },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-2' }, data: { role: 'vendor' } });
+      expect(result.storeName).toBe('Addis Coffee');
+      expect(typeof result.token).toBe('string');
+    });
+
+    it('reports a membership created at the same time as a conflict', async () => {
+      vi.mocked(prisma.vendorStaffInvite.findUnique).mockResolvedValue(invite as any);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: 'user-2',
+        email: 'helper@example.com',
+        role: 'customer',
+        profile: null,
+        vendorStaffMembership: null,
+      } as any);
+      vi.mocked(prisma.$transaction).mockRejectedValueOnce({ code: 'P2002' });
+
+      await expect(
+        acceptInvite({ userId: 'user-2', email: 'helper@example.com', role: 'customer' }, 'token')
+      ).rejects.toMatchObject({ errorCode: 'ALREADY_STAFF' });
+    });
+  });
+
+  describe('removeStaff', () => {
+    it('demotes the member and signs them out', async () => {
+      vi.mocked(prisma.vendorStaffMember.findFirst).mockResolvedValue({
+        id: 'member-1',
+        userId: 'staff-1',
+        permissions: ['catalog'],
+      } as any);
+      vi.mocked(prisma.vendorStaffMember.delete).mockResolvedValue({} as any);
+      vi.mocked(prisma.user.updateMany).mockResolvedValue({ count: 1 } as any);
+
+      await removeStaff(ownerContext, 'member-1');
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'staff-1', role: 'vendor' },
+        data: { role: 'customer' },
+      });
+      expect(revokeAllSessions).toHaveBeenCalledWith('staff-1', 'admin_revoked');
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'staff.remove' }),
+      });
+    });
+  });
+});
+
+describe('Admin operators', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.auditLog.create).mockResolvedValue({} as any);
+  });
+
+  describe('admin API scopes', () => {
+    it('maps admin API areas to permissions', () => {
+      expect(getAdminApiPermissions('/api/admin/disputes/123/refund')).toEqual(['support']);
+      expect(getAdminApiPermissions('/api/admin/contract-templates')).toEqual(['catalog']);
+      expect(getAdminApiPermissions('/api/admin/dashboard/live-stats')).toBeNull();
+      expect(getAdminApiPermissions('/api/admin/feature-flags')).toEqual(['settings']);
+    });
+
+    it('keeps operators inside their scope', () => {
+      expect(adminScopeCanAccess('support_agent', '/api/admin/orders')).toBe(true);
+      expect(adminScopeCanAccess('finance', '/api/admin/orders')).toBe(true);
+      expect(adminScopeCanAccess('support_agent', '/api/admin/ledger/journals')).toBe(false);
+      expect(adminScopeCanAccess('catalog_moderator', '/api/admin/operators')).toBe(false);
+      expect(adminScopeCanAccess('catalog_moderator', '/api/admin/dashboard/live-stats')).toBe(true);
+    });
+
+    it('treats admins without a scope as super admins', () => {
+      expect(adminScopeCanAccess(null, '/api/admin/site-config')).toBe(true);
+    });
+  });
+
+  describe('requireAdminPermission', () => {
+    it('checks the scope stored on the account', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ role: 'admin', adminScope: 'finance' } as any);
+
+      await expect(requireAdminPermission({ userId: 'op-1', role: 'admin' }, 'finance')).resolves.toBe('finance');
+      await expect(requireAdminPermission({ userId: 'op-1', role: 'admin' }, 'operators')).rejects.toMatchObject({
+        errorCode: 'ADMIN_PERMISSION_DENIED',
+      });
+    });
+  });
+
+  describe('setOperatorScope', () => {
+    it('will not downgrade the last super admin', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue({ id: 'op-1', adminScope: 'super_admin' } as any);
+      vi.mocked(prisma.user.findMany).mockResolvedValue([{ id: 'op-1' }] as any);
+
+      await expect(setOperatorScope({ userId: 'op-1' }, 'op-1', 'finance')).rejects.toMatchObject({
+        errorCode: 'LAST_SUPER_ADMIN',
+      });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('signs the operator out and audits the change', async () => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue({ id: 'op-2', adminScope: 'support_agent' } as any);
+      vi.mocked(prisma.user.update).mockResolvedValue({ id: 'op-2' } as any);
+
+      await setOperatorScope({ userId: 'op-1' }, 'op-2', 'finance', '10.0.0.1');
+
+      expect(revokeAllSessions).toHaveBeenCalledWith('op-2', 'admin_revoked');
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          scope: 'admin',
+          actorId: 'op-1',
+          action: 'operator.scope_change',
+          entityId: 'op-2',
+          changes: { adminScope: { from: 'support_agent', to: 'finance' } },
+          ipAddress: '10.0.0.1',
+        }),
+      });
+    });
+  });
+
+  describe('revokeOperatorAccess', () => {
+    it('does not let operators remove themselves', async () => {
+      await expect(revokeOperatorAccess({ userId: 'op-1' }, 'op-1')).rejects.toMatchObject({
+        errorCode: 'CANNOT_REVOKE_SELF',
+      });
+    });
+  });
+});
@@ -0,0 +1,171 @@
+'use client'
+
+import { useState } from 'react'
+import { Pencil } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+
+interface EditableItem {
+  id: string
+  productName: string
+  quantity: number
+}
+
+interface ShippingAddress {
+  name?: string
+  phone?: string
+  line1?: string
+  city?: string
+  postalCode?: string
+  country?: string
+}
+
+interface OrderEditProps {
+  orderId: string
+  items: EditableItem[]
+  shippingAddress?: ShippingAddress | null
+  onChanged: () => void
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+/**
+ * Cancel items, change quantities or the delivery address of an order that
+ * is not being fulfilled yet
+ */
+export function OrderEdit({ orderId, items, shippingAddress, onChanged }: OrderEditProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [address, setAddress] = useState<ShippingAddress>(shippingAddress || {})
+  const [submitting, setSubmitting] = useState(false)
+
+  const activeItems = items.filter((item) => item.quantity > 0)
+  const changedItems = Object.entries(quantities)
+    .filter(([id, quantity]) => activeItems.find((item) => item.id === id)?.quantity !== quantity)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }))
+  const addressChanged =
+    !!address.city &&
+    (['line1', 'city', 'phone'] as const).some((field) => (address[field] || '') !== (shippingAddress?.[field] || ''))
+
+  const handleSave = async () => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/orders/${orderId}/edit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({
+          items: changedItems.length > 0 ? changedItems : undefined,
+          shippingAddress: addressChanged ? address : undefined,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+      const refund = Number(data.edit?.refundAmount || 0)
+      toast({
+        title: data.message,
+        description: refund > 0 ? `${refund.toLocaleString()} ETB will be refunded` : undefined,
+      })
+      setOpen(false)
+      setQuantities({})
+      onChanged()
+    } catch (error) {
+      toast({
+        title: 'Order not changed',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Pencil className="h-4 w-4 mr-2" />
+          Change order
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change order</DialogTitle>
+          <DialogDescription>
+            Items can be removed or their quantity changed until the seller starts preparing them. The total is
+            recalculated; paid orders are refunded the difference.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {activeItems.map((item) => {
+            const quantity = quantities[item.id] ?? item.quantity
+            return (
+              <div key={item.id} className="flex items-center gap-3">
+                <span className={`flex-1 text-sm ${quantity === 0 ? 'line-through text-muted-foreground' : ''}`}>
+                  {item.productName}
+                </span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={quantity}
+                  onChange={(e) =>
+                    setQuantities((prev) => ({ ...prev, [item.id]: Math.max(0, Number(e.target.value) || 0) }))
+                  }
+                  className="w-20"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setQuantities((prev) => ({ ...prev, [item.id]: quantity === 0 ? item.quantity : 0 }))}
+                >
+                  {quantity === 0 ? 'Keep' : 'Remove'}
+                </Button>
+              </div>
+            )
+          })}
+          <div className="grid grid-cols-2 gap-3 border-t pt-4">
+            <div className="space-y-1 col-span-2">
+              <Label>Delivery address</Label>
+              <Input
+                value={address.line1 || ''}
+                onChange={(e) => setAddress((prev) => ({ ...prev, line1: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>City</Label>
+              <Input value={address.city || ''} onChange={(e) => setAddress((prev) => ({ ...prev, city: e.target.value }))} />
+            </div>
+            <div className="space-y-1">
+              <Label>Phone</Label>
+              <Input
+                value={address.phone || ''}
+                onChange={(e) => setAddress((prev) => ({ ...prev, phone: e.target.value }))}
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={submitting || (changedItems.length === 0 && !addressChanged)}>
+            Save changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
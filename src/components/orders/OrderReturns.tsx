@@ -0,0 +1,269 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { RotateCcw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+
+interface ReturnableItem {
+  id: string
+  productName: string
+  quantity: number
+}
+
+interface ReturnRequest {
+  id: string
+  number: string
+  status: string
+  returnMethod?: string | null
+  returnInstructions?: string | null
+  returnLabelUrl?: string | null
+  rejectionReason?: string | null
+  refundAmount?: string | number | null
+  vendor?: { displayName?: string | null } | null
+  items: Array<{ id: string; quantity: number; orderItem: { productName: string } }>
+}
+
+interface OrderReturnsProps {
+  orderId: string
+  items: ReturnableItem[]
+}
+
+const REASONS: Record<string, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective or not working',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  size_or_fit: 'Size or fit',
+  no_longer_needed: 'No longer needed',
+  other: 'Other',
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token')
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+/**
+ * Return requests of a delivered order, and the form to ask for one
+ */
+export function OrderReturns({ orderId, items }: OrderReturnsProps) {
+  const { toast } = useToast()
+  const [returns, setReturns] = useState<ReturnRequest[]>([])
+  const [open, setOpen] = useState(false)
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [reason, setReason] = useState('damaged')
+  const [comment, setComment] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const fetchReturns = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/returns?orderId=${orderId}`, { headers: authHeaders() })
+      if (response.ok) {
+        const data = await response.json()
+        setReturns(data.returns || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch returns:', error)
+    }
+  }, [orderId])
+
+  useEffect(() => {
+    fetchReturns()
+  }, [fetchReturns])
+
+  const send = async (path: string, body: unknown, success: string) => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+      toast({ title: success })
+      await fetchReturns()
+      return true
+    } catch (error) {
+      toast({
+        title: 'Return not updated',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      })
+      return false
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleRequest = async () => {
+    const selected = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId, quantity }))
+    const done = await send(
+      '/api/returns',
+      { orderId, items: selected, reason, comment: comment.trim() || undefined },
+      'Return requested'
+    )
+    if (done) {
+      setOpen(false)
+      setQuantities({})
+      setComment('')
+    }
+  }
+
+  return (
+    <div className="space-y-3 mt-4">
+      {returns.map((returnRequest) => (
+        <div key={returnRequest.id} className="p-3 bg-muted rounded-lg space-y-2 text-sm">
+          <div className="flex justify-between items-center gap-2">
+            <span className="font-medium">
+              Return #{returnRequest.number}
+              {returnRequest.vendor?.displayName && ` · ${returnRequest.vendor.displayName}`}
+            </span>
+            <Badge variant="outline" className="capitalize">
+              {returnRequest.status.replace(/_/g, ' ')}
+            </Badge>
+          </div>
+          <p className="text-muted-foreground">
+            {returnRequest.items.map((item) => `${item.orderItem.productName} × ${item.quantity}`).join(', ')}
+          </p>
+          {returnRequest.status === 'approved' && (
+            <div className="space-y-1">
+              <p>
+                {returnRequest.returnMethod === 'courier_pickup'
+                  ? 'A courier will pick the items up.'
+                  : 'Drop the items off as described below.'}
+              </p>
+              {returnRequest.returnInstructions && (
+                <p className="whitespace-pre-line">{returnRequest.returnInstructions}</p>
+              )}
+              {returnRequest.returnLabelUrl && (
+                <a href={returnRequest.returnLabelUrl} target="_blank" rel="noreferrer" className="text-primary underline">
+                  Return label
+                </a>
+              )}
+            </div>
+          )}
+          {returnRequest.status === 'rejected' && returnRequest.rejectionReason && (
+            <p className="text-destructive">{returnRequest.rejectionReason}</p>
+          )}
+          {returnRequest.status === 'refunded' && (
+            <p>Refunded {Number(returnRequest.refundAmount).toLocaleString()} ETB</p>
+          )}
+          <div className="flex gap-2">
+            {returnRequest.status === 'approved' && (
+              <Button
+                size="sm"
+                disabled={submitting}
+                onClick={() => send(`/api/returns/${returnRequest.id}/ship`, {}, 'Return marked as sent')}
+              >
+                I have sent it back
+              </Button>
+            )}
+            {['requested', 'approved'].includes(returnRequest.status) && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={submitting}
+                onClick={() => send(`/api/returns/${returnRequest.id}/cancel`, {}, 'Return cancelled')}
+              >
+                Cancel return
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Return items
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Return items</DialogTitle>
+            <DialogDescription>
+              Choose the items to send back. Items from different sellers are returned separately.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center gap-3">
+                <Checkbox
+                  checked={(quantities[item.id] || 0) > 0}
+                  onCheckedChange={(checked) =>
+                    setQuantities((prev) => ({ ...prev, [item.id]: checked ? item.quantity : 0 }))
+                  }
+                />
+                <span className="flex-1 text-sm">{item.productName}</span>
+                {item.quantity > 1 && (quantities[item.id] || 0) > 0 && (
+                  <Input
+                    type="number"
+                    min={1}
+                    max={item.quantity}
+                    value={quantities[item.id]}
+                    onChange={(e) =>
+                      setQuantities((prev) => ({
+                        ...prev,
+                        [item.id]: Math.min(item.quantity, Math.max(1, Number(e.target.value) || 1)),
+                      }))
+                    }
+                    className="w-20"
+                  />
+                )}
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REASONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Details</Label>
+              <Textarea value={comment} onChange={(e) => setComment(e.target.value)} maxLength={1000} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handleRequest}
+              disabled={submitting || !Object.values(quantities).some((quantity) => quantity > 0)}
+            >
+              Request return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
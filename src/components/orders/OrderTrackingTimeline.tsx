@@ -3,7 +3,7 @@
 import { useEffect, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { CheckCircle, Circle, Package, Truck, MapPin, Clock, User, Navigation, Camera, Box } from 'lucide-react'
+import { CheckCircle, Circle, Package, Truck, MapPin, Clock, User, Navigation, Camera, Box, RotateCcw, Pencil } from 'lucide-react'
 import { format } from 'date-fns'
 
 interface OrderEvent {
@@ -124,7 +124,12 @@ export default function OrderTrackingTimeline({ orderId }: OrderTrackingTimeline
         return <User className="h-5 w-5 text-purple-600" />
       case 'delivery_proof_recorded':
         return <Camera className="h-5 w-5 text-green-600" />
+      case 'order_edited':
+        return <Pencil className="h-5 w-5 text-blue-600" />
       default:
+        if (type.startsWith('return_')) {
+          return <RotateCcw className="h-5 w-5 text-amber-600" />
+        }
         return <Circle className="h-5 w-5 text-gray-400" />
     }
   }
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, MessageSquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+interface ContactSellerButtonProps {
+  vendorId: string;
+  vendorName: string;
+  productId?: string;
+  orderId?: string;
+  isLoggedIn: boolean;
+  onLoginRequired?: () => void;
+}
+
+/**
+ * Opens a private conversation with the seller about a product or order
+ */
+export function ContactSellerButton({
+  vendorId,
+  vendorName,
+  productId,
+  orderId,
+  isLoggedIn,
+  onLoginRequired,
+}: ContactSellerButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open && !isLoggedIn) {
+      onLoginRequired?.();
+      return;
+    }
+    setIsOpen(open);
+  };
+
+  const handleSend = async () => {
+    if (!message.trim()) {
+      toast.error('Please write a message');
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch('/api/conversations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({ vendorId, productId, orderId, message: message.trim() }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(`Message sent to ${vendorName}`);
+        setMessage('');
+        setIsOpen(false);
+      } else {
+        toast.error(data.error || 'Failed to send message');
+      }
+    } catch (error) {
+      console.error('Error contacting seller:', error);
+      toast.error('An error occurred. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <MessageSquare className="h-4 w-4 mr-2" />
+          Message Seller
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Message {vendorName}</DialogTitle>
+          <DialogDescription>
+            Ask about availability, sizing or delivery. Only you and the seller can see this conversation.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="seller-message">Your message</Label>
+          <Textarea
+            id="seller-message"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={5}
+            maxLength={5000}
+          />
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSend} disabled={isSending}>
+            {isSending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
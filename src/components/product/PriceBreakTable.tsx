@@ -0,0 +1,90 @@
+'use client'
+
+import { useState, useEffect } from "react"
+import { Layers } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { formatCurrency } from "@/lib/utils"
+
+interface PriceBreak {
+  minQuantity: number
+  maxQuantity: number | null
+  unitPrice: number
+  savingsPercent: number
+}
+
+interface PriceBreakTableProps {
+  productId: string
+  quantity: number
+}
+
+export function PriceBreakTable({ productId, quantity }: PriceBreakTableProps) {
+  const [breaks, setBreaks] = useState<PriceBreak[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetch(`/api/products/${productId}/price-tiers`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!cancelled && data) {
+          setBreaks(data.breaks || [])
+        }
+      })
+      .catch(() => {
+        // Price breaks are optional; the regular price still applies
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [productId])
+
+  if (breaks.length === 0) {
+    return null
+  }
+
+  const isCurrentTier = (tier: PriceBreak) =>
+    quantity >= tier.minQuantity && (tier.maxQuantity === null || quantity <= tier.maxQuantity)
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Buy more, save more</h3>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-1 font-medium">Quantity</th>
+              <th className="py-1 font-medium">Price each</th>
+              <th className="py-1 font-medium text-right">You save</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breaks.map(tier => (
+              <tr
+                key={tier.minQuantity}
+                className={isCurrentTier(tier) ? "bg-primary/10 font-semibold" : undefined}
+              >
+                <td className="py-1">
+                  {tier.maxQuantity === null
+                    ? `${tier.minQuantity}+`
+                    : `${tier.minQuantity} - ${tier.maxQuantity}`}
+                </td>
+                <td className="py-1">{formatCurrency(tier.unitPrice)}</td>
+                <td className="py-1 text-right">
+                  <Badge variant="secondary">{tier.savingsPercent}%</Badge>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-muted-foreground">
+          Discounts apply automatically in your cart.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
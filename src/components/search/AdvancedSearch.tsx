@@ -36,6 +36,16 @@ interface SearchFilters {
   hasAR: boolean;
   isVerified: boolean;
   sortBy: "relevance" | "price_low" | "price_high" | "rating" | "newest";
+  /** Selected values per category attribute, sent as attr.<key> */
+  attributes: Record<string, string[]>;
+}
+
+interface AttributeFacet {
+  key: string;
+  label: string;
+  type: "text" | "number" | "boolean";
+  unit: string | null;
+  values: Array<{ value: string; count: number; selected: boolean }>;
 }
 
 const defaultFilters: SearchFilters = {
@@ -49,7 +59,17 @@ const defaultFilters: SearchFilters = {
   inStock: false,
   hasAR: false,
   isVerified: false,
-  sortBy: "relevance"
+  sortBy: "relevance",
+  attributes: {}
+};
+
+const ATTRIBUTE_PARAM_PREFIX = "attr.";
+
+const formatAttributeValue = (facet: Pick<AttributeFacet, "type" | "unit">, value: string) => {
+  if (facet.type === "boolean") return value === "true" ? "Yes" : "No";
+  return facet.unit && !value.toLowerCase().endsWith(facet.unit.toLowerCase())
+    ? `${value} ${facet.unit}`
+    : value;
 };
 
 const categories = [
@@ -86,6 +106,7 @@ export function AdvancedSearch() {
   const [filters, setFilters] = useState<SearchFilters>(defaultFilters);
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const [appliedFiltersCount, setAppliedFiltersCount] = useState(0);
+  const [attributeFacets, setAttributeFacets] = useState<AttributeFacet[]>([]);
   const router = useRouter();
   const pathname = usePathname();
   const { user } = useAuth();
@@ -116,8 +137,14 @@ export function AdvancedSearch() {
         inStock: searchParams.get("in_stock") === "true",
         hasAR: searchParams.get("has_ar") === "true",
         isVerified: searchParams.get("verified") === "true",
-        sortBy: (searchParams.get("sort") as SearchFilters['sortBy']) || "relevance"
+        sortBy: (searchParams.get("sort") as SearchFilters['sortBy']) || "relevance",
+        attributes: {}
       };
+      searchParams.forEach((value, name) => {
+        if (name.startsWith(ATTRIBUTE_PARAM_PREFIX)) {
+          parsedFilters.attributes[name.slice(ATTRIBUTE_PARAM_PREFIX.length)] = value.split(",").filter(Boolean);
+        }
+      });
       
       setFilters(parsedFilters);
     }
@@ -135,6 +162,7 @@ export function AdvancedSearch() {
     if (filters.hasAR) count++;
     if (filters.isVerified) count++;
     if (filters.sortBy !== "relevance") count++;
+    count += Object.values(filters.attributes).filter((values) => values.length > 0).length;
     setAppliedFiltersCount(count);
   }, [filters]);
 
@@ -142,6 +170,32 @@ export function AdvancedSearch() {
     countAppliedFilters();
   }, [countAppliedFilters]);
 
+  // Attribute filters (storage, colour, ...) come from the category's schema
+  useEffect(() => {
+    if (filters.category === "all" || !filters.category) {
+      setAttributeFacets([]);
+      return;
+    }
+
+    const params = new URLSearchParams({ category: filters.category });
+    if (filters.query) params.set("search", filters.query);
+    Object.entries(filters.attributes).forEach(([key, values]) => {
+      if (values.length > 0) params.set(`${ATTRIBUTE_PARAM_PREFIX}${key}`, values.join(","));
+    });
+
+    let cancelled = false;
+    fetch(`/api/search/facets?${params.toString()}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) setAttributeFacets(data?.facets?.attributes ?? []);
+      })
+      .catch((error) => console.error("Error fetching attribute facets:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters.category, filters.query, filters.attributes]);
+
 
   type FilterValue<K extends keyof SearchFilters> =
     K extends 'query' | 'category' | 'brand' | 'vendor' | 'location' ? string :
@@ -149,12 +203,21 @@ export function AdvancedSearch() {
     K extends 'rating' ? number :
     K extends 'inStock' | 'hasAR' | 'isVerified' ? boolean :
     K extends 'sortBy' ? SearchFilters['sortBy'] :
+    K extends 'attributes' ? SearchFilters['attributes'] :
     never;
 
   const updateFilter = <K extends keyof SearchFilters>(key: K, value: FilterValue<K>) => {
     setFilters(prev => ({ ...prev, [key]: value } as SearchFilters));
   };
 
+  const toggleAttributeValue = (key: string, value: string, checked: boolean) => {
+    setFilters(prev => {
+      const current = prev.attributes[key] ?? [];
+      const next = checked ? [...current, value] : current.filter((v) => v.toLowerCase() !== value.toLowerCase());
+      return { ...prev, attributes: { ...prev.attributes, [key]: next } };
+    });
+  };
+
   // Helper function to build search URL from filters
   const buildSearchUrl = (filtersToUse: SearchFilters): string => {
     const searchParams = new URLSearchParams();
@@ -171,6 +234,9 @@ export function AdvancedSearch() {
     if (filtersToUse.hasAR) searchParams.set("has_ar", "true");
     if (filtersToUse.isVerified) searchParams.set("verified", "true");
     if (filtersToUse.sortBy !== "relevance") searchParams.set("sort", filtersToUse.sortBy);
+    Object.entries(filtersToUse.attributes).forEach(([key, values]) => {
+      if (values.length > 0) searchParams.set(`${ATTRIBUTE_PARAM_PREFIX}${key}`, values.join(","));
+    });
 
     return `/products?${searchParams.toString()}`;
   };
@@ -184,13 +250,20 @@ export function AdvancedSearch() {
     setFilters({ ...defaultFilters, query: filters.query });
   };
 
-  const removeFilter = (filterKey: keyof SearchFilters) => {
+  const removeFilter = (filterKey: keyof SearchFilters, attributeKey?: string) => {
     // Create updated filters based on which filter is being removed
     const updatedFilters = { ...filters };
     
     switch (filterKey) {
       case "category":
         updatedFilters.category = "all";
+        // Attributes belong to the category's schema
+        updatedFilters.attributes = {};
+        break;
+      case "attributes":
+        if (attributeKey) {
+          updatedFilters.attributes = { ...filters.attributes, [attributeKey]: [] };
+        }
         break;
       case "brand":
         updatedFilters.brand = "";
@@ -279,7 +352,10 @@ export function AdvancedSearch() {
               {/* Category */}
               <div>
                 <label className="text-sm font-medium mb-2 block">Category</label>
-                <Select value={filters.category} onValueChange={(value) => updateFilter("category", value)}>
+                <Select
+                  value={filters.category}
+                  onValueChange={(value) => setFilters(prev => ({ ...prev, category: value, attributes: {} }))}
+                >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
@@ -293,6 +369,37 @@ export function AdvancedSearch() {
                 </Select>
               </div>
 
+              {/* Category attributes */}
+              {attributeFacets
+                .filter((facet) => facet.values.length > 0)
+                .map((facet) => (
+                  <div key={facet.key}>
+                    <label className="text-sm font-medium mb-2 block">
+                      {facet.label}{facet.unit ? ` (${facet.unit})` : ""}
+                    </label>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      {facet.values.map((option) => {
+                        const id = `attr-${facet.key}-${option.value}`;
+                        const checked = (filters.attributes[facet.key] ?? [])
+                          .some((value) => value.toLowerCase() === option.value.toLowerCase());
+                        return (
+                          <div key={option.value} className="flex items-center space-x-2">
+                            <Checkbox
+                              id={id}
+                              checked={checked}
+                              onCheckedChange={(value) => toggleAttributeValue(facet.key, option.value, value === true)}
+                            />
+                            <label htmlFor={id} className="text-sm">
+                              {formatAttributeValue(facet, option.value)}{" "}
+                              <span className="text-muted-foreground">({option.count})</span>
+                            </label>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+
               {/* Brand */}
               <div>
                 <label className="text-sm font-medium mb-2 block">Brand</label>
@@ -504,6 +611,17 @@ export function AdvancedSearch() {
               <X className="h-3 w-3 cursor-pointer" onClick={() => removeFilter("isVerified")} />
             </Badge>
           )}
+          {Object.entries(filters.attributes)
+            .filter(([, values]) => values.length > 0)
+            .map(([key, values]) => {
+              const facet = attributeFacets.find((f) => f.key === key);
+              return (
+                <Badge key={key} variant="secondary" className="flex items-center gap-1">
+                  {facet?.label || key}: {values.map((value) => (facet ? formatAttributeValue(facet, value) : value)).join(", ")}
+                  <X className="h-3 w-3 cursor-pointer" onClick={() => removeFilter("attributes", key)} />
+                </Badge>
+              );
+            })}
           {filters.sortBy !== "relevance" && (
             <Badge variant="secondary" className="flex items-center gap-1">
               Sort: {filters.sortBy.replace("_", " ")}
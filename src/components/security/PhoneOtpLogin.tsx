@@ -0,0 +1,130 @@
+'use client';
+
+/**
+ * PhoneOtpLogin Component
+ *
+ * Passwordless sign-in: texts a code to the user's phone number and
+ * exchanges it for a login. The response is handed to the page exactly
+ * like a password login response, so 2FA challenges still apply.
+ */
+
+import { FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PhoneOtpLoginProps {
+  onLoggedIn: (data: any) => void;
+  onCancel: () => void;
+}
+
+export function PhoneOtpLogin({ onLoggedIn, onCancel }: PhoneOtpLoginProps) {
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+
+  const sendCode = async () => {
+    setSending(true);
+    try {
+      const response = await fetch('/api/auth/phone/send-otp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone, purpose: 'login' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Could not send code');
+        return;
+      }
+      setSentTo(data.phone);
+      toast.success(`If ${data.phone} has an account, a code is on its way`);
+    } catch (error) {
+      console.error('Send code error:', error);
+      toast.error('Could not send code');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const onSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!sentTo) {
+      await sendCode();
+      return;
+    }
+
+    setVerifying(true);
+    try {
+      const response = await fetch('/api/auth/phone/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone, code }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Login failed');
+        setVerifying(false);
+        return;
+      }
+      onLoggedIn(data);
+    } catch (error) {
+      console.error('Phone login error:', error);
+      toast.error('An error occurred during login');
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-6" aria-label="Phone login form">
+      <div className="space-y-2">
+        <Label htmlFor="login-phone">Phone Number</Label>
+        <Input
+          id="login-phone"
+          type="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="09XX XXX XXX"
+          required
+          disabled={verifying || !!sentTo}
+        />
+      </div>
+
+      {sentTo && (
+        <div className="space-y-2">
+          <Label htmlFor="login-code">Code</Label>
+          <Input
+            id="login-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            required
+            disabled={verifying}
+          />
+          <button
+            type="button"
+            onClick={sendCode}
+            className="text-sm text-primary hover:text-primary/80 underline"
+            disabled={sending || verifying}
+          >
+            Resend code
+          </button>
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={sending || verifying || (!!sentTo && code.trim().length < 6)}>
+        {sending || verifying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+        {sentTo ? 'Sign In' : 'Send Code'}
+      </Button>
+
+      <Button type="button" variant="ghost" className="w-full" onClick={onCancel} disabled={verifying}>
+        Sign in with email instead
+      </Button>
+    </form>
+  );
+}
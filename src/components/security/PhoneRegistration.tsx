@@ -0,0 +1,195 @@
+'use client';
+
+/**
+ * PhoneRegistration Component
+ *
+ * Sign-up with a phone number instead of an email: verifies the number
+ * with a texted code and creates the account. The password is optional.
+ */
+
+import { FormEvent, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PhoneRegistrationProps {
+  onRegistered: (data: any) => void;
+}
+
+export function PhoneRegistration({ onRegistered }: PhoneRegistrationProps) {
+  const [form, setForm] = useState({ firstName: '', lastName: '', phone: '', code: '', password: '' });
+  const [acceptTerms, setAcceptTerms] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const update = (field: keyof typeof form, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const sendCode = async () => {
+    setSending(true);
+    try {
+      const response = await fetch('/api/auth/phone/send-otp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: form.phone, purpose: 'register' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Could not send code');
+        return;
+      }
+      setSentTo(data.phone);
+      toast.success(`Code sent to ${data.phone}`);
+    } catch (error) {
+      console.error('Send code error:', error);
+      toast.error('Could not send code');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const onSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!sentTo) {
+      await sendCode();
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/auth/phone/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          phone: form.phone,
+          code: form.code,
+          firstName: form.firstName,
+          lastName: form.lastName,
+          ...(form.password && { password: form.password }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Registration failed');
+        setSubmitting(false);
+        return;
+      }
+      onRegistered(data);
+    } catch (error) {
+      console.error('Phone registration error:', error);
+      toast.error('An error occurred during registration');
+      setSubmitting(false);
+    }
+  };
+
+  const canSubmit = form.firstName && form.lastName && form.phone && acceptTerms &&
+    (!sentTo || form.code.trim().length === 6);
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-6" aria-label="Phone registration form">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="phone-firstName">First Name</Label>
+          <Input
+            id="phone-firstName"
+            value={form.firstName}
+            onChange={(e) => update('firstName', e.target.value)}
+            required
+            disabled={submitting}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="phone-lastName">Last Name</Label>
+          <Input
+            id="phone-lastName"
+            value={form.lastName}
+            onChange={(e) => update('lastName', e.target.value)}
+            required
+            disabled={submitting}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="phone-number">Phone Number</Label>
+        <Input
+          id="phone-number"
+          type="tel"
+          value={form.phone}
+          onChange={(e) => update('phone', e.target.value)}
+          placeholder="09XX XXX XXX"
+          required
+          disabled={submitting || !!sentTo}
+        />
+      </div>
+
+      {sentTo && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="phone-code">Code</Label>
+            <Input
+              id="phone-code"
+              value={form.code}
+              onChange={(e) => update('code', e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              required
+              disabled={submitting}
+            />
+            <button
+              type="button"
+              onClick={sendCode}
+              className="text-sm text-primary hover:text-primary/80 underline"
+              disabled={sending || submitting}
+            >
+              Resend code
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="phone-password">Password (Optional)</Label>
+            <Input
+              id="phone-password"
+              type="password"
+              value={form.password}
+              onChange={(e) => update('password', e.target.value)}
+              placeholder="Leave empty to sign in with texted codes"
+              disabled={submitting}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="phone-acceptTerms"
+          checked={acceptTerms}
+          onCheckedChange={(checked) => setAcceptTerms(checked as boolean)}
+          disabled={submitting}
+        />
+        <label htmlFor="phone-acceptTerms" className="text-sm">
+          I agree to the{" "}
+          <Link href="/terms" className="text-primary hover:text-primary/80 underline">
+            Terms of Service
+          </Link>{" "}
+          and{" "}
+          <Link href="/privacy" className="text-primary hover:text-primary/80 underline">
+            Privacy Policy
+          </Link>
+        </label>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={!canSubmit || sending || submitting}>
+        {sending || submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+        {sentTo ? 'Create Account' : 'Send Code'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+/**
+ * StepUpDialog Component
+ *
+ * Asks the user to confirm it is them before a sensitive action: a second
+ * factor code if they use 2FA, otherwise their password. Hands the resulting
+ * step-up token to the caller, which retries the action with it in the
+ * X-Step-Up-Token header.
+ */
+
+import { FormEvent, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { TwoFactorMethod } from './TwoFactorChallenge';
+
+interface StepUpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirmed: (stepUpToken: string) => void;
+}
+
+const METHOD_LABELS: Record<TwoFactorMethod, string> = {
+  totp: 'Authenticator app',
+  sms: 'Text message',
+  recovery: 'Recovery code',
+};
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+});
+
+export function StepUpDialog({ open, onOpenChange, onConfirmed }: StepUpDialogProps) {
+  const [methods, setMethods] = useState<TwoFactorMethod[] | null>(null);
+  const [method, setMethod] = useState<TwoFactorMethod | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [challengeId, setChallengeId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setCode('');
+    setPassword('');
+    setChallengeId(null);
+    fetch('/api/auth/2fa', { headers: authHeaders() })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((status) => {
+        const enabled: TwoFactorMethod[] = [];
+        if (status?.totpEnabled) enabled.push('totp');
+        if (status?.smsEnabled) enabled.push('sms');
+        if (enabled.length > 0) enabled.push('recovery');
+        setMethods(enabled);
+        setMethod(enabled[0] ?? null);
+      })
+      .catch(() => setMethods([]));
+  }, [open]);
+
+  const sendCode = async () => {
+    setBusy(true);
+    try {
+      const response = await fetch('/api/auth/2fa/step-up/send-code', { method: 'POST', headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Could not send code');
+      }
+      setChallengeId(data.challengeId);
+      toast.success(`Code sent to ${data.phone}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not send code');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const body = method ? { method, code, challengeId: challengeId ?? undefined } : { password };
+      const response = await fetch('/api/auth/2fa/step-up', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Verification failed');
+      }
+      onOpenChange(false);
+      onConfirmed(data.stepUpToken);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Verification failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={onSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Confirm it&apos;s you</DialogTitle>
+            <DialogDescription>
+              {method
+                ? 'Enter a verification code to continue.'
+                : 'Enter your password to continue.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {methods === null ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : method ? (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {methods.map((option) => (
+                  <Button
+                    key={option}
+                    type="button"
+                    size="sm"
+                    variant={option === method ? 'default' : 'outline'}
+                    onClick={() => {
+                      setMethod(option);
+                      setCode('');
+                    }}
+                    disabled={busy}
+                  >
+                    {METHOD_LABELS[option]}
+                  </Button>
+                ))}
+              </div>
+              {method === 'sms' && (
+                <Button type="button" variant="outline" className="w-full" onClick={sendCode} disabled={busy}>
+                  {challengeId ? 'Resend code' : 'Send code'}
+                </Button>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="step-up-code">{METHOD_LABELS[method]} code</Label>
+                <Input
+                  id="step-up-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode={method === 'recovery' ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  required
+                  disabled={busy}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="step-up-password">Password</Label>
+              <Input
+                id="step-up-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                required
+                disabled={busy}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={busy || methods === null || (method === 'sms' && !challengeId)}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
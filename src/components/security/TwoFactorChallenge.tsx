@@ -0,0 +1,168 @@
+'use client';
+
+/**
+ * TwoFactorChallenge Component
+ *
+ * Second step of login for accounts with 2FA: asks for an authenticator
+ * code, a texted code or a recovery code and completes the login.
+ */
+
+import { FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, KeyRound, MessageSquare, Smartphone } from 'lucide-react';
+import { toast } from 'sonner';
+
+export type TwoFactorMethod = 'totp' | 'sms' | 'recovery';
+
+interface TwoFactorChallengeProps {
+  challengeId: string;
+  methods: TwoFactorMethod[];
+  onVerified: (data: any) => void;
+  onCancel: () => void;
+}
+
+const METHOD_LABELS: Record<TwoFactorMethod, string> = {
+  totp: 'Authenticator app',
+  sms: 'Text message',
+  recovery: 'Recovery code',
+};
+
+const METHOD_ICONS = {
+  totp: Smartphone,
+  sms: MessageSquare,
+  recovery: KeyRound,
+};
+
+export function TwoFactorChallenge({ challengeId, methods, onVerified, onCancel }: TwoFactorChallengeProps) {
+  const [method, setMethod] = useState<TwoFactorMethod>(methods[0] ?? 'recovery');
+  const [code, setCode] = useState('');
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const sendCode = async () => {
+    setSending(true);
+    try {
+      const response = await fetch('/api/auth/2fa/send-code', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Could not send code');
+        return;
+      }
+      setSentTo(data.phone);
+      toast.success(`Code sent to ${data.phone}`);
+    } catch (error) {
+      console.error('Send code error:', error);
+      toast.error('Could not send code');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const onSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setVerifying(true);
+    try {
+      const response = await fetch('/api/auth/2fa/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeId, method, code }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Verification failed');
+        if (data.errorCode === 'CHALLENGE_EXPIRED' || data.errorCode === 'TOO_MANY_ATTEMPTS') {
+          onCancel();
+        }
+        setVerifying(false);
+        return;
+      }
+      onVerified(data);
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
+      toast.error('An error occurred during verification');
+      setVerifying(false);
+    }
+  };
+
+  const selectMethod = (next: TwoFactorMethod) => {
+    setMethod(next);
+    setCode('');
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-6" aria-label="Two-factor verification form">
+      <div className="text-center space-y-1">
+        <h2 className="text-xl font-semibold">Two-Step Verification</h2>
+        <p className="text-sm text-muted-foreground">
+          {method === 'totp' && 'Enter the 6-digit code from your authenticator app.'}
+          {method === 'sms' && (sentTo ? `Enter the code we texted to ${sentTo}.` : 'We will text a code to your verified phone.')}
+          {method === 'recovery' && 'Enter one of the recovery codes you saved when you set up 2FA.'}
+        </p>
+      </div>
+
+      {methods.length > 1 && (
+        <div className="flex flex-wrap gap-2 justify-center">
+          {methods.map((option) => {
+            const Icon = METHOD_ICONS[option];
+            return (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={option === method ? 'default' : 'outline'}
+                onClick={() => selectMethod(option)}
+                disabled={verifying}
+              >
+                <Icon className="h-4 w-4 mr-1" />
+                {METHOD_LABELS[option]}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+
+      {method === 'sms' && (
+        <Button type="button" variant="outline" className="w-full" onClick={sendCode} disabled={sending || verifying}>
+          {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {sentTo ? 'Resend code' : 'Send code'}
+        </Button>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-code">{METHOD_LABELS[method]} code</Label>
+        <Input
+          id="two-factor-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          inputMode={method === 'recovery' ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          placeholder={method === 'recovery' ? 'XXXXX-XXXXX' : '123456'}
+          required
+          disabled={verifying}
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={verifying || code.trim().length < 6}>
+        {verifying ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          'Verify'
+        )}
+      </Button>
+
+      <Button type="button" variant="ghost" className="w-full" onClick={onCancel} disabled={verifying}>
+        Back to login
+      </Button>
+    </form>
+  );
+}
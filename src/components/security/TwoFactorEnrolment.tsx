@@ -0,0 +1,236 @@
+'use client';
+
+/**
+ * TwoFactorEnrolment Component
+ *
+ * Turns on a second factor: an authenticator app (scan a QR code, confirm
+ * a code) or SMS (verify a phone number). Works with an access token from
+ * settings or with the setup token issued when login requires enrolment.
+ * Adding a method once 2FA is on also needs a step-up token.
+ */
+
+import { FormEvent, useState } from 'react';
+import QRCode from 'qrcode';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Copy, KeyRound, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface TwoFactorEnrolmentProps {
+  authToken: string;
+  stepUpToken?: string;
+  totpEnabled?: boolean;
+  smsEnabled?: boolean;
+  onEnabled: (data: any) => void;
+}
+
+export function RecoveryCodesNotice({ codes }: { codes: string[] }) {
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    toast.success('Recovery codes copied');
+  };
+
+  return (
+    <Alert>
+      <KeyRound className="h-4 w-4" />
+      <AlertTitle>Save your recovery codes</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          Each code signs you in once if you lose your phone. They will not be shown again, so store
+          them somewhere safe.
+        </p>
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+          {codes.map((code) => (
+            <span key={code}>{code}</span>
+          ))}
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy codes
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export function TwoFactorEnrolment({
+  authToken,
+  stepUpToken,
+  totpEnabled,
+  smsEnabled,
+  onEnabled,
+}: TwoFactorEnrolmentProps) {
+  const [busy, setBusy] = useState(false);
+  const [totpSecret, setTotpSecret] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [totpCode, setTotpCode] = useState('');
+  const [phone, setPhone] = useState('');
+  const [smsChallengeId, setSmsChallengeId] = useState<string | null>(null);
+  const [smsCode, setSmsCode] = useState('');
+
+  const post = async (url: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${authToken}`,
+        ...(stepUpToken ? { 'X-Step-Up-Token': stepUpToken } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startTotp = () =>
+    run(async () => {
+      const data = await post('/api/auth/2fa/totp/setup');
+      setTotpSecret(data.secret);
+      setQrCode(await QRCode.toDataURL(data.otpauthUrl, { width: 200, margin: 1 }));
+    });
+
+  const confirmTotp = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const data = await post('/api/auth/2fa/totp/enable', { code: totpCode });
+      toast.success('Authenticator app turned on');
+      onEnabled(data);
+    });
+  };
+
+  const startSms = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const data = await post('/api/auth/2fa/sms/setup', { phone });
+      setSmsChallengeId(data.challengeId);
+      toast.success(`Code sent to ${data.phone}`);
+    });
+  };
+
+  const confirmSms = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const data = await post('/api/auth/2fa/sms/enable', { challengeId: smsChallengeId, code: smsCode });
+      toast.success('SMS verification turned on');
+      onEnabled(data);
+    });
+  };
+
+  return (
+    <Tabs defaultValue={totpEnabled && !smsEnabled ? 'sms' : 'totp'}>
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="totp" disabled={totpEnabled}>Authenticator app</TabsTrigger>
+        <TabsTrigger value="sms" disabled={smsEnabled}>Text message</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="totp" className="space-y-4 pt-4">
+        {!totpSecret ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Use an app such as Google Authenticator, Microsoft Authenticator or Authy to get a new
+              code every 30 seconds, even without network coverage.
+            </p>
+            <Button type="button" onClick={startTotp} disabled={busy}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Set up authenticator app
+            </Button>
+          </>
+        ) : (
+          <form onSubmit={confirmTotp} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with your authenticator app, then enter the code it shows.
+            </p>
+            {qrCode && (
+              <img src={qrCode} alt="Authenticator setup QR code" className="mx-auto h-48 w-48" />
+            )}
+            <p className="text-xs text-muted-foreground text-center">
+              Can&apos;t scan? Enter this key: <span className="font-mono break-all">{totpSecret}</span>
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="totp-code">Code from the app</Label>
+              <Input
+                id="totp-code"
+                value={totpCode}
+                onChange={(e) => setTotpCode(e.target.value)}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                required
+                disabled={busy}
+              />
+            </div>
+            <Button type="submit" disabled={busy || totpCode.trim().length < 6}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Turn on
+            </Button>
+          </form>
+        )}
+      </TabsContent>
+
+      <TabsContent value="sms" className="space-y-4 pt-4">
+        {!smsChallengeId ? (
+          <form onSubmit={startSms} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-phone">Mobile number</Label>
+              <Input
+                id="two-factor-phone"
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder="0911234567"
+                required
+                disabled={busy}
+              />
+            </div>
+            <Button type="submit" disabled={busy}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send code
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={confirmSms} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sms-code">Code from the text message</Label>
+              <Input
+                id="sms-code"
+                value={smsCode}
+                onChange={(e) => setSmsCode(e.target.value)}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                required
+                disabled={busy}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={busy || smsCode.trim().length < 6}>
+                {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Turn on
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setSmsChallengeId(null)} disabled={busy}>
+                Change number
+              </Button>
+            </div>
+          </form>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -28,9 +28,18 @@ export interface UserProfile {
   tinNumber?: string;
 }
 
+/** The shop a staff member works for */
+export interface VendorMembership {
+  vendorId: string;
+  storeName: string | null;
+  vendorStatus: UserProfile['vendorStatus'];
+  permissions: string[];
+}
+
 interface AuthContextValue {
   user: User | null;
   profile: UserProfile | null;
+  vendorMembership: VendorMembership | null;
   login: (email: string, password: string) => Promise<boolean>;
   register: (email: string, password: string, userData?: Partial<UserProfile>) => Promise<boolean>;
   logout: () => Promise<void>;
@@ -45,6 +54,7 @@ const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [vendorMembership, setVendorMembership] = useState<VendorMembership | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -69,6 +79,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const data = await response.json();
         setUser({ id: data.id, email: data.email });
         setProfile(data.profile);
+        setVendorMembership(data.vendorMembership || null);
       } else {
         // Invalid token, clear it
         localStorage.removeItem('auth_token');
@@ -98,6 +109,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         return false;
       }
 
+      // Two-step verification is handled by the login pages
+      if (data.twoFactorRequired || data.twoFactorSetupRequired) {
+        toast.info('Two-step verification required');
+        window.location.href = '/auth/login';
+        return false;
+      }
+
       // Store token
       localStorage.setItem('auth_token', data.token);
       
@@ -155,14 +173,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const logout = async (): Promise<void> => {
     try {
-      // Clear server cookie
-      await fetch('/api/auth/logout', { method: 'POST' });
+      // End the server session and clear the cookie
+      const token = localStorage.getItem('auth_token');
+      await fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: token ? { 'Authorization': `Bearer ${token}` } : undefined,
+      });
       // Clear token
       localStorage.removeItem('auth_token');
       
       // Clear state
       setUser(null);
       setProfile(null);
+      setVendorMembership(null);
       
       toast.success("Logged out successfully!");
     } catch (error) {
@@ -279,6 +302,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     <AuthContext.Provider value={{
       user,
       profile,
+      vendorMembership,
       login,
       register,
       logout,
@@ -0,0 +1,107 @@
+/**
+ * useMessageStream Hook
+ *
+ * Subscribes to /api/conversations/stream and calls `onMessage` for every new
+ * message. Uses fetch instead of EventSource so the bearer token can be sent,
+ * and reconnects from the last received message when the server closes the stream.
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+export interface StreamedMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  senderType: string;
+  message: string;
+  attachments: string[];
+  isRead: boolean;
+  createdAt: string;
+}
+
+const RECONNECT_DELAY_MS = 2000;
+
+export function useMessageStream(
+  onMessage: (message: StreamedMessage) => void,
+  options: { conversationId?: string; enabled?: boolean } = {}
+) {
+  const { conversationId, enabled = true } = options;
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const token = localStorage.getItem('auth_token');
+    if (!token) return;
+
+    let stopped = false;
+    let controller: AbortController | null = null;
+    let since = new Date().toISOString();
+
+    const connect = async () => {
+      while (!stopped) {
+        controller = new AbortController();
+        try {
+          const params = new URLSearchParams({ since });
+          if (conversationId) params.set('conversationId', conversationId);
+
+          const response = await fetch(`/api/conversations/stream?${params}`, {
+            headers: { Authorization: `Bearer ${token}` },
+            signal: controller.signal,
+          });
+          if ([401, 403, 404].includes(response.status)) {
+            // Retrying will not help until the user signs in again
+            return;
+          }
+          if (!response.ok || !response.body) {
+            throw new Error(`Stream failed with status ${response.status}`);
+          }
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+
+          while (!stopped) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            const events = buffer.split('\n\n');
+            buffer = events.pop() || '';
+
+            for (const raw of events) {
+              let event = 'message';
+              let data = '';
+              for (const line of raw.split('\n')) {
+                if (line.startsWith('event: ')) event = line.slice(7);
+                else if (line.startsWith('data: ')) data += line.slice(6);
+              }
+              if (event !== 'message' || !data) continue;
+
+              const message = JSON.parse(data) as StreamedMessage;
+              since = message.createdAt;
+              onMessageRef.current(message);
+            }
+          }
+        } catch (error) {
+          if (stopped) return;
+          console.error('Message stream error:', error);
+        }
+
+        if (!stopped) {
+          await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+        }
+      }
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      controller?.abort();
+    };
+  }, [conversationId, enabled]);
+}
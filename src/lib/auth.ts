@@ -1,6 +1,7 @@
 import bcrypt from 'bcryptjs';
 import jwt, { Secret } from 'jsonwebtoken';
 import { UserRole } from '@prisma/client';
+import { adminScopeAllows, type AdminPermission } from './permissions';
 
 /**
  * Get the JWT secret, checking for production requirements.
@@ -28,8 +29,13 @@ const LOCKOUT_DURATION_MINUTES = 15;
 
 export interface JWTPayload {
   userId: string;
-  email: string;
+  /** Null for accounts registered with a phone number that have not added an email */
+  email: string | null;
   role: UserRole;
+  /** Operator scope, so middleware can keep operators inside their part of the admin API */
+  adminScope?: string | null;
+  /** Server-side session the token was issued for; absent on legacy tokens */
+  sessionId?: string;
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -52,7 +58,33 @@ export function generateRefreshToken(payload: JWTPayload): string {
 
 export function verifyToken(token: string): JWTPayload | null {
   try {
-    return jwt.verify(token, getJwtSecret()) as JWTPayload;
+    const payload = jwt.verify(token, getJwtSecret()) as JWTPayload & { purpose?: string };
+    // Single-purpose tokens (2FA setup, step-up) must never act as access tokens
+    if (payload.purpose) return null;
+    return payload;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Purposes for short-lived tokens that only unlock one flow
+ */
+export type PurposeTokenType = 'two_factor_setup' | 'step_up';
+
+export function generatePurposeToken(
+  payload: JWTPayload,
+  purpose: PurposeTokenType,
+  expiresIn: jwt.SignOptions['expiresIn']
+): string {
+  return jwt.sign({ ...payload, purpose }, getJwtSecret(), { expiresIn });
+}
+
+export function verifyPurposeToken(token: string, purpose: PurposeTokenType): JWTPayload | null {
+  try {
+    const payload = jwt.verify(token, getJwtSecret()) as JWTPayload & { purpose?: string };
+    if (payload.purpose !== purpose) return null;
+    return payload;
   } catch (error) {
     return null;
   }
@@ -66,9 +98,35 @@ export function getTokenFromRequest(request: Request): string | null {
   return authHeader.substring(7);
 }
 
-export function getUserFromToken(token: string | null): JWTPayload | null {
+/**
+ * Resolve the user behind an access token. Tokens whose session was revoked
+ * (logout, password reset, forced sign-out) or has expired are rejected, so a
+ * copied token stops working together with its session. Operator tokens are
+ * checked against the account's current role and scope.
+ */
+export async function getUserFromToken(token: string | null): Promise<JWTPayload | null> {
   if (!token) return null;
-  return verifyToken(token);
+  const payload = verifyToken(token);
+  if (!payload) return null;
+
+  if (payload.sessionId) {
+    const { isSessionActive } = await import('@/services/SessionService');
+    if (!(await isSessionActive(payload.sessionId))) return null;
+  }
+
+  // An operator can be demoted or rescoped while their token is still valid,
+  // so admin tokens take their role and scope from the account instead
+  if (payload.role === 'admin') {
+    const { default: prisma } = await import('@/lib/prisma');
+    const account = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { role: true, adminScope: true },
+    });
+    if (!account) return null;
+    return { ...payload, role: account.role, adminScope: account.adminScope };
+  }
+
+  return payload;
 }
 
 /**
@@ -88,6 +146,18 @@ export function isAdmin(role: UserRole): boolean {
   return role === 'admin';
 }
 
+/**
+ * Check if user is an admin whose operator scope holds one of the permissions.
+ * Admins without a scope keep full access.
+ */
+export function hasAdminPermission(
+  user: Pick<JWTPayload, 'role' | 'adminScope'>,
+  permission: AdminPermission | readonly AdminPermission[]
+): boolean {
+  const permissions = typeof permission === 'string' ? [permission] : permission;
+  return isAdmin(user.role) && permissions.some((item) => adminScopeAllows(user.adminScope, item));
+}
+
 /**
  * Check if user is a vendor
  */
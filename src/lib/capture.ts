@@ -8,6 +8,7 @@
 import prisma from './prisma';
 import { Prisma } from '@prisma/client';
 import Stripe from 'stripe';
+import { postPaymentCapture } from '@/services/LedgerService';
 
 // Initialize Stripe if configured
 const stripe = process.env.STRIPE_SECRET_KEY
@@ -193,6 +194,10 @@ export async function capturePayment(
         },
       });
 
+      await postPaymentCapture(orderId).catch((err) =>
+        console.error('Error posting capture journal:', err)
+      );
+
       return {
         success: true,
         captureId: captureId || undefined,
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDailySeries,
+  forecastDemand,
+  calculateForecastAccuracy,
+  calculateMape,
+  HOLT_WINTERS_MODEL_VERSION,
+  SIMPLE_SMOOTHING_MODEL_VERSION,
+} from './demand-forecast';
+
+// Weekly pattern: busy weekends, quiet weekdays
+const WEEK = [4, 4, 5, 4, 6, 12, 14];
+
+function repeatWeeks(weeks: number): number[] {
+  return Array.from({ length: weeks }, () => WEEK).flat();
+}
+
+describe('Demand forecasting', () => {
+  describe('buildDailySeries', () => {
+    it('should zero-fill days without sales and sum same-day sales', () => {
+      const start = new Date('2026-10-01T00:00:00Z');
+      const series = buildDailySeries(
+        [
+          { date: new Date('2026-10-01T09:00:00Z'), quantity: 2 },
+          { date: new Date('2026-10-01T17:30:00Z'), quantity: 3 },
+          { date: new Date('2026-10-03T12:00:00Z'), quantity: 1 },
+          { date: new Date('2026-10-09T12:00:00Z'), quantity: 7 },
+        ],
+        start,
+        4
+      );
+      expect(series).toEqual([5, 0, 1, 0]);
+    });
+  });
+
+  describe('forecastDemand', () => {
+    it('should fall back to simple smoothing for short histories', () => {
+      const forecast = forecastDemand([3, 3, 3, 3, 3], 3);
+      expect(forecast.modelVersion).toBe(SIMPLE_SMOOTHING_MODEL_VERSION);
+      expect(forecast.predictions).toEqual([3, 3, 3]);
+    });
+
+    it('should reproduce a stable weekly pattern with Holt-Winters', () => {
+      const forecast = forecastDemand(repeatWeeks(8), 7);
+      expect(forecast.modelVersion).toBe(HOLT_WINTERS_MODEL_VERSION);
+      forecast.predictions.forEach((prediction, day) => {
+        expect(prediction).toBeCloseTo(WEEK[day], 0);
+      });
+      expect(forecast.confidence).toBeGreaterThan(0.8);
+    });
+
+    it('should report lower confidence for noisy demand', () => {
+      const noisy = repeatWeeks(8).map((v, i) => (i % 3 === 0 ? v * 3 : 0));
+      const stable = forecastDemand(repeatWeeks(8), 7);
+      expect(forecastDemand(noisy, 7).confidence).toBeLessThan(stable.confidence);
+    });
+
+    it('should never predict negative demand', () => {
+      const declining = Array.from({ length: 28 }, (_, i) => Math.max(0, 27 - i));
+      const forecast = forecastDemand(declining, 14);
+      forecast.predictions.forEach((prediction) => expect(prediction).toBeGreaterThanOrEqual(0));
+    });
+  });
+
+  describe('calculateForecastAccuracy', () => {
+    it('should score exact forecasts as 1', () => {
+      expect(calculateForecastAccuracy(5, 5)).toBe(1);
+      expect(calculateForecastAccuracy(0, 0)).toBe(1);
+    });
+
+    it('should score relative error against the larger value', () => {
+      expect(calculateForecastAccuracy(8, 10)).toBe(0.8);
+      expect(calculateForecastAccuracy(10, 8)).toBe(0.8);
+      expect(calculateForecastAccuracy(2, 0)).toBe(0);
+    });
+  });
+
+  describe('calculateMape', () => {
+    it('should average absolute percentage error over non-zero actuals', () => {
+      expect(
+        calculateMape([
+          { predicted: 8, actual: 10 },
+          { predicted: 6, actual: 5 },
+          { predicted: 3, actual: 0 },
+        ])
+      ).toBe(20);
+    });
+
+    it('should return null when no actuals can be scored', () => {
+      expect(calculateMape([{ predicted: 1, actual: 0 }])).toBeNull();
+    });
+  });
+});
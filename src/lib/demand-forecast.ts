@@ -0,0 +1,242 @@
+/**
+ * Demand Forecasting
+ *
+ * Daily demand forecasting for inventory planning using exponential smoothing.
+ * Series with at least two full weeks of history use additive Holt-Winters
+ * (level + damped trend + weekly seasonality); shorter series fall back to
+ * simple exponential smoothing.
+ *
+ * Also provides the accuracy metrics used to back-test stored forecasts.
+ */
+
+export const HOLT_WINTERS_MODEL_VERSION = 'hw-additive-weekly-v1';
+export const SIMPLE_SMOOTHING_MODEL_VERSION = 'ses-v1';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ForecastOptions {
+  /** Level smoothing factor (0-1) */
+  alpha?: number;
+  /** Trend smoothing factor (0-1) */
+  beta?: number;
+  /** Seasonal smoothing factor (0-1) */
+  gamma?: number;
+  /** Trend damping factor (0-1), keeps long horizons from running away */
+  phi?: number;
+  /** Season length in days */
+  seasonLength?: number;
+}
+
+export interface DemandForecast {
+  modelVersion: string;
+  /** Predicted units per day for each day of the horizon */
+  predictions: number[];
+  /** 0-1 confidence score */
+  confidence: number;
+  factors: {
+    method: 'holt_winters' | 'simple_exponential_smoothing';
+    historyDays: number;
+    level: number;
+    trend: number;
+    seasonality: number[];
+    rmse: number;
+    meanDemand: number;
+  };
+}
+
+export interface DailySale {
+  date: Date;
+  quantity: number;
+}
+
+const DEFAULT_OPTIONS: Required<ForecastOptions> = {
+  alpha: 0.3,
+  beta: 0.05,
+  gamma: 0.2,
+  phi: 0.9,
+  seasonLength: 7,
+};
+
+/**
+ * Truncate a date to midnight UTC
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Add whole days to a date
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Build a dense daily demand series (zero-filled) starting at `start`
+ */
+export function buildDailySeries(sales: DailySale[], start: Date, days: number): number[] {
+  const series = new Array(days).fill(0);
+  const origin = startOfUtcDay(start).getTime();
+
+  for (const sale of sales) {
+    const index = Math.floor((startOfUtcDay(sale.date).getTime() - origin) / DAY_MS);
+    if (index >= 0 && index < days) {
+      series[index] += sale.quantity;
+    }
+  }
+
+  return series;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number, decimals: number = 4): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Confidence from fit quality and history length.
+ * Noisy series (high RMSE relative to mean demand) and short histories score lower.
+ */
+function scoreConfidence(rmse: number, meanDemand: number, historyDays: number, seasonLength: number): number {
+  if (historyDays === 0) {
+    return 0.05;
+  }
+  const noise = meanDemand > 0 ? rmse / meanDemand : rmse > 0 ? 1 : 0;
+  const historyFactor = Math.min(1, historyDays / (seasonLength * 4));
+  const confidence = (1 / (1 + noise)) * historyFactor;
+  return round(Math.min(0.95, Math.max(0.05, confidence)), 3);
+}
+
+function simpleExponentialSmoothing(
+  series: number[],
+  horizon: number,
+  options: Required<ForecastOptions>
+): DemandForecast {
+  let level = series.length > 0 ? series[0] : 0;
+  let squaredError = 0;
+
+  for (let t = 1; t < series.length; t++) {
+    const error = series[t] - level;
+    squaredError += error * error;
+    level = options.alpha * series[t] + (1 - options.alpha) * level;
+  }
+
+  const rmse = series.length > 1 ? Math.sqrt(squaredError / (series.length - 1)) : 0;
+  const meanDemand = mean(series);
+  const prediction = round(Math.max(0, level));
+
+  return {
+    modelVersion: SIMPLE_SMOOTHING_MODEL_VERSION,
+    predictions: new Array(horizon).fill(prediction),
+    confidence: scoreConfidence(rmse, meanDemand, series.length, options.seasonLength),
+    factors: {
+      method: 'simple_exponential_smoothing',
+      historyDays: series.length,
+      level: round(level),
+      trend: 0,
+      seasonality: [],
+      rmse: round(rmse),
+      meanDemand: round(meanDemand),
+    },
+  };
+}
+
+/**
+ * Forecast daily demand for the next `horizon` days from a daily history series.
+ * The last element of `series` is the most recent day.
+ */
+export function forecastDemand(
+  series: number[],
+  horizon: number,
+  options: ForecastOptions = {}
+): DemandForecast {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const m = opts.seasonLength;
+
+  if (series.length < m * 2) {
+    return simpleExponentialSmoothing(series, horizon, opts);
+  }
+
+  // Initialise from the first two seasons
+  const firstSeasonMean = mean(series.slice(0, m));
+  const secondSeasonMean = mean(series.slice(m, m * 2));
+  let level = firstSeasonMean;
+  let trend = (secondSeasonMean - firstSeasonMean) / m;
+  const seasonal = series.slice(0, m).map((value) => value - firstSeasonMean);
+
+  let squaredError = 0;
+  let fittedPoints = 0;
+
+  for (let t = m; t < series.length; t++) {
+    const seasonIndex = t % m;
+    const fitted = level + opts.phi * trend + seasonal[seasonIndex];
+    const error = series[t] - fitted;
+    squaredError += error * error;
+    fittedPoints++;
+
+    const previousLevel = level;
+    level = opts.alpha * (series[t] - seasonal[seasonIndex]) + (1 - opts.alpha) * (previousLevel + opts.phi * trend);
+    trend = opts.beta * (level - previousLevel) + (1 - opts.beta) * opts.phi * trend;
+    seasonal[seasonIndex] = opts.gamma * (series[t] - level) + (1 - opts.gamma) * seasonal[seasonIndex];
+  }
+
+  const predictions: number[] = [];
+  let dampedTrend = 0;
+  for (let h = 1; h <= horizon; h++) {
+    dampedTrend += Math.pow(opts.phi, h);
+    const seasonIndex = (series.length + h - 1) % m;
+    predictions.push(round(Math.max(0, level + dampedTrend * trend + seasonal[seasonIndex])));
+  }
+
+  const rmse = fittedPoints > 0 ? Math.sqrt(squaredError / fittedPoints) : 0;
+  const meanDemand = mean(series);
+
+  return {
+    modelVersion: HOLT_WINTERS_MODEL_VERSION,
+    predictions,
+    confidence: scoreConfidence(rmse, meanDemand, series.length, m),
+    factors: {
+      method: 'holt_winters',
+      historyDays: series.length,
+      level: round(level),
+      trend: round(trend),
+      seasonality: seasonal.map((s) => round(s)),
+      rmse: round(rmse),
+      meanDemand: round(meanDemand),
+    },
+  };
+}
+
+/**
+ * Accuracy of a single forecast once the actual demand is known (0-1).
+ * Uses 1 - |actual - predicted| / max(actual, predicted) so days with
+ * zero actual demand are still scored.
+ */
+export function calculateForecastAccuracy(predicted: number, actual: number): number {
+  const denominator = Math.max(actual, predicted);
+  if (denominator === 0) {
+    return 1;
+  }
+  return round(Math.max(0, 1 - Math.abs(actual - predicted) / denominator));
+}
+
+/**
+ * Mean absolute percentage error (as a percentage).
+ * Days with zero actual demand are excluded since percentage error is undefined there.
+ * Returns null when there is nothing to score.
+ */
+export function calculateMape(rows: Array<{ predicted: number; actual: number }>): number | null {
+  const scored = rows.filter((row) => row.actual > 0);
+  if (scored.length === 0) {
+    return null;
+  }
+  const totalError = scored.reduce(
+    (sum, row) => sum + Math.abs(row.actual - row.predicted) / row.actual,
+    0
+  );
+  return round((totalError / scored.length) * 100, 2);
+}
@@ -0,0 +1,268 @@
+/**
+ * Email template engine
+ *
+ * Renders the subject, HTML and text of database-managed email templates.
+ * Placeholders are written {{name}} (HTML-escaped in the HTML body) or
+ * {{{name}}} (inserted as is), with {{#if name}}…{{else}}…{{/if}} and
+ * {{#each list}}…{{/each}} blocks; inside a loop the item's fields are in
+ * scope and {{this}} is the item itself. Dates and numbers are formatted for
+ * the recipient's language.
+ */
+
+import { BadRequestError } from './errors';
+import { defaultLocale, isValidLocale, type Locale } from '@/i18n/config';
+import { formatDate, formatNumber } from '@/i18n/formatting';
+
+/**
+ * A variable a template may use. Required variables must be given a value
+ * whenever the template is sent.
+ */
+export interface TemplateVariable {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface TemplateContent {
+  subject: string;
+  htmlContent: string;
+  textContent: string;
+}
+
+export interface RenderedContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; raw: boolean }
+  | { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+type Scope = Record<string, unknown>[];
+
+const TAG_PATTERN = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*(#if|#each|\/if|\/each|else)?\s*([\w.]*)\s*\}\}/g;
+
+function invalid(message: string): never {
+  throw new BadRequestError(message, 'INVALID_EMAIL_TEMPLATE');
+}
+
+/**
+ * Parse a template into nodes, rejecting unbalanced or unnamed blocks
+ */
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; target: TemplateNode[] }> = [];
+  let target = root;
+  let last = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, rawPath, keyword, path] = match;
+    if (match.index! > last) {
+      target.push({ type: 'text', value: source.slice(last, match.index) });
+    }
+    last = match.index! + tag.length;
+
+    if (rawPath) {
+      target.push({ type: 'value', path: rawPath, raw: true });
+    } else if (keyword === '#if' || keyword === '#each') {
+      if (!path) invalid(`${tag} needs a variable name`);
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> =
+        keyword === '#if' ? { type: 'if', path, then: [], otherwise: [] } : { type: 'each', path, body: [] };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.type === 'if' ? node.then : node.body;
+    } else if (keyword === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.type !== 'if' || target !== open.node.then) invalid('{{else}} outside an {{#if}} block');
+      target = (open.node as Extract<TemplateNode, { type: 'if' }>).otherwise;
+    } else if (keyword === '/if' || keyword === '/each') {
+      const open = stack.pop();
+      if (!open || `/${open.node.type}` !== keyword) invalid(`Unexpected ${tag}`);
+      target = open.target;
+    } else if (path) {
+      target.push({ type: 'value', path, raw: false });
+    } else {
+      invalid('Empty {{ }} placeholder');
+    }
+  }
+
+  if (stack.length > 0) {
+    invalid(`{{#${stack[stack.length - 1].node.type} ${stack[stack.length - 1].node.path}}} is never closed`);
+  }
+  if (last < source.length) {
+    target.push({ type: 'text', value: source.slice(last) });
+  }
+  return root;
+}
+
+function lookup(scope: Scope, path: string): unknown {
+  const [head, ...rest] = path.split('.');
+  for (let i = scope.length - 1; i >= 0; i--) {
+    const frame = scope[i];
+    if (head in frame) {
+      return rest.reduce<unknown>(
+        (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        frame[head]
+      );
+    }
+  }
+  return undefined;
+}
+
+function isPresent(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0;
+}
+
+function formatValue(value: unknown, locale: Locale): string {
+  if (value === undefined || value === null || typeof value === 'boolean') return '';
+  if (value instanceof Date) return formatDate(value, locale, { dateStyle: 'long' });
+  if (typeof value === 'number') return formatNumber(value, locale);
+  if (Array.isArray(value)) return value.map((item) => formatValue(item, locale)).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope, locale: Locale, html: boolean): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'value': {
+          const text = formatValue(lookup(scope, node.path), locale);
+          return html && !node.raw ? escapeHtml(text) : text;
+        }
+        case 'if':
+          return renderNodes(isPresent(lookup(scope, node.path)) ? node.then : node.otherwise, scope, locale, html);
+        case 'each': {
+          const list = lookup(scope, node.path);
+          if (!Array.isArray(list)) return '';
+          return list
+            .map((item) => {
+              const frame =
+                item !== null && typeof item === 'object' && !(item instanceof Date)
+                  ? { ...item, this: item }
+                  : { this: item };
+              return renderNodes(node.body, [...scope, frame], locale, html);
+            })
+            .join('');
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Render one template string. HTML output escapes {{name}} values.
+ */
+export function renderTemplateString(
+  source: string,
+  data: Record<string, unknown>,
+  options: { language?: string; html?: boolean } = {}
+): string {
+  const locale = options.language && isValidLocale(options.language) ? options.language : defaultLocale;
+  return renderNodes(parseTemplate(source), [data], locale, options.html ?? false);
+}
+
+/**
+ * Top-level variable names a template refers to. Fields used inside an
+ * {{#each}} block belong to the list items and are not included.
+ */
+export function getTemplateVariableNames(source: string): string[] {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'text') continue;
+      names.add(node.path.split('.')[0]);
+      if (node.type === 'if') {
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(parseTemplate(source));
+  names.delete('this');
+  return [...names];
+}
+
+/**
+ * The declared variables stored on an EmailTemplate row. Plain strings are
+ * accepted as required variables.
+ */
+export function normalizeTemplateVariables(value: unknown): TemplateVariable[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry): TemplateVariable | null => {
+      if (typeof entry === 'string') return { name: entry, required: true };
+      if (entry && typeof entry === 'object' && typeof (entry as TemplateVariable).name === 'string') {
+        const variable = entry as TemplateVariable;
+        return { name: variable.name, description: variable.description, required: variable.required !== false };
+      }
+      return null;
+    })
+    .filter((variable): variable is TemplateVariable => variable !== null);
+}
+
+/**
+ * Check a template only uses declared variables; throws listing the others
+ */
+export function assertTemplateUsesDeclaredVariables(content: TemplateContent, variables: TemplateVariable[]): void {
+  const declared = new Set(variables.map((variable) => variable.name));
+  const used = new Set([
+    ...getTemplateVariableNames(content.subject),
+    ...getTemplateVariableNames(content.htmlContent),
+    ...getTemplateVariableNames(content.textContent),
+  ]);
+  const unknown = [...used].filter((name) => !declared.has(name));
+  if (unknown.length > 0) {
+    throw new BadRequestError(`Unknown template variables: ${unknown.join(', ')}`, 'UNKNOWN_TEMPLATE_VARIABLES', {
+      unknown,
+      allowed: [...declared],
+    });
+  }
+}
+
+/**
+ * Check the data has a value for every required variable; throws listing the missing ones
+ */
+export function assertTemplateDataComplete(variables: TemplateVariable[], data: Record<string, unknown>): void {
+  const missing = variables
+    .filter((variable) => variable.required !== false)
+    .map((variable) => variable.name)
+    .filter((name) => data[name] === undefined || data[name] === null || data[name] === '');
+  if (missing.length > 0) {
+    throw new BadRequestError(`Missing template variables: ${missing.join(', ')}`, 'MISSING_TEMPLATE_VARIABLES', {
+      missing,
+    });
+  }
+}
+
+/**
+ * Validate the data against the declared variables and render all three parts
+ */
+export function renderTemplateContent(
+  content: TemplateContent,
+  variables: TemplateVariable[],
+  data: Record<string, unknown>,
+  language?: string
+): RenderedContent {
+  assertTemplateDataComplete(variables, data);
+  return {
+    subject: renderTemplateString(content.subject, data, { language }).replace(/\s+/g, ' ').trim(),
+    html: renderTemplateString(content.htmlContent, data, { language, html: true }),
+    text: renderTemplateString(content.textContent, data, { language }),
+  };
+}
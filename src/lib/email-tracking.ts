@@ -0,0 +1,153 @@
+/**
+ * Email engagement tracking
+ *
+ * Signs the tokens that identify a queued email in tracking links, rewrites
+ * campaign emails at send time (open pixel, click-through redirects and an
+ * unsubscribe footer) and builds the RFC 8058 one-click unsubscribe headers.
+ * Also verifies the mail provider's signed delivery webhooks.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export interface TrackedEmail {
+  html: string;
+  text: string;
+  headers: Record<string, string>;
+}
+
+function getTrackingSecret(): string {
+  const secret = process.env.EMAIL_TRACKING_SECRET || process.env.JWT_SECRET;
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error('EMAIL_TRACKING_SECRET environment variable must be set in production');
+  }
+  return secret || 'dev-secret-key-change-in-production';
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getTrackingSecret()).update(value).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Token identifying a queued email in its tracking and unsubscribe links
+ */
+export function createTrackingToken(emailQueueId: string): string {
+  return `${emailQueueId}.${sign(`email:${emailQueueId}`)}`;
+}
+
+/**
+ * The queued email id of a valid token, or null when it was not signed by us
+ */
+export function verifyTrackingToken(token: string | null | undefined): string | null {
+  if (!token) return null;
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+  const emailQueueId = token.slice(0, separator);
+  return safeEqual(token.slice(separator + 1), sign(`email:${emailQueueId}`)) ? emailQueueId : null;
+}
+
+/**
+ * Signature binding a click-through destination to the email's token, so the
+ * redirect cannot be reused to send people to other sites
+ */
+export function signClickUrl(token: string, url: string): string {
+  return sign(`click:${token}:${url}`);
+}
+
+export function verifyClickUrl(token: string, url: string, signature: string | null | undefined): boolean {
+  return !!signature && safeEqual(signature, signClickUrl(token, url));
+}
+
+export function buildOpenUrl(token: string): string {
+  return `${getAppUrl()}/api/email/open?token=${encodeURIComponent(token)}`;
+}
+
+export function buildClickUrl(token: string, url: string): string {
+  const params = new URLSearchParams({ token, url, sig: signClickUrl(token, url) });
+  return `${getAppUrl()}/api/email/click?${params.toString()}`;
+}
+
+export function buildUnsubscribeUrl(token: string): string {
+  return `${getAppUrl()}/api/email/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * RFC 2369 / RFC 8058 headers letting mail clients unsubscribe with one click
+ */
+export function buildUnsubscribeHeaders(token: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${buildUnsubscribeUrl(token)}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+/**
+ * Rewrite a campaign email for sending: http(s) links go through the click
+ * redirect, an unsubscribe footer and the open pixel are added to the HTML and
+ * the unsubscribe link to the text
+ */
+export function applyEmailTracking(content: { html: string; text: string }, emailQueueId: string): TrackedEmail {
+  const token = createTrackingToken(emailQueueId);
+  const unsubscribeUrl = buildUnsubscribeUrl(token);
+
+  const linked = content.html.replace(
+    /href\s*=\s*(["'])(https?:\/\/[^"']+)\1/gi,
+    (_match, _quote: string, href: string) =>
+      `href="${escapeAttribute(buildClickUrl(token, href.replace(/&amp;/g, '&')))}"`
+  );
+  const footer =
+    `<p style="font-size: 12px; color: #666; text-align: center;">` +
+    `Don't want these emails? <a href="${escapeAttribute(unsubscribeUrl)}">Unsubscribe</a></p>` +
+    `<img src="${escapeAttribute(buildOpenUrl(token))}" width="1" height="1" alt="" style="display: none;" />`;
+  const html = /<\/body>/i.test(linked) ? linked.replace(/<\/body>/i, `${footer}</body>`) : `${linked}${footer}`;
+
+  return {
+    html,
+    text: `${content.text}\n\nUnsubscribe: ${unsubscribeUrl}`,
+    headers: buildUnsubscribeHeaders(token),
+  };
+}
+
+/**
+ * Verify a delivery webhook signed the way Resend signs them (Svix):
+ * base64 HMAC-SHA256 of "{id}.{timestamp}.{body}" keyed with the decoded
+ * whsec_ secret, with timestamps older than five minutes rejected
+ */
+export function verifyDeliveryWebhook(
+  payload: string,
+  headers: Headers,
+  secret: string,
+  now: Date = new Date()
+): boolean {
+  const id = headers.get('svix-id');
+  const timestamp = headers.get('svix-timestamp');
+  const signatures = headers.get('svix-signature');
+  if (!id || !timestamp || !signatures) return false;
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now.getTime() / 1000 - sentAt) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.startsWith('whsec_') ? secret.slice(6) : secret, 'base64');
+  const expected = createHmac('sha256', key).update(`${id}.${timestamp}.${payload}`).digest('base64');
+  return signatures
+    .split(' ')
+    .map((entry) => entry.split(',')[1])
+    .some((signature) => !!signature && safeEqual(signature, expected));
+}
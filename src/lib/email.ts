@@ -6,6 +6,7 @@
 import { Resend } from 'resend';
 import prisma from './prisma';
 import { logError, logEvent } from './logger';
+import { applyEmailTracking } from './email-tracking';
 
 export interface EmailTemplate {
   to: string;
@@ -65,6 +66,11 @@ export async function queueEmail(
  * Use this for critical emails that need to be sent synchronously
  */
 export async function sendEmailImmediate(template: EmailTemplate): Promise<boolean> {
+  // Accounts registered by phone may not have an email address yet
+  if (!template.to) {
+    return false;
+  }
+
   try {
     const resend = getResendClient();
     const emailFrom = process.env.EMAIL_FROM || 'noreply@minalesh.et';
@@ -119,6 +125,10 @@ export async function sendEmailImmediate(template: EmailTemplate): Promise<boole
  * Now queues email by default
  */
 export async function sendEmail(template: EmailTemplate): Promise<boolean> {
+  if (!template.to) {
+    return false;
+  }
+
   try {
     await queueEmail(template);
     return true;
@@ -198,6 +208,31 @@ async function sendQueuedEmail(emailId: string): Promise<boolean> {
       },
     });
 
+    // Addresses that hard-bounced or complained are never mailed again
+    const suppression = await prisma.emailSuppression.findUnique({
+      where: { email: email.to.toLowerCase() },
+    });
+    if (suppression) {
+      await prisma.emailQueue.update({
+        where: { id: emailId },
+        data: {
+          status: 'suppressed',
+          lastError: `Address suppressed after ${suppression.reason}`,
+        },
+      });
+      logEvent('queued_email_suppressed', { emailId, reason: suppression.reason });
+      return false;
+    }
+
+    // Campaign emails get open/click tracking and one-click unsubscribe headers
+    const metadata = email.metadata as Record<string, unknown> | null;
+    const campaignId = metadata?.type === 'campaign' && typeof metadata.campaignId === 'string'
+      ? metadata.campaignId
+      : null;
+    const content = campaignId
+      ? applyEmailTracking({ html: email.html, text: email.text }, email.id)
+      : { html: email.html, text: email.text, headers: undefined };
+
     const resend = getResendClient();
     const emailFrom = process.env.EMAIL_FROM || 'noreply@minalesh.et';
 
@@ -215,16 +250,20 @@ async function sendQueuedEmail(emailId: string): Promise<boolean> {
           attempts: email.attempts + 1,
         },
       });
+      if (campaignId) await countCampaignEmailSent(campaignId);
       return true;
     }
 
     // Send email via Resend
+    const replyTo = metadata?.replyTo;
     const result = await resend.emails.send({
       from: emailFrom,
       to: email.to,
       subject: email.subject,
-      text: email.text,
-      html: email.html,
+      text: content.text,
+      html: content.html,
+      ...(typeof replyTo === 'string' ? { replyTo } : {}),
+      ...(content.headers ? { headers: content.headers } : {}),
     });
 
     if (result.error) {
@@ -257,8 +296,10 @@ async function sendQueuedEmail(emailId: string): Promise<boolean> {
         status: 'sent',
         sentAt: new Date(),
         attempts: email.attempts + 1,
+        providerMessageId: result.data?.id,
       },
     });
+    if (campaignId) await countCampaignEmailSent(campaignId);
 
     logEvent('queued_email_sent', {
       emailId,
@@ -292,6 +333,12 @@ async function sendQueuedEmail(emailId: string): Promise<boolean> {
   }
 }
 
+async function countCampaignEmailSent(campaignId: string): Promise<void> {
+  await prisma.emailCampaign
+    .update({ where: { id: campaignId }, data: { sentCount: { increment: 1 } } })
+    .catch((error) => logError(error, { operation: 'countCampaignEmailSent', campaignId }));
+}
+
 /**
  * Email template for order confirmation
  */
@@ -2594,3 +2641,208 @@ The Minalesh Team
     `.trim(),
   };
 }
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Email template confirming a new support ticket.
+ * The ticket number in the subject lets email replies thread back onto the ticket.
+ */
+export function createSupportTicketCreatedEmail(
+  to: string,
+  name: string,
+  ticketNumber: string,
+  subject: string,
+  firstResponseDueAt: Date
+): EmailTemplate {
+  return {
+    to,
+    subject: `[${ticketNumber}] We received your request: ${subject}`,
+    template: 'support_ticket_created',
+    metadata: { ticketNumber },
+    text: `
+Hello ${name},
+
+Thanks for contacting Minalesh support. Your ticket number is ${ticketNumber}.
+
+Subject: ${subject}
+
+An agent will respond by ${firstResponseDueAt.toUTCString()}.
+You can reply to this email to add more details to your ticket.
+
+Thank you,
+Minalesh Support
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #2196F3; color: white; padding: 20px; text-align: center; }
+    .content { padding: 20px; background-color: #f9f9f9; }
+    .ticket-box { background-color: white; padding: 15px; border-radius: 5px; margin: 15px 0; border-left: 4px solid #2196F3; }
+    .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>We received your request</h1>
+    </div>
+    <div class="content">
+      <p>Hello ${escapeHtml(name)},</p>
+      <p>Thanks for contacting Minalesh support.</p>
+      <div class="ticket-box">
+        <p><strong>Ticket Number:</strong> ${ticketNumber}</p>
+        <p><strong>Subject:</strong> ${escapeHtml(subject)}</p>
+        <p><strong>Expected first response:</strong> ${firstResponseDueAt.toUTCString()}</p>
+      </div>
+      <p>You can reply to this email to add more details to your ticket.</p>
+    </div>
+    <div class="footer">
+      <p>Thank you,<br>Minalesh Support</p>
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+/**
+ * Email template for an agent reply on a support ticket
+ */
+export function createSupportTicketReplyEmail(
+  to: string,
+  name: string,
+  ticketNumber: string,
+  subject: string,
+  agentName: string,
+  reply: string
+): EmailTemplate {
+  return {
+    to,
+    subject: `Re: [${ticketNumber}] ${subject}`,
+    template: 'support_ticket_reply',
+    metadata: { ticketNumber },
+    text: `
+Hello ${name},
+
+${agentName} replied to your support ticket ${ticketNumber}:
+
+${reply}
+
+Reply to this email to respond.
+
+Thank you,
+Minalesh Support
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #2196F3; color: white; padding: 20px; text-align: center; }
+    .content { padding: 20px; background-color: #f9f9f9; }
+    .message-box { background-color: white; padding: 15px; border-radius: 5px; margin: 15px 0; border-left: 4px solid #2196F3; white-space: pre-wrap; }
+    .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>New reply on ${ticketNumber}</h1>
+    </div>
+    <div class="content">
+      <p>Hello ${escapeHtml(name)},</p>
+      <p>${escapeHtml(agentName)} replied to your support ticket:</p>
+      <div class="message-box">${escapeHtml(reply)}</div>
+      <p>Reply to this email to respond.</p>
+    </div>
+    <div class="footer">
+      <p>Thank you,<br>Minalesh Support</p>
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+/**
+ * Email template for an invitation to join a vendor shop as staff
+ */
+export function createVendorStaffInviteEmail(
+  to: string,
+  storeName: string,
+  permissionLabels: string[],
+  inviteToken: string,
+  appUrl: string
+): EmailTemplate {
+  const acceptUrl = `${appUrl}/vendor/staff/accept?token=${inviteToken}`;
+
+  return {
+    to,
+    subject: `You're invited to help run ${storeName} on Minalesh`,
+    template: 'vendor_staff_invite',
+    metadata: { storeName },
+    text: `
+Hello,
+
+${storeName} invited you to join their team on Minalesh with access to:
+${permissionLabels.map((label) => `- ${label}`).join('\n')}
+
+Accept the invitation here (sign in or create an account with this email first):
+${acceptUrl}
+
+This invitation expires in 7 days.
+
+Thank you,
+Minalesh Team
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #4CAF50; color: white; padding: 20px; text-align: center; }
+    .content { padding: 20px; background-color: #f9f9f9; }
+    .button { display: inline-block; padding: 12px 24px; background-color: #4CAF50; color: white; text-decoration: none; border-radius: 5px; margin: 15px 0; }
+    .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Join ${escapeHtml(storeName)}</h1>
+    </div>
+    <div class="content">
+      <p>${escapeHtml(storeName)} invited you to join their team on Minalesh with access to:</p>
+      <ul>
+        ${permissionLabels.map((label) => `<li>${escapeHtml(label)}</li>`).join('\n        ')}
+      </ul>
+      <p>Sign in or create an account with this email address, then accept:</p>
+      <a href="${acceptUrl}" class="button">Accept Invitation</a>
+      <p><small>This invitation expires in 7 days.</small></p>
+    </div>
+    <div class="footer">
+      <p>Thank you,<br>Minalesh Team</p>
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
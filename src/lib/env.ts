@@ -32,6 +32,8 @@ const envSchema = z.object({
   JWT_EXPIRES_IN: z.string().default('7d'),
   REFRESH_TOKEN_EXPIRES_IN: z.string().default('30d'),
   CRON_SECRET: z.string().min(16, 'CRON_SECRET must be at least 16 characters'),
+  // Encrypts stored authenticator secrets; falls back to JWT_SECRET
+  TWO_FACTOR_ENCRYPTION_KEY: z.string().min(32, 'TWO_FACTOR_ENCRYPTION_KEY must be at least 32 characters').optional(),
 
   // ========================================
   // Application URLs
@@ -47,6 +49,12 @@ const envSchema = z.object({
   EMAIL_FROM: z.string().email('EMAIL_FROM must be a valid email address').optional(),
   CONTACT_EMAIL: z.string().email('CONTACT_EMAIL must be a valid email address').optional(),
   CONTACT_PHONE: z.string().optional(),
+  SUPPORT_REPLY_TO_EMAIL: z.string().email('SUPPORT_REPLY_TO_EMAIL must be a valid email address').optional(),
+  SUPPORT_INBOUND_EMAIL_SECRET: z.string().optional(),
+  // Verifies Resend bounce/complaint webhooks (whsec_...)
+  RESEND_WEBHOOK_SECRET: z.string().optional(),
+  // Signs open/click/unsubscribe links in campaign emails; falls back to JWT_SECRET
+  EMAIL_TRACKING_SECRET: z.string().min(32, 'EMAIL_TRACKING_SECRET must be at least 32 characters').optional(),
 
   // ========================================
   // SMS Service
@@ -67,10 +75,16 @@ const envSchema = z.object({
   // Ethiopian Payment Providers
   TELEBIRR_API_KEY: z.string().optional(),
   TELEBIRR_WEBHOOK_SECRET: z.string().optional(),
+  TELEBIRR_API_URL: z.string().url().optional(),
+  TELEBIRR_MERCHANT_APP_ID: z.string().optional(),
   CBE_API_KEY: z.string().optional(),
   CBE_WEBHOOK_SECRET: z.string().optional(),
+  CBE_API_URL: z.string().url().optional(),
+  CBE_MERCHANT_ID: z.string().optional(),
   AWASH_API_KEY: z.string().optional(),
   AWASH_WEBHOOK_SECRET: z.string().optional(),
+  AWASH_API_URL: z.string().url().optional(),
+  AWASH_MERCHANT_CODE: z.string().optional(),
 
   // ========================================
   // Storage (AWS S3)
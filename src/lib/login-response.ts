@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { isAccountLockedOut, type JWTPayload } from '@/lib/auth';
+import { ForbiddenError, UnauthorizedError } from '@/lib/errors';
+import { getClientIp } from '@/lib/rate-limit';
+import { createSession } from '@/services/SessionService';
+
+export interface LoginUser {
+  id: string;
+  email: string | null;
+  role: JWTPayload['role'];
+  adminScope?: string | null;
+  emailVerified: Date | null;
+  profile: Record<string, unknown> | null;
+}
+
+/**
+ * Start a session for a user who has passed every login step and build the
+ * login response: user, tokens and the HttpOnly auth cookie for SSR/middleware.
+ * Shared by password login and the two-factor verification that completes it.
+ */
+export async function buildLoginResponse(
+  request: Request,
+  user: LoginUser,
+  extra: Record<string, unknown> = {}
+): Promise<NextResponse> {
+  const { token, refreshToken } = await createSession(
+    { userId: user.id, email: user.email, role: user.role, adminScope: user.adminScope },
+    { userAgent: request.headers.get('user-agent'), ipAddress: getClientIp(request) }
+  );
+
+  const response = NextResponse.json({
+    message: 'Login successful',
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      profile: user.profile ? { ...user.profile, isAdmin: user.role === 'admin' } : { isAdmin: user.role === 'admin' },
+    },
+    token,
+    refreshToken,
+    ...extra,
+  });
+
+  return setAuthCookie(response, token);
+}
+
+/**
+ * Set the HttpOnly auth cookie that SSR and middleware read
+ */
+export function setAuthCookie(response: NextResponse, token: string): NextResponse {
+  const isProd = process.env.NODE_ENV === 'production';
+  response.cookies.set('auth_token', token, {
+    httpOnly: true,
+    secure: isProd,
+    sameSite: 'lax',
+    path: '/',
+    // Max-Age will be managed by JWT expiry; set a reasonable default (7d)
+    maxAge: 60 * 60 * 24 * 7,
+  });
+
+  return response;
+}
+
+/**
+ * Finish a login that was paused for two-factor verification or enrolment
+ */
+export async function completeLogin(
+  request: Request,
+  userId: string,
+  extra: Record<string, unknown> = {}
+): Promise<NextResponse> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { profile: true },
+  });
+  if (!user) {
+    throw new UnauthorizedError('Account no longer exists');
+  }
+  if (isAccountLockedOut(user.lockoutUntil)) {
+    throw new ForbiddenError('Account is locked');
+  }
+
+  return buildLoginResponse(request, user, extra);
+}
@@ -1,14 +1,15 @@
 import { NextResponse } from 'next/server';
 import { UserRole } from '@prisma/client';
-import { getTokenFromRequest, getUserFromToken, hasRole } from './auth';
+import { getTokenFromRequest, getUserFromToken, hasAdminPermission, hasRole } from './auth';
+import type { AdminPermission } from './permissions';
 import { UnauthorizedError, ForbiddenError } from './errors';
 
 /**
  * Middleware to verify authentication and extract user payload
  */
-export function withAuth(request: Request) {
+export async function withAuth(request: Request) {
   const token = getTokenFromRequest(request);
-  const payload = getUserFromToken(token);
+  const payload = await getUserFromToken(token);
 
   if (!payload) {
     return {
@@ -26,8 +27,8 @@ export function withAuth(request: Request) {
 /**
  * Middleware to verify user has required role
  */
-export function withRole(request: Request, requiredRole: UserRole | UserRole[]) {
-  const authResult = withAuth(request);
+export async function withRole(request: Request, requiredRole: UserRole | UserRole[]) {
+  const authResult = await withAuth(request);
   
   if (authResult.error) {
     return authResult;
@@ -51,14 +52,38 @@ export function withRole(request: Request, requiredRole: UserRole | UserRole[])
 /**
  * Middleware to verify admin access
  */
-export function withAdmin(request: Request) {
+export async function withAdmin(request: Request) {
   return withRole(request, 'admin');
 }
 
+/**
+ * Middleware to verify admin access for an operator scope that holds the permission
+ */
+export async function withAdminPermission(request: Request, permission: AdminPermission | readonly AdminPermission[]) {
+  const authResult = await withAdmin(request);
+
+  if (authResult.error) {
+    return authResult;
+  }
+
+  if (!hasAdminPermission(authResult.payload!, permission)) {
+    return { error: adminPermissionDenied(), payload: null };
+  }
+
+  return authResult;
+}
+
+function adminPermissionDenied() {
+  return NextResponse.json(
+    { error: 'Your admin role does not allow this', errorCode: 'ADMIN_PERMISSION_DENIED' },
+    { status: 403 }
+  );
+}
+
 /**
  * Middleware to verify vendor or admin access
  */
-export function withVendorOrAdmin(request: Request) {
+export async function withVendorOrAdmin(request: Request) {
   return withRole(request, ['vendor', 'admin']);
 }
 
@@ -72,16 +97,16 @@ export function withVendorOrAdmin(request: Request) {
  * import { requireAuth } from '@/lib/middleware';
  * 
  * async function handler(request: Request) {
- *   const payload = requireAuth(request);
+ *   const payload = await requireAuth(request);
  *   // ... rest of handler
  * }
  * 
  * export const GET = withApiLogger(handler);
  * ```
  */
-export function requireAuth(request: Request) {
+export async function requireAuth(request: Request) {
   const token = getTokenFromRequest(request);
-  const payload = getUserFromToken(token);
+  const payload = await getUserFromToken(token);
 
   if (!payload) {
     throw new UnauthorizedError('Authentication required');
@@ -100,15 +125,15 @@ export function requireAuth(request: Request) {
  * import { requireRole } from '@/lib/middleware';
  * 
  * async function handler(request: Request) {
- *   const payload = requireRole(request, 'admin');
+ *   const payload = await requireRole(request, 'admin');
  *   // ... rest of handler
  * }
  * 
  * export const GET = withApiLogger(handler);
  * ```
  */
-export function requireRole(request: Request, requiredRole: UserRole | UserRole[]) {
-  const payload = requireAuth(request);
+export async function requireRole(request: Request, requiredRole: UserRole | UserRole[]) {
+  const payload = await requireAuth(request);
 
   if (!hasRole(payload.role, requiredRole)) {
     throw new ForbiddenError('Insufficient permissions');
@@ -121,7 +146,7 @@ export function requireRole(request: Request, requiredRole: UserRole | UserRole[
  * Alternative middleware that throws errors for admin verification.
  * Use this with withApiLogger for cleaner error handling.
  */
-export function requireAdmin(request: Request) {
+export async function requireAdmin(request: Request) {
   return requireRole(request, 'admin');
 }
 
@@ -129,7 +154,7 @@ export function requireAdmin(request: Request) {
  * Alternative middleware that throws errors for vendor/admin verification.
  * Use this with withApiLogger for cleaner error handling.
  */
-export function requireVendorOrAdmin(request: Request) {
+export async function requireVendorOrAdmin(request: Request) {
   return requireRole(request, ['vendor', 'admin']);
 }
 
@@ -148,18 +173,25 @@ export function requireVendorOrAdmin(request: Request) {
  * 
  * export const GET = withApiLogger(withRoleCheck(handler, ['admin']));
  * ```
+ *
+ * Pass `adminPermission` to also keep admins whose operator scope lacks it out.
  */
 export function withRoleCheck<T extends any[]>(
   handler: (request: Request, ...args: T) => Promise<NextResponse>,
-  requiredRole: UserRole | UserRole[]
+  requiredRole: UserRole | UserRole[],
+  adminPermission?: AdminPermission | readonly AdminPermission[]
 ) {
   return async (request: Request, ...args: T): Promise<NextResponse> => {
-    const authResult = withRole(request, requiredRole);
+    const authResult = await withRole(request, requiredRole);
     
     if (authResult.error) {
       return authResult.error;
     }
-    
+
+    if (adminPermission && authResult.payload?.role === 'admin' && !hasAdminPermission(authResult.payload, adminPermission)) {
+      return adminPermissionDenied();
+    }
+
     return handler(request, ...args);
   };
 }
@@ -116,3 +116,89 @@ export function validateStatusTransition(
 export function isTerminalStatus(status: OrderStatus): boolean {
   return ORDER_STATUS_TRANSITIONS[status].length === 0;
 }
+
+/**
+ * Statuses a vendor can move their vendor order to; payment and refunds
+ * belong to the whole order
+ */
+export const VENDOR_ORDER_STATUSES = [
+  'confirmed',
+  'processing',
+  'packed',
+  'picked_up',
+  'in_transit',
+  'out_for_delivery',
+  'fulfilled',
+  'shipped',
+  'delivered',
+  'cancelled',
+] as const satisfies readonly OrderStatus[];
+
+export type VendorOrderStatus = (typeof VENDOR_ORDER_STATUSES)[number];
+
+/**
+ * Order/VendorOrder timestamp column recording when a status was reached
+ */
+export const STATUS_TIMESTAMP_FIELDS: Partial<Record<OrderStatus, string>> = {
+  paid: 'paidAt',
+  confirmed: 'confirmedAt',
+  processing: 'processingAt',
+  packed: 'packedAt',
+  picked_up: 'pickedUpAt',
+  in_transit: 'inTransitAt',
+  out_for_delivery: 'outForDeliveryAt',
+  fulfilled: 'fulfilledAt',
+  shipped: 'shippedAt',
+  delivered: 'deliveredAt',
+  cancelled: 'cancelledAt',
+  refunded: 'refundedAt',
+};
+
+/**
+ * Timestamp update for reaching a status, e.g. { packedAt: now }
+ */
+export function getStatusTimestamp(status: OrderStatus, at: Date = new Date()): Record<string, Date> {
+  const field = STATUS_TIMESTAMP_FIELDS[status];
+  return field ? { [field]: at } : {};
+}
+
+// How far along fulfilment a status is; legacy statuses sit where getCompletedStatuses places them
+const FULFILMENT_RANK: OrderStatus[] = [
+  'pending',
+  'paid',
+  'confirmed',
+  'processing',
+  'fulfilled',
+  'packed',
+  'picked_up',
+  'shipped',
+  'in_transit',
+  'out_for_delivery',
+  'delivered',
+];
+
+/**
+ * Status of an order from the statuses of its vendor orders.
+ *
+ * The order is as far along as its slowest vendor: it is delivered once
+ * every vendor has delivered. Cancelled and refunded vendor orders are left
+ * out unless all of them are. Payment belongs to the order, so vendor
+ * orders still waiting on it never move a pending or paid order, and a
+ * cancelled or refunded order stays that way.
+ */
+export function deriveOrderStatus(currentStatus: OrderStatus, vendorStatuses: OrderStatus[]): OrderStatus {
+  if (vendorStatuses.length === 0 || isTerminalStatus(currentStatus)) {
+    return currentStatus;
+  }
+
+  const active = vendorStatuses.filter((status) => status !== 'cancelled' && status !== 'refunded');
+  if (active.length === 0) {
+    return vendorStatuses.includes('refunded') ? 'refunded' : 'cancelled';
+  }
+
+  const slowest = active.reduce((a, b) => (FULFILMENT_RANK.indexOf(b) < FULFILMENT_RANK.indexOf(a) ? b : a));
+  if (FULFILMENT_RANK.indexOf(slowest) <= FULFILMENT_RANK.indexOf('paid')) {
+    return currentStatus === 'pending' || currentStatus === 'paid' ? currentStatus : slowest;
+  }
+  return slowest;
+}
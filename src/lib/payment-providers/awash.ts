@@ -0,0 +1,131 @@
+/**
+ * Awash Bank (Awash Birr / card checkout) adapter
+ *
+ * Creates a hosted checkout session for the order; the customer pays on the
+ * Awash page and Awash calls back with the transaction result.
+ */
+
+import { z } from 'zod';
+import { providerRequest, verifySignature } from './http';
+import type { PaymentProvider, ProviderPaymentStatus } from './types';
+
+function config() {
+  return {
+    baseUrl: process.env.AWASH_API_URL || 'https://api.awashbank.com',
+    apiKey: process.env.AWASH_API_KEY,
+    merchantCode: process.env.AWASH_MERCHANT_CODE,
+    secret: process.env.AWASH_WEBHOOK_SECRET || process.env.PAYMENT_WEBHOOK_SECRET,
+  };
+}
+
+function mapStatus(status: string): ProviderPaymentStatus {
+  switch (status) {
+    case 'APPROVED':
+      return 'completed';
+    case 'DECLINED':
+    case 'CANCELLED':
+    case 'EXPIRED':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+const callbackSchema = z.object({
+  reference: z.string(),
+  merchantReference: z.string(),
+  status: z.string(),
+  amount: z.union([z.string(), z.number()]).optional(),
+  eventId: z.string().optional(),
+});
+
+type AwashTransaction = {
+  reference: string;
+  merchantReference: string;
+  status: string;
+  amount?: string | number;
+  checkoutUrl?: string;
+};
+
+export const awashProvider: PaymentProvider = {
+  id: 'awash',
+  displayName: 'Awash Bank',
+  signatureHeader: 'x-awash-signature',
+
+  isConfigured() {
+    return !!config().apiKey;
+  },
+
+  async initiate(request) {
+    const cfg = config();
+    const transaction = await providerRequest<AwashTransaction>('awash', cfg, '/v1/checkout', {
+      body: {
+        merchantCode: cfg.merchantCode,
+        merchantReference: request.orderNumber,
+        amount: request.amount.toFixed(2),
+        currency: request.currency,
+        description: request.description,
+        callbackUrl: request.callbackUrl,
+        returnUrl: request.returnUrl,
+      },
+    });
+
+    return {
+      reference: transaction.reference,
+      checkoutUrl: transaction.checkoutUrl,
+    };
+  },
+
+  verifyCallback(rawBody, headers) {
+    return verifySignature(rawBody, headers.get('x-awash-signature'), config().secret);
+  },
+
+  parseCallback(payload) {
+    const parsed = callbackSchema.safeParse(payload);
+    if (!parsed.success) return null;
+    return {
+      status: mapStatus(parsed.data.status),
+      orderNumber: parsed.data.merchantReference,
+      paymentReference: parsed.data.reference,
+      amount: parsed.data.amount !== undefined ? String(parsed.data.amount) : undefined,
+      eventId: parsed.data.eventId,
+    };
+  },
+
+  async queryStatus(reference) {
+    const transaction = await providerRequest<AwashTransaction>(
+      'awash',
+      config(),
+      `/v1/transactions/${encodeURIComponent(reference)}`
+    );
+
+    return {
+      reference: transaction.reference,
+      status: mapStatus(transaction.status),
+      amount: transaction.amount !== undefined ? Number(transaction.amount) : undefined,
+    };
+  },
+
+  async refund(request) {
+    try {
+      const refund = await providerRequest<{ refundReference: string; status: string }>(
+        'awash',
+        config(),
+        `/v1/transactions/${encodeURIComponent(request.reference)}/refund`,
+        {
+          body: {
+            amount: request.amount.toFixed(2),
+            reason: request.reason,
+            merchantRefundReference: request.refundReference,
+          },
+        }
+      );
+      if (refund.status === 'DECLINED') {
+        return { success: false, providerRefundId: refund.refundReference, error: 'Refund declined by Awash Bank' };
+      }
+      return { success: true, providerRefundId: refund.refundReference };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Refund failed' };
+    }
+  },
+};
@@ -0,0 +1,132 @@
+/**
+ * CBE Birr (Commercial Bank of Ethiopia wallet) adapter
+ *
+ * The payment is created against the order number as the bill reference; CBE
+ * pushes a confirmation prompt to the customer's phone and calls back with the
+ * transaction status.
+ */
+
+import { z } from 'zod';
+import { providerRequest, verifySignature } from './http';
+import type { PaymentProvider, ProviderPaymentStatus } from './types';
+
+function config() {
+  return {
+    baseUrl: process.env.CBE_API_URL || 'https://api.cbebirr.et',
+    apiKey: process.env.CBE_API_KEY,
+    merchantId: process.env.CBE_MERCHANT_ID,
+    secret: process.env.CBE_WEBHOOK_SECRET || process.env.PAYMENT_WEBHOOK_SECRET,
+  };
+}
+
+function mapStatus(status: string): ProviderPaymentStatus {
+  switch (status) {
+    case 'SUCCESS':
+      return 'completed';
+    case 'FAILED':
+    case 'CANCELLED':
+    case 'EXPIRED':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+const callbackSchema = z.object({
+  transactionId: z.string(),
+  billRefNumber: z.string(),
+  status: z.string(),
+  amount: z.union([z.string(), z.number()]).optional(),
+});
+
+type CbePayment = {
+  transactionId: string;
+  billRefNumber: string;
+  status: string;
+  amount?: string | number;
+  paymentUrl?: string;
+};
+
+export const cbeBirrProvider: PaymentProvider = {
+  id: 'cbe',
+  displayName: 'CBE Birr',
+  signatureHeader: 'x-cbe-signature',
+
+  isConfigured() {
+    return !!config().apiKey;
+  },
+
+  async initiate(request) {
+    const cfg = config();
+    const payment = await providerRequest<CbePayment>('cbe', cfg, '/api/v1/payments', {
+      body: {
+        merchantId: cfg.merchantId,
+        billRefNumber: request.orderNumber,
+        amount: request.amount.toFixed(2),
+        currency: request.currency,
+        phone: request.customerPhone,
+        description: request.description,
+        callbackUrl: request.callbackUrl,
+      },
+    });
+
+    return {
+      reference: payment.transactionId,
+      checkoutUrl: payment.paymentUrl,
+      instructions: 'Approve the payment request sent to your CBE Birr phone number.',
+    };
+  },
+
+  verifyCallback(rawBody, headers) {
+    return verifySignature(rawBody, headers.get('x-cbe-signature'), config().secret);
+  },
+
+  parseCallback(payload) {
+    const parsed = callbackSchema.safeParse(payload);
+    if (!parsed.success) return null;
+    return {
+      status: mapStatus(parsed.data.status),
+      orderNumber: parsed.data.billRefNumber,
+      paymentReference: parsed.data.transactionId,
+      amount: parsed.data.amount !== undefined ? String(parsed.data.amount) : undefined,
+      eventId: `${parsed.data.transactionId}:${parsed.data.status}`,
+    };
+  },
+
+  async queryStatus(reference) {
+    const payment = await providerRequest<CbePayment>(
+      'cbe',
+      config(),
+      `/api/v1/payments/${encodeURIComponent(reference)}`
+    );
+
+    return {
+      reference: payment.transactionId,
+      status: mapStatus(payment.status),
+      amount: payment.amount !== undefined ? Number(payment.amount) : undefined,
+    };
+  },
+
+  async refund(request) {
+    try {
+      const refund = await providerRequest<{ refundId: string; status: string }>(
+        'cbe',
+        config(),
+        `/api/v1/payments/${encodeURIComponent(request.reference)}/refunds`,
+        {
+          body: {
+            amount: request.amount.toFixed(2),
+            reason: request.reason,
+            externalReference: request.refundReference,
+          },
+        }
+      );
+      if (refund.status === 'FAILED') {
+        return { success: false, providerRefundId: refund.refundId, error: 'Refund rejected by CBE Birr' };
+      }
+      return { success: true, providerRefundId: refund.refundId };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Refund failed' };
+    }
+  },
+};
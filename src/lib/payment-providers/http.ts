@@ -0,0 +1,75 @@
+/**
+ * Shared HTTP and signature helpers for payment provider adapters
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PaymentProviderError, type PaymentProviderId } from './types';
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * HMAC-SHA256 hex signature of a payload
+ */
+export function signPayload(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Constant-time check of a hex signature against the payload
+ */
+export function verifySignature(payload: string, signature: string | null, secret: string | undefined): boolean {
+  if (!signature || !secret) return false;
+  const expected = signPayload(payload, secret);
+  try {
+    return timingSafeEqual(Buffer.from(expected, 'utf8'), Buffer.from(signature, 'utf8'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Call a provider JSON API. Requests are signed with the provider secret so the
+ * provider (or the local mock server) can authenticate them.
+ */
+export async function providerRequest<T>(
+  provider: PaymentProviderId,
+  config: { baseUrl: string; apiKey?: string; secret?: string },
+  path: string,
+  init: { method?: 'GET' | 'POST'; body?: Record<string, unknown> } = {}
+): Promise<T> {
+  const body = init.body ? JSON.stringify(init.body) : undefined;
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (body) headers['Content-Type'] = 'application/json';
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+  if (body && config.secret) headers['X-Signature'] = signPayload(body, config.secret);
+
+  let response: Response;
+  try {
+    response = await fetch(`${config.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: init.method || (body ? 'POST' : 'GET'),
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new PaymentProviderError(provider, error instanceof Error ? error.message : 'Request failed');
+  }
+
+  const text = await response.text();
+  let data: unknown = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    throw new PaymentProviderError(provider, `Invalid JSON response (HTTP ${response.status})`);
+  }
+
+  if (!response.ok) {
+    const message =
+      data && typeof data === 'object' && 'message' in data && typeof (data as { message: unknown }).message === 'string'
+        ? (data as { message: string }).message
+        : `HTTP ${response.status}`;
+    throw new PaymentProviderError(provider, message, { status: response.status });
+  }
+
+  return data as T;
+}
@@ -0,0 +1,47 @@
+/**
+ * Payment provider registry
+ *
+ * Resolves an order's payment method (or a webhook's provider field) to its
+ * adapter. Stripe keeps its own SDK integration in PaymentService.
+ */
+
+import { teleBirrProvider } from './telebirr';
+import { cbeBirrProvider } from './cbe-birr';
+import { awashProvider } from './awash';
+import type { PaymentProvider, PaymentProviderId } from './types';
+
+export * from './types';
+
+const providers: Record<PaymentProviderId, PaymentProvider> = {
+  telebirr: teleBirrProvider,
+  cbe: cbeBirrProvider,
+  awash: awashProvider,
+};
+
+// Payment method spellings used by src/types/payment.ts and older orders
+const aliases: Record<string, PaymentProviderId> = {
+  telebirr: 'telebirr',
+  cbe: 'cbe',
+  cbe_birr: 'cbe',
+  cbebirr: 'cbe',
+  awash: 'awash',
+  awash_bank: 'awash',
+};
+
+export const PAYMENT_PROVIDER_IDS = Object.keys(providers) as PaymentProviderId[];
+
+/**
+ * Get the adapter for a payment method, or null for Stripe/COD/manual methods
+ */
+export function getPaymentProvider(method: string | null | undefined): PaymentProvider | null {
+  if (!method) return null;
+  const id = aliases[method.toLowerCase().replace(/[\s-]/g, '_')];
+  return id ? providers[id] : null;
+}
+
+/**
+ * Adapters with credentials configured in this environment
+ */
+export function listConfiguredProviders(): PaymentProvider[] {
+  return PAYMENT_PROVIDER_IDS.map((id) => providers[id]).filter((provider) => provider.isConfigured());
+}
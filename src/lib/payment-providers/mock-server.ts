@@ -0,0 +1,257 @@
+/**
+ * Local mock payment provider server
+ *
+ * Emulates the TeleBirr, CBE Birr and Awash merchant APIs used by the adapters,
+ * keeping payments in memory. Used by the adapter tests and by
+ * `npm run mock:payments` for local checkout testing: point TELEBIRR_API_URL,
+ * CBE_API_URL and AWASH_API_URL at the base URLs it reports, then use
+ * `callback()` (or the /_mock routes) to produce signed provider callbacks.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { signPayload } from './http';
+import type { PaymentProviderId, ProviderPaymentStatus } from './types';
+
+export interface MockPayment {
+  provider: PaymentProviderId;
+  reference: string;
+  orderNumber: string;
+  amount: string;
+  status: ProviderPaymentStatus;
+  refunds: Array<{ id: string; amount: string; reason?: string }>;
+}
+
+export interface MockProviderServer {
+  url: string;
+  baseUrls: Record<PaymentProviderId, string>;
+  payments: Map<string, MockPayment>;
+  setStatus(reference: string, status: ProviderPaymentStatus): MockPayment;
+  callback(reference: string): { body: string; headers: Record<string, string> };
+  close(): Promise<void>;
+}
+
+const nativeStatus: Record<PaymentProviderId, Record<ProviderPaymentStatus, string>> = {
+  telebirr: { pending: 'Paying', completed: 'Completed', failed: 'Failure' },
+  cbe: { pending: 'PENDING', completed: 'SUCCESS', failed: 'FAILED' },
+  awash: { pending: 'PENDING', completed: 'APPROVED', failed: 'DECLINED' },
+};
+
+const signatureHeaders: Record<PaymentProviderId, string> = {
+  telebirr: 'x-telebirr-signature',
+  cbe: 'x-cbe-signature',
+  awash: 'x-awash-signature',
+};
+
+function callbackPayload(payment: MockPayment, eventId: string): Record<string, unknown> {
+  const status = nativeStatus[payment.provider][payment.status];
+  switch (payment.provider) {
+    case 'telebirr':
+      return {
+        merch_order_id: payment.orderNumber,
+        trade_status: status,
+        trans_id: `TB${payment.reference}`,
+        total_amount: payment.amount,
+        notify_id: eventId,
+      };
+    case 'cbe':
+      return {
+        transactionId: payment.reference,
+        billRefNumber: payment.orderNumber,
+        status,
+        amount: payment.amount,
+      };
+    case 'awash':
+      return {
+        reference: payment.reference,
+        merchantReference: payment.orderNumber,
+        status,
+        amount: payment.amount,
+        eventId,
+      };
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function startMockProviderServer(
+  options: { port?: number; secret?: string } = {}
+): Promise<MockProviderServer> {
+  const payments = new Map<string, MockPayment>();
+  let sequence = 0;
+  let url = '';
+
+  const find = (provider: PaymentProviderId, reference: string) => {
+    const payment = payments.get(reference);
+    return payment && payment.provider === provider ? payment : undefined;
+  };
+
+  const create = (provider: PaymentProviderId, reference: string, orderNumber: string, amount: unknown) => {
+    const payment: MockPayment = {
+      provider,
+      reference,
+      orderNumber,
+      amount: String(amount ?? '0'),
+      status: 'pending',
+      refunds: [],
+    };
+    payments.set(reference, payment);
+    return payment;
+  };
+
+  const refund = (payment: MockPayment, amount: unknown, reason?: string) => {
+    const id = `RF-${++sequence}`;
+    payment.refunds.push({ id, amount: String(amount), reason });
+    return id;
+  };
+
+  const server = createServer(async (req, res) => {
+    const raw = await readBody(req);
+    if (raw && options.secret && req.headers['x-signature'] !== signPayload(raw, options.secret)) {
+      return send(res, 401, { message: 'Invalid request signature' });
+    }
+
+    let body: Record<string, any> = {};
+    try {
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      return send(res, 400, { message: 'Invalid JSON' });
+    }
+
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    let match: RegExpMatchArray | null;
+
+    // TeleBirr: pre-order flow keyed by merchOrderId, responses wrapped in { code, data }
+    if (path === '/telebirr/payment/v1/merchant/preOrder') {
+      const payment = create('telebirr', body.merchOrderId, body.merchOrderId, body.totalAmount);
+      return send(res, 200, {
+        code: '0',
+        data: { prepayId: `PP-${++sequence}`, toPayUrl: `${url}/_mock/pay/${payment.reference}` },
+      });
+    }
+    if (path === '/telebirr/payment/v1/merchant/queryOrder') {
+      const payment = find('telebirr', body.merchOrderId);
+      if (!payment) return send(res, 200, { code: '40004', msg: 'Order not found' });
+      return send(res, 200, {
+        code: '0',
+        data: {
+          merchOrderId: payment.reference,
+          tradeStatus: nativeStatus.telebirr[payment.status],
+          totalAmount: payment.amount,
+        },
+      });
+    }
+    if (path === '/telebirr/payment/v1/merchant/refund') {
+      const payment = find('telebirr', body.merchOrderId);
+      if (!payment || payment.status !== 'completed') {
+        return send(res, 200, { code: '40005', msg: 'Order not paid' });
+      }
+      return send(res, 200, {
+        code: '0',
+        data: { refundOrderId: refund(payment, body.actualAmount, body.refundReason), refundStatus: 'Success' },
+      });
+    }
+
+    // CBE Birr: REST resources keyed by transactionId
+    if (path === '/cbe/api/v1/payments' && req.method === 'POST') {
+      const payment = create('cbe', `CBE-${++sequence}`, body.billRefNumber, body.amount);
+      return send(res, 201, {
+        transactionId: payment.reference,
+        billRefNumber: payment.orderNumber,
+        status: nativeStatus.cbe.pending,
+        amount: payment.amount,
+      });
+    }
+    if ((match = path.match(/^\/cbe\/api\/v1\/payments\/([^/]+)(\/refunds)?$/))) {
+      const payment = find('cbe', decodeURIComponent(match[1]));
+      if (!payment) return send(res, 404, { message: 'Transaction not found' });
+      if (match[2]) {
+        if (payment.status !== 'completed') return send(res, 409, { message: 'Transaction not settled' });
+        return send(res, 201, { refundId: refund(payment, body.amount, body.reason), status: 'SUCCESS' });
+      }
+      return send(res, 200, {
+        transactionId: payment.reference,
+        billRefNumber: payment.orderNumber,
+        status: nativeStatus.cbe[payment.status],
+        amount: payment.amount,
+      });
+    }
+
+    // Awash: hosted checkout sessions keyed by reference
+    if (path === '/awash/v1/checkout') {
+      const payment = create('awash', `AWB-${++sequence}`, body.merchantReference, body.amount);
+      return send(res, 201, {
+        reference: payment.reference,
+        merchantReference: payment.orderNumber,
+        status: nativeStatus.awash.pending,
+        amount: payment.amount,
+        checkoutUrl: `${url}/_mock/pay/${payment.reference}`,
+      });
+    }
+    if ((match = path.match(/^\/awash\/v1\/transactions\/([^/]+)(\/refund)?$/))) {
+      const payment = find('awash', decodeURIComponent(match[1]));
+      if (!payment) return send(res, 404, { message: 'Transaction not found' });
+      if (match[2]) {
+        if (payment.status !== 'completed') return send(res, 409, { message: 'Transaction not approved' });
+        return send(res, 201, { refundReference: refund(payment, body.amount, body.reason), status: 'APPROVED' });
+      }
+      return send(res, 200, {
+        reference: payment.reference,
+        merchantReference: payment.orderNumber,
+        status: nativeStatus.awash[payment.status],
+        amount: payment.amount,
+      });
+    }
+
+    // Test controls: settle a payment and return the signed callback the provider would send
+    if ((match = path.match(/^\/_mock\/(complete|fail)\/([^/]+)$/)) && req.method === 'POST') {
+      const reference = decodeURIComponent(match[2]);
+      if (!payments.has(reference)) return send(res, 404, { message: 'Payment not found' });
+      mock.setStatus(reference, match[1] === 'complete' ? 'completed' : 'failed');
+      return send(res, 200, mock.callback(reference));
+    }
+
+    return send(res, 404, { message: `No mock route for ${req.method} ${path}` });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const mock: MockProviderServer = {
+    url,
+    baseUrls: {
+      telebirr: `${url}/telebirr`,
+      cbe: `${url}/cbe`,
+      awash: `${url}/awash`,
+    },
+    payments,
+    setStatus(reference, status) {
+      const payment = payments.get(reference);
+      if (!payment) throw new Error(`Unknown mock payment ${reference}`);
+      payment.status = status;
+      return payment;
+    },
+    callback(reference) {
+      const payment = payments.get(reference);
+      if (!payment) throw new Error(`Unknown mock payment ${reference}`);
+      const body = JSON.stringify(callbackPayload(payment, `EVT-${++sequence}`));
+      const headers: Record<string, string> = { 'content-type': 'application/json' };
+      if (options.secret) headers[signatureHeaders[payment.provider]] = signPayload(body, options.secret);
+      return { body, headers };
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+    },
+  };
+
+  return mock;
+}
@@ -0,0 +1,156 @@
+/**
+ * TeleBirr (Ethio Telecom mobile money) adapter
+ *
+ * Uses the merchant pre-order flow: we create a pre-order for the order number,
+ * the customer confirms it in the TeleBirr app or via the returned payment page,
+ * and TeleBirr calls back with the trade status.
+ */
+
+import { z } from 'zod';
+import { providerRequest, verifySignature } from './http';
+import {
+  PaymentProviderError,
+  type PaymentProvider,
+  type ProviderPaymentStatus,
+} from './types';
+
+function config() {
+  return {
+    baseUrl: process.env.TELEBIRR_API_URL || 'https://api.telebirr.et',
+    apiKey: process.env.TELEBIRR_API_KEY,
+    merchantAppId: process.env.TELEBIRR_MERCHANT_APP_ID,
+    secret: process.env.TELEBIRR_WEBHOOK_SECRET || process.env.PAYMENT_WEBHOOK_SECRET,
+  };
+}
+
+function mapTradeStatus(status: string): ProviderPaymentStatus {
+  switch (status) {
+    case 'Completed':
+      return 'completed';
+    case 'Failure':
+    case 'Expired':
+    case 'Cancelled':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+const callbackSchema = z.object({
+  merch_order_id: z.string(),
+  trade_status: z.string(),
+  trans_id: z.string().optional(),
+  total_amount: z.union([z.string(), z.number()]).optional(),
+  notify_id: z.string().optional(),
+});
+
+type TeleBirrResponse<T> = { code: string; msg?: string; data?: T };
+
+function unwrap<T>(response: TeleBirrResponse<T>): T {
+  if (response.code !== '0' || !response.data) {
+    throw new PaymentProviderError('telebirr', response.msg || `Error code ${response.code}`);
+  }
+  return response.data;
+}
+
+export const teleBirrProvider: PaymentProvider = {
+  id: 'telebirr',
+  displayName: 'TeleBirr',
+  signatureHeader: 'x-telebirr-signature',
+
+  isConfigured() {
+    return !!config().apiKey;
+  },
+
+  async initiate(request) {
+    const cfg = config();
+    const data = unwrap(
+      await providerRequest<TeleBirrResponse<{ prepayId: string; toPayUrl?: string }>>(
+        'telebirr',
+        cfg,
+        '/payment/v1/merchant/preOrder',
+        {
+          body: {
+            merchantAppId: cfg.merchantAppId,
+            merchOrderId: request.orderNumber,
+            title: request.description || `Order ${request.orderNumber}`,
+            totalAmount: request.amount.toFixed(2),
+            transCurrency: request.currency,
+            payerPhone: request.customerPhone,
+            notifyUrl: request.callbackUrl,
+            redirectUrl: request.returnUrl,
+          },
+        }
+      )
+    );
+
+    return {
+      // TeleBirr identifies the trade by our order number until it assigns a transaction id
+      reference: request.orderNumber,
+      checkoutUrl: data.toPayUrl,
+      instructions: 'Confirm the payment request in your TeleBirr app or dial *127# to approve it.',
+    };
+  },
+
+  verifyCallback(rawBody, headers) {
+    return verifySignature(rawBody, headers.get('x-telebirr-signature'), config().secret);
+  },
+
+  parseCallback(payload) {
+    const parsed = callbackSchema.safeParse(payload);
+    if (!parsed.success) return null;
+    return {
+      status: mapTradeStatus(parsed.data.trade_status),
+      orderNumber: parsed.data.merch_order_id,
+      paymentReference: parsed.data.merch_order_id,
+      amount: parsed.data.total_amount !== undefined ? String(parsed.data.total_amount) : undefined,
+      eventId: parsed.data.notify_id || parsed.data.trans_id,
+    };
+  },
+
+  async queryStatus(reference) {
+    const cfg = config();
+    const data = unwrap(
+      await providerRequest<TeleBirrResponse<{ merchOrderId: string; tradeStatus: string; totalAmount?: string }>>(
+        'telebirr',
+        cfg,
+        '/payment/v1/merchant/queryOrder',
+        { body: { merchantAppId: cfg.merchantAppId, merchOrderId: reference } }
+      )
+    );
+
+    return {
+      reference: data.merchOrderId,
+      status: mapTradeStatus(data.tradeStatus),
+      amount: data.totalAmount !== undefined ? Number(data.totalAmount) : undefined,
+    };
+  },
+
+  async refund(request) {
+    const cfg = config();
+    try {
+      const data = unwrap(
+        await providerRequest<TeleBirrResponse<{ refundOrderId: string; refundStatus: string }>>(
+          'telebirr',
+          cfg,
+          '/payment/v1/merchant/refund',
+          {
+            body: {
+              merchantAppId: cfg.merchantAppId,
+              merchOrderId: request.reference,
+              refundRequestNo: request.refundReference,
+              actualAmount: request.amount.toFixed(2),
+              refundReason: request.reason,
+            },
+          }
+        )
+      );
+      if (data.refundStatus === 'Failure') {
+        return { success: false, providerRefundId: data.refundOrderId, error: 'Refund rejected by TeleBirr' };
+      }
+      return { success: true, providerRefundId: data.refundOrderId };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Refund failed' };
+    }
+  },
+};
@@ -0,0 +1,95 @@
+/**
+ * Payment Provider Adapter Types
+ *
+ * Every local payment method (TeleBirr, CBE Birr, Awash) is wrapped in a
+ * PaymentProvider adapter so checkout, the payment webhook and refunds can
+ * treat them the same way Stripe is treated.
+ */
+
+import { AppError } from '@/lib/errors';
+
+export type PaymentProviderId = 'telebirr' | 'cbe' | 'awash';
+
+/**
+ * Provider payment states, normalized to the statuses accepted by /api/payments/webhook
+ */
+export type ProviderPaymentStatus = 'pending' | 'completed' | 'failed';
+
+export interface InitiatePaymentRequest {
+  orderId: string;
+  orderNumber: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  customerPhone?: string;
+  callbackUrl: string;
+  returnUrl?: string;
+}
+
+export interface InitiatePaymentResult {
+  /** Provider-side transaction reference, stored as order.paymentReference */
+  reference: string;
+  /** Hosted payment page, when the provider has one */
+  checkoutUrl?: string;
+  /** Customer-facing instructions (USSD prompt, app confirmation, etc.) */
+  instructions?: string;
+}
+
+/**
+ * Provider callback normalized to the fields the webhook route works with
+ */
+export interface PaymentCallbackEvent {
+  status: ProviderPaymentStatus;
+  orderNumber?: string;
+  paymentReference?: string;
+  amount?: string;
+  eventId?: string;
+}
+
+export interface PaymentStatusResult {
+  reference: string;
+  status: ProviderPaymentStatus;
+  amount?: number;
+}
+
+export interface ProviderRefundRequest {
+  reference: string;
+  amount: number;
+  reason?: string;
+  /** Our idempotency key for the refund */
+  refundReference: string;
+}
+
+export interface ProviderRefundResult {
+  success: boolean;
+  providerRefundId?: string;
+  error?: string;
+}
+
+export interface PaymentProvider {
+  readonly id: PaymentProviderId;
+  readonly displayName: string;
+  /** Header carrying the HMAC-SHA256 signature of the callback body */
+  readonly signatureHeader: string;
+
+  isConfigured(): boolean;
+  initiate(request: InitiatePaymentRequest): Promise<InitiatePaymentResult>;
+  verifyCallback(rawBody: string, headers: Headers): boolean;
+  parseCallback(payload: unknown): PaymentCallbackEvent | null;
+  queryStatus(reference: string): Promise<PaymentStatusResult>;
+  refund(request: ProviderRefundRequest): Promise<ProviderRefundResult>;
+}
+
+/**
+ * Raised when a provider API call fails or returns an unexpected response
+ */
+export class PaymentProviderError extends AppError {
+  constructor(
+    public readonly provider: PaymentProviderId,
+    message: string,
+    details?: Record<string, any>
+  ) {
+    super(`${provider}: ${message}`, 502, 'PAYMENT_PROVIDER_ERROR', true, details);
+    this.name = 'PaymentProviderError';
+  }
+}
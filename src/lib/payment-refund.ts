@@ -7,8 +7,12 @@
  * - Proper authentication and error handling
  * - Webhook handling for refund status updates
  * - Compliance with payment provider requirements
+ *
+ * TeleBirr, CBE Birr and Awash refunds go through their payment provider adapters.
  */
 
+import { getPaymentProvider } from './payment-providers';
+
 export interface RefundResult {
   success: boolean;
   refundId?: string;
@@ -110,18 +114,66 @@ export async function processPayPalRefund(
 }
 
 /**
- * Process refund based on payment method
+ * Process refund through a local provider adapter (TeleBirr, CBE Birr, Awash).
+ * `refundReference` is the provider's idempotency key, so it must stay the
+ * same when a refund is retried.
+ */
+export async function processProviderRefund(
+  paymentMethod: string,
+  refundReference: string,
+  reference: string,
+  amount: number,
+  reason?: string
+): Promise<RefundResult> {
+  const provider = getPaymentProvider(paymentMethod);
+  if (!provider) {
+    return { success: false, error: `No payment provider for ${paymentMethod}`, timestamp: new Date() };
+  }
+  if (!provider.isConfigured()) {
+    return { success: false, error: `${provider.displayName} is not configured`, timestamp: new Date() };
+  }
+
+  const result = await provider.refund({
+    reference,
+    amount,
+    reason,
+    refundReference,
+  });
+
+  return {
+    success: result.success,
+    refundId: result.providerRefundId,
+    amount: result.success ? amount : undefined,
+    transactionId: reference,
+    error: result.error,
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Process refund based on payment method. `refundReference` identifies the
+ * refund (the Refund or dispute id) and is reused on retries.
  */
 export async function processAutoRefund(
   orderId: string,
   amount: number,
   paymentMethod: string,
-  paymentTransactionId: string
+  paymentTransactionId: string,
+  refundReference: string
 ): Promise<RefundResult> {
   try {
     let result: RefundResult;
 
-    switch (paymentMethod.toLowerCase()) {
+    // Older orders spell provider methods differently (cbe_birr, awash_bank)
+    const method = getPaymentProvider(paymentMethod)?.id ?? paymentMethod.toLowerCase();
+
+    switch (method) {
+      case 'telebirr':
+      case 'cbe':
+      case 'awash':
+        result = await processProviderRefund(method, refundReference, paymentTransactionId, amount);
+        break;
+
       case 'stripe':
       case 'credit_card':
         result = await processStripeRefund(paymentTransactionId, amount);
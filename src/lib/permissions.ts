@@ -0,0 +1,107 @@
+/**
+ * Staff and Operator Permissions
+ *
+ * Permission names for vendor shop staff and for platform operators.
+ * Shop owners and super admins hold every permission; everyone else only
+ * what they were granted.
+ */
+
+/**
+ * What a vendor staff member may do for the shop
+ */
+export const VENDOR_PERMISSIONS = ['catalog', 'orders', 'finance', 'messaging'] as const;
+
+export type VendorPermission = (typeof VENDOR_PERMISSIONS)[number];
+
+export const VENDOR_PERMISSION_LABELS: Record<VendorPermission, string> = {
+  catalog: 'Products and inventory',
+  orders: 'Orders and fulfilment',
+  finance: 'Payouts, statements and ledger',
+  messaging: 'Customer messages',
+};
+
+/**
+ * Areas of the admin console an operator can be scoped to
+ */
+export const ADMIN_PERMISSIONS = ['support', 'finance', 'catalog', 'operators', 'settings'] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+export const ADMIN_SCOPES = ['super_admin', 'support_agent', 'finance', 'catalog_moderator'] as const;
+
+export type AdminScopeName = (typeof ADMIN_SCOPES)[number];
+
+export const ADMIN_SCOPE_PERMISSIONS: Record<AdminScopeName, readonly AdminPermission[]> = {
+  super_admin: ADMIN_PERMISSIONS,
+  support_agent: ['support'],
+  finance: ['finance'],
+  catalog_moderator: ['catalog'],
+};
+
+export const ADMIN_SCOPE_LABELS: Record<AdminScopeName, string> = {
+  super_admin: 'Super admin',
+  support_agent: 'Support agent',
+  finance: 'Finance',
+  catalog_moderator: 'Catalog moderator',
+};
+
+export function isVendorPermission(value: string): value is VendorPermission {
+  return (VENDOR_PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Admins created before scopes existed have no scope and keep full access
+ */
+export function getAdminScope(adminScope: string | null | undefined): AdminScopeName {
+  return (adminScope as AdminScopeName) || 'super_admin';
+}
+
+export function adminScopeAllows(adminScope: string | null | undefined, permission: AdminPermission): boolean {
+  return ADMIN_SCOPE_PERMISSIONS[getAdminScope(adminScope)].includes(permission);
+}
+
+/**
+ * Which admin permissions open each /api/admin area; holding any one of them
+ * is enough. The dashboard is open to every operator and areas not listed
+ * here (site config, security, backups and the like) need settings.
+ */
+const ADMIN_API_AREAS: Array<[string, readonly AdminPermission[] | null]> = [
+  ['dashboard', null],
+  ['operators', ['operators']],
+  ['audit-log', ['operators']],
+  ['support', ['support']],
+  ['disputes', ['support']],
+  ['buyer-protection', ['support']],
+  ['crm', ['support']],
+  ['notifications', ['support']],
+  ['orders', ['support', 'finance']],
+  ['ledger', ['finance']],
+  ['reconciliation', ['finance']],
+  ['tax-rates', ['finance']],
+  ['reports', ['finance']],
+  ['analytics', ['finance']],
+  ['products', ['catalog']],
+  ['categories', ['catalog']],
+  ['vendors', ['catalog']],
+  ['contracts', ['catalog']],
+  ['contract-templates', ['catalog']],
+  ['bulk-operations', ['catalog']],
+  ['flash-sales', ['catalog']],
+  ['promotions', ['catalog']],
+  ['coupons', ['catalog']],
+  ['search', ['catalog']],
+];
+
+/**
+ * Permissions that open an /api/admin path, or null when any operator may use it
+ */
+export function getAdminApiPermissions(pathname: string): readonly AdminPermission[] | null {
+  const area = pathname.replace(/^\/api\/admin\/?/, '').split('/')[0];
+  const match = ADMIN_API_AREAS.find(([name]) => name === area);
+  return match ? match[1] : ['settings'];
+}
+
+export function adminScopeCanAccess(adminScope: string | null | undefined, pathname: string): boolean {
+  const permissions = getAdminApiPermissions(pathname);
+  return permissions === null || permissions.some((permission) => adminScopeAllows(adminScope, permission));
+}
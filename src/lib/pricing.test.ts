@@ -6,6 +6,8 @@ import {
   applyDiscounts,
   isFlashSaleActive,
   isPromotionActive,
+  priceCart,
+  type PromotionRule,
 } from './pricing';
 
 describe('Pricing utilities', () => {
@@ -152,4 +154,176 @@ describe('Pricing utilities', () => {
       expect(isPromotionActive(startsAt, endsAt, true)).toBe(false);
     });
   });
+
+  describe('priceCart', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const yesterday = new Date('2026-10-18T12:00:00Z');
+    const tomorrow = new Date('2026-10-20T12:00:00Z');
+
+    const line = (productId: string, unitPrice: number, quantity: number, categoryId: string | null = null) => ({
+      productId,
+      name: productId,
+      categoryId,
+      unitPrice,
+      quantity,
+    });
+
+    const promotion = (overrides: Partial<PromotionRule>): PromotionRule => ({
+      id: 'promo',
+      name: 'Promotion',
+      promotionType: 'cart_discount',
+      discountType: 'percentage',
+      discountValue: 10,
+      productIds: [],
+      categoryIds: [],
+      priority: 0,
+      isExclusive: false,
+      startsAt: yesterday,
+      endsAt: tomorrow,
+      isActive: true,
+      ...overrides,
+    });
+
+    it('should sell flash sale units up to the remaining stock and skip tiers for them', () => {
+      const result = priceCart({
+        now,
+        lines: [line('p1', 100, 3)],
+        flashSales: [{
+          id: 'flash-1', name: 'Meskel Flash', productId: 'p1', flashPrice: 80,
+          stockLimit: 10, stockSold: 8, startsAt: yesterday, endsAt: tomorrow, isActive: true,
+        }],
+        tiers: [{ productId: 'p1', minQuantity: 2, maxQuantity: null, discountType: 'percentage', discountValue: 10 }],
+      });
+
+      expect(result.lines[0].adjustments).toEqual([
+        expect.objectContaining({ type: 'flash', sourceId: 'flash-1', amount: 40, quantity: 2 }),
+      ]);
+      expect(result.total).toBe(260);
+    });
+
+    it('should apply the highest matching quantity break', () => {
+      const result = priceCart({
+        now,
+        lines: [line('p2', 50, 10)],
+        tiers: [
+          { productId: 'p2', minQuantity: 5, maxQuantity: 9, discountType: 'percentage', discountValue: 5 },
+          { productId: 'p2', minQuantity: 10, maxQuantity: null, discountType: 'percentage', discountValue: 10 },
+        ],
+      });
+
+      expect(result.lines[0].adjustments).toEqual([
+        expect.objectContaining({ type: 'tiered', amount: 50, percentage: 10 }),
+      ]);
+      expect(result.total).toBe(450);
+    });
+
+    it('should stack promotions by priority and spread cart discounts across lines', () => {
+      const result = priceCart({
+        now,
+        lines: [line('p1', 100, 2, 'shoes'), line('p2', 50, 1)],
+        promotions: [
+          promotion({ id: 'cart', name: '20 off', discountType: 'fixed_amount', discountValue: 20, priority: 1 }),
+          promotion({ id: 'shoes', name: 'Shoe week', promotionType: 'category_discount', categoryIds: ['shoes'], priority: 5 }),
+        ],
+      });
+
+      expect(result.promotionIds).toEqual(['shoes', 'cart']);
+      expect(result.lines[0].adjustments).toEqual([
+        expect.objectContaining({ sourceId: 'shoes', amount: 20 }),
+        expect.objectContaining({ sourceId: 'cart', amount: 15.65 }),
+      ]);
+      expect(result.lines[1].adjustments).toEqual([expect.objectContaining({ sourceId: 'cart', amount: 4.35 })]);
+      expect(result.adjustments).toEqual([
+        expect.objectContaining({ sourceId: 'shoes', amount: 20 }),
+        expect.objectContaining({ sourceId: 'cart', amount: 20 }),
+      ]);
+      expect(result).toMatchObject({ subtotal: 250, discountAmount: 40, total: 210 });
+      expect(result.lines[0].total + result.lines[1].total).toBe(result.total);
+    });
+
+    it('should not combine exclusive promotions with others', () => {
+      const result = priceCart({
+        now,
+        lines: [line('p1', 100, 1)],
+        promotions: [
+          promotion({ id: 'vip', name: 'VIP', isExclusive: true, priority: 10 }),
+          promotion({ id: 'p1-deal', name: 'P1 deal', promotionType: 'product_discount', productIds: ['p1'], priority: 5 }),
+        ],
+      });
+
+      expect(result.promotionIds).toEqual(['vip']);
+      expect(result.skippedPromotions).toEqual([
+        { id: 'p1-deal', name: 'P1 deal', reason: 'Cannot be combined with VIP' },
+      ]);
+      expect(result.total).toBe(90);
+    });
+
+    it('should skip an exclusive promotion once others have applied', () => {
+      const result = priceCart({
+        now,
+        lines: [line('p1', 100, 1)],
+        promotions: [
+          promotion({ id: 'first', priority: 10 }),
+          promotion({ id: 'late-vip', name: 'Late VIP', isExclusive: true, priority: 1 }),
+        ],
+      });
+
+      expect(result.promotionIds).toEqual(['first']);
+      expect(result.skippedPromotions[0]).toMatchObject({ id: 'late-vip' });
+    });
+
+    it('should give away the cheapest units in buy-x-get-y', () => {
+      const result = priceCart({
+        now,
+        lines: [line('p1', 100, 2), line('p3', 30, 1)],
+        promotions: [
+          promotion({ id: 'b2g1', name: 'Buy 2 get 1', promotionType: 'buy_x_get_y', discountValue: 100, buyQuantity: 2, getQuantity: 1 }),
+        ],
+      });
+
+      expect(result.lines[0].adjustments).toEqual([]);
+      expect(result.lines[1].adjustments).toEqual([
+        expect.objectContaining({ amount: 30, description: 'Buy 2 get 1 free' }),
+      ]);
+      expect(result.total).toBe(200);
+    });
+
+    it('should ignore expired promotions', () => {
+      const result = priceCart({
+        now,
+        lines: [line('p1', 100, 1)],
+        promotions: [promotion({ endsAt: yesterday })],
+      });
+
+      expect(result.total).toBe(100);
+      expect(result.adjustments).toEqual([]);
+    });
+
+    it('should apply the coupon to the total after promotions', () => {
+      const result = priceCart({
+        now,
+        lines: [line('p1', 100, 2)],
+        promotions: [promotion({ id: 'cart', discountValue: 10 })],
+        coupon: { id: 'coupon-1', code: 'SAVE10', discountType: 'percentage', discountValue: 10, maximumDiscount: 15 },
+      });
+
+      expect(result.adjustments).toEqual([
+        expect.objectContaining({ type: 'promotion', amount: 20 }),
+        expect.objectContaining({ type: 'coupon', name: 'SAVE10', amount: 15 }),
+      ]);
+      expect(result).toMatchObject({ total: 165, couponId: 'coupon-1' });
+    });
+
+    it('should report free shipping from a coupon without discounting items', () => {
+      const result = priceCart({
+        now,
+        lines: [line('p1', 100, 1)],
+        coupon: { id: 'coupon-2', code: 'SHIPFREE', discountType: 'free_shipping', discountValue: 0 },
+      });
+
+      expect(result.freeShipping).toBe(true);
+      expect(result.total).toBe(100);
+      expect(result.adjustments).toEqual([expect.objectContaining({ type: 'coupon', amount: 0, description: 'Free shipping' })]);
+    });
+  });
 });
@@ -56,7 +56,7 @@ export function calculateTieredDiscount(
     minQuantity: number;
     maxQuantity: number | null;
     discountType: 'percentage' | 'fixed_amount';
-    discountValue: Decimal;
+    discountValue: Decimal | number;
   }>
 ): number {
   // Find applicable tier
@@ -109,9 +109,9 @@ export function isFlashSaleActive(
   startsAt: Date,
   endsAt: Date,
   stockLimit?: number,
-  stockSold?: number
+  stockSold?: number,
+  now: Date = new Date()
 ): boolean {
-  const now = new Date();
   const isWithinTimeRange = now >= startsAt && now <= endsAt;
 
   if (!isWithinTimeRange) {
@@ -131,13 +131,13 @@ export function isFlashSaleActive(
 export function isPromotionActive(
   startsAt: Date,
   endsAt: Date | null,
-  isActive: boolean
+  isActive: boolean,
+  now: Date = new Date()
 ): boolean {
   if (!isActive) {
     return false;
   }
 
-  const now = new Date();
   const hasStarted = now >= startsAt;
   const hasNotEnded = !endsAt || now <= endsAt;
 
@@ -183,3 +183,413 @@ export function applyDiscounts(
 
   return Math.max(0, finalPrice);
 }
+
+/**
+ * Current selling price of a product or variant: a variant's own price wins
+ * over the product's, and a sale price over the list price
+ */
+export function resolveUnitPrice(
+  product: { price: Decimal | number; salePrice?: Decimal | number | null },
+  variant?: { price?: Decimal | number | null; salePrice?: Decimal | number | null } | null
+): number {
+  return Number(variant?.salePrice || variant?.price || product.salePrice || product.price);
+}
+
+/*
+ * Cart pricing engine
+ *
+ * Prices cart lines in a fixed order: flash-sale prices, tiered quantity
+ * breaks for lines not on flash sale, promotions by priority, then the
+ * coupon. Each adjustment is recorded on the line it reduces so a quote can
+ * explain every birr between the list price and the total. Amounts are
+ * worked in cents so line and order totals always agree.
+ */
+
+export interface CartPricingLine {
+  productId: string;
+  variantId?: string | null;
+  name: string;
+  categoryId?: string | null;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface FlashSaleRule {
+  id: string;
+  name: string;
+  productId: string;
+  flashPrice: number;
+  stockLimit: number | null;
+  stockSold: number;
+  startsAt: Date;
+  endsAt: Date;
+  isActive: boolean;
+}
+
+export interface TieredPricingRule {
+  productId: string;
+  minQuantity: number;
+  maxQuantity: number | null;
+  discountType: 'percentage' | 'fixed_amount';
+  discountValue: Decimal | number;
+}
+
+export interface PromotionRule {
+  id: string;
+  name: string;
+  promotionType: 'product_discount' | 'category_discount' | 'cart_discount' | 'buy_x_get_y';
+  discountType: 'percentage' | 'fixed_amount' | 'free_shipping';
+  discountValue: number;
+  productIds: string[];
+  categoryIds: string[];
+  minimumQuantity?: number | null;
+  minimumPurchase?: number | null;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  priority: number;
+  /** Exclusive promotions are never combined with other promotions */
+  isExclusive: boolean;
+  startsAt: Date;
+  endsAt: Date | null;
+  isActive: boolean;
+}
+
+export interface CouponRule {
+  id: string;
+  code: string;
+  discountType: string;
+  discountValue: number;
+  maximumDiscount?: number;
+}
+
+export interface PriceAdjustment extends DiscountResult {
+  /** Flash sale, promotion or coupon id; tiered breaks have none */
+  sourceId?: string;
+  description: string;
+  /** Units sold at the flash price, counted against the sale's stock limit */
+  quantity?: number;
+}
+
+export interface PricedCartLine {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+  discount: number;
+  total: number;
+  adjustments: PriceAdjustment[];
+}
+
+export interface CartPricingResult {
+  lines: PricedCartLine[];
+  subtotal: number;
+  discountAmount: number;
+  total: number;
+  freeShipping: boolean;
+  /** Adjustments summed across lines, in the order they were applied */
+  adjustments: PriceAdjustment[];
+  /** Promotions the cart qualified for that were not applied */
+  skippedPromotions: Array<{ id: string; name: string; reason: string }>;
+  promotionIds: string[];
+  couponId: string | null;
+}
+
+export interface CartPricingInput {
+  lines: CartPricingLine[];
+  flashSales?: FlashSaleRule[];
+  tiers?: TieredPricingRule[];
+  promotions?: PromotionRule[];
+  coupon?: CouponRule | null;
+  now?: Date;
+}
+
+interface LineState {
+  line: CartPricingLine;
+  subtotal: number;
+  net: number;
+  onFlashSale: boolean;
+  adjustments: PriceAdjustment[];
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Split `total` cents across weights, largest remainder first
+ */
+function splitCents(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (weightSum <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (total * w) / weightSum);
+  const parts = exact.map(Math.floor);
+  let remainder = total - parts.reduce((sum, p) => sum + p, 0);
+  const byFraction = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (let i = 0; remainder > 0; i = (i + 1) % byFraction.length, remainder--) {
+    parts[byFraction[i].index]++;
+  }
+  return parts;
+}
+
+function describeDiscount(discountType: string, value: number, suffix = ''): string {
+  if (discountType === 'free_shipping') return 'Free shipping';
+  return discountType === 'percentage' ? `${value}% off${suffix}` : `${value} ETB off${suffix}`;
+}
+
+function promotionAppliesTo(promotion: PromotionRule, line: CartPricingLine): boolean {
+  const scoped = promotion.productIds.length > 0 || promotion.categoryIds.length > 0;
+  if (!scoped) {
+    // Unscoped product/category discounts would discount everything; only cart-wide types may be unscoped
+    return promotion.promotionType === 'cart_discount' || promotion.promotionType === 'buy_x_get_y';
+  }
+  return (
+    promotion.productIds.includes(line.productId) ||
+    (!!line.categoryId && promotion.categoryIds.includes(line.categoryId))
+  );
+}
+
+/**
+ * Discount cents per line for a promotion, in the order of `eligible`
+ */
+function promotionDiscounts(promotion: PromotionRule, eligible: LineState[]): number[] {
+  const value = promotion.discountValue;
+
+  switch (promotion.promotionType) {
+    case 'product_discount':
+    case 'category_discount':
+      return eligible.map((state) =>
+        promotion.discountType === 'percentage'
+          ? Math.round((state.net * value) / 100)
+          : toCents(value) * state.line.quantity
+      );
+    case 'cart_discount': {
+      const net = eligible.reduce((sum, state) => sum + state.net, 0);
+      const total =
+        promotion.discountType === 'percentage' ? Math.round((net * value) / 100) : Math.min(toCents(value), net);
+      return splitCents(total, eligible.map((state) => state.net));
+    }
+    case 'buy_x_get_y': {
+      const buy = Math.max(1, promotion.buyQuantity || 1);
+      const get = Math.max(1, promotion.getQuantity || 1);
+      const units = eligible.flatMap((state, index) =>
+        Array.from({ length: state.line.quantity }, () => ({ index, price: state.net / state.line.quantity }))
+      );
+      const freeUnits = Math.floor(units.length / (buy + get)) * get;
+      // The cheapest units are the ones given away
+      const discounts = eligible.map(() => 0);
+      units
+        .sort((a, b) => a.price - b.price)
+        .slice(0, freeUnits)
+        .forEach((unit) => {
+          discounts[unit.index] +=
+            promotion.discountType === 'percentage' ? (unit.price * value) / 100 : Math.min(toCents(value), unit.price);
+        });
+      return discounts.map(Math.round);
+    }
+    default:
+      return eligible.map(() => 0);
+  }
+}
+
+/**
+ * Price a cart: flash sales, tiered breaks, promotions by priority, then coupon
+ */
+export function priceCart(input: CartPricingInput): CartPricingResult {
+  const now = input.now ?? new Date();
+  const states: LineState[] = input.lines.map((line) => {
+    const subtotal = toCents(line.unitPrice) * line.quantity;
+    return { line, subtotal, net: subtotal, onFlashSale: false, adjustments: [] };
+  });
+
+  const summary = new Map<string, PriceAdjustment>();
+  const record = (state: LineState | null, cents: number, adjustment: Omit<PriceAdjustment, 'amount'>) => {
+    const amount = state ? Math.min(Math.max(cents, 0), state.net) : 0;
+    if (state) {
+      if (amount === 0) return;
+      state.net -= amount;
+      state.adjustments.push({ ...adjustment, amount: fromCents(amount) });
+    }
+    const key = `${adjustment.type}:${adjustment.sourceId ?? adjustment.name}`;
+    const existing = summary.get(key);
+    if (existing) {
+      existing.amount = fromCents(toCents(existing.amount) + amount);
+      if (adjustment.quantity) existing.quantity = (existing.quantity || 0) + adjustment.quantity;
+    } else {
+      summary.set(key, { ...adjustment, amount: fromCents(amount) });
+    }
+  };
+
+  // 1. Flash sales replace the unit price, up to the sale's remaining stock
+  const flashStockLeft = new Map<string, number>();
+  for (const state of states) {
+    const sale = (input.flashSales || []).find(
+      (candidate) =>
+        candidate.productId === state.line.productId &&
+        candidate.isActive &&
+        isFlashSaleActive(candidate.startsAt, candidate.endsAt, candidate.stockLimit ?? undefined, candidate.stockSold, now)
+    );
+    if (!sale) continue;
+
+    const perUnit = toCents(state.line.unitPrice) - toCents(sale.flashPrice);
+    if (perUnit <= 0) continue;
+    const stockLeft = flashStockLeft.get(sale.id) ?? (sale.stockLimit ? sale.stockLimit - sale.stockSold : Infinity);
+    const units = Math.min(state.line.quantity, stockLeft);
+    if (units <= 0) continue;
+    flashStockLeft.set(sale.id, stockLeft - units);
+
+    state.onFlashSale = true;
+    record(state, perUnit * units, {
+      type: 'flash',
+      sourceId: sale.id,
+      name: sale.name,
+      quantity: units,
+      description:
+        units < state.line.quantity
+          ? `Flash price ${sale.flashPrice} ETB on ${units} of ${state.line.quantity}`
+          : `Flash price ${sale.flashPrice} ETB`,
+    });
+  }
+
+  // 2. Quantity breaks, for lines not already on flash sale
+  for (const state of states) {
+    if (state.onFlashSale) continue;
+    const tiers = (input.tiers || [])
+      .filter((tier) => tier.productId === state.line.productId)
+      .sort((a, b) => b.minQuantity - a.minQuantity);
+    const tier = tiers.find(
+      (candidate) =>
+        state.line.quantity >= candidate.minQuantity &&
+        (candidate.maxQuantity === null || state.line.quantity <= candidate.maxQuantity)
+    );
+    if (!tier) continue;
+
+    const value = Number(tier.discountValue);
+    record(state, toCents(calculateTieredDiscount(state.line.unitPrice, state.line.quantity, [tier])), {
+      type: 'tiered',
+      name: 'Quantity discount',
+      percentage: tier.discountType === 'percentage' ? value : undefined,
+      description: describeDiscount(tier.discountType, value, ` each for ${tier.minQuantity}+ units`),
+    });
+  }
+
+  // 3. Promotions, highest priority first
+  const promotionIds: string[] = [];
+  const skippedPromotions: CartPricingResult['skippedPromotions'] = [];
+  let freeShipping = false;
+  let exclusive: PromotionRule | null = null;
+
+  const promotions = (input.promotions || [])
+    .filter((promotion) => isPromotionActive(promotion.startsAt, promotion.endsAt, promotion.isActive, now))
+    .sort((a, b) => b.priority - a.priority);
+
+  for (const promotion of promotions) {
+    const eligible = states.filter((state) => state.net > 0 && promotionAppliesTo(promotion, state.line));
+    if (eligible.length === 0) continue;
+
+    const quantity = eligible.reduce((sum, state) => sum + state.line.quantity, 0);
+    const net = eligible.reduce((sum, state) => sum + state.net, 0);
+    if (promotion.minimumQuantity && quantity < promotion.minimumQuantity) continue;
+    if (promotion.minimumPurchase && net < toCents(promotion.minimumPurchase)) continue;
+    if (promotion.promotionType === 'buy_x_get_y' && quantity < (promotion.buyQuantity || 1) + (promotion.getQuantity || 1)) {
+      continue;
+    }
+
+    if (exclusive || (promotion.isExclusive && promotionIds.length > 0)) {
+      skippedPromotions.push({
+        id: promotion.id,
+        name: promotion.name,
+        reason: exclusive
+          ? `Cannot be combined with ${exclusive.name}`
+          : 'Cannot be combined with higher-priority promotions',
+      });
+      continue;
+    }
+
+    const adjustment = {
+      type: 'promotion' as const,
+      sourceId: promotion.id,
+      name: promotion.name,
+      percentage: promotion.discountType === 'percentage' ? promotion.discountValue : undefined,
+      description:
+        promotion.promotionType === 'buy_x_get_y'
+          ? `Buy ${promotion.buyQuantity || 1} get ${promotion.getQuantity || 1} ${
+              promotion.discountType === 'percentage' && promotion.discountValue >= 100
+                ? 'free'
+                : describeDiscount(promotion.discountType, promotion.discountValue)
+            }`
+          : describeDiscount(
+              promotion.discountType,
+              promotion.discountValue,
+              promotion.promotionType === 'cart_discount' ? ' your order' : ''
+            ),
+    };
+
+    if (promotion.discountType === 'free_shipping') {
+      freeShipping = true;
+      record(null, 0, adjustment);
+    } else {
+      const discounts = promotionDiscounts(promotion, eligible);
+      if (discounts.every((cents) => cents <= 0)) continue;
+      eligible.forEach((state, index) => record(state, discounts[index], adjustment));
+    }
+
+    promotionIds.push(promotion.id);
+    if (promotion.isExclusive) exclusive = promotion;
+  }
+
+  // 4. Coupon, on what is left after promotions
+  const coupon = input.coupon ?? null;
+  if (coupon) {
+    const adjustment = {
+      type: 'coupon' as const,
+      sourceId: coupon.id,
+      name: coupon.code,
+      percentage: coupon.discountType === 'percentage' ? coupon.discountValue : undefined,
+      description: describeDiscount(coupon.discountType, coupon.discountValue),
+    };
+
+    if (coupon.discountType === 'free_shipping') {
+      freeShipping = true;
+      record(null, 0, adjustment);
+    } else {
+      const net = fromCents(states.reduce((sum, state) => sum + state.net, 0));
+      const amount =
+        coupon.discountType === 'percentage'
+          ? applyPercentageDiscount(net, coupon.discountValue, coupon.maximumDiscount)
+          : applyFixedDiscount(net, coupon.discountValue);
+      const shares = splitCents(toCents(amount), states.map((state) => state.net));
+      states.forEach((state, index) => record(state, shares[index], adjustment));
+    }
+  }
+
+  const lines: PricedCartLine[] = states.map((state) => ({
+    productId: state.line.productId,
+    variantId: state.line.variantId ?? null,
+    name: state.line.name,
+    quantity: state.line.quantity,
+    unitPrice: state.line.unitPrice,
+    subtotal: fromCents(state.subtotal),
+    discount: fromCents(state.subtotal - state.net),
+    total: fromCents(state.net),
+    adjustments: state.adjustments,
+  }));
+
+  const subtotal = states.reduce((sum, state) => sum + state.subtotal, 0);
+  const total = states.reduce((sum, state) => sum + state.net, 0);
+
+  return {
+    lines,
+    subtotal: fromCents(subtotal),
+    discountAmount: fromCents(subtotal - total),
+    total: fromCents(total),
+    freeShipping,
+    adjustments: Array.from(summary.values()),
+    skippedPromotions,
+    promotionIds,
+    couponId: coupon?.id ?? null,
+  };
+}
@@ -32,6 +32,10 @@ export const RATE_LIMIT_CONFIGS = {
     windowMs: 15 * 60 * 1000, // 15 minutes
     maxRequests: 5, // 5 requests per 15 minutes
   },
+  otp: {
+    windowMs: 10 * 60 * 1000, // 10 minutes
+    maxRequests: 5, // 5 SMS codes per 10 minutes
+  },
   productList: {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 60, // 60 requests per minute
@@ -8,6 +8,8 @@
 import prisma from './prisma';
 import { Prisma } from '@prisma/client';
 import Stripe from 'stripe';
+import { getPaymentProvider } from './payment-providers';
+import { postRefund } from '@/services/LedgerService';
 
 // Initialize Stripe if configured
 const stripe = process.env.STRIPE_SECRET_KEY
@@ -29,6 +31,23 @@ export interface RefundResult {
   error?: string;
 }
 
+const REFUNDS_WITH_EDITS = { include: { orderEdit: { select: { id: true } } } } as const;
+
+/**
+ * What the buyer was charged for an order. Edits lower the total and
+ * refund the difference, or raise it with a balance still to be paid.
+ */
+function chargedTotal(order: {
+  totalAmount: unknown;
+  balanceDue?: unknown;
+  refunds: Array<{ status: string; amount: unknown; orderEdit?: unknown }>;
+}): number {
+  const refundedOnEdits = order.refunds
+    .filter((r) => r.status === 'completed' && r.orderEdit)
+    .reduce((sum, r) => sum + Number(r.amount), 0);
+  return Number(order.totalAmount) - Number(order.balanceDue ?? 0) + refundedOnEdits;
+}
+
 /**
  * Initiate a refund for an order
  */
@@ -48,7 +67,7 @@ export async function initiateRefund(
             variant: true,
           },
         },
-        refunds: true,
+        refunds: REFUNDS_WITH_EDITS,
       },
     });
 
@@ -66,7 +85,7 @@ export async function initiateRefund(
       .reduce((sum, r) => sum + Number(r.amount), 0);
 
     const requestedAmount = Number(amount);
-    const orderTotal = Number(order.totalAmount);
+    const orderTotal = chargedTotal(order);
 
     if (totalRefunded + requestedAmount > orderTotal) {
       return {
@@ -179,23 +198,28 @@ export async function processRefund(refundId: string): Promise<boolean> {
         }
         break;
       case 'telebirr':
-        // TeleBirr refund API - placeholder for Ethiopian provider integration
-        // In production, call actual TeleBirr API endpoint
-        success = await processTeleBirrRefund(refund);
-        providerRefundId = `TBR-${Date.now()}`;
-        break;
       case 'cbe':
-        // CBE refund API - placeholder for Ethiopian provider integration
-        // In production, call actual CBE Bank API endpoint
-        success = await processCBERefund(refund);
-        providerRefundId = `CBE-${Date.now()}`;
-        break;
-      case 'awash':
-        // Awash Bank refund API - placeholder for Ethiopian provider integration
-        // In production, call actual Awash Bank API endpoint
-        success = await processAwashRefund(refund);
-        providerRefundId = `AWB-${Date.now()}`;
+      case 'awash': {
+        const adapter = getPaymentProvider(provider);
+        if (adapter?.isConfigured() && refund.order.paymentReference) {
+          const result = await adapter.refund({
+            reference: refund.order.paymentReference,
+            amount: Number(refund.amount),
+            reason: refund.reason || undefined,
+            refundReference: refund.id,
+          });
+          success = result.success;
+          providerRefundId = result.providerRefundId || null;
+          if (!result.success) {
+            console.error(`${adapter.displayName} refund error:`, result.error);
+          }
+        } else {
+          // Provider not configured or no provider reference - refund manually
+          success = true;
+          providerRefundId = 'MANUAL';
+        }
         break;
+      }
       case 'cod':
         // Cash refunds are manual
         success = true;
@@ -220,9 +244,11 @@ export async function processRefund(refundId: string): Promise<boolean> {
 
     // Update order status if fully refunded
     if (success) {
+      await postRefund(refundId).catch((err) => console.error('Error posting refund journal:', err));
+
       const order = await prisma.order.findUnique({
         where: { id: refund.orderId },
-        include: { refunds: true },
+        include: { refunds: REFUNDS_WITH_EDITS },
       });
 
       if (order) {
@@ -230,7 +256,7 @@ export async function processRefund(refundId: string): Promise<boolean> {
           .filter((r) => r.status === 'completed')
           .reduce((sum, r) => sum + Number(r.amount), 0);
 
-        if (totalRefunded >= Number(order.totalAmount)) {
+        if (totalRefunded >= chargedTotal(order)) {
           await prisma.order.update({
             where: { id: refund.orderId },
             data: {
@@ -284,7 +310,7 @@ export async function getOrderRefunds(orderId: string) {
 export async function getRefundableAmount(orderId: string): Promise<number> {
   const order = await prisma.order.findUnique({
     where: { id: orderId },
-    include: { refunds: true },
+    include: { refunds: REFUNDS_WITH_EDITS },
   });
 
   if (!order) {
@@ -295,109 +321,6 @@ export async function getRefundableAmount(orderId: string): Promise<number> {
     .filter((r) => r.status === 'completed')
     .reduce((sum, r) => sum + Number(r.amount), 0);
 
-  const orderTotal = Number(order.totalAmount);
+  const orderTotal = chargedTotal(order);
   return Math.max(0, orderTotal - totalRefunded);
 }
-
-/**
- * Process TeleBirr refund
- * Ethiopian mobile payment refund integration
- */
-async function processTeleBirrRefund(
-  refund: { amount: Prisma.Decimal; orderId: string; order: { paymentReference?: string | null } }
-): Promise<boolean> {
-  // Placeholder for TeleBirr API integration
-  // In production, implement actual API call:
-  // 
-  // const response = await fetch('https://api.telebirr.et/v1/refunds', {
-  //   method: 'POST',
-  //   headers: {
-  //     'Authorization': `Bearer ${process.env.TELEBIRR_API_KEY}`,
-  //     'Content-Type': 'application/json',
-  //   },
-  //   body: JSON.stringify({
-  //     payment_reference: refund.order.paymentReference,
-  //     amount: Number(refund.amount),
-  //     currency: 'ETB',
-  //   }),
-  // });
-  // return response.ok;
-
-  console.log('TeleBirr refund:', {
-    amount: Number(refund.amount),
-    orderId: refund.orderId,
-    reference: refund.order.paymentReference,
-  });
-  
-  // Return true for development/testing
-  // In production, this should return the actual API response status
-  return true;
-}
-
-/**
- * Process CBE (Commercial Bank of Ethiopia) refund
- */
-async function processCBERefund(
-  refund: { amount: Prisma.Decimal; orderId: string; order: { paymentReference?: string | null } }
-): Promise<boolean> {
-  // Placeholder for CBE Bank API integration
-  // In production, implement actual API call:
-  //
-  // const response = await fetch('https://api.cbe.et/payments/refund', {
-  //   method: 'POST',
-  //   headers: {
-  //     'Authorization': `Bearer ${process.env.CBE_API_KEY}`,
-  //     'Content-Type': 'application/json',
-  //   },
-  //   body: JSON.stringify({
-  //     transaction_id: refund.order.paymentReference,
-  //     amount: Number(refund.amount),
-  //     currency: 'ETB',
-  //   }),
-  // });
-  // return response.ok;
-
-  console.log('CBE refund:', {
-    amount: Number(refund.amount),
-    orderId: refund.orderId,
-    reference: refund.order.paymentReference,
-  });
-  
-  // Return true for development/testing
-  // In production, this should return the actual API response status
-  return true;
-}
-
-/**
- * Process Awash Bank refund
- */
-async function processAwashRefund(
-  refund: { amount: Prisma.Decimal; orderId: string; order: { paymentReference?: string | null } }
-): Promise<boolean> {
-  // Placeholder for Awash Bank API integration
-  // In production, implement actual API call:
-  //
-  // const response = await fetch('https://api.awashbank.com/refunds', {
-  //   method: 'POST',
-  //   headers: {
-  //     'Authorization': `Bearer ${process.env.AWASH_API_KEY}`,
-  //     'Content-Type': 'application/json',
-  //   },
-  //   body: JSON.stringify({
-  //     payment_reference: refund.order.paymentReference,
-  //     refund_amount: Number(refund.amount),
-  //     currency: 'ETB',
-  //   }),
-  // });
-  // return response.ok;
-
-  console.log('Awash Bank refund:', {
-    amount: Number(refund.amount),
-    orderId: refund.orderId,
-    reference: refund.order.paymentReference,
-  });
-  
-  // Return true for development/testing
-  // In production, this should return the actual API response status
-  return true;
-}
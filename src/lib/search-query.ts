@@ -0,0 +1,294 @@
+/**
+ * Search Query Processing
+ *
+ * Turns what a shopper typed into the terms the product search matches:
+ * Ge'ez-script normalization for Amharic and Tigrinya, Latin
+ * transliteration ("buna" finds ቡና), a synonym dictionary and the
+ * PostgreSQL tsquery built from all of them.
+ *
+ * normalizeGeez must stay in step with the normalize_geez() SQL function
+ * that builds products.search_vector.
+ */
+
+/**
+ * Ge'ez letters that are pronounced the same in modern Amharic and are
+ * spelled either way (ሐ/ኀ/ሀ, ሠ/ሰ, ዐ/አ, ፀ/ጸ). Each family has seven
+ * vowel orders at consecutive code points.
+ */
+const HOMOPHONE_FAMILIES: Array<[from: number, to: number]> = [
+  [0x1210, 0x1200], // ሐ → ሀ
+  [0x1280, 0x1200], // ኀ → ሀ
+  [0x1220, 0x1230], // ሠ → ሰ
+  [0x12d0, 0x12a0], // ዐ → አ
+  [0x1340, 0x1338], // ፀ → ጸ
+];
+
+/** Ethiopic word space and punctuation (፡ ። ፣ ፤ ፥ ፦ ፧ ፨) */
+const ETHIOPIC_PUNCTUATION = /[፡-፨]/g;
+
+const GEEZ_FOLDS: Map<string, string> = (() => {
+  const folds = new Map<string, string>();
+  for (const [from, to] of HOMOPHONE_FAMILIES) {
+    for (let order = 0; order < 7; order++) {
+      folds.set(String.fromCodePoint(from + order), String.fromCodePoint(to + order));
+    }
+  }
+  // ኣ is the common alternative spelling of አ
+  folds.set('ኣ', 'አ');
+  folds.set('ዓ', 'አ');
+  return folds;
+})();
+
+/**
+ * Lower-case, fold homophone letters to one spelling and turn Ethiopic
+ * punctuation into spaces
+ */
+export function normalizeGeez(text: string): string {
+  let folded = '';
+  for (const char of text.toLowerCase()) {
+    folded += GEEZ_FOLDS.get(char) ?? char;
+  }
+  return folded.replace(ETHIOPIC_PUNCTUATION, ' ');
+}
+
+/**
+ * First code point of each consonant's seven vowel orders, keyed by its
+ * usual Latin spelling. Longer spellings are matched first.
+ */
+const GEEZ_CONSONANTS: Record<string, number> = {
+  sh: 0x1238, // ሸ
+  ch: 0x1278, // ቸ
+  ts: 0x1338, // ጸ
+  zh: 0x12e0, // ዠ
+  gn: 0x1298, // ኘ
+  ny: 0x1298, // ኘ
+  kh: 0x12b8, // ኸ
+  h: 0x1200, // ሀ
+  l: 0x1208, // ለ
+  m: 0x1218, // መ
+  r: 0x1228, // ረ
+  s: 0x1230, // ሰ
+  q: 0x1240, // ቀ
+  b: 0x1260, // በ
+  v: 0x1268, // ቨ
+  t: 0x1270, // ተ
+  n: 0x1290, // ነ
+  k: 0x12a8, // ከ
+  c: 0x12a8, // ከ
+  w: 0x12c8, // ወ
+  z: 0x12d8, // ዘ
+  y: 0x12e8, // የ
+  d: 0x12f0, // ደ
+  j: 0x1300, // ጀ
+  g: 0x1308, // ገ
+  f: 0x1348, // ፈ
+  p: 0x1350, // ፐ
+};
+
+const CONSONANT_SPELLINGS = Object.keys(GEEZ_CONSONANTS).sort((a, b) => b.length - a.length);
+
+/** Vowel spellings and the vowel order they select (0 = ä … 6 = o) */
+const VOWEL_ORDERS: Array<[spelling: string, order: number]> = [
+  ['ie', 4],
+  ['ee', 2],
+  ['oo', 1],
+  ['a', 3],
+  ['e', 0],
+  ['u', 1],
+  ['i', 2],
+  ['o', 6],
+];
+
+/** Vowels with no consonant before them are written on the አ carrier */
+const VOWEL_CARRIER = 0x12a0;
+const CARRIER_ORDERS: Record<number, number> = { 0: 5, 1: 1, 2: 2, 3: 0, 4: 4, 6: 6 };
+const SIXTH_ORDER = 5;
+
+function readVowel(word: string, at: number): [order: number, length: number] | null {
+  for (const [spelling, order] of VOWEL_ORDERS) {
+    if (word.startsWith(spelling, at)) return [order, spelling.length];
+  }
+  return null;
+}
+
+/**
+ * Spell a Latin transliteration of an Amharic word in Ge'ez script, e.g.
+ * "buna" → ቡና, "shai" → ሻይ. Transliteration is loose, so the result is a
+ * best guess for the trigram match rather than an exact spelling. Returns
+ * null when the word is not plain Latin letters.
+ */
+export function transliterateToGeez(word: string): string | null {
+  const latin = word.toLowerCase();
+  if (!/^[a-z]+$/.test(latin)) {
+    return null;
+  }
+
+  let geez = '';
+  let at = 0;
+  let previousWasVowel = false;
+
+  while (at < latin.length) {
+    const consonant = CONSONANT_SPELLINGS.find((spelling) => latin.startsWith(spelling, at));
+    if (consonant) {
+      at += consonant.length;
+      // Doubled consonants (gemination) are written once
+      if (latin.startsWith(consonant, at)) at += consonant.length;
+
+      const vowel = readVowel(latin, at);
+      geez += String.fromCodePoint(GEEZ_CONSONANTS[consonant] + (vowel ? vowel[0] : SIXTH_ORDER));
+      if (vowel) at += vowel[1];
+      previousWasVowel = !!vowel;
+      continue;
+    }
+
+    const vowel = readVowel(latin, at);
+    if (vowel) {
+      const [order, length] = vowel;
+      if (previousWasVowel && (order === 2 || order === 1)) {
+        // A glide after a vowel: "shai" → ሻይ, "dabou" → ዳቦው
+        geez += String.fromCodePoint((order === 2 ? GEEZ_CONSONANTS.y : GEEZ_CONSONANTS.w) + SIXTH_ORDER);
+      } else {
+        geez += String.fromCodePoint(VOWEL_CARRIER + CARRIER_ORDERS[order]);
+      }
+      at += length;
+      previousWasVowel = true;
+      continue;
+    }
+
+    // Letters with no Ge'ez counterpart (x)
+    at += 1;
+  }
+
+  return geez || null;
+}
+
+/**
+ * Words shoppers use for the same thing, in English, Amharic and common
+ * transliterations. Every word in a group finds the others.
+ */
+export const SEARCH_SYNONYMS: readonly string[][] = [
+  ['phone', 'mobile', 'smartphone', 'cellphone', 'ስልክ', 'moba'],
+  ['laptop', 'notebook', 'computer', 'ኮምፒውተር', 'ላፕቶፕ'],
+  ['tv', 'television', 'ቴሌቪዥን'],
+  ['coffee', 'buna', 'ቡና'],
+  ['tea', 'shai', 'ሻይ'],
+  ['teff', 'tef', 'ጤፍ'],
+  ['injera', 'enjera', 'እንጀራ'],
+  ['honey', 'mar', 'ማር'],
+  ['butter', 'kibe', 'ቅቤ'],
+  ['pepper', 'berbere', 'በርበሬ'],
+  ['spice', 'kimem', 'ቅመም'],
+  ['bread', 'dabo', 'ዳቦ'],
+  ['shoe', 'shoes', 'chama', 'ጫማ'],
+  ['dress', 'kemis', 'ቀሚስ'],
+  ['traditional dress', 'habesha kemis', 'የሀበሻ ቀሚስ'],
+  ['shirt', 'shemiz', 'ሸሚዝ'],
+  ['scarf', 'netela', 'ነጠላ'],
+  ['jebena', 'coffee pot', 'ጀበና'],
+  ['mesob', 'basket', 'መሶብ'],
+  ['book', 'metshaf', 'መጽሐፍ'],
+  ['bag', 'borsa', 'ቦርሳ'],
+  ['watch', 'seat', 'ሰዓት'],
+];
+
+const SYNONYM_INDEX: Map<string, string[]> = (() => {
+  const index = new Map<string, string[]>();
+  for (const group of SEARCH_SYNONYMS) {
+    const normalized = group.map(normalizeGeez);
+    for (const word of normalized) {
+      index.set(word, normalized.filter((other) => other !== word));
+    }
+  }
+  return index;
+})();
+
+export function getSynonyms(term: string): string[] {
+  return SYNONYM_INDEX.get(normalizeGeez(term.trim())) ?? [];
+}
+
+export interface ExpandedSearchQuery {
+  /** Normalized query as typed */
+  normalized: string;
+  /** Each word of the query with the alternatives that also match it */
+  tokens: Array<{ token: string; alternatives: string[] }>;
+  /** to_tsquery('simple', …) input, or null when nothing searchable is left */
+  tsQuery: string | null;
+  /** Strings compared by trigram similarity against names and brands */
+  similarityTerms: string[];
+}
+
+/** Words shorter than this are matched exactly, longer ones also as prefixes */
+const MIN_PREFIX_LENGTH = 3;
+const MAX_SIMILARITY_TERMS = 8;
+
+function tokenize(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/** A lexeme or phrase in tsquery syntax; words are already stripped of operators */
+function toTsQueryTerm(text: string): string | null {
+  const words = tokenize(text);
+  if (words.length === 0) return null;
+  const lexemes = words.map((word, i) =>
+    i === words.length - 1 && word.length >= MIN_PREFIX_LENGTH ? `${word}:*` : word
+  );
+  return lexemes.length === 1 ? lexemes[0] : `(${lexemes.join(' <-> ')})`;
+}
+
+/**
+ * Expand a shopper's query into everything it should match: the words as
+ * typed (normalized), their synonyms and, for Latin words, a Ge'ez spelling.
+ * extraSynonyms (from an admin search rule) are alternatives for the whole query.
+ */
+export function expandSearchQuery(query: string, extraSynonyms: string[] = []): ExpandedSearchQuery {
+  const normalized = normalizeGeez(query).replace(/\s+/g, ' ').trim();
+  const words = tokenize(normalized);
+
+  const tokens = words.map((token) => {
+    const alternatives = new Set<string>(getSynonyms(token));
+    const geez = transliterateToGeez(token);
+    if (geez) alternatives.add(normalizeGeez(geez));
+    alternatives.delete(token);
+    return { token, alternatives: [...alternatives] };
+  });
+
+  const clauses = tokens
+    .map(({ token, alternatives }) => {
+      const terms = [token, ...alternatives].map(toTsQueryTerm).filter(Boolean);
+      return terms.length > 1 ? `(${terms.join(' | ')})` : terms[0];
+    })
+    .filter(Boolean);
+
+  // Whole-query synonyms cover multi-word entries like "coffee pot"
+  const phraseSynonyms = [
+    ...new Set([
+      ...(words.length > 1 ? getSynonyms(words.join(' ')) : []),
+      ...extraSynonyms.map((synonym) => normalizeGeez(synonym).replace(/\s+/g, ' ').trim()),
+    ]),
+  ].filter((synonym) => synonym && synonym !== words.join(' '));
+  let tsQuery = clauses.length > 0 ? clauses.join(' & ') : null;
+  if (tsQuery && phraseSynonyms.length > 0) {
+    const phrases = phraseSynonyms.map(toTsQueryTerm).filter(Boolean);
+    tsQuery = [clauses.length > 1 ? `(${tsQuery})` : tsQuery, ...phrases].join(' | ');
+  }
+
+  const similarityTerms = new Set<string>();
+  if (words.length > 0) {
+    similarityTerms.add(words.join(' '));
+    const geezPhrase = words.map((word) => transliterateToGeez(word)).filter(Boolean);
+    if (geezPhrase.length === words.length) {
+      similarityTerms.add(normalizeGeez(geezPhrase.join(' ')));
+    }
+    phraseSynonyms.forEach((synonym) => similarityTerms.add(synonym));
+    if (tokens.length === 1) {
+      tokens[0].alternatives.forEach((alternative) => similarityTerms.add(alternative));
+    }
+  }
+
+  return {
+    normalized,
+    tokens,
+    tsQuery,
+    similarityTerms: [...similarityTerms].slice(0, MAX_SIMILARITY_TERMS),
+  };
+}
@@ -1,12 +1,22 @@
 /**
  * Full-Text Search Utilities
  * 
- * Implements PostgreSQL trigram-based search for products.
+ * Ranks products with PostgreSQL full-text search over the generated
+ * products.search_vector column plus pg_trgm similarity on names and brands,
+ * so misspellings still match. Queries are expanded with synonyms and
+ * Ge'ez transliterations first (see search-query.ts).
  */
 
 import prisma from './prisma';
 import { Prisma } from '@prisma/client';
 import { getOrSetCache } from './cache';
+import { expandSearchQuery } from './search-query';
+import {
+  getCategoryAttributes,
+  normalizeAttributeKey,
+  type CategoryAttributeType,
+} from '@/services/CategoryAttributeService';
+import { getSearchRule, type SearchRuleMatch } from '@/services/SearchAnalyticsService';
 
 // Cache configuration for search
 const SEARCH_CACHE_PREFIX = 'search';
@@ -15,6 +25,24 @@ const SUGGESTIONS_STALE_TIME = 300; // 5 minutes
 const FACETS_TTL = 180; // 3 minutes
 const FACETS_STALE_TIME = 360; // 6 minutes
 
+/**
+ * How much each signal adds to a product's relevance score. Text weights
+ * are the ts_rank weights for descriptions (C), brand (B) and name (A).
+ */
+export const SEARCH_BOOSTS = {
+  text: 1.0,
+  textWeights: { description: 0.1, brand: 0.4, name: 1.0 },
+  nameSimilarity: 0.6,
+  brandSimilarity: 0.3,
+};
+
+/** Ranked candidates per query; a search never counts more matches than this */
+const MAX_RANKED_MATCHES = 1000;
+
+/** Query parameter prefix for attribute filters: attr.storage=64GB,128GB */
+export const ATTRIBUTE_FILTER_PREFIX = 'attr.';
+const MAX_FACET_VALUES = 50;
+
 export interface SearchFilters {
   query?: string;
   categoryId?: string;
@@ -29,6 +57,11 @@ export interface SearchFilters {
   inStock?: boolean;
   verified?: boolean;
   isFeatured?: boolean;
+  /**
+   * Attribute key to accepted values. A product matches when it, or one of
+   * its variants, has one of the values for every key.
+   */
+  attributes?: Record<string, string[]>;
 }
 
 export interface SearchSort {
@@ -43,7 +76,25 @@ export interface SearchOptions {
   perPage?: number;
 }
 
+export interface RankedMatch {
+  id: string;
+  name: string;
+  score: number;
+}
+
+export interface AttributeFacet {
+  key: string;
+  label: string;
+  type: CategoryAttributeType;
+  unit: string | null;
+  values: Array<{ value: string; count: number; selected: boolean }>;
+}
+
 export interface SearchResult {
+  /**
+   * Each product carries a relevanceScore, and pinned when an admin rule
+   * pins it to the top, when the search had a query
+   */
   products: any[];
   pagination: {
     page: number;
@@ -54,41 +105,185 @@ export interface SearchResult {
     hasPrevPage: boolean;
   };
   filters: SearchFilters;
+  /** Admin rule that applied to the query */
+  searchRuleId?: string;
+  /** Where a redirect rule sends this query; no products are returned */
+  redirect?: string;
 }
 
 /**
- * Build where clause for product search with full-text support
+ * Find active products matching a free-text query, best first.
+ *
+ * A product matches when its search vector matches the expanded tsquery or
+ * a query term is trigram-similar to its name or brand. The score adds the
+ * weighted full-text rank to the best name and brand similarities.
  */
-function buildWhereClause(filters: SearchFilters): Prisma.ProductWhereInput {
+export async function rankProductMatches(
+  query: string,
+  limit: number = MAX_RANKED_MATCHES,
+  synonyms: string[] = []
+): Promise<RankedMatch[]> {
+  const expanded = expandSearchQuery(query, synonyms);
+  if (expanded.similarityTerms.length === 0) {
+    return [];
+  }
+
+  const { text, textWeights, nameSimilarity, brandSimilarity } = SEARCH_BOOSTS;
+  // ts_rank takes weights in {D, C, B, A} order; D is unused
+  const weights = [0, textWeights.description, textWeights.brand, textWeights.name];
+  const terms = expanded.similarityTerms;
+  const tsQuery = expanded.tsQuery;
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; name: string; score: number }>>`
+    WITH terms AS (SELECT unnest(${terms}::text[]) AS term)
+    SELECT p.id, p.name, (
+      ${text}::float8 * coalesce(
+        ts_rank(${weights}::float4[], p.search_vector, to_tsquery('simple', ${tsQuery}), 1), 0
+      )
+      + ${nameSimilarity}::float8 * coalesce(
+        (SELECT max(word_similarity(t.term, normalize_geez(p.name))) FROM terms t), 0
+      )
+      + ${brandSimilarity}::float8 * coalesce(
+        (SELECT max(similarity(t.term, normalize_geez(p.brand))) FROM terms t), 0
+      )
+    )::float8 AS score
+    FROM products p
+    WHERE p.is_active
+      AND (
+        p.search_vector @@ to_tsquery('simple', ${tsQuery})
+        OR EXISTS (SELECT 1 FROM terms t WHERE t.term <% normalize_geez(p.name))
+        OR EXISTS (SELECT 1 FROM terms t WHERE t.term % normalize_geez(p.brand))
+      )
+    ORDER BY score DESC, p.view_count DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    score: Math.round(Number(row.score) * 10000) / 10000,
+  }));
+}
+
+/**
+ * Read attribute filters from attr.<key> query parameters. Values may be
+ * repeated (attr.color=black&attr.color=white) or comma-separated.
+ */
+export function parseAttributeFilters(searchParams: URLSearchParams): Record<string, string[]> | undefined {
+  const attributes: Record<string, string[]> = {};
+  searchParams.forEach((value, name) => {
+    if (!name.startsWith(ATTRIBUTE_FILTER_PREFIX)) return;
+    const key = normalizeAttributeKey(name.slice(ATTRIBUTE_FILTER_PREFIX.length));
+    const values = value.split(',').map((v) => v.trim()).filter(Boolean);
+    if (!key || values.length === 0) return;
+    attributes[key] = [...new Set([...(attributes[key] ?? []), ...values])];
+  });
+  return Object.keys(attributes).length > 0 ? attributes : undefined;
+}
+
+/**
+ * Lower-case keys and values the way product_attribute_values stores them,
+ * dropping keys with nothing selected
+ */
+function normalizeAttributeFilters(
+  attributes?: Record<string, string[]>
+): Record<string, string[]> | null {
+  if (!attributes) return null;
+  const normalized: Record<string, string[]> = {};
+  for (const [key, values] of Object.entries(attributes)) {
+    const wanted = (values ?? []).map((value) => String(value).trim().toLowerCase()).filter(Boolean);
+    if (wanted.length > 0) {
+      normalized[normalizeAttributeKey(key)] = [...new Set(wanted)];
+    }
+  }
+  return Object.keys(normalized).length > 0 ? normalized : null;
+}
+
+/**
+ * Active products with a matching value for every filtered attribute.
+ * Product specifications apply to all of its variants, so a product
+ * matches when the product itself or one variant (with the product's
+ * specifications) satisfies every key. Limited to candidateIds if given.
+ */
+async function findProductsWithAttributes(
+  attributes: Record<string, string[]>,
+  candidateIds?: string[]
+): Promise<string[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT p.id
+    FROM products p
+    WHERE p.is_active
+      AND (${candidateIds ?? null}::uuid[] IS NULL OR p.id = ANY(${candidateIds ?? null}::uuid[]))
+      AND EXISTS (
+        SELECT 1
+        FROM (
+          SELECT NULL::uuid AS id
+          UNION ALL
+          SELECT v.id FROM product_variants v WHERE v.product_id = p.id AND v.is_active
+        ) sku
+        WHERE NOT EXISTS (
+          SELECT 1 FROM jsonb_each(${JSON.stringify(attributes)}::jsonb) f
+          WHERE NOT EXISTS (
+            SELECT 1 FROM product_attribute_values pav
+            WHERE pav.product_id = p.id
+              AND (pav.variant_id IS NULL OR pav.variant_id = sku.id)
+              AND pav.key = f.key
+              AND pav.value IN (SELECT jsonb_array_elements_text(f.value))
+          )
+        )
+      )
+  `;
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Apply the query and attribute filters, which need raw SQL, up front.
+ * ids is undefined when neither is set, so every product is a candidate.
+ * A search rule adds its synonyms to the query and puts its pinned
+ * products first, matched or not.
+ */
+async function matchProducts(
+  filters: SearchFilters,
+  rule: SearchRuleMatch | null = null
+): Promise<{ scores: Map<string, number> | null; ids: string[] | undefined }> {
+  let scores: Map<string, number> | null = null;
+  let ids: string[] | undefined;
+
+  if (filters.query && filters.query.trim()) {
+    const matches = await rankProductMatches(filters.query, MAX_RANKED_MATCHES, rule?.synonyms);
+    scores = new Map();
+    const ranked = new Map(matches.map((match) => [match.id, match.score]));
+    for (const id of rule?.pinnedProductIds ?? []) {
+      scores.set(id, ranked.get(id) ?? 0);
+    }
+    for (const [id, score] of ranked) {
+      if (!scores.has(id)) scores.set(id, score);
+    }
+    ids = [...scores.keys()];
+  }
+
+  const attributes = normalizeAttributeFilters(filters.attributes);
+  if (attributes && (!ids || ids.length > 0)) {
+    ids = await findProductsWithAttributes(attributes, ids);
+  }
+
+  return { scores, ids };
+}
+
+/**
+ * Build where clause for product search. A query is applied by limiting
+ * the results to the ids rankProductMatches returned for it.
+ */
+function buildWhereClause(
+  filters: SearchFilters,
+  matchedIds?: string[]
+): Prisma.ProductWhereInput {
   const where: Prisma.ProductWhereInput = {
     isActive: true,
   };
 
-  // Full-text search using trigram similarity
-  if (filters.query && filters.query.trim()) {
-    const query = filters.query.trim();
-    
-    // Use raw SQL for trigram search
-    where.OR = [
-      {
-        name: {
-          contains: query,
-          mode: 'insensitive',
-        },
-      },
-      {
-        description: {
-          contains: query,
-          mode: 'insensitive',
-        },
-      },
-      {
-        shortDescription: {
-          contains: query,
-          mode: 'insensitive',
-        },
-      },
-    ];
+  if (matchedIds) {
+    where.id = { in: matchedIds };
   }
 
   // Category filter
@@ -166,21 +361,13 @@ function buildWhereClause(filters: SearchFilters): Prisma.ProductWhereInput {
 }
 
 /**
- * Build order by clause for sorting
+ * Build order by clause for sorting. Relevance with a query is ordered by
+ * score in searchProducts instead.
  */
 function buildOrderByClause(
-  sort?: SearchSort,
-  hasQuery?: boolean
+  sort?: SearchSort
 ): Prisma.ProductOrderByWithRelationInput | Prisma.ProductOrderByWithRelationInput[] {
   if (!sort || sort.field === 'relevance') {
-    // For relevance, prioritize featured products and view count
-    if (hasQuery) {
-      return [
-        { isFeatured: 'desc' },
-        { viewCount: 'desc' },
-        { ratingAverage: 'desc' },
-      ];
-    }
     return { createdAt: 'desc' };
   }
 
@@ -198,6 +385,37 @@ function buildOrderByClause(
   }
 }
 
+/** Relations returned with every search hit */
+const SEARCH_RESULT_INCLUDE = {
+  vendor: {
+    select: {
+      id: true,
+      displayName: true,
+      vendorStatus: true,
+      city: true,
+    },
+  },
+  category: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  },
+  media: {
+    select: {
+      id: true,
+      url: true,
+      altText: true,
+      optimizedVersions: true,
+      sortOrder: true,
+    },
+    orderBy: {
+      sortOrder: 'asc',
+    },
+  },
+} satisfies Prisma.ProductInclude;
+
 /**
  * Search products with full-text search and faceted filtering
  */
@@ -209,49 +427,63 @@ export async function searchProducts(options: SearchOptions): Promise<SearchResu
     perPage = 20,
   } = options;
 
-  const where = buildWhereClause(filters);
-  const orderBy = buildOrderByClause(sort, !!filters.query);
   const skip = (page - 1) * perPage;
 
-  // Execute search
-  const [products, totalCount] = await Promise.all([
-    prisma.product.findMany({
-      where,
-      include: {
-        vendor: {
-          select: {
-            id: true,
-            displayName: true,
-            vendorStatus: true,
-            city: true,
-          },
-        },
-        category: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-          },
-        },
-        media: {
-          select: {
-            id: true,
-            url: true,
-            altText: true,
-            optimizedVersions: true,
-            sortOrder: true,
-          },
-          orderBy: {
-            sortOrder: 'asc',
-          },
-        },
-      },
-      orderBy,
-      skip,
-      take: perPage,
-    }),
-    prisma.product.count({ where }),
-  ]);
+  const hasQuery = !!(filters.query && filters.query.trim());
+  const rule = hasQuery ? await getSearchRule(filters.query) : null;
+  if (rule?.redirectUrl) {
+    return {
+      products: [],
+      pagination: { page, perPage, totalCount: 0, totalPages: 0, hasNextPage: false, hasPrevPage: false },
+      filters,
+      searchRuleId: rule.id,
+      redirect: rule.redirectUrl,
+    };
+  }
+
+  const { scores, ids } = await matchProducts(filters, rule);
+  const where = buildWhereClause(filters, ids);
+  let products: any[];
+  let totalCount: number;
+
+  if (ids && ids.length === 0) {
+    products = [];
+    totalCount = 0;
+  } else if (scores && (!sort || sort.field === 'relevance')) {
+    // Keep the ranked order, dropping matches the other filters exclude
+    const allowed = await prisma.product.findMany({ where, select: { id: true } });
+    const allowedIds = new Set(allowed.map((product) => product.id));
+    const rankedIds = [...scores.keys()].filter((id) => allowedIds.has(id));
+    const pageIds = rankedIds.slice(skip, skip + perPage);
+
+    const pageProducts = await prisma.product.findMany({
+      where: { id: { in: pageIds } },
+      include: SEARCH_RESULT_INCLUDE,
+    });
+    const byId = new Map(pageProducts.map((product) => [product.id, product]));
+    products = pageIds.map((id) => byId.get(id)).filter(Boolean);
+    totalCount = rankedIds.length;
+  } else {
+    [products, totalCount] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        include: SEARCH_RESULT_INCLUDE,
+        orderBy: buildOrderByClause(sort),
+        skip,
+        take: perPage,
+      }),
+      prisma.product.count({ where }),
+    ]);
+  }
+
+  if (scores) {
+    const pinned = new Set(rule?.pinnedProductIds ?? []);
+    products = products.map((product) => ({
+      ...product,
+      relevanceScore: scores.get(product.id) ?? 0,
+      pinned: pinned.has(product.id),
+    }));
+  }
 
   // Calculate pagination
   const totalPages = Math.ceil(totalCount / perPage);
@@ -269,9 +501,112 @@ export async function searchProducts(options: SearchOptions): Promise<SearchResu
       hasPrevPage,
     },
     filters,
+    ...(rule && { searchRuleId: rule.id }),
   };
 }
 
+/**
+ * Products per value of the given attributes among the given products
+ */
+async function countAttributeValues(keys: string[], productIds: string[]) {
+  return prisma.$queryRaw<Array<{ key: string; value: string; label: string; count: number }>>`
+    SELECT pav.key, pav.value, min(pav.display_value) AS label, count(DISTINCT pav.product_id)::int AS count
+    FROM product_attribute_values pav
+    WHERE pav.product_id = ANY(${productIds}::uuid[])
+      AND pav.key = ANY(${keys}::text[])
+    GROUP BY pav.key, pav.value
+  `;
+}
+
+/**
+ * Numbers ascend (16, 64, 128); other values go most common first
+ */
+function sortFacetValues<T extends { value: string; label: string; count: number }>(
+  type: CategoryAttributeType,
+  values: T[]
+): T[] {
+  if (type === 'number') {
+    const numeric = (value: string) => {
+      const parsed = parseFloat(value);
+      return isNaN(parsed) ? Infinity : parsed;
+    };
+    return [...values].sort((a, b) => numeric(a.value) - numeric(b.value) || a.label.localeCompare(b.label));
+  }
+  return [...values].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+/**
+ * Value counts for the filterable attributes of the filtered category.
+ * Each attribute is counted with every filter applied except its own, so
+ * after picking "black" buyers still see how many come in white.
+ */
+async function getAttributeFacets(
+  filters: SearchFilters,
+  scores: Map<string, number> | null
+): Promise<AttributeFacet[]> {
+  let categoryId = filters.categoryId;
+  if (!categoryId && filters.categorySlug) {
+    const category = await prisma.category.findUnique({
+      where: { slug: filters.categorySlug },
+      select: { id: true },
+    });
+    categoryId = category?.id;
+  }
+  if (!categoryId) return [];
+
+  const schemas = await getCategoryAttributes(categoryId, { filterableOnly: true });
+  if (schemas.length === 0) return [];
+
+  const selected = normalizeAttributeFilters(filters.attributes) ?? {};
+  const baseProducts = await prisma.product.findMany({
+    where: buildWhereClause(filters, scores ? [...scores.keys()] : undefined),
+    select: { id: true },
+  });
+  const baseIds = baseProducts.map((product) => product.id);
+
+  const withFilters = async (attributes: Record<string, string[]>) =>
+    Object.keys(attributes).length > 0 && baseIds.length > 0
+      ? findProductsWithAttributes(attributes, baseIds)
+      : baseIds;
+
+  // Attributes with nothing selected all share the fully filtered set
+  const groups: Array<{ keys: string[]; ids: string[] }> = [];
+  const unselected = schemas.map((schema) => schema.key).filter((key) => !selected[key]);
+  if (unselected.length > 0) {
+    groups.push({ keys: unselected, ids: await withFilters(selected) });
+  }
+  for (const key of Object.keys(selected)) {
+    if (!schemas.some((schema) => schema.key === key)) continue;
+    const others = Object.fromEntries(Object.entries(selected).filter(([other]) => other !== key));
+    groups.push({ keys: [key], ids: await withFilters(others) });
+  }
+
+  const countsByKey = new Map<string, Array<{ value: string; label: string; count: number }>>();
+  for (const group of groups) {
+    if (group.ids.length === 0) continue;
+    const rows = await countAttributeValues(group.keys, group.ids);
+    for (const row of rows) {
+      const values = countsByKey.get(row.key) ?? [];
+      values.push({ value: row.value, label: row.label, count: Number(row.count) });
+      countsByKey.set(row.key, values);
+    }
+  }
+
+  return schemas.map((schema) => ({
+    key: schema.key,
+    label: schema.label,
+    type: schema.type,
+    unit: schema.unit,
+    values: sortFacetValues(schema.type, countsByKey.get(schema.key) ?? [])
+      .slice(0, MAX_FACET_VALUES)
+      .map((entry) => ({
+        value: entry.label,
+        count: entry.count,
+        selected: selected[schema.key]?.includes(entry.value) ?? false,
+      })),
+  }));
+}
+
 /**
  * Get search facets (aggregations for filters) with caching
  */
@@ -282,12 +617,15 @@ export async function getSearchFacets(filters: SearchFilters) {
   return await getOrSetCache(
     cacheKey,
     async () => {
-      const where = buildWhereClause(filters);
+      const rule = filters.query && filters.query.trim() ? await getSearchRule(filters.query) : null;
+      const { scores, ids } = await matchProducts(filters, rule);
+      const where = buildWhereClause(filters, ids);
 
       const [
         priceRange,
         categoryFacets,
         ratingFacets,
+        attributeFacets,
       ] = await Promise.all([
         // Get price range
         prisma.product.aggregate({
@@ -309,6 +647,9 @@ export async function getSearchFacets(filters: SearchFilters) {
           by: ['ratingAverage'],
           _count: true,
         }),
+
+        // Get value counts for the category's attributes
+        getAttributeFacets(filters, scores),
       ]);
 
       return {
@@ -318,6 +659,7 @@ export async function getSearchFacets(filters: SearchFilters) {
         },
         categories: categoryFacets,
         ratings: ratingFacets,
+        attributes: attributeFacets,
       };
     },
     {
@@ -346,24 +688,8 @@ export async function getSearchSuggestions(
   return await getOrSetCache(
     cacheKey,
     async () => {
-      const products = await prisma.product.findMany({
-        where: {
-          isActive: true,
-          name: {
-            contains: normalizedQuery,
-            mode: 'insensitive',
-          },
-        },
-        select: {
-          name: true,
-        },
-        take: limit,
-        orderBy: {
-          viewCount: 'desc',
-        },
-      });
-
-      return products.map((p) => p.name);
+      const matches = await rankProductMatches(normalizedQuery, limit);
+      return matches.map((match) => match.name);
     },
     {
       ttl: SUGGESTIONS_TTL,
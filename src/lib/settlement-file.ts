@@ -0,0 +1,187 @@
+/**
+ * Settlement file parsing
+ *
+ * Reads the CSV settlement reports finance downloads from TeleBirr and CBE
+ * Birr merchant portals, and plain bank statements, into normalized lines
+ * for the reconciliation engine. Column names vary between exports, so each
+ * format lists the header spellings we have seen for every field.
+ */
+
+import Papa from 'papaparse';
+
+export type SettlementFileFormat = 'telebirr' | 'cbe' | 'bank';
+
+export const SETTLEMENT_FILE_FORMATS: SettlementFileFormat[] = ['telebirr', 'cbe', 'bank'];
+
+export interface ParsedSettlementLine {
+  /** 1-based data row number (header excluded) */
+  lineNumber: number;
+  reference: string;
+  orderNumber?: string;
+  amount: number;
+  currency: string;
+  settledAt?: Date;
+  raw: Record<string, string>;
+}
+
+export interface SettlementParseError {
+  lineNumber: number;
+  message: string;
+}
+
+export interface SettlementParseResult {
+  lines: ParsedSettlementLine[];
+  errors: SettlementParseError[];
+  /** Rows skipped on purpose: failed transactions and bank debits */
+  skipped: number;
+}
+
+type Field = 'reference' | 'orderNumber' | 'amount' | 'credit' | 'currency' | 'date' | 'status' | 'narration';
+
+// Header spellings per format, compared after lowercasing and stripping non-alphanumerics
+const COLUMN_ALIASES: Record<SettlementFileFormat, Partial<Record<Field, string[]>>> = {
+  telebirr: {
+    reference: ['transactionid', 'transid', 'receiptno', 'receiptnumber', 'tradeno'],
+    orderNumber: ['merchantorderid', 'merchorderid', 'orderid', 'ordernumber'],
+    amount: ['amount', 'totalamount', 'transactionamount', 'settledamount'],
+    currency: ['currency'],
+    date: ['transactiontime', 'completedtime', 'date', 'transactiondate'],
+    status: ['status', 'tradestatus', 'transactionstatus'],
+  },
+  cbe: {
+    reference: ['transactionid', 'transactionreference', 'reference', 'ftnumber'],
+    orderNumber: ['billrefnumber', 'billreference', 'merchantreference', 'ordernumber'],
+    amount: ['amount', 'transactionamount', 'settledamount'],
+    currency: ['currency'],
+    date: ['valuedate', 'transactiondate', 'date'],
+    status: ['status', 'transactionstatus'],
+  },
+  bank: {
+    reference: ['reference', 'referenceno', 'refno', 'transactionreference', 'chequeno'],
+    credit: ['credit', 'creditamount', 'deposit', 'amount'],
+    currency: ['currency'],
+    date: ['valuedate', 'transactiondate', 'postingdate', 'date'],
+    narration: ['narration', 'description', 'details', 'remarks', 'particulars'],
+  },
+};
+
+const FAILED_STATUSES = new Set<string>(['failed', 'failure', 'declined', 'cancelled', 'canceled', 'reversed']);
+
+const ORDER_NUMBER_PATTERN = /MIN-\d+/i;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parse an amount such as "1,250.50", "ETB 1250.5" or "(300.00)"
+ */
+export function parseSettlementAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const digits = trimmed.replace(/[^0-9.]/g, '');
+  if (!digits) return null;
+  const amount = parseFloat(digits);
+  if (Number.isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+/**
+ * Parse ISO dates and the day-first dates (31/01/2026 14:05) used by local exports
+ */
+export function parseSettlementDate(value: string | undefined): Date | undefined {
+  if (!value?.trim()) return undefined;
+  const dayFirst = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (dayFirst) {
+    const [, day, month, year, hour = '0', minute = '0', second = '0'] = dayFirst;
+    return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse a settlement CSV in the given format
+ */
+export function parseSettlementFile(content: string, format: SettlementFileFormat): SettlementParseResult {
+  const parsed = Papa.parse<Record<string, string>>(content.replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: (header) => header.trim(),
+  });
+
+  const result: SettlementParseResult = { lines: [], errors: [], skipped: 0 };
+  const headers = parsed.meta.fields || [];
+
+  // Resolve each field to the first matching column in this file
+  const columns: Partial<Record<Field, string>> = {};
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES[format]) as Array<[Field, string[]]>) {
+    const column = aliases
+      .map((alias) => headers.find((header) => normalizeHeader(header) === alias))
+      .find(Boolean);
+    if (column) columns[field] = column;
+  }
+
+  const amountField: Field = format === 'bank' ? 'credit' : 'amount';
+  const missing = (format === 'bank' ? ['credit', 'narration'] : ['reference', 'amount']).filter(
+    (field) => !columns[field as Field]
+  );
+  if (missing.length > 0) {
+    result.errors.push({ lineNumber: 0, message: `Missing ${format} column(s): ${missing.join(', ')}` });
+    return result;
+  }
+
+  parsed.data.forEach((row, index) => {
+    const lineNumber = index + 1;
+    const get = (field: Field) => {
+      const column = columns[field];
+      return column ? row[column]?.trim() || '' : '';
+    };
+
+    const status = get('status').toLowerCase();
+    if (status && FAILED_STATUSES.has(status)) {
+      result.skipped++;
+      return;
+    }
+
+    const amount = parseSettlementAmount(get(amountField));
+    if (format === 'bank' && (amount === null || amount <= 0)) {
+      // Debit lines and blank credits are outgoing money, not settlements
+      result.skipped++;
+      return;
+    }
+    if (amount === null) {
+      result.errors.push({ lineNumber, message: 'Amount is missing or not a number' });
+      return;
+    }
+
+    const narration = get('narration');
+    const orderNumber =
+      format === 'bank'
+        ? narration.match(ORDER_NUMBER_PATTERN)?.[0]?.toUpperCase()
+        : get('orderNumber') || undefined;
+    // Unreferenced bank credits still need reporting, so fall back to the narration
+    const reference = get('reference') || orderNumber || (format === 'bank' ? narration : '');
+    if (!reference) {
+      result.errors.push({ lineNumber, message: 'Transaction reference is missing' });
+      return;
+    }
+
+    result.lines.push({
+      lineNumber,
+      reference,
+      orderNumber,
+      amount,
+      currency: get('currency').toUpperCase() || 'ETB',
+      settledAt: parseSettlementDate(get('date')),
+      raw: row,
+    });
+  });
+
+  for (const error of parsed.errors) {
+    if (error.row !== undefined) {
+      result.errors.push({ lineNumber: error.row + 1, message: error.message });
+    }
+  }
+
+  return result;
+}
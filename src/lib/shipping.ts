@@ -6,6 +6,12 @@ const SHIPPING_CACHE_PREFIX = 'shipping';
 const SHIPPING_ZONES_TTL = 600; // 10 minutes
 const SHIPPING_ZONES_STALE_TIME = 1200; // 20 minutes
 
+// cm³ per billed kg when a method has no divisor of its own
+export const DEFAULT_VOLUMETRIC_DIVISOR = 5000;
+
+// Product.dimensions units, converted to centimetres
+const CM_PER_UNIT: Record<string, number> = { mm: 0.1, cm: 1, m: 100, in: 2.54 };
+
 export interface ShippingAddress {
   country: string;
   region?: string;
@@ -20,11 +26,40 @@ export interface ShippingOption {
   name: string;
   description?: string;
   carrier?: string;
+  // Total charged for the shipment, including any cash-on-delivery fee
   rate: number;
+  codFee?: number;
+  billableWeight?: number;
   estimatedDaysMin?: number;
   estimatedDaysMax?: number;
 }
 
+export interface PackageDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One line of a shipment: the weight (kg) and package size (cm) of a
+ * single unit, and how many units ship
+ */
+export interface ShippingParcel {
+  weight: number;
+  dimensions?: PackageDimensions | null;
+  quantity: number;
+}
+
+export interface ShippingOptionsContext {
+  // Where the shipment leaves from; rates for that origin zone win over generic ones
+  origin?: ShippingAddress | null;
+  // Billed by actual or dimensional weight, whichever is higher, per method
+  parcels?: ShippingParcel[];
+  cashOnDelivery?: boolean;
+  // A promotion or coupon waived shipping; cash-on-delivery fees still apply
+  freeShipping?: boolean;
+}
+
 export interface ShippingCalculationResult {
   options: ShippingOption[];
   cheapestOption?: ShippingOption;
@@ -116,13 +151,78 @@ export function calculateShippingRate(
   return rate;
 }
 
+/**
+ * Read Product.dimensions into centimetres. Accepts
+ * { length, width, height, unit? } or a string such as "30x20x15cm";
+ * anything else counts as unknown.
+ */
+export function parseDimensions(value: unknown): PackageDimensions | null {
+  let sizes: number[];
+  let unit = 'cm';
+
+  if (typeof value === 'string') {
+    const match = value
+      .trim()
+      .toLowerCase()
+      .match(/^([\d.]+)\s*[x×*]\s*([\d.]+)\s*[x×*]\s*([\d.]+)\s*(mm|cm|m|in)?$/);
+    if (!match) return null;
+    sizes = [match[1], match[2], match[3]].map(Number);
+    unit = match[4] || 'cm';
+  } else if (value && typeof value === 'object') {
+    const { length, width, height, unit: given } = value as Record<string, unknown>;
+    sizes = [length, width, height].map(Number);
+    if (typeof given === 'string') unit = given.toLowerCase();
+  } else {
+    return null;
+  }
+
+  const factor = CM_PER_UNIT[unit];
+  if (!factor || sizes.some((size) => !Number.isFinite(size) || size <= 0)) {
+    return null;
+  }
+
+  const [length, width, height] = sizes.map((size) => size * factor);
+  return { length, width, height };
+}
+
+/**
+ * Weight a carrier bills for the parcels: per unit, the actual weight or
+ * the dimensional weight (volume / divisor), whichever is higher
+ */
+export function calculateBillableWeight(
+  parcels: ShippingParcel[],
+  volumetricDivisor: number = DEFAULT_VOLUMETRIC_DIVISOR
+): number {
+  const total = parcels.reduce((sum, parcel) => {
+    const dimensional = parcel.dimensions
+      ? (parcel.dimensions.length * parcel.dimensions.width * parcel.dimensions.height) / volumetricDivisor
+      : 0;
+    return sum + Math.max(parcel.weight || 0, dimensional) * parcel.quantity;
+  }, 0);
+
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Cash-on-delivery surcharge for a shipment worth `shipmentValue`
+ */
+export function calculateCodFee(
+  shipmentValue: number,
+  codFee: number | null,
+  codFeePercent: number | null
+): number {
+  const fee = (codFee || 0) + shipmentValue * (codFeePercent || 0);
+  return Math.round(fee * 100) / 100;
+}
+
 /**
  * Get available shipping options for an address and order
  */
 export async function getShippingOptions(
   address: ShippingAddress,
   subtotal: number,
-  totalWeight?: number
+  totalWeight?: number,
+  context: ShippingOptionsContext = {}
 ): Promise<ShippingCalculationResult> {
   // Find matching zone
   const zoneId = await findShippingZone(address);
@@ -133,6 +233,8 @@ export async function getShippingOptions(
     };
   }
 
+  const originZoneId = context.origin ? await findShippingZone(context.origin) : null;
+
   // Get shipping rates for this zone
   const shippingRates = await prisma.shippingRate.findMany({
     where: {
@@ -149,6 +251,12 @@ export async function getShippingOptions(
             { maxOrderAmount: { gte: subtotal } },
           ],
         },
+        {
+          OR: [
+            { originZoneId: null },
+            ...(originZoneId ? [{ originZoneId }] : []),
+          ],
+        },
       ],
     },
     include: {
@@ -162,16 +270,37 @@ export async function getShippingOptions(
     },
   });
 
-  const options: ShippingOption[] = shippingRates
-    .filter((rate) => rate.method.isActive)
+  // One rate per method: the one for this origin, else the generic one
+  const ratesByMethod = new Map<string, (typeof shippingRates)[number]>();
+  for (const rate of shippingRates) {
+    const current = ratesByMethod.get(rate.methodId);
+    if (!current || (!current.originZoneId && rate.originZoneId)) {
+      ratesByMethod.set(rate.methodId, rate);
+    }
+  }
+
+  const options: ShippingOption[] = [...ratesByMethod.values()]
+    .filter((rate) => rate.method.isActive && (!context.cashOnDelivery || rate.method.supportsCod))
     .map((rate) => {
-      const calculatedRate = calculateShippingRate(
-        Number(rate.baseRate),
-        rate.perKgRate ? Number(rate.perKgRate) : null,
-        totalWeight || null,
-        subtotal,
-        rate.freeShippingThreshold ? Number(rate.freeShippingThreshold) : null
-      );
+      const billableWeight = context.parcels
+        ? calculateBillableWeight(context.parcels, rate.method.volumetricDivisor || DEFAULT_VOLUMETRIC_DIVISOR)
+        : totalWeight || null;
+      const shippingFee = context.freeShipping
+        ? 0
+        : calculateShippingRate(
+            Number(rate.baseRate),
+            rate.perKgRate ? Number(rate.perKgRate) : null,
+            billableWeight,
+            subtotal,
+            rate.freeShippingThreshold ? Number(rate.freeShippingThreshold) : null
+          );
+      const codFee = context.cashOnDelivery
+        ? calculateCodFee(
+            subtotal,
+            rate.codFee ? Number(rate.codFee) : null,
+            rate.codFeePercent ? Number(rate.codFeePercent) : null
+          )
+        : 0;
 
       return {
         id: rate.id,
@@ -180,7 +309,9 @@ export async function getShippingOptions(
         name: rate.method.name,
         description: rate.method.description || undefined,
         carrier: rate.method.carrier || undefined,
-        rate: calculatedRate,
+        rate: Math.round((shippingFee + codFee) * 100) / 100,
+        ...(codFee > 0 && { codFee }),
+        ...(billableWeight !== null && { billableWeight }),
         estimatedDaysMin: rate.method.estimatedDaysMin || undefined,
         estimatedDaysMax: rate.method.estimatedDaysMax || undefined,
       };
@@ -235,6 +366,137 @@ export async function getShippingRateById(
   };
 }
 
+export interface ShipmentItem {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  // Line total after discounts; free-shipping thresholds and COD fees use it
+  total: number;
+}
+
+/**
+ * One vendor's part of a cart, shipped from the vendor's city
+ */
+export interface VendorShipment {
+  vendorId: string;
+  vendorName: string;
+  origin: ShippingAddress | null;
+  productIds: string[];
+  subtotal: number;
+  options: ShippingOption[];
+  // The buyer's chosen method, or the cheapest; null when nothing delivers
+  selected: ShippingOption | null;
+}
+
+export interface ShipmentsQuote {
+  shipments: VendorShipment[];
+  shippingAmount: number;
+  // Vendors with no shipping method to the address
+  unavailableVendorIds: string[];
+}
+
+export interface QuoteShipmentsOptions {
+  cashOnDelivery?: boolean;
+  freeShipping?: boolean;
+  // Chosen shipping method per vendor
+  selections?: Record<string, string>;
+}
+
+/**
+ * Zones list ISO country codes; profiles and checkout addresses may hold
+ * the country name. Ethiopia is the default.
+ */
+export function normalizeCountryCode(country?: string | null): string {
+  const value = country?.trim();
+  if (!value || /^ethiopia$/i.test(value)) return 'ET';
+  return value.toUpperCase();
+}
+
+/**
+ * Where a vendor ships from, from their profile
+ */
+function vendorOrigin(profile: { city: string | null; country: string | null }): ShippingAddress | null {
+  if (!profile.city) return null;
+  return { country: normalizeCountryCode(profile.country), city: profile.city };
+}
+
+/**
+ * Split a cart into one shipment per vendor and rate-shop each: the
+ * vendor's origin, the billable (actual or dimensional) weight and cash
+ * on delivery all feed the rate. Digital products do not ship.
+ */
+export async function quoteShipments(
+  address: ShippingAddress,
+  items: ShipmentItem[],
+  options: QuoteShipmentsOptions = {}
+): Promise<ShipmentsQuote> {
+  const products = await prisma.product.findMany({
+    where: { id: { in: [...new Set(items.map((item) => item.productId))] } },
+    select: {
+      id: true,
+      vendorId: true,
+      isDigital: true,
+      weight: true,
+      dimensions: true,
+      vendor: { select: { displayName: true, city: true, country: true } },
+    },
+  });
+  const variantIds = items.map((item) => item.variantId).filter((id): id is string => !!id);
+  const variants = variantIds.length > 0
+    ? await prisma.productVariant.findMany({
+        where: { id: { in: variantIds } },
+        select: { id: true, weight: true, dimensions: true },
+      })
+    : [];
+
+  const groups = new Map<string, { product: (typeof products)[number]; parcels: ShippingParcel[]; productIds: string[]; subtotal: number }>();
+  for (const item of items) {
+    const product = products.find((p) => p.id === item.productId);
+    if (!product || product.isDigital) continue;
+    const variant = variants.find((v) => v.id === item.variantId);
+
+    const group = groups.get(product.vendorId) ?? { product, parcels: [], productIds: [], subtotal: 0 };
+    group.parcels.push({
+      weight: Number(variant?.weight ?? product.weight ?? 0),
+      dimensions: parseDimensions(variant?.dimensions ?? product.dimensions),
+      quantity: item.quantity,
+    });
+    group.productIds.push(product.id);
+    group.subtotal += item.total;
+    groups.set(product.vendorId, group);
+  }
+
+  const shipments: VendorShipment[] = [];
+  for (const [vendorId, group] of groups) {
+    const origin = vendorOrigin(group.product.vendor);
+    const { options: shippingOptions, cheapestOption } = await getShippingOptions(address, group.subtotal, undefined, {
+      origin,
+      parcels: group.parcels,
+      cashOnDelivery: options.cashOnDelivery,
+      freeShipping: options.freeShipping,
+    });
+    const chosen = options.selections?.[vendorId];
+
+    shipments.push({
+      vendorId,
+      vendorName: group.product.vendor.displayName || 'Vendor',
+      origin,
+      productIds: [...new Set(group.productIds)],
+      subtotal: Math.round(group.subtotal * 100) / 100,
+      options: shippingOptions,
+      selected: shippingOptions.find((option) => option.methodId === chosen) ?? cheapestOption ?? null,
+    });
+  }
+
+  const shippingAmount = shipments.reduce((sum, shipment) => sum + (shipment.selected?.rate ?? 0), 0);
+
+  return {
+    shipments,
+    shippingAmount: Math.round(shippingAmount * 100) / 100,
+    unavailableVendorIds: shipments.filter((shipment) => !shipment.selected).map((shipment) => shipment.vendorId),
+  };
+}
+
 /**
  * Ethiopian shipping zones helper - creates default zones for Ethiopia
  */
@@ -11,6 +11,7 @@ import {
   Prisma,
 } from '@prisma/client';
 import { addDays, addWeeks, addMonths, isBefore, isAfter } from 'date-fns';
+import { createVendorOrders } from '@/services/VendorOrderService';
 
 // Premium subscription pricing (in ETB)
 export const PREMIUM_PRICING = {
@@ -528,28 +529,35 @@ export async function processSubscriptionDelivery(subscriptionId: string) {
   // Create order (simplified - actual implementation would use full order creation flow)
   const orderNumber = `SUB-${Date.now()}-${Math.random().toString(36).substring(7).toUpperCase()}`;
 
-  const order = await prisma.order.create({
-    data: {
-      userId: subscription.userId,
-      orderNumber,
-      status: 'pending',
-      paymentStatus: 'pending',
-      subtotal: itemTotal,
-      totalAmount: itemTotal,
-      notes: `Subscription order for ${subscription.product.name}`,
-      orderItems: {
-        create: {
-          vendorId: subscription.product.vendorId,
-          productId: subscription.productId,
-          variantId: subscription.variantId,
-          productName: subscription.product.name,
-          productSku: subscription.product.sku,
-          quantity: subscription.quantity,
-          price: discountedPrice,
-          total: itemTotal,
+  const order = await prisma.$transaction(async (tx) => {
+    const created = await tx.order.create({
+      data: {
+        userId: subscription.userId,
+        orderNumber,
+        status: 'pending',
+        paymentStatus: 'pending',
+        subtotal: itemTotal,
+        totalAmount: itemTotal,
+        notes: `Subscription order for ${subscription.product.name}`,
+        orderItems: {
+          create: {
+            vendorId: subscription.product.vendorId,
+            productId: subscription.productId,
+            variantId: subscription.variantId,
+            productName: subscription.product.name,
+            productSku: subscription.product.sku,
+            quantity: subscription.quantity,
+            price: discountedPrice,
+            total: itemTotal,
+          },
         },
       },
-    },
+      include: { orderItems: true },
+    });
+
+    // The vendor fulfils and ships it as a vendor order
+    await createVendorOrders(tx, created);
+    return created;
   });
 
   // Link order to subscription
@@ -119,6 +119,12 @@ const swaggerDefinition = {
     { name: 'Refunds', description: 'Refund processing' },
     { name: 'Invoices', description: 'Invoice generation' },
     { name: 'Chat', description: 'Customer support chat' },
+    { name: 'Messaging', description: 'Buyer–vendor conversations' },
+    { name: 'Support', description: 'Customer support tickets' },
+    { name: 'Equb', description: 'Rotating savings circles' },
+    { name: 'Group Purchases', description: 'Group buying and settlement' },
+    { name: 'Reconciliation', description: 'Provider settlement files and payment exceptions' },
+    { name: 'Ledger', description: 'Double-entry accounting journal' },
   ],
 };
 
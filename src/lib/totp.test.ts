@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateHotp,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 appendix B uses the ASCII secret "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP utilities', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should ignore spaces and lowercase in user-typed secrets', () => {
+      expect(base32Decode('gezd gnbv')).toEqual(base32Decode('GEZDGNBV'));
+    });
+  });
+
+  describe('generateHotp', () => {
+    it('should match the RFC 4226 test vectors', () => {
+      expect(generateHotp(RFC_SECRET, 0)).toBe('755224');
+      expect(generateHotp(RFC_SECRET, 1)).toBe('287082');
+      expect(generateHotp(RFC_SECRET, 9)).toBe('520489');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 SHA-1 test vectors truncated to 6 digits', () => {
+      expect(generateTotp(RFC_SECRET, new Date(59 * 1000))).toBe('287082');
+      expect(generateTotp(RFC_SECRET, new Date(1111111109 * 1000))).toBe('081804');
+      expect(generateTotp(RFC_SECRET, new Date(1234567890 * 1000))).toBe('005924');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = new Date(1234567890 * 1000);
+
+    it('should accept the current code and return its step', () => {
+      expect(verifyTotp(RFC_SECRET, '005924', now)).toBe(Math.floor(1234567890 / 30));
+    });
+
+    it('should tolerate one step of clock drift but no more', () => {
+      const previous = generateTotp(RFC_SECRET, new Date(now.getTime() - 30 * 1000));
+      const stale = generateTotp(RFC_SECRET, new Date(now.getTime() - 90 * 1000));
+
+      expect(verifyTotp(RFC_SECRET, previous, now)).not.toBeNull();
+      expect(verifyTotp(RFC_SECRET, stale, now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+    });
+  });
+
+  it('should generate 160-bit secrets', () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+
+  it('should build an otpauth URL authenticator apps understand', () => {
+    const url = buildOtpauthUrl('JBSWY3DPEHPK3PXP', 'admin@example.com');
+
+    expect(url).toMatch(/^otpauth:\/\/totp\/Minalesh%3Aadmin%40example\.com\?/);
+    expect(url).toContain('secret=JBSWY3DPEHPK3PXP');
+    expect(url).toContain('issuer=Minalesh');
+  });
+});
@@ -6,6 +6,7 @@
 
 import { NextResponse } from 'next/server';
 import { z, ZodError, ZodSchema } from 'zod';
+import { locales } from '@/i18n/config';
 
 /**
  * Unified error response structure
@@ -128,6 +129,9 @@ export const commonSchemas = {
   // Email
   email: z.string().email('Invalid email address'),
   
+  // Ethiopian mobile number (09..., 07..., 251... or +251...)
+  phone: z.string().trim().regex(/^(\+?251|0)?[79]\d{8}$/, 'Invalid Ethiopian phone number'),
+  
   // Password
   password: z.string().min(8, 'Password must be at least 8 characters'),
   
@@ -148,8 +152,12 @@ export const commonSchemas = {
 // Auth schemas
 export const authSchemas = {
   login: z.object({
-    email: commonSchemas.email,
+    email: commonSchemas.email.optional(),
+    phone: commonSchemas.phone.optional(),
     password: z.string().min(1, 'Password is required'),
+  }).refine((data) => !!data.email || !!data.phone, {
+    message: 'Email or phone is required',
+    path: ['email'],
   }),
   
   register: z.object({
@@ -193,7 +201,11 @@ export const cartSchemas = {
   }),
   
   calculate: z.object({
-    subtotal: commonSchemas.price,
+    items: z.array(z.object({
+      productId: commonSchemas.id,
+      variantId: z.string().optional(),
+      quantity: commonSchemas.quantity.max(999),
+    })).min(1, 'Cart is empty'),
     couponCode: z.string().optional(),
     shippingRateId: z.string().optional(),
     shippingAddress: z.object({
@@ -203,6 +215,10 @@ export const cartSchemas = {
       postalCode: z.string().optional(),
     }).optional(),
     totalWeight: z.number().optional(),
+    // Cash on delivery adds the shipping rates' COD fees
+    paymentMethod: z.string().optional(),
+    // Chosen shipping method per vendor shipment (vendor id -> method id)
+    shippingSelections: z.record(z.string().uuid()).optional(),
   }),
 };
 
@@ -277,3 +293,159 @@ export const paymentSchemas = {
     metadata: z.record(z.any()).optional(),
   }),
 };
+
+// Messaging schemas
+const messageBody = {
+  message: z.string().trim().min(1, 'Message is required').max(5000),
+  attachments: z.array(z.string().url('Attachment must be a URL')).max(5, 'At most 5 attachments').optional(),
+};
+
+export const messagingSchemas = {
+  openConversation: z
+    .object({
+      vendorId: z.string().uuid().optional(),
+      productId: z.string().uuid().optional(),
+      orderId: z.string().uuid().optional(),
+      subject: z.string().max(200).optional(),
+      ...messageBody,
+    })
+    .refine((data) => data.vendorId || data.productId || data.orderId, {
+      message: 'A product, order or vendor is required',
+      path: ['productId'],
+    }),
+
+  sendMessage: z.object(messageBody),
+
+  escalate: z.object({
+    reason: z.string().trim().min(1, 'Reason is required').max(1000),
+  }),
+};
+
+// Equb schemas
+export const equbSchemas = {
+  createCircle: z.object({
+    name: z.string().trim().min(1, 'Name is required').max(120),
+    description: z.string().max(2000).optional(),
+    memberLimit: z.number().int().min(2, 'Member limit must be between 2 and 50').max(50, 'Member limit must be between 2 and 50'),
+    contributionAmount: z.number().min(100, 'Contribution amount must be at least 100 ETB'),
+    frequency: z.enum(['weekly', 'biweekly', 'monthly'], {
+      errorMap: () => ({ message: 'Frequency must be: weekly, biweekly, or monthly' }),
+    }),
+    startDate: z.coerce.date(),
+    payoutMethod: z.enum(['position', 'lottery']).default('position'),
+    latePenaltyRate: z.number().min(0).max(0.5).optional(),
+    gracePeriodDays: z.number().int().min(0).max(14).optional(),
+    maxMissedRounds: z.number().int().min(1).max(12).optional(),
+  }),
+};
+
+// Payment reconciliation schemas
+export const reconciliationSchemas = {
+  uploadSettlementFile: z
+    .object({
+      provider: z.enum(['telebirr', 'cbe', 'awash']),
+      format: z.enum(['telebirr', 'cbe', 'bank']),
+      fileName: z.string().trim().min(1, 'File name is required').max(255),
+      content: z.string().min(1, 'File is empty').max(5_000_000, 'Settlement file must be under 5 MB'),
+      periodStart: z.coerce.date().optional(),
+      periodEnd: z.coerce.date().optional(),
+    })
+    .refine((data) => !data.periodStart || !data.periodEnd || data.periodEnd >= data.periodStart, {
+      message: 'Period end must be after period start',
+      path: ['periodEnd'],
+    }),
+  resolveException: z.object({
+    status: z.enum(['resolved', 'ignored']),
+    note: z.string().trim().max(1000).optional(),
+  }),
+};
+
+// Search rule schemas
+const searchRuleRedirect = z
+  .string()
+  .trim()
+  .max(500)
+  .refine((url) => /^\/(?!\/)/.test(url) || /^https:\/\//.test(url), 'Redirect must be a site path or an https URL');
+
+const searchRuleActions = {
+  redirectUrl: searchRuleRedirect.nullable().optional(),
+  pinnedProductIds: z.array(z.string().uuid('Invalid product ID')).max(20).optional(),
+  synonyms: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const searchRuleSchemas = {
+  create: z.object({
+    query: z.string().trim().min(1, 'Query is required').max(200),
+    ...searchRuleActions,
+  }),
+  update: z.object(searchRuleActions),
+};
+
+// Shipping method and rate schemas
+const shippingMethodFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  carrier: z.string().trim().max(100).nullable().optional(),
+  estimatedDaysMin: z.number().int().min(0).max(365).nullable().optional(),
+  estimatedDaysMax: z.number().int().min(0).max(365).nullable().optional(),
+  volumetricDivisor: z.number().int().min(1000).max(10000).optional(),
+  supportsCod: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+};
+
+const money = z.number().nonnegative().max(10_000_000);
+
+const shippingRateCharges = {
+  baseRate: money,
+  perKgRate: money.nullable().optional(),
+  freeShippingThreshold: money.nullable().optional(),
+  minOrderAmount: money.nullable().optional(),
+  maxOrderAmount: money.nullable().optional(),
+  codFee: money.nullable().optional(),
+  codFeePercent: z.number().min(0).max(1, 'Use a fraction, e.g. 0.02 for 2%').nullable().optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const shippingSchemas = {
+  createMethod: z.object(shippingMethodFields),
+  updateMethod: z.object(shippingMethodFields).partial(),
+  createRate: z.object({
+    zoneId: z.string().uuid('Invalid zone ID'),
+    originZoneId: z.string().uuid('Invalid origin zone ID').nullable().optional(),
+    methodId: z.string().uuid('Invalid method ID'),
+    ...shippingRateCharges,
+  }),
+  updateRate: z.object(shippingRateCharges).partial(),
+};
+
+// Email template schemas
+const emailTemplateLanguage = z.enum(locales);
+
+const emailTemplateDraft = {
+  subject: z.string().trim().min(1, 'Subject is required').max(300),
+  htmlContent: z.string().min(1, 'HTML content is required').max(200_000),
+  textContent: z.string().min(1, 'Text content is required').max(100_000),
+};
+
+const emailTemplatePreview = {
+  language: emailTemplateLanguage,
+  subject: z.string().max(300).optional(),
+  htmlContent: z.string().max(200_000).optional(),
+  textContent: z.string().max(100_000).optional(),
+  data: z.record(z.unknown()).optional(),
+};
+
+export const emailTemplateSchemas = {
+  save: z.object({
+    language: emailTemplateLanguage,
+    ...emailTemplateDraft,
+    isActive: z.boolean().optional(),
+  }),
+  preview: z.object(emailTemplatePreview),
+  test: z.object({
+    ...emailTemplatePreview,
+    to: z.string().email('Invalid email address').optional(),
+  }),
+};
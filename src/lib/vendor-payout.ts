@@ -7,6 +7,7 @@
 
 import prisma from './prisma';
 import { Prisma } from '@prisma/client';
+import { postVendorPayout } from '@/services/LedgerService';
 
 export const DEFAULT_COMMISSION_RATE = 0.15; // 15%
 
@@ -132,6 +133,9 @@ export async function markPayoutAsPaid(payoutId: string): Promise<boolean> {
         paidAt: new Date(),
       },
     });
+    await postVendorPayout(payoutId).catch((err) =>
+      console.error('Error posting payout journal:', err)
+    );
     return true;
   } catch (error) {
     console.error('Error marking payout as paid:', error);
@@ -0,0 +1,186 @@
+'use client'
+
+import { useState, useEffect, useCallback } from "react"
+import { useAuth } from "@/context/auth-context"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Navbar } from "@/components/navbar"
+import { Footer } from "@/components/footer"
+import { Container } from "@/components/ui/container"
+import { ArrowLeft, LogOut, MonitorSmartphone } from "lucide-react"
+import { toast } from "sonner"
+
+interface ActiveSession {
+  id: string
+  device: string
+  ipAddress: string | null
+  createdAt: string
+  lastUsedAt: string
+  current: boolean
+}
+
+export default function ActiveSessionsSettings() {
+  const { user } = useAuth()
+  const router = useRouter()
+  const [sessions, setSessions] = useState<ActiveSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [revoking, setRevoking] = useState<string | null>(null)
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+  })
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/user/account/sessions', { headers: authHeaders() })
+      if (response.ok) {
+        const data = await response.json()
+        setSessions(data.sessions || [])
+      }
+    } catch (error) {
+      console.error('Error fetching sessions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth/login')
+      return
+    }
+    fetchSessions()
+  }, [user, router, fetchSessions])
+
+  const revokeSession = async (sessionId: string) => {
+    try {
+      setRevoking(sessionId)
+      const response = await fetch(`/api/user/account/sessions/${sessionId}`, {
+        method: 'DELETE',
+        headers: authHeaders()
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to sign out device')
+      }
+      toast.success('Device signed out')
+      setSessions(prev => prev.filter(session => session.id !== sessionId))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out device')
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  const revokeOthers = async () => {
+    try {
+      setRevoking('others')
+      const response = await fetch('/api/user/account/sessions', {
+        method: 'DELETE',
+        headers: authHeaders()
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to sign out other devices')
+      }
+      toast.success('Signed out of all other devices')
+      setSessions(prev => prev.filter(session => session.current))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out other devices')
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="py-8">
+        <Container>
+          <div className="max-w-4xl mx-auto">
+            {/* Header */}
+            <div className="flex items-center gap-4 mb-8">
+              <Button variant="ghost" size="icon" asChild>
+                <Link href="/profile">
+                  <ArrowLeft className="h-5 w-5" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold">Where You&apos;re Logged In</h1>
+                <p className="text-muted-foreground mt-1">
+                  Devices that can use your account without entering your password
+                </p>
+              </div>
+            </div>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <MonitorSmartphone className="h-5 w-5" />
+                    Active Sessions
+                  </CardTitle>
+                  <CardDescription>
+                    Signing a device out ends its session immediately
+                  </CardDescription>
+                </div>
+                {sessions.some(session => !session.current) && (
+                  <Button
+                    variant="outline"
+                    onClick={revokeOthers}
+                    disabled={revoking !== null}
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sign Out Other Devices
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="text-center text-muted-foreground py-6">Loading sessions...</div>
+                ) : sessions.length === 0 ? (
+                  <div className="text-center text-muted-foreground py-6">No active sessions</div>
+                ) : (
+                  <div className="divide-y">
+                    {sessions.map(session => (
+                      <div key={session.id} className="flex items-center justify-between py-4">
+                        <div>
+                          <p className="font-medium flex items-center gap-2">
+                            {session.device}
+                            {session.current && <Badge variant="secondary">This device</Badge>}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {session.ipAddress || 'Unknown location'} · Last active{' '}
+                            {new Date(session.lastUsedAt).toLocaleString()}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Signed in {new Date(session.createdAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        {!session.current && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => revokeSession(session.id)}
+                            disabled={revoking !== null}
+                          >
+                            {revoking === session.id ? 'Signing out...' : 'Sign out'}
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </Container>
+      </main>
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+import { FormEvent, useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, SlidersHorizontal, Trash2 } from "lucide-react";
+
+type AttributeType = 'text' | 'number' | 'boolean';
+
+interface Category {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
+
+interface CategoryAttribute {
+  id: string;
+  categoryId: string;
+  key: string;
+  label: string;
+  type: AttributeType;
+  unit: string | null;
+  isFilterable: boolean;
+  sortOrder: number;
+  inherited: boolean;
+}
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+});
+
+const emptyForm = { key: '', label: '', type: 'text' as AttributeType, unit: '' };
+
+/**
+ * Which product specification and variant attribute keys buyers can filter
+ * on in each category
+ */
+export default function AdminCategoryAttributes() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryId, setCategoryId] = useState('');
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/categories')
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data: Category[]) => setCategories(data))
+      .catch((error) => console.error('Error fetching categories:', error));
+  }, []);
+
+  const fetchAttributes = useCallback(async () => {
+    if (!categoryId) return;
+    try {
+      const response = await fetch(`/api/admin/categories/${categoryId}/attributes`, { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setAttributes(data.attributes);
+      }
+    } catch (error) {
+      console.error('Error fetching category attributes:', error);
+    }
+  }, [categoryId]);
+
+  useEffect(() => {
+    setAttributes([]);
+    fetchAttributes();
+  }, [fetchAttributes]);
+
+  const send = async (url: string, method: string, body?: object) => {
+    setSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders(),
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Category attribute error:', error);
+      toast.error('Request failed');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addAttribute = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await send(`/api/admin/categories/${categoryId}/attributes`, 'POST', {
+      key: form.key,
+      label: form.label,
+      type: form.type,
+      unit: form.unit || null,
+      sortOrder: attributes.length,
+    });
+    if (data) {
+      toast.success(data.message);
+      setForm(emptyForm);
+      fetchAttributes();
+    }
+  };
+
+  const setFilterable = async (attribute: CategoryAttribute, isFilterable: boolean) => {
+    const data = await send(`/api/admin/categories/${attribute.categoryId}/attributes/${attribute.id}`, 'PATCH', { isFilterable });
+    if (data) fetchAttributes();
+  };
+
+  const removeAttribute = async (attribute: CategoryAttribute) => {
+    if (!confirm(`Stop offering "${attribute.label}" as a filter?`)) return;
+    const data = await send(`/api/admin/categories/${attribute.categoryId}/attributes/${attribute.id}`, 'DELETE');
+    if (data) {
+      toast.success(data.message);
+      fetchAttributes();
+    }
+  };
+
+  const categoryName = (id: string) => categories.find((category) => category.id === id)?.name || 'parent category';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Category Filters
+        </CardTitle>
+        <CardDescription>
+          Keys from product specifications or variant attributes (e.g. storage, color) that buyers can filter on.
+          Subcategories inherit their parent&apos;s filters.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Select value={categoryId} onValueChange={setCategoryId}>
+          <SelectTrigger className="md:w-72">
+            <SelectValue placeholder="Choose a category" />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map((category) => (
+              <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {categoryId && (
+          <>
+            <form onSubmit={addAttribute} className="grid grid-cols-1 md:grid-cols-5 gap-2">
+              <Input
+                value={form.key}
+                onChange={(e) => setForm({ ...form, key: e.target.value })}
+                placeholder="Key, e.g. storage"
+                required
+                disabled={saving}
+              />
+              <Input
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="Label, e.g. Storage"
+                required
+                disabled={saving}
+              />
+              <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as AttributeType })} disabled={saving}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="text">Text</SelectItem>
+                  <SelectItem value="number">Number</SelectItem>
+                  <SelectItem value="boolean">Yes / No</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                value={form.unit}
+                onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                placeholder="Unit, e.g. GB"
+                disabled={saving || form.type === 'boolean'}
+              />
+              <Button type="submit" disabled={saving || !form.key || !form.label}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add Filter
+              </Button>
+            </form>
+
+            {attributes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This category has no filters yet.</p>
+            ) : (
+              <div className="divide-y">
+                {attributes.map((attribute) => (
+                  <div key={attribute.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 py-3">
+                    <div>
+                      <p className="font-medium">
+                        {attribute.label}
+                        {attribute.unit && <span className="text-muted-foreground"> ({attribute.unit})</span>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        <code className="text-xs">{attribute.key}</code> · {attribute.type}
+                      </p>
+                    </div>
+                    {attribute.inherited ? (
+                      <Badge variant="outline">From {categoryName(attribute.categoryId)}</Badge>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={attribute.isFilterable}
+                          onCheckedChange={(checked) => setFilterable(attribute, checked)}
+                          disabled={saving}
+                        />
+                        <span className="text-sm text-muted-foreground">Filterable</span>
+                        <Button variant="ghost" size="icon" onClick={() => removeAttribute(attribute)} disabled={saving}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,10 +16,15 @@ import AdminProductManagement from "@/page-components/AdminProductManagement";
 import AdminTaxRatesManagement from "@/page-components/AdminTaxRatesManagement";
 import AdminCouponsManagement from "@/page-components/AdminCouponsManagement";
 import AdminShippingManagement from "@/page-components/AdminShippingManagement";
+import AdminShippingMethods from "@/page-components/AdminShippingMethods";
 import AdminOrdersManagement from "@/page-components/AdminOrdersManagement";
 import AdminVendorVerification from "@/page-components/AdminVendorVerification";
 import AdvancedAdminFeatures from "@/page-components/AdvancedAdminFeatures";
 import AdminDisputesManagement from "@/page-components/AdminDisputesManagement";
+import AdminOperatorsManagement from "@/page-components/AdminOperatorsManagement";
+import AdminCategoryAttributes from "@/page-components/AdminCategoryAttributes";
+import AdminSearchInsights from "@/page-components/AdminSearchInsights";
+import AdminEmailTemplates from "@/page-components/AdminEmailTemplates";
 import LiveStatsDashboard from "@/components/admin/LiveStatsDashboard";
 import ProductPerformanceAnalytics from "@/components/admin/ProductPerformanceAnalytics";
 import CustomerAnalyticsDashboard from "@/components/admin/CustomerAnalyticsDashboard";
@@ -187,6 +192,7 @@ const adminNavItems = [
   { value: "coupons", label: "Coupons" },
   { value: "shipping", label: "Shipping" },
   { value: "taxes", label: "Taxes" },
+  { value: "operators", label: "Operators" },
 ];
 
 export default function AdminDashboard() {
@@ -431,11 +437,14 @@ export default function AdminDashboard() {
                   <TabsTrigger value="orders" className="whitespace-nowrap">Orders</TabsTrigger>
                   <TabsTrigger value="products" className="whitespace-nowrap">Products</TabsTrigger>
                   <TabsTrigger value="vendors" className="whitespace-nowrap">Vendors</TabsTrigger>
+                  <TabsTrigger value="search" className="whitespace-nowrap">Search</TabsTrigger>
+                  <TabsTrigger value="emails" className="whitespace-nowrap">Emails</TabsTrigger>
                   <TabsTrigger value="disputes" className="whitespace-nowrap">Disputes</TabsTrigger>
                   <TabsTrigger value="analytics" className="whitespace-nowrap">Analytics</TabsTrigger>
                   <TabsTrigger value="coupons" className="whitespace-nowrap">Coupons</TabsTrigger>
                   <TabsTrigger value="shipping" className="whitespace-nowrap">Shipping</TabsTrigger>
                   <TabsTrigger value="taxes" className="whitespace-nowrap">Taxes</TabsTrigger>
+                  <TabsTrigger value="operators" className="whitespace-nowrap">Operators</TabsTrigger>
                 </TabsList>
               </div>
             )}
@@ -564,12 +573,21 @@ export default function AdminDashboard() {
 
             <TabsContent value="products" className="space-y-6">
               <AdminProductManagement />
+              <AdminCategoryAttributes />
             </TabsContent>
 
             <TabsContent value="vendors" className="space-y-6">
               <AdminVendorVerification />
             </TabsContent>
 
+            <TabsContent value="search" className="space-y-6">
+              <AdminSearchInsights />
+            </TabsContent>
+
+            <TabsContent value="emails" className="space-y-6">
+              <AdminEmailTemplates />
+            </TabsContent>
+
             <TabsContent value="disputes" className="space-y-6">
               <AdminDisputesManagement />
             </TabsContent>
@@ -654,11 +672,16 @@ export default function AdminDashboard() {
 
             <TabsContent value="shipping" className="space-y-6">
               <AdminShippingManagement />
+              <AdminShippingMethods />
             </TabsContent>
 
             <TabsContent value="taxes" className="space-y-6">
               <AdminTaxRatesManagement />
             </TabsContent>
+
+            <TabsContent value="operators" className="space-y-6">
+              <AdminOperatorsManagement />
+            </TabsContent>
           </Tabs>
         </Container>
       </main>
@@ -0,0 +1,400 @@
+'use client'
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Mail, RotateCcw, Send, Trash2 } from "lucide-react";
+import { languageNames, locales, type Locale } from "@/i18n/config";
+
+interface TemplateVariable {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+interface TemplateOverride {
+  id: string;
+  language: string;
+  subject: string;
+  htmlContent: string;
+  textContent: string;
+  isActive: boolean;
+  updatedAt: string;
+}
+
+interface TemplateSummary {
+  key: string;
+  name: string;
+  description: string;
+  overrides: Array<Pick<TemplateOverride, 'id' | 'language' | 'isActive' | 'updatedAt'>>;
+}
+
+interface TemplateDetails {
+  key: string;
+  name: string;
+  description: string;
+  variables: TemplateVariable[];
+  builtIn: Draft;
+  overrides: TemplateOverride[];
+}
+
+interface Draft {
+  subject: string;
+  htmlContent: string;
+  textContent: string;
+}
+
+interface Preview {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+});
+
+/**
+ * The draft to start from in a language: its own template, else the
+ * English one, else the built-in email
+ */
+function startingDraft(details: TemplateDetails, language: Locale): Draft {
+  const override =
+    details.overrides.find((item) => item.language === language) ||
+    details.overrides.find((item) => item.language === 'en');
+  return override
+    ? { subject: override.subject, htmlContent: override.htmlContent, textContent: override.textContent }
+    : details.builtIn;
+}
+
+/**
+ * Edit transactional email templates per language with a live preview and
+ * test sends. Languages without a template get English, then the built-in email.
+ */
+export default function AdminEmailTemplates() {
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [details, setDetails] = useState<TemplateDetails | null>(null);
+  const [language, setLanguage] = useState<Locale>('en');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isActive, setIsActive] = useState(true);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [testRecipient, setTestRecipient] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/email-templates', { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(data.templates);
+      }
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+    }
+  }, []);
+
+  const fetchDetails = useCallback(async (key: string) => {
+    try {
+      const response = await fetch(`/api/admin/email-templates/${key}`, { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setDetails(data.template);
+      }
+    } catch (error) {
+      console.error('Error fetching email template:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => {
+    if (selectedKey) {
+      setDetails(null);
+      fetchDetails(selectedKey);
+    }
+  }, [selectedKey, fetchDetails]);
+
+  useEffect(() => {
+    if (!details) return;
+    setDraft(startingDraft(details, language));
+    setIsActive(details.overrides.find((item) => item.language === language)?.isActive ?? true);
+  }, [details, language]);
+
+  // Re-render the preview shortly after the last keystroke
+  useEffect(() => {
+    if (!selectedKey || !draft) return;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/admin/email-templates/${selectedKey}/preview`, {
+          method: 'POST',
+          headers: authHeaders(),
+          body: JSON.stringify({ language, ...draft }),
+        });
+        const data = await response.json();
+        if (response.ok) {
+          setPreview(data.preview);
+          setPreviewError(null);
+        } else {
+          setPreviewError(data.error || 'Preview failed');
+        }
+      } catch (error) {
+        console.error('Email preview error:', error);
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [selectedKey, language, draft]);
+
+  const send = async (url: string, method: string, body?: object) => {
+    setSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders(),
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Request failed');
+        return null;
+      }
+      toast.success(data.message);
+      return data;
+    } catch (error) {
+      console.error('Email template error:', error);
+      toast.error('Request failed');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const refresh = async () => {
+    if (selectedKey) await fetchDetails(selectedKey);
+    await fetchTemplates();
+  };
+
+  const save = async () => {
+    if (!selectedKey || !draft) return;
+    if (await send(`/api/admin/email-templates/${selectedKey}`, 'PUT', { language, ...draft, isActive })) {
+      await refresh();
+    }
+  };
+
+  const remove = async () => {
+    if (!selectedKey) return;
+    if (await send(`/api/admin/email-templates/${selectedKey}?language=${language}`, 'DELETE')) {
+      await refresh();
+    }
+  };
+
+  const sendTest = () => {
+    if (!selectedKey || !draft) return;
+    send(`/api/admin/email-templates/${selectedKey}/test`, 'POST', {
+      language,
+      ...draft,
+      ...(testRecipient.trim() && { to: testRecipient.trim() }),
+    });
+  };
+
+  const hasOverride = !!details?.overrides.some((item) => item.language === language);
+  const updateDraft = (changes: Partial<Draft>) => setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  return (
+    <div className="grid lg:grid-cols-[280px_1fr] gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Emails
+          </CardTitle>
+          <CardDescription>Transactional emails and the languages they have been written in</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {templates.map((template) => (
+            <button
+              key={template.key}
+              type="button"
+              onClick={() => setSelectedKey(template.key)}
+              className={`w-full text-left rounded-md px-3 py-2 text-sm hover:bg-muted ${
+                selectedKey === template.key ? 'bg-muted font-medium' : ''
+              }`}
+            >
+              <div>{template.name}</div>
+              <div className="flex gap-1 mt-1">
+                {template.overrides.length === 0 ? (
+                  <span className="text-xs text-muted-foreground">Built-in</span>
+                ) : (
+                  template.overrides.map((override) => (
+                    <Badge
+                      key={override.id}
+                      variant={override.isActive ? 'secondary' : 'outline'}
+                      className="text-xs uppercase"
+                    >
+                      {override.language}
+                    </Badge>
+                  ))
+                )}
+              </div>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      {!selectedKey ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Choose an email to edit its wording per language.
+          </CardContent>
+        </Card>
+      ) : !details || !draft ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <CardTitle>{details.name}</CardTitle>
+                  <CardDescription>{details.description}</CardDescription>
+                </div>
+                <Select value={language} onValueChange={(value) => setLanguage(value as Locale)}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locales.map((locale) => (
+                      <SelectItem key={locale} value={locale}>
+                        {languageNames[locale].nativeName}
+                        {details.overrides.some((item) => item.language === locale) ? '' : ' (not written)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {details.variables.map((variable) => (
+                  <Badge
+                    key={variable.name}
+                    variant={variable.required === false ? 'outline' : 'secondary'}
+                    title={variable.description}
+                    className="font-mono cursor-pointer"
+                    onClick={() => navigator.clipboard?.writeText(`{{${variable.name}}}`)}
+                  >
+                    {`{{${variable.name}}}`}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Click a variable to copy it. Use {'{{#if name}}…{{/if}}'} for optional parts and{' '}
+                {'{{#each list}}…{{/each}}'} for lists.
+              </p>
+              <div className="space-y-1">
+                <Label>Subject</Label>
+                <Input value={draft.subject} onChange={(e) => updateDraft({ subject: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>HTML</Label>
+                <Textarea
+                  value={draft.htmlContent}
+                  onChange={(e) => updateDraft({ htmlContent: e.target.value })}
+                  className="font-mono text-xs min-h-[240px]"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Plain text</Label>
+                <Textarea
+                  value={draft.textContent}
+                  onChange={(e) => updateDraft({ textContent: e.target.value })}
+                  className="font-mono text-xs min-h-[140px]"
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex items-center gap-2">
+                  <Switch checked={isActive} onCheckedChange={setIsActive} />
+                  <Label>Active</Label>
+                </div>
+                <Button onClick={save} disabled={saving}>
+                  Save {languageNames[language].name}
+                </Button>
+                <Button variant="outline" onClick={() => setDraft(details.builtIn)} disabled={saving}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Start from built-in
+                </Button>
+                {hasOverride && (
+                  <Button variant="ghost" onClick={remove} disabled={saving}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <CardDescription>Rendered with sample values</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {previewError && <p className="text-sm text-destructive">{previewError}</p>}
+              {preview && (
+                <>
+                  <p className="text-sm">
+                    <span className="text-muted-foreground">Subject:</span> {preview.subject}
+                  </p>
+                  <Tabs defaultValue="html">
+                    <TabsList>
+                      <TabsTrigger value="html">HTML</TabsTrigger>
+                      <TabsTrigger value="text">Plain text</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="html">
+                      <iframe
+                        title="Email preview"
+                        srcDoc={preview.html}
+                        sandbox=""
+                        className="w-full h-[480px] rounded-md border bg-white"
+                      />
+                    </TabsContent>
+                    <TabsContent value="text">
+                      <pre className="whitespace-pre-wrap text-sm rounded-md border p-4">{preview.text}</pre>
+                    </TabsContent>
+                  </Tabs>
+                </>
+              )}
+              <div className="flex flex-wrap gap-2 border-t pt-4">
+                <Input
+                  type="email"
+                  placeholder="Send to (defaults to your email)"
+                  value={testRecipient}
+                  onChange={(e) => setTestRecipient(e.target.value)}
+                  className="w-72"
+                />
+                <Button variant="outline" onClick={sendTest} disabled={saving || !!previewError}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Send test
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
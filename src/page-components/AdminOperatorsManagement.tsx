@@ -0,0 +1,234 @@
+'use client'
+
+import { FormEvent, useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { History, Loader2, ShieldCheck, Trash2 } from "lucide-react";
+import { ADMIN_SCOPES, ADMIN_SCOPE_LABELS, type AdminScopeName } from "@/lib/permissions";
+
+interface Operator {
+  id: string;
+  email: string | null;
+  adminScope: AdminScopeName;
+  createdAt: string;
+  profile: { displayName: string | null; firstName: string | null; lastName: string | null } | null;
+}
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  entityId: string | null;
+  createdAt: string;
+  actor: { email: string | null; profile: { displayName: string | null } | null } | null;
+}
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+});
+
+const SCOPE_DESCRIPTIONS: Record<AdminScopeName, string> = {
+  super_admin: 'Everything, including operators and platform settings',
+  support_agent: 'Support tickets, disputes, buyer protection and orders',
+  finance: 'Ledger, reconciliation, taxes, reports and orders',
+  catalog_moderator: 'Products, vendors, contracts and promotions',
+};
+
+/**
+ * Super admins add operators, limit each one to a scope and review what
+ * operators changed
+ */
+export default function AdminOperatorsManagement() {
+  const [operators, setOperators] = useState<Operator[] | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [email, setEmail] = useState('');
+  const [scope, setScope] = useState<AdminScopeName>('support_agent');
+  const [saving, setSaving] = useState(false);
+
+  const fetchOperators = useCallback(async () => {
+    try {
+      const [operatorsResponse, auditResponse] = await Promise.all([
+        fetch('/api/admin/operators', { headers: authHeaders() }),
+        fetch('/api/admin/audit-log?limit=20', { headers: authHeaders() }),
+      ]);
+      if (operatorsResponse.ok) {
+        const data = await operatorsResponse.json();
+        setOperators(data.operators);
+      } else {
+        setOperators([]);
+      }
+      if (auditResponse.ok) {
+        const data = await auditResponse.json();
+        setAuditLog(data.entries);
+      }
+    } catch (error) {
+      console.error('Error fetching operators:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOperators();
+  }, [fetchOperators]);
+
+  const send = async (url: string, method: string, body?: object) => {
+    setSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders(),
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Operator management error:', error);
+      toast.error('Request failed');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addOperator = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await send('/api/admin/operators', 'POST', { email, scope });
+    if (data) {
+      toast.success(data.message);
+      setEmail('');
+      fetchOperators();
+    }
+  };
+
+  const changeScope = async (operator: Operator, next: AdminScopeName) => {
+    const data = await send(`/api/admin/operators/${operator.id}`, 'PATCH', { scope: next });
+    if (data) {
+      toast.success(data.message);
+      fetchOperators();
+    }
+  };
+
+  const removeOperator = async (operator: Operator) => {
+    if (!confirm(`Remove admin access for ${operator.email}?`)) return;
+    const data = await send(`/api/admin/operators/${operator.id}`, 'DELETE');
+    if (data) {
+      toast.success(data.message);
+      fetchOperators();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Operators
+          </CardTitle>
+          <CardDescription>
+            Each operator signs in with their own account and only sees their part of the admin console.
+            Changing someone&apos;s access signs them out.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={addOperator} className="flex flex-col md:flex-row gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email of an existing account"
+              required
+              disabled={saving}
+            />
+            <Select value={scope} onValueChange={(value) => setScope(value as AdminScopeName)} disabled={saving}>
+              <SelectTrigger className="md:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADMIN_SCOPES.map((name) => (
+                  <SelectItem key={name} value={name}>{ADMIN_SCOPE_LABELS[name]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={saving || !email}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Operator
+            </Button>
+          </form>
+          <p className="text-sm text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</p>
+
+          {!operators ? (
+            <Skeleton className="h-24 w-full" />
+          ) : operators.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Your admin role does not include managing operators.</p>
+          ) : (
+            <div className="divide-y">
+              {operators.map((operator) => (
+                <div key={operator.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 py-3">
+                  <div>
+                    <p className="font-medium">{operator.profile?.displayName || operator.email}</p>
+                    <p className="text-sm text-muted-foreground">{operator.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={operator.adminScope}
+                      onValueChange={(value) => changeScope(operator, value as AdminScopeName)}
+                      disabled={saving}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ADMIN_SCOPES.map((name) => (
+                          <SelectItem key={name} value={name}>{ADMIN_SCOPE_LABELS[name]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="icon" onClick={() => removeOperator(operator)} disabled={saving}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Operator Activity
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {auditLog.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing recorded yet.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {auditLog.map((entry) => (
+                <li key={entry.id} className="flex justify-between gap-4">
+                  <span>
+                    <span className="font-medium">{entry.actor?.profile?.displayName || entry.actor?.email || 'Unknown'}</span>{' '}
+                    <code className="text-xs">{entry.action}</code>
+                  </span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,564 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, FileSpreadsheet, RefreshCw, Search, Upload } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+
+interface SettlementFile {
+  id: string;
+  provider: string;
+  format: string;
+  fileName: string;
+  periodStart: string;
+  periodEnd: string;
+  lineCount: number;
+  totalAmount: number | string;
+  matchedCount: number;
+  exceptionCount: number;
+  status: string;
+  reconciledAt?: string | null;
+  createdAt: string;
+  uploadedBy: { id: string; email: string };
+}
+
+interface ReconciliationException {
+  id: string;
+  type: string;
+  status: string;
+  reference?: string | null;
+  expectedAmount?: number | string | null;
+  settledAmount?: number | string | null;
+  delta?: number | string | null;
+  resolutionNote?: string | null;
+  createdAt: string;
+  file: { id: string; fileName: string; provider: string };
+  order?: { id: string; orderNumber: string; paymentMethod?: string | null; paymentStatus: string } | null;
+  resolvedBy?: { id: string; email: string } | null;
+}
+
+interface ExceptionSummary {
+  type: string;
+  count: number;
+  delta: number;
+}
+
+const PROVIDERS = [
+  { value: 'telebirr', label: 'TeleBirr' },
+  { value: 'cbe', label: 'CBE Birr' },
+  { value: 'awash', label: 'Awash Bank' },
+];
+
+const FORMATS = [
+  { value: 'telebirr', label: 'TeleBirr settlement report' },
+  { value: 'cbe', label: 'CBE Birr settlement report' },
+  { value: 'bank', label: 'Bank statement' },
+];
+
+const EXCEPTION_LABELS: Record<string, string> = {
+  unmatched_settlement: 'Settled, no order',
+  unsettled_order: 'Paid, not settled',
+  amount_mismatch: 'Amount mismatch',
+  duplicate_settlement: 'Duplicate settlement',
+  unpaid_order_settled: 'Settled, order unpaid',
+};
+
+const getExceptionColor = (type: string) => {
+  switch (type) {
+    case 'unmatched_settlement':
+    case 'unsettled_order':
+      return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+    case 'amount_mismatch':
+      return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400';
+    default:
+      return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400';
+  }
+};
+
+const formatAmount = (value?: number | string | null) =>
+  value === null || value === undefined ? '—' : `ETB ${Number(value).toFixed(2)}`;
+
+export default function AdminReconciliation() {
+  const { toast } = useToast();
+  const [files, setFiles] = useState<SettlementFile[]>([]);
+  const [exceptions, setExceptions] = useState<ReconciliationException[]>([]);
+  const [summary, setSummary] = useState<ExceptionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>('open');
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [providerFilter, setProviderFilter] = useState<string>('all');
+  const [fileFilter, setFileFilter] = useState<SettlementFile | null>(null);
+  const [search, setSearch] = useState('');
+  const [provider, setProvider] = useState('telebirr');
+  const [fileFormat, setFileFormat] = useState('telebirr');
+  const [upload, setUpload] = useState<File | null>(null);
+  const [periodStart, setPeriodStart] = useState('');
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const authHeaders = (): Record<string, string> => {
+    const token = localStorage.getItem('auth_token');
+    return token ? { 'Authorization': `Bearer ${token}` } : {};
+  };
+
+  const exceptionParams = useCallback(() => {
+    const params = new URLSearchParams({ status: statusFilter });
+    if (typeFilter !== 'all') params.append('type', typeFilter);
+    if (providerFilter !== 'all') params.append('provider', providerFilter);
+    if (fileFilter) params.append('fileId', fileFilter.id);
+    if (search.trim()) params.append('search', search.trim());
+    return params;
+  }, [statusFilter, typeFilter, providerFilter, fileFilter, search]);
+
+  const fetchFiles = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/reconciliation/files', { headers: authHeaders() });
+      if (res.ok) {
+        const data = await res.json();
+        setFiles(data.files || []);
+      }
+    } catch (error) {
+      console.error('Error fetching settlement files:', error);
+    }
+  }, []);
+
+  const fetchExceptions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/reconciliation/exceptions?${exceptionParams().toString()}`, {
+        headers: authHeaders(),
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setExceptions(data.exceptions || []);
+        setSummary(data.summary || []);
+      }
+    } catch (error) {
+      console.error('Error fetching reconciliation exceptions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [exceptionParams]);
+
+  useEffect(() => {
+    fetchFiles();
+  }, [fetchFiles]);
+
+  useEffect(() => {
+    fetchExceptions();
+  }, [fetchExceptions]);
+
+  const uploadFile = async () => {
+    if (!upload) return;
+    setActionLoading(true);
+    try {
+      const res = await fetch('/api/admin/reconciliation/files', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({
+          provider,
+          format: fileFormat,
+          fileName: upload.name,
+          content: await upload.text(),
+          ...(periodStart ? { periodStart: new Date(periodStart).toISOString() } : {}),
+          ...(periodEnd ? { periodEnd: new Date(`${periodEnd}T23:59:59`).toISOString() } : {}),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast({ title: 'Import failed', description: data.error || 'Could not import file', variant: 'destructive' });
+        return;
+      }
+      const exceptionTotal = Object.values(data.summary.exceptions as Record<string, number>).reduce(
+        (sum, count) => sum + count,
+        0
+      );
+      toast({
+        title: 'Settlement file imported',
+        description: `${data.summary.matched} of ${data.summary.lineCount} lines matched, ${exceptionTotal} exceptions` +
+          (data.parseErrors.length ? `, ${data.parseErrors.length} unreadable lines` : ''),
+      });
+      setUpload(null);
+      setFileFilter(data.file);
+      fetchFiles();
+    } catch (error) {
+      console.error('Error uploading settlement file:', error);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const rerun = async (file: SettlementFile) => {
+    setActionLoading(true);
+    try {
+      const res = await fetch(`/api/admin/reconciliation/files/${file.id}/reconcile`, {
+        method: 'POST',
+        headers: authHeaders(),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast({ title: 'Error', description: data.error || 'Failed to reconcile file', variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Reconciled', description: `${data.summary.matched} of ${data.summary.lineCount} lines matched` });
+      fetchFiles();
+      fetchExceptions();
+    } catch (error) {
+      console.error('Error reconciling settlement file:', error);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const resolve = async (id: string, status: 'resolved' | 'ignored') => {
+    setActionLoading(true);
+    try {
+      const res = await fetch(`/api/admin/reconciliation/exceptions/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ status, ...(note.trim() ? { note: note.trim() } : {}) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast({ title: 'Error', description: data.error || 'Failed to update exception', variant: 'destructive' });
+        return;
+      }
+      setResolving(null);
+      setNote('');
+      fetchExceptions();
+    } catch (error) {
+      console.error('Error resolving exception:', error);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const exportCsv = async () => {
+    try {
+      const params = exceptionParams();
+      params.append('format', 'csv');
+      const res = await fetch(`/api/admin/reconciliation/exceptions?${params.toString()}`, {
+        headers: authHeaders(),
+      });
+      if (!res.ok) {
+        toast({ title: 'Error', description: 'Failed to export report', variant: 'destructive' });
+        return;
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `reconciliation-exceptions-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting exceptions:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Payment Reconciliation</h1>
+        <p className="text-muted-foreground">
+          Match provider settlement files against paid orders and work through the exceptions
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Upload Settlement File
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-6 items-end">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PROVIDERS.map((p) => (
+                  <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={fileFormat} onValueChange={setFileFormat}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {FORMATS.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="settlement-file">CSV file</Label>
+            <Input
+              id="settlement-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setUpload(e.target.files?.[0] || null)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="period-start">Period start</Label>
+            <Input id="period-start" type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="period-end">Period end</Label>
+            <Input id="period-end" type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} />
+          </div>
+          <div className="md:col-span-6 flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Leave the period empty to use the first and last settlement dates in the file.
+            </p>
+            <Button onClick={uploadFile} disabled={actionLoading || !upload}>
+              Import and Reconcile
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Settlement Files
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {files.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">No settlement files uploaded yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Matched</TableHead>
+                  <TableHead className="text-right">Exceptions</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {files.map((file) => (
+                  <TableRow key={file.id} className={fileFilter?.id === file.id ? 'bg-muted/50' : ''}>
+                    <TableCell>
+                      <div className="font-medium">{file.fileName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {file.uploadedBy.email} · {format(new Date(file.createdAt), 'MMM d, h:mm a')}
+                      </div>
+                    </TableCell>
+                    <TableCell>{PROVIDERS.find((p) => p.value === file.provider)?.label || file.provider}</TableCell>
+                    <TableCell className="text-sm">
+                      {format(new Date(file.periodStart), 'MMM d')} – {format(new Date(file.periodEnd), 'MMM d, yyyy')}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(file.totalAmount)}</TableCell>
+                    <TableCell className="text-right">{file.matchedCount} / {file.lineCount}</TableCell>
+                    <TableCell className="text-right">
+                      {file.exceptionCount > 0 ? (
+                        <Badge className={getExceptionColor('unmatched_settlement')}>{file.exceptionCount}</Badge>
+                      ) : (
+                        <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">0</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button variant="outline" size="sm" onClick={() => setFileFilter(file)}>
+                        Exceptions
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => rerun(file)} disabled={actionLoading}>
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Exception Report</CardTitle>
+          <Button variant="outline" size="sm" onClick={exportCsv}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-5 items-end">
+            <div className="md:col-span-2 space-y-2">
+              <Label htmlFor="exception-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="exception-search"
+                  className="pl-8"
+                  placeholder="Provider reference or order number"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="resolved">Resolved</SelectItem>
+                  <SelectItem value="ignored">Ignored</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  {Object.entries(EXCEPTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select value={providerFilter} onValueChange={setProviderFilter}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  {PROVIDERS.map((p) => (
+                    <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {fileFilter && (
+              <Badge variant="outline" className="cursor-pointer" onClick={() => setFileFilter(null)}>
+                {fileFilter.fileName} ✕
+              </Badge>
+            )}
+            {summary.map((group) => (
+              <Badge key={group.type} className={getExceptionColor(group.type)}>
+                {EXCEPTION_LABELS[group.type] || group.type}: {group.count}
+                {group.delta !== 0 && ` (${formatAmount(group.delta)})`}
+              </Badge>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : exceptions.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">No exceptions match these filters</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Settled</TableHead>
+                  <TableHead className="text-right">Delta</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {exceptions.map((exception) => (
+                  <TableRow key={exception.id}>
+                    <TableCell>
+                      <Badge className={getExceptionColor(exception.type)}>
+                        {EXCEPTION_LABELS[exception.type] || exception.type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{exception.reference || '—'}</TableCell>
+                    <TableCell>
+                      {exception.order ? (
+                        <div>
+                          <div>{exception.order.orderNumber}</div>
+                          <div className="text-xs text-muted-foreground">{exception.order.paymentStatus}</div>
+                        </div>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(exception.expectedAmount)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(exception.settledAmount)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(exception.delta)}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{exception.file.fileName}</TableCell>
+                    <TableCell className="text-right min-w-[220px]">
+                      {exception.status !== 'open' ? (
+                        <div className="text-xs text-muted-foreground">
+                          {exception.status} by {exception.resolvedBy?.email || 'system'}
+                          {exception.resolutionNote && <div>{exception.resolutionNote}</div>}
+                        </div>
+                      ) : resolving === exception.id ? (
+                        <div className="space-y-2">
+                          <Input
+                            placeholder="Resolution note"
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" onClick={() => resolve(exception.id, 'resolved')} disabled={actionLoading}>
+                              Resolve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => resolve(exception.id, 'ignored')}
+                              disabled={actionLoading}
+                            >
+                              Ignore
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setResolving(null)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setResolving(exception.id);
+                            setNote('');
+                          }}
+                        >
+                          Resolve
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+'use client'
+
+import { FormEvent, useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Loader2, Search, SearchX, Trash2, Wand2 } from "lucide-react";
+
+interface QueryStats {
+  query: string;
+  searches: number;
+  zeroResultSearches: number;
+  clickThroughRate: number;
+  averageResults: number;
+  lastSearchedAt: string;
+}
+
+interface SearchAnalytics {
+  days: number;
+  totals: {
+    searches: number;
+    zeroResultRate: number;
+    clickThroughRate: number;
+    averageClickPosition: number | null;
+  };
+  topQueries: QueryStats[];
+  zeroResultQueries: QueryStats[];
+}
+
+interface SearchRule {
+  id: string;
+  query: string;
+  redirectUrl: string | null;
+  pinnedProductIds: string[];
+  synonyms: string[];
+  isActive: boolean;
+  _count: { searches: number };
+}
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+});
+
+const emptyForm = { query: '', redirectUrl: '', pinnedProductIds: '', synonyms: '' };
+
+const splitList = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+
+/**
+ * What shoppers search for, which searches find nothing, and the
+ * per-query redirects, pinned products and synonyms that fix them
+ */
+export default function AdminSearchInsights() {
+  const [days, setDays] = useState('30');
+  const [analytics, setAnalytics] = useState<SearchAnalytics | null>(null);
+  const [rules, setRules] = useState<SearchRule[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/search/analytics?days=${days}`, { headers: authHeaders() });
+      if (response.ok) {
+        setAnalytics(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching search analytics:', error);
+    }
+  }, [days]);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/search/rules', { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules);
+      }
+    } catch (error) {
+      console.error('Error fetching search rules:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const send = async (url: string, method: string, body?: object) => {
+    setSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders(),
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Search rule error:', error);
+      toast.error('Request failed');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addRule = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await send('/api/admin/search/rules', 'POST', {
+      query: form.query,
+      redirectUrl: form.redirectUrl || null,
+      pinnedProductIds: splitList(form.pinnedProductIds),
+      synonyms: splitList(form.synonyms),
+    });
+    if (data) {
+      toast.success(data.message);
+      setForm(emptyForm);
+      fetchRules();
+    }
+  };
+
+  const setActive = async (rule: SearchRule, isActive: boolean) => {
+    const data = await send(`/api/admin/search/rules/${rule.id}`, 'PATCH', { isActive });
+    if (data) fetchRules();
+  };
+
+  const removeRule = async (rule: SearchRule) => {
+    if (!confirm(`Remove the rule for "${rule.query}"?`)) return;
+    const data = await send(`/api/admin/search/rules/${rule.id}`, 'DELETE');
+    if (data) {
+      toast.success(data.message);
+      fetchRules();
+    }
+  };
+
+  const ruleFor = (query: string) => rules.find((rule) => rule.query === query);
+
+  const totals = analytics?.totals;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Search className="h-5 w-5" />
+          Search Insights
+        </h2>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Searches</CardDescription>
+            <CardTitle>{totals ? totals.searches.toLocaleString() : '—'}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Found nothing</CardDescription>
+            <CardTitle>{totals ? `${totals.zeroResultRate}%` : '—'}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Click-through rate</CardDescription>
+            <CardTitle>{totals ? `${totals.clickThroughRate}%` : '—'}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Avg. clicked position</CardDescription>
+            <CardTitle>{totals?.averageClickPosition ?? '—'}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Queries</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Query</TableHead>
+                  <TableHead className="text-right">Searches</TableHead>
+                  <TableHead className="text-right">CTR</TableHead>
+                  <TableHead className="text-right">Avg. results</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics?.topQueries.map((row) => (
+                  <TableRow key={row.query}>
+                    <TableCell className="font-medium">
+                      {row.query}
+                      {ruleFor(row.query) && <Badge variant="outline" className="ml-2">Rule</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">{row.searches}</TableCell>
+                    <TableCell className="text-right">{row.clickThroughRate}%</TableCell>
+                    <TableCell className="text-right">{row.averageResults}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <SearchX className="h-5 w-5" />
+              Zero-Result Queries
+            </CardTitle>
+            <CardDescription>Add a rule to redirect these searches, pin products or map them to other words.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Query</TableHead>
+                  <TableHead className="text-right">Searches</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics?.zeroResultQueries.map((row) => (
+                  <TableRow key={row.query}>
+                    <TableCell className="font-medium">{row.query}</TableCell>
+                    <TableCell className="text-right">{row.searches}</TableCell>
+                    <TableCell className="text-right">
+                      {ruleFor(row.query) ? (
+                        <Badge variant="outline">Rule</Badge>
+                      ) : (
+                        <Button variant="ghost" size="sm" onClick={() => setForm({ ...emptyForm, query: row.query })}>
+                          <Wand2 className="mr-1 h-4 w-4" />
+                          Fix
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Search Rules</CardTitle>
+          <CardDescription>
+            A rule can send a query to a page, list chosen products first, or add synonyms.
+            Separate product IDs and synonyms with commas.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={addRule} className="grid grid-cols-1 md:grid-cols-5 gap-2">
+            <Input
+              value={form.query}
+              onChange={(e) => setForm({ ...form, query: e.target.value })}
+              placeholder="Query"
+              required
+              disabled={saving}
+            />
+            <Input
+              value={form.redirectUrl}
+              onChange={(e) => setForm({ ...form, redirectUrl: e.target.value })}
+              placeholder="Redirect, e.g. /categories/phones"
+              disabled={saving}
+            />
+            <Input
+              value={form.pinnedProductIds}
+              onChange={(e) => setForm({ ...form, pinnedProductIds: e.target.value })}
+              placeholder="Pinned product IDs"
+              disabled={saving}
+            />
+            <Input
+              value={form.synonyms}
+              onChange={(e) => setForm({ ...form, synonyms: e.target.value })}
+              placeholder="Synonyms"
+              disabled={saving}
+            />
+            <Button type="submit" disabled={saving || !form.query}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Rule
+            </Button>
+          </form>
+
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No search rules yet.</p>
+          ) : (
+            <div className="divide-y">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 py-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">{rule.query}</p>
+                    <div className="flex flex-wrap gap-1 text-sm text-muted-foreground">
+                      {rule.redirectUrl && <Badge variant="secondary">→ {rule.redirectUrl}</Badge>}
+                      {rule.pinnedProductIds.length > 0 && (
+                        <Badge variant="secondary">{rule.pinnedProductIds.length} pinned</Badge>
+                      )}
+                      {rule.synonyms.map((synonym) => (
+                        <Badge key={synonym} variant="outline">{synonym}</Badge>
+                      ))}
+                      <span>· {rule._count.searches} searches</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={(checked) => setActive(rule, checked)}
+                      disabled={saving}
+                    />
+                    <span className="text-sm text-muted-foreground">Active</span>
+                    <Button variant="ghost" size="icon" onClick={() => removeRule(rule)} disabled={saving}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
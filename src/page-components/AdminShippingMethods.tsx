@@ -0,0 +1,460 @@
+'use client'
+
+import { FormEvent, useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Trash2, Truck } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+
+interface ShippingMethod {
+  id: string;
+  name: string;
+  carrier: string | null;
+  estimatedDaysMin: number | null;
+  estimatedDaysMax: number | null;
+  volumetricDivisor: number;
+  supportsCod: boolean;
+  isActive: boolean;
+  _count: { shippingRates: number };
+}
+
+interface ShippingZone {
+  id: string;
+  name: string;
+}
+
+interface ShippingRate {
+  id: string;
+  zone: ShippingZone;
+  originZone: ShippingZone | null;
+  method: { id: string; name: string };
+  baseRate: number;
+  perKgRate: number | null;
+  freeShippingThreshold: number | null;
+  codFee: number | null;
+  codFeePercent: number | null;
+  isActive: boolean;
+}
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+});
+
+const ANY_ORIGIN = 'any';
+
+const emptyMethodForm = { name: '', carrier: '', estimatedDaysMin: '', estimatedDaysMax: '', volumetricDivisor: '5000', supportsCod: true };
+
+const emptyRateForm = {
+  zoneId: '',
+  originZoneId: ANY_ORIGIN,
+  methodId: '',
+  baseRate: '',
+  perKgRate: '',
+  freeShippingThreshold: '',
+  codFee: '',
+  codFeePercent: '',
+};
+
+const optionalNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+/**
+ * Shipping methods and what each charges per destination zone, optionally
+ * from a specific origin zone, with cash-on-delivery fees
+ */
+export default function AdminShippingMethods() {
+  const [methods, setMethods] = useState<ShippingMethod[]>([]);
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [rates, setRates] = useState<ShippingRate[]>([]);
+  const [methodForm, setMethodForm] = useState(emptyMethodForm);
+  const [rateForm, setRateForm] = useState(emptyRateForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchMethods = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/shipping-methods', { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setMethods(data.methods);
+      }
+    } catch (error) {
+      console.error('Error fetching shipping methods:', error);
+    }
+  }, []);
+
+  const fetchRates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/shipping-rates', { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setRates(data.rates);
+      }
+    } catch (error) {
+      console.error('Error fetching shipping rates:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/admin/shipping-zones', { headers: authHeaders() })
+      .then((response) => (response.ok ? response.json() : { shippingZones: [] }))
+      .then((data) => setZones(data.shippingZones))
+      .catch((error) => console.error('Error fetching shipping zones:', error));
+    fetchMethods();
+    fetchRates();
+  }, [fetchMethods, fetchRates]);
+
+  const send = async (url: string, method: string, body?: object) => {
+    setSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders(),
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Shipping settings error:', error);
+      toast.error('Request failed');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addMethod = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await send('/api/admin/shipping-methods', 'POST', {
+      name: methodForm.name,
+      carrier: methodForm.carrier || null,
+      estimatedDaysMin: optionalNumber(methodForm.estimatedDaysMin),
+      estimatedDaysMax: optionalNumber(methodForm.estimatedDaysMax),
+      volumetricDivisor: Number(methodForm.volumetricDivisor),
+      supportsCod: methodForm.supportsCod,
+    });
+    if (data) {
+      toast.success(data.message);
+      setMethodForm(emptyMethodForm);
+      fetchMethods();
+    }
+  };
+
+  const updateMethod = async (method: ShippingMethod, changes: Partial<ShippingMethod>) => {
+    const data = await send(`/api/admin/shipping-methods/${method.id}`, 'PATCH', changes);
+    if (data) fetchMethods();
+  };
+
+  const removeMethod = async (method: ShippingMethod) => {
+    if (!confirm(`Remove "${method.name}" and its rates?`)) return;
+    const data = await send(`/api/admin/shipping-methods/${method.id}`, 'DELETE');
+    if (data) {
+      toast.success(data.message);
+      fetchMethods();
+      fetchRates();
+    }
+  };
+
+  const addRate = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await send('/api/admin/shipping-rates', 'POST', {
+      zoneId: rateForm.zoneId,
+      originZoneId: rateForm.originZoneId === ANY_ORIGIN ? null : rateForm.originZoneId,
+      methodId: rateForm.methodId,
+      baseRate: Number(rateForm.baseRate),
+      perKgRate: optionalNumber(rateForm.perKgRate),
+      freeShippingThreshold: optionalNumber(rateForm.freeShippingThreshold),
+      codFee: optionalNumber(rateForm.codFee),
+      codFeePercent: rateForm.codFeePercent.trim() === '' ? null : Number(rateForm.codFeePercent) / 100,
+    });
+    if (data) {
+      toast.success(data.message);
+      setRateForm(emptyRateForm);
+      fetchRates();
+      fetchMethods();
+    }
+  };
+
+  const setRateActive = async (rate: ShippingRate, isActive: boolean) => {
+    const data = await send(`/api/admin/shipping-rates/${rate.id}`, 'PATCH', { isActive });
+    if (data) fetchRates();
+  };
+
+  const removeRate = async (rate: ShippingRate) => {
+    if (!confirm(`Remove the ${rate.method.name} rate to ${rate.zone.name}?`)) return;
+    const data = await send(`/api/admin/shipping-rates/${rate.id}`, 'DELETE');
+    if (data) {
+      toast.success(data.message);
+      fetchRates();
+      fetchMethods();
+    }
+  };
+
+  const codLabel = (rate: ShippingRate) => {
+    const parts = [
+      rate.codFee ? formatCurrency(rate.codFee) : null,
+      rate.codFeePercent ? `${Math.round(rate.codFeePercent * 10000) / 100}%` : null,
+    ].filter(Boolean);
+    return parts.length > 0 ? `COD ${parts.join(' + ')}` : null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Shipping Methods
+          </CardTitle>
+          <CardDescription>
+            Parcels are charged by the greater of their actual weight and their dimensional weight
+            (length × width × height in cm ÷ divisor).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={addMethod} className="grid grid-cols-2 md:grid-cols-7 gap-2 items-center">
+            <Input
+              value={methodForm.name}
+              onChange={(e) => setMethodForm({ ...methodForm, name: e.target.value })}
+              placeholder="Name, e.g. Express"
+              required
+              disabled={saving}
+            />
+            <Input
+              value={methodForm.carrier}
+              onChange={(e) => setMethodForm({ ...methodForm, carrier: e.target.value })}
+              placeholder="Carrier"
+              disabled={saving}
+            />
+            <Input
+              type="number"
+              min="0"
+              value={methodForm.estimatedDaysMin}
+              onChange={(e) => setMethodForm({ ...methodForm, estimatedDaysMin: e.target.value })}
+              placeholder="Min days"
+              disabled={saving}
+            />
+            <Input
+              type="number"
+              min="0"
+              value={methodForm.estimatedDaysMax}
+              onChange={(e) => setMethodForm({ ...methodForm, estimatedDaysMax: e.target.value })}
+              placeholder="Max days"
+              disabled={saving}
+            />
+            <Input
+              type="number"
+              min="1000"
+              max="10000"
+              value={methodForm.volumetricDivisor}
+              onChange={(e) => setMethodForm({ ...methodForm, volumetricDivisor: e.target.value })}
+              placeholder="Divisor"
+              disabled={saving}
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={methodForm.supportsCod}
+                onCheckedChange={(checked) => setMethodForm({ ...methodForm, supportsCod: checked })}
+                disabled={saving}
+              />
+              Cash on delivery
+            </label>
+            <Button type="submit" disabled={saving || !methodForm.name}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Method
+            </Button>
+          </form>
+
+          {methods.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No shipping methods yet.</p>
+          ) : (
+            <div className="divide-y">
+              {methods.map((method) => (
+                <div key={method.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 py-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {method.name}
+                      {method.carrier && <span className="text-muted-foreground font-normal"> · {method.carrier}</span>}
+                    </p>
+                    <div className="flex flex-wrap gap-1 text-sm text-muted-foreground">
+                      {method.estimatedDaysMax != null && (
+                        <Badge variant="secondary">
+                          {method.estimatedDaysMin ?? 0}-{method.estimatedDaysMax} days
+                        </Badge>
+                      )}
+                      <Badge variant="outline">÷ {method.volumetricDivisor}</Badge>
+                      <span>· {method._count.shippingRates} rates</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={method.supportsCod}
+                      onCheckedChange={(checked) => updateMethod(method, { supportsCod: checked })}
+                      disabled={saving}
+                    />
+                    <span className="text-sm text-muted-foreground">COD</span>
+                    <Switch
+                      checked={method.isActive}
+                      onCheckedChange={(checked) => updateMethod(method, { isActive: checked })}
+                      disabled={saving}
+                    />
+                    <span className="text-sm text-muted-foreground">Active</span>
+                    <Button variant="ghost" size="icon" onClick={() => removeMethod(method)} disabled={saving}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Shipping Rates</CardTitle>
+          <CardDescription>
+            A rate with an origin zone applies only to vendors shipping from that zone and takes
+            precedence over the method&apos;s any-origin rate. The COD percentage is charged on the shipment value.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={addRate} className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <Select value={rateForm.zoneId} onValueChange={(zoneId) => setRateForm({ ...rateForm, zoneId })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Destination zone" />
+              </SelectTrigger>
+              <SelectContent>
+                {zones.map((zone) => (
+                  <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={rateForm.originZoneId} onValueChange={(originZoneId) => setRateForm({ ...rateForm, originZoneId })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_ORIGIN}>From anywhere</SelectItem>
+                {zones.map((zone) => (
+                  <SelectItem key={zone.id} value={zone.id}>From {zone.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={rateForm.methodId} onValueChange={(methodId) => setRateForm({ ...rateForm, methodId })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Method" />
+              </SelectTrigger>
+              <SelectContent>
+                {methods.map((method) => (
+                  <SelectItem key={method.id} value={method.id}>{method.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={rateForm.baseRate}
+              onChange={(e) => setRateForm({ ...rateForm, baseRate: e.target.value })}
+              placeholder="Base rate"
+              required
+              disabled={saving}
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={rateForm.perKgRate}
+              onChange={(e) => setRateForm({ ...rateForm, perKgRate: e.target.value })}
+              placeholder="Per kg"
+              disabled={saving}
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={rateForm.freeShippingThreshold}
+              onChange={(e) => setRateForm({ ...rateForm, freeShippingThreshold: e.target.value })}
+              placeholder="Free above"
+              disabled={saving}
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={rateForm.codFee}
+              onChange={(e) => setRateForm({ ...rateForm, codFee: e.target.value })}
+              placeholder="COD fee"
+              disabled={saving}
+            />
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              value={rateForm.codFeePercent}
+              onChange={(e) => setRateForm({ ...rateForm, codFeePercent: e.target.value })}
+              placeholder="COD %"
+              disabled={saving}
+            />
+            <Button
+              type="submit"
+              className="md:col-span-2"
+              disabled={saving || !rateForm.zoneId || !rateForm.methodId || rateForm.baseRate === ''}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Rate
+            </Button>
+          </form>
+
+          {rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No shipping rates yet.</p>
+          ) : (
+            <div className="divide-y">
+              {rates.map((rate) => (
+                <div key={rate.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 py-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {rate.method.name} → {rate.zone.name}
+                      <span className="text-muted-foreground font-normal">
+                        {' '}· {rate.originZone ? `from ${rate.originZone.name}` : 'from anywhere'}
+                      </span>
+                    </p>
+                    <div className="flex flex-wrap gap-1 text-sm text-muted-foreground">
+                      <Badge variant="secondary">{formatCurrency(rate.baseRate)}</Badge>
+                      {rate.perKgRate != null && <Badge variant="secondary">+{formatCurrency(rate.perKgRate)}/kg</Badge>}
+                      {rate.freeShippingThreshold != null && (
+                        <Badge variant="outline">Free above {formatCurrency(rate.freeShippingThreshold)}</Badge>
+                      )}
+                      {codLabel(rate) && <Badge variant="outline">{codLabel(rate)}</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rate.isActive}
+                      onCheckedChange={(checked) => setRateActive(rate, checked)}
+                      disabled={saving}
+                    />
+                    <span className="text-sm text-muted-foreground">Active</span>
+                    <Button variant="ghost" size="icon" onClick={() => removeRate(rate)} disabled={saving}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
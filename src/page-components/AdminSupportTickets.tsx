@@ -0,0 +1,457 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Clock, Lock, Mail, MessageSquare, Package, Search } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/auth-context';
+import { formatTicketLabel, getTicketStatusColor } from '@/page-components/SupportTickets';
+
+type SlaStatus = 'on_track' | 'at_risk' | 'breached' | 'met';
+
+interface QueueTicket {
+  id: string;
+  ticketNumber: string;
+  subject: string;
+  name: string;
+  email: string;
+  category: string;
+  priority: string;
+  status: string;
+  orderNumber?: string | null;
+  firstResponseDueAt: string;
+  resolutionDueAt: string;
+  firstRespondedAt?: string | null;
+  lastActivityAt: string;
+  assignedTo?: { id: string; email: string } | null;
+  slaStatus: SlaStatus;
+  _count: { messages: number };
+}
+
+interface TicketMessage {
+  id: string;
+  authorType: 'customer' | 'agent' | 'system';
+  channel: string;
+  body: string;
+  isInternal: boolean;
+  createdAt: string;
+  author?: { id: string; email: string } | null;
+}
+
+interface TicketDetail extends QueueTicket {
+  order?: { id: string; orderNumber: string; status: string; totalAmount: number } | null;
+  messages: TicketMessage[];
+}
+
+const STATUSES = ['open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed'];
+const PRIORITIES = ['low', 'normal', 'high', 'urgent'];
+
+const getSlaColor = (status: SlaStatus) => {
+  switch (status) {
+    case 'breached':
+      return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+    case 'at_risk':
+      return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400';
+    case 'met':
+      return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+    default:
+      return 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400';
+  }
+};
+
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'urgent':
+      return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+    case 'high':
+      return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400';
+    case 'low':
+      return 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400';
+    default:
+      return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+  }
+};
+
+export default function AdminSupportTickets() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [tickets, setTickets] = useState<QueueTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>('active');
+  const [priorityFilter, setPriorityFilter] = useState<string>('all');
+  const [assignedFilter, setAssignedFilter] = useState<string>('all');
+  const [breachedOnly, setBreachedOnly] = useState(false);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<TicketDetail | null>(null);
+  const [reply, setReply] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+  const [replyStatus, setReplyStatus] = useState<string>('waiting_on_customer');
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const authHeaders = (): Record<string, string> => {
+    const token = localStorage.getItem('auth_token');
+    return token ? { 'Authorization': `Bearer ${token}` } : {};
+  };
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'active') params.append('status', statusFilter);
+      if (priorityFilter !== 'all') params.append('priority', priorityFilter);
+      if (assignedFilter !== 'all') params.append('assignedTo', assignedFilter);
+      if (breachedOnly) params.append('breached', 'true');
+      if (search.trim()) params.append('search', search.trim());
+
+      const res = await fetch(`/api/admin/support/tickets?${params.toString()}`, {
+        headers: authHeaders(),
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setTickets(data.tickets || []);
+      }
+    } catch (error) {
+      console.error('Error fetching ticket queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, priorityFilter, assignedFilter, breachedOnly, search]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const openTicket = async (id: string) => {
+    try {
+      const res = await fetch(`/api/support/tickets/${id}`, { headers: authHeaders() });
+      if (res.ok) {
+        const data = await res.json();
+        setSelected(data.ticket);
+      }
+    } catch (error) {
+      console.error('Error fetching ticket:', error);
+    }
+  };
+
+  const updateTicket = async (changes: { status?: string; priority?: string; assignedToId?: string | null }) => {
+    if (!selected) return;
+    setActionLoading(true);
+    try {
+      const res = await fetch(`/api/support/tickets/${selected.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast({ title: 'Error', description: data.error || 'Failed to update ticket', variant: 'destructive' });
+        return;
+      }
+      await openTicket(selected.id);
+      fetchQueue();
+    } catch (error) {
+      console.error('Error updating ticket:', error);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const sendReply = async () => {
+    if (!selected || !reply.trim()) return;
+    setActionLoading(true);
+    try {
+      const res = await fetch(`/api/support/tickets/${selected.id}/replies`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({
+          body: reply.trim(),
+          isInternal,
+          ...(isInternal ? {} : { status: replyStatus }),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast({ title: 'Error', description: data.error || 'Failed to send reply', variant: 'destructive' });
+        return;
+      }
+      toast({
+        title: isInternal ? 'Note added' : 'Reply sent',
+        description: isInternal ? 'Only agents can see this note' : `The customer has been emailed`,
+      });
+      setReply('');
+      setIsInternal(false);
+      await openTicket(selected.id);
+      fetchQueue();
+    } catch (error) {
+      console.error('Error sending reply:', error);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const authorLabel = (message: TicketMessage) => {
+    if (message.authorType === 'system') return 'System';
+    if (message.authorType === 'agent') return message.author?.email || 'Agent';
+    return selected?.name || 'Customer';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Support Tickets</h1>
+        <p className="text-muted-foreground">
+          Customer requests ordered by priority and SLA deadline
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 grid gap-4 md:grid-cols-5 items-end">
+          <div className="md:col-span-2 space-y-2">
+            <Label htmlFor="ticket-search">Search</Label>
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="ticket-search"
+                className="pl-8"
+                placeholder="Ticket, subject, email or order"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                {STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>{formatTicketLabel(status)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Priority</Label>
+            <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {PRIORITIES.map((priority) => (
+                  <SelectItem key={priority} value={priority}>{formatTicketLabel(priority)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Assigned</Label>
+            <Select value={assignedFilter} onValueChange={setAssignedFilter}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                <SelectItem value="me">Me</SelectItem>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 md:col-span-5">
+            <Switch id="breached-only" checked={breachedOnly} onCheckedChange={setBreachedOnly} />
+            <Label htmlFor="breached-only">Only tickets past their SLA</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Card key={i}>
+              <CardContent className="p-6">
+                <Skeleton className="h-6 w-3/4 mb-2" />
+                <Skeleton className="h-4 w-1/2" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : tickets.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No tickets match these filters
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            {tickets.map((ticket) => (
+              <Card
+                key={ticket.id}
+                className={`cursor-pointer hover:shadow-md transition-shadow ${selected?.id === ticket.id ? 'ring-2 ring-primary' : ''}`}
+                onClick={() => openTicket(ticket.id)}
+              >
+                <CardContent className="p-4">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <h3 className="font-semibold">{ticket.subject}</h3>
+                    <Badge className={getPriorityColor(ticket.priority)}>{formatTicketLabel(ticket.priority)}</Badge>
+                    <Badge className={getTicketStatusColor(ticket.status)}>{formatTicketLabel(ticket.status)}</Badge>
+                    <Badge className={getSlaColor(ticket.slaStatus)}>SLA {formatTicketLabel(ticket.slaStatus)}</Badge>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 sm:gap-4 text-sm text-muted-foreground">
+                    <span>{ticket.ticketNumber}</span>
+                    <span>{ticket.email}</span>
+                    <span>{formatTicketLabel(ticket.category)}</span>
+                    <span className="flex items-center gap-1">
+                      <MessageSquare className="h-4 w-4" />
+                      {ticket._count.messages}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-4 w-4" />
+                      {ticket.firstRespondedAt
+                        ? `Resolve ${formatDistanceToNow(new Date(ticket.resolutionDueAt), { addSuffix: true })}`
+                        : `Respond ${formatDistanceToNow(new Date(ticket.firstResponseDueAt), { addSuffix: true })}`}
+                    </span>
+                    <span>{ticket.assignedTo ? ticket.assignedTo.email : 'Unassigned'}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {selected && (
+            <Card className="h-fit lg:sticky lg:top-4">
+              <CardHeader>
+                <CardTitle className="text-lg">{selected.subject}</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {selected.ticketNumber} · {selected.name} &lt;{selected.email}&gt;
+                </p>
+                {selected.order && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <Package className="h-4 w-4" />
+                    Order #{selected.order.orderNumber} · {formatTicketLabel(selected.order.status)} · ETB {Number(selected.order.totalAmount).toFixed(2)}
+                  </p>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Status</Label>
+                    <Select
+                      value={selected.status}
+                      onValueChange={(status) => updateTicket({ status })}
+                      disabled={actionLoading}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {STATUSES.map((status) => (
+                          <SelectItem key={status} value={status}>{formatTicketLabel(status)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Priority</Label>
+                    <Select
+                      value={selected.priority}
+                      onValueChange={(priority) => updateTicket({ priority })}
+                      disabled={actionLoading}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {PRIORITIES.map((priority) => (
+                          <SelectItem key={priority} value={priority}>{formatTicketLabel(priority)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Assignee</Label>
+                    {selected.assignedTo?.id === user?.id ? (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => updateTicket({ assignedToId: null })}
+                        disabled={actionLoading}
+                      >
+                        Unassign
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => updateTicket({ assignedToId: user?.id })}
+                        disabled={actionLoading || !user}
+                      >
+                        Assign to me
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-3 max-h-[420px] overflow-y-auto">
+                  {selected.messages.map((message) => (
+                    <div
+                      key={message.id}
+                      className={`p-3 rounded-lg text-sm ${
+                        message.isInternal
+                          ? 'bg-yellow-50 border border-yellow-200 dark:bg-yellow-900/20 dark:border-yellow-800'
+                          : message.authorType === 'agent'
+                            ? 'bg-primary/10'
+                            : 'bg-muted'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-1 text-xs text-muted-foreground">
+                        <span className="font-medium flex items-center gap-1">
+                          {message.isInternal && <Lock className="h-3 w-3" />}
+                          {authorLabel(message)}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          {message.channel === 'email' && <Mail className="h-3 w-3" />}
+                          {format(new Date(message.createdAt), 'MMM d, h:mm a')}
+                        </span>
+                      </div>
+                      <p className="whitespace-pre-wrap">{message.body}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <Textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder={isInternal ? 'Internal note for other agents...' : 'Reply to the customer...'}
+                    rows={4}
+                  />
+                  <div className="flex flex-wrap items-center gap-4">
+                    <div className="flex items-center gap-2">
+                      <Switch id="internal-note" checked={isInternal} onCheckedChange={setIsInternal} />
+                      <Label htmlFor="internal-note">Internal note</Label>
+                    </div>
+                    {!isInternal && (
+                      <Select value={replyStatus} onValueChange={setReplyStatus}>
+                        <SelectTrigger className="w-[220px]"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="waiting_on_customer">Send and wait on customer</SelectItem>
+                          <SelectItem value="in_progress">Send and keep in progress</SelectItem>
+                          <SelectItem value="resolved">Send and resolve</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button onClick={sendReply} disabled={actionLoading || !reply.trim()} className="ml-auto">
+                      {isInternal ? 'Add Note' : 'Send Reply'}
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
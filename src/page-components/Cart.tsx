@@ -10,22 +10,86 @@ import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import { FormEvent, useState, useEffect } from "react";
 import { Input } from "@/components/ui/input";
-import { Minus, Plus, X, Gift } from "lucide-react";
+import { Minus, Plus, X, Gift, Truck } from "lucide-react";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { PAYMENT_METHODS, PAYMENT_INSTRUCTIONS, PaymentMethod } from "@/types/payment";
 import { formatCurrency } from "@/lib/utils";
 import { Checkbox } from "@/components/ui/checkbox";
+import { ETHIOPIAN_MAJOR_CITIES } from "@/lib/shipping";
 
 // Redemption rate: 100 points = 10 ETB (1 point = 0.1 ETB)
 const POINTS_TO_CURRENCY_RATE = 0.1;
 
+interface PriceAdjustment {
+  type: 'flash' | 'tiered' | 'promotion' | 'coupon';
+  sourceId?: string;
+  name: string;
+  amount: number;
+  description: string;
+}
+
+interface ShippingOption {
+  methodId: string;
+  name: string;
+  carrier?: string;
+  rate: number;
+  codFee?: number;
+  estimatedDaysMin?: number;
+  estimatedDaysMax?: number;
+}
+
+// One vendor's items, shipped from the vendor's city
+interface VendorShipment {
+  vendorId: string;
+  vendorName: string;
+  origin: { city?: string } | null;
+  productIds: string[];
+  subtotal: number;
+  options: ShippingOption[];
+  selected: ShippingOption | null;
+}
+
+// Server quote from /api/cart/calculate; the order is charged the same amounts
+interface CartQuote {
+  subtotal: number;
+  discountAmount: number;
+  subtotalAfterDiscount: number;
+  freeShipping: boolean;
+  coupon: { code: string } | null;
+  couponError?: string;
+  lines: Array<{ productId: string; total: number; adjustments: PriceAdjustment[] }>;
+  adjustments: PriceAdjustment[];
+  shippingAmount: number;
+  shipments?: VendorShipment[];
+  unavailableVendorIds?: string[];
+}
+
+const deliveryEstimate = (option: ShippingOption) => {
+  if (!option.estimatedDaysMin && !option.estimatedDaysMax) return null;
+  if (option.estimatedDaysMin === option.estimatedDaysMax || !option.estimatedDaysMax) {
+    return `${option.estimatedDaysMin} days`;
+  }
+  return `${option.estimatedDaysMin ?? 1}-${option.estimatedDaysMax} days`;
+};
+
 export default function Cart() {
   const { cart, removeFromCart, updateCartQuantity } = useShop();
   const { user } = useAuth();
   const router = useRouter();
   
-  const total = cart.reduce((sum, i) => sum + i.price * (i.quantity || 1), 0);
+  const listTotal = cart.reduce((sum, i) => sum + i.price * (i.quantity || 1), 0);
+  const [quote, setQuote] = useState<CartQuote | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState('');
+  // Merchandise total after flash sales, promotions and coupon
+  const total = quote ? quote.subtotalAfterDiscount : listTotal;
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('COD');
+  const [shippingCity, setShippingCity] = useState('');
+  // Chosen shipping method per vendor; vendors without one get the cheapest
+  const [shippingSelections, setShippingSelections] = useState<Record<string, string>>({});
+  const shippingAmount = quote?.shipments ? quote.shippingAmount : 0;
+  const undeliverable = (quote?.unavailableVendorIds?.length ?? 0) > 0;
   const [teleBirrPhone, setTeleBirrPhone] = useState('');
   const [teleBirrReference, setTeleBirrReference] = useState('');
   const [loyaltyPoints, setLoyaltyPoints] = useState(0);
@@ -63,6 +127,47 @@ export default function Cart() {
     }
   };
 
+  // Re-price the cart on the server whenever items, the coupon or the delivery choices change
+  useEffect(() => {
+    if (cart.length === 0) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchQuote = async () => {
+      try {
+        const token = localStorage.getItem('auth_token');
+        const res = await fetch('/api/cart/calculate', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify({
+            items: cart.map(i => ({ productId: i.id, quantity: i.quantity || 1 })),
+            couponCode: appliedCoupon || undefined,
+            ...(shippingCity && {
+              shippingAddress: { country: 'ET', city: shippingCity },
+              paymentMethod,
+              shippingSelections,
+            }),
+          }),
+        });
+        if (res.ok && !cancelled) {
+          setQuote(await res.json());
+        }
+      } catch (error) {
+        console.error('Failed to price cart:', error);
+      }
+    };
+    fetchQuote();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cart, appliedCoupon, shippingCity, paymentMethod, shippingSelections]);
+
   // Calculate discount when points change
   useEffect(() => {
     if (usePoints && pointsToRedeem > 0) {
@@ -76,7 +181,7 @@ export default function Cart() {
   // Calculate gift card discount (can't exceed remaining total after loyalty discount)
   const afterLoyaltyTotal = Math.max(0, total - loyaltyDiscount);
   const giftCardDiscount = Math.min(giftCardAmount, afterLoyaltyTotal);
-  const finalTotal = Math.max(0, afterLoyaltyTotal - giftCardDiscount);
+  const finalTotal = Math.max(0, afterLoyaltyTotal - giftCardDiscount) + shippingAmount;
 
   const handleBuy = async (e: FormEvent) => {
     e.preventDefault();
@@ -85,18 +190,26 @@ export default function Cart() {
       router.push("/auth/login");
       return;
     }
+    if (!shippingCity) {
+      toast.error("Please choose a delivery city");
+      return;
+    }
+    if (undeliverable) {
+      toast.error("Some items cannot be delivered to this city");
+      return;
+    }
     try {
       // Basic payload for order creation (server will compute authoritative totals)
       const payload = {
         items: cart.map(i => ({ id: i.id, quantity: i.quantity || 1, price: i.price })),
+        couponCode: quote?.coupon ? appliedCoupon : undefined,
         paymentMethod,
         paymentMeta: paymentMethod === 'TeleBirr' ? {
           phone: teleBirrPhone,
           reference: teleBirrReference,
         } : undefined,
-        // Placeholder shipping/billing, extend later
-        shippingAddress: null,
-        billingAddress: null,
+        shippingAddress: { city: shippingCity, country: 'ET' },
+        shippingSelections,
         loyaltyPointsToRedeem: usePoints ? pointsToRedeem : undefined,
         giftCardCode: giftCardApplied ? giftCardCode : undefined,
         giftCardAmount: giftCardApplied ? giftCardAmount : undefined,
@@ -115,9 +228,20 @@ export default function Cart() {
         toast.error(data.error || 'Failed to create order');
         return;
       }
-      toast.success(`Order created with ${paymentMethod}. ${paymentMethod === 'COD' ? 'Please prepare payment on delivery.' : 'Follow payment instructions.'}`);
       // Clear cart after successful order creation
       cart.forEach(item => removeFromCart(item.id));
+      if (data.providerPayment?.checkoutUrl) {
+        // Continue on the provider's payment page; its callback confirms the order
+        window.location.href = data.providerPayment.checkoutUrl;
+        return;
+      }
+      if (data.providerPayment) {
+        toast.success(data.providerPayment.instructions || 'Confirm the payment request on your phone.');
+      } else if (data.paymentError) {
+        toast.error(data.paymentError);
+      } else {
+        toast.success(`Order created with ${paymentMethod}. ${paymentMethod === 'COD' ? 'Please prepare payment on delivery.' : 'Follow payment instructions.'}`);
+      }
       router.push('/orders');
     } catch (err) {
       console.error('Checkout error', err);
@@ -209,6 +333,11 @@ export default function Cart() {
                     <div>
                       <p className="font-medium">{item.name}</p>
                       <p className="text-sm text-muted-foreground">{formatCurrency(item.price)}</p>
+                      {quote?.lines.find(l => l.productId === item.id)?.adjustments.map((adj) => (
+                        <p key={`${adj.type}-${adj.sourceId ?? adj.name}`} className="text-xs text-green-600">
+                          {adj.name}: {adj.description} (-{formatCurrency(adj.amount)})
+                        </p>
+                      ))}
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
@@ -247,8 +376,14 @@ export default function Cart() {
               <div className="pt-4 border-t space-y-2">
                 <div className="flex items-center justify-between">
                   <p className="text-sm text-muted-foreground">Subtotal</p>
-                  <p className="text-sm">{formatCurrency(total)}</p>
+                  <p className="text-sm">{formatCurrency(quote ? quote.subtotal : listTotal)}</p>
                 </div>
+                {quote?.adjustments.map((adj) => (
+                  <div key={`${adj.type}-${adj.sourceId ?? adj.name}`} className="flex items-center justify-between text-green-600">
+                    <p className="text-sm">{adj.name} <span className="text-xs">({adj.description})</span></p>
+                    <p className="text-sm">{adj.amount > 0 ? `-${formatCurrency(adj.amount)}` : ''}</p>
+                  </div>
+                ))}
                 {loyaltyDiscount > 0 && (
                   <div className="flex items-center justify-between text-green-600">
                     <p className="text-sm">Loyalty Discount</p>
@@ -261,12 +396,126 @@ export default function Cart() {
                     <p className="text-sm">-{formatCurrency(giftCardDiscount)}</p>
                   </div>
                 )}
+                {quote?.shipments && (
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-muted-foreground">Shipping</p>
+                    <p className="text-sm">{shippingAmount > 0 ? formatCurrency(shippingAmount) : 'Free'}</p>
+                  </div>
+                )}
                 <div className="flex items-center justify-between pt-2 border-t">
                   <p className="font-semibold">Total</p>
                   <p className="font-bold text-primary">{formatCurrency(finalTotal)}</p>
                 </div>
               </div>
 
+              {/* Delivery: one shipment per vendor */}
+              <div className="p-4 border rounded-lg">
+                <div className="flex items-center gap-2 mb-3">
+                  <Truck className="h-5 w-5" />
+                  <h3 className="font-semibold">Delivery</h3>
+                </div>
+                <Select value={shippingCity} onValueChange={setShippingCity}>
+                  <SelectTrigger className="w-full md:w-64">
+                    <SelectValue placeholder="Delivery city" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ETHIOPIAN_MAJOR_CITIES.map((city) => (
+                      <SelectItem key={city} value={city}>{city}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {quote?.shipments && (
+                  <div className="mt-4 space-y-3">
+                    {quote.shipments.map((shipment) => (
+                      <div key={shipment.vendorId} className="p-3 rounded-md border bg-background">
+                        <div className="flex items-center justify-between mb-2">
+                          <p className="text-sm font-medium">
+                            {shipment.vendorName}
+                            {shipment.origin?.city && (
+                              <span className="text-muted-foreground font-normal"> · ships from {shipment.origin.city}</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {shipment.productIds.length} {shipment.productIds.length === 1 ? 'item' : 'items'}
+                          </p>
+                        </div>
+                        {shipment.options.length === 0 ? (
+                          <p className="text-xs text-red-600">These items cannot be delivered to {shippingCity}.</p>
+                        ) : (
+                          <RadioGroup
+                            value={shipment.selected?.methodId}
+                            onValueChange={(methodId) =>
+                              setShippingSelections((prev) => ({ ...prev, [shipment.vendorId]: methodId }))
+                            }
+                            className="gap-2"
+                          >
+                            {shipment.options.map((option) => (
+                              <label key={option.methodId} className="flex items-center justify-between gap-3 cursor-pointer">
+                                <span className="flex items-center gap-2 text-sm">
+                                  <RadioGroupItem value={option.methodId} />
+                                  <span>
+                                    {option.name}
+                                    {deliveryEstimate(option) && (
+                                      <span className="text-xs text-muted-foreground"> · {deliveryEstimate(option)}</span>
+                                    )}
+                                    {option.codFee ? (
+                                      <span className="text-xs text-muted-foreground"> · incl. {formatCurrency(option.codFee)} COD fee</span>
+                                    ) : null}
+                                  </span>
+                                </span>
+                                <span className="text-sm">{option.rate > 0 ? formatCurrency(option.rate) : 'Free'}</span>
+                              </label>
+                            ))}
+                          </RadioGroup>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Coupon */}
+              <div className="p-4 border rounded-lg">
+                <h3 className="font-semibold mb-3">Coupon</h3>
+                {appliedCoupon && quote?.coupon ? (
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm">Code <span className="font-medium">{appliedCoupon}</span> applied</p>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setAppliedCoupon('');
+                        setCouponInput('');
+                      }}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <div className="flex-1">
+                      <Input
+                        type="text"
+                        placeholder="Coupon code"
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                      />
+                      {appliedCoupon && quote?.couponError && (
+                        <p className="text-xs text-red-600 mt-1">{quote.couponError}</p>
+                      )}
+                    </div>
+                    <Button
+                      type="button"
+                      onClick={() => setAppliedCoupon(couponInput.trim())}
+                      disabled={!couponInput.trim()}
+                    >
+                      Apply
+                    </Button>
+                  </div>
+                )}
+              </div>
+
               {/* Gift Card Redemption */}
               {user && (
                 <div className="p-4 border rounded-lg bg-gradient-to-br from-blue-50 to-cyan-50">
@@ -420,7 +669,7 @@ export default function Cart() {
                       />
                     </div>
                     <div>
-                      <label className="block text-sm font-medium mb-1">Payment Reference</label>
+                      <label className="block text-sm font-medium mb-1">Payment Reference (if already paid)</label>
                       <Input
                         placeholder="Reference code"
                         value={teleBirrReference}
@@ -431,7 +680,7 @@ export default function Cart() {
                 )}
               </div>
               <div className="flex justify-end mt-4">
-                <Button className="bg-primary hover:bg-primary/90" onClick={handleBuy}>
+                <Button className="bg-primary hover:bg-primary/90" onClick={handleBuy} disabled={undeliverable}>
                   Place Order
                 </Button>
               </div>
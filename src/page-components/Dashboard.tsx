@@ -30,7 +30,9 @@ import {
   AlertCircle,
   FileText,
   Receipt,
-  Sparkles
+  Sparkles,
+  MessageSquare,
+  RotateCcw
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -47,6 +49,12 @@ import { ErrorBoundary } from "@/components/error-boundary"
 import { LoadingState, CardLoadingSkeleton } from "@/components/ui/loading-state"
 import { ErrorState } from "@/components/ui/error-state"
 import { EmptyState } from "@/components/ui/empty-state"
+import {
+  PriceTiersEditor,
+  findPriceTierError,
+  toPriceTierPayload,
+  type PriceTierRow
+} from "@/components/vendor/PriceTiersEditor"
 import {
   ChartContainer,
   ChartTooltip,
@@ -74,6 +82,9 @@ import heroImage from "@/assets/hero-marketplace.jpg"
 import VendorAdvancedDashboard from "./VendorAdvancedDashboard"
 import EnhancedAnalytics from "@/components/vendor/EnhancedAnalytics"
 import VendorLiveStats from "@/components/vendor/VendorLiveStats"
+import VendorInbox from "@/components/vendor/VendorInbox"
+import VendorOrders from "@/components/vendor/VendorOrders"
+import VendorReturns from "@/components/vendor/VendorReturns"
 
 // TypeScript interfaces for API responses
 interface VendorStatement {
@@ -189,6 +200,7 @@ export default function Dashboard() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [newProduct, setNewProduct] = useState(INITIAL_PRODUCT_FORM)
+  const [priceTiers, setPriceTiers] = useState<PriceTierRow[]>([])
   const [uploadingImage, setUploadingImage] = useState(false)
   const [imagePreview, setImagePreview] = useState<string | null>(null)
   const [statements, setStatements] = useState<VendorStatement[]>([])
@@ -196,7 +208,11 @@ export default function Dashboard() {
   const [loadingStatements, setLoadingStatements] = useState(false)
   const [loadingLedger, setLoadingLedger] = useState(false)
   const { toast } = useToast()
-  const { user, profile, requestVendorVerification } = useAuth()
+  const { user, profile, vendorMembership, requestVendorVerification } = useAuth()
+  // Staff members act for the shop they work for
+  const shop = vendorMembership
+    ? { isVendor: true, vendorStatus: vendorMembership.vendorStatus }
+    : profile
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -230,7 +246,7 @@ export default function Dashboard() {
 
   const handleAddProduct = async () => {
     // Check if vendor is verified
-    if (!profile?.isVendor || profile?.vendorStatus !== 'approved') {
+    if (!shop?.isVendor || shop?.vendorStatus !== 'approved') {
       toast({
         title: "Vendor Verification Required",
         description: "Please complete vendor verification before adding products.",
@@ -257,6 +273,16 @@ export default function Dashboard() {
       });
       return;
     }
+
+    const priceTierError = findPriceTierError(priceTiers);
+    if (priceTierError) {
+      toast({
+        title: "Invalid Price Breaks",
+        description: priceTierError,
+        variant: "destructive"
+      });
+      return;
+    }
     
     try {
       setLoading(true);
@@ -289,6 +315,28 @@ export default function Dashboard() {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to add product');
       }
+
+      const product = await response.json();
+      const tiers = toPriceTierPayload(priceTiers);
+      if (tiers.length > 0) {
+        const tiersResponse = await fetch(`/api/vendors/products/${product.id}/price-tiers`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+          },
+          body: JSON.stringify({ tiers }),
+        });
+
+        if (!tiersResponse.ok) {
+          const errorData = await tiersResponse.json();
+          toast({
+            title: "Price Breaks Not Saved",
+            description: errorData.error || "The product was added without its quantity price breaks.",
+            variant: "destructive"
+          });
+        }
+      }
       
       toast({
         title: "Product Added",
@@ -297,6 +345,7 @@ export default function Dashboard() {
       
       // Reset form
       setNewProduct(INITIAL_PRODUCT_FORM);
+      setPriceTiers([]);
       setImagePreview(null);
       setShowAddProductForm(false);
     } catch (error) {
@@ -389,7 +438,7 @@ export default function Dashboard() {
 
   // Fetch vendor statements
   const fetchStatements = useCallback(async () => {
-    if (!profile?.isVendor) return;
+    if (!shop?.isVendor) return;
     
     setLoadingStatements(true);
     try {
@@ -416,11 +465,11 @@ export default function Dashboard() {
     } finally {
       setLoadingStatements(false);
     }
-  }, [profile?.isVendor, toast]);
+  }, [shop?.isVendor, toast]);
 
   // Fetch commission ledger
   const fetchLedger = useCallback(async () => {
-    if (!profile?.isVendor) return;
+    if (!shop?.isVendor) return;
     
     setLoadingLedger(true);
     try {
@@ -447,7 +496,7 @@ export default function Dashboard() {
     } finally {
       setLoadingLedger(false);
     }
-  }, [profile?.isVendor, toast]);
+  }, [shop?.isVendor, toast]);
 
   // Fetch data when switching tabs
   useEffect(() => {
@@ -525,7 +574,7 @@ export default function Dashboard() {
               
                 {/* Vendor Verification Status */}
                 <div className="mt-4">
-                  {profile?.isVendor && profile?.vendorStatus === 'approved' ? (
+                  {shop?.isVendor && shop?.vendorStatus === 'approved' ? (
                     <div className="flex items-center gap-2">
                       <Badge className="bg-green-500">
                         <ShieldCheck className="h-4 w-4 mr-1" />
@@ -539,12 +588,23 @@ export default function Dashboard() {
                       >
                         View Status
                       </Button>
+                      {!vendorMembership && (
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          onClick={() => router.push('/vendor/staff')}
+                          className="text-white/90 hover:text-white hover:bg-white/10"
+                        >
+                          <Users className="h-4 w-4 mr-1" />
+                          Staff
+                        </Button>
+                      )}
                     </div>
                   ) : (
                     <div className="flex items-center gap-2">
                       <Badge variant="destructive">
                         <AlertCircle className="h-4 w-4 mr-1" />
-                        {getVerificationStatusText(profile?.vendorStatus)}
+                        {getVerificationStatusText(shop?.vendorStatus)}
                       </Badge>
                       <Button 
                         variant="secondary" 
@@ -552,7 +612,7 @@ export default function Dashboard() {
                         onClick={handleVerifyVendor}
                         className="ml-2"
                       >
-                        {getVerificationButtonText(profile?.vendorStatus)}
+                        {getVerificationButtonText(shop?.vendorStatus)}
                       </Button>
                     </div>
                   )}
@@ -657,6 +717,30 @@ export default function Dashboard() {
               <Package className="h-4 w-4 mr-2" />
               Products
             </Button>
+            <Button 
+              variant={activeTab === 'orders' ? 'default' : 'outline'}
+              onClick={() => setActiveTab('orders')}
+              className={activeTab === 'orders' ? 'bg-primary hover:bg-primary/90' : ''}
+            >
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              Orders
+            </Button>
+            <Button 
+              variant={activeTab === 'returns' ? 'default' : 'outline'}
+              onClick={() => setActiveTab('returns')}
+              className={activeTab === 'returns' ? 'bg-primary hover:bg-primary/90' : ''}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Returns
+            </Button>
+            <Button 
+              variant={activeTab === 'inbox' ? 'default' : 'outline'}
+              onClick={() => setActiveTab('inbox')}
+              className={activeTab === 'inbox' ? 'bg-primary hover:bg-primary/90' : ''}
+            >
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Messages
+            </Button>
             <Button 
               variant={activeTab === 'statements' ? 'default' : 'outline'}
               onClick={() => setActiveTab('statements')}
@@ -759,6 +843,18 @@ export default function Dashboard() {
             <EnhancedAnalytics />
           )}
 
+          {activeTab === 'orders' && (
+            <VendorOrders />
+          )}
+
+          {activeTab === 'returns' && (
+            <VendorReturns />
+          )}
+
+          {activeTab === 'inbox' && (
+            <VendorInbox />
+          )}
+
           {activeTab === 'products' && (
             <div className="space-y-6">
               {/* Add Product Form */}
@@ -953,6 +1049,7 @@ export default function Dashboard() {
                           required
                         />
                       </div>
+                      <PriceTiersEditor tiers={priceTiers} onChange={setPriceTiers} />
                     </div>
                     <div className="flex gap-3 mt-6">
                       <Button 
@@ -966,6 +1063,7 @@ export default function Dashboard() {
                         onClick={() => {
                           setShowAddProductForm(false);
                           setNewProduct(INITIAL_PRODUCT_FORM);
+                          setPriceTiers([]);
                           setImagePreview(null);
                         }}
                       >
@@ -23,6 +23,7 @@ import {
 } from "lucide-react"
 import { toast } from "sonner"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { StepUpDialog } from "@/components/security/StepUpDialog"
 
 interface DataExportRequest {
   id: string
@@ -94,6 +95,7 @@ export default function DataExportSettings() {
   const [selectedCategories, setSelectedCategories] = useState<string[]>([])
   const [isRecurring, setIsRecurring] = useState(false)
   const [recurringSchedule, setRecurringSchedule] = useState('weekly')
+  const [stepUpOpen, setStepUpOpen] = useState(false)
 
   const availableCategories = [
     { value: 'orders', label: 'Order History', description: 'All your orders and transactions' },
@@ -130,13 +132,15 @@ export default function DataExportSettings() {
     }
   }
 
-  const createExportRequest = async () => {
+  const createExportRequest = async (stepUpToken?: string) => {
     try {
       setCreating(true)
       const response = await fetch('/api/user/data-export', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+          ...(stepUpToken && { 'X-Step-Up-Token': stepUpToken })
         },
         body: JSON.stringify({ 
           format: selectedFormat,
@@ -154,6 +158,9 @@ export default function DataExportSettings() {
         // Reset form
         setSelectedCategories([])
         setIsRecurring(false)
+      } else if (data.errorCode === 'STEP_UP_REQUIRED') {
+        // Exports hold all personal data, so confirm identity first
+        setStepUpOpen(true)
       } else if (response.status === 429) {
         toast.error(data.error || 'You already have a pending export request')
       } else {
@@ -355,7 +362,7 @@ export default function DataExportSettings() {
                     )}
                   </div>
                   <Button
-                    onClick={createExportRequest}
+                    onClick={() => createExportRequest()}
                     disabled={creating || hasPendingRequest}
                     className="min-w-[160px]"
                   >
@@ -564,6 +571,11 @@ export default function DataExportSettings() {
           </div>
         </Container>
       </main>
+      <StepUpDialog
+        open={stepUpOpen}
+        onOpenChange={setStepUpOpen}
+        onConfirmed={(stepUpToken) => createExportRequest(stepUpToken)}
+      />
       <Footer />
     </div>
   )
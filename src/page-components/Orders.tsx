@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Container } from '@/components/ui/container';
 import { Navbar } from '@/components/navbar';
 import { Footer } from '@/components/footer';
@@ -10,15 +10,27 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Package, Truck, CheckCircle, Clock, XCircle } from 'lucide-react';
+import { ContactSellerButton } from '@/components/product/ContactSellerButton';
+import { OrderReturns } from '@/components/orders/OrderReturns';
+import { OrderEdit } from '@/components/orders/OrderEdit';
 
 interface OrderItem {
   id: string;
   productName: string;
+  vendorId: string;
   quantity: number;
   price: string | number;
   total: string | number;
 }
 
+interface VendorOrder {
+  id: string;
+  number: string;
+  status: string;
+  shippingAmount: string | number;
+  vendor?: { displayName?: string | null } | null;
+}
+
 interface Order {
   id: string;
   orderNumber: string;
@@ -28,8 +40,11 @@ interface Order {
   paymentReference?: string | null;
   subtotal: string | number;
   totalAmount: string | number;
+  balanceDue?: string | number;
+  shippingAddress?: { name?: string; phone?: string; line1?: string; city?: string; postalCode?: string; country?: string } | null;
   createdAt: string;
   orderItems: OrderItem[];
+  vendorOrders?: VendorOrder[];
 }
 
 export default function OrdersPage() {
@@ -37,24 +52,25 @@ export default function OrdersPage() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    const fetchOrders = async () => {
-      try {
-        const token = localStorage.getItem('auth_token');
-        if (!token) return;
-        const res = await fetch('/api/orders', {
-          headers: { 'Authorization': `Bearer ${token}` }
-        });
-        if (res.ok) {
-          const data = await res.json();
-            setOrders(data);
-        }
-      } finally {
-        setLoading(false);
+  const fetchOrders = useCallback(async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      if (!token) return;
+      const res = await fetch('/api/orders', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (res.ok) {
+        const data = await res.json();
+          setOrders(data);
       }
-    };
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
     if (user) fetchOrders(); else setLoading(false);
-  }, [user]);
+  }, [user, fetchOrders]);
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -169,9 +185,11 @@ export default function OrdersPage() {
                     {order.orderItems.map(oi => (
                       <div key={oi.id} className="flex justify-between items-center p-3 bg-background rounded-lg">
                         <div className="flex-1">
-                          <p className="font-medium">{oi.productName}</p>
+                          <p className={`font-medium ${oi.quantity === 0 ? 'line-through text-muted-foreground' : ''}`}>{oi.productName}</p>
                           <p className="text-sm text-muted-foreground">
-                            Quantity: {oi.quantity} × {Number(oi.price).toLocaleString()} ETB
+                            {oi.quantity === 0
+                              ? 'Cancelled'
+                              : `Quantity: ${oi.quantity} × ${Number(oi.price).toLocaleString()} ETB`}
                           </p>
                         </div>
                         <p className="font-semibold">{Number(oi.total).toLocaleString()} ETB</p>
@@ -179,6 +197,56 @@ export default function OrdersPage() {
                     ))}
                   </div>
                   
+                  {order.vendorOrders && order.vendorOrders.length > 1 && (
+                    <div className="space-y-2 mt-4">
+                      <h4 className="font-semibold text-sm">Shipments</h4>
+                      {order.vendorOrders.map(vo => (
+                        <div key={vo.id} className="flex justify-between items-center p-3 bg-background rounded-lg text-sm">
+                          <span>
+                            #{vo.number}{vo.vendor?.displayName && ` · ${vo.vendor.displayName}`}
+                          </span>
+                          <Badge className={`${getStatusColor(vo.status)} text-white border-0`}>
+                            {vo.status.replace(/_/g, ' ')}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {['pending', 'paid', 'confirmed'].includes(order.status) && (
+                    <div className="mt-4">
+                      <OrderEdit
+                        orderId={order.id}
+                        items={order.orderItems}
+                        shippingAddress={order.shippingAddress}
+                        onChanged={fetchOrders}
+                      />
+                    </div>
+                  )}
+
+                  {(order.status === 'delivered' || order.vendorOrders?.some(vo => vo.status === 'delivered')) && (
+                    <OrderReturns orderId={order.id} items={order.orderItems} />
+                  )}
+
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    {Array.from(new Set(order.orderItems.map(oi => oi.vendorId))).map(vendorId => (
+                      <div key={vendorId} className="w-full sm:w-auto">
+                        <ContactSellerButton
+                          vendorId={vendorId}
+                          vendorName="the seller"
+                          orderId={order.id}
+                          isLoggedIn={!!user}
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  {Number(order.balanceDue || 0) > 0 && (
+                    <div className="mt-4 p-3 bg-muted rounded-lg text-sm">
+                      <span className="font-medium">Balance due:</span> {Number(order.balanceDue).toLocaleString()} ETB after your changes
+                    </div>
+                  )}
+
                   <div className="flex justify-between items-center pt-4 mt-4 border-t">
                     <p className="text-lg font-semibold">Total Amount</p>
                     <p className="text-2xl font-bold text-primary">
@@ -24,8 +24,10 @@ import { parseAllImages, getEffectivePrice, parseJsonField } from "@/lib/image-u
 import { FrequentlyBoughtTogether } from "@/components/product/FrequentlyBoughtTogether"
 import { ProductQA } from "@/components/product/ProductQA"
 import { StockAlert } from "@/components/product/StockAlert"
+import { PriceBreakTable } from "@/components/product/PriceBreakTable"
 import { RecentlyViewedProducts, trackProductView } from "@/components/product/RecentlyViewedProducts"
 import { DeliveryEstimator } from "@/components/product/DeliveryEstimator"
+import { ContactSellerButton } from "@/components/product/ContactSellerButton"
 import { PriceAlertButton } from "@/components/user/PriceAlertButton"
 import { useAuth } from "@/context/auth-context"
 import { VendorStatsCard } from "@/components/seller-ratings"
@@ -334,6 +336,13 @@ export default function Product() {
                   >
                     View Store
                   </Button>
+                  <ContactSellerButton
+                    vendorId={displayProduct.vendor.id}
+                    vendorName={vendorName}
+                    productId={displayProduct.id}
+                    isLoggedIn={!!user}
+                    onLoginRequired={() => router.push('/auth/login?redirect=' + encodeURIComponent(window.location.pathname))}
+                  />
                 </div>
               )}
 
@@ -388,6 +397,9 @@ export default function Product() {
                   </div>
                 </div>
 
+                {/* Wholesale quantity breaks */}
+                <PriceBreakTable productId={displayProduct.id} quantity={quantity} />
+
                 <div className="flex gap-3">
                   <Button 
                     className="flex-1 bg-primary text-primary-foreground shadow-gold md:hover:bg-primary/90"
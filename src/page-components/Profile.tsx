@@ -19,7 +19,7 @@ import {
   Upload, User, Mail, Phone, MapPin, FileText, Package, MapPinned,
   Heart, Clock, Star, ShoppingBag, Bell, Shield, Store, Eye,
   TrendingUp, Search, CreditCard, Gift, History, Settings, GitCompare,
-  Download, Trash2, Database, Share2, Bookmark
+  Download, Trash2, Database, Share2, Bookmark, MonitorSmartphone, ShieldCheck
 } from "lucide-react"
 import { toast } from "sonner"
 import Image from "next/image"
@@ -1125,6 +1125,84 @@ export default function Profile() {
               {/* Privacy & Data Tab */}
               <TabsContent value="privacy" className="space-y-6">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <MonitorSmartphone className="h-5 w-5" />
+                        Where You&apos;re Logged In
+                      </CardTitle>
+                      <CardDescription>
+                        Review and sign out the devices using your account
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <p className="text-sm text-muted-foreground">
+                        See every phone and browser that is signed in. If you don&apos;t recognise
+                        one, sign it out and change your password.
+                      </p>
+                      <div className="pt-4">
+                        <Button asChild className="w-full">
+                          <Link href="/profile/settings/sessions">
+                            <MonitorSmartphone className="h-4 w-4 mr-2" />
+                            Manage Devices
+                          </Link>
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Phone className="h-5 w-5" />
+                        Sign-In Methods
+                      </CardTitle>
+                      <CardDescription>
+                        Your email address and phone number
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <p className="text-sm text-muted-foreground">
+                        Add a phone number to sign in with a texted code, or add an email
+                        if you signed up with your phone.
+                      </p>
+                      <div className="pt-4">
+                        <Button asChild className="w-full">
+                          <Link href="/profile/settings/sign-in">
+                            <Phone className="h-4 w-4 mr-2" />
+                            Manage Sign-In Methods
+                          </Link>
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <ShieldCheck className="h-5 w-5" />
+                        Two-Step Verification
+                      </CardTitle>
+                      <CardDescription>
+                        Protect your account with a code from your phone
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <p className="text-sm text-muted-foreground">
+                        Use an authenticator app or text messages so a stolen password alone
+                        can&apos;t open your account.
+                      </p>
+                      <div className="pt-4">
+                        <Button asChild className="w-full">
+                          <Link href="/profile/settings/security">
+                            <ShieldCheck className="h-4 w-4 mr-2" />
+                            Manage Two-Step Verification
+                          </Link>
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+
                   <Card>
                     <CardHeader>
                       <CardTitle className="flex items-center gap-2">
@@ -0,0 +1,230 @@
+'use client'
+
+import { FormEvent, useState, useEffect, useCallback } from "react"
+import { useAuth } from "@/context/auth-context"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Navbar } from "@/components/navbar"
+import { Footer } from "@/components/footer"
+import { Container } from "@/components/ui/container"
+import { ArrowLeft, Loader2, Mail, Phone } from "lucide-react"
+import { toast } from "sonner"
+
+interface SignInDetails {
+  email: string | null
+  phone: string | null
+  phoneVerified: string | null
+}
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+})
+
+/**
+ * Email and phone number used to sign in. Phone-registered accounts can
+ * add an email here, and any account can add or change its phone number.
+ */
+export default function SignInMethodsSettings() {
+  const { user } = useAuth()
+  const router = useRouter()
+  const [details, setDetails] = useState<SignInDetails | null>(null)
+  const [email, setEmail] = useState("")
+  const [phone, setPhone] = useState("")
+  const [code, setCode] = useState("")
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchDetails = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/me', { headers: authHeaders() })
+      if (response.ok) {
+        const data = await response.json()
+        setDetails({ email: data.email, phone: data.phone, phoneVerified: data.phoneVerified })
+      }
+    } catch (error) {
+      console.error('Error fetching sign-in details:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth/login')
+      return
+    }
+    fetchDetails()
+  }, [user, router, fetchDetails])
+
+  const send = async (url: string, method: string, body: object) => {
+    setSaving(true)
+    try {
+      const response = await fetch(url, { method, headers: authHeaders(), body: JSON.stringify(body) })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.error || 'Request failed')
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error('Sign-in settings error:', error)
+      toast.error('Request failed')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addEmail = async (e: FormEvent) => {
+    e.preventDefault()
+    const data = await send('/api/user/account/email', 'POST', { email })
+    if (data) {
+      toast.success(data.message)
+      setEmail("")
+      fetchDetails()
+    }
+  }
+
+  const sendPhoneCode = async (e: FormEvent) => {
+    e.preventDefault()
+    const data = await send('/api/user/account/phone', 'POST', { phone })
+    if (data) {
+      setCodeSentTo(data.phone)
+      toast.success(`Code sent to ${data.phone}`)
+    }
+  }
+
+  const confirmPhone = async (e: FormEvent) => {
+    e.preventDefault()
+    const data = await send('/api/user/account/phone', 'PUT', { phone, code })
+    if (data) {
+      toast.success('Phone number verified')
+      setPhone("")
+      setCode("")
+      setCodeSentTo(null)
+      fetchDetails()
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="py-8">
+        <Container>
+          <div className="max-w-4xl mx-auto space-y-6">
+            {/* Header */}
+            <div className="flex items-center gap-4 mb-8">
+              <Button variant="ghost" size="icon" asChild>
+                <Link href="/profile">
+                  <ArrowLeft className="h-5 w-5" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold">Sign-In Methods</h1>
+                <p className="text-muted-foreground mt-1">
+                  The email address and phone number you can sign in with
+                </p>
+              </div>
+            </div>
+
+            {!details ? (
+              <div className="text-muted-foreground">Loading...</div>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Mail className="h-5 w-5" />
+                      Email Address
+                    </CardTitle>
+                    <CardDescription>
+                      Used for receipts, password resets and signing in with a password
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {details.email ? (
+                      <p className="text-sm">{details.email}</p>
+                    ) : (
+                      <form onSubmit={addEmail} className="flex flex-col sm:flex-row gap-2">
+                        <Input
+                          type="email"
+                          value={email}
+                          onChange={(e) => setEmail(e.target.value)}
+                          placeholder="you@example.com"
+                          required
+                          disabled={saving}
+                        />
+                        <Button type="submit" disabled={saving || !email}>
+                          Add Email
+                        </Button>
+                      </form>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Phone className="h-5 w-5" />
+                      Phone Number
+                      {details.phoneVerified && <Badge>Verified</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      Sign in with a texted code instead of a password
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {details.phone && <p className="text-sm">{details.phone}</p>}
+                    {codeSentTo ? (
+                      <form onSubmit={confirmPhone} className="space-y-2">
+                        <Label htmlFor="phone-link-code">Code sent to {codeSentTo}</Label>
+                        <div className="flex flex-col sm:flex-row gap-2">
+                          <Input
+                            id="phone-link-code"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            placeholder="123456"
+                            required
+                            disabled={saving}
+                          />
+                          <Button type="submit" disabled={saving || code.trim().length < 6}>
+                            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Verify
+                          </Button>
+                          <Button type="button" variant="ghost" onClick={() => setCodeSentTo(null)} disabled={saving}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </form>
+                    ) : (
+                      <form onSubmit={sendPhoneCode} className="flex flex-col sm:flex-row gap-2">
+                        <Input
+                          type="tel"
+                          value={phone}
+                          onChange={(e) => setPhone(e.target.value)}
+                          placeholder="09XX XXX XXX"
+                          required
+                          disabled={saving}
+                        />
+                        <Button type="submit" disabled={saving || !phone}>
+                          {details.phone ? 'Change Number' : 'Add Number'}
+                        </Button>
+                      </form>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </Container>
+      </main>
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { LifeBuoy, Mail, MessageSquare, Package } from 'lucide-react';
+import { Container } from '@/components/ui/container';
+import { Navbar } from '@/components/navbar';
+import { Footer } from '@/components/footer';
+import { useAuth } from '@/context/auth-context';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from 'sonner';
+
+interface TicketSummary {
+  id: string;
+  ticketNumber: string;
+  subject: string;
+  category: string;
+  status: string;
+  orderNumber?: string | null;
+  lastActivityAt: string;
+  createdAt: string;
+  _count: { messages: number };
+}
+
+interface TicketMessage {
+  id: string;
+  authorType: 'customer' | 'agent' | 'system';
+  channel: string;
+  body: string;
+  createdAt: string;
+}
+
+interface TicketDetail extends TicketSummary {
+  messages: TicketMessage[];
+}
+
+export const getTicketStatusColor = (status: string) => {
+  switch (status) {
+    case 'open':
+      return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+    case 'in_progress':
+      return 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400';
+    case 'waiting_on_customer':
+      return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400';
+    case 'resolved':
+      return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+    default:
+      return 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400';
+  }
+};
+
+export const formatTicketLabel = (value: string) => {
+  return value.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+};
+
+export default function SupportTicketsPage() {
+  const { user } = useAuth();
+  const [tickets, setTickets] = useState<TicketSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [selected, setSelected] = useState<TicketDetail | null>(null);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const authHeaders = (): Record<string, string> => {
+    const token = localStorage.getItem('auth_token');
+    return token ? { 'Authorization': `Bearer ${token}` } : {};
+  };
+
+  const fetchTickets = useCallback(async () => {
+    try {
+      const url = statusFilter === 'all'
+        ? '/api/support/tickets'
+        : `/api/support/tickets?status=${statusFilter}`;
+      const res = await fetch(url, { headers: authHeaders() });
+      if (res.ok) {
+        const data = await res.json();
+        setTickets(data.tickets || []);
+      }
+    } catch (error) {
+      console.error('Error fetching tickets:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (user) {
+      fetchTickets();
+    } else {
+      setLoading(false);
+    }
+  }, [user, fetchTickets]);
+
+  const openTicket = async (id: string) => {
+    try {
+      const res = await fetch(`/api/support/tickets/${id}`, { headers: authHeaders() });
+      if (res.ok) {
+        const data = await res.json();
+        setSelected(data.ticket);
+      }
+    } catch (error) {
+      console.error('Error fetching ticket:', error);
+    }
+  };
+
+  const sendReply = async () => {
+    if (!selected || !reply.trim()) return;
+    setSending(true);
+    try {
+      const res = await fetch(`/api/support/tickets/${selected.id}/replies`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ body: reply.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to send reply');
+        return;
+      }
+      setReply('');
+      await openTicket(selected.id);
+      fetchTickets();
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      toast.error('An error occurred. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <>
+      <Navbar />
+      <Container className="py-8">
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">My Support Tickets</h1>
+            <p className="text-muted-foreground">
+              Follow up on your requests to the Minalesh support team
+            </p>
+          </div>
+          <Link href="/help/contact">
+            <Button>New Ticket</Button>
+          </Link>
+        </div>
+
+        <Tabs value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setSelected(null); }} className="mb-6">
+          <div className="overflow-x-auto scrollbar-hide">
+            <TabsList className="inline-flex w-auto min-w-full">
+              <TabsTrigger value="all" className="whitespace-nowrap">All</TabsTrigger>
+              <TabsTrigger value="open" className="whitespace-nowrap">Open</TabsTrigger>
+              <TabsTrigger value="waiting_on_customer" className="whitespace-nowrap">Awaiting Your Reply</TabsTrigger>
+              <TabsTrigger value="resolved" className="whitespace-nowrap">Resolved</TabsTrigger>
+              <TabsTrigger value="closed" className="whitespace-nowrap">Closed</TabsTrigger>
+            </TabsList>
+          </div>
+        </Tabs>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <CardContent className="p-6">
+                  <Skeleton className="h-6 w-3/4 mb-2" />
+                  <Skeleton className="h-4 w-1/2" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : tickets.length === 0 ? (
+          <Card>
+            <CardContent className="py-12">
+              <div className="text-center">
+                <LifeBuoy className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No Tickets Found</h3>
+                <p className="text-muted-foreground">
+                  {statusFilter === 'all'
+                    ? "You haven't contacted support yet"
+                    : `No tickets with status: ${formatTicketLabel(statusFilter)}`}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              {tickets.map((ticket) => (
+                <Card
+                  key={ticket.id}
+                  className={`cursor-pointer hover:shadow-md transition-shadow ${selected?.id === ticket.id ? 'ring-2 ring-primary' : ''}`}
+                  onClick={() => openTicket(ticket.id)}
+                >
+                  <CardContent className="p-4 sm:p-6">
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <h3 className="font-semibold">{ticket.subject}</h3>
+                      <Badge className={getTicketStatusColor(ticket.status)}>
+                        {formatTicketLabel(ticket.status)}
+                      </Badge>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 sm:gap-4 text-sm text-muted-foreground">
+                      <span>{ticket.ticketNumber}</span>
+                      {ticket.orderNumber && (
+                        <span className="flex items-center gap-1">
+                          <Package className="h-4 w-4" />
+                          Order #{ticket.orderNumber}
+                        </span>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <MessageSquare className="h-4 w-4" />
+                        {ticket._count.messages}
+                      </span>
+                      <span>Updated {format(new Date(ticket.lastActivityAt), 'MMM d, h:mm a')}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {selected && (
+              <Card className="h-fit lg:sticky lg:top-4">
+                <CardHeader>
+                  <CardTitle className="text-lg">{selected.subject}</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    {selected.ticketNumber} · {formatTicketLabel(selected.category)}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-3 max-h-[420px] overflow-y-auto">
+                    {selected.messages.map((message) => (
+                      <div
+                        key={message.id}
+                        className={`p-3 rounded-lg text-sm ${
+                          message.authorType === 'agent' ? 'bg-primary/10' : 'bg-muted'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between mb-1 text-xs text-muted-foreground">
+                          <span className="font-medium">
+                            {message.authorType === 'agent' ? 'Minalesh Support' : 'You'}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            {message.channel === 'email' && <Mail className="h-3 w-3" />}
+                            {format(new Date(message.createdAt), 'MMM d, h:mm a')}
+                          </span>
+                        </div>
+                        <p className="whitespace-pre-wrap">{message.body}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  {selected.status === 'closed' ? (
+                    <p className="text-sm text-muted-foreground">
+                      This ticket is closed. Please open a new ticket if you still need help.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={reply}
+                        onChange={(e) => setReply(e.target.value)}
+                        placeholder="Add a reply..."
+                        rows={3}
+                      />
+                      <Button onClick={sendReply} disabled={sending || !reply.trim()} className="w-full">
+                        Send Reply
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </Container>
+      <Footer />
+    </>
+  );
+}
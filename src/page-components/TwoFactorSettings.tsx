@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect, useCallback } from "react"
+import { useAuth } from "@/context/auth-context"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Navbar } from "@/components/navbar"
+import { Footer } from "@/components/footer"
+import { Container } from "@/components/ui/container"
+import { ArrowLeft, KeyRound, ShieldCheck } from "lucide-react"
+import { toast } from "sonner"
+import { TwoFactorEnrolment, RecoveryCodesNotice } from "@/components/security/TwoFactorEnrolment"
+import { StepUpDialog } from "@/components/security/StepUpDialog"
+
+interface TwoFactorStatus {
+  totpEnabled: boolean
+  smsEnabled: boolean
+  smsPhone: string | null
+  recoveryCodesRemaining: number
+  required: boolean
+}
+
+type PendingAction = 'disable' | 'recovery-codes' | 'add-method'
+
+export default function TwoFactorSettings() {
+  const { user } = useAuth()
+  const router = useRouter()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null)
+  const [addMethodToken, setAddMethodToken] = useState<string | null>(null)
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+  })
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/2fa', { headers: authHeaders() })
+      if (response.ok) {
+        setStatus(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth/login')
+      return
+    }
+    fetchStatus()
+  }, [user, router, fetchStatus])
+
+  const onEnabled = (data: { recoveryCodes?: string[] | null }) => {
+    if (data.recoveryCodes) {
+      setRecoveryCodes(data.recoveryCodes)
+    }
+    setAddMethodToken(null)
+    fetchStatus()
+  }
+
+  const runPendingAction = async (stepUpToken: string) => {
+    const action = pendingAction
+    setPendingAction(null)
+    if (action === 'add-method') {
+      setAddMethodToken(stepUpToken)
+      return
+    }
+    try {
+      const response = await fetch(
+        action === 'disable' ? '/api/auth/2fa' : '/api/auth/2fa/recovery-codes',
+        {
+          method: action === 'disable' ? 'DELETE' : 'POST',
+          headers: { ...authHeaders(), 'X-Step-Up-Token': stepUpToken }
+        }
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+      if (action === 'disable') {
+        toast.success('Two-factor authentication turned off')
+        setRecoveryCodes(null)
+      } else {
+        setRecoveryCodes(data.recoveryCodes)
+        toast.success('New recovery codes generated')
+      }
+      fetchStatus()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Request failed')
+    }
+  }
+
+  const enabled = !!status && (status.totpEnabled || status.smsEnabled)
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="py-8">
+        <Container>
+          <div className="max-w-4xl mx-auto space-y-6">
+            {/* Header */}
+            <div className="flex items-center gap-4 mb-8">
+              <Button variant="ghost" size="icon" asChild>
+                <Link href="/profile">
+                  <ArrowLeft className="h-5 w-5" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold">Two-Step Verification</h1>
+                <p className="text-muted-foreground mt-1">
+                  Ask for a code from your phone as well as your password when you sign in
+                </p>
+              </div>
+            </div>
+
+            {recoveryCodes && <RecoveryCodesNotice codes={recoveryCodes} />}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  Status
+                  {status && (
+                    <Badge variant={enabled ? 'default' : 'secondary'}>{enabled ? 'On' : 'Off'}</Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  {status?.required
+                    ? 'Two-step verification is required for your account and cannot be turned off'
+                    : 'Optional, but it keeps your account safe even if your password leaks'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {!status ? (
+                  <div className="text-muted-foreground">Loading...</div>
+                ) : (
+                  <>
+                    <p className="text-sm">
+                      Authenticator app: {status.totpEnabled ? 'On' : 'Off'}
+                    </p>
+                    <p className="text-sm">
+                      Text message: {status.smsEnabled ? `On (${status.smsPhone})` : 'Off'}
+                    </p>
+                    {enabled && (
+                      <p className="text-sm">
+                        Recovery codes left: {status.recoveryCodesRemaining}
+                      </p>
+                    )}
+                    {enabled && (
+                      <div className="flex flex-wrap gap-2 pt-2">
+                        <Button variant="outline" onClick={() => setPendingAction('recovery-codes')}>
+                          <KeyRound className="h-4 w-4 mr-2" />
+                          New Recovery Codes
+                        </Button>
+                        {!status.required && (
+                          <Button variant="destructive" onClick={() => setPendingAction('disable')}>
+                            Turn Off
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {status && !(status.totpEnabled && status.smsEnabled) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{enabled ? 'Add Another Method' : 'Turn On'}</CardTitle>
+                  <CardDescription>
+                    Use an authenticator app, or get codes by text message
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {enabled && !addMethodToken ? (
+                    <Button variant="outline" onClick={() => setPendingAction('add-method')}>
+                      Add Method
+                    </Button>
+                  ) : (
+                    <TwoFactorEnrolment
+                      authToken={localStorage.getItem('auth_token') || ''}
+                      stepUpToken={addMethodToken || undefined}
+                      totpEnabled={status.totpEnabled}
+                      smsEnabled={status.smsEnabled}
+                      onEnabled={onEnabled}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </Container>
+      </main>
+      <StepUpDialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+        onConfirmed={runPendingAction}
+      />
+      <Footer />
+    </div>
+  )
+}
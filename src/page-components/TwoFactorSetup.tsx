@@ -0,0 +1,81 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Container } from "@/components/ui/container"
+import { ShieldCheck } from "lucide-react"
+import { toast } from "sonner"
+import { TwoFactorEnrolment, RecoveryCodesNotice } from "@/components/security/TwoFactorEnrolment"
+
+const SETUP_TOKEN_KEY = 'two_factor_setup_token'
+
+const DASHBOARDS: Record<string, string> = {
+  admin: '/admin/dashboard',
+  vendor: '/vendor/dashboard',
+}
+
+/**
+ * Mandatory 2FA enrolment for admins (and vendors when required) during
+ * login. Enabling a factor here completes the login.
+ */
+export default function TwoFactorSetup() {
+  const router = useRouter()
+  const [setupToken, setSetupToken] = useState<string | null>(null)
+  const [completed, setCompleted] = useState<{ role: string; recoveryCodes: string[] | null } | null>(null)
+
+  useEffect(() => {
+    const token = sessionStorage.getItem(SETUP_TOKEN_KEY)
+    if (!token) {
+      toast.error('Your setup link has expired. Please log in again.')
+      router.push('/auth/login')
+      return
+    }
+    setSetupToken(token)
+  }, [router])
+
+  const onEnabled = (data: any) => {
+    sessionStorage.removeItem(SETUP_TOKEN_KEY)
+    // Enabling the factor completed the login, so store the token like the login pages do
+    localStorage.setItem('auth_token', data.token)
+    setCompleted({ role: data.user.role, recoveryCodes: data.recoveryCodes ?? null })
+  }
+
+  const continueToDashboard = () => {
+    // Use window.location.href so middleware sees the new auth cookie
+    window.location.href = DASHBOARDS[completed?.role ?? ''] ?? '/'
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Container className="max-w-lg">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-2">
+              <div className="bg-primary/10 p-3 rounded-full">
+                <ShieldCheck className="h-10 w-10 text-primary" />
+              </div>
+            </div>
+            <CardTitle>Set Up Two-Step Verification</CardTitle>
+            <CardDescription>
+              Your account needs a second sign-in step. Choose how you want to receive codes.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {completed ? (
+              <>
+                {completed.recoveryCodes && <RecoveryCodesNotice codes={completed.recoveryCodes} />}
+                <Button className="w-full" onClick={continueToDashboard}>
+                  Continue
+                </Button>
+              </>
+            ) : setupToken ? (
+              <TwoFactorEnrolment authToken={setupToken} onEnabled={onEnabled} />
+            ) : null}
+          </CardContent>
+        </Card>
+      </Container>
+    </div>
+  )
+}
@@ -0,0 +1,342 @@
+'use client'
+
+import { FormEvent, useState, useEffect, useCallback } from "react"
+import { useAuth } from "@/context/auth-context"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Navbar } from "@/components/navbar"
+import { Footer } from "@/components/footer"
+import { Container } from "@/components/ui/container"
+import { ArrowLeft, History, Loader2, Mail, Trash2, Users } from "lucide-react"
+import { toast } from "sonner"
+import { VENDOR_PERMISSIONS, VENDOR_PERMISSION_LABELS, type VendorPermission } from "@/lib/permissions"
+
+interface StaffUser {
+  id: string
+  email: string | null
+  phone: string | null
+  profile: { displayName: string | null; firstName: string | null; lastName: string | null } | null
+}
+
+interface StaffMember {
+  id: string
+  permissions: VendorPermission[]
+  createdAt: string
+  user: StaffUser
+}
+
+interface StaffInvite {
+  id: string
+  email: string
+  permissions: VendorPermission[]
+  expiresAt: string
+}
+
+interface AuditEntry {
+  id: string
+  action: string
+  entityType: string
+  entityId: string | null
+  createdAt: string
+  actor: StaffUser | null
+}
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+})
+
+const staffName = (user: StaffUser | null) =>
+  user?.profile?.displayName ||
+  [user?.profile?.firstName, user?.profile?.lastName].filter(Boolean).join(' ') ||
+  user?.email ||
+  user?.phone ||
+  'Unknown'
+
+function PermissionPicker({
+  idPrefix,
+  value,
+  onChange,
+  disabled,
+}: {
+  idPrefix: string
+  value: VendorPermission[]
+  onChange: (next: VendorPermission[]) => void
+  disabled?: boolean
+}) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {VENDOR_PERMISSIONS.map((permission) => (
+        <div key={permission} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-${permission}`}
+            checked={value.includes(permission)}
+            disabled={disabled}
+            onCheckedChange={(checked) =>
+              onChange(checked ? [...value, permission] : value.filter((p) => p !== permission))
+            }
+          />
+          <Label htmlFor={`${idPrefix}-${permission}`} className="font-normal">
+            {VENDOR_PERMISSION_LABELS[permission]}
+          </Label>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Shop owners invite staff, choose what each one may do and see who
+ * changed what in the shop
+ */
+export default function VendorStaff() {
+  const { user, profile, loading } = useAuth()
+  const router = useRouter()
+  const [members, setMembers] = useState<StaffMember[] | null>(null)
+  const [invites, setInvites] = useState<StaffInvite[]>([])
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([])
+  const [email, setEmail] = useState("")
+  const [permissions, setPermissions] = useState<VendorPermission[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const fetchStaff = useCallback(async () => {
+    try {
+      const [staffResponse, auditResponse] = await Promise.all([
+        fetch('/api/vendors/staff', { headers: authHeaders() }),
+        fetch('/api/vendors/audit-log?limit=20', { headers: authHeaders() }),
+      ])
+      if (staffResponse.ok) {
+        const data = await staffResponse.json()
+        setMembers(data.members)
+        setInvites(data.invites)
+      }
+      if (auditResponse.ok) {
+        const data = await auditResponse.json()
+        setAuditLog(data.entries)
+      }
+    } catch (error) {
+      console.error('Error fetching staff:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (loading) return
+    if (!user) {
+      router.replace('/auth/login')
+      return
+    }
+    if (!profile?.isVendor) {
+      router.replace('/vendor/dashboard')
+      return
+    }
+    fetchStaff()
+  }, [loading, user, profile?.isVendor, router, fetchStaff])
+
+  const send = async (url: string, method: string, body?: object) => {
+    setSaving(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders(),
+        ...(body && { body: JSON.stringify(body) }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.error || 'Request failed')
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error('Staff settings error:', error)
+      toast.error('Request failed')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const invite = async (e: FormEvent) => {
+    e.preventDefault()
+    const data = await send('/api/vendors/staff', 'POST', { email, permissions })
+    if (data) {
+      toast.success(`Invitation sent to ${data.invite.email}`)
+      setEmail("")
+      setPermissions([])
+      fetchStaff()
+    }
+  }
+
+  const updatePermissions = async (member: StaffMember, next: VendorPermission[]) => {
+    if (next.length === 0) {
+      toast.error('A staff member needs at least one permission. Remove them instead.')
+      return
+    }
+    const data = await send(`/api/vendors/staff/${member.id}`, 'PATCH', { permissions: next })
+    if (data) {
+      fetchStaff()
+    }
+  }
+
+  const removeMember = async (member: StaffMember) => {
+    if (!confirm(`Remove ${staffName(member.user)} from your shop?`)) return
+    const data = await send(`/api/vendors/staff/${member.id}`, 'DELETE')
+    if (data) {
+      toast.success(data.message)
+      fetchStaff()
+    }
+  }
+
+  const withdrawInvite = async (pending: StaffInvite) => {
+    const data = await send(`/api/vendors/staff/invites/${pending.id}`, 'DELETE')
+    if (data) {
+      toast.success(data.message)
+      fetchStaff()
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="py-8">
+        <Container>
+          <div className="max-w-4xl mx-auto space-y-6">
+            {/* Header */}
+            <div className="flex items-center gap-4 mb-8">
+              <Button variant="ghost" size="icon" asChild>
+                <Link href="/vendor/dashboard">
+                  <ArrowLeft className="h-5 w-5" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold">Shop Staff</h1>
+                <p className="text-muted-foreground mt-1">
+                  Give employees their own sign-in instead of sharing your password
+                </p>
+              </div>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Mail className="h-5 w-5" />
+                  Invite a Staff Member
+                </CardTitle>
+                <CardDescription>
+                  They get an email link and join with their own account
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={invite} className="space-y-4">
+                  <Input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="employee@example.com"
+                    required
+                    disabled={saving}
+                  />
+                  <PermissionPicker idPrefix="invite" value={permissions} onChange={setPermissions} disabled={saving} />
+                  <Button type="submit" disabled={saving || !email || permissions.length === 0}>
+                    {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Send Invitation
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="h-5 w-5" />
+                  Team
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {!members ? (
+                  <div className="text-muted-foreground">Loading...</div>
+                ) : members.length === 0 && invites.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No staff yet.</p>
+                ) : (
+                  <>
+                    {members.map((member) => (
+                      <div key={member.id} className="space-y-3 border-b pb-4 last:border-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <div>
+                            <p className="font-medium">{staffName(member.user)}</p>
+                            <p className="text-sm text-muted-foreground">{member.user.email || member.user.phone}</p>
+                          </div>
+                          <Button variant="ghost" size="icon" onClick={() => removeMember(member)} disabled={saving}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <PermissionPicker
+                          idPrefix={member.id}
+                          value={member.permissions}
+                          onChange={(next) => updatePermissions(member, next)}
+                          disabled={saving}
+                        />
+                      </div>
+                    ))}
+                    {invites.map((pending) => (
+                      <div key={pending.id} className="flex items-center justify-between gap-2">
+                        <div>
+                          <p className="font-medium flex items-center gap-2">
+                            {pending.email}
+                            <Badge variant="secondary">Invited</Badge>
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {pending.permissions.map((p) => VENDOR_PERMISSION_LABELS[p]).join(', ')} · expires{' '}
+                            {new Date(pending.expiresAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={() => withdrawInvite(pending)} disabled={saving}>
+                          Withdraw
+                        </Button>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Recent Activity
+                </CardTitle>
+                <CardDescription>Changes made in your shop and who made them</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {auditLog.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing recorded yet.</p>
+                ) : (
+                  <ul className="space-y-2 text-sm">
+                    {auditLog.map((entry) => (
+                      <li key={entry.id} className="flex justify-between gap-4">
+                        <span>
+                          <span className="font-medium">{staffName(entry.actor)}</span>{' '}
+                          <code className="text-xs">{entry.action}</code>
+                        </span>
+                        <span className="text-muted-foreground whitespace-nowrap">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </Container>
+      </main>
+      <Footer />
+    </div>
+  )
+}
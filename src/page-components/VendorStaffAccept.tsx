@@ -0,0 +1,114 @@
+'use client'
+
+import { useState } from "react"
+import { useAuth } from "@/context/auth-context"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Navbar } from "@/components/navbar"
+import { Footer } from "@/components/footer"
+import { Container } from "@/components/ui/container"
+import { Loader2, Store } from "lucide-react"
+import { toast } from "sonner"
+
+/**
+ * Landing page for the staff invitation email. The invitee signs in with
+ * the invited email address and joins the shop.
+ */
+export default function VendorStaffAccept() {
+  const { user, loading } = useAuth()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [joining, setJoining] = useState(false)
+
+  const nextUrl = `/vendor/staff/accept?token=${encodeURIComponent(token || '')}`
+
+  const join = async () => {
+    setJoining(true)
+    try {
+      const response = await fetch('/api/vendors/staff/accept', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+        },
+        body: JSON.stringify({ token }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.error || 'Could not accept the invitation')
+        return
+      }
+
+      // The new token carries the vendor role
+      localStorage.setItem('auth_token', data.token)
+      toast.success(data.message)
+      window.location.href = '/vendor/dashboard'
+    } catch (error) {
+      console.error('Accept invitation error:', error)
+      toast.error('Could not accept the invitation')
+    } finally {
+      setJoining(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="py-16">
+        <Container className="max-w-md">
+          <Card>
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-2">
+                <div className="bg-primary/10 p-3 rounded-full">
+                  <Store className="h-8 w-8 text-primary" />
+                </div>
+              </div>
+              <CardTitle>Join a Shop</CardTitle>
+              <CardDescription>
+                You were invited to help run a shop on Minalesh
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!token ? (
+                <p className="text-sm text-muted-foreground text-center">
+                  This link is missing its invitation code. Open the link from the email again.
+                </p>
+              ) : loading ? (
+                <div className="flex justify-center">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                </div>
+              ) : !user ? (
+                <>
+                  <p className="text-sm text-muted-foreground text-center">
+                    Sign in or create an account with the email address the invitation was sent to.
+                  </p>
+                  <div className="flex gap-2 justify-center">
+                    <Button asChild>
+                      <Link href={`/auth/login?next=${encodeURIComponent(nextUrl)}`}>Sign In</Link>
+                    </Button>
+                    <Button variant="outline" asChild>
+                      <Link href="/auth/register">Create Account</Link>
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground text-center">
+                    Signed in as {user.email}
+                  </p>
+                  <Button className="w-full" onClick={join} disabled={joining}>
+                    {joining && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Accept Invitation
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </Container>
+      </main>
+      <Footer />
+    </div>
+  )
+}
@@ -1,10 +1,30 @@
 /**
  * Admin Service
- * Handles admin user management with single admin constraint
+ * Handles platform operators: admins with a scope (super admin, support
+ * agent, finance, catalog moderator) that limits which parts of the admin
+ * console they can use. Operator changes are recorded in the audit log.
  */
 
 import prisma from '@/lib/prisma';
-import { UserRole } from '@prisma/client';
+import type { JWTPayload } from '@/lib/auth';
+import { ConflictError, ForbiddenError, NotFoundError } from '@/lib/errors';
+import {
+  adminScopeAllows,
+  getAdminScope,
+  type AdminPermission,
+  type AdminScopeName,
+} from '@/lib/permissions';
+import { recordAudit } from '@/services/AuditLogService';
+import { revokeAllSessions } from '@/services/SessionService';
+
+const OPERATOR_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  adminScope: true,
+  createdAt: true,
+  profile: { select: { displayName: true, firstName: true, lastName: true } },
+} as const;
 
 /**
  * Check if an admin user already exists in the system
@@ -18,37 +38,183 @@ export async function adminExists(): Promise<boolean> {
 }
 
 /**
- * Get the current admin user if one exists
+ * Load the operator's scope and make sure it covers the permission.
+ * Call after withRoleCheck(handler, ['admin']).
+ * @throws ForbiddenError if the operator's scope does not allow it
+ */
+export async function requireAdminPermission(
+  user: Pick<JWTPayload, 'userId' | 'role'>,
+  permission: AdminPermission
+): Promise<AdminScopeName> {
+  const operator = user.role === 'admin'
+    ? await prisma.user.findUnique({ where: { id: user.userId }, select: { role: true, adminScope: true } })
+    : null;
+
+  if (!operator || operator.role !== 'admin' || !adminScopeAllows(operator.adminScope, permission)) {
+    throw new ForbiddenError('Your admin role does not allow this', 'ADMIN_PERMISSION_DENIED');
+  }
+
+  return getAdminScope(operator.adminScope);
+}
+
+/**
+ * Every operator with their scope
  */
-export async function getAdmin() {
-  return await prisma.user.findFirst({
+export async function listOperators() {
+  const operators = await prisma.user.findMany({
     where: { role: 'admin' },
-    include: { profile: true },
+    select: OPERATOR_SELECT,
+    orderBy: { createdAt: 'asc' },
   });
+
+  return operators.map((operator) => ({ ...operator, adminScope: getAdminScope(operator.adminScope) }));
 }
 
 /**
- * Validate that creating/updating a user to admin role doesn't violate the single admin constraint
- * @param userId - The user ID being updated (undefined for new users, string for existing users)
- * @param newRole - The role being set
- * @throws Error if attempting to create a second admin
+ * Removing or downgrading the last super admin would lock everyone out of
+ * operator and settings management
  */
-export async function validateSingleAdminConstraint(userId: string | undefined, newRole: UserRole): Promise<void> {
-  if (newRole !== 'admin') {
-    return; // Not setting to admin, no constraint to check
+async function assertNotLastSuperAdmin(userId: string) {
+  const superAdmins = await prisma.user.findMany({
+    where: { role: 'admin', OR: [{ adminScope: 'super_admin' }, { adminScope: null }] },
+    select: { id: true },
+  });
+  if (superAdmins.length === 1 && superAdmins[0].id === userId) {
+    throw new ConflictError('There must be at least one super admin', 'LAST_SUPER_ADMIN');
   }
+}
 
-  const currentAdmin = await getAdmin();
-  
-  if (!currentAdmin) {
-    return; // No admin exists, safe to create one
+/**
+ * Make an existing account an operator with the given scope
+ */
+export async function grantOperatorAccess(
+  actor: Pick<JWTPayload, 'userId'>,
+  email: string,
+  scope: AdminScopeName,
+  ipAddress?: string | null
+) {
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim().toLowerCase() },
+    select: {
+      id: true,
+      role: true,
+      profile: { select: { isVendor: true } },
+      vendorStaffMembership: { select: { id: true } },
+    },
+  });
+  if (!user) {
+    throw new NotFoundError('No account uses this email. Ask them to sign up first.');
   }
+  if (user.role === 'admin') {
+    throw new ConflictError('This account is already an operator', 'ALREADY_OPERATOR');
+  }
+  if (user.profile?.isVendor || user.vendorStaffMembership) {
+    throw new ConflictError('Vendor accounts cannot be operators', 'VENDOR_ACCOUNT');
+  }
+
+  const operator = await prisma.user.update({
+    where: { id: user.id },
+    data: { role: 'admin', adminScope: scope },
+    select: OPERATOR_SELECT,
+  });
+
+  // Their current tokens still say customer; make them sign in again
+  await revokeAllSessions(user.id, 'admin_revoked');
+
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'operator.grant',
+    entityType: 'user',
+    entityId: user.id,
+    changes: { role: { from: user.role, to: 'admin' }, adminScope: scope },
+    ipAddress,
+  });
+
+  return operator;
+}
 
-  // If updating an existing user
-  if (userId && currentAdmin.id === userId) {
-    return; // User is already the admin, safe to keep as admin
+/**
+ * Change what an operator may do
+ */
+export async function setOperatorScope(
+  actor: Pick<JWTPayload, 'userId'>,
+  userId: string,
+  scope: AdminScopeName,
+  ipAddress?: string | null
+) {
+  const operator = await prisma.user.findFirst({
+    where: { id: userId, role: 'admin' },
+    select: { id: true, adminScope: true },
+  });
+  if (!operator) {
+    throw new NotFoundError('Operator not found');
   }
 
-  // Attempting to create a second admin
-  throw new Error('Only one admin user is allowed in the system. Current admin: ' + currentAdmin.email);
+  const from = getAdminScope(operator.adminScope);
+  if (from === 'super_admin' && scope !== 'super_admin') {
+    await assertNotLastSuperAdmin(userId);
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { adminScope: scope },
+    select: OPERATOR_SELECT,
+  });
+
+  // The scope travels in their tokens, so issue new ones
+  await revokeAllSessions(userId, 'admin_revoked');
+
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'operator.scope_change',
+    entityType: 'user',
+    entityId: userId,
+    changes: { adminScope: { from, to: scope } },
+    ipAddress,
+  });
+
+  return updated;
+}
+
+/**
+ * Take operator access away. The account stays as a customer and is signed
+ * out everywhere.
+ */
+export async function revokeOperatorAccess(
+  actor: Pick<JWTPayload, 'userId'>,
+  userId: string,
+  ipAddress?: string | null
+) {
+  if (actor.userId === userId) {
+    throw new ConflictError('You cannot remove your own operator access', 'CANNOT_REVOKE_SELF');
+  }
+
+  const operator = await prisma.user.findFirst({
+    where: { id: userId, role: 'admin' },
+    select: { id: true, adminScope: true },
+  });
+  if (!operator) {
+    throw new NotFoundError('Operator not found');
+  }
+  if (getAdminScope(operator.adminScope) === 'super_admin') {
+    await assertNotLastSuperAdmin(userId);
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { role: 'customer', adminScope: null },
+  });
+  await revokeAllSessions(userId, 'admin_revoked');
+
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'operator.revoke',
+    entityType: 'user',
+    entityId: userId,
+    changes: { role: { from: 'admin', to: 'customer' }, adminScope: getAdminScope(operator.adminScope) },
+    ipAddress,
+  });
 }
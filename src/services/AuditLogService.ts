@@ -0,0 +1,95 @@
+/**
+ * Audit Log Service
+ *
+ * Records who changed what in a vendor shop or in the admin console, so
+ * owners can see what their staff did and operators can review each other.
+ */
+
+import prisma from '@/lib/prisma';
+import { logError } from '@/lib/logger';
+
+export type AuditScope = 'vendor' | 'admin';
+
+export interface AuditEntry {
+  scope: AuditScope;
+  /** Shop the change belongs to (vendor profile id), for vendor entries */
+  vendorId?: string | null;
+  actorId: string;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  changes?: Record<string, unknown> | null;
+  ipAddress?: string | null;
+}
+
+export interface AuditLogQuery {
+  scope: AuditScope;
+  vendorId?: string;
+  actorId?: string;
+  entityType?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Write an audit entry. Failures are logged rather than thrown because the
+ * change being recorded has already happened.
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        scope: entry.scope,
+        vendorId: entry.vendorId ?? null,
+        actorId: entry.actorId,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        changes: (entry.changes ?? undefined) as any,
+        ipAddress: entry.ipAddress ?? null,
+      },
+    });
+  } catch (error) {
+    logError(error as Error, { operation: 'recordAudit', action: entry.action, actorId: entry.actorId });
+  }
+}
+
+/**
+ * Newest-first page of audit entries with the acting user
+ */
+export async function listAuditLogs(query: AuditLogQuery) {
+  const page = Math.max(1, query.page || 1);
+  const limit = Math.min(100, Math.max(1, query.limit || 50));
+
+  const where = {
+    scope: query.scope,
+    ...(query.vendorId && { vendorId: query.vendorId }),
+    ...(query.actorId && { actorId: query.actorId }),
+    ...(query.entityType && { entityType: query.entityType }),
+  };
+
+  const [entries, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        actor: {
+          select: {
+            id: true,
+            email: true,
+            phone: true,
+            profile: { select: { displayName: true } },
+          },
+        },
+      },
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  return {
+    entries,
+    pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+  };
+}
@@ -0,0 +1,326 @@
+/**
+ * Auto Reorder Service
+ *
+ * Manages AutoReorderRule records and evaluates them to raise draft,
+ * auto-generated purchase orders when a product's inventory position
+ * (available stock plus quantity still on order) falls below its reorder point.
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/errors';
+import { getAvailableStock } from '@/services/InventoryService';
+import { createPurchaseOrder, type PurchaseOrderItem } from '@/services/PurchaseOrderService';
+
+export interface ReorderRuleInput {
+  productId: string;
+  warehouseId?: string | null;
+  reorderPoint: number;
+  reorderQuantity: number;
+  leadTimeDays: number;
+  safetyStock: number;
+  minOrderQty?: number | null;
+  maxOrderQty?: number | null;
+  supplierId?: string | null;
+  supplierName?: string | null;
+  unitCost?: number | null;
+  isActive?: boolean;
+}
+
+export interface ReorderRuleThresholds {
+  reorderPoint: number;
+  reorderQuantity: number;
+  safetyStock: number;
+  minOrderQty?: number | null;
+  maxOrderQty?: number | null;
+}
+
+export interface AutoReorderRunResult {
+  rulesEvaluated: number;
+  rulesTriggered: number;
+  purchaseOrdersCreated: number;
+  errors: number;
+}
+
+// Purchase order statuses whose outstanding quantities still count as incoming stock
+const OPEN_PO_STATUSES = [
+  'draft',
+  'pending_approval',
+  'approved',
+  'sent_to_supplier',
+  'partially_received',
+] as const;
+
+const UNASSIGNED_SUPPLIER = 'Unassigned supplier';
+
+/**
+ * Whether a rule should fire for the given inventory position
+ */
+export function shouldReorder(rule: ReorderRuleThresholds, inventoryPosition: number): boolean {
+  return inventoryPosition < rule.reorderPoint;
+}
+
+/**
+ * Quantity to order: at least the configured reorder quantity, enough to bring
+ * the position back above reorder point + safety stock, clamped to min/max order size.
+ */
+export function calculateReorderQuantity(
+  rule: ReorderRuleThresholds,
+  inventoryPosition: number
+): number {
+  const shortfall = rule.reorderPoint + rule.safetyStock - inventoryPosition;
+  let quantity = Math.max(rule.reorderQuantity, shortfall);
+
+  if (rule.minOrderQty != null) {
+    quantity = Math.max(quantity, rule.minOrderQty);
+  }
+  if (rule.maxOrderQty != null) {
+    quantity = Math.min(quantity, rule.maxOrderQty);
+  }
+
+  return Math.max(0, Math.ceil(quantity));
+}
+
+/**
+ * Sum outstanding (ordered but not yet received) quantity per product across open POs
+ */
+export function sumOnOrderQuantities(
+  purchaseOrders: Array<{ items: unknown }>
+): Map<string, number> {
+  const onOrder = new Map<string, number>();
+  for (const po of purchaseOrders) {
+    for (const item of (po.items as PurchaseOrderItem[]) || []) {
+      const outstanding = Math.max(0, item.quantity - (item.receivedQuantity ?? 0));
+      onOrder.set(item.productId, (onOrder.get(item.productId) ?? 0) + outstanding);
+    }
+  }
+  return onOrder;
+}
+
+function validateThresholds(rule: Partial<ReorderRuleInput>): void {
+  if (
+    rule.minOrderQty != null &&
+    rule.maxOrderQty != null &&
+    rule.minOrderQty > rule.maxOrderQty
+  ) {
+    throw new BadRequestError('minOrderQty cannot be greater than maxOrderQty');
+  }
+}
+
+/**
+ * List a vendor's reorder rules with current available stock
+ */
+export async function listReorderRules(vendorId: string) {
+  const rules = await prisma.autoReorderRule.findMany({
+    where: { vendorId },
+    include: {
+      product: { select: { id: true, name: true, sku: true, stockQuantity: true } },
+      warehouse: { select: { id: true, name: true, code: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return Promise.all(
+    rules.map(async (rule) => ({
+      ...rule,
+      availableStock: await getAvailableStock(rule.productId),
+    }))
+  );
+}
+
+/**
+ * Create a reorder rule for one of the vendor's products
+ */
+export async function createReorderRule(vendorId: string, input: ReorderRuleInput) {
+  validateThresholds(input);
+
+  const product = await prisma.product.findFirst({
+    where: { id: input.productId, vendor: { userId: vendorId } },
+    select: { id: true },
+  });
+  if (!product) {
+    throw new NotFoundError('Product not found');
+  }
+
+  // The unique index does not cover NULL warehouse ids, so check explicitly
+  const existing = await prisma.autoReorderRule.findFirst({
+    where: { productId: input.productId, warehouseId: input.warehouseId ?? null },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ConflictError('A reorder rule already exists for this product and warehouse');
+  }
+
+  return prisma.autoReorderRule.create({
+    data: {
+      vendorId,
+      productId: input.productId,
+      warehouseId: input.warehouseId ?? null,
+      reorderPoint: input.reorderPoint,
+      reorderQuantity: input.reorderQuantity,
+      leadTimeDays: input.leadTimeDays,
+      safetyStock: input.safetyStock,
+      minOrderQty: input.minOrderQty ?? null,
+      maxOrderQty: input.maxOrderQty ?? null,
+      supplierId: input.supplierId ?? null,
+      supplierName: input.supplierName ?? null,
+      unitCost: input.unitCost ?? null,
+      isActive: input.isActive ?? true,
+    },
+  });
+}
+
+async function getOwnedRule(vendorId: string, id: string) {
+  const rule = await prisma.autoReorderRule.findFirst({ where: { id, vendorId } });
+  if (!rule) {
+    throw new NotFoundError('Reorder rule not found');
+  }
+  return rule;
+}
+
+/**
+ * Update a reorder rule. The product cannot be changed.
+ */
+export async function updateReorderRule(
+  vendorId: string,
+  id: string,
+  input: Partial<Omit<ReorderRuleInput, 'productId'>>
+) {
+  const rule = await getOwnedRule(vendorId, id);
+  validateThresholds({
+    minOrderQty: input.minOrderQty !== undefined ? input.minOrderQty : rule.minOrderQty,
+    maxOrderQty: input.maxOrderQty !== undefined ? input.maxOrderQty : rule.maxOrderQty,
+  });
+
+  return prisma.autoReorderRule.update({
+    where: { id: rule.id },
+    data: input,
+  });
+}
+
+/**
+ * Delete a reorder rule
+ */
+export async function deleteReorderRule(vendorId: string, id: string) {
+  const rule = await getOwnedRule(vendorId, id);
+  await prisma.autoReorderRule.delete({ where: { id: rule.id } });
+}
+
+/**
+ * Evaluate every active rule and raise draft purchase orders.
+ * Triggered rules are grouped into one PO per vendor, warehouse and supplier.
+ */
+export async function runAutoReorder(now: Date = new Date()): Promise<AutoReorderRunResult> {
+  const rules = await prisma.autoReorderRule.findMany({
+    where: { isActive: true, product: { isActive: true } },
+  });
+
+  const result: AutoReorderRunResult = {
+    rulesEvaluated: rules.length,
+    rulesTriggered: 0,
+    purchaseOrdersCreated: 0,
+    errors: 0,
+  };
+
+  if (rules.length === 0) {
+    return result;
+  }
+
+  const vendorIds = Array.from(new Set<string>(rules.map((r) => r.vendorId)));
+  const openPurchaseOrders = await prisma.purchaseOrder.findMany({
+    where: { vendorId: { in: vendorIds }, status: { in: [...OPEN_PO_STATUSES] } },
+    select: { vendorId: true, items: true },
+  });
+
+  const onOrderByVendor = new Map<string, Map<string, number>>();
+  for (const vendorId of vendorIds) {
+    onOrderByVendor.set(
+      vendorId,
+      sumOnOrderQuantities(openPurchaseOrders.filter((po) => po.vendorId === vendorId))
+    );
+  }
+
+  const groups = new Map<string, Array<{ rule: (typeof rules)[number]; quantity: number }>>();
+
+  for (const rule of rules) {
+    try {
+      const available = await getAvailableStock(rule.productId);
+      const onOrder = onOrderByVendor.get(rule.vendorId)?.get(rule.productId) ?? 0;
+      const position = available + onOrder;
+
+      if (!shouldReorder(rule, position)) {
+        continue;
+      }
+
+      const quantity = calculateReorderQuantity(rule, position);
+      if (quantity <= 0) {
+        continue;
+      }
+
+      const key = [rule.vendorId, rule.warehouseId ?? '', rule.supplierId ?? rule.supplierName ?? ''].join('|');
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push({ rule, quantity });
+      result.rulesTriggered++;
+    } catch (error) {
+      console.error(`Failed to evaluate reorder rule ${rule.id}:`, error);
+      result.errors++;
+    }
+  }
+
+  for (const entries of Array.from(groups.values())) {
+    const first = entries[0].rule;
+    const leadTimeDays = Math.max(...entries.map((e) => e.rule.leadTimeDays));
+    const expectedDelivery = new Date(now);
+    expectedDelivery.setDate(expectedDelivery.getDate() + leadTimeDays);
+
+    try {
+      const purchaseOrder = await prisma.$transaction(async (tx) => {
+        const po = await createPurchaseOrder(
+          first.vendorId,
+          {
+            supplierId: first.supplierId ?? undefined,
+            supplierName: first.supplierName ?? UNASSIGNED_SUPPLIER,
+            warehouseId: first.warehouseId ?? undefined,
+            expectedDelivery,
+            items: entries.map(({ rule, quantity }) => ({
+              productId: rule.productId,
+              quantity,
+              unitPrice: rule.unitCost ?? 0,
+            })),
+            autoGenerated: true,
+            notes: 'Generated automatically by reorder rules',
+          },
+          tx
+        );
+
+        await tx.autoReorderRule.updateMany({
+          where: { id: { in: entries.map((e) => e.rule.id) } },
+          data: { lastTriggered: now },
+        });
+
+        return po;
+      });
+
+      result.purchaseOrdersCreated++;
+
+      await prisma.notification
+        .create({
+          data: {
+            userId: first.vendorId,
+            type: 'vendor',
+            title: 'Draft purchase order created',
+            message: `${purchaseOrder.poNumber} was drafted for ${entries.length} product${entries.length > 1 ? 's' : ''} below reorder point. Review and approve it to restock.`,
+            data: { purchaseOrderId: purchaseOrder.id } as Prisma.InputJsonValue,
+          },
+        })
+        .catch((err) => console.error('Failed to notify vendor about auto reorder:', err));
+    } catch (error) {
+      console.error(`Failed to create auto reorder PO for vendor ${first.vendorId}:`, error);
+      result.errors++;
+    }
+  }
+
+  return result;
+}
@@ -6,6 +6,7 @@
  */
 
 import prisma from '@/lib/prisma';
+import { resolveUnitPrice } from '@/lib/pricing';
 
 export interface AddToCartRequest {
   userId?: string;
@@ -116,8 +117,8 @@ export async function getCart(userId?: string, sessionId?: string): Promise<Cart
 
   // Calculate pricing for each item
   const itemsWithPricing = cartItems.map(item => {
-    const basePrice = item.variant?.salePrice || item.variant?.price || item.product.salePrice || item.product.price;
-    const total = Number(basePrice) * item.quantity;
+    const basePrice = resolveUnitPrice(item.product, item.variant);
+    const total = basePrice * item.quantity;
 
     return {
       ...item,
@@ -0,0 +1,227 @@
+/**
+ * Category Attribute Service
+ *
+ * Attribute schemas say which keys of Product.specifications and
+ * ProductVariant.attributes buyers can filter on in a category ("storage"
+ * in GB, "colour", "material"). Subcategories inherit their parents'
+ * attributes and may redefine a key with their own label or unit.
+ */
+
+import prisma from '@/lib/prisma';
+import type { JWTPayload } from '@/lib/auth';
+import { invalidateCacheByTag } from '@/lib/cache';
+import { ConflictError, NotFoundError } from '@/lib/errors';
+import { recordAudit } from '@/services/AuditLogService';
+
+export const CATEGORY_ATTRIBUTE_TYPES = ['text', 'number', 'boolean'] as const;
+export type CategoryAttributeType = (typeof CATEGORY_ATTRIBUTE_TYPES)[number];
+
+export interface CategoryAttributeInput {
+  key: string;
+  label: string;
+  type?: CategoryAttributeType;
+  unit?: string | null;
+  isFilterable?: boolean;
+  sortOrder?: number;
+}
+
+export interface CategoryAttributeSchema {
+  id: string;
+  categoryId: string;
+  key: string;
+  label: string;
+  type: CategoryAttributeType;
+  unit: string | null;
+  isFilterable: boolean;
+  sortOrder: number;
+  /** True when the attribute is defined on a parent category */
+  inherited: boolean;
+}
+
+// Deeper trees than this are almost certainly a parent loop
+const MAX_CATEGORY_DEPTH = 10;
+
+/**
+ * Keys are matched case-insensitively against product JSON, so they are
+ * stored the way the product_attribute_values view exposes them
+ */
+export function normalizeAttributeKey(key: string): string {
+  return key.trim().toLowerCase();
+}
+
+/**
+ * Ids of a category and its ancestors, nearest first
+ */
+async function getCategoryLineage(categoryId: string): Promise<string[]> {
+  const lineage: string[] = [];
+  let currentId: string | null = categoryId;
+
+  while (currentId && lineage.length < MAX_CATEGORY_DEPTH && !lineage.includes(currentId)) {
+    lineage.push(currentId);
+    const category: { parentId: string | null } | null = await prisma.category.findUnique({
+      where: { id: currentId },
+      select: { parentId: true },
+    });
+    currentId = category?.parentId ?? null;
+  }
+
+  return lineage;
+}
+
+/**
+ * Attributes that apply to a category, its own and inherited, in display
+ * order. A subcategory's definition of a key replaces its parent's.
+ */
+export async function getCategoryAttributes(
+  categoryId: string,
+  options: { filterableOnly?: boolean } = {}
+): Promise<CategoryAttributeSchema[]> {
+  const lineage = await getCategoryLineage(categoryId);
+  const attributes = await prisma.categoryAttribute.findMany({
+    where: {
+      categoryId: { in: lineage },
+      ...(options.filterableOnly && { isFilterable: true }),
+    },
+  });
+
+  const byKey = new Map<string, CategoryAttributeSchema>();
+  for (const categoryIdInLineage of lineage) {
+    for (const attribute of attributes.filter((a) => a.categoryId === categoryIdInLineage)) {
+      if (byKey.has(attribute.key)) continue;
+      byKey.set(attribute.key, {
+        id: attribute.id,
+        categoryId: attribute.categoryId,
+        key: attribute.key,
+        label: attribute.label,
+        type: attribute.type as CategoryAttributeType,
+        unit: attribute.unit,
+        isFilterable: attribute.isFilterable,
+        sortOrder: attribute.sortOrder,
+        inherited: attribute.categoryId !== categoryId,
+      });
+    }
+  }
+
+  return [...byKey.values()].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+}
+
+/**
+ * Add a filterable attribute to a category
+ */
+export async function createCategoryAttribute(
+  actor: Pick<JWTPayload, 'userId'>,
+  categoryId: string,
+  input: CategoryAttributeInput,
+  ipAddress?: string | null
+) {
+  const category = await prisma.category.findUnique({
+    where: { id: categoryId },
+    select: { id: true },
+  });
+  if (!category) {
+    throw new NotFoundError('Category not found');
+  }
+
+  const key = normalizeAttributeKey(input.key);
+  let attribute;
+  try {
+    attribute = await prisma.categoryAttribute.create({
+      data: {
+        categoryId,
+        key,
+        label: input.label.trim(),
+        type: input.type ?? 'text',
+        unit: input.unit?.trim() || null,
+        isFilterable: input.isFilterable ?? true,
+        sortOrder: input.sortOrder ?? 0,
+      },
+    });
+  } catch (error: any) {
+    if (error?.code === 'P2002') {
+      throw new ConflictError(`This category already has a "${key}" attribute`, 'ATTRIBUTE_EXISTS');
+    }
+    throw error;
+  }
+
+  await invalidateCacheByTag('facets');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'category_attribute.create',
+    entityType: 'category_attribute',
+    entityId: attribute.id,
+    changes: { categoryId, key, type: attribute.type, unit: attribute.unit },
+    ipAddress,
+  });
+
+  return attribute;
+}
+
+/**
+ * Change an attribute's label, type, unit, order or whether it is filterable.
+ * The key stays fixed because product data refers to it.
+ */
+export async function updateCategoryAttribute(
+  actor: Pick<JWTPayload, 'userId'>,
+  categoryId: string,
+  attributeId: string,
+  input: Partial<Omit<CategoryAttributeInput, 'key'>>,
+  ipAddress?: string | null
+) {
+  const existing = await prisma.categoryAttribute.findFirst({ where: { id: attributeId, categoryId } });
+  if (!existing) {
+    throw new NotFoundError('Attribute not found');
+  }
+
+  const attribute = await prisma.categoryAttribute.update({
+    where: { id: attributeId },
+    data: {
+      ...(input.label !== undefined && { label: input.label.trim() }),
+      ...(input.type !== undefined && { type: input.type }),
+      ...(input.unit !== undefined && { unit: input.unit?.trim() || null }),
+      ...(input.isFilterable !== undefined && { isFilterable: input.isFilterable }),
+      ...(input.sortOrder !== undefined && { sortOrder: input.sortOrder }),
+    },
+  });
+
+  await invalidateCacheByTag('facets');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'category_attribute.update',
+    entityType: 'category_attribute',
+    entityId: attributeId,
+    changes: input as Record<string, unknown>,
+    ipAddress,
+  });
+
+  return attribute;
+}
+
+/**
+ * Stop offering an attribute as a filter. Product data is left as it is.
+ */
+export async function deleteCategoryAttribute(
+  actor: Pick<JWTPayload, 'userId'>,
+  categoryId: string,
+  attributeId: string,
+  ipAddress?: string | null
+): Promise<void> {
+  const existing = await prisma.categoryAttribute.findFirst({ where: { id: attributeId, categoryId } });
+  if (!existing) {
+    throw new NotFoundError('Attribute not found');
+  }
+
+  await prisma.categoryAttribute.delete({ where: { id: attributeId } });
+
+  await invalidateCacheByTag('facets');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'category_attribute.delete',
+    entityType: 'category_attribute',
+    entityId: attributeId,
+    changes: { categoryId: existing.categoryId, key: existing.key },
+    ipAddress,
+  });
+}
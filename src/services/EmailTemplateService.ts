@@ -0,0 +1,662 @@
+/**
+ * Email Template Service
+ *
+ * Resolves transactional emails by template key and the recipient's
+ * language. Admins can override any template per language in the
+ * email_templates table; a key or language without an active override falls
+ * back to the English override and then to the built-in builder in
+ * lib/email, so the built-ins are the defaults every template starts from.
+ */
+
+import prisma from '@/lib/prisma';
+import type { JWTPayload } from '@/lib/auth';
+import {
+  createAccountDeletionConfirmationEmail,
+  createDataExportExpiringEmail,
+  createDataExportReadyEmail,
+  createDisputeEscalatedEmail,
+  createDisputeFiledEmail,
+  createDisputeRespondedEmail,
+  createDisputeResolvedEmail,
+  createEmailVerificationEmail,
+  createEnhancedTrackingEmail,
+  createOrderConfirmationEmail,
+  createPasswordResetEmail,
+  createProductSubscriptionDeliveryEmail,
+  createShippingUpdateEmail,
+  createSubscriptionRenewalFailedEmail,
+  createSubscriptionRenewalReminderEmail,
+  createSubscriptionRenewalSuccessEmail,
+  createSupportTicketCreatedEmail,
+  createSupportTicketReplyEmail,
+  createVendorStaffInviteEmail,
+  createVerificationStatusEmail,
+  sendEmailImmediate,
+  type EmailTemplate,
+} from '@/lib/email';
+import {
+  assertTemplateDataComplete,
+  assertTemplateUsesDeclaredVariables,
+  normalizeTemplateVariables,
+  renderTemplateContent,
+  type RenderedContent,
+  type TemplateContent,
+  type TemplateVariable,
+} from '@/lib/email-templates';
+import { BadRequestError, NotFoundError } from '@/lib/errors';
+import { logError } from '@/lib/logger';
+import { defaultLocale, isValidLocale, type Locale } from '@/i18n/config';
+import { recordAudit } from '@/services/AuditLogService';
+
+interface EmailTemplateDefault {
+  name: string;
+  description: string;
+  variables: TemplateVariable[];
+  /** Values used for previews and test sends */
+  sample: Record<string, unknown>;
+  /**
+   * Variables the built-in email transforms or branches on; the editor's
+   * starting point keeps their sample value instead of a placeholder
+   */
+  fixed?: string[];
+  build: (to: string, data: Record<string, any>) => EmailTemplate;
+}
+
+export interface EmailRecipient {
+  /** The recipient's account, whose language preference picks the template */
+  userId?: string | null;
+  /** Overrides the account preference, e.g. for guests */
+  language?: string | null;
+}
+
+export interface EmailTemplateInput extends TemplateContent {
+  language: Locale;
+  isActive?: boolean;
+}
+
+export interface EmailTemplatePreviewInput extends Partial<TemplateContent> {
+  language: Locale;
+  data?: Record<string, unknown>;
+}
+
+const SAMPLE_APP_URL = 'https://minalesh.et';
+const SAMPLE_DATE = new Date('2026-11-15T09:00:00Z');
+
+const required = (name: string, description: string): TemplateVariable => ({ name, description, required: true });
+const optional = (name: string, description: string): TemplateVariable => ({ name, description, required: false });
+
+const DISPUTE_VARIABLES = [
+  required('recipientName', 'Who the email is addressed to'),
+  required('disputeId', 'Dispute ID'),
+  required('orderNumber', 'Order number'),
+];
+
+const DISPUTE_SAMPLE = { recipientName: 'Abebe', disputeId: 'd-1024', orderNumber: 'MIN-10245' };
+
+/**
+ * Every template the platform sends, with the variables callers provide
+ */
+export const EMAIL_TEMPLATE_DEFAULTS: Record<string, EmailTemplateDefault> = {
+  order_confirmation: {
+    name: 'Order confirmation',
+    description: 'Sent when an order is placed',
+    variables: [
+      required('orderNumber', 'Order number'),
+      required('totalAmount', 'Order total in ETB'),
+      required('items', 'Ordered items; each has name, quantity and price'),
+    ],
+    sample: {
+      orderNumber: 'MIN-10245',
+      totalAmount: '2,450.00',
+      items: [
+        { name: 'Yirgacheffe coffee 1kg', quantity: 2, price: 950 },
+        { name: 'Jebena', quantity: 1, price: 550 },
+      ],
+    },
+    build: (to, data) => createOrderConfirmationEmail(to, data.orderNumber, data.totalAmount, data.items),
+  },
+  shipping_update: {
+    name: 'Shipping update',
+    description: 'Sent when an order changes shipping status',
+    variables: [
+      required('orderNumber', 'Order number'),
+      required('status', 'New order status'),
+      optional('trackingNumber', 'Carrier tracking number'),
+    ],
+    sample: { orderNumber: 'MIN-10245', status: 'shipped', trackingNumber: 'ET123456789' },
+    build: (to, data) => createShippingUpdateEmail(to, data.orderNumber, data.status, data.trackingNumber),
+  },
+  order_tracking: {
+    name: 'Order tracking update',
+    description: 'Sent at each delivery stage with courier and delivery estimate',
+    variables: [
+      required('orderNumber', 'Order number'),
+      required('stage', 'Delivery stage, e.g. out_for_delivery'),
+      optional('courierName', 'Delivery person'),
+      optional('courierPhone', 'Delivery person phone'),
+      optional('estimatedDeliveryStart', 'Start of the delivery window'),
+      optional('estimatedDeliveryEnd', 'End of the delivery window'),
+      optional('deliveryProofUrl', 'Photo of the delivered parcel'),
+      optional('trackingUrl', 'Tracking page'),
+    ],
+    sample: {
+      orderNumber: 'MIN-10245',
+      stage: 'out_for_delivery',
+      courierName: 'Dawit',
+      courierPhone: '+251911000000',
+      estimatedDeliveryEnd: SAMPLE_DATE,
+      trackingUrl: `${SAMPLE_APP_URL}/orders/MIN-10245`,
+    },
+    fixed: ['stage'],
+    build: (to, data) =>
+      createEnhancedTrackingEmail(to, data.orderNumber, data.stage, {
+        courierName: data.courierName,
+        courierPhone: data.courierPhone,
+        estimatedDeliveryStart: data.estimatedDeliveryStart,
+        estimatedDeliveryEnd: data.estimatedDeliveryEnd,
+        deliveryProofUrl: data.deliveryProofUrl,
+        trackingUrl: data.trackingUrl,
+      }),
+  },
+  password_reset: {
+    name: 'Password reset',
+    description: 'Link to choose a new password; the link is {{appUrl}}/auth/reset-password?token={{resetToken}}',
+    variables: [required('resetToken', 'One-time reset token'), required('appUrl', 'Site address')],
+    sample: { resetToken: 'sample-reset-token', appUrl: SAMPLE_APP_URL },
+    build: (to, data) => createPasswordResetEmail(to, data.resetToken, data.appUrl),
+  },
+  email_verification: {
+    name: 'Email verification',
+    description: 'Link to confirm an email address; the link is {{appUrl}}/auth/verify-email?token={{verificationToken}}',
+    variables: [required('verificationToken', 'One-time verification token'), required('appUrl', 'Site address')],
+    sample: { verificationToken: 'sample-verification-token', appUrl: SAMPLE_APP_URL },
+    build: (to, data) => createEmailVerificationEmail(to, data.verificationToken, data.appUrl),
+  },
+  data_export_ready: {
+    name: 'Data export ready',
+    description: 'Sent when a personal data export can be downloaded',
+    variables: [
+      required('downloadUrl', 'Download link'),
+      required('expiresAt', 'When the link expires'),
+      required('format', 'File format, e.g. json'),
+    ],
+    sample: { downloadUrl: `${SAMPLE_APP_URL}/exports/sample`, expiresAt: SAMPLE_DATE, format: 'json' },
+    fixed: ['format'],
+    build: (to, data) => createDataExportReadyEmail(to, data.downloadUrl, data.expiresAt, data.format),
+  },
+  data_export_expiring: {
+    name: 'Data export expiring',
+    description: 'Reminder to download a data export before the link expires',
+    variables: [
+      required('downloadUrl', 'Download link'),
+      required('expiresAt', 'When the link expires'),
+      required('hoursRemaining', 'Hours until the link expires'),
+    ],
+    sample: { downloadUrl: `${SAMPLE_APP_URL}/exports/sample`, expiresAt: SAMPLE_DATE, hoursRemaining: 24 },
+    build: (to, data) => createDataExportExpiringEmail(to, data.downloadUrl, data.expiresAt, data.hoursRemaining),
+  },
+  account_deletion: {
+    name: 'Account deletion',
+    description: 'Confirms an account was deleted',
+    variables: [required('displayName', 'Name on the account')],
+    sample: { displayName: 'Abebe' },
+    build: (to, data) => createAccountDeletionConfirmationEmail(to, data.displayName),
+  },
+  vendor_verification_status: {
+    name: 'Vendor verification status',
+    description: 'Sent when a vendor application is approved, rejected or put under review',
+    variables: [
+      required('vendorName', 'Shop name'),
+      required('status', 'approved, rejected or under_review'),
+      optional('rejectionReason', 'Why the application was rejected'),
+    ],
+    sample: { vendorName: 'Addis Crafts', status: 'approved' },
+    fixed: ['status'],
+    build: (to, data) => createVerificationStatusEmail(to, data.vendorName, data.status, data.rejectionReason),
+  },
+  dispute_filed: {
+    name: 'Dispute filed',
+    description: 'Sent to the customer and the vendor when a dispute is opened',
+    variables: [
+      ...DISPUTE_VARIABLES,
+      required('disputeType', 'What the dispute is about'),
+      required('isVendor', 'True in the email to the vendor'),
+    ],
+    sample: { ...DISPUTE_SAMPLE, disputeType: 'not_received', isVendor: false },
+    fixed: ['disputeType'],
+    build: (to, data) =>
+      createDisputeFiledEmail(to, data.recipientName, data.disputeId, data.orderNumber, data.disputeType, data.isVendor),
+  },
+  dispute_responded: {
+    name: 'Dispute response',
+    description: 'Sent when the other party replies on a dispute',
+    variables: [...DISPUTE_VARIABLES, required('responderName', 'Who replied')],
+    sample: { ...DISPUTE_SAMPLE, responderName: 'Addis Crafts' },
+    build: (to, data) =>
+      createDisputeRespondedEmail(to, data.recipientName, data.disputeId, data.orderNumber, data.responderName),
+  },
+  dispute_escalated: {
+    name: 'Dispute escalated',
+    description: 'Sent when a dispute goes to admin review',
+    variables: [...DISPUTE_VARIABLES, required('isAdmin', 'True in the email to the admin team')],
+    sample: { ...DISPUTE_SAMPLE, isAdmin: false },
+    build: (to, data) =>
+      createDisputeEscalatedEmail(to, data.recipientName, data.disputeId, data.orderNumber, data.isAdmin),
+  },
+  dispute_resolved: {
+    name: 'Dispute resolved',
+    description: 'Sent to both parties with the resolution',
+    variables: [
+      ...DISPUTE_VARIABLES,
+      required('resolution', 'Resolution notes'),
+      required('outcome', 'customer_favor, vendor_favor, partial_refund or other'),
+    ],
+    sample: { ...DISPUTE_SAMPLE, resolution: 'Full refund issued to the customer', outcome: 'customer_favor' },
+    fixed: ['outcome'],
+    build: (to, data) =>
+      createDisputeResolvedEmail(to, data.recipientName, data.disputeId, data.orderNumber, data.resolution, data.outcome),
+  },
+  subscription_renewal_reminder: {
+    name: 'Premium renewal reminder',
+    description: 'Sent a few days before a premium plan renews',
+    variables: [
+      required('planType', 'premium_monthly or premium_yearly'),
+      required('renewalDate', 'Renewal date'),
+      required('priceAmount', 'Renewal price in ETB'),
+      required('daysUntilRenewal', 'Days until renewal'),
+      required('manageUrl', 'Subscription settings page'),
+    ],
+    sample: {
+      planType: 'premium_monthly',
+      renewalDate: SAMPLE_DATE,
+      priceAmount: 99,
+      daysUntilRenewal: 3,
+      manageUrl: `${SAMPLE_APP_URL}/account/subscription`,
+    },
+    fixed: ['planType'],
+    build: (to, data) =>
+      createSubscriptionRenewalReminderEmail(
+        to,
+        data.planType,
+        data.renewalDate,
+        data.priceAmount,
+        data.daysUntilRenewal,
+        data.manageUrl
+      ),
+  },
+  subscription_renewal_success: {
+    name: 'Premium renewed',
+    description: 'Sent after a premium plan renews',
+    variables: [
+      required('planType', 'premium_monthly or premium_yearly'),
+      required('newPeriodEnd', 'End of the new billing period'),
+      required('priceAmount', 'Amount charged in ETB'),
+      required('manageUrl', 'Subscription settings page'),
+    ],
+    sample: {
+      planType: 'premium_yearly',
+      newPeriodEnd: SAMPLE_DATE,
+      priceAmount: 999,
+      manageUrl: `${SAMPLE_APP_URL}/account/subscription`,
+    },
+    fixed: ['planType'],
+    build: (to, data) =>
+      createSubscriptionRenewalSuccessEmail(to, data.planType, data.newPeriodEnd, data.priceAmount, data.manageUrl),
+  },
+  subscription_renewal_failed: {
+    name: 'Premium renewal failed',
+    description: 'Sent when a premium renewal payment fails',
+    variables: [
+      required('planType', 'premium_monthly or premium_yearly'),
+      required('failureReason', 'Why the payment failed'),
+      required('retryDate', 'When the payment is retried'),
+      required('updatePaymentUrl', 'Page to update the payment method'),
+    ],
+    sample: {
+      planType: 'premium_monthly',
+      failureReason: 'Insufficient balance',
+      retryDate: SAMPLE_DATE,
+      updatePaymentUrl: `${SAMPLE_APP_URL}/account/subscription`,
+    },
+    fixed: ['planType'],
+    build: (to, data) =>
+      createSubscriptionRenewalFailedEmail(to, data.planType, data.failureReason, data.retryDate, data.updatePaymentUrl),
+  },
+  product_subscription_delivery: {
+    name: 'Subscribe & Save delivery',
+    description: 'Sent when a recurring product order is placed',
+    variables: [
+      required('productName', 'Product'),
+      required('orderNumber', 'Order number'),
+      required('quantity', 'Quantity'),
+      required('price', 'Price in ETB'),
+      required('nextDeliveryDate', 'Next delivery date'),
+      required('manageUrl', 'Subscription settings page'),
+    ],
+    sample: {
+      productName: 'Teff flour 5kg',
+      orderNumber: 'MIN-10245',
+      quantity: 1,
+      price: 405,
+      nextDeliveryDate: SAMPLE_DATE,
+      manageUrl: `${SAMPLE_APP_URL}/account/subscriptions`,
+    },
+    build: (to, data) =>
+      createProductSubscriptionDeliveryEmail(
+        to,
+        data.productName,
+        data.orderNumber,
+        data.quantity,
+        data.price,
+        data.nextDeliveryDate,
+        data.manageUrl
+      ),
+  },
+  support_ticket_created: {
+    name: 'Support ticket received',
+    description: 'Confirms a new support ticket; keep the ticket number in the subject so replies thread',
+    variables: [
+      required('name', 'Customer name'),
+      required('ticketNumber', 'Ticket number'),
+      required('subject', 'Ticket subject'),
+      required('firstResponseDueAt', 'When the first reply is due'),
+    ],
+    sample: { name: 'Abebe', ticketNumber: 'TCK-1042', subject: 'Where is my order?', firstResponseDueAt: SAMPLE_DATE },
+    build: (to, data) =>
+      createSupportTicketCreatedEmail(to, data.name, data.ticketNumber, data.subject, data.firstResponseDueAt),
+  },
+  support_ticket_reply: {
+    name: 'Support ticket reply',
+    description: 'Sends an agent reply; keep the ticket number in the subject so replies thread',
+    variables: [
+      required('name', 'Customer name'),
+      required('ticketNumber', 'Ticket number'),
+      required('subject', 'Ticket subject'),
+      required('agentName', 'Agent who replied'),
+      required('reply', 'Reply text'),
+    ],
+    sample: {
+      name: 'Abebe',
+      ticketNumber: 'TCK-1042',
+      subject: 'Where is my order?',
+      agentName: 'Minalesh Support',
+      reply: 'Your order is out for delivery today.',
+    },
+    build: (to, data) =>
+      createSupportTicketReplyEmail(to, data.name, data.ticketNumber, data.subject, data.agentName, data.reply),
+  },
+  vendor_staff_invite: {
+    name: 'Shop staff invitation',
+    description: 'Invites someone to help run a shop; the link is {{appUrl}}/vendor/staff/accept?token={{inviteToken}}',
+    variables: [
+      required('storeName', 'Shop name'),
+      required('permissionLabels', 'What the invitee will be allowed to do'),
+      required('inviteToken', 'One-time invitation token'),
+      required('appUrl', 'Site address'),
+    ],
+    sample: {
+      storeName: 'Addis Crafts',
+      permissionLabels: ['Products and inventory', 'Orders and fulfilment'],
+      inviteToken: 'sample-invite-token',
+      appUrl: SAMPLE_APP_URL,
+    },
+    build: (to, data) =>
+      createVendorStaffInviteEmail(to, data.storeName, data.permissionLabels, data.inviteToken, data.appUrl),
+  },
+};
+
+function getTemplateDefault(key: string): EmailTemplateDefault {
+  const definition = EMAIL_TEMPLATE_DEFAULTS[key];
+  if (!definition) {
+    throw new NotFoundError('Email template not found', 'EMAIL_TEMPLATE_NOT_FOUND');
+  }
+  return definition;
+}
+
+/**
+ * The language a user reads email in; English when unset or unsupported
+ */
+export async function getRecipientLanguage(userId?: string | null): Promise<Locale> {
+  if (!userId) return defaultLocale;
+  const preferences = await prisma.userPreferences.findUnique({
+    where: { userId },
+    select: { language: true },
+  });
+  return preferences && isValidLocale(preferences.language) ? preferences.language : defaultLocale;
+}
+
+/**
+ * The active override for the language, else the English one
+ */
+async function findActiveTemplate(key: string, language: Locale) {
+  const templates = await prisma.emailTemplate.findMany({
+    where: { key, language: { in: [...new Set([language, defaultLocale])] }, isActive: true },
+  });
+  return (
+    templates.find((template: { language: string }) => template.language === language) ||
+    templates.find((template: { language: string }) => template.language === defaultLocale) ||
+    null
+  );
+}
+
+/**
+ * Build an email from its template in the recipient's language.
+ *
+ * Missing required variables are a caller error and throw. A stored template
+ * that cannot be loaded or rendered is logged and the built-in default is
+ * sent instead, so a bad edit never stops password resets or receipts.
+ */
+export async function renderEmail(
+  key: string,
+  to: string,
+  data: Record<string, unknown>,
+  recipient: EmailRecipient = {}
+): Promise<EmailTemplate> {
+  const definition = getTemplateDefault(key);
+
+  try {
+    const language =
+      recipient.language && isValidLocale(recipient.language)
+        ? recipient.language
+        : await getRecipientLanguage(recipient.userId);
+    const template = await findActiveTemplate(key, language);
+    if (template) {
+      const rendered = renderTemplateContent(
+        template,
+        normalizeTemplateVariables(template.variables),
+        data,
+        template.language
+      );
+      return { to, ...rendered, template: key, metadata: { templateId: template.id, language: template.language } };
+    }
+  } catch (error) {
+    if (error instanceof BadRequestError && error.errorCode === 'MISSING_TEMPLATE_VARIABLES') {
+      throw error;
+    }
+    logError(error, { operation: 'renderEmail', template: key });
+  }
+
+  assertTemplateDataComplete(definition.variables, data);
+  return { ...definition.build(to, data), template: key };
+}
+
+/**
+ * Every template key with the languages that have an override
+ */
+export async function listEmailTemplates() {
+  const overrides = await prisma.emailTemplate.findMany({
+    select: { id: true, key: true, language: true, isActive: true, updatedAt: true },
+    orderBy: { language: 'asc' },
+  });
+
+  return Object.entries(EMAIL_TEMPLATE_DEFAULTS).map(([key, definition]) => ({
+    key,
+    name: definition.name,
+    description: definition.description,
+    overrides: overrides.filter((override: { key: string }) => override.key === key),
+  }));
+}
+
+/**
+ * The built-in email as template source: text variables become {{name}}
+ * placeholders, the rest keep their sample values for the admin to replace
+ */
+function builtInContent(definition: EmailTemplateDefault): TemplateContent {
+  const placeholders = Object.fromEntries(
+    definition.variables
+      .filter(({ name }) => typeof definition.sample[name] === 'string' && !definition.fixed?.includes(name))
+      .map(({ name }) => [name, `{{${name}}}`])
+  );
+  const email = definition.build('preview@minalesh.et', { ...definition.sample, ...placeholders });
+  return { subject: email.subject, htmlContent: email.html, textContent: email.text };
+}
+
+/**
+ * A template's variables, sample data, built-in default and overrides
+ */
+export async function getEmailTemplate(key: string) {
+  const definition = getTemplateDefault(key);
+  const overrides = await prisma.emailTemplate.findMany({
+    where: { key },
+    orderBy: { language: 'asc' },
+  });
+
+  return {
+    key,
+    name: definition.name,
+    description: definition.description,
+    variables: definition.variables,
+    sample: definition.sample,
+    builtIn: builtInContent(definition),
+    overrides,
+  };
+}
+
+/**
+ * Create or replace the override for one language. The template may only
+ * use the key's variables; those are stored with it and checked on send.
+ */
+export async function saveEmailTemplate(
+  actor: Pick<JWTPayload, 'userId'>,
+  key: string,
+  input: EmailTemplateInput,
+  ipAddress?: string | null
+) {
+  const definition = getTemplateDefault(key);
+  assertTemplateUsesDeclaredVariables(input, definition.variables);
+  renderTemplateContent(input, definition.variables, definition.sample, input.language);
+
+  const content = {
+    subject: input.subject,
+    htmlContent: input.htmlContent,
+    textContent: input.textContent,
+    variables: definition.variables as any,
+    isActive: input.isActive ?? true,
+  };
+  const template = await prisma.emailTemplate.upsert({
+    where: { key_language: { key, language: input.language } },
+    create: {
+      key,
+      language: input.language,
+      name: definition.name,
+      description: definition.description,
+      category: 'transactional',
+      ...content,
+    },
+    update: content,
+  });
+
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'email_template.save',
+    entityType: 'email_template',
+    entityId: template.id,
+    changes: { key, language: input.language, subject: input.subject, isActive: content.isActive },
+    ipAddress,
+  });
+
+  return template;
+}
+
+/**
+ * Remove a language's override; that language falls back to English or the built-in
+ */
+export async function deleteEmailTemplate(
+  actor: Pick<JWTPayload, 'userId'>,
+  key: string,
+  language: string,
+  ipAddress?: string | null
+): Promise<void> {
+  getTemplateDefault(key);
+  const template = await prisma.emailTemplate.findUnique({
+    where: { key_language: { key, language } },
+    select: { id: true },
+  });
+  if (!template) {
+    throw new NotFoundError('No template for this language', 'EMAIL_TEMPLATE_NOT_FOUND');
+  }
+
+  await prisma.emailTemplate.delete({ where: { id: template.id } });
+
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'email_template.delete',
+    entityType: 'email_template',
+    entityId: template.id,
+    changes: { key, language },
+    ipAddress,
+  });
+}
+
+/**
+ * Render a draft, or the template recipients in the language currently get,
+ * with the sample data and any values given
+ */
+export async function previewEmailTemplate(key: string, input: EmailTemplatePreviewInput): Promise<RenderedContent> {
+  const definition = getTemplateDefault(key);
+  const data = { ...definition.sample, ...input.data };
+
+  if (input.subject !== undefined || input.htmlContent !== undefined || input.textContent !== undefined) {
+    const draft = {
+      subject: input.subject ?? '',
+      htmlContent: input.htmlContent ?? '',
+      textContent: input.textContent ?? '',
+    };
+    assertTemplateUsesDeclaredVariables(draft, definition.variables);
+    return renderTemplateContent(draft, definition.variables, data, input.language);
+  }
+
+  const email = await renderEmail(key, 'preview@minalesh.et', data, { language: input.language });
+  return { subject: email.subject, html: email.html, text: email.text };
+}
+
+/**
+ * Send a preview to an admin's inbox, bypassing the queue
+ */
+export async function sendTestEmail(
+  actor: Pick<JWTPayload, 'userId' | 'email'>,
+  key: string,
+  input: EmailTemplatePreviewInput & { to?: string }
+) {
+  const to = input.to || actor.email;
+  if (!to) {
+    throw new BadRequestError('Add an email address to send the test to', 'TEST_RECIPIENT_REQUIRED');
+  }
+
+  const preview = await previewEmailTemplate(key, input);
+  const sent = await sendEmailImmediate({
+    to,
+    subject: `[Test] ${preview.subject}`,
+    html: preview.html,
+    text: preview.text,
+    template: key,
+    metadata: { test: true, language: input.language },
+  });
+  if (!sent) {
+    throw new BadRequestError('The test email could not be sent', 'TEST_EMAIL_FAILED');
+  }
+
+  return { to };
+}
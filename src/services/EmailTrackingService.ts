@@ -0,0 +1,295 @@
+/**
+ * Email Tracking Service
+ *
+ * Records what happens to campaign emails after they are sent: opens and
+ * clicks from the tracking links added in lib/email-tracking, one-click
+ * unsubscribes, and bounces and complaints reported by the mail provider's
+ * webhook. Each event is stored as an EmailEvent and the campaign's counters
+ * count recipients once per kind of event. Hard bounces and complaints add
+ * the address to EmailSuppression, which the queue skips from then on.
+ */
+
+import prisma from '@/lib/prisma';
+import { BadRequestError, NotFoundError } from '@/lib/errors';
+import { logEvent } from '@/lib/logger';
+import { verifyClickUrl, verifyTrackingToken } from '@/lib/email-tracking';
+
+export type EmailEventType = 'open' | 'click' | 'unsubscribe' | 'bounce' | 'complaint';
+
+/**
+ * The parts of a Resend delivery webhook we use
+ */
+export interface DeliveryWebhookEvent {
+  type: string;
+  created_at?: string;
+  data?: {
+    email_id?: string;
+    to?: string[] | string;
+    bounce?: { type?: string; subType?: string; message?: string };
+  };
+}
+
+type TrackedEmail = { id: string; to: string; campaignId: string | null };
+
+const CAMPAIGN_COUNTERS: Partial<Record<EmailEventType, 'openCount' | 'clickCount' | 'unsubscribeCount' | 'bounceCount'>> = {
+  open: 'openCount',
+  click: 'clickCount',
+  unsubscribe: 'unsubscribeCount',
+  bounce: 'bounceCount',
+};
+
+async function findTrackedEmail(where: { id: string } | { providerMessageId: string }): Promise<TrackedEmail | null> {
+  const email = await prisma.emailQueue.findFirst({
+    where,
+    select: { id: true, to: true, metadata: true },
+  });
+  if (!email) return null;
+  const metadata = email.metadata as Record<string, unknown> | null;
+  return {
+    id: email.id,
+    to: email.to,
+    campaignId: metadata?.type === 'campaign' && typeof metadata.campaignId === 'string' ? metadata.campaignId : null,
+  };
+}
+
+/**
+ * Store an event; the first event of its kind for an email also bumps the
+ * campaign's counter
+ */
+async function recordEvent(
+  email: TrackedEmail | null,
+  address: string,
+  type: EmailEventType,
+  details: { url?: string; metadata?: Record<string, unknown> } = {}
+): Promise<void> {
+  const counter = CAMPAIGN_COUNTERS[type];
+  const first =
+    !!email?.campaignId &&
+    !!counter &&
+    (await prisma.emailEvent.count({ where: { emailQueueId: email.id, type } })) === 0;
+
+  await prisma.emailEvent.create({
+    data: {
+      emailQueueId: email?.id ?? null,
+      campaignId: email?.campaignId ?? null,
+      email: address,
+      type,
+      url: details.url,
+      metadata: details.metadata as any,
+    },
+  });
+
+  if (first) {
+    await prisma.emailCampaign.update({
+      where: { id: email!.campaignId! },
+      data: { [counter!]: { increment: 1 } },
+    });
+  }
+}
+
+/**
+ * Unsubscribe an address from marketing email. Returns false when it already was.
+ */
+async function unsubscribeAddress(
+  address: string,
+  email: TrackedEmail | null,
+  metadata: Record<string, unknown>
+): Promise<boolean> {
+  const existing = await prisma.emailSubscription.findUnique({ where: { email: address } });
+  if (existing && !existing.isSubscribed) return false;
+
+  const now = new Date();
+  await prisma.emailSubscription.upsert({
+    where: { email: address },
+    create: { email: address, isSubscribed: false, unsubscribedAt: now },
+    update: { isSubscribed: false, unsubscribedAt: now },
+  });
+  await recordEvent(email, address, 'unsubscribe', { metadata });
+
+  logEvent('email_unsubscribed', { emailQueueId: email?.id, campaignId: email?.campaignId, ...metadata });
+  return true;
+}
+
+/**
+ * Stop sending to an address and drop whatever is still queued for it
+ */
+async function suppressAddress(address: string, reason: 'bounce' | 'complaint', details?: string): Promise<void> {
+  const email = address.toLowerCase();
+  await prisma.emailSuppression.upsert({
+    where: { email },
+    create: { email, reason, details },
+    update: { reason, details },
+  });
+  await prisma.emailQueue.updateMany({
+    where: { to: { equals: address, mode: 'insensitive' }, status: 'pending' },
+    data: { status: 'suppressed', lastError: `Address suppressed after ${reason}` },
+  });
+
+  logEvent('email_address_suppressed', { reason });
+}
+
+/**
+ * Record an open from the tracking pixel. Invalid tokens are ignored.
+ */
+export async function recordEmailOpen(token: string | null): Promise<void> {
+  const emailQueueId = verifyTrackingToken(token);
+  if (!emailQueueId) return;
+
+  const email = await findTrackedEmail({ id: emailQueueId });
+  if (!email) return;
+  await recordEvent(email, email.to, 'open');
+}
+
+/**
+ * Record a click and return where to send the reader. Links whose signature
+ * does not match go to the storefront instead, so the redirect cannot be
+ * pointed at other sites.
+ */
+export async function recordEmailClick(
+  token: string | null,
+  url: string | null,
+  signature: string | null
+): Promise<string> {
+  const fallback = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const emailQueueId = verifyTrackingToken(token);
+  if (!emailQueueId || !url || !/^https?:\/\//i.test(url) || !verifyClickUrl(token!, url, signature)) {
+    return fallback;
+  }
+
+  const email = await findTrackedEmail({ id: emailQueueId });
+  if (email) {
+    await recordEvent(email, email.to, 'click', { url });
+  }
+  return url;
+}
+
+/**
+ * Unsubscribe the recipient of a tracked email, from the link in the footer
+ * or a mail client's RFC 8058 one-click POST
+ */
+export async function unsubscribeByToken(
+  token: string | null,
+  method: 'link' | 'one_click'
+): Promise<{ email: string; unsubscribed: boolean }> {
+  const emailQueueId = verifyTrackingToken(token);
+  const email = emailQueueId ? await findTrackedEmail({ id: emailQueueId }) : null;
+  if (!email) {
+    throw new BadRequestError('Invalid or expired unsubscribe link', 'INVALID_UNSUBSCRIBE_TOKEN');
+  }
+
+  const unsubscribed = await unsubscribeAddress(email.to, email, { method });
+  return { email: email.to, unsubscribed };
+}
+
+/**
+ * Handle a bounce or complaint from the mail provider. Hard bounces and
+ * complaints suppress the address; complaints also unsubscribe it. Other
+ * event types are acknowledged and ignored.
+ */
+export async function handleDeliveryEvent(event: DeliveryWebhookEvent): Promise<{ handled: boolean }> {
+  if (event.type !== 'email.bounced' && event.type !== 'email.complained') {
+    return { handled: false };
+  }
+
+  const email = event.data?.email_id ? await findTrackedEmail({ providerMessageId: event.data.email_id }) : null;
+  const to = event.data?.to;
+  const addresses = (Array.isArray(to) ? to : to ? [to] : email ? [email.to] : []).filter(Boolean);
+  if (addresses.length === 0) {
+    return { handled: false };
+  }
+
+  const complaint = event.type === 'email.complained';
+  const bounce = event.data?.bounce;
+  // Only soft (transient) bounces leave the address deliverable
+  const permanent = complaint || bounce?.type !== 'Transient';
+
+  for (const address of addresses) {
+    await recordEvent(email, address, complaint ? 'complaint' : 'bounce', {
+      metadata: bounce ? { bounceType: bounce.type, subType: bounce.subType, message: bounce.message } : undefined,
+    });
+    if (permanent) {
+      await suppressAddress(address, complaint ? 'complaint' : 'bounce', bounce?.message);
+    }
+    if (complaint) {
+      await unsubscribeAddress(address, email, { method: 'complaint' });
+    }
+  }
+
+  return { handled: true };
+}
+
+/**
+ * Engagement report for a campaign: recipient counts, rates over delivered
+ * emails, delivery status of its queue, the most clicked links and opens and
+ * clicks per day
+ */
+export async function getCampaignAnalytics(campaignId: string) {
+  const campaign = await prisma.emailCampaign.findUnique({ where: { id: campaignId } });
+  if (!campaign) {
+    throw new NotFoundError('Campaign not found', 'CAMPAIGN_NOT_FOUND');
+  }
+
+  const [eventCounts, topLinks, queueStatuses, daily] = await Promise.all([
+    prisma.emailEvent.groupBy({
+      by: ['type'],
+      where: { campaignId },
+      _count: { _all: true },
+    }),
+    prisma.emailEvent.groupBy({
+      by: ['url'],
+      where: { campaignId, type: 'click' },
+      _count: { _all: true },
+      orderBy: { _count: { url: 'desc' } },
+      take: 10,
+    }),
+    prisma.emailQueue.groupBy({
+      by: ['status'],
+      where: { metadata: { path: ['campaignId'], equals: campaignId } },
+      _count: { _all: true },
+    }),
+    prisma.$queryRaw<Array<{ day: Date; opens: number; clicks: number }>>`
+      SELECT date_trunc('day', e.created_at) AS day,
+             count(*) FILTER (WHERE e.type = 'open')::int AS opens,
+             count(*) FILTER (WHERE e.type = 'click')::int AS clicks
+      FROM email_events e
+      WHERE e.campaign_id = ${campaignId}::uuid AND e.type IN ('open', 'click')
+      GROUP BY day
+      ORDER BY day
+    `,
+  ]);
+
+  const totalOf = (type: EmailEventType) => eventCounts.find((row) => row.type === type)?._count._all ?? 0;
+  const delivered = Math.max(campaign.sentCount - campaign.bounceCount, 0);
+  const percent = (count: number, of: number) => (of > 0 ? Math.round((count / of) * 1000) / 10 : 0);
+
+  return {
+    campaign: {
+      id: campaign.id,
+      name: campaign.name,
+      status: campaign.status,
+      sentAt: campaign.sentAt,
+    },
+    totals: {
+      recipients: campaign.totalRecipients,
+      sent: campaign.sentCount,
+      delivered,
+      uniqueOpens: campaign.openCount,
+      uniqueClicks: campaign.clickCount,
+      unsubscribes: campaign.unsubscribeCount,
+      bounces: campaign.bounceCount,
+      complaints: totalOf('complaint'),
+      opens: totalOf('open'),
+      clicks: totalOf('click'),
+    },
+    rates: {
+      openRate: percent(campaign.openCount, delivered),
+      clickRate: percent(campaign.clickCount, delivered),
+      clickToOpenRate: percent(campaign.clickCount, campaign.openCount),
+      unsubscribeRate: percent(campaign.unsubscribeCount, delivered),
+      bounceRate: percent(campaign.bounceCount, campaign.sentCount),
+    },
+    queue: Object.fromEntries(queueStatuses.map((row) => [row.status, row._count._all])),
+    topLinks: topLinks.map((row) => ({ url: row.url, clicks: row._count._all })),
+    daily: daily.map((row) => ({ date: row.day, opens: Number(row.opens), clicks: Number(row.clicks) })),
+  };
+}
@@ -0,0 +1,757 @@
+/**
+ * Equb Service
+ *
+ * Runs Equb circles (Ethiopian rotating savings groups) from sign-up to close.
+ * Each round every active member contributes once; when the round is due the
+ * pot is paid to one member, picked by `position` or by lottery draw. Late
+ * contributions carry a penalty, and members who miss too many rounds are
+ * marked as defaulted and lose their turn.
+ *
+ * Every movement in or out of a pot is written to EqubLedgerEntry together
+ * with the running pot balance, so members can audit the circle at any time.
+ */
+
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
+import { EqubLedgerEntryType, EqubPayoutMethod, Prisma } from '@prisma/client';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '@/lib/errors';
+
+export type EqubFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface CreateCircleInput {
+  name: string;
+  description?: string;
+  memberLimit: number;
+  contributionAmount: number;
+  frequency: EqubFrequency;
+  startDate: Date;
+  payoutMethod?: EqubPayoutMethod;
+  latePenaltyRate?: number;
+  gracePeriodDays?: number;
+  maxMissedRounds?: number;
+}
+
+export interface RoundSchedule {
+  round: number;
+  dueDate: Date;
+  graceEndsAt: Date;
+}
+
+export interface SettlementResult {
+  circleId: string;
+  round: number;
+  recipientUserId: string | null;
+  amount: number;
+  missedMemberIds: string[];
+  defaultedMemberIds: string[];
+  circleCompleted: boolean;
+}
+
+type ScheduleFields = {
+  startDate: Date;
+  frequency: string;
+  gracePeriodDays: number;
+};
+
+type EligibleMember = { id: string; userId: string; position: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const userSummarySelect = {
+  id: true,
+  profile: {
+    select: {
+      firstName: true,
+      lastName: true,
+    },
+  },
+} as const;
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * `startDate` moved forward by `periods` contribution periods
+ */
+export function addPeriods(startDate: Date, frequency: string, periods: number): Date {
+  const date = new Date(startDate);
+  if (frequency === 'monthly') {
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + periods);
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, daysInMonth));
+    return date;
+  }
+  const days = frequency === 'biweekly' ? 14 : 7;
+  return new Date(date.getTime() + periods * days * DAY_MS);
+}
+
+/**
+ * Round N collects during the Nth period after the start date and is due at its end
+ */
+export function getRoundSchedule(circle: ScheduleFields, round: number): RoundSchedule {
+  const dueDate = addPeriods(circle.startDate, circle.frequency, round);
+  return {
+    round,
+    dueDate,
+    graceEndsAt: new Date(dueDate.getTime() + circle.gracePeriodDays * DAY_MS),
+  };
+}
+
+/**
+ * Penalty owed on a contribution paid after the round's due date
+ */
+export function calculateLatePenalty(
+  circle: { contributionAmount: number; latePenaltyRate: number },
+  schedule: RoundSchedule,
+  paidAt: Date
+): number {
+  if (paidAt <= schedule.dueDate) return 0;
+  return roundMoney(circle.contributionAmount * circle.latePenaltyRate);
+}
+
+/**
+ * Pick the member who receives this round's pot. Position order pays the
+ * lowest unpaid position; lottery draws uniformly from the unpaid members.
+ */
+export function selectRecipient<T extends EligibleMember>(
+  eligible: T[],
+  method: EqubPayoutMethod,
+  randomInt: (max: number) => number = (max) => crypto.randomInt(max)
+): T | null {
+  if (eligible.length === 0) return null;
+  if (method === 'lottery') {
+    return eligible[randomInt(eligible.length)];
+  }
+  return [...eligible].sort((a, b) => a.position - b.position)[0];
+}
+
+/**
+ * Move funds in or out of the pot and record the movement. The increment locks
+ * the circle row for the rest of the transaction, so balances stay in order.
+ */
+async function postLedgerEntry(
+  tx: Prisma.TransactionClient,
+  entry: {
+    equbCircleId: string;
+    memberId?: string | null;
+    round: number;
+    type: EqubLedgerEntryType;
+    amount: number;
+    description: string;
+    contributionId?: string;
+    distributionId?: string;
+    metadata?: Prisma.InputJsonValue;
+  }
+) {
+  const circle = await tx.equbCircle.update({
+    where: { id: entry.equbCircleId },
+    data: { potBalance: { increment: entry.amount } },
+    select: { potBalance: true },
+  });
+
+  return tx.equbLedgerEntry.create({
+    data: {
+      ...entry,
+      memberId: entry.memberId ?? null,
+      balanceAfter: roundMoney(circle.potBalance),
+    },
+  });
+}
+
+export async function createCircle(userId: string, input: CreateCircleInput) {
+  if (input.startDate < new Date()) {
+    throw new BadRequestError('Start date must be in the future');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const circle = await tx.equbCircle.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        creatorId: userId,
+        memberLimit: input.memberLimit,
+        contributionAmount: input.contributionAmount,
+        frequency: input.frequency,
+        payoutMethod: input.payoutMethod ?? 'position',
+        latePenaltyRate: input.latePenaltyRate,
+        gracePeriodDays: input.gracePeriodDays,
+        maxMissedRounds: input.maxMissedRounds,
+        startDate: input.startDate,
+        totalRounds: input.memberLimit, // Each member gets one turn
+        status: 'active',
+      },
+      include: {
+        creator: {
+          select: { ...userSummarySelect, email: true },
+        },
+      },
+    });
+
+    // Creator takes position 1
+    await tx.equbCircleMember.create({
+      data: {
+        equbCircleId: circle.id,
+        userId,
+        position: 1,
+        isActive: true,
+      },
+    });
+
+    return circle;
+  });
+}
+
+export async function joinCircle(circleId: string, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    const circle = await tx.equbCircle.findUnique({
+      where: { id: circleId },
+      include: { members: true },
+    });
+
+    if (!circle) {
+      throw new NotFoundError('Equb circle not found');
+    }
+    if (circle.status !== 'active') {
+      throw new BadRequestError('This Equb circle is no longer active');
+    }
+    if (circle.startedAt || circle.startDate <= new Date()) {
+      throw new BadRequestError('This Equb circle has already started');
+    }
+    if (circle.members.some((m) => m.userId === userId)) {
+      throw new BadRequestError('You are already a member of this Equb circle');
+    }
+    if (circle.members.length >= circle.memberLimit) {
+      throw new BadRequestError('This Equb circle is full');
+    }
+
+    // Fill the first free position
+    const positions = new Set<number>(circle.members.map((m) => m.position));
+    let position = 1;
+    while (positions.has(position)) {
+      position++;
+    }
+
+    const member = await tx.equbCircleMember.create({
+      data: {
+        equbCircleId: circleId,
+        userId,
+        position,
+        isActive: true,
+      },
+      include: {
+        user: { select: userSummarySelect },
+      },
+    });
+
+    const updatedCircle = await tx.equbCircle.findUnique({
+      where: { id: circleId },
+      include: {
+        creator: { select: userSummarySelect },
+        members: {
+          include: { user: { select: userSummarySelect } },
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    return { member, equbCircle: updatedCircle };
+  });
+}
+
+/**
+ * Circle details with the open round's schedule and who is paid next
+ */
+export async function getCircle(circleId: string, now: Date = new Date()) {
+  const circle = await prisma.equbCircle.findUnique({
+    where: { id: circleId },
+    include: {
+      creator: { select: userSummarySelect },
+      members: {
+        include: { user: { select: userSummarySelect } },
+        orderBy: { position: 'asc' },
+      },
+      contributions: {
+        orderBy: { round: 'desc' },
+        take: 10,
+      },
+      distributions: {
+        orderBy: { round: 'desc' },
+        take: 10,
+      },
+    },
+  });
+
+  if (!circle) {
+    throw new NotFoundError('Equb circle not found');
+  }
+
+  const totalPot = circle.contributionAmount * circle.memberLimit;
+  const spotsRemaining = circle.memberLimit - circle.members.length;
+  const openRound = circle.status === 'active' ? circle.currentRound + 1 : null;
+
+  let nextRound = null;
+  if (openRound && openRound <= circle.totalRounds) {
+    const schedule = getRoundSchedule(circle, openRound);
+    const eligible = circle.members.filter((m) => m.isActive && !m.hasReceivedPayout);
+    const paidMemberIds = new Set<string>(
+      circle.contributions.filter((c) => c.round === openRound).map((c) => c.memberId)
+    );
+    nextRound = {
+      ...schedule,
+      isOpen: now >= circle.startDate && now <= schedule.graceEndsAt,
+      contributionsReceived: paidMemberIds.size,
+      nextRecipientId:
+        circle.payoutMethod === 'position' ? selectRecipient(eligible, 'position')?.userId ?? null : null,
+    };
+  }
+
+  return {
+    ...circle,
+    totalPot,
+    spotsRemaining,
+    isFull: spotsRemaining === 0,
+    nextRound,
+  };
+}
+
+/**
+ * Record the member's contribution for the open round. One contribution per
+ * member per round; payments after the due date include the late penalty.
+ */
+export async function contribute(circleId: string, userId: string, now: Date = new Date()) {
+  return prisma.$transaction(async (tx) => {
+    const circle = await tx.equbCircle.findUnique({
+      where: { id: circleId },
+      include: { members: true },
+    });
+
+    if (!circle) {
+      throw new NotFoundError('Equb circle not found');
+    }
+    if (circle.status !== 'active') {
+      throw new BadRequestError('This Equb circle is no longer active');
+    }
+    if (now < circle.startDate) {
+      throw new BadRequestError('Contributions open on the circle start date');
+    }
+
+    const member = circle.members.find((m) => m.userId === userId);
+    if (!member) {
+      throw new ForbiddenError('You are not a member of this Equb circle');
+    }
+    if (!member.isActive) {
+      throw new BadRequestError('Your membership is not active');
+    }
+
+    const round = circle.currentRound + 1;
+    if (round > circle.totalRounds) {
+      throw new BadRequestError('All rounds of this Equb circle have been settled');
+    }
+
+    const schedule = getRoundSchedule(circle, round);
+    if (now > schedule.graceEndsAt) {
+      throw new BadRequestError(`The contribution window for round ${round} has closed`);
+    }
+
+    const existing = await tx.equbContribution.findFirst({
+      where: { equbCircleId: circleId, memberId: member.id, round },
+    });
+    if (existing) {
+      throw new ConflictError(`You have already contributed for round ${round}`);
+    }
+
+    const penalty = calculateLatePenalty(circle, schedule, now);
+    const contribution = await tx.equbContribution.create({
+      data: {
+        equbCircleId: circleId,
+        memberId: member.id,
+        round,
+        amount: circle.contributionAmount,
+        penaltyAmount: penalty,
+        isLate: penalty > 0,
+        paidAt: now,
+      },
+    });
+
+    await postLedgerEntry(tx, {
+      equbCircleId: circleId,
+      memberId: member.id,
+      round,
+      type: 'contribution',
+      amount: circle.contributionAmount,
+      contributionId: contribution.id,
+      description: `Round ${round} contribution from member #${member.position}`,
+    });
+
+    if (penalty > 0) {
+      await postLedgerEntry(tx, {
+        equbCircleId: circleId,
+        memberId: member.id,
+        round,
+        type: 'penalty',
+        amount: penalty,
+        contributionId: contribution.id,
+        description: `Late payment penalty for round ${round}`,
+      });
+    }
+
+    const received = await tx.equbContribution.count({
+      where: { equbCircleId: circleId, round },
+    });
+    const activeMembers = circle.members.filter((m) => m.isActive).length;
+
+    return {
+      contribution,
+      round,
+      penalty,
+      dueDate: schedule.dueDate,
+      remaining: Math.max(0, activeMembers - received),
+    };
+  });
+}
+
+/**
+ * Lock membership once the start date passes. Circles that never filled
+ * run one round per member who joined; circles with a single member are cancelled.
+ */
+async function startCircle(circleId: string, now: Date) {
+  const members = await prisma.equbCircleMember.count({
+    where: { equbCircleId: circleId, isActive: true },
+  });
+
+  if (members < 2) {
+    await prisma.equbCircle.update({
+      where: { id: circleId },
+      data: { status: 'cancelled', endDate: now },
+    });
+    return false;
+  }
+
+  await prisma.equbCircle.update({
+    where: { id: circleId },
+    data: { startedAt: now, totalRounds: members },
+  });
+  return true;
+}
+
+/**
+ * Settle the open round: flag members who did not pay, then pay the whole pot
+ * to the next recipient. If nobody is left to receive it, each contributor is
+ * refunded instead. Closes the circle after the last round.
+ */
+export async function settleRound(circleId: string, now: Date = new Date()): Promise<SettlementResult | null> {
+  return prisma.$transaction(async (tx) => {
+    const circle = await tx.equbCircle.findUnique({
+      where: { id: circleId },
+      include: { members: true },
+    });
+    if (!circle || circle.status !== 'active' || !circle.startedAt) {
+      return null;
+    }
+
+    const round = circle.currentRound + 1;
+    if (round > circle.totalRounds) {
+      return null;
+    }
+
+    const schedule = getRoundSchedule(circle, round);
+    const contributions = await tx.equbContribution.findMany({
+      where: { equbCircleId: circleId, round },
+    });
+    const paidMemberIds = new Set<string>(contributions.map((c) => c.memberId));
+    const activeMembers = circle.members.filter((m) => m.isActive);
+    const allPaid = activeMembers.every((m) => paidMemberIds.has(m.id));
+
+    // Settle on the due date once everyone has paid, otherwise after the grace period
+    if (now < schedule.dueDate || (!allPaid && now <= schedule.graceEndsAt)) {
+      return null;
+    }
+
+    const missed = activeMembers.filter((m) => !paidMemberIds.has(m.id));
+    const defaulted: string[] = [];
+    for (const member of missed) {
+      const missedRounds = member.missedRounds + 1;
+      const isDefaulted = missedRounds >= circle.maxMissedRounds;
+      await tx.equbCircleMember.update({
+        where: { id: member.id },
+        data: {
+          missedRounds,
+          ...(isDefaulted ? { isActive: false, defaultedAt: now } : {}),
+        },
+      });
+      await postLedgerEntry(tx, {
+        equbCircleId: circleId,
+        memberId: member.id,
+        round,
+        type: 'missed_contribution',
+        amount: 0,
+        description: isDefaulted
+          ? `Member #${member.position} missed round ${round} and is now in default`
+          : `Member #${member.position} missed round ${round}`,
+        metadata: { missedRounds, owed: circle.contributionAmount },
+      });
+      if (isDefaulted) {
+        member.isActive = false;
+        defaulted.push(member.id);
+      }
+    }
+
+    const pot = await tx.equbCircle.findUnique({
+      where: { id: circleId },
+      select: { potBalance: true },
+    });
+    const amount = roundMoney(pot?.potBalance ?? 0);
+
+    // Defaulted members forfeit their turn
+    const eligible = circle.members.filter((m) => m.isActive && !m.hasReceivedPayout);
+    const recipient = selectRecipient(eligible, circle.payoutMethod);
+
+    if (recipient) {
+      const distribution = await tx.equbDistribution.create({
+        data: {
+          equbCircleId: circleId,
+          recipientId: recipient.userId,
+          round,
+          amount,
+          drawMethod: circle.payoutMethod,
+          status: 'completed',
+          scheduledDate: schedule.dueDate,
+          distributedAt: now,
+        },
+      });
+      await tx.equbCircleMember.update({
+        where: { id: recipient.id },
+        data: { hasReceivedPayout: true },
+      });
+      await postLedgerEntry(tx, {
+        equbCircleId: circleId,
+        memberId: recipient.id,
+        round,
+        type: 'payout',
+        amount: -amount,
+        distributionId: distribution.id,
+        description: `Round ${round} pot paid to member #${recipient.position}`,
+        metadata:
+          circle.payoutMethod === 'lottery'
+            ? { drawMethod: 'lottery', drawnFrom: eligible.map((m) => m.id) }
+            : { drawMethod: 'position' },
+      });
+    } else {
+      for (const contribution of contributions) {
+        await postLedgerEntry(tx, {
+          equbCircleId: circleId,
+          memberId: contribution.memberId,
+          round,
+          type: 'refund',
+          amount: -roundMoney(contribution.amount + contribution.penaltyAmount),
+          contributionId: contribution.id,
+          description: `Round ${round} contribution refunded: no member left to receive the pot`,
+        });
+      }
+    }
+
+    const circleCompleted = round >= circle.totalRounds;
+    await tx.equbCircle.update({
+      where: { id: circleId },
+      data: {
+        currentRound: round,
+        ...(circleCompleted ? { status: 'completed', endDate: now } : {}),
+      },
+    });
+
+    return {
+      circleId,
+      round,
+      recipientUserId: recipient?.userId ?? null,
+      amount: recipient ? amount : 0,
+      missedMemberIds: missed.map((m) => m.id),
+      defaultedMemberIds: defaulted,
+      circleCompleted,
+    };
+  });
+}
+
+async function notifySettlement(circle: { id: string; name: string }, result: SettlementResult) {
+  const members = await prisma.equbCircleMember.findMany({
+    where: { equbCircleId: circle.id },
+    select: { id: true, userId: true },
+  });
+
+  const notifications = members.map((member) => {
+    if (member.userId === result.recipientUserId) {
+      return {
+        userId: member.userId,
+        type: 'payment' as const,
+        title: 'Equb payout',
+        message: `You received the round ${result.round} pot of ${result.amount.toFixed(2)} ETB from ${circle.name}.`,
+        data: { equbCircleId: circle.id, round: result.round },
+      };
+    }
+    if (result.defaultedMemberIds.includes(member.id)) {
+      return {
+        userId: member.userId,
+        type: 'payment' as const,
+        title: 'Equb membership suspended',
+        message: `You have missed too many contributions to ${circle.name} and will not receive a payout.`,
+        data: { equbCircleId: circle.id, round: result.round },
+      };
+    }
+    if (result.missedMemberIds.includes(member.id)) {
+      return {
+        userId: member.userId,
+        type: 'payment' as const,
+        title: 'Equb contribution missed',
+        message: `Your round ${result.round} contribution to ${circle.name} was not received.`,
+        data: { equbCircleId: circle.id, round: result.round },
+      };
+    }
+    return {
+      userId: member.userId,
+      type: 'system' as const,
+      title: result.circleCompleted ? 'Equb circle completed' : 'Equb round settled',
+      message: result.circleCompleted
+        ? `${circle.name} has completed all of its rounds.`
+        : `Round ${result.round} of ${circle.name} has been settled.`,
+      data: { equbCircleId: circle.id, round: result.round },
+    };
+  });
+
+  if (notifications.length > 0) {
+    await prisma.notification.createMany({ data: notifications });
+  }
+}
+
+/**
+ * Cron entry point: start circles whose start date has passed and settle
+ * every round that is due, catching up on any rounds missed by earlier runs.
+ */
+export async function processDueRounds(now: Date = new Date()) {
+  const circles = await prisma.equbCircle.findMany({
+    where: { status: 'active', startDate: { lte: now } },
+    select: { id: true, name: true, startedAt: true },
+  });
+
+  const summary = {
+    circlesChecked: circles.length,
+    circlesStarted: 0,
+    circlesCancelled: 0,
+    roundsSettled: 0,
+    circlesCompleted: 0,
+    errors: [] as Array<{ circleId: string; error: string }>,
+  };
+
+  for (const circle of circles) {
+    try {
+      if (!circle.startedAt) {
+        const started = await startCircle(circle.id, now);
+        if (!started) {
+          summary.circlesCancelled++;
+          continue;
+        }
+        summary.circlesStarted++;
+      }
+
+      let result = await settleRound(circle.id, now);
+      while (result) {
+        summary.roundsSettled++;
+        await notifySettlement(circle, result).catch((err) =>
+          console.error('Failed to send Equb settlement notifications:', err)
+        );
+        if (result.circleCompleted) {
+          summary.circlesCompleted++;
+          break;
+        }
+        result = await settleRound(circle.id, now);
+      }
+    } catch (error) {
+      summary.errors.push({
+        circleId: circle.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return summary;
+}
+
+export async function listContributions(circleId: string, round?: number) {
+  return prisma.equbContribution.findMany({
+    where: {
+      equbCircleId: circleId,
+      ...(round ? { round } : {}),
+    },
+    include: {
+      member: {
+        include: { user: { select: userSummarySelect } },
+      },
+    },
+    orderBy: [{ round: 'desc' }, { paidAt: 'desc' }],
+  });
+}
+
+/**
+ * The circle's ledger, visible to its members, plus the viewer's own totals
+ */
+export async function getLedger(
+  circleId: string,
+  viewer: { userId: string; role: string },
+  options: { page?: number; perPage?: number } = {}
+) {
+  const page = Math.max(1, options.page || 1);
+  const perPage = Math.min(100, Math.max(1, options.perPage || 50));
+
+  const circle = await prisma.equbCircle.findUnique({
+    where: { id: circleId },
+    select: { id: true, potBalance: true, members: { select: { id: true, userId: true } } },
+  });
+  if (!circle) {
+    throw new NotFoundError('Equb circle not found');
+  }
+
+  const member = circle.members.find((m) => m.userId === viewer.userId);
+  if (!member && viewer.role !== 'admin') {
+    throw new ForbiddenError('Only members can view this ledger');
+  }
+
+  const [entries, total, totals] = await Promise.all([
+    prisma.equbLedgerEntry.findMany({
+      where: { equbCircleId: circleId },
+      include: {
+        member: {
+          select: { id: true, position: true, user: { select: userSummarySelect } },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+    prisma.equbLedgerEntry.count({ where: { equbCircleId: circleId } }),
+    member
+      ? prisma.equbLedgerEntry.groupBy({
+          by: ['type'],
+          where: { equbCircleId: circleId, memberId: member.id },
+          _sum: { amount: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const sumOf = (type: EqubLedgerEntryType) =>
+    roundMoney(Math.abs(totals.find((t) => t.type === type)?._sum.amount ?? 0));
+
+  return {
+    entries,
+    potBalance: roundMoney(circle.potBalance),
+    memberSummary: member
+      ? {
+          contributed: sumOf('contribution'),
+          penalties: sumOf('penalty'),
+          received: sumOf('payout'),
+          refunded: sumOf('refund'),
+        }
+      : null,
+    pagination: { page, perPage, total, totalPages: Math.ceil(total / perPage) },
+  };
+}
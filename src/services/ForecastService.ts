@@ -0,0 +1,226 @@
+/**
+ * Forecast Service
+ *
+ * Generates and stores per-product, per-warehouse daily demand forecasts in
+ * InventoryForecast, back-fills actual demand once each forecast date has
+ * passed, and reports forecast error per model version.
+ */
+
+import prisma from '@/lib/prisma';
+import {
+  addDays,
+  buildDailySeries,
+  calculateForecastAccuracy,
+  calculateMape,
+  forecastDemand,
+  startOfUtcDay,
+} from '@/lib/demand-forecast';
+
+export const FORECAST_HISTORY_DAYS = 56;
+export const FORECAST_HORIZON_DAYS = 14;
+
+interface DemandRow {
+  product_id: string;
+  warehouse_id: string | null;
+  day: Date;
+  quantity: number;
+}
+
+export interface ForecastRunResult {
+  seriesForecasted: number;
+  forecastsWritten: number;
+}
+
+export interface ModelAccuracy {
+  modelVersion: string;
+  evaluatedForecasts: number;
+  mape: number | null;
+  meanAccuracy: number | null;
+}
+
+function seriesKey(productId: string, warehouseId: string | null): string {
+  return `${productId}|${warehouseId ?? ''}`;
+}
+
+/**
+ * Units sold per product, warehouse and UTC day in [from, to).
+ * Cancelled and refunded orders never turned into real demand and are excluded.
+ */
+async function getDailyDemand(from: Date, to: Date): Promise<DemandRow[]> {
+  return prisma.$queryRaw<DemandRow[]>`
+    SELECT
+      oi.product_id,
+      o.warehouse_id,
+      date_trunc('day', o.created_at) AS day,
+      SUM(oi.quantity)::int AS quantity
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.created_at >= ${from}
+      AND o.created_at < ${to}
+      AND o.status NOT IN ('cancelled', 'refunded')
+      AND oi.product_id IS NOT NULL
+    GROUP BY oi.product_id, o.warehouse_id, day
+  `;
+}
+
+/**
+ * Forecast demand for the next FORECAST_HORIZON_DAYS days (starting today) for every
+ * product/warehouse pair with sales in the history window. Future forecasts that have
+ * not been evaluated yet are replaced with the latest prediction.
+ */
+export async function generateInventoryForecasts(
+  now: Date = new Date(),
+  historyDays: number = FORECAST_HISTORY_DAYS,
+  horizonDays: number = FORECAST_HORIZON_DAYS
+): Promise<ForecastRunResult> {
+  const today = startOfUtcDay(now);
+  const historyStart = addDays(today, -historyDays);
+  const demand = await getDailyDemand(historyStart, today);
+
+  const salesBySeries = new Map<string, { productId: string; warehouseId: string | null; sales: DemandRow[] }>();
+  for (const row of demand) {
+    const key = seriesKey(row.product_id, row.warehouse_id);
+    if (!salesBySeries.has(key)) {
+      salesBySeries.set(key, { productId: row.product_id, warehouseId: row.warehouse_id, sales: [] });
+    }
+    salesBySeries.get(key)!.sales.push(row);
+  }
+
+  let forecastsWritten = 0;
+
+  for (const { productId, warehouseId, sales } of Array.from(salesBySeries.values())) {
+    const series = buildDailySeries(
+      sales.map((s) => ({ date: new Date(s.day), quantity: Number(s.quantity) })),
+      historyStart,
+      historyDays
+    );
+    const forecast = forecastDemand(series, horizonDays);
+
+    await prisma.$transaction([
+      prisma.inventoryForecast.deleteMany({
+        where: {
+          productId,
+          warehouseId,
+          forecastDate: { gte: today },
+          actualDemand: null,
+        },
+      }),
+      prisma.inventoryForecast.createMany({
+        data: forecast.predictions.map((predictedDemand, index) => ({
+          productId,
+          warehouseId,
+          forecastDate: addDays(today, index),
+          predictedDemand,
+          confidence: forecast.confidence,
+          factors: forecast.factors,
+          modelVersion: forecast.modelVersion,
+        })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    forecastsWritten += forecast.predictions.length;
+  }
+
+  return { seriesForecasted: salesBySeries.size, forecastsWritten };
+}
+
+/**
+ * Fill in actualDemand and accuracy for forecasts whose date has passed
+ */
+export async function backfillForecastActuals(now: Date = new Date()): Promise<number> {
+  const today = startOfUtcDay(now);
+
+  const pending = await prisma.inventoryForecast.findMany({
+    where: { forecastDate: { lt: today }, actualDemand: null },
+    select: { id: true, productId: true, warehouseId: true, forecastDate: true, predictedDemand: true },
+  });
+
+  if (pending.length === 0) {
+    return 0;
+  }
+
+  const earliest = pending.reduce(
+    (min, f) => (f.forecastDate < min ? f.forecastDate : min),
+    pending[0].forecastDate
+  );
+  const demand = await getDailyDemand(startOfUtcDay(earliest), today);
+
+  const actuals = new Map<string, number>();
+  for (const row of demand) {
+    const key = `${seriesKey(row.product_id, row.warehouse_id)}|${startOfUtcDay(new Date(row.day)).getTime()}`;
+    actuals.set(key, Number(row.quantity));
+  }
+
+  for (const forecast of pending) {
+    const key = `${seriesKey(forecast.productId, forecast.warehouseId)}|${startOfUtcDay(forecast.forecastDate).getTime()}`;
+    const actualDemand = actuals.get(key) ?? 0;
+
+    await prisma.inventoryForecast.update({
+      where: { id: forecast.id },
+      data: {
+        actualDemand,
+        accuracy: calculateForecastAccuracy(forecast.predictedDemand, actualDemand),
+      },
+    });
+  }
+
+  return pending.length;
+}
+
+/**
+ * Summarise evaluated forecasts into MAPE and mean accuracy per model version
+ */
+export function summarizeAccuracy(
+  rows: Array<{ modelVersion: string; predictedDemand: number; actualDemand: number | null; accuracy: number | null }>
+): ModelAccuracy[] {
+  const byVersion = new Map<string, typeof rows>();
+  for (const row of rows) {
+    if (row.actualDemand === null || row.actualDemand === undefined) continue;
+    if (!byVersion.has(row.modelVersion)) {
+      byVersion.set(row.modelVersion, []);
+    }
+    byVersion.get(row.modelVersion)!.push(row);
+  }
+
+  return Array.from(byVersion.entries())
+    .map(([modelVersion, versionRows]) => {
+      const accuracies = versionRows
+        .map((r) => r.accuracy)
+        .filter((a): a is number => a !== null && a !== undefined);
+      return {
+        modelVersion,
+        evaluatedForecasts: versionRows.length,
+        mape: calculateMape(
+          versionRows.map((r) => ({ predicted: r.predictedDemand, actual: r.actualDemand as number }))
+        ),
+        meanAccuracy:
+          accuracies.length > 0
+            ? Math.round((accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length) * 1000) / 1000
+            : null,
+      };
+    })
+    .sort((a, b) => a.modelVersion.localeCompare(b.modelVersion));
+}
+
+/**
+ * Forecast accuracy report per model version over the last `days` days.
+ * Pass a vendor profile id to restrict to that vendor's products.
+ */
+export async function getForecastAccuracyReport(
+  vendorProfileId?: string,
+  days: number = 30,
+  now: Date = new Date()
+): Promise<ModelAccuracy[]> {
+  const today = startOfUtcDay(now);
+  const rows = await prisma.inventoryForecast.findMany({
+    where: {
+      forecastDate: { gte: addDays(today, -days), lt: today },
+      actualDemand: { not: null },
+      ...(vendorProfileId ? { product: { vendorId: vendorProfileId } } : {}),
+    },
+    select: { modelVersion: true, predictedDemand: true, actualDemand: true, accuracy: true },
+  });
+
+  return summarizeAccuracy(rows);
+}
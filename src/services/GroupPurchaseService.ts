@@ -0,0 +1,465 @@
+/**
+ * Group Purchase Service
+ *
+ * Settles group purchases once they reach their target or run out of time.
+ * A filled group gets one order per member at `pricePerPerson`, with stock
+ * held through inventory reservations until each member pays. A group that
+ * expires short of its target is closed, open orders are cancelled and members
+ * who pre-paid are refunded.
+ */
+
+import prisma from '@/lib/prisma';
+import { initiateRefund, processRefund } from '@/lib/refund';
+import { BadRequestError, NotFoundError } from '@/lib/errors';
+import { createReservation, extendReservation } from '@/services/InventoryService';
+import { createVendorOrders } from '@/services/VendorOrderService';
+
+/**
+ * How long members have to pay once their group is activated
+ */
+export const GROUP_PAYMENT_WINDOW_HOURS = 48;
+
+export interface GroupSettlementSummary {
+  activated: number;
+  ordersCreated: number;
+  reservationFailures: number;
+  paymentsCaptured: number;
+  expired: number;
+  refundsIssued: number;
+  errors: Array<{ groupPurchaseId: string; error: string }>;
+}
+
+type GroupForOrder = {
+  id: string;
+  title: string;
+  pricePerPerson: number;
+  product: { id: string; name: string; sku: string | null; vendorId: string };
+};
+
+type NotificationType = 'order' | 'payment' | 'promotion';
+
+async function notifyMembers(
+  userIds: string[],
+  type: NotificationType,
+  title: string,
+  message: string,
+  data: Record<string, string>
+) {
+  if (userIds.length === 0) return;
+  await prisma.notification
+    .createMany({
+      data: userIds.map((userId) => ({ userId, type, title, message, data })),
+    })
+    .catch((err) => console.error('Failed to send group purchase notifications:', err));
+}
+
+/**
+ * Create the member's order for the group price and hold one unit of stock
+ * for it. The reservation is committed by the payment webhook like any checkout.
+ */
+async function createMemberOrder(group: GroupForOrder, userId: string) {
+  const price = group.pricePerPerson.toFixed(2);
+  const order = await prisma.$transaction(async (tx) => {
+    const created = await tx.order.create({
+      data: {
+        userId,
+        orderNumber: `MIN-${Date.now()}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`,
+        status: 'pending',
+        paymentStatus: 'pending',
+        subtotal: price,
+        shippingAmount: '0.00',
+        taxAmount: '0.00',
+        discountAmount: '0.00',
+        totalAmount: price,
+        currency: 'ETB',
+        notes: `Group purchase: ${group.title}`,
+        orderItems: {
+          create: {
+            vendorId: group.product.vendorId,
+            productId: group.product.id,
+            productName: group.product.name,
+            productSku: group.product.sku,
+            quantity: 1,
+            price,
+            total: price,
+          },
+        },
+      },
+      include: { orderItems: true },
+    });
+
+    // The vendor fulfils and ships it as a vendor order
+    await createVendorOrders(tx, created);
+    return created;
+  });
+
+  const reservation = await createReservation({
+    productId: group.product.id,
+    quantity: 1,
+    userId,
+  });
+
+  if (!reservation.success) {
+    await prisma.order.update({
+      where: { id: order.id },
+      data: { status: 'cancelled', cancelledAt: new Date(), notes: `Group purchase: ${group.title} (out of stock)` },
+    });
+    return { order, reservationId: null, error: reservation.error || 'Failed to reserve stock' };
+  }
+
+  await prisma.inventoryReservation.update({
+    where: { id: reservation.reservationId! },
+    data: { orderId: order.id },
+  });
+
+  return { order, reservationId: reservation.reservationId, error: null };
+}
+
+const groupForOrderInclude = {
+  product: { select: { id: true, name: true, sku: true, vendorId: true } },
+} as const;
+
+/**
+ * Pre-pay for a group purchase before it fills. Creates (or returns) the
+ * member's pending order so it can be paid through the normal payment flow.
+ */
+export async function checkoutMember(groupPurchaseId: string, userId: string) {
+  const group = await prisma.groupPurchase.findUnique({
+    where: { id: groupPurchaseId },
+    include: {
+      ...groupForOrderInclude,
+      members: { where: { userId }, include: { order: true } },
+    },
+  });
+
+  if (!group) {
+    throw new NotFoundError('Group purchase not found');
+  }
+
+  const member = group.members[0];
+  if (!member) {
+    throw new BadRequestError('Join the group purchase before paying');
+  }
+  if (group.status === 'expired' || group.status === 'cancelled' || group.expiresAt <= new Date()) {
+    throw new BadRequestError('This group purchase is no longer active');
+  }
+  if (member.isPaid) {
+    throw new BadRequestError('You have already paid for this group purchase');
+  }
+  if (member.order && member.order.status !== 'cancelled') {
+    return { order: member.order, created: false };
+  }
+
+  const { order, error } = await createMemberOrder(group, userId);
+  if (error) {
+    throw new BadRequestError(error);
+  }
+
+  await prisma.groupPurchaseMember.update({
+    where: { id: member.id },
+    data: { orderId: order.id },
+  });
+
+  return { order, created: true };
+}
+
+/**
+ * Create orders for every member of a group that reached its target
+ */
+export async function activateGroup(groupPurchaseId: string, now: Date = new Date()) {
+  const group = await prisma.groupPurchase.findUnique({
+    where: { id: groupPurchaseId },
+    include: {
+      ...groupForOrderInclude,
+      members: { include: { order: { select: { id: true, status: true, paymentStatus: true } } } },
+    },
+  });
+
+  if (!group || group.activatedAt || group.currentMembers < group.requiredMembers) {
+    return null;
+  }
+
+  let ordersCreated = 0;
+  const outOfStock: string[] = [];
+  const awaitingPayment: string[] = [];
+  const alreadyPaid: string[] = [];
+
+  for (const member of group.members) {
+    if (member.order && member.order.status !== 'cancelled') {
+      if (member.order.paymentStatus === 'completed') {
+        alreadyPaid.push(member.userId);
+        continue;
+      }
+      // Pre-checkout order that was never paid: give it the full payment window,
+      // re-reserving stock if the checkout reservation has already lapsed
+      let reservationId = (
+        await prisma.inventoryReservation.findFirst({
+          where: { orderId: member.order.id, status: 'active' },
+        })
+      )?.id;
+      if (!reservationId) {
+        const reservation = await createReservation({ productId: group.product.id, quantity: 1, userId: member.userId });
+        if (reservation.success) {
+          reservationId = reservation.reservationId!;
+          await prisma.inventoryReservation.update({
+            where: { id: reservationId },
+            data: { orderId: member.order.id },
+          });
+        }
+      }
+      if (reservationId) {
+        await extendReservation(reservationId, GROUP_PAYMENT_WINDOW_HOURS * 60);
+      }
+      awaitingPayment.push(member.userId);
+      continue;
+    }
+
+    const { order, reservationId, error } = await createMemberOrder(group, member.userId);
+    await prisma.groupPurchaseMember.update({
+      where: { id: member.id },
+      data: { orderId: order.id },
+    });
+
+    if (error) {
+      outOfStock.push(member.userId);
+      continue;
+    }
+
+    await extendReservation(reservationId!, GROUP_PAYMENT_WINDOW_HOURS * 60);
+    ordersCreated++;
+    awaitingPayment.push(member.userId);
+  }
+
+  await prisma.groupPurchase.update({
+    where: { id: group.id },
+    data: {
+      status: 'completed',
+      completedAt: group.completedAt ?? now,
+      activatedAt: now,
+    },
+  });
+
+  const data = { groupPurchaseId: group.id, productId: group.product.id };
+  await notifyMembers(
+    awaitingPayment,
+    'order',
+    'Group purchase unlocked!',
+    `"${group.title}" reached ${group.requiredMembers} members. Pay ${group.pricePerPerson.toFixed(2)} ETB within ${GROUP_PAYMENT_WINDOW_HOURS} hours to secure your item.`,
+    data
+  );
+  await notifyMembers(
+    alreadyPaid,
+    'order',
+    'Group purchase unlocked!',
+    `"${group.title}" reached ${group.requiredMembers} members. Your pre-paid order is being prepared.`,
+    data
+  );
+  await notifyMembers(
+    outOfStock,
+    'order',
+    'Group purchase out of stock',
+    `"${group.title}" sold out before we could reserve your item. You have not been charged.`,
+    data
+  );
+
+  return { ordersCreated, reservationFailures: outOfStock.length };
+}
+
+/**
+ * Mark members as paid once the payment webhook has completed their order
+ */
+export async function capturePayments(now: Date = new Date()) {
+  const members = await prisma.groupPurchaseMember.findMany({
+    where: {
+      isPaid: false,
+      order: { paymentStatus: 'completed' },
+    },
+    include: {
+      order: { select: { id: true, totalAmount: true, paidAt: true } },
+      groupPurchase: { select: { id: true, title: true } },
+    },
+  });
+
+  for (const member of members) {
+    await prisma.groupPurchaseMember.update({
+      where: { id: member.id },
+      data: {
+        isPaid: true,
+        paidAmount: Number(member.order!.totalAmount),
+        paidAt: member.order!.paidAt ?? now,
+      },
+    });
+    await notifyMembers(
+      [member.userId],
+      'payment',
+      'Group purchase payment received',
+      `We received your ${Number(member.order!.totalAmount).toFixed(2)} ETB payment for "${member.groupPurchase.title}".`,
+      { groupPurchaseId: member.groupPurchase.id, orderId: member.order!.id }
+    );
+  }
+
+  return members.length;
+}
+
+/**
+ * Close a group that expired short of its target: cancel open orders, release
+ * held stock and refund members who pre-paid.
+ */
+export async function expireGroup(groupPurchaseId: string, now: Date = new Date()) {
+  const group = await prisma.groupPurchase.findUnique({
+    where: { id: groupPurchaseId },
+    include: {
+      members: { include: { order: { select: { id: true, status: true, paymentStatus: true, totalAmount: true } } } },
+    },
+  });
+
+  if (!group || group.expiredAt || group.activatedAt) {
+    return null;
+  }
+
+  let refundsIssued = 0;
+  const refunded: string[] = [];
+  const refundFailed: string[] = [];
+
+  for (const member of group.members) {
+    const order = member.order;
+    if (!order || order.status === 'cancelled') continue;
+
+    let refundId: string | null = null;
+    if (order.paymentStatus === 'completed') {
+      const refund = await initiateRefund({
+        orderId: order.id,
+        amount: Number(order.totalAmount),
+        reason: `Group purchase "${group.title}" expired with ${group.currentMembers}/${group.requiredMembers} members`,
+      });
+      if (!refund.success || !refund.refundId) {
+        console.error(`Failed to refund group purchase order ${order.id}:`, refund.error);
+        refundFailed.push(member.userId);
+        continue;
+      }
+      refundId = refund.refundId;
+    } else {
+      await prisma.inventoryReservation.updateMany({
+        where: { orderId: order.id, status: 'active' },
+        data: { status: 'released', releasedAt: now },
+      });
+    }
+
+    await prisma.order.update({
+      where: { id: order.id },
+      data: { status: 'cancelled', cancelledAt: now },
+    });
+
+    if (refundId) {
+      // A refund the provider turns down stays on the member as failed for the team to follow up
+      const processed = await processRefund(refundId);
+      await prisma.groupPurchaseMember.update({
+        where: { id: member.id },
+        data: { refundId, refundedAt: processed ? now : null },
+      });
+      if (processed) {
+        refundsIssued++;
+        refunded.push(member.userId);
+      } else {
+        console.error(`Refund ${refundId} for group purchase order ${order.id} failed at the provider`);
+        refundFailed.push(member.userId);
+      }
+    }
+  }
+
+  await prisma.groupPurchase.update({
+    where: { id: group.id },
+    data: { status: 'expired', expiredAt: now },
+  });
+
+  const data = { groupPurchaseId: group.id, productId: group.productId };
+  const message = `"${group.title}" ended with ${group.currentMembers} of ${group.requiredMembers} members and has been cancelled.`;
+  const notRefunded = group.members
+    .map((m) => m.userId)
+    .filter((userId) => !refunded.includes(userId) && !refundFailed.includes(userId));
+
+  await notifyMembers(notRefunded, 'order', 'Group purchase cancelled', message, data);
+  await notifyMembers(
+    refunded,
+    'payment',
+    'Group purchase refunded',
+    `${message} Your payment is being refunded.`,
+    data
+  );
+  await notifyMembers(
+    refundFailed,
+    'payment',
+    'Group purchase cancelled',
+    `${message} Our team will process your refund shortly.`,
+    data
+  );
+
+  return { refundsIssued, refundFailures: refundFailed.length };
+}
+
+/**
+ * Cron entry point: activate filled groups, record member payments and
+ * close groups that expired before reaching their target.
+ */
+export async function processGroupPurchases(now: Date = new Date()): Promise<GroupSettlementSummary> {
+  const summary: GroupSettlementSummary = {
+    activated: 0,
+    ordersCreated: 0,
+    reservationFailures: 0,
+    paymentsCaptured: 0,
+    expired: 0,
+    refundsIssued: 0,
+    errors: [],
+  };
+
+  const filled = await prisma.groupPurchase.findMany({
+    where: { status: { in: ['active', 'completed'] }, activatedAt: null },
+    select: { id: true, currentMembers: true, requiredMembers: true },
+  });
+
+  for (const group of filled.filter((g) => g.currentMembers >= g.requiredMembers)) {
+    try {
+      const result = await activateGroup(group.id, now);
+      if (result) {
+        summary.activated++;
+        summary.ordersCreated += result.ordersCreated;
+        summary.reservationFailures += result.reservationFailures;
+      }
+    } catch (error) {
+      summary.errors.push({
+        groupPurchaseId: group.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  summary.paymentsCaptured = await capturePayments(now);
+
+  // The join route may already have flagged the group as expired
+  const expired = await prisma.groupPurchase.findMany({
+    where: {
+      status: { in: ['active', 'expired'] },
+      expiresAt: { lte: now },
+      activatedAt: null,
+      expiredAt: null,
+    },
+    select: { id: true, currentMembers: true, requiredMembers: true },
+  });
+
+  for (const group of expired.filter((g) => g.currentMembers < g.requiredMembers)) {
+    try {
+      const result = await expireGroup(group.id, now);
+      if (result) {
+        summary.expired++;
+        summary.refundsIssued += result.refundsIssued;
+      }
+    } catch (error) {
+      summary.errors.push({
+        groupPurchaseId: group.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return summary;
+}
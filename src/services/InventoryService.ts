@@ -296,3 +296,94 @@ export async function extendReservation(
     return false;
   }
 }
+
+export type InventoryMovementType = 'purchase_receipt' | 'sale' | 'return' | 'adjustment';
+
+export interface StockMovementRequest {
+  productId: string;
+  variantId?: string | null;
+  warehouseId?: string | null;
+  /** Signed quantity: positive adds stock, negative removes it */
+  quantity: number;
+  type: InventoryMovementType;
+  referenceType?: string;
+  referenceId?: string;
+  note?: string;
+  createdBy?: string;
+}
+
+/**
+ * Apply a stock change and record it in the inventory movement log.
+ * Must be called inside a transaction so the stock update and the log entry
+ * are committed together.
+ */
+export async function applyStockMovement(
+  tx: Prisma.TransactionClient,
+  movement: StockMovementRequest
+): Promise<number> {
+  const { productId, variantId, quantity } = movement;
+
+  if (quantity === 0) {
+    throw new Error('Invalid stock movement: quantity must not be zero');
+  }
+
+  let stockAfter: number;
+  if (variantId) {
+    if (quantity < 0) {
+      const updated = await tx.productVariant.updateMany({
+        where: { id: variantId, stockQuantity: { gte: -quantity } },
+        data: { stockQuantity: { increment: quantity } },
+      });
+      if (updated.count === 0) {
+        throw new Error(`Insufficient stock for variant ${variantId}`);
+      }
+    } else {
+      await tx.productVariant.update({
+        where: { id: variantId },
+        data: { stockQuantity: { increment: quantity } },
+      });
+    }
+    const variant = await tx.productVariant.findUnique({
+      where: { id: variantId },
+      select: { stockQuantity: true },
+    });
+    stockAfter = variant?.stockQuantity ?? 0;
+  } else {
+    if (quantity < 0) {
+      const updated = await tx.product.updateMany({
+        where: { id: productId, stockQuantity: { gte: -quantity } },
+        data: { stockQuantity: { increment: quantity } },
+      });
+      if (updated.count === 0) {
+        throw new Error(`Insufficient stock for product ${productId}`);
+      }
+    } else {
+      await tx.product.update({
+        where: { id: productId },
+        data: { stockQuantity: { increment: quantity } },
+      });
+    }
+    const product = await tx.product.findUnique({
+      where: { id: productId },
+      select: { stockQuantity: true },
+    });
+    stockAfter = product?.stockQuantity ?? 0;
+  }
+
+  await tx.inventoryMovement.create({
+    data: {
+      productId,
+      variantId: variantId || null,
+      warehouseId: movement.warehouseId || null,
+      type: movement.type,
+      quantity,
+      stockAfter,
+      referenceType: movement.referenceType,
+      referenceId: movement.referenceId,
+      note: movement.note,
+      createdBy: movement.createdBy,
+    },
+  });
+
+  return stockAfter;
+}
@@ -0,0 +1,655 @@
+/**
+ * Ledger Service
+ *
+ * Double-entry journal for marketplace money flows. Payment capture,
+ * commission, refunds, vendor payouts and gift card issue/redemption each post
+ * one balanced JournalEntry, keyed by event type and source record so posting
+ * is idempotent and can be retried or backfilled. The trial balance, account
+ * statements and the integrity check are all read from journal lines.
+ *
+ * Amounts are handled in integer cents while building journals so every entry
+ * balances exactly.
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { AppError, NotFoundError } from '@/lib/errors';
+import { calculateWithholdingTax } from '@/lib/ethiopian-tax';
+import { getPaymentProvider } from '@/lib/payment-providers';
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface LedgerAccount {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+}
+
+/**
+ * Chart of accounts. Vendor payables are sub-accounted by vendor profile id,
+ * payment clearing by provider (telebirr, cbe, awash, stripe, cod, gift_card).
+ */
+export const LEDGER_ACCOUNTS = {
+  PAYMENT_CLEARING: { code: '1100', name: 'Payment provider clearing', type: 'asset' },
+  BANK: { code: '1200', name: 'Operating bank account', type: 'asset' },
+  VENDOR_PAYABLE: { code: '2100', name: 'Vendor payables', type: 'liability' },
+  VAT_PAYABLE: { code: '2200', name: 'VAT payable', type: 'liability' },
+  WITHHOLDING_TAX_PAYABLE: { code: '2300', name: 'Withholding tax payable', type: 'liability' },
+  GIFT_CARD_LIABILITY: { code: '2400', name: 'Gift card liability', type: 'liability' },
+  COMMISSION_REVENUE: { code: '4100', name: 'Commission revenue', type: 'revenue' },
+  PROTECTION_FEE_REVENUE: { code: '4200', name: 'Buyer protection and insurance fees', type: 'revenue' },
+  SHIPPING_REVENUE: { code: '4300', name: 'Shipping revenue', type: 'revenue' },
+  CUSTOMER_DISCOUNTS: { code: '5100', name: 'Customer discounts and loyalty redemptions', type: 'expense' },
+  SUSPENSE: { code: '9900', name: 'Suspense', type: 'asset' },
+} satisfies Record<string, LedgerAccount>;
+
+const ACCOUNTS_BY_CODE = new Map<string, LedgerAccount>(
+  Object.values(LEDGER_ACCOUNTS).map((account) => [account.code, account])
+);
+
+/** Ethiopian standard VAT rate; commission is treated as VAT-inclusive */
+const VAT_RATE = 0.15;
+
+/** Vendor payouts at or above this amount (ETB) have withholding tax deducted */
+export const WITHHOLDING_THRESHOLD = 10000;
+
+export type JournalEventType =
+  | 'payment_capture'
+  | 'commission'
+  | 'refund'
+  | 'payout'
+  | 'gift_card_issue'
+  | 'gift_card_redeem'
+  | 'gift_card_refund';
+
+export interface JournalLineInput {
+  account: LedgerAccount;
+  subAccount?: string | null;
+  /** Cents */
+  debit?: number;
+  /** Cents */
+  credit?: number;
+  memo?: string;
+}
+
+export interface JournalInput {
+  eventType: JournalEventType;
+  sourceType: 'order' | 'refund' | 'vendor_payout' | 'gift_card_transaction';
+  sourceId: string;
+  description: string;
+  postedAt?: Date;
+  metadata?: Prisma.InputJsonValue;
+  lines: JournalLineInput[];
+}
+
+/**
+ * Raised when a journal's debits and credits differ
+ */
+export class LedgerImbalanceError extends AppError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 500, 'LEDGER_IMBALANCE', false, details);
+    this.name = 'LedgerImbalanceError';
+  }
+}
+
+type Amount = Prisma.Decimal | number | string | null | undefined;
+
+export const toCents = (value: Amount) => Math.round(Number(value ?? 0) * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Split `total` cents across weights, largest remainder first, so the parts sum exactly
+ */
+export function allocateCents(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (weightSum === 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (total * w) / weightSum);
+  const parts = exact.map(Math.floor);
+  let remainder = total - parts.reduce((sum, p) => sum + p, 0);
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (let i = 0; remainder > 0; i = (i + 1) % order.length, remainder--) {
+    parts[order[i].index]++;
+  }
+  return parts;
+}
+
+/**
+ * Clearing sub-account for an order's payment method
+ */
+function clearingAccountFor(paymentMethod: string | null | undefined): string {
+  const provider = getPaymentProvider(paymentMethod);
+  if (provider) return provider.id;
+  return paymentMethod ? paymentMethod.toLowerCase().replace(/[\s-]/g, '_') : 'manual';
+}
+
+/**
+ * Drop empty lines and move negative amounts to the other side
+ */
+function normalizeLines(lines: JournalLineInput[]) {
+  return lines
+    .map((line) => {
+      const net = (line.debit ?? 0) - (line.credit ?? 0);
+      return { ...line, debit: Math.max(net, 0), credit: Math.max(-net, 0) };
+    })
+    .filter((line) => line.debit > 0 || line.credit > 0);
+}
+
+/**
+ * Post a balanced journal. Posting the same event for the same source again
+ * returns the existing entry.
+ */
+export async function postJournal(input: JournalInput) {
+  const existing = await prisma.journalEntry.findUnique({
+    where: { eventType_sourceId: { eventType: input.eventType, sourceId: input.sourceId } },
+    include: { lines: true },
+  });
+  if (existing) return existing;
+
+  const lines = normalizeLines(input.lines);
+  if (lines.length === 0) return null;
+
+  const debits = lines.reduce((sum, line) => sum + line.debit, 0);
+  const credits = lines.reduce((sum, line) => sum + line.credit, 0);
+  if (debits !== credits) {
+    throw new LedgerImbalanceError(`${input.eventType} journal for ${input.sourceId} does not balance`, {
+      debit: fromCents(debits),
+      credit: fromCents(credits),
+    });
+  }
+
+  const postedAt = input.postedAt ?? new Date();
+
+  try {
+    return await prisma.journalEntry.create({
+      data: {
+        eventType: input.eventType,
+        sourceType: input.sourceType,
+        sourceId: input.sourceId,
+        description: input.description,
+        metadata: input.metadata,
+        postedAt,
+        lines: {
+          create: lines.map((line) => ({
+            accountCode: line.account.code,
+            subAccount: line.subAccount ?? null,
+            debit: fromCents(line.debit),
+            credit: fromCents(line.credit),
+            memo: line.memo,
+            postedAt,
+          })),
+        },
+      },
+      include: { lines: true },
+    });
+  } catch (error: any) {
+    // Lost a race with another poster of the same event
+    if (error.code === 'P2002') {
+      return prisma.journalEntry.findUnique({
+        where: { eventType_sourceId: { eventType: input.eventType, sourceId: input.sourceId } },
+        include: { lines: true },
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Customer payment for an order: cash and gift card tenders plus discounts on
+ * the debit side; vendor sales, shipping, VAT and protection fees on the credit side.
+ * Anything that doesn't add up goes to suspense rather than being dropped.
+ */
+export async function postPaymentCapture(orderId: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      orderItems: { select: { vendorId: true, total: true } },
+      giftCardTransactions: { where: { type: 'redeem' }, select: { amount: true } },
+    },
+  });
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+  if (!order.paidAt && !['completed', 'refunded'].includes(order.paymentStatus)) {
+    return null;
+  }
+
+  const cash = toCents(order.totalAmount);
+  const giftCard = order.giftCardTransactions.reduce((sum, tx) => sum + toCents(tx.amount), 0);
+  const discount = Math.max(0, toCents(order.discountAmount) - giftCard);
+
+  const vendorSales = new Map<string, number>();
+  for (const item of order.orderItems) {
+    vendorSales.set(item.vendorId, (vendorSales.get(item.vendorId) || 0) + toCents(item.total));
+  }
+
+  const lines: JournalLineInput[] = [
+    { account: LEDGER_ACCOUNTS.PAYMENT_CLEARING, subAccount: clearingAccountFor(order.paymentMethod), debit: cash },
+    { account: LEDGER_ACCOUNTS.PAYMENT_CLEARING, subAccount: 'gift_card', debit: giftCard },
+    { account: LEDGER_ACCOUNTS.CUSTOMER_DISCOUNTS, debit: discount },
+    ...Array.from(vendorSales, ([vendorId, amount]) => ({
+      account: LEDGER_ACCOUNTS.VENDOR_PAYABLE,
+      subAccount: vendorId,
+      credit: amount,
+    })),
+    { account: LEDGER_ACCOUNTS.SHIPPING_REVENUE, credit: toCents(order.shippingAmount) },
+    { account: LEDGER_ACCOUNTS.VAT_PAYABLE, credit: toCents(order.taxAmount), memo: 'Output VAT' },
+    {
+      account: LEDGER_ACCOUNTS.PROTECTION_FEE_REVENUE,
+      credit: toCents(order.protectionFee) + toCents(order.insuranceFee),
+    },
+  ];
+
+  const residual = lines.reduce((sum, line) => sum + (line.debit ?? 0) - (line.credit ?? 0), 0);
+  if (residual !== 0) {
+    lines.push({
+      account: LEDGER_ACCOUNTS.SUSPENSE,
+      credit: residual,
+      memo: 'Order total does not match its items, fees and discounts',
+    });
+  }
+
+  return postJournal({
+    eventType: 'payment_capture',
+    sourceType: 'order',
+    sourceId: order.id,
+    description: `Payment captured for order ${order.orderNumber}`,
+    postedAt: order.paidAt ?? undefined,
+    metadata: { orderNumber: order.orderNumber, paymentMethod: order.paymentMethod, paymentReference: order.paymentReference },
+    lines,
+  });
+}
+
+/**
+ * Marketplace commission on an order, from its CommissionLedger rows.
+ * Commission is VAT-inclusive: the VAT share is owed to the tax authority.
+ */
+export async function postCommission(orderId: string) {
+  const entries = await prisma.commissionLedger.findMany({ where: { orderId } });
+  if (entries.length === 0) return null;
+
+  const byVendor = new Map<string, number>();
+  for (const entry of entries) {
+    byVendor.set(entry.vendorId, (byVendor.get(entry.vendorId) || 0) + toCents(entry.commissionAmount));
+  }
+  const total = Array.from(byVendor.values()).reduce((sum, amount) => sum + amount, 0);
+  const revenue = Math.round(total / (1 + VAT_RATE));
+
+  return postJournal({
+    eventType: 'commission',
+    sourceType: 'order',
+    sourceId: orderId,
+    description: 'Marketplace commission',
+    postedAt: entries[0].paidAt ?? undefined,
+    lines: [
+      ...Array.from(byVendor, ([vendorId, amount]) => ({
+        account: LEDGER_ACCOUNTS.VENDOR_PAYABLE,
+        subAccount: vendorId,
+        debit: amount,
+      })),
+      { account: LEDGER_ACCOUNTS.COMMISSION_REVENUE, credit: revenue },
+      { account: LEDGER_ACCOUNTS.VAT_PAYABLE, credit: total - revenue, memo: 'VAT on commission' },
+    ],
+  });
+}
+
+/**
+ * Completed refund: cash back out of the provider's clearing account, with the
+ * order's capture and commission reversed in proportion to the amount refunded.
+ */
+export async function postRefund(refundId: string) {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: { order: { select: { id: true, orderNumber: true, paymentMethod: true } } },
+  });
+  if (!refund) {
+    throw new NotFoundError('Refund not found');
+  }
+  if (refund.status !== 'completed') return null;
+
+  const capture = await postPaymentCapture(refund.orderId);
+  if (!capture) return null;
+  const commission = await prisma.journalEntry.findUnique({
+    where: { eventType_sourceId: { eventType: 'commission', sourceId: refund.orderId } },
+    include: { lines: true },
+  });
+
+  const amount = toCents(refund.amount);
+  const captureCredits = capture.lines.filter((line) => toCents(line.credit) > 0);
+  const gross = captureCredits.reduce((sum, line) => sum + toCents(line.credit), 0);
+
+  const lines: JournalLineInput[] = [
+    {
+      account: LEDGER_ACCOUNTS.PAYMENT_CLEARING,
+      subAccount: clearingAccountFor(refund.provider || refund.order.paymentMethod),
+      credit: amount,
+    },
+  ];
+
+  const reversed = allocateCents(amount, captureCredits.map((line) => toCents(line.credit)));
+  captureCredits.forEach((line, index) => {
+    lines.push({ account: ACCOUNTS_BY_CODE.get(line.accountCode)!, subAccount: line.subAccount, debit: reversed[index] });
+  });
+
+  if (commission && gross > 0) {
+    const commissionTotal = commission.lines.reduce((sum, line) => sum + toCents(line.debit), 0);
+    const returned = Math.round((commissionTotal * amount) / gross);
+    const debits = commission.lines.filter((line) => toCents(line.debit) > 0);
+    const credits = commission.lines.filter((line) => toCents(line.credit) > 0);
+    const vendorShares = allocateCents(returned, debits.map((line) => toCents(line.debit)));
+    const revenueShares = allocateCents(returned, credits.map((line) => toCents(line.credit)));
+    debits.forEach((line, index) => {
+      lines.push({
+        account: ACCOUNTS_BY_CODE.get(line.accountCode)!,
+        subAccount: line.subAccount,
+        credit: vendorShares[index],
+        memo: 'Commission returned',
+      });
+    });
+    credits.forEach((line, index) => {
+      lines.push({
+        account: ACCOUNTS_BY_CODE.get(line.accountCode)!,
+        subAccount: line.subAccount,
+        debit: revenueShares[index],
+        memo: 'Commission returned',
+      });
+    });
+  }
+
+  return postJournal({
+    eventType: 'refund',
+    sourceType: 'refund',
+    sourceId: refund.id,
+    description: `Refund for order ${refund.order.orderNumber}`,
+    postedAt: refund.processedAt ?? undefined,
+    metadata: { orderId: refund.orderId, providerRefundId: refund.providerRefundId },
+    lines,
+  });
+}
+
+/**
+ * Vendor payout paid from the bank, less withholding tax on large payouts
+ */
+export async function postVendorPayout(payoutId: string) {
+  const payout = await prisma.vendorPayout.findUnique({ where: { id: payoutId } });
+  if (!payout) {
+    throw new NotFoundError('Payout not found');
+  }
+  if (payout.status !== 'paid') return null;
+
+  const amount = toCents(payout.payoutAmount);
+  const withholding =
+    amount >= WITHHOLDING_THRESHOLD * 100
+      ? toCents(calculateWithholdingTax(fromCents(amount), 'goods').withholdingTaxAmount)
+      : 0;
+
+  return postJournal({
+    eventType: 'payout',
+    sourceType: 'vendor_payout',
+    sourceId: payout.id,
+    description: `Vendor payout for ${payout.periodStart.toISOString().slice(0, 10)} to ${payout.periodEnd.toISOString().slice(0, 10)}`,
+    postedAt: payout.paidAt ?? undefined,
+    metadata: { vendorId: payout.vendorId, withholdingTax: fromCents(withholding) },
+    lines: [
+      { account: LEDGER_ACCOUNTS.VENDOR_PAYABLE, subAccount: payout.vendorId, debit: amount },
+      { account: LEDGER_ACCOUNTS.BANK, credit: amount - withholding },
+      { account: LEDGER_ACCOUNTS.WITHHOLDING_TAX_PAYABLE, credit: withholding, memo: 'Withholding tax on goods' },
+    ],
+  });
+}
+
+/**
+ * Gift card sale, redemption against an order, or a redemption put back on the card
+ */
+export async function postGiftCardTransaction(transactionId: string) {
+  const transaction = await prisma.giftCardTransaction.findUnique({
+    where: { id: transactionId },
+    include: { card: { select: { code: true } } },
+  });
+  if (!transaction) {
+    throw new NotFoundError('Gift card transaction not found');
+  }
+
+  const amount = toCents(transaction.amount);
+  const last4 = transaction.card.code.slice(-4);
+  const base = {
+    sourceType: 'gift_card_transaction' as const,
+    sourceId: transaction.id,
+    postedAt: transaction.createdAt,
+    metadata: { cardId: transaction.cardId, orderId: transaction.orderId },
+  };
+
+  switch (transaction.type) {
+    case 'purchase':
+      return postJournal({
+        ...base,
+        eventType: 'gift_card_issue',
+        description: `Gift card …${last4} issued`,
+        lines: [
+          { account: LEDGER_ACCOUNTS.PAYMENT_CLEARING, subAccount: clearingAccountFor(null), debit: amount },
+          { account: LEDGER_ACCOUNTS.GIFT_CARD_LIABILITY, credit: amount },
+        ],
+      });
+    case 'redeem':
+      return postJournal({
+        ...base,
+        eventType: 'gift_card_redeem',
+        description: `Gift card …${last4} redeemed`,
+        lines: [
+          { account: LEDGER_ACCOUNTS.GIFT_CARD_LIABILITY, debit: amount },
+          { account: LEDGER_ACCOUNTS.PAYMENT_CLEARING, subAccount: 'gift_card', credit: amount },
+        ],
+      });
+    case 'refund':
+      return postJournal({
+        ...base,
+        eventType: 'gift_card_refund',
+        description: `Gift card …${last4} credited back`,
+        lines: [
+          { account: LEDGER_ACCOUNTS.PAYMENT_CLEARING, subAccount: 'gift_card', debit: amount },
+          { account: LEDGER_ACCOUNTS.GIFT_CARD_LIABILITY, credit: amount },
+        ],
+      });
+    default:
+      return null;
+  }
+}
+
+/**
+ * Capture and commission journals for a newly paid order
+ */
+export async function postOrderPayment(orderId: string) {
+  const capture = await postPaymentCapture(orderId);
+  const commission = await postCommission(orderId);
+  return { capture, commission };
+}
+
+const normalBalance = (account: LedgerAccount, debit: number, credit: number) =>
+  account.type === 'asset' || account.type === 'expense' ? debit - credit : credit - debit;
+
+/**
+ * Debit and credit totals per account as of a date
+ */
+export async function getTrialBalance(options: { asOf?: Date; bySubAccount?: boolean } = {}) {
+  const asOf = options.asOf ?? new Date();
+
+  const groups = await prisma.journalLine.groupBy({
+    by: options.bySubAccount ? ['accountCode', 'subAccount'] : ['accountCode'],
+    where: { postedAt: { lte: asOf } },
+    _sum: { debit: true, credit: true },
+    orderBy: { accountCode: 'asc' },
+  });
+
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const accounts = groups.map((group) => {
+    const account = ACCOUNTS_BY_CODE.get(group.accountCode) ?? {
+      code: group.accountCode,
+      name: 'Unknown account',
+      type: 'asset' as const,
+    };
+    const debit = toCents(group._sum.debit);
+    const credit = toCents(group._sum.credit);
+    totalDebit += debit;
+    totalCredit += credit;
+    return {
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      subAccount: options.bySubAccount ? (group as { subAccount?: string | null }).subAccount ?? null : undefined,
+      debit: fromCents(debit),
+      credit: fromCents(credit),
+      balance: fromCents(normalBalance(account, debit, credit)),
+    };
+  });
+
+  return {
+    asOf,
+    accounts,
+    totals: { debit: fromCents(totalDebit), credit: fromCents(totalCredit) },
+    balanced: totalDebit === totalCredit,
+  };
+}
+
+/**
+ * Lines posted to one account with opening, running and closing balances
+ */
+export async function getAccountStatement(
+  code: string,
+  options: { subAccount?: string; from?: Date; to?: Date; page?: number; perPage?: number } = {}
+) {
+  const account = ACCOUNTS_BY_CODE.get(code);
+  if (!account) {
+    throw new NotFoundError('Ledger account not found');
+  }
+
+  const page = Math.max(1, options.page || 1);
+  const perPage = Math.min(500, Math.max(1, options.perPage || 100));
+  const scope: Prisma.JournalLineWhereInput = { accountCode: code };
+  if (options.subAccount) scope.subAccount = options.subAccount;
+
+  const where: Prisma.JournalLineWhereInput = {
+    ...scope,
+    postedAt: { ...(options.from && { gte: options.from }), ...(options.to && { lte: options.to }) },
+  };
+  const orderBy: Prisma.JournalLineOrderByWithRelationInput[] = [{ postedAt: 'asc' }, { id: 'asc' }];
+
+  const [opening, earlierPages, period, lines, total] = await Promise.all([
+    options.from
+      ? prisma.journalLine.aggregate({ where: { ...scope, postedAt: { lt: options.from } }, _sum: { debit: true, credit: true } })
+      : null,
+    page > 1
+      ? prisma.journalLine.aggregate({ where, orderBy, take: (page - 1) * perPage, _sum: { debit: true, credit: true } })
+      : null,
+    prisma.journalLine.aggregate({ where, _sum: { debit: true, credit: true } }),
+    prisma.journalLine.findMany({
+      where,
+      orderBy,
+      skip: (page - 1) * perPage,
+      take: perPage,
+      include: {
+        journalEntry: { select: { id: true, eventType: true, sourceType: true, sourceId: true, description: true } },
+      },
+    }),
+    prisma.journalLine.count({ where }),
+  ]);
+
+  const balanceOf = (sum: { debit: Amount; credit: Amount } | undefined) =>
+    sum ? normalBalance(account, toCents(sum.debit), toCents(sum.credit)) : 0;
+
+  const openingBalance = balanceOf(opening?._sum);
+  let running = openingBalance + balanceOf(earlierPages?._sum);
+
+  return {
+    account,
+    subAccount: options.subAccount ?? null,
+    openingBalance: fromCents(openingBalance),
+    closingBalance: fromCents(openingBalance + balanceOf(period._sum)),
+    lines: lines.map((line) => {
+      running += normalBalance(account, toCents(line.debit), toCents(line.credit));
+      return {
+        id: line.id,
+        postedAt: line.postedAt,
+        subAccount: line.subAccount,
+        debit: Number(line.debit),
+        credit: Number(line.credit),
+        memo: line.memo,
+        balance: fromCents(running),
+        journal: line.journalEntry,
+      };
+    }),
+    pagination: { page, perPage, total, totalPages: Math.ceil(total / perPage) },
+  };
+}
+
+/**
+ * Journal entries for a source record or event type, newest first
+ */
+export async function listJournalEntries(
+  filters: { eventType?: string; sourceId?: string; from?: Date; to?: Date; page?: number; perPage?: number } = {}
+) {
+  const page = Math.max(1, filters.page || 1);
+  const perPage = Math.min(100, Math.max(1, filters.perPage || 25));
+
+  const where: Prisma.JournalEntryWhereInput = {};
+  if (filters.eventType) where.eventType = filters.eventType;
+  if (filters.sourceId) where.sourceId = filters.sourceId;
+  if (filters.from || filters.to) {
+    where.postedAt = { ...(filters.from && { gte: filters.from }), ...(filters.to && { lte: filters.to }) };
+  }
+
+  const [entries, total] = await Promise.all([
+    prisma.journalEntry.findMany({
+      where,
+      include: { lines: true },
+      orderBy: { postedAt: 'desc' },
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+    prisma.journalEntry.count({ where }),
+  ]);
+
+  return {
+    entries,
+    pagination: { page, perPage, total, totalPages: Math.ceil(total / perPage) },
+  };
+}
+
+/**
+ * Ledger invariants: every journal sums to zero and has lines, and the
+ * ledger as a whole balances
+ */
+export async function checkLedgerIntegrity() {
+  const [unbalanced, empty, totals, journalCount] = await Promise.all([
+    prisma.$queryRaw<Array<{ journalEntryId: string; debit: Prisma.Decimal; credit: Prisma.Decimal }>>`
+      SELECT "journalEntryId", SUM("debit") AS "debit", SUM("credit") AS "credit"
+      FROM "journal_lines"
+      GROUP BY "journalEntryId"
+      HAVING SUM("debit") <> SUM("credit")
+    `,
+    prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT e."id" FROM "journal_entries" e
+      LEFT JOIN "journal_lines" l ON l."journalEntryId" = e."id"
+      WHERE l."id" IS NULL
+    `,
+    prisma.journalLine.aggregate({ _sum: { debit: true, credit: true } }),
+    prisma.journalEntry.count(),
+  ]);
+
+  const debit = toCents(totals._sum.debit);
+  const credit = toCents(totals._sum.credit);
+
+  return {
+    balanced: unbalanced.length === 0 && empty.length === 0 && debit === credit,
+    journalCount,
+    totals: { debit: fromCents(debit), credit: fromCents(credit) },
+    unbalancedJournals: unbalanced.map((row) => ({
+      journalEntryId: row.journalEntryId,
+      debit: Number(row.debit),
+      credit: Number(row.credit),
+    })),
+    emptyJournals: empty.map((row) => row.id),
+  };
+}
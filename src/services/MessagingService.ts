@@ -0,0 +1,494 @@
+/**
+ * Messaging Service
+ *
+ * Private buyer–vendor conversations on ChatConversation/ChatMessage.
+ * A buyer opens a conversation from a product, an order or a vendor store;
+ * either side can escalate it so an admin can step in.
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { hasAdminPermission, type JWTPayload } from '@/lib/auth';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/errors';
+
+export type MessagingUser = Pick<JWTPayload, 'userId' | 'role' | 'adminScope'> & {
+  /** Owner of the shop the user answers messages for as staff */
+  shopUserId?: string | null;
+};
+
+export type ParticipantRole = 'customer' | 'vendor' | 'admin';
+
+export interface OpenConversationInput {
+  /** Vendor profile id, required for orders that span several vendors */
+  vendorId?: string;
+  productId?: string;
+  orderId?: string;
+  subject?: string;
+  message: string;
+  attachments?: string[];
+}
+
+export interface SendMessageInput {
+  message: string;
+  attachments?: string[];
+}
+
+export interface ListConversationsOptions {
+  status?: 'active' | 'archived' | 'closed';
+  escalated?: boolean;
+  page?: number;
+  perPage?: number;
+}
+
+const PARTICIPANT_SELECT = {
+  id: true,
+  email: true,
+  profile: { select: { displayName: true, firstName: true, lastName: true } },
+} as const;
+
+const CONVERSATION_INCLUDE = {
+  customer: { select: PARTICIPANT_SELECT },
+  vendor: { select: PARTICIPANT_SELECT },
+  admin: { select: PARTICIPANT_SELECT },
+  product: { select: { id: true, name: true, slug: true } },
+  order: { select: { id: true, orderNumber: true } },
+} as const;
+
+/**
+ * Which side of the conversation the user is on, or null if they cannot see it.
+ * Operators with the support permission can read any conversation so they can
+ * moderate and handle escalations.
+ */
+export function getParticipantRole(
+  conversation: { customerId: string; vendorId: string | null; adminId: string | null },
+  user: MessagingUser
+): ParticipantRole | null {
+  if (conversation.customerId === user.userId) return 'customer';
+  if (conversation.vendorId && [user.userId, user.shopUserId].includes(conversation.vendorId)) return 'vendor';
+  if (conversation.adminId === user.userId || hasAdminPermission(user, 'support')) return 'admin';
+  return null;
+}
+
+/**
+ * Conversation filter for everything the user takes part in.
+ * Support operators also see every escalated conversation.
+ */
+function participantWhere(user: MessagingUser): Prisma.ChatConversationWhereInput {
+  const or: Prisma.ChatConversationWhereInput[] = [
+    { customerId: user.userId },
+    { vendorId: user.userId },
+    { adminId: user.userId },
+  ];
+  if (user.shopUserId) {
+    or.push({ vendorId: user.shopUserId });
+  }
+  if (hasAdminPermission(user, 'support')) {
+    or.push({ escalatedAt: { not: null } });
+  }
+  return { OR: or };
+}
+
+/**
+ * Add the shop a staff member answers messages for, if their role in it
+ * includes messaging
+ */
+export async function resolveMessagingUser(user: MessagingUser): Promise<MessagingUser> {
+  if (user.role !== 'vendor') return user;
+
+  const membership = await prisma.vendorStaffMember.findUnique({
+    where: { userId: user.userId },
+    select: { permissions: true, vendor: { select: { userId: true, isVendor: true } } },
+  });
+  if (!membership?.vendor.isVendor || !membership.permissions.includes('messaging')) {
+    return user;
+  }
+
+  return { ...user, shopUserId: membership.vendor.userId };
+}
+
+async function getAccessibleConversation(user: MessagingUser, id: string) {
+  const conversation = await prisma.chatConversation.findUnique({ where: { id } });
+  const role = conversation ? getParticipantRole(conversation, user) : null;
+  if (!conversation || !role) {
+    throw new NotFoundError('Conversation not found');
+  }
+  return { conversation, role };
+}
+
+/**
+ * Work out which vendor (user id) the buyer wants to talk to
+ */
+async function resolveVendorUserId(
+  user: MessagingUser,
+  input: OpenConversationInput
+): Promise<string> {
+  if (input.productId) {
+    const product = await prisma.product.findUnique({
+      where: { id: input.productId },
+      select: { vendor: { select: { id: true, userId: true } } },
+    });
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+    if (input.vendorId && input.vendorId !== product.vendor.id) {
+      throw new BadRequestError('Product does not belong to this vendor');
+    }
+    return product.vendor.userId;
+  }
+
+  if (input.orderId) {
+    const order = await prisma.order.findFirst({
+      where: { id: input.orderId, userId: user.userId },
+      select: { orderItems: { select: { vendor: { select: { id: true, userId: true } } } } },
+    });
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+
+    const vendors = new Map<string, string>();
+    for (const item of order.orderItems) {
+      vendors.set(item.vendor.id, item.vendor.userId);
+    }
+
+    if (input.vendorId) {
+      const vendorUserId = vendors.get(input.vendorId);
+      if (!vendorUserId) {
+        throw new BadRequestError('This vendor is not part of the order');
+      }
+      return vendorUserId;
+    }
+    if (vendors.size !== 1) {
+      throw new BadRequestError('Order has several vendors, specify vendorId');
+    }
+    return Array.from(vendors.values())[0];
+  }
+
+  if (input.vendorId) {
+    const vendor = await prisma.profile.findFirst({
+      where: { id: input.vendorId, isVendor: true },
+      select: { userId: true },
+    });
+    if (!vendor) {
+      throw new NotFoundError('Vendor not found');
+    }
+    return vendor.userId;
+  }
+
+  throw new BadRequestError('A product, order or vendor is required');
+}
+
+/**
+ * Open a conversation with a vendor (or continue the active one for the same
+ * product/order) and post the buyer's first message.
+ */
+export async function openConversation(user: MessagingUser, input: OpenConversationInput) {
+  const vendorUserId = await resolveVendorUserId(user, input);
+  if (vendorUserId === user.userId || vendorUserId === user.shopUserId) {
+    throw new BadRequestError('You cannot message your own store');
+  }
+
+  const existing = await prisma.chatConversation.findFirst({
+    where: {
+      customerId: user.userId,
+      vendorId: vendorUserId,
+      productId: input.productId ?? null,
+      orderId: input.orderId ?? null,
+      status: 'active',
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    const message = await sendMessage(user, existing.id, input);
+    return { conversation: await getConversation(user, existing.id), message, created: false };
+  }
+
+  const now = new Date();
+  const conversation = await prisma.chatConversation.create({
+    data: {
+      customerId: user.userId,
+      vendorId: vendorUserId,
+      productId: input.productId ?? null,
+      orderId: input.orderId ?? null,
+      subject: input.subject ?? null,
+      lastMessageAt: now,
+      messages: {
+        create: {
+          senderId: user.userId,
+          senderType: 'customer',
+          message: input.message,
+          attachments: input.attachments ?? [],
+          createdAt: now,
+        },
+      },
+    },
+    include: { ...CONVERSATION_INCLUDE, messages: true },
+  });
+
+  await notifyParticipants(conversation, user, input.message);
+
+  return { conversation, message: conversation.messages[0], created: true };
+}
+
+/**
+ * Post a message to a conversation the user takes part in
+ */
+export async function sendMessage(
+  user: MessagingUser,
+  conversationId: string,
+  input: SendMessageInput
+) {
+  const { conversation, role } = await getAccessibleConversation(user, conversationId);
+  if (conversation.status === 'closed') {
+    throw new BadRequestError('Conversation is closed');
+  }
+
+  const now = new Date();
+  const [message] = await prisma.$transaction([
+    prisma.chatMessage.create({
+      data: {
+        conversationId,
+        senderId: user.userId,
+        senderType: role,
+        message: input.message,
+        attachments: input.attachments ?? [],
+        createdAt: now,
+      },
+    }),
+    prisma.chatConversation.update({
+      where: { id: conversationId },
+      data: {
+        lastMessageAt: now,
+        // A new message brings an archived conversation back to the inbox
+        status: 'active',
+        // The first admin to reply takes ownership of the conversation
+        ...(role === 'admin' && !conversation.adminId ? { adminId: user.userId } : {}),
+      },
+    }),
+  ]);
+
+  await notifyParticipants(
+    { ...conversation, adminId: conversation.adminId ?? (role === 'admin' ? user.userId : null) },
+    user,
+    input.message
+  );
+
+  return message;
+}
+
+async function notifyParticipants(
+  conversation: { id: string; customerId: string; vendorId: string | null; adminId: string | null },
+  sender: MessagingUser,
+  message: string
+) {
+  // Staff replies are from the shop, so its owner is not notified either
+  const recipients = [conversation.customerId, conversation.vendorId, conversation.adminId].filter(
+    (id): id is string => !!id && id !== sender.userId && id !== sender.shopUserId
+  );
+  if (recipients.length === 0) return;
+
+  const preview = message.length > 120 ? `${message.slice(0, 117)}...` : message;
+
+  await prisma.notification
+    .createMany({
+      data: recipients.map((userId) => ({
+        userId,
+        type: 'system' as const,
+        title: 'New message',
+        message: preview,
+        data: { conversationId: conversation.id } as Prisma.InputJsonValue,
+      })),
+    })
+    .catch((err) => console.error('Failed to notify conversation participants:', err));
+}
+
+/**
+ * List the user's conversations, newest activity first, with the latest
+ * message and the number of unread messages in each.
+ */
+export async function listConversations(user: MessagingUser, options: ListConversationsOptions = {}) {
+  const page = Math.max(1, options.page || 1);
+  const perPage = Math.min(100, Math.max(1, options.perPage || 20));
+
+  const where: Prisma.ChatConversationWhereInput = {
+    AND: [
+      participantWhere(user),
+      ...(options.status ? [{ status: options.status }] : []),
+      ...(options.escalated ? [{ escalatedAt: { not: null } }] : []),
+    ],
+  };
+
+  const [conversations, total] = await Promise.all([
+    prisma.chatConversation.findMany({
+      where,
+      include: {
+        ...CONVERSATION_INCLUDE,
+        messages: { orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+      orderBy: [{ lastMessageAt: 'desc' }, { createdAt: 'desc' }],
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+    prisma.chatConversation.count({ where }),
+  ]);
+
+  const unread = await getUnreadCounts(
+    user,
+    conversations.map((c) => c.id)
+  );
+
+  return {
+    conversations: conversations.map(({ messages, ...conversation }) => ({
+      ...conversation,
+      lastMessage: messages[0] ?? null,
+      unreadCount: unread.byConversation[conversation.id] ?? 0,
+    })),
+    pagination: {
+      page,
+      perPage,
+      total,
+      totalPages: Math.ceil(total / perPage),
+    },
+  };
+}
+
+/**
+ * Conversation details with messages, oldest first.
+ * Pass `before` to page back through older messages.
+ */
+export async function getConversation(
+  user: MessagingUser,
+  id: string,
+  options: { before?: Date; limit?: number } = {}
+) {
+  await getAccessibleConversation(user, id);
+  const limit = Math.min(200, Math.max(1, options.limit || 50));
+
+  const [conversation, messages] = await Promise.all([
+    prisma.chatConversation.findUnique({ where: { id }, include: CONVERSATION_INCLUDE }),
+    prisma.chatMessage.findMany({
+      where: {
+        conversationId: id,
+        ...(options.before ? { createdAt: { lt: options.before } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit + 1,
+    }),
+  ]);
+
+  return {
+    ...conversation,
+    messages: messages.slice(0, limit).reverse(),
+    hasMore: messages.length > limit,
+  };
+}
+
+/**
+ * Mark every message the other participants sent as read
+ */
+export async function markConversationRead(user: MessagingUser, id: string): Promise<number> {
+  await getAccessibleConversation(user, id);
+
+  const result = await prisma.chatMessage.updateMany({
+    where: { conversationId: id, senderId: { not: user.userId }, isRead: false },
+    data: { isRead: true, readAt: new Date() },
+  });
+
+  return result.count;
+}
+
+/**
+ * Unread message counts across the user's conversations.
+ * Restrict to a set of conversation ids to avoid scanning the whole inbox.
+ */
+export async function getUnreadCounts(user: MessagingUser, conversationIds?: string[]) {
+  if (conversationIds && conversationIds.length === 0) {
+    return { total: 0, byConversation: {} as Record<string, number> };
+  }
+
+  const groups = await prisma.chatMessage.groupBy({
+    by: ['conversationId'],
+    where: {
+      isRead: false,
+      senderId: { not: user.userId },
+      conversation: participantWhere(user),
+      ...(conversationIds ? { conversationId: { in: conversationIds } } : {}),
+    },
+    _count: { _all: true },
+  });
+
+  const byConversation: Record<string, number> = {};
+  let total = 0;
+  for (const group of groups) {
+    byConversation[group.conversationId] = group._count._all;
+    total += group._count._all;
+  }
+
+  return { total, byConversation };
+}
+
+/**
+ * Ask an admin to step into the conversation
+ */
+export async function escalateConversation(user: MessagingUser, id: string, reason: string) {
+  const { conversation, role } = await getAccessibleConversation(user, id);
+  if (role === 'admin') {
+    throw new BadRequestError('Only the buyer or vendor can escalate a conversation');
+  }
+  if (conversation.escalatedAt) {
+    throw new ConflictError('Conversation has already been escalated');
+  }
+
+  const updated = await prisma.chatConversation.update({
+    where: { id },
+    data: { escalatedAt: new Date(), escalationReason: reason, status: 'active' },
+    include: CONVERSATION_INCLUDE,
+  });
+
+  const admins = await prisma.user.findMany({ where: { role: 'admin' }, select: { id: true } });
+  if (admins.length > 0) {
+    await prisma.notification
+      .createMany({
+        data: admins.map((admin) => ({
+          userId: admin.id,
+          type: 'system' as const,
+          title: 'Conversation escalated',
+          message: `A ${role} asked for help: ${reason}`,
+          data: { conversationId: id } as Prisma.InputJsonValue,
+        })),
+      })
+      .catch((err) => console.error('Failed to notify admins about escalation:', err));
+  }
+
+  return updated;
+}
+
+/**
+ * Messages posted after `since` in the user's conversations (optionally one
+ * conversation), oldest first. Used by the live message stream.
+ */
+export async function getMessagesSince(
+  user: MessagingUser,
+  since: Date,
+  conversationId?: string,
+  limit: number = 100
+) {
+  return prisma.chatMessage.findMany({
+    where: {
+      createdAt: { gt: since },
+      ...(conversationId ? { conversationId } : {}),
+      // Support operators may follow any single conversation; inbox-wide streams stay scoped
+      ...(hasAdminPermission(user, 'support') && conversationId ? {} : { conversation: participantWhere(user) }),
+    },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+  });
+}
+
+/**
+ * Throws NotFoundError unless the user can see the conversation
+ */
+export async function assertConversationAccess(user: MessagingUser, id: string): Promise<ParticipantRole> {
+  const { role } = await getAccessibleConversation(user, id);
+  return role;
+}
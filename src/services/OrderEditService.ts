@@ -0,0 +1,591 @@
+/**
+ * Order Edit Service
+ *
+ * Buyers and vendors can change an order before it is fulfilled: cancel
+ * lines, change quantities or, for buyers, the shipping address, while the
+ * order and the vendor orders concerned are still pending, paid or confirmed.
+ *
+ * The edited order is re-priced at the prices it was placed at
+ * (requoteOrder), so promotions and the coupon drop out when it no longer
+ * meets their minimum. Shipping is re-quoted for the vendors whose part
+ * changed, and tax is kept at the order's rate. Cancelled units release
+ * their inventory reservation or go back to stock. On a paid order a lower
+ * total is refunded, after settling any balance due; edits that would raise
+ * it are refused, as there is no way to collect the difference. Every edit
+ * is recorded as an OrderEdit and an order timeline event.
+ */
+
+import prisma from '@/lib/prisma';
+import type { OrderStatus, Prisma } from '@prisma/client';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/errors';
+import { processRefund } from '@/lib/refund';
+import { deriveOrderStatus, getStatusTimestamp } from '@/lib/order-status';
+import { normalizeCountryCode, quoteShipments } from '@/lib/shipping';
+import type { PriceAdjustment } from '@/lib/pricing';
+import { requoteOrder, type CartQuote } from '@/services/PricingService';
+import { applyStockMovement } from '@/services/InventoryService';
+
+export interface OrderAddressInput {
+  name?: string;
+  phone?: string;
+  line1?: string;
+  city: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface EditOrderInput {
+  /** New quantity per line; 0 cancels the line */
+  items?: Array<{ orderItemId: string; quantity: number }>;
+  shippingAddress?: OrderAddressInput;
+  reason?: string;
+}
+
+export type OrderEditSource = 'customer' | 'vendor';
+
+interface OrderEditActor {
+  source: OrderEditSource;
+  actorId: string;
+  /** A vendor may only change the lines of their own vendor order */
+  vendorOrderId?: string;
+}
+
+// Orders and vendor orders can be changed until fulfilment starts
+const EDITABLE_STATUSES: OrderStatus[] = ['pending', 'paid', 'confirmed'];
+
+const EDIT_ORDER_INCLUDE = {
+  orderItems: true,
+  vendorOrders: {
+    select: { id: true, vendorId: true, number: true, status: true, shippingAmount: true, shippingMethodId: true },
+  },
+  coupon: { select: { id: true, code: true } },
+} as const;
+
+type EditableOrder = Prisma.OrderGetPayload<{ include: typeof EDIT_ORDER_INCLUDE }>;
+
+interface PricingBreakdown {
+  discountAmount?: number;
+  adjustments?: PriceAdjustment[];
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function isOrderEditable(status: OrderStatus): boolean {
+  return EDITABLE_STATUSES.includes(status);
+}
+
+/**
+ * The order's stored shipping address, or null when it has none with a city
+ */
+function parseOrderAddress(value: Prisma.JsonValue): OrderAddressInput | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value) || typeof value.city !== 'string') {
+    return null;
+  }
+  const text = (key: keyof OrderAddressInput) => {
+    const field = value[key];
+    return typeof field === 'string' ? field : undefined;
+  };
+  return {
+    name: text('name'),
+    phone: text('phone'),
+    line1: text('line1'),
+    city: value.city,
+    postalCode: text('postalCode'),
+    country: text('country'),
+  };
+}
+
+function addressJson(address: OrderAddressInput | null): Prisma.InputJsonObject | null {
+  return address ? { ...address } : null;
+}
+
+function adjustmentJson(adjustment: PriceAdjustment): Prisma.InputJsonObject {
+  return { ...adjustment };
+}
+
+/**
+ * How the change in a paid order's total is settled: a lower total first
+ * clears the balance due and refunds the rest, a higher one is owed
+ */
+export function settleOrderEdit(
+  previousTotal: number,
+  newTotal: number,
+  balanceDue: number,
+  paid: boolean
+): { refundAmount: number; balanceChange: number } {
+  const difference = round(newTotal - previousTotal);
+  if (!paid || difference === 0) {
+    return { refundAmount: 0, balanceChange: 0 };
+  }
+  if (difference > 0) {
+    return { refundAmount: 0, balanceChange: difference };
+  }
+  const fromBalance = Math.min(balanceDue, -difference);
+  return { refundAmount: round(-difference - fromBalance), balanceChange: fromBalance > 0 ? -round(fromBalance) : 0 };
+}
+
+/**
+ * Edit one of the buyer's own orders
+ */
+export async function editOrder(userId: string, orderId: string, input: EditOrderInput) {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, userId },
+    include: EDIT_ORDER_INCLUDE,
+  });
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+  return applyOrderEdit(order, input, { source: 'customer', actorId: userId });
+}
+
+/**
+ * Cancel lines of, or lower quantities on, one of the vendor's vendor
+ * orders, e.g. when an item turns out to be out of stock
+ */
+export async function editVendorOrder(vendorId: string, vendorOrderId: string, actorId: string, input: EditOrderInput) {
+  const vendorOrder = await prisma.vendorOrder.findFirst({
+    where: { id: vendorOrderId, vendorId },
+    select: { orderId: true },
+  });
+  if (!vendorOrder) {
+    throw new NotFoundError('Vendor order not found');
+  }
+  if (input.shippingAddress) {
+    throw new BadRequestError('Only the buyer can change the shipping address', 'ADDRESS_CHANGE_NOT_ALLOWED');
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: vendorOrder.orderId },
+    include: EDIT_ORDER_INCLUDE,
+  });
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+  for (const change of input.items || []) {
+    const item = order.orderItems.find((candidate) => candidate.id === change.orderItemId);
+    if (item && item.vendorOrderId === vendorOrderId && change.quantity > item.quantity) {
+      throw new BadRequestError('Vendors can only lower quantities', 'QUANTITY_INCREASE_NOT_ALLOWED', {
+        orderItemId: item.id,
+      });
+    }
+  }
+
+  return applyOrderEdit(order, input, { source: 'vendor', actorId, vendorOrderId });
+}
+
+/**
+ * Apply an edit: validate it, re-price, settle the difference and record it
+ */
+async function applyOrderEdit(order: EditableOrder, input: EditOrderInput, actor: OrderEditActor) {
+  if (!isOrderEditable(order.status)) {
+    throw new BadRequestError(`A ${order.status} order can no longer be changed`, 'ORDER_NOT_EDITABLE');
+  }
+
+  // New quantity per changed line
+  const quantities = new Map<string, number>();
+  for (const change of input.items || []) {
+    const item = order.orderItems.find((candidate) => candidate.id === change.orderItemId);
+    if (!item || (actor.vendorOrderId && item.vendorOrderId !== actor.vendorOrderId)) {
+      throw new NotFoundError('Order item not found');
+    }
+    if (change.quantity === item.quantity) continue;
+    if (item.quantity === 0) {
+      throw new BadRequestError(`${item.productName} was cancelled and cannot be added back`, 'ORDER_ITEM_CANCELLED');
+    }
+    const vendorOrder = order.vendorOrders.find((candidate) => candidate.id === item.vendorOrderId);
+    if (vendorOrder && !isOrderEditable(vendorOrder.status)) {
+      throw new BadRequestError(`${vendorOrder.number} is already ${vendorOrder.status}`, 'ORDER_NOT_EDITABLE', {
+        vendorOrderId: vendorOrder.id,
+      });
+    }
+    quantities.set(item.id, change.quantity);
+  }
+
+  const previousAddress = parseOrderAddress(order.shippingAddress);
+  const addressChanged =
+    !!input.shippingAddress && JSON.stringify(input.shippingAddress) !== JSON.stringify(previousAddress);
+  if (quantities.size === 0 && !addressChanged) {
+    throw new BadRequestError('Nothing to change', 'EMPTY_ORDER_EDIT');
+  }
+  const underway = order.vendorOrders.find(
+    (vendorOrder) => vendorOrder.status !== 'cancelled' && !isOrderEditable(vendorOrder.status)
+  );
+  if (addressChanged && underway) {
+    throw new BadRequestError(`${underway.number} is already ${underway.status}`, 'ORDER_NOT_EDITABLE', {
+      vendorOrderId: underway.id,
+    });
+  }
+
+  const lines = order.orderItems.map((item) => ({ item, quantity: quantities.get(item.id) ?? item.quantity }));
+  const remaining = lines.filter((line) => line.quantity > 0);
+
+  // Added units must be in stock before anything is refunded
+  for (const { item, quantity } of lines) {
+    const added = quantity - item.quantity;
+    if (added <= 0 || !item.productId) continue;
+    const stock = item.variantId
+      ? await prisma.productVariant.findUnique({ where: { id: item.variantId }, select: { stockQuantity: true } })
+      : await prisma.product.findUnique({ where: { id: item.productId }, select: { stockQuantity: true } });
+    if ((stock?.stockQuantity ?? 0) < added) {
+      throw new BadRequestError(`Only ${stock?.stockQuantity ?? 0} more of ${item.productName} in stock`, 'INSUFFICIENT_STOCK', {
+        orderItemId: item.id,
+        available: stock?.stockQuantity ?? 0,
+      });
+    }
+  }
+
+  const breakdown = (order.pricingBreakdown as PricingBreakdown | null) ?? null;
+  const storedBreakdown =
+    order.pricingBreakdown && typeof order.pricingBreakdown === 'object' && !Array.isArray(order.pricingBreakdown)
+      ? order.pricingBreakdown
+      : {};
+  const quote: CartQuote | null =
+    remaining.length > 0
+      ? await requoteOrder({
+          lines: remaining.map(({ item, quantity }) => ({
+            productId: item.productId as string,
+            variantId: item.variantId,
+            name: item.productName,
+            unitPrice: Number(item.price),
+            quantity,
+          })),
+          pricedAt: order.createdAt,
+          promotionIds: Array.isArray(order.promotionIds) ? (order.promotionIds as string[]) : [],
+          couponId: order.couponId,
+          flashAdjustments: breakdown?.adjustments,
+        })
+      : null;
+
+  // Shipping: re-quoted for vendors whose lines changed, or all of them for a new address
+  const address = addressChanged ? input.shippingAddress! : previousAddress;
+  const changedVendorIds = new Set(
+    lines.filter(({ item }) => quantities.has(item.id)).map(({ item }) => item.vendorId)
+  );
+  const vendorShipping = new Map<string, { amount: number; methodId: string | null }>(
+    order.vendorOrders.map((vendorOrder) => [
+      vendorOrder.vendorId,
+      { amount: Number(vendorOrder.shippingAmount), methodId: vendorOrder.shippingMethodId },
+    ])
+  );
+  if (quote && address?.city) {
+    const shipping = await quoteShipments(
+      { country: normalizeCountryCode(address.country), city: address.city, postalCode: address.postalCode },
+      quote.lines,
+      {
+        cashOnDelivery: order.paymentMethod === 'COD',
+        freeShipping: quote.freeShipping,
+        selections: Object.fromEntries(
+          order.vendorOrders
+            .filter((vendorOrder) => vendorOrder.shippingMethodId)
+            .map((vendorOrder) => [vendorOrder.vendorId, vendorOrder.shippingMethodId as string])
+        ),
+      }
+    );
+    if (shipping.unavailableVendorIds.length > 0) {
+      throw new BadRequestError(`Some items cannot be shipped to ${address.city}`, 'SHIPPING_UNAVAILABLE', {
+        vendorIds: shipping.unavailableVendorIds,
+      });
+    }
+    for (const shipment of shipping.shipments) {
+      if (addressChanged || changedVendorIds.has(shipment.vendorId)) {
+        vendorShipping.set(shipment.vendorId, {
+          amount: shipment.selected?.rate ?? 0,
+          methodId: shipment.selected?.methodId ?? null,
+        });
+      }
+    }
+  }
+  for (const vendorId of vendorShipping.keys()) {
+    if (!remaining.some(({ item }) => item.vendorId === vendorId)) {
+      vendorShipping.set(vendorId, { amount: 0, methodId: vendorShipping.get(vendorId)!.methodId });
+    }
+  }
+
+  // Totals: loyalty and gift card discounts stay, tax stays at the order's rate
+  const previousTotal = Number(order.totalAmount);
+  const previousBase = Number(order.subtotal) - Number(order.discountAmount) + Number(order.shippingAmount);
+  const taxRate = previousBase > 0 ? Number(order.taxAmount) / previousBase : 0;
+  const otherDiscounts = breakdown ? Math.max(0, Number(order.discountAmount) - (breakdown.discountAmount ?? 0)) : 0;
+
+  const subtotal = quote?.subtotal ?? 0;
+  const discountAmount = quote ? Math.min(subtotal, round(quote.discountAmount + otherDiscounts)) : 0;
+  const shippingAmount = quote
+    ? order.vendorOrders.length > 0
+      ? round([...vendorShipping.values()].reduce((sum, shipping) => sum + shipping.amount, 0))
+      : Number(order.shippingAmount)
+    : 0;
+  const taxAmount = round(Math.max(0, subtotal - discountAmount + shippingAmount) * taxRate);
+  const fees = quote ? Number(order.protectionFee) + Number(order.insuranceFee) : 0;
+  const totalAmount = round(Math.max(0, subtotal - discountAmount + shippingAmount + taxAmount + fees));
+
+  const paid = order.paymentStatus === 'completed';
+  if (paid && totalAmount > previousTotal) {
+    throw new BadRequestError(
+      `This change would raise the paid total to ${totalAmount.toFixed(2)} ETB; place a new order for the extra items instead`,
+      'ORDER_EDIT_RAISES_PAID_TOTAL',
+      { previousTotal, totalAmount }
+    );
+  }
+  const { refundAmount, balanceChange } = settleOrderEdit(previousTotal, totalAmount, Number(order.balanceDue), paid);
+  const couponRemoved = !!order.couponId && !quote?.coupon;
+
+  const changes = {
+    items: lines
+      .filter(({ item }) => quantities.has(item.id))
+      .map(({ item, quantity }) => ({ orderItemId: item.id, productName: item.productName, from: item.quantity, to: quantity })),
+    ...(addressChanged && {
+      shippingAddress: { from: addressJson(previousAddress), to: addressJson(input.shippingAddress!) },
+    }),
+    ...(couponRemoved && {
+      couponRemoved: { code: order.coupon?.code ?? null, reason: quote?.couponError ?? 'All items cancelled' },
+    }),
+  };
+  const description = [
+    ...changes.items.map((change) =>
+      change.to === 0
+        ? `Cancelled ${change.productName}`
+        : `${change.productName} quantity changed from ${change.from} to ${change.to}`
+    ),
+    ...(addressChanged ? ['Shipping address changed'] : []),
+    ...(couponRemoved && quote ? [`Coupon ${order.coupon?.code} no longer applies`] : []),
+  ].join('; ');
+
+  const now = new Date();
+  const result = await prisma.$transaction(async (tx) => {
+    // Claim the order as it was read: a concurrent edit has moved updatedAt on
+    // and this one stops here, before anything is refunded twice
+    const claimed = await tx.order.updateMany({
+      where: { id: order.id, updatedAt: order.updatedAt },
+      data: { updatedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictError('The order was changed at the same time, please try again', 'ORDER_EDIT_CONFLICT');
+    }
+
+    const refund =
+      refundAmount > 0
+        ? await tx.refund.create({
+            data: {
+              orderId: order.id,
+              amount: refundAmount.toFixed(2),
+              reason: `Order ${order.orderNumber} edited`,
+              status: 'pending',
+              provider: order.paymentMethod || 'manual',
+            },
+          })
+        : null;
+
+    for (const { item, quantity } of lines) {
+      if (!quantities.has(item.id)) continue;
+      const released = item.quantity - quantity;
+      if (item.productId) {
+        if (released > 0) {
+          await releaseUnits(tx, order, item, released, actor.actorId);
+        } else {
+          await applyStockMovement(tx, {
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: released,
+            type: 'sale',
+            referenceType: 'order_edit',
+            referenceId: order.id,
+            note: `Added on order ${order.orderNumber}`,
+            createdBy: actor.actorId,
+          });
+        }
+      }
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: {
+          quantity,
+          cancelledQuantity: { increment: Math.max(0, released) },
+          total: (Number(item.price) * quantity).toFixed(2),
+        },
+      });
+    }
+
+    // Flash units no longer bought go back to the sale
+    const flashSold = new Map<string, number>(
+      (quote?.adjustments || [])
+        .filter((adjustment) => adjustment.type === 'flash' && adjustment.sourceId)
+        .map((adjustment) => [adjustment.sourceId!, adjustment.quantity || 0])
+    );
+    for (const adjustment of breakdown?.adjustments || []) {
+      if (adjustment.type !== 'flash' || !adjustment.sourceId || !adjustment.quantity) continue;
+      const freed = adjustment.quantity - (flashSold.get(adjustment.sourceId) ?? 0);
+      if (freed > 0) {
+        await tx.flashSale.update({
+          where: { id: adjustment.sourceId },
+          data: { stockSold: { decrement: freed } },
+        });
+      }
+    }
+
+    const vendorStatuses: OrderStatus[] = [];
+    for (const vendorOrder of order.vendorOrders) {
+      const vendorLines = lines.filter(({ item }) => item.vendorOrderId === vendorOrder.id);
+      const cancelled =
+        vendorLines.length > 0 && vendorLines.every(({ quantity }) => quantity === 0) && vendorOrder.status !== 'cancelled';
+      const shipping = vendorShipping.get(vendorOrder.vendorId);
+      await tx.vendorOrder.update({
+        where: { id: vendorOrder.id },
+        data: {
+          subtotal: vendorLines.reduce((sum, { item, quantity }) => sum + Number(item.price) * quantity, 0).toFixed(2),
+          shippingAmount: (shipping?.amount ?? 0).toFixed(2),
+          shippingMethodId: shipping?.methodId ?? null,
+          ...(cancelled && { status: 'cancelled' as OrderStatus, cancelledAt: now }),
+        },
+      });
+      if (cancelled) {
+        await tx.orderEvent.create({
+          data: {
+            orderId: order.id,
+            vendorOrderId: vendorOrder.id,
+            eventType: 'status_changed',
+            status: 'cancelled',
+            description: `${vendorOrder.number} cancelled: no items left`,
+            metadata: { previousStatus: vendorOrder.status, newStatus: 'cancelled', changedBy: actor.actorId },
+          },
+        });
+      }
+      vendorStatuses.push(cancelled ? 'cancelled' : vendorOrder.status);
+    }
+    const orderStatus = remaining.length === 0 ? 'cancelled' : deriveOrderStatus(order.status, vendorStatuses);
+
+    if (order.couponId) {
+      if (couponRemoved) {
+        await tx.couponUsage.deleteMany({ where: { orderId: order.id, couponId: order.couponId } });
+        await tx.coupon.update({ where: { id: order.couponId }, data: { usageCount: { decrement: 1 } } });
+      } else {
+        await tx.couponUsage.updateMany({
+          where: { orderId: order.id, couponId: order.couponId },
+          data: { discountAmount: quote!.adjustments.find((adjustment) => adjustment.type === 'coupon')?.amount ?? 0 },
+        });
+      }
+    }
+
+    const updatedOrder = await tx.order.update({
+      where: { id: order.id },
+      data: {
+        subtotal: subtotal.toFixed(2),
+        discountAmount: discountAmount.toFixed(2),
+        shippingAmount: shippingAmount.toFixed(2),
+        taxAmount: taxAmount.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+        balanceDue: round(Number(order.balanceDue) + balanceChange).toFixed(2),
+        couponId: couponRemoved ? null : order.couponId,
+        promotionIds: quote?.promotionIds ?? [],
+        ...(addressChanged && { shippingAddress: addressJson(input.shippingAddress!) }),
+        pricingBreakdown: {
+          ...storedBreakdown,
+          subtotal,
+          discountAmount: quote?.discountAmount ?? 0,
+          total: quote?.total ?? 0,
+          freeShipping: quote?.freeShipping ?? false,
+          adjustments: (quote?.adjustments ?? []).map(adjustmentJson),
+          lines: (quote?.lines ?? []).map((line) => ({ ...line, adjustments: line.adjustments.map(adjustmentJson) })),
+        },
+        ...(orderStatus !== order.status && { status: orderStatus, ...getStatusTimestamp(orderStatus, now) }),
+      },
+      include: { orderItems: true, vendorOrders: true },
+    });
+
+    const edit = await tx.orderEdit.create({
+      data: {
+        orderId: order.id,
+        vendorOrderId: actor.vendorOrderId ?? null,
+        editedBy: actor.actorId,
+        source: actor.source,
+        reason: input.reason ?? null,
+        changes,
+        previousTotal: previousTotal.toFixed(2),
+        newTotal: totalAmount.toFixed(2),
+        refundAmount: refundAmount.toFixed(2),
+        balanceDue: Math.max(0, balanceChange).toFixed(2),
+        refundId: refund?.id ?? null,
+      },
+    });
+
+    await tx.orderEvent.create({
+      data: {
+        orderId: order.id,
+        vendorOrderId: actor.vendorOrderId ?? null,
+        eventType: 'order_edited',
+        description,
+        metadata: {
+          editId: edit.id,
+          source: actor.source,
+          changedBy: actor.actorId,
+          reason: input.reason ?? null,
+          previousTotal,
+          newTotal: totalAmount,
+          refundAmount,
+          balanceDue: Math.max(0, balanceChange),
+        },
+      },
+    });
+    if (orderStatus !== order.status) {
+      await tx.orderEvent.create({
+        data: {
+          orderId: order.id,
+          eventType: 'status_changed',
+          status: orderStatus,
+          description: `Order status changed to ${orderStatus}`,
+          metadata: { previousStatus: order.status, newStatus: orderStatus, changedBy: actor.actorId },
+        },
+      });
+    }
+
+    return { order: updatedOrder, edit };
+  });
+
+  if (result.edit.refundId) {
+    await processRefund(result.edit.refundId);
+  }
+
+  return result;
+}
+
+/**
+ * Give back cancelled units: first out of the order's active inventory
+ * reservations, which never took stock, the rest back onto the shelf
+ */
+async function releaseUnits(
+  tx: Prisma.TransactionClient,
+  order: EditableOrder,
+  item: EditableOrder['orderItems'][number],
+  units: number,
+  actorId: string
+) {
+  const reservations = await tx.inventoryReservation.findMany({
+    where: { orderId: order.id, productId: item.productId!, variantId: item.variantId, status: 'active' },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let left = units;
+  for (const reservation of reservations) {
+    if (left === 0) break;
+    const take = Math.min(left, reservation.quantity);
+    await tx.inventoryReservation.update({
+      where: { id: reservation.id },
+      data:
+        take === reservation.quantity
+          ? { status: 'released', releasedAt: new Date() }
+          : { quantity: { decrement: take } },
+    });
+    left -= take;
+  }
+
+  if (left > 0) {
+    await applyStockMovement(tx, {
+      productId: item.productId!,
+      variantId: item.variantId,
+      quantity: left,
+      type: 'adjustment',
+      referenceType: 'order_edit',
+      referenceId: order.id,
+      note: `Cancelled on order ${order.orderNumber}`,
+      createdBy: actorId,
+    });
+  }
+}
@@ -6,17 +6,26 @@
  */
 
 import prisma from '@/lib/prisma';
-import { sendEmail, createOrderConfirmationEmail } from '@/lib/email';
+import { sendEmail } from '@/lib/email';
+import { renderEmail } from '@/services/EmailTemplateService';
 import { redeemPoints } from '@/services/LoyaltyService';
+import { postGiftCardTransaction } from '@/services/LedgerService';
+import { quoteCart } from '@/services/PricingService';
+import { AppError } from '@/lib/errors';
 import { checkAndCompleteReferral } from '@/lib/referral';
+import { getPaymentProvider, type PaymentProviderId } from '@/lib/payment-providers';
+import { normalizeCountryCode, quoteShipments, type ShipmentsQuote } from '@/lib/shipping';
+import { createVendorOrders } from '@/services/VendorOrderService';
 import type { PaymentMethod } from '@/types/payment';
 
 export interface CreateOrderRequest {
   userId: string;
   items: Array<{
     id: string;
+    variantId?: string;
     quantity: number;
   }>;
+  couponCode?: string;
   paymentMethod: 'COD' | 'TeleBirr' | 'CBE' | 'Awash' | 'BankTransfer' | 'Other';
   paymentMeta?: {
     phone?: string;
@@ -41,11 +50,14 @@ export interface CreateOrderRequest {
   loyaltyPointsToRedeem?: number;
   giftCardCode?: string;
   giftCardAmount?: number;
+  // Chosen shipping method per vendor (vendor id -> method id); the cheapest otherwise
+  shippingSelections?: Record<string, string>;
 }
 
 export interface OrderItem {
   vendorId: string | null;
   productId: string;
+  variantId: string | null;
   productName: string;
   productSku: string | null;
   quantity: number;
@@ -56,8 +68,19 @@ export interface OrderItem {
 export interface CreateOrderResult {
   success: boolean;
   order?: any;
+  // Set when the payment was started through a provider adapter
+  providerPayment?: {
+    provider: PaymentProviderId;
+    reference: string;
+    checkoutUrl?: string;
+    instructions?: string;
+  };
+  // Provider could not start the payment; the order stays pending for manual payment
+  paymentError?: string;
   error?: string;
   details?: any;
+  // HTTP status for failures that are not a plain 400
+  statusCode?: number;
 }
 
 /**
@@ -70,12 +93,23 @@ export async function getUserOrders(userId: string) {
       orderItems: {
         select: {
           id: true,
+          vendorOrderId: true,
           productName: true,
           quantity: true,
           price: true,
           total: true,
         },
       },
+      vendorOrders: {
+        select: {
+          id: true,
+          number: true,
+          status: true,
+          shippingAmount: true,
+          vendor: { select: { displayName: true } },
+        },
+        orderBy: { number: 'asc' },
+      },
     },
     orderBy: { createdAt: 'desc' },
   });
@@ -85,12 +119,16 @@ export async function getUserOrders(userId: string) {
  * Create a new order from cart items
  */
 export async function createOrder(request: CreateOrderRequest): Promise<CreateOrderResult> {
-  const { userId, items, paymentMethod, paymentMeta, shippingAddress, billingAddress, loyaltyPointsToRedeem, giftCardCode, giftCardAmount } = request;
+  const { userId, items, couponCode, paymentMethod, paymentMeta, shippingAddress, billingAddress, loyaltyPointsToRedeem, giftCardCode, giftCardAmount, shippingSelections } = request;
+
+  // Local methods with provider credentials get an automated payment instead of manual instructions
+  const provider = getPaymentProvider(paymentMethod);
+  const automatedProvider = provider && provider.isConfigured() ? provider : null;
 
   try {
     // Validate TeleBirr specific requirements
     if (paymentMethod === 'TeleBirr') {
-      if (!paymentMeta?.phone || !paymentMeta?.reference) {
+      if (!paymentMeta?.phone || (!automatedProvider && !paymentMeta?.reference)) {
         return { 
           success: false, 
           error: 'TeleBirr phone and reference required' 
@@ -98,11 +136,11 @@ export async function createOrder(request: CreateOrderRequest): Promise<CreateOr
       }
     }
 
-    // Fetch products to validate and get authoritative pricing/vendor
-    const productIds = items.map(i => i.id);
+    // Fetch products to validate and get vendor details
+    const productIds = Array.from(new Set(items.map(i => i.id)));
     const products = await prisma.product.findMany({
       where: { id: { in: productIds } },
-      select: { id: true, name: true, price: true, sku: true, vendorId: true }
+      select: { id: true, name: true, sku: true, vendorId: true, isDigital: true }
     });
 
     if (products.length !== productIds.length) {
@@ -112,22 +150,42 @@ export async function createOrder(request: CreateOrderRequest): Promise<CreateOr
       };
     }
 
-    // Build order totals and check inventory
-    let subtotal = 0;
-    const orderItemsData: OrderItem[] = items.map((ci) => {
-      const p = products.find(pp => pp.id === ci.id)!;
-      const qty = Math.max(1, Number(ci.quantity || 1));
-      const price = Number(p.price);
-      const lineTotal = price * qty;
-      subtotal += lineTotal;
+    // Authoritative pricing: the same quote the cart page showed
+    let quote;
+    try {
+      quote = await quoteCart({
+        items: items.map(ci => ({ productId: ci.id, variantId: ci.variantId, quantity: Number(ci.quantity || 1) })),
+        couponCode,
+        userId,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return { success: false, error: error.message, details: error.details };
+      }
+      throw error;
+    }
+
+    // Don't silently charge more than quoted when the coupon stopped applying
+    if (quote.couponError) {
+      return {
+        success: false,
+        error: quote.couponError
+      };
+    }
+
+    // Lines keep their list totals; pricing adjustments are charged as the order discount
+    const subtotal = quote.subtotal;
+    const orderItemsData: OrderItem[] = quote.lines.map((line) => {
+      const p = products.find(pp => pp.id === line.productId)!;
       return {
         vendorId: p.vendorId,
         productId: p.id,
-        productName: p.name,
+        variantId: line.variantId,
+        productName: line.name,
         productSku: p.sku ?? null,
-        quantity: qty,
-        price,
-        total: lineTotal,
+        quantity: line.quantity,
+        price: line.unitPrice,
+        total: line.subtotal,
       };
     });
 
@@ -152,6 +210,37 @@ export async function createOrder(request: CreateOrderRequest): Promise<CreateOr
       };
     }
 
+    // Physical items have to be shipped somewhere; without an address they
+    // would go out with no shipping charged
+    const physicalProductIds = products.filter(p => !p.isDigital).map(p => p.id);
+    if (physicalProductIds.length > 0 && !shippingAddress?.city) {
+      return {
+        success: false,
+        statusCode: 422,
+        error: 'A shipping address with a city is required',
+        details: { productIds: physicalProductIds }
+      };
+    }
+
+    // One rate-shopped shipment per vendor, as quoted on the cart page
+    let shipping: ShipmentsQuote | null = null;
+    if (shippingAddress?.city) {
+      shipping = await quoteShipments(
+        { country: normalizeCountryCode(shippingAddress.country), city: shippingAddress.city, postalCode: shippingAddress.postalCode },
+        quote.lines,
+        { cashOnDelivery: paymentMethod === 'COD', freeShipping: quote.freeShipping, selections: shippingSelections }
+      );
+      if (shipping.unavailableVendorIds.length > 0) {
+        return {
+          success: false,
+          error: `Some items cannot be shipped to ${shippingAddress.city}`,
+          details: { vendorIds: shipping.unavailableVendorIds }
+        };
+      }
+    }
+    const shippingAmount = shipping?.shippingAmount ?? 0;
+    const shipmentMethodIds = new Set(shipping?.shipments.map(s => s.selected!.methodId));
+
     // Handle loyalty points redemption
     let loyaltyDiscount = 0;
     let redemptionTransactionId: string | undefined;
@@ -232,9 +321,11 @@ export async function createOrder(request: CreateOrderRequest): Promise<CreateOr
     }
 
     const orderNumber = `MIN-${Date.now()}`;
-    const totalAmount = Math.max(0, subtotal - loyaltyDiscount - giftCardDiscount);
+    const totalAmount = Math.max(0, quote.total + shippingAmount - loyaltyDiscount - giftCardDiscount);
+    const couponDiscount = quote.adjustments.find(a => a.type === 'coupon')?.amount ?? 0;
 
     // Atomic transaction: decrement stock and create order
+    let giftCardTransactionId: string | null = null;
     try {
       const order = await prisma.$transaction(async (tx) => {
         // Decrement stock for each product conditionally
@@ -257,17 +348,39 @@ export async function createOrder(request: CreateOrderRequest): Promise<CreateOr
             paymentMethod,
             paymentReference: paymentMethod === 'TeleBirr' ? paymentMeta?.reference : undefined,
             subtotal: subtotal.toFixed(2),
-            shippingAmount: '0.00',
+            shippingAmount: shippingAmount.toFixed(2),
             taxAmount: '0.00',
-            discountAmount: (loyaltyDiscount + giftCardDiscount).toFixed(2),
+            discountAmount: (quote.discountAmount + loyaltyDiscount + giftCardDiscount).toFixed(2),
             totalAmount: totalAmount.toFixed(2),
             currency: 'ETB',
             shippingAddress: shippingAddress || undefined,
             billingAddress: billingAddress || undefined,
+            couponId: quote.couponId,
+            promotionIds: quote.promotionIds,
+            shippingZoneId: shipping?.shipments[0]?.selected?.zoneId ?? null,
+            // A single method id only when every shipment uses it
+            shippingMethodId: shipmentMethodIds.size === 1 ? [...shipmentMethodIds][0] : null,
+            pricingBreakdown: {
+              subtotal: quote.subtotal,
+              discountAmount: quote.discountAmount,
+              total: quote.total,
+              freeShipping: quote.freeShipping,
+              adjustments: quote.adjustments,
+              lines: quote.lines,
+              shipments: shipping?.shipments.map(s => ({
+                vendorId: s.vendorId,
+                vendorName: s.vendorName,
+                origin: s.origin,
+                productIds: s.productIds,
+                subtotal: s.subtotal,
+                shipping: s.selected,
+              })) ?? [],
+            } as any,
             orderItems: {
               create: orderItemsData.map(oi => ({
                 vendorId: oi.vendorId,
                 productId: oi.productId,
+                variantId: oi.variantId,
                 productName: oi.productName,
                 productSku: oi.productSku,
                 quantity: oi.quantity,
@@ -280,6 +393,55 @@ export async function createOrder(request: CreateOrderRequest): Promise<CreateOr
           include: { orderItems: true }
         });
 
+        // Each vendor fulfils and ships their part as a vendor order
+        await createVendorOrders(tx, createdOrder, shipping?.shipments);
+
+        // Count flash sale units and coupon usage against their limits. The
+        // limit is part of the update so concurrent checkouts cannot both
+        // take the last units or the last use.
+        for (const adjustment of quote.adjustments) {
+          if (adjustment.type === 'flash' && adjustment.sourceId && adjustment.quantity) {
+            const sale = await tx.flashSale.findUnique({
+              where: { id: adjustment.sourceId },
+              select: { stockLimit: true },
+            });
+            const claimed = await tx.flashSale.updateMany({
+              where: {
+                id: adjustment.sourceId,
+                stockSold: sale?.stockLimit != null ? { lte: sale.stockLimit - adjustment.quantity } : undefined,
+              },
+              data: { stockSold: { increment: adjustment.quantity } },
+            });
+            if (claimed.count === 0) {
+              throw new Error(`Flash sale sold out: ${adjustment.sourceId}`);
+            }
+          }
+        }
+        if (quote.couponId) {
+          const coupon = await tx.coupon.findUnique({
+            where: { id: quote.couponId },
+            select: { usageLimit: true },
+          });
+          const counted = await tx.coupon.updateMany({
+            where: {
+              id: quote.couponId,
+              usageCount: coupon?.usageLimit ? { lt: coupon.usageLimit } : undefined,
+            },
+            data: { usageCount: { increment: 1 } },
+          });
+          if (counted.count === 0) {
+            throw new Error(`Coupon usage limit reached: ${quote.couponId}`);
+          }
+          await tx.couponUsage.create({
+            data: {
+              couponId: quote.couponId,
+              orderId: createdOrder.id,
+              userId,
+              discountAmount: couponDiscount,
+            }
+          });
+        }
+
         // Redeem gift card if applicable
         if (giftCard && giftCardDiscount > 0) {
           const newBalance = Number(giftCard.balance) - giftCardDiscount;
@@ -293,7 +455,7 @@ export async function createOrder(request: CreateOrderRequest): Promise<CreateOr
           });
 
           // Create gift card transaction
-          await tx.giftCardTransaction.create({
+          const giftCardTransaction = await tx.giftCardTransaction.create({
             data: {
               cardId: giftCard.id,
               orderId: createdOrder.id,
@@ -301,11 +463,18 @@ export async function createOrder(request: CreateOrderRequest): Promise<CreateOr
               type: 'redeem',
             }
           });
+          giftCardTransactionId = giftCardTransaction.id;
         }
 
         return createdOrder;
       });
 
+      if (giftCardTransactionId) {
+        postGiftCardTransaction(giftCardTransactionId).catch(err =>
+          console.error('Failed to post gift card journal:', err)
+        );
+      }
+
       // Send order confirmation email asynchronously
       sendOrderConfirmationEmail(userId, order).catch(err => 
         console.error('Failed to send order confirmation email:', err)
@@ -316,6 +485,34 @@ export async function createOrder(request: CreateOrderRequest): Promise<CreateOr
         console.error('Failed to check/complete referral:', err)
       );
 
+      if (automatedProvider && totalAmount > 0) {
+        try {
+          const initiated = await automatedProvider.initiate({
+            orderId: order.id,
+            orderNumber: order.orderNumber,
+            amount: totalAmount,
+            currency: 'ETB',
+            description: `Minalesh order ${order.orderNumber}`,
+            customerPhone: paymentMeta?.phone || shippingAddress?.phone,
+            callbackUrl: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/payments/webhook?provider=${automatedProvider.id}`,
+            returnUrl: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/orders/${order.id}`,
+          });
+          const updated = await prisma.order.update({
+            where: { id: order.id },
+            data: { paymentReference: initiated.reference },
+            include: { orderItems: true },
+          });
+          return { success: true, order: updated, providerPayment: { provider: automatedProvider.id, ...initiated } };
+        } catch (providerError) {
+          console.error(`Error initiating ${automatedProvider.displayName} payment:`, providerError);
+          return {
+            success: true,
+            order,
+            paymentError: `${automatedProvider.displayName} could not start the payment. Follow the manual payment instructions or try again from your orders page.`,
+          };
+        }
+      }
+
       return { success: true, order };
     } catch (txErr: unknown) {
       console.error('Transaction error creating order:', txErr);
@@ -327,6 +524,12 @@ export async function createOrder(request: CreateOrderRequest): Promise<CreateOr
           details: msg 
         };
       }
+      if (msg.includes('Flash sale sold out')) {
+        return { success: false, error: 'The flash sale sold out while you were checking out' };
+      }
+      if (msg.includes('Coupon usage limit reached')) {
+        return { success: false, error: 'This coupon has reached its usage limit' };
+      }
       return { success: false, error: 'An error occurred' };
     }
   } catch (error) {
@@ -352,11 +555,11 @@ async function sendOrderConfirmationEmail(userId: string, order: any) {
         price: Number(item.price),
       }));
 
-      const emailTemplate = createOrderConfirmationEmail(
+      const emailTemplate = await renderEmail(
+        'order_confirmation',
         user.email,
-        order.orderNumber,
-        order.totalAmount.toString(),
-        orderItems
+        { orderNumber: order.orderNumber, totalAmount: order.totalAmount.toString(), items: orderItems },
+        { userId }
       );
       
       await sendEmail(emailTemplate);
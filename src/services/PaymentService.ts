@@ -8,6 +8,9 @@
 import prisma from '@/lib/prisma';
 import { createReservation } from './InventoryService';
 import { calculateProtectionFee } from '@/lib/buyer-protection';
+import { getPaymentProvider, type PaymentProviderId } from '@/lib/payment-providers';
+import type { ShippingOption } from '@/lib/shipping';
+import { createVendorOrders } from '@/services/VendorOrderService';
 import Stripe from 'stripe';
 
 const stripe = process.env.STRIPE_SECRET_KEY
@@ -28,6 +31,9 @@ export interface CreatePaymentIntentRequest {
   couponCode?: string;
   shippingMethodId?: string;
   captureMethod?: 'automatic' | 'manual';
+  // Local providers (TeleBirr, CBE Birr, Awash) are initiated through their adapter instead of Stripe
+  paymentProvider?: 'stripe' | PaymentProviderId;
+  customerPhone?: string;
   // Buyer Protection options
   enableBuyerProtection?: boolean;
   enableInsurance?: boolean;
@@ -42,6 +48,12 @@ export interface PaymentIntentResult {
     clientSecret: string | null;
     captureMethod: string;
   };
+  providerPayment?: {
+    provider: PaymentProviderId;
+    reference: string;
+    checkoutUrl?: string;
+    instructions?: string;
+  };
   expiresAt?: string;
   error?: string;
 }
@@ -60,10 +72,14 @@ export async function createPaymentIntent(
     couponCode,
     shippingMethodId,
     captureMethod = 'automatic',
+    paymentProvider = 'stripe',
+    customerPhone,
     enableBuyerProtection = false,
     enableInsurance = false,
   } = request;
 
+  const provider = getPaymentProvider(paymentProvider);
+
   try {
     // Fetch products to validate and calculate totals
     const productIds = items.map((i) => i.productId);
@@ -194,6 +210,7 @@ export async function createPaymentIntent(
     let shippingAmount = 0;
     let taxAmount = 0;
     let shippingZoneId: string | null = null;
+    let shippingOption: ShippingOption | null = null;
 
     if (shippingMethodId) {
       const shippingRate = await prisma.shippingRate.findFirst({
@@ -212,6 +229,14 @@ export async function createPaymentIntent(
         ) {
           shippingAmount = 0;
         }
+
+        shippingOption = {
+          id: shippingRate.id,
+          zoneId: shippingRate.zoneId,
+          methodId: shippingRate.methodId,
+          name: shippingRate.method.name,
+          rate: shippingAmount,
+        };
       }
     }
 
@@ -240,35 +265,46 @@ export async function createPaymentIntent(
 
     // Create order with pending status
     const orderNumber = `MIN-${Date.now()}`;
-    const order = await prisma.order.create({
-      data: {
-        userId,
-        orderNumber,
-        status: 'pending',
-        paymentStatus: 'pending',
-        paymentMethod: 'stripe',
-        subtotal: subtotal.toFixed(2),
-        shippingAmount: shippingAmount.toFixed(2),
-        taxAmount: taxAmount.toFixed(2),
-        discountAmount: discountAmount.toFixed(2),
-        totalAmount: totalAmount.toFixed(2),
-        currency: 'ETB',
-        shippingAddress: shippingAddress || undefined,
-        billingAddress: billingAddress || undefined,
-        couponId,
-        shippingMethodId: shippingMethodId || null,
-        shippingZoneId,
-        // Buyer protection fields
-        buyerProtectionEnabled: enableBuyerProtection,
-        protectionFee: protectionResult.protectionFee.toFixed(2),
-        insuranceEnabled: enableInsurance && protectionResult.isHighValue,
-        insuranceFee: protectionResult.insuranceFee.toFixed(2),
-        shippingDeadline: enableBuyerProtection ? protectionResult.shippingDeadline : null,
-        orderItems: {
-          create: orderItemsData,
+    const order = await prisma.$transaction(async (tx) => {
+      const created = await tx.order.create({
+        data: {
+          userId,
+          orderNumber,
+          status: 'pending',
+          paymentStatus: 'pending',
+          paymentMethod: provider ? provider.id : 'stripe',
+          subtotal: subtotal.toFixed(2),
+          shippingAmount: shippingAmount.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          discountAmount: discountAmount.toFixed(2),
+          totalAmount: totalAmount.toFixed(2),
+          currency: 'ETB',
+          shippingAddress: shippingAddress || undefined,
+          billingAddress: billingAddress || undefined,
+          couponId,
+          shippingMethodId: shippingMethodId || null,
+          shippingZoneId,
+          // Buyer protection fields
+          buyerProtectionEnabled: enableBuyerProtection,
+          protectionFee: protectionResult.protectionFee.toFixed(2),
+          insuranceEnabled: enableInsurance && protectionResult.isHighValue,
+          insuranceFee: protectionResult.insuranceFee.toFixed(2),
+          shippingDeadline: enableBuyerProtection ? protectionResult.shippingDeadline : null,
+          orderItems: {
+            create: orderItemsData,
+          },
         },
-      },
-      include: { orderItems: true },
+        include: { orderItems: true },
+      });
+
+      // Each vendor fulfils and ships their part as a vendor order. The order
+      // ships at one rate, charged on the first vendor order
+      await createVendorOrders(
+        tx,
+        created,
+        shippingOption ? [{ vendorId: created.orderItems[0].vendorId, selected: shippingOption }] : []
+      );
+      return created;
     });
 
     // Link reservations to order
@@ -277,9 +313,47 @@ export async function createPaymentIntent(
       data: { orderId: order.id },
     });
 
+    // Start the payment with the local provider; without it the customer has no way to pay
+    let providerPayment: PaymentIntentResult['providerPayment'];
+    if (provider) {
+      try {
+        const initiated = await provider.initiate({
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          amount: Number(order.totalAmount),
+          currency: order.currency,
+          description: `Minalesh order ${order.orderNumber}`,
+          customerPhone: customerPhone || shippingAddress?.phone,
+          callbackUrl: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/payments/webhook?provider=${provider.id}`,
+          returnUrl: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/orders/${order.id}`,
+        });
+
+        await prisma.order.update({
+          where: { id: order.id },
+          data: { paymentReference: initiated.reference },
+        });
+
+        providerPayment = { provider: provider.id, ...initiated };
+      } catch (providerError) {
+        console.error(`Error initiating ${provider.displayName} payment:`, providerError);
+        await prisma.inventoryReservation.updateMany({
+          where: { id: { in: reservations } },
+          data: { status: 'released', releasedAt: new Date() },
+        });
+        await prisma.order.update({
+          where: { id: order.id },
+          data: { status: 'cancelled', paymentStatus: 'failed', cancelledAt: new Date() },
+        });
+        return {
+          success: false,
+          error: `${provider.displayName} is unavailable right now. Please try another payment method.`,
+        };
+      }
+    }
+
     // Create Stripe payment intent if configured
     let stripePaymentIntent = null;
-    if (stripe) {
+    if (stripe && !provider) {
       try {
         const paymentIntent = await stripe.paymentIntents.create({
           amount: Math.round(totalAmount * 100), // Convert to cents
@@ -338,6 +412,7 @@ export async function createPaymentIntent(
       },
       reservations,
       stripePaymentIntent: stripePaymentIntent || undefined,
+      providerPayment,
       expiresAt: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
     };
   } catch (error) {
@@ -0,0 +1,283 @@
+/**
+ * Phone Auth Service
+ *
+ * Phone-number-first accounts: registration and passwordless login with
+ * one-time codes sent by SMS, plus linking a verified phone to an email
+ * account or an email to a phone account. Phone numbers are stored in the
+ * +251 format produced by formatEthiopianPhone so each number maps to one
+ * account however it was typed.
+ */
+
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
+import { generateRandomToken, hashPassword, isAccountLockedOut } from '@/lib/auth';
+import { AppError, BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from '@/lib/errors';
+import { sendEmail } from '@/lib/email';
+import { renderEmail } from '@/services/EmailTemplateService';
+import { formatEthiopianPhone, sendSMS } from '@/lib/sms';
+
+export type PhoneOtpPurpose = 'register' | 'login' | 'link';
+
+export const PHONE_OTP_TTL_MINUTES = 10;
+export const PHONE_OTP_RESEND_SECONDS = 60;
+export const MAX_PHONE_OTP_ATTEMPTS = 5;
+// Caps SMS spend per number regardless of how many IPs ask
+export const MAX_PHONE_OTPS_PER_HOUR = 5;
+
+export interface PhoneRegistrationInput {
+  phone: string;
+  code: string;
+  firstName: string;
+  lastName: string;
+  password?: string;
+}
+
+function hashOtp(code: string): string {
+  return crypto.createHash('sha256').update(code.trim()).digest('hex');
+}
+
+function newOtp(): string {
+  return crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+}
+
+function isUniqueViolation(error: any): boolean {
+  return error?.code === 'P2002';
+}
+
+export function normalizePhone(phone: string): string {
+  return formatEthiopianPhone(phone.trim());
+}
+
+async function assertCanSendOtp(phone: string, purpose: PhoneOtpPurpose) {
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+  const recent = await prisma.phoneOtp.findMany({
+    where: { phone, purpose, createdAt: { gte: hourAgo } },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+
+  if (recent.length > 0) {
+    const secondsSinceLast = (Date.now() - recent[0].createdAt.getTime()) / 1000;
+    if (secondsSinceLast < PHONE_OTP_RESEND_SECONDS) {
+      throw new AppError('Please wait before requesting another code', 429, 'OTP_RESEND_TOO_SOON', true, {
+        retryAfterSeconds: Math.ceil(PHONE_OTP_RESEND_SECONDS - secondsSinceLast),
+      });
+    }
+  }
+
+  if (recent.length >= MAX_PHONE_OTPS_PER_HOUR) {
+    throw new AppError('Too many codes requested for this number, try again later', 429, 'TOO_MANY_OTP_REQUESTS');
+  }
+}
+
+async function issueOtp(phone: string, purpose: PhoneOtpPurpose, userId: string | null) {
+  await assertCanSendOtp(phone, purpose);
+
+  const code = newOtp();
+  await prisma.phoneOtp.create({
+    data: {
+      phone,
+      purpose,
+      userId,
+      codeHash: hashOtp(code),
+      expiresAt: new Date(Date.now() + PHONE_OTP_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  const sent = await sendSMS({
+    to: phone,
+    message: `Minalesh: Your code is ${code}. It expires in ${PHONE_OTP_TTL_MINUTES} minutes. Never share this code.`,
+  });
+  if (!sent) {
+    throw new AppError('Could not send verification code', 502, 'SMS_SEND_FAILED');
+  }
+}
+
+/**
+ * Text a code for phone registration or passwordless login.
+ * Login codes are only sent to registered numbers, but the caller gets the
+ * same answer either way so numbers cannot be enumerated.
+ */
+export async function requestPhoneOtp(rawPhone: string, purpose: 'register' | 'login') {
+  const phone = normalizePhone(rawPhone);
+  const existing = await prisma.user.findUnique({ where: { phone }, select: { id: true } });
+
+  if (purpose === 'register') {
+    if (existing) {
+      throw new ConflictError('An account with this phone number already exists', 'PHONE_ALREADY_REGISTERED');
+    }
+    await issueOtp(phone, purpose, null);
+  } else if (existing) {
+    await issueOtp(phone, purpose, existing.id);
+  }
+
+  return { phone, expiresInMinutes: PHONE_OTP_TTL_MINUTES };
+}
+
+/**
+ * Check a texted code and consume it. Only the newest code for the number
+ * and purpose is accepted, and only a few guesses are allowed per code.
+ */
+export async function verifyPhoneOtp(phone: string, purpose: PhoneOtpPurpose, code: string, userId?: string) {
+  const otp = await prisma.phoneOtp.findFirst({
+    where: { phone, purpose, consumedAt: null, ...(userId && { userId }) },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!otp || otp.expiresAt < new Date()) {
+    throw new UnauthorizedError('Code expired, please request a new one', 'OTP_EXPIRED');
+  }
+
+  // Count the guess before checking it, so parallel guesses cannot go past the limit
+  const counted = await prisma.phoneOtp.updateMany({
+    where: { id: otp.id, attempts: { lt: MAX_PHONE_OTP_ATTEMPTS } },
+    data: { attempts: { increment: 1 } },
+  });
+  if (counted.count === 0) {
+    throw new AppError('Too many incorrect codes, please request a new one', 429, 'TOO_MANY_ATTEMPTS');
+  }
+
+  if (!crypto.timingSafeEqual(Buffer.from(otp.codeHash), Buffer.from(hashOtp(code)))) {
+    throw new UnauthorizedError('Invalid code', 'INVALID_OTP');
+  }
+
+  // Conditional update so the same code cannot be redeemed twice concurrently
+  const consumed = await prisma.phoneOtp.updateMany({
+    where: { id: otp.id, consumedAt: null },
+    data: { consumedAt: new Date() },
+  });
+  if (consumed.count === 0) {
+    throw new UnauthorizedError('Code expired, please request a new one', 'OTP_EXPIRED');
+  }
+
+  return otp;
+}
+
+/**
+ * Create an account from a verified phone number. The password is optional;
+ * without one the account signs in with texted codes only.
+ */
+export async function registerWithPhone(input: PhoneRegistrationInput) {
+  const phone = normalizePhone(input.phone);
+  await verifyPhoneOtp(phone, 'register', input.code);
+
+  // Passwordless accounts get a random password nobody knows
+  const password = await hashPassword(input.password || generateRandomToken());
+
+  try {
+    return await prisma.user.create({
+      data: {
+        phone,
+        phoneVerified: new Date(),
+        password,
+        profile: {
+          create: {
+            displayName: `${input.firstName} ${input.lastName}`.trim(),
+            firstName: input.firstName,
+            lastName: input.lastName,
+            phone,
+          },
+        },
+      },
+      include: { profile: true },
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError('An account with this phone number already exists', 'PHONE_ALREADY_REGISTERED');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Passwordless login: the texted code stands in for the password
+ */
+export async function loginWithPhoneOtp(rawPhone: string, code: string) {
+  const phone = normalizePhone(rawPhone);
+  const otp = await verifyPhoneOtp(phone, 'login', code);
+
+  const user = await prisma.user.findUnique({
+    where: { id: otp.userId! },
+    include: { profile: true },
+  });
+  if (!user || user.phone !== phone) {
+    throw new UnauthorizedError('Invalid code', 'INVALID_OTP');
+  }
+
+  if (isAccountLockedOut(user.lockoutUntil)) {
+    const remainingTime = Math.ceil((user.lockoutUntil!.getTime() - Date.now()) / 60000);
+    throw new AppError(`Account locked. Please try again in ${remainingTime} minutes.`, 429, 'ACCOUNT_LOCKED');
+  }
+
+  return user;
+}
+
+/**
+ * Text a code to a phone number a signed-in user wants to add
+ */
+export async function requestPhoneLink(userId: string, rawPhone: string) {
+  const phone = normalizePhone(rawPhone);
+  const owner = await prisma.user.findUnique({ where: { phone }, select: { id: true } });
+  if (owner && owner.id !== userId) {
+    throw new ConflictError('This phone number is linked to another account', 'PHONE_IN_USE');
+  }
+
+  await issueOtp(phone, 'link', userId);
+  return { phone, expiresInMinutes: PHONE_OTP_TTL_MINUTES };
+}
+
+/**
+ * Add (or replace) a user's verified phone with the texted code
+ */
+export async function confirmPhoneLink(userId: string, rawPhone: string, code: string) {
+  const phone = normalizePhone(rawPhone);
+  await verifyPhoneOtp(phone, 'link', code, userId);
+
+  try {
+    return await prisma.user.update({
+      where: { id: userId },
+      data: { phone, phoneVerified: new Date() },
+      select: { id: true, phone: true, phoneVerified: true },
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError('This phone number is linked to another account', 'PHONE_IN_USE');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Add an email to an account registered by phone and send the usual
+ * verification link. Accounts that already have an email keep it.
+ */
+export async function linkEmail(userId: string, rawEmail: string) {
+  const email = rawEmail.trim().toLowerCase();
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+  if (user.email) {
+    throw new BadRequestError('Your account already has an email address', 'EMAIL_ALREADY_SET');
+  }
+
+  const emailVerificationToken = generateRandomToken();
+  try {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { email, emailVerificationToken, emailVerified: null },
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError('This email is linked to another account', 'EMAIL_IN_USE');
+    }
+    throw error;
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  await sendEmail(
+    await renderEmail('email_verification', email, { verificationToken: emailVerificationToken, appUrl }, { userId })
+  );
+
+  return { email };
+}
@@ -0,0 +1,258 @@
+/**
+ * Pricing Service
+ *
+ * Loads the flash sales, tiered prices, promotions and coupon that apply to a
+ * cart and runs them through the pricing engine in '@/lib/pricing'. The cart
+ * page, cart calculation API and order creation all quote through here so
+ * the total a customer sees is the total they are charged.
+ */
+
+import prisma from '@/lib/prisma';
+import type { Coupon, FlashSale, Promotion, TieredPricing } from '@prisma/client';
+import { BadRequestError } from '@/lib/errors';
+import { validateCoupon } from '@/lib/coupon';
+import {
+  priceCart,
+  resolveUnitPrice,
+  type CartPricingLine,
+  type CartPricingResult,
+  type CouponRule,
+  type FlashSaleRule,
+  type PriceAdjustment,
+  type PromotionRule,
+  type TieredPricingRule,
+} from '@/lib/pricing';
+
+export interface QuoteCartItem {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface QuoteCartInput {
+  items: QuoteCartItem[];
+  couponCode?: string | null;
+  userId?: string | null;
+  now?: Date;
+}
+
+export interface CartQuote extends CartPricingResult {
+  coupon: CouponRule | null;
+  /** Why the requested coupon was not applied */
+  couponError?: string;
+}
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+
+const toFlashSaleRule = (sale: FlashSale): FlashSaleRule => ({
+  id: sale.id,
+  name: sale.name,
+  productId: sale.productId,
+  flashPrice: Number(sale.flashPrice),
+  stockLimit: sale.stockLimit,
+  stockSold: sale.stockSold,
+  startsAt: sale.startsAt,
+  endsAt: sale.endsAt,
+  isActive: sale.isActive,
+});
+
+const toTierRule = (tier: TieredPricing): TieredPricingRule => ({
+  productId: tier.productId,
+  minQuantity: tier.minQuantity,
+  maxQuantity: tier.maxQuantity,
+  discountType: tier.discountType as 'percentage' | 'fixed_amount',
+  discountValue: Number(tier.discountValue),
+});
+
+const toPromotionRule = (promotion: Promotion): PromotionRule => ({
+  id: promotion.id,
+  name: promotion.name,
+  promotionType: promotion.promotionType,
+  discountType: promotion.discountType,
+  discountValue: Number(promotion.discountValue),
+  productIds: toStringArray(promotion.productIds),
+  categoryIds: toStringArray(promotion.categoryIds),
+  minimumQuantity: promotion.minimumQuantity,
+  minimumPurchase: promotion.minimumPurchase ? Number(promotion.minimumPurchase) : null,
+  buyQuantity: promotion.buyQuantity,
+  getQuantity: promotion.getQuantity,
+  priority: promotion.priority,
+  isExclusive: promotion.isExclusive,
+  startsAt: promotion.startsAt,
+  endsAt: promotion.endsAt,
+  isActive: promotion.isActive,
+});
+
+/**
+ * Price cart items with every discount that currently applies
+ */
+export async function quoteCart(input: QuoteCartInput): Promise<CartQuote> {
+  const now = input.now ?? new Date();
+  if (input.items.length === 0) {
+    throw new BadRequestError('Cart is empty', 'EMPTY_CART');
+  }
+
+  const productIds = Array.from(new Set(input.items.map((item) => item.productId)));
+  const variantIds = input.items.map((item) => item.variantId).filter((id): id is string => !!id);
+
+  const [products, variants, flashSales, tiers, promotions] = await Promise.all([
+    prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, name: true, price: true, salePrice: true, categoryId: true },
+    }),
+    variantIds.length > 0
+      ? prisma.productVariant.findMany({
+          where: { id: { in: variantIds } },
+          select: { id: true, productId: true, name: true, price: true, salePrice: true },
+        })
+      : [],
+    prisma.flashSale.findMany({
+      where: { productId: { in: productIds }, isActive: true, startsAt: { lte: now }, endsAt: { gte: now } },
+    }),
+    prisma.tieredPricing.findMany({
+      where: { productId: { in: productIds }, isActive: true },
+    }),
+    prisma.promotion.findMany({
+      where: { isActive: true, startsAt: { lte: now }, OR: [{ endsAt: null }, { endsAt: { gte: now } }] },
+      orderBy: { priority: 'desc' },
+    }),
+  ]);
+
+  const lines: CartPricingLine[] = input.items.map((item) => {
+    const product = products.find((candidate) => candidate.id === item.productId);
+    if (!product) {
+      throw new BadRequestError('Some products were not found', 'PRODUCT_NOT_FOUND', { productId: item.productId });
+    }
+    const variant = item.variantId ? variants.find((candidate) => candidate.id === item.variantId) : null;
+    if (item.variantId && (!variant || variant.productId !== product.id)) {
+      throw new BadRequestError('Some product variants were not found', 'VARIANT_NOT_FOUND', {
+        variantId: item.variantId,
+      });
+    }
+    return {
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      name: variant ? `${product.name} - ${variant.name}` : product.name,
+      categoryId: product.categoryId,
+      unitPrice: resolveUnitPrice(product, variant),
+      quantity: Math.max(1, Math.floor(item.quantity)),
+    };
+  });
+
+  const pricingInput = {
+    lines,
+    now,
+    flashSales: flashSales.map(toFlashSaleRule),
+    tiers: tiers.map(toTierRule),
+    promotions: promotions.map(toPromotionRule),
+  };
+
+  const withoutCoupon = priceCart(pricingInput);
+  if (!input.couponCode) {
+    return { ...withoutCoupon, coupon: null };
+  }
+
+  // Coupon minimums are checked against the cart after promotions
+  const validation = await validateCoupon(input.couponCode, input.userId ?? null, withoutCoupon.total);
+  if (!validation.valid || !validation.coupon) {
+    return { ...withoutCoupon, coupon: null, couponError: validation.error || 'Invalid coupon code' };
+  }
+
+  return { ...priceCart({ ...pricingInput, coupon: validation.coupon }), coupon: validation.coupon };
+}
+
+export interface RequoteOrderLine {
+  productId: string;
+  variantId?: string | null;
+  name: string;
+  /** List price the order was placed at */
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface RequoteOrderInput {
+  lines: RequoteOrderLine[];
+  /** When the order was placed; its promotions and flash sales are priced as of then */
+  pricedAt: Date;
+  promotionIds: string[];
+  couponId?: string | null;
+  /** Flash adjustments the order was charged, from its pricing breakdown */
+  flashAdjustments?: PriceAdjustment[];
+}
+
+const toCouponRule = (coupon: Coupon): CouponRule => ({
+  id: coupon.id,
+  code: coupon.code,
+  discountType: coupon.discountType,
+  discountValue: Number(coupon.discountValue),
+  maximumDiscount: coupon.maximumDiscount ? Number(coupon.maximumDiscount) : undefined,
+});
+
+/**
+ * Price an edited order at the prices it was placed at. Only the
+ * promotions, flash sales and coupon the order already had can apply: a
+ * promotion or coupon drops out when the edited order no longer meets its
+ * minimum, and flash prices cover at most the units originally sold at them.
+ * The coupon is not re-validated otherwise, as the order already holds its
+ * usage.
+ */
+export async function requoteOrder(input: RequoteOrderInput): Promise<CartQuote> {
+  if (input.lines.length === 0) {
+    throw new BadRequestError('Order has no items left', 'EMPTY_ORDER');
+  }
+
+  const productIds = Array.from(new Set(input.lines.map((line) => line.productId)));
+  const flashUnits = new Map(
+    (input.flashAdjustments || [])
+      .filter((adjustment) => adjustment.type === 'flash' && adjustment.sourceId)
+      .map((adjustment) => [adjustment.sourceId!, adjustment.quantity || 0])
+  );
+
+  const [products, flashSales, tiers, promotions, coupon] = await Promise.all([
+    prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, categoryId: true },
+    }),
+    flashUnits.size > 0 ? prisma.flashSale.findMany({ where: { id: { in: [...flashUnits.keys()] } } }) : [],
+    prisma.tieredPricing.findMany({
+      where: { productId: { in: productIds }, isActive: true },
+    }),
+    input.promotionIds.length > 0
+      ? prisma.promotion.findMany({ where: { id: { in: input.promotionIds } }, orderBy: { priority: 'desc' } })
+      : [],
+    input.couponId ? prisma.coupon.findUnique({ where: { id: input.couponId } }) : null,
+  ]);
+
+  const pricingInput = {
+    lines: input.lines.map((line) => ({
+      ...line,
+      categoryId: products.find((product) => product.id === line.productId)?.categoryId ?? null,
+    })),
+    now: input.pricedAt,
+    flashSales: flashSales.map((sale) => ({
+      ...toFlashSaleRule(sale),
+      stockLimit: flashUnits.get(sale.id) ?? 0,
+      stockSold: 0,
+      isActive: true,
+    })),
+    tiers: tiers.map(toTierRule),
+    promotions: promotions.map((promotion) => ({ ...toPromotionRule(promotion), isActive: true })),
+  };
+
+  const withoutCoupon = priceCart(pricingInput);
+  if (!coupon) {
+    return { ...withoutCoupon, coupon: null };
+  }
+
+  if (coupon.minimumPurchase && withoutCoupon.total < Number(coupon.minimumPurchase)) {
+    return {
+      ...withoutCoupon,
+      coupon: null,
+      couponError: `Minimum purchase of ${Number(coupon.minimumPurchase)} ETB required`,
+    };
+  }
+
+  const couponRule = toCouponRule(coupon);
+  return { ...priceCart({ ...pricingInput, coupon: couponRule }), coupon: couponRule };
+}
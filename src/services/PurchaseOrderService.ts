@@ -0,0 +1,406 @@
+/**
+ * Purchase Order Service
+ *
+ * Vendor restocking workflow built on the PurchaseOrder model:
+ * draft → pending_approval → approved → sent_to_supplier →
+ * partially_received → received (or cancelled before receipt completes).
+ *
+ * Receiving goods against a PO raises Product/ProductVariant stock and
+ * records an inventory movement for every line received.
+ */
+
+import prisma from '@/lib/prisma';
+import { POStatus, Prisma } from '@prisma/client';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/errors';
+import { applyStockMovement } from '@/services/InventoryService';
+
+export interface PurchaseOrderItem {
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  sku: string | null;
+  quantity: number;
+  unitPrice: number;
+  receivedQuantity: number;
+}
+
+export interface CreatePurchaseOrderInput {
+  supplierId?: string;
+  supplierName: string;
+  warehouseId?: string;
+  expectedDelivery: Date;
+  items: Array<{
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    unitPrice: number;
+  }>;
+  taxAmount?: number;
+  notes?: string;
+  autoGenerated?: boolean;
+  submitForApproval?: boolean;
+}
+
+export interface ReceiptLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface ListPurchaseOrdersOptions {
+  status?: POStatus;
+  page?: number;
+  perPage?: number;
+}
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Valid purchase order state transitions
+const PO_STATUS_TRANSITIONS: Record<POStatus, POStatus[]> = {
+  draft: ['pending_approval', 'approved', 'cancelled'],
+  pending_approval: ['approved', 'draft', 'cancelled'],
+  approved: ['sent_to_supplier', 'cancelled'],
+  sent_to_supplier: ['partially_received', 'received', 'cancelled'],
+  partially_received: ['partially_received', 'received', 'cancelled'],
+  received: [], // Terminal state
+  cancelled: [], // Terminal state
+};
+
+/**
+ * Check if a purchase order can move from one status to another
+ */
+export function canTransitionPurchaseOrder(from: POStatus, to: POStatus): boolean {
+  return PO_STATUS_TRANSITIONS[from].includes(to);
+}
+
+function assertTransition(from: POStatus, to: POStatus): void {
+  if (!canTransitionPurchaseOrder(from, to)) {
+    throw new BadRequestError(
+      `Cannot move purchase order from '${from}' to '${to}'`,
+      'INVALID_PO_TRANSITION'
+    );
+  }
+}
+
+/**
+ * Calculate PO totals from its items
+ */
+export function calculatePurchaseOrderTotals(
+  items: Array<{ quantity: number; unitPrice: number }>,
+  taxAmount: number = 0
+): { subtotal: number; taxAmount: number; totalAmount: number } {
+  const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+  const roundedSubtotal = Math.round(subtotal * 100) / 100;
+  const roundedTax = Math.round(taxAmount * 100) / 100;
+  return {
+    subtotal: roundedSubtotal,
+    taxAmount: roundedTax,
+    totalAmount: Math.round((roundedSubtotal + roundedTax) * 100) / 100,
+  };
+}
+
+/**
+ * Apply a goods receipt to PO items.
+ * Returns the updated items and whether every line is now fully received.
+ */
+export function applyReceipt(
+  items: PurchaseOrderItem[],
+  lines: ReceiptLine[]
+): { items: PurchaseOrderItem[]; fullyReceived: boolean } {
+  const updated = items.map((item) => ({ ...item }));
+
+  for (const line of lines) {
+    if (line.quantity <= 0) {
+      throw new BadRequestError('Received quantity must be positive');
+    }
+
+    const item = updated.find(
+      (i) => i.productId === line.productId && (i.variantId || null) === (line.variantId || null)
+    );
+    if (!item) {
+      throw new BadRequestError(`Product ${line.productId} is not on this purchase order`);
+    }
+
+    const outstanding = item.quantity - item.receivedQuantity;
+    if (line.quantity > outstanding) {
+      throw new BadRequestError(
+        `Cannot receive ${line.quantity} of ${item.productName}: only ${outstanding} outstanding`
+      );
+    }
+
+    item.receivedQuantity += line.quantity;
+  }
+
+  const fullyReceived = updated.every((item) => item.receivedQuantity >= item.quantity);
+  return { items: updated, fullyReceived };
+}
+
+/**
+ * Generate the next sequential PO number for the current year (e.g. PO-2026-001)
+ */
+export async function generatePoNumber(db: DbClient = prisma): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `PO-${year}-`;
+  const count = await db.purchaseOrder.count({
+    where: { poNumber: { startsWith: prefix } },
+  });
+  return `${prefix}${String(count + 1).padStart(3, '0')}`;
+}
+
+/**
+ * Create a purchase order for a vendor's own products
+ */
+export async function createPurchaseOrder(
+  vendorId: string,
+  input: CreatePurchaseOrderInput,
+  db: DbClient = prisma
+) {
+  if (input.items.length === 0) {
+    throw new BadRequestError('A purchase order needs at least one item');
+  }
+
+  const productIds = Array.from(new Set(input.items.map((i) => i.productId)));
+  const products = await db.product.findMany({
+    where: { id: { in: productIds }, vendor: { userId: vendorId } },
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      variants: { select: { id: true, name: true, sku: true } },
+    },
+  });
+
+  if (products.length !== productIds.length) {
+    throw new BadRequestError('Some products were not found or do not belong to you');
+  }
+
+  const items: PurchaseOrderItem[] = input.items.map((line) => {
+    const product = products.find((p) => p.id === line.productId)!;
+    let productName = product.name;
+    let sku = product.sku ?? null;
+
+    if (line.variantId) {
+      const variant = product.variants.find((v) => v.id === line.variantId);
+      if (!variant) {
+        throw new BadRequestError(`Variant ${line.variantId} does not belong to ${product.name}`);
+      }
+      productName = `${product.name} - ${variant.name}`;
+      sku = variant.sku ?? sku;
+    }
+
+    return {
+      productId: line.productId,
+      variantId: line.variantId ?? null,
+      productName,
+      sku,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      receivedQuantity: 0,
+    };
+  });
+
+  const totals = calculatePurchaseOrderTotals(items, input.taxAmount ?? 0);
+  const poNumber = await generatePoNumber(db);
+
+  return db.purchaseOrder.create({
+    data: {
+      poNumber,
+      vendorId,
+      supplierId: input.supplierId,
+      supplierName: input.supplierName,
+      warehouseId: input.warehouseId,
+      items: items as unknown as Prisma.InputJsonValue,
+      ...totals,
+      status: input.submitForApproval ? 'pending_approval' : 'draft',
+      expectedDelivery: input.expectedDelivery,
+      autoGenerated: input.autoGenerated ?? false,
+      notes: input.notes,
+    },
+  });
+}
+
+/**
+ * List a vendor's purchase orders. Pass vendorId = null to list all (admin).
+ */
+export async function listPurchaseOrders(
+  vendorId: string | null,
+  options: ListPurchaseOrdersOptions = {}
+) {
+  const page = Math.max(1, options.page ?? 1);
+  const perPage = Math.min(100, Math.max(1, options.perPage ?? 20));
+
+  const where: Prisma.PurchaseOrderWhereInput = {
+    ...(vendorId ? { vendorId } : {}),
+    ...(options.status ? { status: options.status } : {}),
+  };
+
+  const [purchaseOrders, total] = await Promise.all([
+    prisma.purchaseOrder.findMany({
+      where,
+      include: { warehouse: { select: { id: true, name: true, code: true } } },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+    prisma.purchaseOrder.count({ where }),
+  ]);
+
+  return {
+    purchaseOrders,
+    pagination: {
+      page,
+      perPage,
+      total,
+      totalPages: Math.ceil(total / perPage),
+    },
+  };
+}
+
+/**
+ * Get a single purchase order. Pass vendorId = null to skip the ownership check (admin).
+ */
+export async function getPurchaseOrder(vendorId: string | null, id: string) {
+  const purchaseOrder = await prisma.purchaseOrder.findFirst({
+    where: { id, ...(vendorId ? { vendorId } : {}) },
+    include: { warehouse: { select: { id: true, name: true, code: true } } },
+  });
+
+  if (!purchaseOrder) {
+    throw new NotFoundError('Purchase order not found');
+  }
+
+  return purchaseOrder;
+}
+
+/**
+ * Submit a draft purchase order for approval
+ */
+export async function submitPurchaseOrder(vendorId: string | null, id: string) {
+  const po = await getPurchaseOrder(vendorId, id);
+  assertTransition(po.status, 'pending_approval');
+
+  return prisma.purchaseOrder.update({
+    where: { id: po.id },
+    data: { status: 'pending_approval' },
+  });
+}
+
+/**
+ * Approve a purchase order
+ */
+export async function approvePurchaseOrder(
+  vendorId: string | null,
+  id: string,
+  approvedBy: string
+) {
+  const po = await getPurchaseOrder(vendorId, id);
+  assertTransition(po.status, 'approved');
+
+  return prisma.purchaseOrder.update({
+    where: { id: po.id },
+    data: { status: 'approved', approvedBy, approvedAt: new Date() },
+  });
+}
+
+/**
+ * Mark an approved purchase order as sent to the supplier
+ */
+export async function sendPurchaseOrder(vendorId: string | null, id: string) {
+  const po = await getPurchaseOrder(vendorId, id);
+  assertTransition(po.status, 'sent_to_supplier');
+
+  return prisma.purchaseOrder.update({
+    where: { id: po.id },
+    data: { status: 'sent_to_supplier', sentAt: new Date() },
+  });
+}
+
+/**
+ * Cancel a purchase order. Stock already received stays on hand.
+ */
+export async function cancelPurchaseOrder(
+  vendorId: string | null,
+  id: string,
+  reason?: string
+) {
+  const po = await getPurchaseOrder(vendorId, id);
+  assertTransition(po.status, 'cancelled');
+
+  return prisma.purchaseOrder.update({
+    where: { id: po.id },
+    data: {
+      status: 'cancelled',
+      cancelledAt: new Date(),
+      cancellationReason: reason,
+    },
+  });
+}
+
+/**
+ * Receive goods against a purchase order (full or partial).
+ * Raises stock for each line and logs a purchase_receipt inventory movement.
+ */
+export async function receivePurchaseOrder(
+  vendorId: string | null,
+  id: string,
+  lines: ReceiptLine[],
+  receivedBy: string,
+  note?: string
+) {
+  if (lines.length === 0) {
+    throw new BadRequestError('At least one received line is required');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const po = await tx.purchaseOrder.findFirst({
+      where: { id, ...(vendorId ? { vendorId } : {}) },
+    });
+
+    if (!po) {
+      throw new NotFoundError('Purchase order not found');
+    }
+
+    if (po.status !== 'sent_to_supplier' && po.status !== 'partially_received') {
+      throw new BadRequestError(
+        `Goods can only be received on a purchase order sent to the supplier (current status: '${po.status}')`,
+        'INVALID_PO_TRANSITION'
+      );
+    }
+
+    const { items, fullyReceived } = applyReceipt(
+      po.items as unknown as PurchaseOrderItem[],
+      lines
+    );
+    const nextStatus: POStatus = fullyReceived ? 'received' : 'partially_received';
+
+    // Guard against concurrent receipts of the same PO
+    const updated = await tx.purchaseOrder.updateMany({
+      where: { id: po.id, updatedAt: po.updatedAt },
+      data: {
+        items: items as unknown as Prisma.InputJsonValue,
+        status: nextStatus,
+        actualDelivery: fullyReceived ? new Date() : undefined,
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new ConflictError('Purchase order was modified concurrently, please retry');
+    }
+
+    for (const line of lines) {
+      await applyStockMovement(tx, {
+        productId: line.productId,
+        variantId: line.variantId,
+        warehouseId: po.warehouseId,
+        quantity: line.quantity,
+        type: 'purchase_receipt',
+        referenceType: 'purchase_order',
+        referenceId: po.id,
+        note: note ?? `Received against ${po.poNumber}`,
+        createdBy: receivedBy,
+      });
+    }
+
+    return tx.purchaseOrder.findUnique({ where: { id: po.id } });
+  });
+}
@@ -0,0 +1,498 @@
+/**
+ * Payment Reconciliation Service
+ *
+ * Imports provider settlement files (TeleBirr, CBE Birr and bank statement
+ * CSVs) and checks them against what we marked paid. Each settlement line is
+ * matched to an order by provider reference, then by order number, and every
+ * disagreement becomes a ReconciliationException for finance to work through:
+ * money settled with no order, paid orders the provider never settled,
+ * amount deltas, duplicate settlements and settlements for unpaid orders.
+ */
+
+import prisma from '@/lib/prisma';
+import {
+  Prisma,
+  ReconciliationExceptionStatus,
+  ReconciliationExceptionType,
+  SettlementMatchStatus,
+} from '@prisma/client';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/errors';
+import { getPaymentProvider, type PaymentProviderId } from '@/lib/payment-providers';
+import { parseSettlementFile, type SettlementFileFormat } from '@/lib/settlement-file';
+
+/** Largest difference (ETB) treated as rounding rather than an amount mismatch */
+export const AMOUNT_TOLERANCE = 0.01;
+
+// Orders the provider should have settled; refunded orders were still paid first
+const PAID_STATUSES = ['completed', 'refunded'];
+
+export interface ImportSettlementInput {
+  provider: PaymentProviderId;
+  format: SettlementFileFormat;
+  fileName: string;
+  content: string;
+  periodStart?: Date;
+  periodEnd?: Date;
+}
+
+export interface ReconciliationSummary {
+  fileId: string;
+  lineCount: number;
+  matched: number;
+  exceptions: Partial<Record<ReconciliationExceptionType, number>>;
+  /** Open exceptions in earlier files closed because this file settled the order */
+  autoResolved: number;
+}
+
+export interface ExceptionFilters {
+  status?: ReconciliationExceptionStatus;
+  type?: ReconciliationExceptionType;
+  provider?: string;
+  fileId?: string;
+  search?: string;
+  page?: number;
+  perPage?: number;
+}
+
+export interface ResolveExceptionInput {
+  status: Exclude<ReconciliationExceptionStatus, 'open'>;
+  note?: string;
+}
+
+interface CandidateOrder {
+  id: string;
+  orderNumber: string;
+  paymentReference: string | null;
+  paymentStatus: string;
+  totalAmount: Prisma.Decimal | number;
+}
+
+interface NewException {
+  type: ReconciliationExceptionType;
+  lineId?: string;
+  orderId?: string;
+  reference?: string;
+  expectedAmount?: number;
+  settledAmount?: number;
+  delta?: number;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const exceptionKey = (e: { type: string; lineId?: string | null; orderId?: string | null }) =>
+  `${e.type}:${e.lineId ?? ''}:${e.orderId ?? ''}`;
+
+/**
+ * Parse and store a settlement file, then reconcile it
+ */
+export async function importSettlementFile(
+  input: ImportSettlementInput,
+  uploadedById: string,
+  now: Date = new Date()
+) {
+  const parsed = parseSettlementFile(input.content, input.format);
+  if (parsed.lines.length === 0) {
+    throw new BadRequestError('Settlement file has no usable lines', 'INVALID_SETTLEMENT_FILE', {
+      errors: parsed.errors.slice(0, 50),
+      skipped: parsed.skipped,
+    });
+  }
+
+  // Default the period to the settlement dates in the file
+  const dates = parsed.lines.map((line) => line.settledAt?.getTime()).filter((t): t is number => t !== undefined);
+  const periodStart = input.periodStart ?? (dates.length ? new Date(Math.min(...dates)) : now);
+  const periodEnd = input.periodEnd ?? (dates.length ? new Date(Math.max(...dates)) : now);
+  if (periodEnd < periodStart) {
+    throw new BadRequestError('Settlement period ends before it starts');
+  }
+
+  const totalAmount = roundAmount(parsed.lines.reduce((sum, line) => sum + line.amount, 0));
+
+  const file = await prisma.settlementFile.create({
+    data: {
+      provider: input.provider,
+      format: input.format,
+      fileName: input.fileName,
+      uploadedById,
+      periodStart,
+      periodEnd,
+      lineCount: parsed.lines.length,
+      totalAmount,
+      lines: {
+        createMany: {
+          data: parsed.lines.map((line) => ({
+            lineNumber: line.lineNumber,
+            reference: line.reference,
+            orderNumber: line.orderNumber,
+            amount: line.amount,
+            currency: line.currency,
+            settledAt: line.settledAt,
+            raw: line.raw,
+          })),
+        },
+      },
+    },
+  });
+
+  const summary = await reconcileSettlementFile(file.id, now);
+
+  return {
+    file,
+    summary,
+    parseErrors: parsed.errors,
+    skipped: parsed.skipped,
+  };
+}
+
+/**
+ * Match a file's lines to orders and (re)build its open exceptions.
+ * Exceptions already resolved or ignored are kept and not raised again.
+ */
+export async function reconcileSettlementFile(
+  fileId: string,
+  now: Date = new Date()
+): Promise<ReconciliationSummary> {
+  const file = await prisma.settlementFile.findUnique({
+    where: { id: fileId },
+    include: {
+      lines: { orderBy: { lineNumber: 'asc' } },
+      exceptions: { where: { status: { not: 'open' } }, select: { type: true, lineId: true, orderId: true } },
+    },
+  });
+  if (!file) {
+    throw new NotFoundError('Settlement file not found');
+  }
+
+  const references = file.lines.map((line) => line.reference);
+  const orderNumbers = [
+    ...references,
+    ...file.lines.map((line) => line.orderNumber).filter((n): n is string => !!n),
+  ];
+
+  const orders: CandidateOrder[] = await prisma.order.findMany({
+    where: {
+      OR: [{ paymentReference: { in: references } }, { orderNumber: { in: orderNumbers } }],
+    },
+    select: { id: true, orderNumber: true, paymentReference: true, paymentStatus: true, totalAmount: true },
+  });
+  const byReference = new Map<string, CandidateOrder>();
+  const byOrderNumber = new Map<string, CandidateOrder>();
+  for (const order of orders) {
+    if (order.paymentReference) byReference.set(order.paymentReference, order);
+    byOrderNumber.set(order.orderNumber, order);
+  }
+
+  const settledElsewhere = await settledOrderIds(
+    orders.map((order) => order.id),
+    fileId
+  );
+
+  const seen = new Set<string>();
+  const lineUpdates: Array<{ id: string; orderId: string | null; matchStatus: SettlementMatchStatus }> = [];
+  const exceptions: NewException[] = [];
+  const matchedOrderIds: string[] = [];
+
+  for (const line of file.lines) {
+    const settled = Number(line.amount);
+    const order =
+      byReference.get(line.reference) ??
+      (line.orderNumber ? byOrderNumber.get(line.orderNumber) : undefined) ??
+      byOrderNumber.get(line.reference);
+
+    if (!order) {
+      lineUpdates.push({ id: line.id, orderId: null, matchStatus: 'unmatched' });
+      exceptions.push({
+        type: 'unmatched_settlement',
+        lineId: line.id,
+        reference: line.reference,
+        settledAmount: settled,
+      });
+      continue;
+    }
+
+    const expected = Number(order.totalAmount);
+    const base = {
+      lineId: line.id,
+      orderId: order.id,
+      reference: line.reference,
+      expectedAmount: expected,
+      settledAmount: settled,
+      delta: roundAmount(settled - expected),
+    };
+
+    if (seen.has(order.id) || settledElsewhere.has(order.id)) {
+      lineUpdates.push({ id: line.id, orderId: order.id, matchStatus: 'duplicate' });
+      exceptions.push({ type: 'duplicate_settlement', ...base });
+    } else if (!PAID_STATUSES.includes(order.paymentStatus)) {
+      lineUpdates.push({ id: line.id, orderId: order.id, matchStatus: 'unpaid_order' });
+      exceptions.push({ type: 'unpaid_order_settled', ...base });
+    } else if (Math.abs(settled - expected) > AMOUNT_TOLERANCE) {
+      lineUpdates.push({ id: line.id, orderId: order.id, matchStatus: 'amount_mismatch' });
+      exceptions.push({ type: 'amount_mismatch', ...base });
+      matchedOrderIds.push(order.id);
+    } else {
+      lineUpdates.push({ id: line.id, orderId: order.id, matchStatus: 'matched' });
+      matchedOrderIds.push(order.id);
+    }
+    seen.add(order.id);
+  }
+
+  exceptions.push(...(await findUnsettledOrders(file, seen)));
+
+  // Don't re-raise what finance already resolved or ignored for this file
+  const closed = new Set(file.exceptions.map(exceptionKey));
+  const raised = exceptions.filter((exception) => !closed.has(exceptionKey(exception)));
+
+  const matched = lineUpdates.filter((update) => update.matchStatus === 'matched').length;
+
+  const results = await prisma.$transaction([
+    prisma.reconciliationException.deleteMany({ where: { fileId, status: 'open' } }),
+    prisma.reconciliationException.createMany({
+      data: raised.map((exception) => ({ ...exception, fileId })),
+    }),
+    // Orders flagged as unsettled by an earlier file have now been settled
+    prisma.reconciliationException.updateMany({
+      where: {
+        type: 'unsettled_order',
+        status: 'open',
+        orderId: { in: matchedOrderIds },
+        fileId: { not: fileId },
+      },
+      data: {
+        status: 'resolved',
+        resolvedAt: now,
+        resolutionNote: `Settled in ${file.fileName}`,
+      },
+    }),
+    prisma.settlementFile.update({
+      where: { id: fileId },
+      data: {
+        matchedCount: matched,
+        exceptionCount: raised.length,
+        status: 'reconciled',
+        reconciledAt: now,
+      },
+    }),
+    ...lineUpdates.map((update) =>
+      prisma.settlementLine.update({
+        where: { id: update.id },
+        data: { orderId: update.orderId, matchStatus: update.matchStatus },
+      })
+    ),
+  ]);
+  const autoResolved = results[2] as Prisma.BatchPayload;
+
+  const counts: Partial<Record<ReconciliationExceptionType, number>> = {};
+  for (const exception of raised) {
+    counts[exception.type] = (counts[exception.type] || 0) + 1;
+  }
+
+  return {
+    fileId,
+    lineCount: file.lines.length,
+    matched,
+    exceptions: counts,
+    autoResolved: autoResolved.count,
+  };
+}
+
+/**
+ * Orders already settled by another file
+ */
+async function settledOrderIds(orderIds: string[], excludeFileId: string): Promise<Set<string>> {
+  if (orderIds.length === 0) return new Set<string>();
+  const lines = await prisma.settlementLine.findMany({
+    where: {
+      orderId: { in: orderIds },
+      fileId: { not: excludeFileId },
+      matchStatus: { in: ['matched', 'amount_mismatch'] },
+    },
+    select: { orderId: true },
+  });
+  return new Set<string>(lines.map((line) => line.orderId!));
+}
+
+/**
+ * Orders paid through the file's provider during its period that no
+ * settlement line (in this file or any other) accounts for
+ */
+async function findUnsettledOrders(
+  file: { id: string; provider: string; periodStart: Date; periodEnd: Date },
+  settledHere: Set<string>
+): Promise<NewException[]> {
+  const paid = await prisma.order.findMany({
+    where: {
+      paymentStatus: { in: PAID_STATUSES as any },
+      paidAt: { gte: file.periodStart, lte: file.periodEnd },
+      paymentMethod: { not: null },
+    },
+    select: { id: true, orderNumber: true, paymentMethod: true, paymentReference: true, totalAmount: true },
+  });
+
+  const candidates = paid.filter(
+    (order) => !settledHere.has(order.id) && getPaymentProvider(order.paymentMethod)?.id === file.provider
+  );
+  if (candidates.length === 0) return [];
+
+  const candidateIds = candidates.map((order) => order.id);
+  const settledElsewhere = await settledOrderIds(candidateIds, file.id);
+
+  // Overlapping files shouldn't flag the same order twice
+  const flagged = await prisma.reconciliationException.findMany({
+    where: { type: 'unsettled_order', orderId: { in: candidateIds }, fileId: { not: file.id } },
+    select: { orderId: true },
+  });
+  const flaggedIds = new Set<string>(flagged.map((exception) => exception.orderId!));
+
+  return candidates
+    .filter((order) => !settledElsewhere.has(order.id) && !flaggedIds.has(order.id))
+    .map((order) => ({
+      type: 'unsettled_order' as const,
+      orderId: order.id,
+      reference: order.paymentReference || order.orderNumber,
+      expectedAmount: Number(order.totalAmount),
+    }));
+}
+
+/**
+ * Uploaded settlement files, newest first
+ */
+export async function listSettlementFiles(options: { provider?: string; page?: number; perPage?: number } = {}) {
+  const page = Math.max(1, options.page || 1);
+  const perPage = Math.min(100, Math.max(1, options.perPage || 25));
+  const where: Prisma.SettlementFileWhereInput = options.provider ? { provider: options.provider } : {};
+
+  const [files, total] = await Promise.all([
+    prisma.settlementFile.findMany({
+      where,
+      include: { uploadedBy: { select: { id: true, email: true } } },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+    prisma.settlementFile.count({ where }),
+  ]);
+
+  return {
+    files,
+    pagination: { page, perPage, total, totalPages: Math.ceil(total / perPage) },
+  };
+}
+
+/**
+ * Settlement file with its lines and exceptions
+ */
+export async function getSettlementFile(id: string) {
+  const file = await prisma.settlementFile.findUnique({
+    where: { id },
+    include: {
+      uploadedBy: { select: { id: true, email: true } },
+      lines: {
+        orderBy: { lineNumber: 'asc' },
+        include: { order: { select: { id: true, orderNumber: true, paymentStatus: true, totalAmount: true } } },
+      },
+      exceptions: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+  if (!file) {
+    throw new NotFoundError('Settlement file not found');
+  }
+  return file;
+}
+
+/**
+ * Exception report for finance, open exceptions by default
+ */
+export async function listReconciliationExceptions(filters: ExceptionFilters = {}) {
+  const page = Math.max(1, filters.page || 1);
+  const perPage = Math.min(500, Math.max(1, filters.perPage || 50));
+
+  const where: Prisma.ReconciliationExceptionWhereInput = {
+    status: filters.status || 'open',
+  };
+  if (filters.type) where.type = filters.type;
+  if (filters.fileId) where.fileId = filters.fileId;
+  if (filters.provider) where.file = { provider: filters.provider };
+  if (filters.search) {
+    where.OR = [
+      { reference: { contains: filters.search, mode: 'insensitive' } },
+      { order: { orderNumber: { contains: filters.search, mode: 'insensitive' } } },
+    ];
+  }
+
+  const [exceptions, total, byType] = await Promise.all([
+    prisma.reconciliationException.findMany({
+      where,
+      include: {
+        file: { select: { id: true, fileName: true, provider: true } },
+        order: { select: { id: true, orderNumber: true, paymentMethod: true, paymentStatus: true } },
+        resolvedBy: { select: { id: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+    prisma.reconciliationException.count({ where }),
+    prisma.reconciliationException.groupBy({
+      by: ['type'],
+      where,
+      _count: { _all: true },
+      _sum: { delta: true },
+    }),
+  ]);
+
+  return {
+    exceptions,
+    summary: byType.map((group) => ({
+      type: group.type,
+      count: group._count._all,
+      delta: Number(group._sum.delta ?? 0),
+    })),
+    pagination: { page, perPage, total, totalPages: Math.ceil(total / perPage) },
+  };
+}
+
+/**
+ * Flat rows for the CSV exception report
+ */
+export function toExceptionReportRows(
+  exceptions: Awaited<ReturnType<typeof listReconciliationExceptions>>['exceptions']
+) {
+  return exceptions.map((exception) => ({
+    type: exception.type,
+    status: exception.status,
+    provider: exception.file.provider,
+    file: exception.file.fileName,
+    reference: exception.reference ?? '',
+    orderNumber: exception.order?.orderNumber ?? '',
+    expectedAmount: exception.expectedAmount?.toString() ?? '',
+    settledAmount: exception.settledAmount?.toString() ?? '',
+    delta: exception.delta?.toString() ?? '',
+    createdAt: exception.createdAt.toISOString(),
+    resolvedBy: exception.resolvedBy?.email ?? '',
+    resolutionNote: exception.resolutionNote ?? '',
+  }));
+}
+
+/**
+ * Close an exception after finance has dealt with it
+ */
+export async function resolveReconciliationException(id: string, adminId: string, input: ResolveExceptionInput) {
+  const exception = await prisma.reconciliationException.findUnique({ where: { id } });
+  if (!exception) {
+    throw new NotFoundError('Reconciliation exception not found');
+  }
+  if (exception.status !== 'open') {
+    throw new ConflictError(`Exception is already ${exception.status}`);
+  }
+
+  return prisma.reconciliationException.update({
+    where: { id },
+    data: {
+      status: input.status,
+      resolvedById: adminId,
+      resolvedAt: new Date(),
+      resolutionNote: input.note,
+    },
+  });
+}
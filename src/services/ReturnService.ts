@@ -0,0 +1,650 @@
+/**
+ * Return Service
+ *
+ * Returns (RMA) of delivered items, one request per vendor order:
+ * requested → approved → in_transit → received → refunded (or
+ * inspection_failed), with rejected and cancelled ending a request early.
+ *
+ * Buyers ask within the vendor's return window; the vendor approves with
+ * drop-off or pickup instructions, receives and inspects the items. Items fit
+ * to sell again are restocked as inventory movements, the refund goes through
+ * initiateRefund and the vendor's commission on the refunded share is reversed
+ * in the CommissionLedger. Every step is an order timeline event.
+ */
+
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
+import type { Prisma, ReturnReason, ReturnStatus } from '@prisma/client';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/errors';
+import { initiateRefund, processRefund } from '@/lib/refund';
+import { applyStockMovement } from '@/services/InventoryService';
+import type { PricedCartLine } from '@/lib/pricing';
+
+export interface ReturnPolicyInput {
+  returnsAccepted?: boolean;
+  returnWindowDays?: number;
+  returnInstructions?: string | null;
+}
+
+export interface CreateReturnInput {
+  orderId: string;
+  items: Array<{ orderItemId: string; quantity: number }>;
+  reason: ReturnReason;
+  comment?: string;
+  evidenceUrls?: string[];
+}
+
+export interface ApproveReturnInput {
+  returnMethod: 'drop_off' | 'courier_pickup';
+  returnInstructions?: string;
+  returnLabelUrl?: string;
+}
+
+export interface InspectReturnInput {
+  items: Array<{ returnItemId: string; restockQuantity: number; condition?: string }>;
+  /** Defaults to what was paid for the returned items; lower it to deduct for damage, 0 fails the inspection */
+  refundAmount?: number;
+  notes?: string;
+}
+
+export interface ListReturnsOptions {
+  status?: ReturnStatus;
+  orderId?: string;
+  page?: number;
+  perPage?: number;
+}
+
+// Valid return request state transitions
+const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected', 'cancelled'],
+  approved: ['in_transit', 'received', 'cancelled'],
+  in_transit: ['received'],
+  received: ['refunded', 'inspection_failed'],
+  rejected: [], // Terminal state
+  cancelled: [], // Terminal state
+  refunded: [], // Terminal state
+  inspection_failed: [], // Terminal state
+};
+
+// Requests that no longer hold their items back from another return
+const CLOSED_WITHOUT_RETURN: ReturnStatus[] = ['rejected', 'cancelled'];
+
+const RETURN_INCLUDE = {
+  items: {
+    include: {
+      orderItem: {
+        select: { id: true, productId: true, variantId: true, productName: true, quantity: true, price: true },
+      },
+    },
+  },
+  order: { select: { id: true, orderNumber: true, deliveredAt: true } },
+  vendorOrder: { select: { id: true, number: true } },
+  vendor: { select: { id: true, displayName: true } },
+} as const;
+
+/**
+ * Check if a return request can move from one status to another
+ */
+export function canTransitionReturn(from: ReturnStatus, to: ReturnStatus): boolean {
+  return RETURN_STATUS_TRANSITIONS[from].includes(to);
+}
+
+function assertTransition(from: ReturnStatus, to: ReturnStatus): void {
+  if (!canTransitionReturn(from, to)) {
+    throw new BadRequestError(`Cannot move return from '${from}' to '${to}'`, 'INVALID_RETURN_TRANSITION');
+  }
+}
+
+/**
+ * Last moment a delivered item can be asked back
+ */
+export function getReturnDeadline(deliveredAt: Date, windowDays: number): Date {
+  return new Date(deliveredAt.getTime() + windowDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Split a refund over the returned lines in proportion to their value; the
+ * last line takes the rounding remainder so the shares add up to the refund
+ */
+export function allocateRefund(lineValues: number[], refundAmount: number): number[] {
+  const total = lineValues.reduce((sum, value) => sum + value, 0);
+  if (total <= 0) return lineValues.map(() => 0);
+
+  let allocated = 0;
+  return lineValues.map((value, index) => {
+    if (index === lineValues.length - 1) {
+      return Math.round((refundAmount - allocated) * 100) / 100;
+    }
+    const share = Math.round(((value / total) * refundAmount) * 100) / 100;
+    allocated += share;
+    return share;
+  });
+}
+
+/**
+ * What the buyer paid for one unit of an order item: its priced line total
+ * (after promotions and the coupon) per unit, never more than the list price.
+ * Orders priced before lines were stored fall back to the list price.
+ */
+function paidUnitPrice(
+  lines: Array<Pick<PricedCartLine, 'productId' | 'variantId' | 'quantity' | 'total'>>,
+  orderItem: { productId: string | null; variantId: string | null; price: Prisma.Decimal | string | number }
+): number {
+  const listPrice = Number(orderItem.price);
+  const line = lines.find(
+    (candidate) => candidate.productId === orderItem.productId && (candidate.variantId ?? null) === orderItem.variantId
+  );
+  if (!line || line.quantity <= 0) return listPrice;
+  return Math.min(listPrice, line.total / line.quantity);
+}
+
+async function recordReturnEvent(
+  tx: Prisma.TransactionClient,
+  returnRequest: { id: string; number: string; orderId: string; vendorOrderId: string | null },
+  eventType: string,
+  description: string,
+  metadata: Record<string, unknown> = {}
+) {
+  await tx.orderEvent.create({
+    data: {
+      orderId: returnRequest.orderId,
+      vendorOrderId: returnRequest.vendorOrderId,
+      eventType,
+      description,
+      metadata: { returnId: returnRequest.id, returnNumber: returnRequest.number, ...metadata },
+    },
+  });
+}
+
+async function findReturn(where: Prisma.ReturnRequestWhereInput) {
+  const returnRequest = await prisma.returnRequest.findFirst({
+    where,
+    include: RETURN_INCLUDE,
+  });
+  if (!returnRequest) {
+    throw new NotFoundError('Return request not found');
+  }
+  return returnRequest;
+}
+
+/**
+ * A vendor's return policy
+ */
+export async function getReturnPolicy(vendorId: string) {
+  const vendor = await prisma.profile.findUnique({
+    where: { id: vendorId },
+    select: { returnsAccepted: true, returnWindowDays: true, returnInstructions: true },
+  });
+  if (!vendor) {
+    throw new NotFoundError('Vendor not found');
+  }
+  return vendor;
+}
+
+export async function updateReturnPolicy(vendorId: string, input: ReturnPolicyInput) {
+  return prisma.profile.update({
+    where: { id: vendorId },
+    data: input,
+    select: { returnsAccepted: true, returnWindowDays: true, returnInstructions: true },
+  });
+}
+
+/**
+ * RMA-YYYYMMDD-XXXXXX
+ */
+export function generateReturnNumber(now: Date = new Date()): string {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+  const suffix = crypto.randomBytes(4).readUInt32BE(0).toString(36).toUpperCase().padStart(6, '0').slice(-6);
+  return `RMA-${date}-${suffix}`;
+}
+
+/**
+ * Ask to return delivered items of one vendor, within that vendor's window
+ */
+export async function createReturnRequest(userId: string, input: CreateReturnInput) {
+  const order = await prisma.order.findFirst({
+    where: { id: input.orderId, userId },
+    select: {
+      id: true,
+      deliveredAt: true,
+      orderItems: { select: { id: true, vendorId: true, vendorOrderId: true, quantity: true, productName: true } },
+      vendorOrders: { select: { id: true, vendorId: true, deliveredAt: true } },
+    },
+  });
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+
+  const lines = input.items.map((line) => {
+    const orderItem = order.orderItems.find((item) => item.id === line.orderItemId);
+    if (!orderItem) {
+      throw new BadRequestError('Item is not part of this order', 'RETURN_ITEM_NOT_IN_ORDER', {
+        orderItemId: line.orderItemId,
+      });
+    }
+    return { ...line, orderItem };
+  });
+
+  const vendorIds = new Set(lines.map((line) => line.orderItem.vendorId));
+  if (vendorIds.size > 1) {
+    throw new BadRequestError(
+      'Items from different vendors need separate return requests',
+      'RETURN_MIXED_VENDORS'
+    );
+  }
+  const [vendorId] = Array.from(vendorIds);
+  const vendorOrder = order.vendorOrders.find((candidate) => candidate.vendorId === vendorId) ?? null;
+
+  const deliveredAt = vendorOrder?.deliveredAt ?? order.deliveredAt;
+  if (!deliveredAt) {
+    throw new BadRequestError('Only delivered items can be returned', 'RETURN_NOT_DELIVERED');
+  }
+
+  const policy = await getReturnPolicy(vendorId);
+  if (!policy.returnsAccepted) {
+    throw new BadRequestError('This seller does not accept returns', 'RETURNS_NOT_ACCEPTED');
+  }
+  const deadline = getReturnDeadline(deliveredAt, policy.returnWindowDays);
+  if (Date.now() > deadline.getTime()) {
+    throw new BadRequestError(
+      `The ${policy.returnWindowDays}-day return window has closed`,
+      'RETURN_WINDOW_CLOSED',
+      { deadline }
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Touching the order locks it until commit, so two requests for the same
+    // items count each other's units instead of both passing the check
+    await tx.order.update({ where: { id: order.id }, data: { updatedAt: new Date() } });
+
+    const alreadyReturned = await tx.returnItem.findMany({
+      where: {
+        orderItemId: { in: lines.map((line) => line.orderItemId) },
+        returnRequest: { status: { notIn: CLOSED_WITHOUT_RETURN } },
+      },
+      select: { orderItemId: true, quantity: true },
+    });
+    for (const line of lines) {
+      const returned = alreadyReturned
+        .filter((item) => item.orderItemId === line.orderItemId)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      const returnable = line.orderItem.quantity - returned;
+      if (line.quantity > returnable) {
+        throw new BadRequestError(
+          `Only ${returnable} of ${line.orderItem.productName} can be returned`,
+          'RETURN_QUANTITY_EXCEEDED',
+          { orderItemId: line.orderItemId, returnable }
+        );
+      }
+    }
+
+    const returnRequest = await tx.returnRequest.create({
+      data: {
+        number: generateReturnNumber(),
+        orderId: order.id,
+        vendorOrderId: vendorOrder?.id ?? null,
+        vendorId,
+        userId,
+        reason: input.reason,
+        comment: input.comment,
+        evidenceUrls: input.evidenceUrls ?? [],
+        items: {
+          create: lines.map((line) => ({ orderItemId: line.orderItemId, quantity: line.quantity })),
+        },
+      },
+      include: { items: true },
+    });
+    await recordReturnEvent(tx, returnRequest, 'return_requested', `Return ${returnRequest.number} requested`, {
+      reason: input.reason,
+      items: lines.map((line) => ({ orderItemId: line.orderItemId, quantity: line.quantity })),
+    });
+    return returnRequest;
+  });
+}
+
+async function listReturns(where: Prisma.ReturnRequestWhereInput, options: ListReturnsOptions) {
+  const page = Math.max(1, options.page || 1);
+  const perPage = Math.min(100, Math.max(1, options.perPage || 20));
+  const filter = {
+    ...where,
+    ...(options.status && { status: options.status }),
+    ...(options.orderId && { orderId: options.orderId }),
+  };
+
+  const [returns, total] = await Promise.all([
+    prisma.returnRequest.findMany({
+      where: filter,
+      include: RETURN_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+    prisma.returnRequest.count({ where: filter }),
+  ]);
+
+  return {
+    returns,
+    pagination: { page, perPage, total, totalPages: Math.ceil(total / perPage) },
+  };
+}
+
+export async function listCustomerReturns(userId: string, options: ListReturnsOptions = {}) {
+  return listReturns({ userId }, options);
+}
+
+export async function listVendorReturns(vendorId: string, options: ListReturnsOptions = {}) {
+  return listReturns({ vendorId }, options);
+}
+
+export async function getCustomerReturn(userId: string, returnId: string) {
+  return findReturn({ id: returnId, userId });
+}
+
+export async function getVendorReturn(vendorId: string, returnId: string) {
+  return findReturn({ id: returnId, vendorId });
+}
+
+/**
+ * Move a return request to a new status and put it on the order timeline
+ */
+async function transitionReturn(
+  returnRequest: { id: string; number: string; orderId: string; vendorOrderId: string | null; status: ReturnStatus },
+  status: ReturnStatus,
+  data: Prisma.ReturnRequestUpdateInput,
+  description: string,
+  metadata: Record<string, unknown> = {}
+) {
+  assertTransition(returnRequest.status, status);
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.returnRequest.update({
+      where: { id: returnRequest.id },
+      data: { ...data, status },
+      include: RETURN_INCLUDE,
+    });
+    await recordReturnEvent(tx, returnRequest, `return_${status}`, description, metadata);
+    return updated;
+  });
+}
+
+export async function cancelReturnRequest(userId: string, returnId: string) {
+  const returnRequest = await findReturn({ id: returnId, userId });
+  return transitionReturn(
+    returnRequest,
+    'cancelled',
+    { cancelledAt: new Date() },
+    `Return ${returnRequest.number} cancelled by the buyer`
+  );
+}
+
+/**
+ * The buyer has dropped the items off or handed them to a courier
+ */
+export async function markReturnShipped(
+  userId: string,
+  returnId: string,
+  input: { carrier?: string; trackingId?: string } = {}
+) {
+  const returnRequest = await findReturn({ id: returnId, userId });
+  return transitionReturn(
+    returnRequest,
+    'in_transit',
+    { shippedAt: new Date(), returnCarrier: input.carrier, returnTrackingId: input.trackingId },
+    `Return ${returnRequest.number} sent back by the buyer`,
+    { carrier: input.carrier, trackingId: input.trackingId }
+  );
+}
+
+/**
+ * Approve a return, telling the buyer how to send the items back. Without
+ * instructions of its own the vendor's return policy instructions are used.
+ */
+export async function approveReturnRequest(
+  vendorId: string,
+  returnId: string,
+  actorId: string,
+  input: ApproveReturnInput
+) {
+  const returnRequest = await findReturn({ id: returnId, vendorId });
+  const instructions = input.returnInstructions || (await getReturnPolicy(vendorId)).returnInstructions;
+
+  return transitionReturn(
+    returnRequest,
+    'approved',
+    {
+      approvedAt: new Date(),
+      returnMethod: input.returnMethod,
+      returnInstructions: instructions,
+      returnLabelUrl: input.returnLabelUrl,
+    },
+    `Return ${returnRequest.number} approved`,
+    { returnMethod: input.returnMethod, changedBy: actorId }
+  );
+}
+
+export async function rejectReturnRequest(vendorId: string, returnId: string, actorId: string, reason: string) {
+  const returnRequest = await findReturn({ id: returnId, vendorId });
+  return transitionReturn(
+    returnRequest,
+    'rejected',
+    { rejectedAt: new Date(), rejectionReason: reason },
+    `Return ${returnRequest.number} rejected: ${reason}`,
+    { changedBy: actorId }
+  );
+}
+
+export async function receiveReturn(vendorId: string, returnId: string, actorId: string) {
+  const returnRequest = await findReturn({ id: returnId, vendorId });
+  return transitionReturn(
+    returnRequest,
+    'received',
+    { receivedAt: new Date() },
+    `Return ${returnRequest.number} received by the seller`,
+    { changedBy: actorId }
+  );
+}
+
+/**
+ * Move a received return to its inspection outcome, failing when another
+ * inspection got there first
+ */
+async function claimInspection(
+  db: Prisma.TransactionClient,
+  returnRequest: { id: string; number: string },
+  data: { status: ReturnStatus; inspectedAt: Date }
+) {
+  const claimed = await db.returnRequest.updateMany({
+    where: { id: returnRequest.id, status: 'received' },
+    data,
+  });
+  if (claimed.count === 0) {
+    throw new ConflictError(`Return ${returnRequest.number} has already been inspected`, 'RETURN_ALREADY_INSPECTED');
+  }
+}
+
+/**
+ * Record the inspection of received items. Items fit to sell again are
+ * restocked, the refund is issued and the vendor's commission on it reversed.
+ * A refund of 0 fails the inspection: nothing is restocked or refunded.
+ */
+export async function inspectReturn(
+  vendorId: string,
+  returnId: string,
+  actorId: string,
+  input: InspectReturnInput
+) {
+  const returnRequest = await findReturn({ id: returnId, vendorId });
+  const passed = input.refundAmount === undefined || input.refundAmount > 0;
+  assertTransition(returnRequest.status, passed ? 'refunded' : 'inspection_failed');
+
+  const inspected = returnRequest.items.map((item) => {
+    const line = input.items.find((candidate) => candidate.returnItemId === item.id);
+    const restockQuantity = passed ? line?.restockQuantity ?? 0 : 0;
+    if (restockQuantity > item.quantity) {
+      throw new BadRequestError(
+        `Cannot restock more than the ${item.quantity} returned of ${item.orderItem.productName}`,
+        'RESTOCK_QUANTITY_EXCEEDED',
+        { returnItemId: item.id }
+      );
+    }
+    return { item, restockQuantity, condition: line?.condition ?? null };
+  });
+
+  const order = await prisma.order.findUnique({
+    where: { id: returnRequest.orderId },
+    select: { pricingBreakdown: true },
+  });
+  const breakdown = order?.pricingBreakdown as { lines?: PricedCartLine[] } | null;
+  const pricedLines = Array.isArray(breakdown?.lines) ? breakdown.lines : [];
+
+  const lineValues = returnRequest.items.map(
+    (item) => Math.round(paidUnitPrice(pricedLines, item.orderItem) * item.quantity * 100) / 100
+  );
+  const maxRefund = Math.round(lineValues.reduce((sum, value) => sum + value, 0) * 100) / 100;
+  const refundAmount = input.refundAmount ?? maxRefund;
+  if (refundAmount > maxRefund) {
+    throw new BadRequestError(
+      `Refund cannot exceed ${maxRefund.toFixed(2)}, the amount paid for the returned items`,
+      'RETURN_REFUND_EXCEEDED',
+      { maxRefund }
+    );
+  }
+  const shares = allocateRefund(lineValues, refundAmount);
+  const now = new Date();
+
+  if (!passed) {
+    return prisma.$transaction(async (tx) => {
+      await claimInspection(tx, returnRequest, { status: 'inspection_failed', inspectedAt: now });
+      for (const { item, condition } of inspected) {
+        await tx.returnItem.update({ where: { id: item.id }, data: { condition, refundAmount: '0.00' } });
+      }
+      const updated = await tx.returnRequest.update({
+        where: { id: returnRequest.id },
+        data: { status: 'inspection_failed', inspectedAt: now, inspectionNotes: input.notes, refundAmount: '0.00' },
+        include: RETURN_INCLUDE,
+      });
+      await recordReturnEvent(
+        tx,
+        returnRequest,
+        'return_inspection_failed',
+        `Return ${returnRequest.number} failed inspection${input.notes ? `: ${input.notes}` : ''}`,
+        { changedBy: actorId }
+      );
+      return updated;
+    });
+  }
+
+  // Claim the return before any money moves, so a second inspection running
+  // at the same time stops here instead of issuing another refund
+  await claimInspection(prisma, returnRequest, { status: 'refunded', inspectedAt: now });
+
+  let refundId: string | undefined;
+  let updated: Prisma.ReturnRequestGetPayload<{ include: typeof RETURN_INCLUDE }>;
+  try {
+    const refund = await initiateRefund({
+      orderId: returnRequest.orderId,
+      amount: refundAmount,
+      reason: `Return ${returnRequest.number}`,
+      restoreStock: false,
+    });
+    if (!refund.success || !refund.refundId) {
+      throw new BadRequestError(refund.error || 'Refund could not be issued', 'RETURN_REFUND_FAILED');
+    }
+    refundId = refund.refundId;
+
+    updated = await prisma.$transaction(async (tx) => {
+      for (const [index, { item, restockQuantity, condition }] of inspected.entries()) {
+        await tx.returnItem.update({
+          where: { id: item.id },
+          data: { restockQuantity, condition, refundAmount: shares[index].toFixed(2) },
+        });
+        if (restockQuantity > 0 && item.orderItem.productId) {
+          await applyStockMovement(tx, {
+            productId: item.orderItem.productId,
+            variantId: item.orderItem.variantId,
+            quantity: restockQuantity,
+            type: 'return',
+            referenceType: 'return',
+            referenceId: returnRequest.id,
+            note: `Return ${returnRequest.number}`,
+            createdBy: actorId,
+          });
+        }
+      }
+
+      const commissions = await tx.commissionLedger.findMany({
+        where: {
+          orderId: returnRequest.orderId,
+          orderItemId: { in: returnRequest.items.map((item) => item.orderItemId) },
+          returnRequestId: null,
+        },
+      });
+      for (const [index, { item }] of inspected.entries()) {
+        const commission = commissions.find((entry) => entry.orderItemId === item.orderItemId);
+        if (!commission || shares[index] <= 0) continue;
+        const rate = Number(commission.commissionRate);
+        const commissionAmount = Math.round(shares[index] * rate * 100) / 100;
+        await tx.commissionLedger.create({
+          data: {
+            vendorId: commission.vendorId,
+            orderId: returnRequest.orderId,
+            orderItemId: item.orderItemId,
+            returnRequestId: returnRequest.id,
+            saleAmount: (-shares[index]).toFixed(2),
+            commissionRate: commission.commissionRate,
+            commissionAmount: (-commissionAmount).toFixed(2),
+            vendorPayout: (-(shares[index] - commissionAmount)).toFixed(2),
+            status: 'reversed',
+            paidAt: now,
+          },
+        });
+      }
+
+      const saved = await tx.returnRequest.update({
+        where: { id: returnRequest.id },
+        data: {
+          status: 'refunded',
+          inspectedAt: now,
+          inspectionNotes: input.notes,
+          refundAmount: refundAmount.toFixed(2),
+          refundId,
+          refundedAt: now,
+        },
+        include: RETURN_INCLUDE,
+      });
+      await recordReturnEvent(
+        tx,
+        returnRequest,
+        'return_inspected',
+        `Return ${returnRequest.number} inspected`,
+        {
+          restocked: inspected.map(({ item, restockQuantity }) => ({ orderItemId: item.orderItemId, restockQuantity })),
+          changedBy: actorId,
+        }
+      );
+      await recordReturnEvent(
+        tx,
+        returnRequest,
+        'return_refunded',
+        `Refund of ${refundAmount.toFixed(2)} ETB issued for return ${returnRequest.number}`,
+        { refundId, amount: refundAmount }
+      );
+      return saved;
+    });
+  } catch (error) {
+    // Hand the return back for inspection and fail the refund that never went out
+    await prisma.returnRequest.updateMany({
+      where: { id: returnRequest.id, status: 'refunded' },
+      data: { status: 'received', inspectedAt: null },
+    });
+    if (refundId) {
+      await prisma.refund.updateMany({ where: { id: refundId, status: 'pending' }, data: { status: 'failed' } });
+    }
+    throw error;
+  }
+
+  await processRefund(refundId);
+
+  return updated;
+}
@@ -0,0 +1,393 @@
+/**
+ * Search Analytics Service
+ *
+ * Logs what shoppers search for and which results they click, reports top
+ * queries, zero-result queries and click-through rates, and manages the
+ * per-query rules (redirects, pinned products, synonyms) that
+ * searchProducts applies.
+ */
+
+import prisma from '@/lib/prisma';
+import type { JWTPayload } from '@/lib/auth';
+import { getOrSetCache, invalidateCacheByTag } from '@/lib/cache';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/errors';
+import { logError } from '@/lib/logger';
+import { expandSearchQuery } from '@/lib/search-query';
+import { recordAudit } from '@/services/AuditLogService';
+
+export const SEARCH_SOURCES = ['text', 'suggestion', 'voice'] as const;
+export type SearchSource = (typeof SEARCH_SOURCES)[number];
+
+export interface SearchLogEntry {
+  query: string;
+  filters?: Record<string, unknown>;
+  sort?: string | null;
+  resultCount: number;
+  source?: SearchSource;
+  userId?: string | null;
+  sessionId?: string | null;
+  searchRuleId?: string | null;
+  redirectedTo?: string | null;
+  /** Set for voice searches; also written to voice_searches */
+  voice?: { language: string; confidence: number };
+}
+
+export interface SearchRuleInput {
+  query: string;
+  redirectUrl?: string | null;
+  pinnedProductIds?: string[];
+  synonyms?: string[];
+  isActive?: boolean;
+}
+
+export interface SearchRuleMatch {
+  id: string;
+  redirectUrl: string | null;
+  pinnedProductIds: string[];
+  synonyms: string[];
+}
+
+const RULE_CACHE_TTL = 300; // 5 minutes
+const MAX_REPORT_DAYS = 365;
+
+/**
+ * The form queries are logged and matched to rules in, so "Coffee",
+ * "coffee " and "ኮፊ፡" count as one query
+ */
+export function normalizeSearchQuery(query: string): string {
+  return expandSearchQuery(query).normalized;
+}
+
+/**
+ * Log a search and return its id for click tracking, or null if the log
+ * could not be written. Logging never fails the search itself.
+ */
+export async function logSearch(entry: SearchLogEntry): Promise<string | null> {
+  const normalizedQuery = normalizeSearchQuery(entry.query);
+  if (!normalizedQuery) return null;
+
+  try {
+    const log = await prisma.searchQueryLog.create({
+      data: {
+        query: entry.query.trim(),
+        normalizedQuery,
+        filters: (entry.filters ?? undefined) as any,
+        sort: entry.sort ?? null,
+        resultCount: entry.resultCount,
+        source: entry.source ?? 'text',
+        userId: entry.userId ?? null,
+        sessionId: entry.sessionId ?? null,
+        searchRuleId: entry.searchRuleId ?? null,
+        redirectedTo: entry.redirectedTo ?? null,
+      },
+      select: { id: true },
+    });
+
+    if (entry.source === 'voice' && entry.voice) {
+      await prisma.voiceSearch.create({
+        data: {
+          userId: entry.userId ?? null,
+          sessionId: entry.sessionId ?? log.id,
+          language: entry.voice.language,
+          transcription: entry.query.trim(),
+          intent: 'search',
+          confidence: entry.voice.confidence,
+          resultCount: entry.resultCount,
+        },
+      });
+    }
+
+    return log.id;
+  } catch (error) {
+    logError(error as Error, { operation: 'logSearch', query: normalizedQuery });
+    return null;
+  }
+}
+
+/**
+ * Record that a shopper opened a result of a logged search. position is
+ * the 1-based place of the product in the results.
+ */
+export async function recordSearchClick(searchId: string, productId: string, position: number): Promise<void> {
+  const search = await prisma.searchQueryLog.findUnique({
+    where: { id: searchId },
+    select: { id: true },
+  });
+  if (!search) {
+    throw new NotFoundError('Search not found');
+  }
+
+  await prisma.searchClick.create({
+    data: { searchId, productId, position },
+  });
+}
+
+interface QueryStatsRow {
+  query: string;
+  searches: number;
+  zero_result_searches: number;
+  clicked_searches: number;
+  avg_results: number;
+  last_searched_at: Date;
+}
+
+const toQueryStats = (row: QueryStatsRow) => ({
+  query: row.query,
+  searches: Number(row.searches),
+  zeroResultSearches: Number(row.zero_result_searches),
+  clickThroughRate: Number(row.searches) > 0
+    ? Math.round((Number(row.clicked_searches) / Number(row.searches)) * 1000) / 10
+    : 0,
+  averageResults: Math.round(Number(row.avg_results) * 10) / 10,
+  lastSearchedAt: row.last_searched_at,
+});
+
+/**
+ * Search report for the last `days` days: totals, the most searched
+ * queries and the queries that found nothing
+ */
+export async function getSearchAnalytics(options: { days?: number; limit?: number } = {}) {
+  const days = Math.min(MAX_REPORT_DAYS, Math.max(1, options.days || 30));
+  const limit = Math.min(100, Math.max(1, options.limit || 20));
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const [totals, topQueries, zeroResultQueries] = await Promise.all([
+    prisma.$queryRaw<Array<{
+      searches: number;
+      zero_result_searches: number;
+      clicked_searches: number;
+      avg_click_position: number | null;
+    }>>`
+      SELECT count(*)::int AS searches,
+             count(*) FILTER (WHERE l."resultCount" = 0)::int AS zero_result_searches,
+             count(*) FILTER (WHERE EXISTS (SELECT 1 FROM search_clicks c WHERE c."searchId" = l.id))::int AS clicked_searches,
+             (SELECT avg(c.position)::float8 FROM search_clicks c WHERE c."createdAt" >= ${since}) AS avg_click_position
+      FROM search_query_logs l
+      WHERE l."createdAt" >= ${since}
+    `,
+    prisma.$queryRaw<QueryStatsRow[]>`
+      SELECT l."normalizedQuery" AS query,
+             count(*)::int AS searches,
+             count(*) FILTER (WHERE l."resultCount" = 0)::int AS zero_result_searches,
+             count(*) FILTER (WHERE EXISTS (SELECT 1 FROM search_clicks c WHERE c."searchId" = l.id))::int AS clicked_searches,
+             avg(l."resultCount")::float8 AS avg_results,
+             max(l."createdAt") AS last_searched_at
+      FROM search_query_logs l
+      WHERE l."createdAt" >= ${since}
+      GROUP BY l."normalizedQuery"
+      ORDER BY searches DESC, query
+      LIMIT ${limit}
+    `,
+    prisma.$queryRaw<QueryStatsRow[]>`
+      SELECT l."normalizedQuery" AS query,
+             count(*)::int AS searches,
+             count(*)::int AS zero_result_searches,
+             0 AS clicked_searches,
+             0::float8 AS avg_results,
+             max(l."createdAt") AS last_searched_at
+      FROM search_query_logs l
+      WHERE l."createdAt" >= ${since} AND l."resultCount" = 0
+      GROUP BY l."normalizedQuery"
+      ORDER BY searches DESC, query
+      LIMIT ${limit}
+    `,
+  ]);
+
+  const summary = totals[0];
+  const searches = Number(summary?.searches ?? 0);
+  const percent = (count: number) => (searches > 0 ? Math.round((count / searches) * 1000) / 10 : 0);
+
+  return {
+    days,
+    totals: {
+      searches,
+      zeroResultRate: percent(Number(summary?.zero_result_searches ?? 0)),
+      clickThroughRate: percent(Number(summary?.clicked_searches ?? 0)),
+      averageClickPosition: summary?.avg_click_position != null
+        ? Math.round(Number(summary.avg_click_position) * 10) / 10
+        : null,
+    },
+    topQueries: topQueries.map(toQueryStats),
+    zeroResultQueries: zeroResultQueries.map(toQueryStats),
+  };
+}
+
+/**
+ * Active rule for a query, cached because every search looks it up
+ */
+export async function getSearchRule(query: string): Promise<SearchRuleMatch | null> {
+  const normalizedQuery = normalizeSearchQuery(query);
+  if (!normalizedQuery) return null;
+
+  const cached = await getOrSetCache(
+    `rule:${normalizedQuery}`,
+    async () => {
+      const rule = await prisma.searchRule.findUnique({
+        where: { query: normalizedQuery },
+        select: { id: true, redirectUrl: true, pinnedProductIds: true, synonyms: true, isActive: true },
+      });
+      return {
+        rule: rule?.isActive
+          ? {
+              id: rule.id,
+              redirectUrl: rule.redirectUrl,
+              pinnedProductIds: rule.pinnedProductIds,
+              synonyms: rule.synonyms,
+            }
+          : null,
+      };
+    },
+    { ttl: RULE_CACHE_TTL, prefix: 'search', tags: ['search', 'search-rules'] }
+  );
+
+  return cached.rule;
+}
+
+export async function listSearchRules() {
+  return prisma.searchRule.findMany({
+    orderBy: { query: 'asc' },
+    include: {
+      createdBy: { select: { email: true, profile: { select: { displayName: true } } } },
+      _count: { select: { searches: true } },
+    },
+  });
+}
+
+async function assertProductsExist(productIds: string[]): Promise<void> {
+  if (productIds.length === 0) return;
+  const found = await prisma.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true },
+  });
+  const missing = productIds.filter((id) => !found.some((product) => product.id === id));
+  if (missing.length > 0) {
+    throw new BadRequestError('Some pinned products do not exist', 'UNKNOWN_PRODUCTS', { productIds: missing });
+  }
+}
+
+const cleanList = (values: string[] | undefined) =>
+  [...new Set((values ?? []).map((value) => value.trim()).filter(Boolean))];
+
+/**
+ * Add a rule for a query. A rule needs at least one of a redirect, pinned
+ * products or synonyms.
+ */
+export async function createSearchRule(
+  actor: Pick<JWTPayload, 'userId'>,
+  input: SearchRuleInput,
+  ipAddress?: string | null
+) {
+  const query = normalizeSearchQuery(input.query);
+  if (!query) {
+    throw new BadRequestError('Query is required', 'INVALID_SEARCH_RULE');
+  }
+  const pinnedProductIds = cleanList(input.pinnedProductIds);
+  const synonyms = cleanList(input.synonyms);
+  if (!input.redirectUrl && pinnedProductIds.length === 0 && synonyms.length === 0) {
+    throw new BadRequestError('Add a redirect, pinned products or synonyms', 'INVALID_SEARCH_RULE');
+  }
+  await assertProductsExist(pinnedProductIds);
+
+  let rule;
+  try {
+    rule = await prisma.searchRule.create({
+      data: {
+        query,
+        redirectUrl: input.redirectUrl || null,
+        pinnedProductIds,
+        synonyms,
+        isActive: input.isActive ?? true,
+        createdById: actor.userId,
+      },
+    });
+  } catch (error: any) {
+    if (error?.code === 'P2002') {
+      throw new ConflictError(`There is already a rule for "${query}"`, 'SEARCH_RULE_EXISTS');
+    }
+    throw error;
+  }
+
+  await invalidateCacheByTag('search');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'search_rule.create',
+    entityType: 'search_rule',
+    entityId: rule.id,
+    changes: { query, redirectUrl: rule.redirectUrl, pinnedProductIds, synonyms },
+    ipAddress,
+  });
+
+  return rule;
+}
+
+export async function updateSearchRule(
+  actor: Pick<JWTPayload, 'userId'>,
+  ruleId: string,
+  input: Partial<Omit<SearchRuleInput, 'query'>>,
+  ipAddress?: string | null
+) {
+  const existing = await prisma.searchRule.findUnique({ where: { id: ruleId } });
+  if (!existing) {
+    throw new NotFoundError('Search rule not found');
+  }
+
+  const pinnedProductIds = input.pinnedProductIds !== undefined
+    ? cleanList(input.pinnedProductIds)
+    : existing.pinnedProductIds;
+  const synonyms = input.synonyms !== undefined ? cleanList(input.synonyms) : existing.synonyms;
+  const redirectUrl = input.redirectUrl !== undefined ? input.redirectUrl || null : existing.redirectUrl;
+  if (!redirectUrl && pinnedProductIds.length === 0 && synonyms.length === 0) {
+    throw new BadRequestError('Add a redirect, pinned products or synonyms', 'INVALID_SEARCH_RULE');
+  }
+  if (input.pinnedProductIds !== undefined) {
+    await assertProductsExist(pinnedProductIds);
+  }
+
+  const rule = await prisma.searchRule.update({
+    where: { id: ruleId },
+    data: {
+      redirectUrl,
+      pinnedProductIds,
+      synonyms,
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+    },
+  });
+
+  await invalidateCacheByTag('search');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'search_rule.update',
+    entityType: 'search_rule',
+    entityId: ruleId,
+    changes: input as Record<string, unknown>,
+    ipAddress,
+  });
+
+  return rule;
+}
+
+export async function deleteSearchRule(
+  actor: Pick<JWTPayload, 'userId'>,
+  ruleId: string,
+  ipAddress?: string | null
+): Promise<void> {
+  const existing = await prisma.searchRule.findUnique({ where: { id: ruleId } });
+  if (!existing) {
+    throw new NotFoundError('Search rule not found');
+  }
+
+  await prisma.searchRule.delete({ where: { id: ruleId } });
+
+  await invalidateCacheByTag('search');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'search_rule.delete',
+    entityType: 'search_rule',
+    entityId: ruleId,
+    changes: { query: existing.query },
+    ipAddress,
+  });
+}
@@ -0,0 +1,302 @@
+/**
+ * Session Service
+ *
+ * Server-side login sessions with rotating refresh tokens. Every login starts
+ * a session (one per device) whose refresh tokens form a family: each refresh
+ * exchanges the presented token for a new one, and presenting an already
+ * rotated token means it was copied, so the whole session is revoked.
+ *
+ * Access tokens stay stateless JWTs but carry the session id, so routes that
+ * authenticate requests reject tokens whose session was revoked.
+ */
+
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
+import { generateToken, type JWTPayload } from '@/lib/auth';
+import { ForbiddenError, NotFoundError, UnauthorizedError } from '@/lib/errors';
+import { logSecurityEvent } from '@/lib/security';
+
+// Sessions expire after this long without a refresh
+export const SESSION_IDLE_DAYS = 30;
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'user_revoked'
+  | 'password_reset'
+  | 'admin_revoked'
+  | 'refresh_token_reuse';
+
+export interface SessionClientInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  token: string;
+  refreshToken: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+export function hashRefreshToken(refreshToken: string): string {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
+
+function newRefreshToken(): string {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+function sessionExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + SESSION_IDLE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Order matters: Edge and Opera user agents also mention Chrome and Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Chrome\//, 'Chrome'],
+  [/Firefox\//, 'Firefox'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Short human label for a user agent, e.g. "Chrome on Android"
+ */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+/**
+ * Start a session for a user who just authenticated
+ */
+export async function createSession(user: JWTPayload, client: SessionClientInfo = {}): Promise<SessionTokens> {
+  const refreshToken = newRefreshToken();
+
+  const session = await prisma.userSession.create({
+    data: {
+      userId: user.userId,
+      userAgent: client.userAgent || null,
+      ipAddress: client.ipAddress || null,
+      expiresAt: sessionExpiry(),
+      refreshTokens: {
+        create: { tokenHash: hashRefreshToken(refreshToken) },
+      },
+    },
+  });
+
+  return {
+    sessionId: session.id,
+    token: generateToken({
+      userId: user.userId,
+      email: user.email,
+      role: user.role,
+      ...(user.adminScope && { adminScope: user.adminScope }),
+      sessionId: session.id,
+    }),
+    refreshToken,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access and refresh token
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  client: SessionClientInfo = {}
+): Promise<SessionTokens> {
+  const now = new Date();
+  const stored = await prisma.sessionRefreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(refreshToken) },
+    include: {
+      session: {
+        include: { user: { select: { id: true, email: true, role: true, adminScope: true, lockoutUntil: true } } },
+      },
+    },
+  });
+
+  if (!stored) {
+    throw new UnauthorizedError('Invalid or expired refresh token');
+  }
+
+  const { session } = stored;
+
+  if (stored.rotatedAt) {
+    // Someone is replaying a token that was already exchanged; assume theft
+    if (!session.revokedAt) {
+      await endSession(session.id, 'refresh_token_reuse');
+      await logSecurityEvent(
+        client.ipAddress || 'unknown',
+        'refresh_token_reuse',
+        'high',
+        client.userAgent,
+        '/api/auth/refresh',
+        { userId: session.userId, sessionId: session.id }
+      );
+    }
+    throw new UnauthorizedError('Refresh token has already been used');
+  }
+
+  if (session.revokedAt || session.expiresAt < now) {
+    throw new UnauthorizedError('Session has ended, please log in again');
+  }
+
+  if (session.user.lockoutUntil && now < session.user.lockoutUntil) {
+    throw new ForbiddenError('Account is locked');
+  }
+
+  const nextRefreshToken = newRefreshToken();
+
+  // Claim the token atomically so two concurrent refreshes cannot both succeed
+  const claimed = await prisma.sessionRefreshToken.updateMany({
+    where: { id: stored.id, rotatedAt: null },
+    data: { rotatedAt: now },
+  });
+  if (claimed.count === 0) {
+    throw new UnauthorizedError('Refresh token has already been used');
+  }
+
+  await prisma.$transaction([
+    prisma.sessionRefreshToken.create({
+      data: { sessionId: session.id, tokenHash: hashRefreshToken(nextRefreshToken) },
+    }),
+    prisma.userSession.update({
+      where: { id: session.id },
+      data: {
+        lastUsedAt: now,
+        expiresAt: sessionExpiry(now),
+        userAgent: client.userAgent || session.userAgent,
+        ipAddress: client.ipAddress || session.ipAddress,
+      },
+    }),
+  ]);
+
+  return {
+    sessionId: session.id,
+    token: generateToken({
+      userId: session.user.id,
+      email: session.user.email,
+      role: session.user.role,
+      ...(session.user.adminScope && { adminScope: session.user.adminScope }),
+      sessionId: session.id,
+    }),
+    refreshToken: nextRefreshToken,
+  };
+}
+
+/**
+ * Whether an access token's session is still usable
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true },
+  });
+
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+}
+
+/**
+ * A user's signed-in devices, most recently used first
+ */
+export async function listActiveSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+  const sessions = await prisma.userSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    device: describeDevice(session.userAgent),
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * Mark a session revoked; a no-op if it already ended
+ */
+export async function endSession(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
+
+/**
+ * Sign one of a user's devices out
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  reason: SessionRevokeReason = 'user_revoked'
+): Promise<void> {
+  const session = await prisma.userSession.findFirst({
+    where: { id: sessionId, userId },
+    select: { id: true },
+  });
+  if (!session) {
+    throw new NotFoundError('Session not found');
+  }
+
+  await endSession(session.id, reason);
+}
+
+/**
+ * End the session a refresh token belongs to, e.g. on logout
+ */
+export async function revokeSessionByRefreshToken(refreshToken: string, reason: SessionRevokeReason = 'logout') {
+  const stored = await prisma.sessionRefreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(refreshToken) },
+    select: { sessionId: true },
+  });
+
+  if (stored) {
+    await endSession(stored.sessionId, reason);
+  }
+}
+
+/**
+ * Sign a user out everywhere, optionally keeping the current device
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return result.count;
+}
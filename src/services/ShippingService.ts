@@ -0,0 +1,309 @@
+/**
+ * Shipping Service
+ *
+ * Admin management of shipping methods (carrier services such as
+ * "Standard" or "Express") and the rates they charge per destination
+ * zone, optionally per origin zone. Rate calculation lives in
+ * @/lib/shipping.
+ */
+
+import prisma from '@/lib/prisma';
+import type { JWTPayload } from '@/lib/auth';
+import { invalidateCacheByTag } from '@/lib/cache';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/errors';
+import { recordAudit } from '@/services/AuditLogService';
+
+export interface ShippingMethodInput {
+  name: string;
+  description?: string | null;
+  carrier?: string | null;
+  estimatedDaysMin?: number | null;
+  estimatedDaysMax?: number | null;
+  volumetricDivisor?: number;
+  supportsCod?: boolean;
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+export interface ShippingRateInput {
+  zoneId: string;
+  originZoneId?: string | null;
+  methodId: string;
+  baseRate: number;
+  perKgRate?: number | null;
+  freeShippingThreshold?: number | null;
+  minOrderAmount?: number | null;
+  maxOrderAmount?: number | null;
+  codFee?: number | null;
+  codFeePercent?: number | null;
+  isActive?: boolean;
+}
+
+type Actor = Pick<JWTPayload, 'userId'>;
+
+const optionalNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+/**
+ * Decimal columns as numbers, for JSON responses
+ */
+export function serializeShippingRate<T extends Record<string, any>>(rate: T) {
+  return {
+    ...rate,
+    baseRate: Number(rate.baseRate),
+    perKgRate: optionalNumber(rate.perKgRate),
+    freeShippingThreshold: optionalNumber(rate.freeShippingThreshold),
+    minOrderAmount: optionalNumber(rate.minOrderAmount),
+    maxOrderAmount: optionalNumber(rate.maxOrderAmount),
+    codFee: optionalNumber(rate.codFee),
+    codFeePercent: optionalNumber(rate.codFeePercent),
+  };
+}
+
+function assertDeliveryWindow(min: number | null | undefined, max: number | null | undefined): void {
+  if (min != null && max != null && max < min) {
+    throw new BadRequestError('Maximum delivery days must not be less than the minimum', 'INVALID_DELIVERY_WINDOW');
+  }
+}
+
+function assertOrderRange(min: number | null | undefined, max: number | null | undefined): void {
+  if (min != null && max != null && max < min) {
+    throw new BadRequestError('Maximum order amount must not be less than the minimum', 'INVALID_ORDER_RANGE');
+  }
+}
+
+async function assertZonesExist(zoneIds: Array<string | null | undefined>): Promise<void> {
+  const ids = [...new Set(zoneIds.filter((id): id is string => !!id))];
+  const found = await prisma.shippingZone.count({ where: { id: { in: ids } } });
+  if (found !== ids.length) {
+    throw new NotFoundError('Shipping zone not found');
+  }
+}
+
+export async function listShippingMethods() {
+  return prisma.shippingMethod.findMany({
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    include: { _count: { select: { shippingRates: true } } },
+  });
+}
+
+export async function createShippingMethod(actor: Actor, input: ShippingMethodInput, ipAddress?: string | null) {
+  assertDeliveryWindow(input.estimatedDaysMin, input.estimatedDaysMax);
+
+  const method = await prisma.shippingMethod.create({
+    data: {
+      name: input.name.trim(),
+      description: input.description || null,
+      carrier: input.carrier || null,
+      estimatedDaysMin: input.estimatedDaysMin ?? null,
+      estimatedDaysMax: input.estimatedDaysMax ?? null,
+      ...(input.volumetricDivisor !== undefined && { volumetricDivisor: input.volumetricDivisor }),
+      ...(input.supportsCod !== undefined && { supportsCod: input.supportsCod }),
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+      ...(input.sortOrder !== undefined && { sortOrder: input.sortOrder }),
+    },
+  });
+
+  await invalidateCacheByTag('shipping');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'shipping_method.create',
+    entityType: 'shipping_method',
+    entityId: method.id,
+    changes: { ...input },
+    ipAddress,
+  });
+
+  return method;
+}
+
+export async function updateShippingMethod(
+  actor: Actor,
+  methodId: string,
+  input: Partial<ShippingMethodInput>,
+  ipAddress?: string | null
+) {
+  const existing = await prisma.shippingMethod.findUnique({ where: { id: methodId } });
+  if (!existing) {
+    throw new NotFoundError('Shipping method not found');
+  }
+  assertDeliveryWindow(
+    input.estimatedDaysMin !== undefined ? input.estimatedDaysMin : existing.estimatedDaysMin,
+    input.estimatedDaysMax !== undefined ? input.estimatedDaysMax : existing.estimatedDaysMax
+  );
+
+  const method = await prisma.shippingMethod.update({
+    where: { id: methodId },
+    data: {
+      ...input,
+      ...(input.name !== undefined && { name: input.name.trim() }),
+    },
+  });
+
+  await invalidateCacheByTag('shipping');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'shipping_method.update',
+    entityType: 'shipping_method',
+    entityId: methodId,
+    changes: { ...input },
+    ipAddress,
+  });
+
+  return method;
+}
+
+/**
+ * Methods that orders were shipped with are kept for their history;
+ * deactivate them instead
+ */
+export async function deleteShippingMethod(actor: Actor, methodId: string, ipAddress?: string | null): Promise<void> {
+  const existing = await prisma.shippingMethod.findUnique({
+    where: { id: methodId },
+    include: { _count: { select: { orders: true } } },
+  });
+  if (!existing) {
+    throw new NotFoundError('Shipping method not found');
+  }
+  if (existing._count.orders > 0) {
+    throw new ConflictError(
+      'Orders were shipped with this method; deactivate it instead',
+      'SHIPPING_METHOD_IN_USE',
+      { orders: existing._count.orders }
+    );
+  }
+
+  // Its rates are removed with it
+  await prisma.shippingMethod.delete({ where: { id: methodId } });
+
+  await invalidateCacheByTag('shipping');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'shipping_method.delete',
+    entityType: 'shipping_method',
+    entityId: methodId,
+    changes: { name: existing.name },
+    ipAddress,
+  });
+}
+
+export async function listShippingRates(filters: { zoneId?: string; methodId?: string } = {}) {
+  const rates = await prisma.shippingRate.findMany({
+    where: {
+      ...(filters.zoneId && { zoneId: filters.zoneId }),
+      ...(filters.methodId && { methodId: filters.methodId }),
+    },
+    include: {
+      zone: { select: { id: true, name: true } },
+      originZone: { select: { id: true, name: true } },
+      method: { select: { id: true, name: true, carrier: true } },
+    },
+    orderBy: [{ zone: { name: 'asc' } }, { method: { sortOrder: 'asc' } }],
+  });
+
+  return rates.map(serializeShippingRate);
+}
+
+export async function createShippingRate(actor: Actor, input: ShippingRateInput, ipAddress?: string | null) {
+  assertOrderRange(input.minOrderAmount, input.maxOrderAmount);
+  await assertZonesExist([input.zoneId, input.originZoneId]);
+  const method = await prisma.shippingMethod.findUnique({ where: { id: input.methodId }, select: { id: true } });
+  if (!method) {
+    throw new NotFoundError('Shipping method not found');
+  }
+
+  const duplicate = await prisma.shippingRate.findFirst({
+    where: { zoneId: input.zoneId, methodId: input.methodId, originZoneId: input.originZoneId ?? null },
+    select: { id: true },
+  });
+  if (duplicate) {
+    throw new ConflictError('This method already has a rate for these zones', 'SHIPPING_RATE_EXISTS', {
+      rateId: duplicate.id,
+    });
+  }
+
+  const rate = await prisma.shippingRate.create({
+    data: {
+      zoneId: input.zoneId,
+      originZoneId: input.originZoneId ?? null,
+      methodId: input.methodId,
+      baseRate: input.baseRate,
+      perKgRate: input.perKgRate ?? null,
+      freeShippingThreshold: input.freeShippingThreshold ?? null,
+      minOrderAmount: input.minOrderAmount ?? null,
+      maxOrderAmount: input.maxOrderAmount ?? null,
+      codFee: input.codFee ?? null,
+      codFeePercent: input.codFeePercent ?? null,
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+    },
+  });
+
+  await invalidateCacheByTag('shipping');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'shipping_rate.create',
+    entityType: 'shipping_rate',
+    entityId: rate.id,
+    changes: { ...input },
+    ipAddress,
+  });
+
+  return serializeShippingRate(rate);
+}
+
+export async function updateShippingRate(
+  actor: Actor,
+  rateId: string,
+  input: Partial<Omit<ShippingRateInput, 'zoneId' | 'originZoneId' | 'methodId'>>,
+  ipAddress?: string | null
+) {
+  const existing = await prisma.shippingRate.findUnique({ where: { id: rateId } });
+  if (!existing) {
+    throw new NotFoundError('Shipping rate not found');
+  }
+  assertOrderRange(
+    input.minOrderAmount !== undefined ? input.minOrderAmount : optionalNumber(existing.minOrderAmount),
+    input.maxOrderAmount !== undefined ? input.maxOrderAmount : optionalNumber(existing.maxOrderAmount)
+  );
+
+  const rate = await prisma.shippingRate.update({
+    where: { id: rateId },
+    data: input,
+  });
+
+  await invalidateCacheByTag('shipping');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'shipping_rate.update',
+    entityType: 'shipping_rate',
+    entityId: rateId,
+    changes: { ...input },
+    ipAddress,
+  });
+
+  return serializeShippingRate(rate);
+}
+
+export async function deleteShippingRate(actor: Actor, rateId: string, ipAddress?: string | null): Promise<void> {
+  const existing = await prisma.shippingRate.findUnique({ where: { id: rateId } });
+  if (!existing) {
+    throw new NotFoundError('Shipping rate not found');
+  }
+
+  await prisma.shippingRate.delete({ where: { id: rateId } });
+
+  await invalidateCacheByTag('shipping');
+  await recordAudit({
+    scope: 'admin',
+    actorId: actor.userId,
+    action: 'shipping_rate.delete',
+    entityType: 'shipping_rate',
+    entityId: rateId,
+    changes: { zoneId: existing.zoneId, originZoneId: existing.originZoneId, methodId: existing.methodId },
+    ipAddress,
+  });
+}
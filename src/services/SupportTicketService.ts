@@ -0,0 +1,626 @@
+/**
+ * Support Ticket Service
+ *
+ * Stores customer support requests as SupportTicket records with threaded
+ * replies, internal notes, agent assignment and per-category SLA deadlines.
+ * Agent replies go out through the EmailQueue with the ticket number in the
+ * subject, so customers can answer by email and land back on the same ticket.
+ */
+
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
+import {
+  Prisma,
+  SupportTicketCategory,
+  SupportTicketPriority,
+  SupportTicketStatus,
+} from '@prisma/client';
+import { hasAdminPermission, type JWTPayload } from '@/lib/auth';
+import { BadRequestError, NotFoundError } from '@/lib/errors';
+import { queueEmail, type EmailTemplate } from '@/lib/email';
+import { renderEmail } from '@/services/EmailTemplateService';
+
+export type SupportViewer = Pick<JWTPayload, 'userId' | 'email' | 'role' | 'adminScope'>;
+
+export type SlaStatus = 'on_track' | 'at_risk' | 'breached' | 'met';
+
+export interface SlaPolicy {
+  firstResponseHours: number;
+  resolutionHours: number;
+  defaultPriority: SupportTicketPriority;
+}
+
+export interface CreateTicketInput {
+  name: string;
+  email: string;
+  phone?: string;
+  category: SupportTicketCategory;
+  subject: string;
+  message: string;
+  orderNumber?: string;
+}
+
+export interface AgentReplyInput {
+  body: string;
+  isInternal?: boolean;
+  attachments?: string[];
+  /** Status after a public reply, defaults to waiting_on_customer */
+  status?: SupportTicketStatus;
+}
+
+export interface UpdateTicketInput {
+  status?: SupportTicketStatus;
+  priority?: SupportTicketPriority;
+  assignedToId?: string | null;
+}
+
+export interface TicketQueueFilters {
+  status?: SupportTicketStatus[];
+  priority?: SupportTicketPriority;
+  category?: SupportTicketCategory;
+  /** An agent id, or 'unassigned' */
+  assignedTo?: string;
+  breached?: boolean;
+  search?: string;
+  page?: number;
+  perPage?: number;
+}
+
+export interface InboundEmail {
+  from: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * SLA targets per ticket category. Money and delivery problems are answered first.
+ */
+export const SLA_POLICIES: Record<SupportTicketCategory, SlaPolicy> = {
+  refund_request: { firstResponseHours: 4, resolutionHours: 48, defaultPriority: 'high' },
+  shipping_issue: { firstResponseHours: 8, resolutionHours: 72, defaultPriority: 'normal' },
+  order_inquiry: { firstResponseHours: 8, resolutionHours: 72, defaultPriority: 'normal' },
+  account_help: { firstResponseHours: 8, resolutionHours: 48, defaultPriority: 'normal' },
+  technical_issue: { firstResponseHours: 8, resolutionHours: 72, defaultPriority: 'normal' },
+  vendor_support: { firstResponseHours: 12, resolutionHours: 96, defaultPriority: 'normal' },
+  product_question: { firstResponseHours: 24, resolutionHours: 72, defaultPriority: 'low' },
+  other: { firstResponseHours: 24, resolutionHours: 120, defaultPriority: 'normal' },
+};
+
+// Share of the SLA window left before a ticket is flagged as at risk
+const AT_RISK_THRESHOLD = 0.25;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const OPEN_STATUSES: SupportTicketStatus[] = ['open', 'in_progress', 'waiting_on_customer'];
+
+const TICKET_NUMBER_PATTERN = /\[(TKT-\d{8}-[A-Z0-9]{6})\]/;
+
+/**
+ * First-response and resolution deadlines for a ticket opened at `openedAt`
+ */
+export function calculateSlaDeadlines(category: SupportTicketCategory, openedAt: Date) {
+  const policy = SLA_POLICIES[category];
+  return {
+    firstResponseDueAt: new Date(openedAt.getTime() + policy.firstResponseHours * HOUR_MS),
+    resolutionDueAt: new Date(openedAt.getTime() + policy.resolutionHours * HOUR_MS),
+  };
+}
+
+/**
+ * Where a ticket stands against its SLA. Until the first agent reply the
+ * first-response deadline applies, after that the resolution deadline.
+ */
+export function getSlaStatus(
+  ticket: {
+    createdAt: Date;
+    firstResponseDueAt: Date;
+    resolutionDueAt: Date;
+    firstRespondedAt: Date | null;
+    resolvedAt: Date | null;
+  },
+  now: Date = new Date()
+): SlaStatus {
+  const respondedLate =
+    ticket.firstRespondedAt !== null && ticket.firstRespondedAt > ticket.firstResponseDueAt;
+
+  if (ticket.resolvedAt) {
+    return respondedLate || ticket.resolvedAt > ticket.resolutionDueAt ? 'breached' : 'met';
+  }
+  if (respondedLate) {
+    return 'breached';
+  }
+
+  const deadline = ticket.firstRespondedAt ? ticket.resolutionDueAt : ticket.firstResponseDueAt;
+  const remaining = deadline.getTime() - now.getTime();
+  if (remaining < 0) {
+    return 'breached';
+  }
+
+  const window = deadline.getTime() - ticket.createdAt.getTime();
+  return remaining <= window * AT_RISK_THRESHOLD ? 'at_risk' : 'on_track';
+}
+
+/**
+ * TKT-YYYYMMDD-XXXXXX
+ */
+export function generateTicketNumber(now: Date = new Date()): string {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+  const suffix = crypto.randomBytes(4).readUInt32BE(0).toString(36).toUpperCase().padStart(6, '0').slice(-6);
+  return `TKT-${date}-${suffix}`;
+}
+
+/**
+ * Ticket number referenced in an email subject, e.g. "Re: [TKT-20261019-AB12CD] ..."
+ */
+export function parseTicketNumber(subject: string): string | null {
+  return subject.match(TICKET_NUMBER_PATTERN)?.[1] ?? null;
+}
+
+/**
+ * Drop the quoted history mail clients append below a reply
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+  for (const line of lines) {
+    if (/^On .+wrote:\s*$/.test(line.trim()) || /^-{2,}\s*Original Message/i.test(line.trim())) {
+      break;
+    }
+    if (line.startsWith('>')) continue;
+    kept.push(line);
+  }
+  return kept.join('\n').trim();
+}
+
+function withReplyTo(template: EmailTemplate): EmailTemplate {
+  const replyTo = process.env.SUPPORT_REPLY_TO_EMAIL;
+  return replyTo ? { ...template, metadata: { ...template.metadata, replyTo } } : template;
+}
+
+function withSla<T extends Parameters<typeof getSlaStatus>[0]>(ticket: T, now: Date = new Date()) {
+  return { ...ticket, slaStatus: getSlaStatus(ticket, now) };
+}
+
+function isAgent(viewer: SupportViewer): boolean {
+  return hasAdminPermission(viewer, 'support');
+}
+
+function ownsTicket(ticket: { userId: string | null; email: string }, viewer: SupportViewer): boolean {
+  if (ticket.userId) {
+    return ticket.userId === viewer.userId;
+  }
+  return ticket.email.toLowerCase() === viewer.email.toLowerCase();
+}
+
+/**
+ * Link the ticket to an order when the order number belongs to the requester
+ */
+async function resolveOrderId(
+  orderNumber: string | undefined,
+  userId: string | null,
+  email: string
+): Promise<string | null> {
+  if (!orderNumber) return null;
+
+  const order = await prisma.order.findUnique({
+    where: { orderNumber },
+    select: { id: true, userId: true, user: { select: { email: true } } },
+  });
+  if (!order) return null;
+
+  const belongsToRequester = userId
+    ? order.userId === userId
+    : order.user?.email?.toLowerCase() === email.toLowerCase();
+
+  return belongsToRequester ? order.id : null;
+}
+
+/**
+ * Open a ticket from the contact form. `userId` is set when the requester is signed in.
+ */
+export async function createTicket(input: CreateTicketInput, userId: string | null = null) {
+  const now = new Date();
+  const policy = SLA_POLICIES[input.category];
+  const deadlines = calculateSlaDeadlines(input.category, now);
+  const email = input.email.trim().toLowerCase();
+
+  const ticket = await prisma.supportTicket.create({
+    data: {
+      ticketNumber: generateTicketNumber(now),
+      userId,
+      name: input.name,
+      email,
+      phone: input.phone ?? null,
+      category: input.category,
+      priority: policy.defaultPriority,
+      subject: input.subject,
+      orderNumber: input.orderNumber ?? null,
+      orderId: await resolveOrderId(input.orderNumber, userId, email),
+      ...deadlines,
+      lastActivityAt: now,
+      messages: {
+        create: {
+          authorId: userId,
+          authorType: 'customer',
+          channel: 'web',
+          body: input.message,
+        },
+      },
+    },
+  });
+
+  await renderEmail(
+    'support_ticket_created',
+    email,
+    {
+      name: input.name,
+      ticketNumber: ticket.ticketNumber,
+      subject: input.subject,
+      firstResponseDueAt: ticket.firstResponseDueAt,
+    },
+    { userId }
+  )
+    .then((template) => queueEmail(withReplyTo(template)))
+    .catch((err) => console.error('Failed to queue support ticket confirmation:', err));
+
+  return ticket;
+}
+
+/**
+ * The signed-in customer's tickets, including guest tickets filed with the same email
+ */
+export async function listMyTickets(
+  viewer: SupportViewer,
+  options: { status?: SupportTicketStatus; page?: number; perPage?: number } = {}
+) {
+  const page = Math.max(1, options.page || 1);
+  const perPage = Math.min(50, Math.max(1, options.perPage || 20));
+
+  const where: Prisma.SupportTicketWhereInput = {
+    OR: [{ userId: viewer.userId }, { userId: null, email: viewer.email.toLowerCase() }],
+    ...(options.status ? { status: options.status } : {}),
+  };
+
+  const [tickets, total] = await Promise.all([
+    prisma.supportTicket.findMany({
+      where,
+      select: {
+        id: true,
+        ticketNumber: true,
+        subject: true,
+        category: true,
+        status: true,
+        orderNumber: true,
+        lastActivityAt: true,
+        createdAt: true,
+        _count: { select: { messages: { where: { isInternal: false } } } },
+      },
+      orderBy: { lastActivityAt: 'desc' },
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+    prisma.supportTicket.count({ where }),
+  ]);
+
+  return {
+    tickets,
+    pagination: { page, perPage, total, totalPages: Math.ceil(total / perPage) },
+  };
+}
+
+/**
+ * Agent queue: most urgent first, then nearest SLA deadline
+ */
+export async function listTicketQueue(filters: TicketQueueFilters = {}, now: Date = new Date()) {
+  const page = Math.max(1, filters.page || 1);
+  const perPage = Math.min(100, Math.max(1, filters.perPage || 25));
+
+  const and: Prisma.SupportTicketWhereInput[] = [
+    { status: { in: filters.status?.length ? filters.status : OPEN_STATUSES } },
+  ];
+  if (filters.priority) and.push({ priority: filters.priority });
+  if (filters.category) and.push({ category: filters.category });
+  if (filters.assignedTo === 'unassigned') {
+    and.push({ assignedToId: null });
+  } else if (filters.assignedTo) {
+    and.push({ assignedToId: filters.assignedTo });
+  }
+  if (filters.breached) {
+    and.push({
+      resolvedAt: null,
+      OR: [
+        { firstRespondedAt: null, firstResponseDueAt: { lt: now } },
+        { resolutionDueAt: { lt: now } },
+      ],
+    });
+  }
+  if (filters.search) {
+    and.push({
+      OR: [
+        { ticketNumber: { contains: filters.search, mode: 'insensitive' } },
+        { subject: { contains: filters.search, mode: 'insensitive' } },
+        { email: { contains: filters.search, mode: 'insensitive' } },
+        { orderNumber: { contains: filters.search, mode: 'insensitive' } },
+      ],
+    });
+  }
+
+  const where: Prisma.SupportTicketWhereInput = { AND: and };
+
+  const [tickets, total] = await Promise.all([
+    prisma.supportTicket.findMany({
+      where,
+      include: {
+        assignedTo: { select: { id: true, email: true } },
+        _count: { select: { messages: true } },
+      },
+      // Enum order puts urgent last, so sort priority descending
+      orderBy: [{ priority: 'desc' }, { firstResponseDueAt: 'asc' }, { createdAt: 'asc' }],
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+    prisma.supportTicket.count({ where }),
+  ]);
+
+  return {
+    tickets: tickets.map((ticket) => withSla(ticket, now)),
+    pagination: { page, perPage, total, totalPages: Math.ceil(total / perPage) },
+  };
+}
+
+async function getTicketForViewer(id: string, viewer: SupportViewer) {
+  const ticket = await prisma.supportTicket.findUnique({ where: { id } });
+  if (!ticket || (!isAgent(viewer) && !ownsTicket(ticket, viewer))) {
+    throw new NotFoundError('Support ticket not found');
+  }
+  return ticket;
+}
+
+/**
+ * Ticket with its thread. Customers never see internal notes.
+ */
+export async function getTicket(id: string, viewer: SupportViewer) {
+  await getTicketForViewer(id, viewer);
+  const agent = isAgent(viewer);
+
+  const ticket = await prisma.supportTicket.findUnique({
+    where: { id },
+    include: {
+      assignedTo: { select: { id: true, email: true } },
+      order: agent ? { select: { id: true, orderNumber: true, status: true, totalAmount: true } } : false,
+      messages: {
+        where: agent ? {} : { isInternal: false },
+        orderBy: { createdAt: 'asc' },
+        include: { author: { select: { id: true, email: true, role: true } } },
+      },
+    },
+  });
+
+  return withSla(ticket);
+}
+
+/**
+ * Customer reply from the web or an inbound email. Re-opens resolved tickets.
+ */
+export async function addCustomerReply(
+  id: string,
+  viewer: SupportViewer | null,
+  body: string,
+  options: { channel?: 'web' | 'email'; attachments?: string[] } = {}
+) {
+  const ticket = viewer
+    ? await getTicketForViewer(id, viewer)
+    : await prisma.supportTicket.findUnique({ where: { id } });
+  if (!ticket) {
+    throw new NotFoundError('Support ticket not found');
+  }
+  if (ticket.status === 'closed') {
+    throw new BadRequestError('This ticket is closed. Please open a new ticket.');
+  }
+
+  const now = new Date();
+  const [message] = await prisma.$transaction([
+    prisma.supportTicketMessage.create({
+      data: {
+        ticketId: id,
+        authorId: viewer?.userId ?? null,
+        authorType: 'customer',
+        channel: options.channel ?? 'web',
+        body,
+        attachments: options.attachments ?? [],
+      },
+    }),
+    prisma.supportTicket.update({
+      where: { id },
+      data: {
+        lastActivityAt: now,
+        ...(ticket.status === 'waiting_on_customer' || ticket.status === 'resolved'
+          ? { status: 'open', resolvedAt: null }
+          : {}),
+      },
+    }),
+  ]);
+
+  return message;
+}
+
+/**
+ * Agent reply or internal note. Public replies are emailed to the customer,
+ * stop the first-response clock and assign the ticket to the agent if unassigned.
+ */
+export async function addAgentReply(id: string, agentId: string, input: AgentReplyInput) {
+  const ticket = await prisma.supportTicket.findUnique({ where: { id } });
+  if (!ticket) {
+    throw new NotFoundError('Support ticket not found');
+  }
+
+  const now = new Date();
+
+  if (input.isInternal) {
+    const [note] = await prisma.$transaction([
+      prisma.supportTicketMessage.create({
+        data: {
+          ticketId: id,
+          authorId: agentId,
+          authorType: 'agent',
+          body: input.body,
+          isInternal: true,
+          attachments: input.attachments ?? [],
+        },
+      }),
+      prisma.supportTicket.update({ where: { id }, data: { lastActivityAt: now } }),
+    ]);
+    return note;
+  }
+
+  if (ticket.status === 'closed') {
+    throw new BadRequestError('Re-open the ticket before replying');
+  }
+
+  const status = input.status ?? 'waiting_on_customer';
+  const [message] = await prisma.$transaction([
+    prisma.supportTicketMessage.create({
+      data: {
+        ticketId: id,
+        authorId: agentId,
+        authorType: 'agent',
+        body: input.body,
+        attachments: input.attachments ?? [],
+      },
+    }),
+    prisma.supportTicket.update({
+      where: { id },
+      data: {
+        status,
+        lastActivityAt: now,
+        firstRespondedAt: ticket.firstRespondedAt ?? now,
+        assignedToId: ticket.assignedToId ?? agentId,
+        ...statusTimestamps(status, now),
+      },
+    }),
+  ]);
+
+  const agent = await prisma.profile.findUnique({
+    where: { userId: agentId },
+    select: { displayName: true, firstName: true },
+  });
+
+  await renderEmail(
+    'support_ticket_reply',
+    ticket.email,
+    {
+      name: ticket.name,
+      ticketNumber: ticket.ticketNumber,
+      subject: ticket.subject,
+      agentName: agent?.displayName || agent?.firstName || 'Minalesh Support',
+      reply: input.body,
+    },
+    { userId: ticket.userId }
+  )
+    .then((template) => queueEmail(withReplyTo(template)))
+    .catch((err) => console.error('Failed to queue support reply email:', err));
+
+  return message;
+}
+
+function statusTimestamps(status: SupportTicketStatus, now: Date) {
+  if (status === 'resolved') return { resolvedAt: now, closedAt: null };
+  if (status === 'closed') return { closedAt: now };
+  return { resolvedAt: null, closedAt: null };
+}
+
+/**
+ * Change status, priority or assignee. Each change is logged as an internal note.
+ */
+export async function updateTicket(id: string, agentId: string, input: UpdateTicketInput) {
+  const ticket = await prisma.supportTicket.findUnique({ where: { id } });
+  if (!ticket) {
+    throw new NotFoundError('Support ticket not found');
+  }
+
+  if (input.assignedToId) {
+    const assignee = await prisma.user.findUnique({
+      where: { id: input.assignedToId },
+      select: { role: true },
+    });
+    if (!assignee || assignee.role !== 'admin') {
+      throw new BadRequestError('Tickets can only be assigned to support agents');
+    }
+  }
+
+  const now = new Date();
+  const data: Prisma.SupportTicketUncheckedUpdateInput = { lastActivityAt: now };
+  const changes: string[] = [];
+
+  if (input.status && input.status !== ticket.status) {
+    Object.assign(data, { status: input.status }, statusTimestamps(input.status, now));
+    if (input.status === 'closed' && !ticket.resolvedAt) {
+      data.resolvedAt = now;
+    }
+    changes.push(`Status changed from ${ticket.status} to ${input.status}`);
+  }
+  if (input.priority && input.priority !== ticket.priority) {
+    data.priority = input.priority;
+    changes.push(`Priority changed from ${ticket.priority} to ${input.priority}`);
+  }
+  if (input.assignedToId !== undefined && input.assignedToId !== ticket.assignedToId) {
+    data.assignedToId = input.assignedToId;
+    changes.push(input.assignedToId ? 'Ticket reassigned' : 'Ticket unassigned');
+  }
+
+  if (changes.length === 0) {
+    return ticket;
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.supportTicket.update({ where: { id }, data }),
+    prisma.supportTicketMessage.create({
+      data: {
+        ticketId: id,
+        authorId: agentId,
+        authorType: 'system',
+        body: changes.join('\n'),
+        isInternal: true,
+      },
+    }),
+  ]);
+
+  return updated;
+}
+
+/**
+ * Append an emailed customer reply to the ticket named in the subject.
+ * Mail from an address other than the ticket's is ignored.
+ */
+export async function handleInboundEmail(
+  email: InboundEmail
+): Promise<{ accepted: boolean; ticketNumber?: string; reason?: string }> {
+  const ticketNumber = parseTicketNumber(email.subject);
+  if (!ticketNumber) {
+    return { accepted: false, reason: 'No ticket number in subject' };
+  }
+
+  const ticket = await prisma.supportTicket.findUnique({
+    where: { ticketNumber },
+    select: { id: true, email: true, status: true },
+  });
+  if (!ticket) {
+    return { accepted: false, ticketNumber, reason: 'Unknown ticket' };
+  }
+
+  const sender = email.from.match(/<([^>]+)>/)?.[1] ?? email.from;
+  if (sender.trim().toLowerCase() !== ticket.email.toLowerCase()) {
+    return { accepted: false, ticketNumber, reason: 'Sender does not match ticket' };
+  }
+  if (ticket.status === 'closed') {
+    return { accepted: false, ticketNumber, reason: 'Ticket is closed' };
+  }
+
+  const body = stripQuotedReply(email.text);
+  if (!body) {
+    return { accepted: false, ticketNumber, reason: 'Empty reply' };
+  }
+
+  await addCustomerReply(ticket.id, null, body, { channel: 'email' });
+  return { accepted: true, ticketNumber };
+}
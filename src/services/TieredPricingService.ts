@@ -0,0 +1,247 @@
+/**
+ * Tiered Pricing Service
+ *
+ * Quantity price breaks ("buy 10+, pay 5% less each") that wholesale
+ * vendors set per product. Active tiers for a product must not overlap so
+ * the pricing engine always finds at most one break for a quantity.
+ */
+
+import prisma from '@/lib/prisma';
+import { BadRequestError, NotFoundError } from '@/lib/errors';
+import { resolveUnitPrice } from '@/lib/pricing';
+
+export interface PriceTierInput {
+  minQuantity: number;
+  maxQuantity?: number | null;
+  discountType: 'percentage' | 'fixed_amount';
+  discountValue: number;
+  isActive?: boolean;
+}
+
+export interface PriceBreak {
+  minQuantity: number;
+  maxQuantity: number | null;
+  discountType: 'percentage' | 'fixed_amount';
+  discountValue: number;
+  unitPrice: number;
+  savingsPercent: number;
+}
+
+// A break at one unit is just a different price; edit the product instead
+export const MIN_TIER_QUANTITY = 2;
+
+/**
+ * Check a product's active tiers for invalid ranges, discounts and overlaps
+ */
+export function validatePriceTiers(tiers: PriceTierInput[], unitPrice: number): void {
+  for (const tier of tiers) {
+    if (!Number.isInteger(tier.minQuantity) || tier.minQuantity < MIN_TIER_QUANTITY) {
+      throw new BadRequestError(`Quantity breaks must start at ${MIN_TIER_QUANTITY} units or more`, 'INVALID_PRICE_TIER', {
+        minQuantity: tier.minQuantity,
+      });
+    }
+    if (tier.maxQuantity != null && tier.maxQuantity < tier.minQuantity) {
+      throw new BadRequestError('maxQuantity cannot be less than minQuantity', 'INVALID_PRICE_TIER', {
+        minQuantity: tier.minQuantity,
+        maxQuantity: tier.maxQuantity,
+      });
+    }
+    if (tier.discountValue <= 0) {
+      throw new BadRequestError('Discount must be greater than zero', 'INVALID_PRICE_TIER');
+    }
+    if (tier.discountType === 'percentage' && tier.discountValue >= 100) {
+      throw new BadRequestError('Percentage discount must be less than 100', 'INVALID_PRICE_TIER');
+    }
+    if (tier.discountType === 'fixed_amount' && tier.discountValue >= unitPrice) {
+      throw new BadRequestError('Discount per unit must be less than the unit price', 'INVALID_PRICE_TIER', {
+        unitPrice,
+        discountValue: tier.discountValue,
+      });
+    }
+  }
+
+  const active = tiers
+    .filter((tier) => tier.isActive !== false)
+    .sort((a, b) => a.minQuantity - b.minQuantity);
+  for (let i = 1; i < active.length; i++) {
+    const previous = active[i - 1];
+    const current = active[i];
+    if (previous.maxQuantity == null || current.minQuantity <= previous.maxQuantity) {
+      throw new BadRequestError('Quantity ranges overlap', 'OVERLAPPING_PRICE_TIERS', {
+        tiers: [
+          { minQuantity: previous.minQuantity, maxQuantity: previous.maxQuantity ?? null },
+          { minQuantity: current.minQuantity, maxQuantity: current.maxQuantity ?? null },
+        ],
+      });
+    }
+  }
+}
+
+/**
+ * Per-unit price at each break, for the product page's price-break table
+ */
+export function buildPriceBreaks(tiers: PriceTierInput[], unitPrice: number): PriceBreak[] {
+  return tiers
+    .filter((tier) => tier.isActive !== false)
+    .sort((a, b) => a.minQuantity - b.minQuantity)
+    .map((tier) => {
+      const discount =
+        tier.discountType === 'percentage' ? (unitPrice * tier.discountValue) / 100 : tier.discountValue;
+      const tierPrice = Math.round(Math.max(0, unitPrice - discount) * 100) / 100;
+      return {
+        minQuantity: tier.minQuantity,
+        maxQuantity: tier.maxQuantity ?? null,
+        discountType: tier.discountType,
+        discountValue: tier.discountValue,
+        unitPrice: tierPrice,
+        savingsPercent: unitPrice > 0 ? Math.round((1 - tierPrice / unitPrice) * 1000) / 10 : 0,
+      };
+    });
+}
+
+const toInput = (tier: {
+  minQuantity: number;
+  maxQuantity: number | null;
+  discountType: string;
+  discountValue: unknown;
+  isActive: boolean;
+}): PriceTierInput => ({
+  minQuantity: tier.minQuantity,
+  maxQuantity: tier.maxQuantity,
+  discountType: tier.discountType as PriceTierInput['discountType'],
+  discountValue: Number(tier.discountValue),
+  isActive: tier.isActive,
+});
+
+async function getVendorProduct(vendorId: string, productId: string) {
+  const product = await prisma.product.findFirst({
+    where: { id: productId, vendor: { userId: vendorId } },
+    select: { id: true, price: true, salePrice: true },
+  });
+  if (!product) {
+    throw new NotFoundError('Product not found');
+  }
+  return product;
+}
+
+/**
+ * Active price breaks for a product, cheapest quantity first
+ */
+export async function getProductPriceBreaks(productId: string) {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: { id: true, price: true, salePrice: true, tieredPricing: { where: { isActive: true } } },
+  });
+  if (!product) {
+    throw new NotFoundError('Product not found');
+  }
+
+  const unitPrice = resolveUnitPrice(product);
+  return { unitPrice, breaks: buildPriceBreaks(product.tieredPricing.map(toInput), unitPrice) };
+}
+
+/**
+ * A vendor's tiers for one of their products, including inactive ones
+ */
+export async function listPriceTiers(vendorId: string, productId: string) {
+  await getVendorProduct(vendorId, productId);
+
+  return prisma.tieredPricing.findMany({
+    where: { productId },
+    orderBy: { minQuantity: 'asc' },
+  });
+}
+
+/**
+ * Add a quantity break to a vendor's product
+ */
+export async function createPriceTier(vendorId: string, productId: string, input: PriceTierInput) {
+  const product = await getVendorProduct(vendorId, productId);
+  const existing = await prisma.tieredPricing.findMany({ where: { productId } });
+
+  validatePriceTiers([...existing.map(toInput), input], resolveUnitPrice(product));
+
+  return prisma.tieredPricing.create({
+    data: {
+      productId,
+      minQuantity: input.minQuantity,
+      maxQuantity: input.maxQuantity ?? null,
+      discountType: input.discountType,
+      discountValue: input.discountValue,
+      isActive: input.isActive ?? true,
+    },
+  });
+}
+
+/**
+ * Change one quantity break
+ */
+export async function updatePriceTier(
+  vendorId: string,
+  productId: string,
+  tierId: string,
+  input: Partial<PriceTierInput>
+) {
+  const product = await getVendorProduct(vendorId, productId);
+  const existing = await prisma.tieredPricing.findMany({ where: { productId } });
+  const tier = existing.find((candidate) => candidate.id === tierId);
+  if (!tier) {
+    throw new NotFoundError('Price tier not found');
+  }
+
+  const updated: PriceTierInput = { ...toInput(tier), ...input };
+  validatePriceTiers(
+    [...existing.filter((candidate) => candidate.id !== tierId).map(toInput), updated],
+    resolveUnitPrice(product)
+  );
+
+  return prisma.tieredPricing.update({
+    where: { id: tierId },
+    data: {
+      minQuantity: updated.minQuantity,
+      maxQuantity: updated.maxQuantity ?? null,
+      discountType: updated.discountType,
+      discountValue: updated.discountValue,
+      isActive: updated.isActive,
+    },
+  });
+}
+
+/**
+ * Remove one quantity break
+ */
+export async function deletePriceTier(vendorId: string, productId: string, tierId: string) {
+  await getVendorProduct(vendorId, productId);
+
+  const result = await prisma.tieredPricing.deleteMany({ where: { id: tierId, productId } });
+  if (result.count === 0) {
+    throw new NotFoundError('Price tier not found');
+  }
+}
+
+/**
+ * Replace all of a product's breaks at once, as saved from the product editor
+ */
+export async function replacePriceTiers(vendorId: string, productId: string, tiers: PriceTierInput[]) {
+  const product = await getVendorProduct(vendorId, productId);
+  validatePriceTiers(tiers, resolveUnitPrice(product));
+
+  await prisma.$transaction([
+    prisma.tieredPricing.deleteMany({ where: { productId } }),
+    prisma.tieredPricing.createMany({
+      data: tiers.map((tier) => ({
+        productId,
+        minQuantity: tier.minQuantity,
+        maxQuantity: tier.maxQuantity ?? null,
+        discountType: tier.discountType,
+        discountValue: tier.discountValue,
+        isActive: tier.isActive ?? true,
+      })),
+    }),
+  ]);
+
+  return prisma.tieredPricing.findMany({
+    where: { productId },
+    orderBy: { minQuantity: 'asc' },
+  });
+}
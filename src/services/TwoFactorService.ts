@@ -0,0 +1,540 @@
+/**
+ * Two-Factor Authentication Service
+ *
+ * Enrolment and verification of the second factor: authenticator apps
+ * (TOTP), SMS one-time codes and single-use recovery codes. 2FA is opt-in
+ * for customers, mandatory for admins and mandatory for vendors when the
+ * site setting requires it.
+ *
+ * The same factors back step-up checks: before a sensitive action the user
+ * proves it is still them and receives a short-lived step-up token that the
+ * action's route checks with requireStepUp().
+ */
+
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
+import {
+  generatePurposeToken,
+  getTokenFromRequest,
+  getUserFromToken,
+  verifyPassword,
+  verifyPurposeToken,
+  type JWTPayload,
+} from '@/lib/auth';
+import { AppError, BadRequestError, ForbiddenError, NotFoundError, UnauthorizedError } from '@/lib/errors';
+import { sendSMS, formatEthiopianPhone } from '@/lib/sms';
+import { isSessionActive } from '@/services/SessionService';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from '@/lib/totp';
+
+export type TwoFactorMethod = 'totp' | 'sms' | 'recovery';
+export type ChallengePurpose = 'login' | 'step_up' | 'sms_enrolment';
+
+export const STEP_UP_HEADER = 'x-step-up-token';
+export const RECOVERY_CODE_COUNT = 10;
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const CHALLENGE_TTL_MINUTES = 10;
+const STEP_UP_TTL = '5m';
+const STEP_UP_LOCK_MINUTES = 15;
+const SETUP_TOKEN_TTL = '15m';
+
+export interface TwoFactorStatus {
+  totpEnabled: boolean;
+  smsEnabled: boolean;
+  smsPhone: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+export interface SecondFactorInput {
+  method: TwoFactorMethod;
+  code: string;
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error('TWO_FACTOR_ENCRYPTION_KEY environment variable must be set in production');
+  }
+  return crypto.createHash('sha256').update(secret || 'dev-secret-key-change-in-production').digest();
+}
+
+function encryptSecret(plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toUpperCase()).digest('hex');
+}
+
+function maskPhone(phone: string): string {
+  return `${phone.slice(0, 4)}****${phone.slice(-2)}`;
+}
+
+function newSmsCode(): string {
+  return crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+}
+
+function newRecoveryCode(): string {
+  const raw = crypto.randomBytes(5).toString('hex').toUpperCase();
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+function challengeExpiry(): Date {
+  return new Date(Date.now() + CHALLENGE_TTL_MINUTES * 60 * 1000);
+}
+
+/**
+ * Whether a role must have a second factor before it can sign in
+ */
+export async function isTwoFactorRequired(role: string): Promise<boolean> {
+  if (role === 'admin') return true;
+  if (role !== 'vendor') return false;
+
+  const settings = await prisma.siteSettings.findFirst({
+    orderBy: { updatedAt: 'desc' },
+    select: { requireVendorTwoFactor: true },
+  });
+  return settings?.requireVendorTwoFactor ?? false;
+}
+
+async function getEnabledMethods(userId: string): Promise<TwoFactorMethod[]> {
+  const record = await prisma.userTwoFactor.findUnique({ where: { userId } });
+  const methods: TwoFactorMethod[] = [];
+  if (record?.totpEnabledAt) methods.push('totp');
+  if (record?.smsEnabledAt) methods.push('sms');
+  return methods;
+}
+
+export async function getTwoFactorStatus(userId: string, role: string): Promise<TwoFactorStatus> {
+  const [record, recoveryCodesRemaining, required] = await Promise.all([
+    prisma.userTwoFactor.findUnique({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+    isTwoFactorRequired(role),
+  ]);
+
+  return {
+    totpEnabled: !!record?.totpEnabledAt,
+    smsEnabled: !!record?.smsEnabledAt,
+    smsPhone: record?.smsEnabledAt && record.smsPhone ? maskPhone(record.smsPhone) : null,
+    recoveryCodesRemaining,
+    required,
+  };
+}
+
+/**
+ * Replace a user's recovery codes; the plain codes are only ever returned here
+ */
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, newRecoveryCode);
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+// Recovery codes are issued with the first factor a user turns on
+async function recoveryCodesForNewFactor(userId: string, previouslyEnabled: TwoFactorMethod[]) {
+  return previouslyEnabled.length === 0 ? generateRecoveryCodes(userId) : null;
+}
+
+/**
+ * Start authenticator app enrolment: a new secret to show as a QR code
+ */
+export async function beginTotpEnrolment(userId: string, email: string | null) {
+  const secret = generateTotpSecret();
+  // Phone-registered accounts are labelled by their phone number in the app
+  const accountName = email ?? (await prisma.user.findUnique({ where: { id: userId }, select: { phone: true } }))?.phone;
+
+  await prisma.userTwoFactor.upsert({
+    where: { userId },
+    create: { userId, totpPendingSecret: encryptSecret(secret) },
+    update: { totpPendingSecret: encryptSecret(secret) },
+  });
+
+  return { secret, otpauthUrl: buildOtpauthUrl(secret, accountName) };
+}
+
+/**
+ * Finish authenticator app enrolment with the first code the app shows
+ */
+export async function confirmTotpEnrolment(userId: string, code: string) {
+  const record = await prisma.userTwoFactor.findUnique({ where: { userId } });
+  if (!record?.totpPendingSecret) {
+    throw new BadRequestError('Start authenticator setup first', 'TOTP_SETUP_NOT_STARTED');
+  }
+
+  const secret = decryptSecret(record.totpPendingSecret);
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    throw new BadRequestError('Invalid authentication code', 'INVALID_TWO_FACTOR_CODE');
+  }
+
+  const previouslyEnabled = await getEnabledMethods(userId);
+  await prisma.userTwoFactor.update({
+    where: { userId },
+    data: {
+      totpSecret: record.totpPendingSecret,
+      totpPendingSecret: null,
+      totpEnabledAt: new Date(),
+      totpLastStep: step,
+    },
+  });
+
+  return { recoveryCodes: await recoveryCodesForNewFactor(userId, previouslyEnabled) };
+}
+
+async function sendChallengeSms(challengeId: string, phone: string) {
+  const code = newSmsCode();
+
+  await prisma.twoFactorChallenge.update({
+    where: { id: challengeId },
+    data: { codeHash: hashCode(code), phone, expiresAt: challengeExpiry() },
+  });
+
+  const sent = await sendSMS({
+    to: phone,
+    message: `Minalesh: Your verification code is ${code}. It expires in ${CHALLENGE_TTL_MINUTES} minutes. Never share this code.`,
+  });
+  if (!sent) {
+    throw new AppError('Could not send verification code', 502, 'SMS_SEND_FAILED');
+  }
+}
+
+/**
+ * Start SMS enrolment by texting a code to the phone number
+ */
+export async function beginSmsEnrolment(userId: string, phone: string) {
+  const formatted = formatEthiopianPhone(phone);
+  const challenge = await prisma.twoFactorChallenge.create({
+    data: { userId, purpose: 'sms_enrolment', phone: formatted, expiresAt: challengeExpiry() },
+  });
+
+  await sendChallengeSms(challenge.id, formatted);
+
+  return { challengeId: challenge.id, phone: maskPhone(formatted) };
+}
+
+/**
+ * Finish SMS enrolment with the code that was texted
+ */
+export async function confirmSmsEnrolment(userId: string, challengeId: string, code: string) {
+  const challenge = await verifyChallenge(challengeId, 'sms_enrolment', { method: 'sms', code }, userId);
+
+  const previouslyEnabled = await getEnabledMethods(userId);
+  await prisma.userTwoFactor.upsert({
+    where: { userId },
+    create: { userId, smsPhone: challenge.phone, smsEnabledAt: new Date() },
+    update: { smsPhone: challenge.phone, smsEnabledAt: new Date() },
+  });
+
+  return { recoveryCodes: await recoveryCodesForNewFactor(userId, previouslyEnabled) };
+}
+
+/**
+ * Turn 2FA off; roles that require it cannot
+ */
+export async function disableTwoFactor(userId: string, role: string): Promise<void> {
+  if (await isTwoFactorRequired(role)) {
+    throw new ForbiddenError('Two-factor authentication is required for your account', 'TWO_FACTOR_REQUIRED');
+  }
+
+  await prisma.$transaction([
+    prisma.userTwoFactor.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+}
+
+/**
+ * Open a challenge for the second step of a login or a step-up check.
+ * If SMS is the only factor the code is sent straight away.
+ */
+export async function startChallenge(userId: string, purpose: 'login' | 'step_up') {
+  const methods = await getEnabledMethods(userId);
+  const challenge = await prisma.twoFactorChallenge.create({
+    data: { userId, purpose, expiresAt: challengeExpiry() },
+  });
+
+  if (methods.length === 1 && methods[0] === 'sms') {
+    await sendChallengeCode(challenge.id);
+  }
+
+  return { challengeId: challenge.id, methods: [...methods, 'recovery'] as TwoFactorMethod[] };
+}
+
+/**
+ * What a password login must do before tokens are issued: answer a
+ * challenge, enrol first because 2FA is required, or nothing
+ */
+export async function getLoginSecondStep(user: JWTPayload) {
+  const methods = await getEnabledMethods(user.userId);
+  if (methods.length > 0) {
+    return { twoFactorRequired: true as const, ...(await startChallenge(user.userId, 'login')) };
+  }
+
+  if (await isTwoFactorRequired(user.role)) {
+    return { twoFactorSetupRequired: true as const, setupToken: issueTwoFactorSetupToken(user) };
+  }
+
+  return null;
+}
+
+/**
+ * Text a code for an open login or step-up challenge
+ */
+export async function sendChallengeCode(challengeId: string, userId?: string) {
+  const challenge = await prisma.twoFactorChallenge.findUnique({ where: { id: challengeId } });
+  if (!challenge || challenge.consumedAt || (userId && challenge.userId !== userId)) {
+    throw new NotFoundError('Verification request not found');
+  }
+
+  const record = await prisma.userTwoFactor.findUnique({ where: { userId: challenge.userId } });
+  if (!record?.smsEnabledAt || !record.smsPhone) {
+    throw new BadRequestError('SMS verification is not set up', 'SMS_NOT_ENABLED');
+  }
+
+  await sendChallengeSms(challenge.id, record.smsPhone);
+  return { phone: maskPhone(record.smsPhone) };
+}
+
+/**
+ * Text a step-up code to a signed-in user's verified phone
+ */
+export async function startStepUpSms(userId: string) {
+  const challenge = await prisma.twoFactorChallenge.create({
+    data: { userId, purpose: 'step_up', expiresAt: challengeExpiry() },
+  });
+
+  const { phone } = await sendChallengeCode(challenge.id, userId);
+  return { challengeId: challenge.id, phone };
+}
+
+async function verifyFactor(
+  userId: string,
+  input: SecondFactorInput,
+  challenge?: { codeHash: string | null }
+): Promise<boolean> {
+  if (input.method === 'totp') {
+    const record = await prisma.userTwoFactor.findUnique({ where: { userId } });
+    if (!record?.totpEnabledAt || !record.totpSecret) return false;
+
+    const step = verifyTotp(decryptSecret(record.totpSecret), input.code);
+    if (step === null || (record.totpLastStep !== null && step <= record.totpLastStep)) {
+      return false;
+    }
+    // Conditional update so the same code cannot be used twice concurrently
+    const claimed = await prisma.userTwoFactor.updateMany({
+      where: { userId, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+      data: { totpLastStep: step },
+    });
+    return claimed.count === 1;
+  }
+
+  if (input.method === 'sms') {
+    if (!challenge?.codeHash) return false;
+    return crypto.timingSafeEqual(Buffer.from(challenge.codeHash), Buffer.from(hashCode(input.code)));
+  }
+
+  const used = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashCode(input.code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return used.count === 1;
+}
+
+/**
+ * Check a second factor against an open challenge and consume it
+ */
+export async function verifyChallenge(
+  challengeId: string,
+  purpose: ChallengePurpose,
+  input: SecondFactorInput,
+  userId?: string
+) {
+  const challenge = await prisma.twoFactorChallenge.findUnique({ where: { id: challengeId } });
+  if (
+    !challenge ||
+    challenge.purpose !== purpose ||
+    challenge.consumedAt ||
+    challenge.expiresAt < new Date() ||
+    (userId && challenge.userId !== userId)
+  ) {
+    throw new UnauthorizedError('Verification expired, please start again', 'CHALLENGE_EXPIRED');
+  }
+
+  // Count the guess before checking it, so parallel guesses cannot go past the limit
+  const counted = await prisma.twoFactorChallenge.updateMany({
+    where: { id: challenge.id, attempts: { lt: MAX_CHALLENGE_ATTEMPTS } },
+    data: { attempts: { increment: 1 } },
+  });
+  if (counted.count === 0) {
+    throw new AppError('Too many incorrect codes, please start again', 429, 'TOO_MANY_ATTEMPTS');
+  }
+
+  if (!(await verifyFactor(challenge.userId, input, challenge))) {
+    throw new UnauthorizedError('Invalid authentication code', 'INVALID_TWO_FACTOR_CODE');
+  }
+
+  const consumed = await prisma.twoFactorChallenge.updateMany({
+    where: { id: challenge.id, consumedAt: null },
+    data: { consumedAt: new Date() },
+  });
+  if (consumed.count === 0) {
+    throw new UnauthorizedError('Verification expired, please start again', 'CHALLENGE_EXPIRED');
+  }
+
+  return challenge;
+}
+
+/**
+ * Count an authenticator or recovery code tried at step-up. These have no
+ * challenge to count against, so the attempts are kept on the user's 2FA
+ * record and lock step-up for a while once they run out.
+ */
+async function countStepUpAttempt(userId: string) {
+  const now = new Date();
+
+  // A lock that has run out starts a fresh set of attempts
+  await prisma.userTwoFactor.updateMany({
+    where: { userId, stepUpLockedUntil: { lte: now } },
+    data: { stepUpAttempts: 0, stepUpLockedUntil: null },
+  });
+
+  const counted = await prisma.userTwoFactor.updateMany({
+    where: { userId, stepUpAttempts: { lt: MAX_CHALLENGE_ATTEMPTS } },
+    data: { stepUpAttempts: { increment: 1 } },
+  });
+  if (counted.count === 0) {
+    await prisma.userTwoFactor.updateMany({
+      where: { userId, stepUpLockedUntil: null },
+      data: { stepUpLockedUntil: new Date(now.getTime() + STEP_UP_LOCK_MINUTES * 60 * 1000) },
+    });
+    throw new AppError('Too many incorrect codes, please try again later', 429, 'TOO_MANY_ATTEMPTS');
+  }
+}
+
+/**
+ * Short-lived token letting a user who must enrol in 2FA reach the setup endpoints only
+ */
+export function issueTwoFactorSetupToken(user: JWTPayload): string {
+  return generatePurposeToken(
+    { userId: user.userId, email: user.email, role: user.role },
+    'two_factor_setup',
+    SETUP_TOKEN_TTL
+  );
+}
+
+/**
+ * The user calling a 2FA management endpoint, signed in or mid-login with a setup token
+ */
+export async function requireTwoFactorActor(request: Request): Promise<{ user: JWTPayload; setup: boolean }> {
+  const token = getTokenFromRequest(request);
+  const user = await getUserFromToken(token);
+  if (user) {
+    if (user.sessionId && !(await isSessionActive(user.sessionId))) {
+      throw new UnauthorizedError('Session has ended, please log in again');
+    }
+    return { user, setup: false };
+  }
+
+  const setupUser = token ? verifyPurposeToken(token, 'two_factor_setup') : null;
+  if (setupUser) {
+    return { user: setupUser, setup: true };
+  }
+
+  throw new UnauthorizedError('Authentication required');
+}
+
+/**
+ * The user calling a factor enrolment endpoint. A setup token only covers
+ * enrolling the first factor; once 2FA is on, adding or replacing a factor
+ * is a sensitive action that needs a step-up.
+ */
+export async function requireEnrolmentActor(request: Request): Promise<{ user: JWTPayload; setup: boolean }> {
+  const actor = await requireTwoFactorActor(request);
+
+  const methods = await getEnabledMethods(actor.user.userId);
+  if (methods.length > 0) {
+    if (actor.setup) {
+      throw new ForbiddenError('Two-factor authentication is already set up, please log in again', 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+    requireStepUp(request, actor.user);
+  }
+
+  return actor;
+}
+
+/**
+ * Confirm identity before a sensitive action. Users with 2FA prove a second
+ * factor (SMS needs the challenge the code was sent for); users without it
+ * re-enter their password.
+ */
+export async function stepUp(
+  user: JWTPayload,
+  input: { method?: TwoFactorMethod; code?: string; challengeId?: string; password?: string }
+) {
+  const methods = await getEnabledMethods(user.userId);
+
+  if (methods.length > 0) {
+    if (!input.method || !input.code) {
+      throw new BadRequestError('Enter a verification code', 'TWO_FACTOR_CODE_REQUIRED', { methods });
+    }
+    if (input.method === 'sms') {
+      if (!input.challengeId) {
+        throw new BadRequestError('Request an SMS code first', 'CHALLENGE_REQUIRED');
+      }
+      await verifyChallenge(input.challengeId, 'step_up', { method: 'sms', code: input.code }, user.userId);
+    } else {
+      await countStepUpAttempt(user.userId);
+      if (!(await verifyFactor(user.userId, { method: input.method, code: input.code }))) {
+        throw new UnauthorizedError('Invalid authentication code', 'INVALID_TWO_FACTOR_CODE');
+      }
+      await prisma.userTwoFactor.update({ where: { userId: user.userId }, data: { stepUpAttempts: 0 } });
+    }
+  } else {
+    const account = await prisma.user.findUnique({ where: { id: user.userId }, select: { password: true } });
+    if (!input.password || !account || !(await verifyPassword(input.password, account.password))) {
+      throw new UnauthorizedError('Incorrect password', 'INVALID_PASSWORD');
+    }
+  }
+
+  return {
+    stepUpToken: generatePurposeToken(
+      { userId: user.userId, email: user.email, role: user.role, sessionId: user.sessionId },
+      'step_up',
+      STEP_UP_TTL
+    ),
+  };
+}
+
+/**
+ * Guard for sensitive actions: the request must carry a recent step-up token
+ * for the same user (and session, when the access token has one)
+ */
+export function requireStepUp(request: Request, user: JWTPayload): void {
+  const token = request.headers.get(STEP_UP_HEADER);
+  const payload = token ? verifyPurposeToken(token, 'step_up') : null;
+
+  if (
+    !payload ||
+    payload.userId !== user.userId ||
+    (user.sessionId && payload.sessionId !== user.sessionId)
+  ) {
+    throw new ForbiddenError('Please confirm your identity to continue', 'STEP_UP_REQUIRED');
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Vendor Order Service
+ *
+ * An order with items from several vendors is split into vendor orders
+ * (sub-orders), one per vendor. Each is confirmed, packed, shipped and
+ * tracked by its vendor on its own, with its own shipping charge and
+ * timeline events; the order's status is derived from theirs
+ * (deriveOrderStatus). Payment and refunds stay on the order.
+ */
+
+import prisma from '@/lib/prisma';
+import type { OrderStatus, Prisma } from '@prisma/client';
+import { BadRequestError, NotFoundError } from '@/lib/errors';
+import {
+  deriveOrderStatus,
+  getStatusTimestamp,
+  isTerminalStatus,
+  validateStatusTransition,
+  type VendorOrderStatus,
+} from '@/lib/order-status';
+import { getLogisticsProvider, sendTrackingNotification } from '@/lib/logistics';
+import { awardPointsForPurchase } from '@/services/LoyaltyService';
+import type { ShippingOption } from '@/lib/shipping';
+
+export interface VendorOrderTrackingInput {
+  logisticsProvider?: string | null;
+  providerTrackingId?: string | null;
+  courierName?: string | null;
+  courierPhone?: string | null;
+  estimatedDeliveryStart?: Date | null;
+  estimatedDeliveryEnd?: Date | null;
+}
+
+// Order stages buyers get an SMS for
+const SMS_STAGES: OrderStatus[] = ['confirmed', 'packed', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered'];
+
+const VENDOR_ORDER_INCLUDE = {
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      paymentMethod: true,
+      paymentStatus: true,
+      shippingAddress: true,
+      createdAt: true,
+    },
+  },
+  orderItems: {
+    select: { id: true, productId: true, variantId: true, productName: true, productSku: true, quantity: true, price: true, total: true },
+  },
+  shippingMethod: { select: { id: true, name: true, carrier: true } },
+  deliveryTracking: true,
+} as const;
+
+/**
+ * VendorOrder has no paidAt: payment is recorded on the order
+ */
+function vendorOrderTimestamp(status: OrderStatus, at: Date): Record<string, Date> {
+  return status === 'paid' ? {} : getStatusTimestamp(status, at);
+}
+
+/**
+ * A vendor order still pending on a paid order is treated as paid
+ */
+function effectiveStatus(vendorStatus: OrderStatus, orderStatus: OrderStatus): OrderStatus {
+  return vendorStatus === 'pending' && orderStatus !== 'pending' && !isTerminalStatus(orderStatus)
+    ? 'paid'
+    : vendorStatus;
+}
+
+/**
+ * Split a new order into one vendor order per vendor, numbered after the
+ * order, with the shipping charge of that vendor's shipment
+ */
+export async function createVendorOrders(
+  tx: Prisma.TransactionClient,
+  order: { id: string; orderNumber: string; orderItems: Array<{ id: string; vendorId: string; total: unknown }> },
+  shipments: Array<{ vendorId: string; selected: ShippingOption | null }> = []
+) {
+  const itemsByVendor = new Map<string, Array<{ id: string; total: unknown }>>();
+  for (const item of order.orderItems) {
+    itemsByVendor.set(item.vendorId, [...(itemsByVendor.get(item.vendorId) ?? []), item]);
+  }
+
+  const vendorOrders = [];
+  let index = 0;
+  for (const [vendorId, items] of itemsByVendor) {
+    index += 1;
+    const shipping = shipments.find((shipment) => shipment.vendorId === vendorId)?.selected ?? null;
+    const subtotal = items.reduce((sum, item) => sum + Number(item.total), 0);
+
+    const vendorOrder = await tx.vendorOrder.create({
+      data: {
+        orderId: order.id,
+        vendorId,
+        number: `${order.orderNumber}-${index}`,
+        subtotal: subtotal.toFixed(2),
+        shippingAmount: (shipping?.rate ?? 0).toFixed(2),
+        shippingMethodId: shipping?.methodId ?? null,
+      },
+    });
+    await tx.orderItem.updateMany({
+      where: { id: { in: items.map((item) => item.id) } },
+      data: { vendorOrderId: vendorOrder.id },
+    });
+    vendorOrders.push(vendorOrder);
+  }
+
+  return vendorOrders;
+}
+
+/**
+ * A vendor's own vendor orders, newest first
+ */
+export async function listVendorOrders(
+  vendorId: string,
+  query: { status?: OrderStatus; page?: number; limit?: number } = {}
+) {
+  const page = Math.max(1, query.page || 1);
+  const limit = Math.min(100, Math.max(1, query.limit || 20));
+  const where = { vendorId, ...(query.status && { status: query.status }) };
+
+  const [vendorOrders, total] = await Promise.all([
+    prisma.vendorOrder.findMany({
+      where,
+      include: VENDOR_ORDER_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.vendorOrder.count({ where }),
+  ]);
+
+  return {
+    vendorOrders,
+    pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+  };
+}
+
+/**
+ * One of the vendor's vendor orders with its timeline
+ */
+export async function getVendorOrder(vendorId: string, vendorOrderId: string) {
+  const vendorOrder = await prisma.vendorOrder.findFirst({
+    where: { id: vendorOrderId, vendorId },
+    include: {
+      ...VENDOR_ORDER_INCLUDE,
+      orderEvents: { orderBy: { createdAt: 'desc' } },
+    },
+  });
+  if (!vendorOrder) {
+    throw new NotFoundError('Vendor order not found');
+  }
+  return vendorOrder;
+}
+
+/**
+ * Move a vendor order along, then re-derive the order's status. The buyer
+ * hears about the order reaching a new stage, not about each vendor order.
+ */
+export async function updateVendorOrderStatus(
+  vendorId: string,
+  vendorOrderId: string,
+  status: VendorOrderStatus,
+  actorId: string,
+  notes?: string | null
+) {
+  const vendorOrder = await prisma.vendorOrder.findFirst({
+    where: { id: vendorOrderId, vendorId },
+    include: { order: { select: { id: true, userId: true, status: true, totalAmount: true } } },
+  });
+  if (!vendorOrder) {
+    throw new NotFoundError('Vendor order not found');
+  }
+  const { order } = vendorOrder;
+
+  const validation = validateStatusTransition(effectiveStatus(vendorOrder.status, order.status), status);
+  if (!validation.valid) {
+    throw new BadRequestError(validation.error, 'INVALID_STATUS_TRANSITION');
+  }
+
+  const now = new Date();
+  const result = await prisma.$transaction(async (tx) => {
+    const updated = await tx.vendorOrder.update({
+      where: { id: vendorOrderId },
+      data: { status, ...vendorOrderTimestamp(status, now) },
+    });
+    await tx.orderEvent.create({
+      data: {
+        orderId: order.id,
+        vendorOrderId,
+        eventType: 'status_changed',
+        status,
+        description: notes || `${vendorOrder.number} status changed to ${status}`,
+        metadata: { previousStatus: vendorOrder.status, newStatus: status, changedBy: actorId },
+      },
+    });
+
+    const siblings = await tx.vendorOrder.findMany({ where: { orderId: order.id }, select: { status: true } });
+    const orderStatus = deriveOrderStatus(order.status, siblings.map((sibling) => sibling.status));
+    if (orderStatus !== order.status) {
+      await tx.order.update({
+        where: { id: order.id },
+        data: { status: orderStatus, ...getStatusTimestamp(orderStatus, now) },
+      });
+      await tx.orderEvent.create({
+        data: {
+          orderId: order.id,
+          eventType: 'status_changed',
+          status: orderStatus,
+          description: `Order status changed to ${orderStatus}`,
+          metadata: { previousStatus: order.status, newStatus: orderStatus, derivedFrom: vendorOrder.number },
+        },
+      });
+    }
+
+    return { vendorOrder: updated, orderStatus };
+  });
+
+  if (result.orderStatus !== order.status) {
+    if (SMS_STAGES.includes(result.orderStatus)) {
+      sendTrackingNotification(order.id, result.orderStatus).catch((error) => {
+        console.error('Failed to send SMS notification:', error);
+      });
+    }
+    if (result.orderStatus === 'delivered' && order.userId) {
+      awardPointsForPurchase(order.userId, order.id, Number(order.totalAmount)).catch((error) => {
+        console.error('Failed to award loyalty points:', error);
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply a status set on the whole order (by an admin or a payment) to its
+ * vendor orders that can take it; the others keep theirs
+ */
+export async function applyOrderStatusToVendorOrders(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  status: OrderStatus,
+  changedBy: string
+): Promise<number> {
+  const vendorOrders = await tx.vendorOrder.findMany({
+    where: { orderId },
+    select: { id: true, number: true, status: true },
+  });
+
+  const now = new Date();
+  let applied = 0;
+  for (const vendorOrder of vendorOrders) {
+    // An order moving past payment was paid, whether or not its vendor orders recorded it
+    const from = vendorOrder.status === 'pending' && status !== 'paid' && status !== 'cancelled'
+      ? 'paid'
+      : vendorOrder.status;
+    if (from === status || !validateStatusTransition(from, status).valid) {
+      continue;
+    }
+    await tx.vendorOrder.update({
+      where: { id: vendorOrder.id },
+      data: { status, ...vendorOrderTimestamp(status, now) },
+    });
+    await tx.orderEvent.create({
+      data: {
+        orderId,
+        vendorOrderId: vendorOrder.id,
+        eventType: 'status_changed',
+        status,
+        description: `${vendorOrder.number} status changed to ${status} with the order`,
+        metadata: { previousStatus: vendorOrder.status, newStatus: status, changedBy },
+      },
+    });
+    applied += 1;
+  }
+  return applied;
+}
+
+/**
+ * Carrier and courier details for a vendor order's shipment
+ */
+export async function updateVendorOrderTracking(
+  vendorId: string,
+  vendorOrderId: string,
+  input: VendorOrderTrackingInput,
+  actorId: string
+) {
+  const vendorOrder = await prisma.vendorOrder.findFirst({
+    where: { id: vendorOrderId, vendorId },
+    select: { id: true, orderId: true, number: true },
+  });
+  if (!vendorOrder) {
+    throw new NotFoundError('Vendor order not found');
+  }
+  if (input.logisticsProvider && !getLogisticsProvider(input.logisticsProvider)) {
+    throw new BadRequestError(`Unknown logistics provider: ${input.logisticsProvider}`, 'UNKNOWN_LOGISTICS_PROVIDER');
+  }
+  if (
+    input.estimatedDeliveryStart &&
+    input.estimatedDeliveryEnd &&
+    input.estimatedDeliveryEnd < input.estimatedDeliveryStart
+  ) {
+    throw new BadRequestError('Delivery window must end after it starts', 'INVALID_DELIVERY_WINDOW');
+  }
+
+  const data = {
+    ...input,
+    ...(input.logisticsProvider !== undefined && {
+      providerWebhookEnabled: input.logisticsProvider
+        ? getLogisticsProvider(input.logisticsProvider)?.webhookEnabled ?? false
+        : false,
+    }),
+  };
+
+  const tracking = await prisma.$transaction(async (tx) => {
+    const saved = await tx.deliveryTracking.upsert({
+      where: { vendorOrderId },
+      update: data,
+      create: { vendorOrderId, ...data },
+    });
+    await tx.orderEvent.create({
+      data: {
+        orderId: vendorOrder.orderId,
+        vendorOrderId,
+        eventType: 'tracking_update',
+        description: `Tracking updated for ${vendorOrder.number}`,
+        metadata: {
+          logisticsProvider: saved.logisticsProvider,
+          providerTrackingId: saved.providerTrackingId,
+          courierName: saved.courierName,
+          changedBy: actorId,
+        },
+      },
+    });
+    return saved;
+  });
+
+  return tracking;
+}
@@ -0,0 +1,421 @@
+/**
+ * Vendor Organization Service
+ *
+ * Lets a vendor run their shop with a team. The shop is still the owner's
+ * vendor profile; staff members are other users linked to it with a set of
+ * permissions (catalog, orders, finance, messaging). Vendor routes resolve
+ * the shop through getVendorContext so owners and staff share one code path,
+ * and every staff change lands in the shop's audit log.
+ */
+
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
+import { generateRandomToken, generateToken, type JWTPayload } from '@/lib/auth';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '@/lib/errors';
+import { sendEmail } from '@/lib/email';
+import { renderEmail } from '@/services/EmailTemplateService';
+import {
+  VENDOR_PERMISSIONS,
+  VENDOR_PERMISSION_LABELS,
+  isVendorPermission,
+  type VendorPermission,
+} from '@/lib/permissions';
+import { recordAudit } from '@/services/AuditLogService';
+import { revokeAllSessions } from '@/services/SessionService';
+
+export const STAFF_INVITE_TTL_DAYS = 7;
+
+export interface VendorContext {
+  /** The shop: the owner's vendor profile */
+  vendor: {
+    id: string;
+    userId: string;
+    displayName: string | null;
+    isVendor: boolean;
+    vendorStatus: string;
+  };
+  /** The user acting for the shop, owner or staff */
+  actorId: string;
+  isOwner: boolean;
+  permissions: VendorPermission[];
+}
+
+export interface StaffInviteInput {
+  email: string;
+  permissions: VendorPermission[];
+}
+
+const MEMBER_USER_SELECT = {
+  id: true,
+  email: true,
+  phone: true,
+  profile: { select: { displayName: true, firstName: true, lastName: true } },
+} as const;
+
+function hashInviteToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function normalizePermissions(permissions: string[]): VendorPermission[] {
+  return VENDOR_PERMISSIONS.filter((permission) => permissions.includes(permission));
+}
+
+/**
+ * The shop a user works for, as its owner or as staff, or null if none
+ */
+export async function loadVendorContext(userId: string): Promise<VendorContext | null> {
+  const own = await prisma.profile.findUnique({ where: { userId } });
+  if (own?.isVendor) {
+    return { vendor: own, actorId: userId, isOwner: true, permissions: [...VENDOR_PERMISSIONS] };
+  }
+
+  const membership = await prisma.vendorStaffMember.findUnique({
+    where: { userId },
+    include: { vendor: true },
+  });
+  if (!membership || !membership.vendor.isVendor) {
+    return null;
+  }
+
+  return {
+    vendor: membership.vendor,
+    actorId: userId,
+    isOwner: false,
+    permissions: membership.permissions.filter(isVendorPermission),
+  };
+}
+
+/**
+ * Like loadVendorContext, but also null when the user lacks the permission.
+ * For routes that build their own 403 response.
+ */
+export async function getVendorContext(
+  userId: string,
+  permission?: VendorPermission
+): Promise<VendorContext | null> {
+  const context = await loadVendorContext(userId);
+  if (!context || (permission && !context.permissions.includes(permission))) {
+    return null;
+  }
+  return context;
+}
+
+/**
+ * Resolve the shop for a vendor route, throwing 403 when the user is not a
+ * vendor or staff member or lacks the permission
+ */
+export async function requireVendorContext(
+  user: Pick<JWTPayload, 'userId'>,
+  permission?: VendorPermission
+): Promise<VendorContext> {
+  const context = await loadVendorContext(user.userId);
+  if (!context) {
+    throw new ForbiddenError('Not authorized as vendor', 'NOT_A_VENDOR');
+  }
+  if (permission && !context.permissions.includes(permission)) {
+    throw new ForbiddenError(
+      `Your role in this shop does not include ${VENDOR_PERMISSION_LABELS[permission].toLowerCase()}`,
+      'VENDOR_PERMISSION_DENIED'
+    );
+  }
+  return context;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2002';
+}
+
+function assertOwner(context: VendorContext) {
+  if (!context.isOwner) {
+    throw new ForbiddenError('Only the shop owner can manage staff', 'SHOP_OWNER_ONLY');
+  }
+}
+
+/**
+ * Record a change made for a shop in its audit log
+ */
+export function recordVendorAudit(
+  context: VendorContext,
+  action: string,
+  entityType: string,
+  entityId: string | null,
+  changes?: Record<string, unknown> | null,
+  ipAddress?: string | null
+) {
+  return recordAudit({
+    scope: 'vendor',
+    vendorId: context.vendor.id,
+    actorId: context.actorId,
+    action,
+    entityType,
+    entityId,
+    changes,
+    ipAddress,
+  });
+}
+
+/**
+ * Staff members and invitations that are still open
+ */
+export async function listStaff(context: VendorContext) {
+  assertOwner(context);
+
+  const [members, invites] = await Promise.all([
+    prisma.vendorStaffMember.findMany({
+      where: { vendorId: context.vendor.id },
+      include: { user: { select: MEMBER_USER_SELECT } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.vendorStaffInvite.findMany({
+      where: {
+        vendorId: context.vendor.id,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: { id: true, email: true, permissions: true, expiresAt: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+
+  return { members, invites };
+}
+
+/**
+ * Email an invitation to join the shop. Inviting the same address again
+ * replaces the earlier invitation.
+ */
+export async function inviteStaff(context: VendorContext, input: StaffInviteInput, ipAddress?: string | null) {
+  assertOwner(context);
+
+  const email = input.email.trim().toLowerCase();
+  const permissions = normalizePermissions(input.permissions);
+  if (permissions.length === 0) {
+    throw new BadRequestError('Choose at least one permission', 'NO_PERMISSIONS');
+  }
+
+  const invitee = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, profile: { select: { isVendor: true } }, vendorStaffMembership: { select: { vendorId: true } } },
+  });
+  if (invitee?.id === context.vendor.userId) {
+    throw new BadRequestError('You already own this shop', 'CANNOT_INVITE_SELF');
+  }
+  if (invitee?.profile?.isVendor) {
+    throw new ConflictError('This person runs their own shop', 'ALREADY_VENDOR');
+  }
+  if (invitee?.vendorStaffMembership) {
+    throw new ConflictError('This person already works for a shop', 'ALREADY_STAFF');
+  }
+
+  const token = generateRandomToken();
+  const now = new Date();
+
+  const [, invite] = await prisma.$transaction([
+    prisma.vendorStaffInvite.updateMany({
+      where: { vendorId: context.vendor.id, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: now },
+    }),
+    prisma.vendorStaffInvite.create({
+      data: {
+        vendorId: context.vendor.id,
+        email,
+        permissions,
+        tokenHash: hashInviteToken(token),
+        invitedById: context.actorId,
+        expiresAt: new Date(now.getTime() + STAFF_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+      },
+      select: { id: true, email: true, permissions: true, expiresAt: true, createdAt: true },
+    }),
+  ]);
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const storeName = context.vendor.displayName || 'a Minalesh shop';
+  await sendEmail(
+    await renderEmail('vendor_staff_invite', email, {
+      storeName,
+      permissionLabels: permissions.map((permission) => VENDOR_PERMISSION_LABELS[permission]),
+      inviteToken: token,
+      appUrl,
+    })
+  );
+
+  await recordVendorAudit(context, 'staff.invite', 'vendor_staff_invite', invite.id, { email, permissions }, ipAddress);
+
+  return invite;
+}
+
+/**
+ * Withdraw an invitation that has not been accepted yet
+ */
+export async function revokeInvite(context: VendorContext, inviteId: string, ipAddress?: string | null) {
+  assertOwner(context);
+
+  const revoked = await prisma.vendorStaffInvite.updateMany({
+    where: { id: inviteId, vendorId: context.vendor.id, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (revoked.count === 0) {
+    throw new NotFoundError('Invitation not found');
+  }
+
+  await recordVendorAudit(context, 'staff.invite_revoke', 'vendor_staff_invite', inviteId, null, ipAddress);
+}
+
+/**
+ * Join a shop with an invitation token. The signed-in account's email must
+ * match the invitation. Returns a fresh access token because customers
+ * become vendors when they join.
+ */
+export async function acceptInvite(user: JWTPayload, token: string, ipAddress?: string | null) {
+  const invite = await prisma.vendorStaffInvite.findUnique({
+    where: { tokenHash: hashInviteToken(token) },
+    include: { vendor: { select: { id: true, userId: true, displayName: true, isVendor: true } } },
+  });
+  if (!invite || invite.acceptedAt || invite.revokedAt || invite.expiresAt < new Date() || !invite.vendor.isVendor) {
+    throw new BadRequestError('This invitation is no longer valid', 'INVITE_INVALID');
+  }
+
+  const account = await prisma.user.findUnique({
+    where: { id: user.userId },
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      profile: { select: { isVendor: true } },
+      vendorStaffMembership: { select: { id: true } },
+    },
+  });
+  if (!account) {
+    throw new NotFoundError('User not found');
+  }
+  if (account.email?.toLowerCase() !== invite.email) {
+    throw new ForbiddenError('This invitation was sent to a different email address', 'INVITE_EMAIL_MISMATCH');
+  }
+  if (account.profile?.isVendor) {
+    throw new ConflictError('You already run your own shop', 'ALREADY_VENDOR');
+  }
+  if (account.vendorStaffMembership) {
+    throw new ConflictError('You already work for a shop', 'ALREADY_STAFF');
+  }
+
+  // Staff pass the vendor role checks; admins keep their role
+  const role = account.role === 'customer' ? 'vendor' : account.role;
+
+  let member;
+  try {
+    [member] = await prisma.$transaction([
+      prisma.vendorStaffMember.create({
+        data: {
+          vendorId: invite.vendorId,
+          userId: account.id,
+          permissions: invite.permissions,
+          invitedById: invite.invitedById,
+        },
+      }),
+      prisma.vendorStaffInvite.update({
+        where: { id: invite.id },
+        data: { acceptedAt: new Date() },
+      }),
+      prisma.user.update({
+        where: { id: account.id },
+        data: { role },
+      }),
+    ]);
+  } catch (error: unknown) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError('You already work for a shop', 'ALREADY_STAFF');
+    }
+    throw error;
+  }
+
+  await recordAudit({
+    scope: 'vendor',
+    vendorId: invite.vendorId,
+    actorId: account.id,
+    action: 'staff.join',
+    entityType: 'vendor_staff_member',
+    entityId: member.id,
+    changes: { permissions: invite.permissions },
+    ipAddress,
+  });
+
+  return {
+    member,
+    storeName: invite.vendor.displayName,
+    token: generateToken({ userId: account.id, email: account.email, role, sessionId: user.sessionId }),
+  };
+}
+
+async function getMember(context: VendorContext, memberId: string) {
+  const member = await prisma.vendorStaffMember.findFirst({
+    where: { id: memberId, vendorId: context.vendor.id },
+  });
+  if (!member) {
+    throw new NotFoundError('Staff member not found');
+  }
+  return member;
+}
+
+/**
+ * Change what a staff member may do
+ */
+export async function updateStaffPermissions(
+  context: VendorContext,
+  memberId: string,
+  permissions: VendorPermission[],
+  ipAddress?: string | null
+) {
+  assertOwner(context);
+  const member = await getMember(context, memberId);
+
+  const next = normalizePermissions(permissions);
+  if (next.length === 0) {
+    throw new BadRequestError('Choose at least one permission, or remove the staff member', 'NO_PERMISSIONS');
+  }
+
+  const updated = await prisma.vendorStaffMember.update({
+    where: { id: member.id },
+    data: { permissions: next },
+    include: { user: { select: MEMBER_USER_SELECT } },
+  });
+
+  await recordVendorAudit(
+    context,
+    'staff.permissions_update',
+    'vendor_staff_member',
+    member.id,
+    { userId: member.userId, from: member.permissions, to: next },
+    ipAddress
+  );
+
+  return updated;
+}
+
+/**
+ * Remove a staff member from the shop. They go back to being a customer.
+ */
+export async function removeStaff(context: VendorContext, memberId: string, ipAddress?: string | null) {
+  assertOwner(context);
+  const member = await getMember(context, memberId);
+
+  await prisma.$transaction([
+    prisma.vendorStaffMember.delete({ where: { id: member.id } }),
+    prisma.user.updateMany({
+      where: { id: member.userId, role: 'vendor' },
+      data: { role: 'customer' },
+    }),
+  ]);
+
+  // Their tokens still carry the vendor role
+  await revokeAllSessions(member.userId, 'admin_revoked');
+
+  await recordVendorAudit(
+    context,
+    'staff.remove',
+    'vendor_staff_member',
+    member.id,
+    { userId: member.userId, permissions: member.permissions },
+    ipAddress
+  );
+}
@@ -18,7 +18,7 @@ export const PAYMENT_METHODS: { key: PaymentMethod; label: string; description?:
 export const PAYMENT_INSTRUCTIONS: Record<PaymentMethod, string> = {
   COD: 'Pay the full amount in cash to the delivery agent upon receiving your order.',
   TeleBirr:
-    'Enter your TeleBirr phone number and reference. We will verify your payment and confirm the order. You can dial *127# to generate or check a reference.',
+    'Enter your TeleBirr phone number and approve the payment request sent to it. If you already paid by dialing *127#, add the reference so we can match your payment.',
   CBE:
     'Transfer the total amount to our CBE account and include your Order Number as the payment remark. Account: 1000-000000-0000 (Example).',
   Awash: